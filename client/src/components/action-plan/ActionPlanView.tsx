@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
-import { Loader2, AlertCircle, CheckCircle2, Trophy, Sparkles, BarChart3, Users, Wifi, WifiOff } from 'lucide-react';
+import { Loader2, AlertCircle, CheckCircle2, Trophy, Sparkles, BarChart3, Users, Wifi, WifiOff, CalendarClock, CalendarRange, Flame, Download, Upload, History } from 'lucide-react';
 import { 
   useActionPlan, 
   useActionPlanProgress, 
@@ -12,6 +12,7 @@ import {
   useCreateTask,
   useDeleteTask,
   useReorderTasks,
+  usePlanSchedule,
 } from '@/hooks/useActionPlan';
 import { usePlanWebSocket } from '@/hooks/usePlanWebSocket';
 import { useActionPlanStore } from '@/stores/actionPlanStore';
@@ -32,11 +33,16 @@ import { TemplateWarningDialog } from './TemplateWarningDialog';
 import { ProgressDashboard } from './ProgressDashboard';
 import { CompletionCelebrationModal } from './CompletionCelebrationModal';
 import { NextActionsView } from './NextActionsView';
+import { PlanTimeline } from './PlanTimeline';
 import { RecommendationsSidebar } from './RecommendationsSidebar';
 import { InlineRecommendations } from './InlineRecommendations';
 import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
+import { ExportDialog } from './ExportDialog';
+import { ImportDialog } from './ImportDialog';
+import { PlanVersionsDialog } from './PlanVersionsDialog';
 import { UndoRedoControls } from './UndoRedoControls';
-import type { Recommendation, PlanTask, TaskUpdate } from '@/types/action-plan';
+import { CollaborationProvider } from '@/components/collaboration/CollaborationProvider';
+import type { Recommendation, PlanTask, TaskUpdate, TaskSchedule } from '@/types/action-plan';
 
 interface ActionPlanViewProps {
   searchId: number;
@@ -51,6 +57,8 @@ interface ActionPlanViewProps {
  * - Loading and error states
  * - Retry logic
  * - Overall progress bar
+ * - Projected finish date and critical path highlighting
+ * - Timeline view for rescheduling and linking tasks
  * - Zustand store for UI state management
  * - Undo/Redo functionality
  */
@@ -104,6 +112,15 @@ function ActionPlanViewInner({ searchId, onComplete }: ActionPlanViewProps) {
     data: recommendations = [],
   } = useRecommendations(plan?.id || null);
   
+  const {
+    data: schedule,
+  } = usePlanSchedule(plan?.id || null);
+  
+  const taskSchedules = useMemo(
+    () => new Map<number, TaskSchedule>((schedule?.tasks || []).map(t => [t.taskId, t])),
+    [schedule]
+  );
+  
   const applyTemplate = useApplyTemplate(plan?.id || 0);
   const updatePlanStatus = useUpdatePlanStatus(plan?.id || 0);
   const dismissRecommendation = useDismissRecommendation();
@@ -136,6 +153,9 @@ function ActionPlanViewInner({ searchId, onComplete }: ActionPlanViewProps) {
   const [dismissedRecommendations, setDismissedRecommendations] = useState<Set<string>>(new Set());
   const [recentUpdates, setRecentUpdates] = useState<Map<number, Date>>(new Map());
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showVersionsDialog, setShowVersionsDialog] = useState(false);
   const [taskEditorOpen, setTaskEditorOpen] = useState(false);
   
   // Mobile optimization
@@ -609,6 +629,15 @@ function ActionPlanViewInner({ searchId, onComplete }: ActionPlanViewProps) {
         });
         break;
       
+      case 'overdue':
+      case 'at_risk':
+        // Point the user at the dates to revisit
+        toast({
+          title: recommendation.type === 'overdue' ? 'Past Due' : 'Behind Schedule',
+          description: 'Edit the task to finish it or set a realistic due date.',
+        });
+        break;
+      
       default:
         toast({
           title: 'Suggestion Noted',
@@ -705,290 +734,384 @@ function ActionPlanViewInner({ searchId, onComplete }: ActionPlanViewProps) {
   );
   
   return (
-    <div className={cn(
-      "flex gap-6",
-      isMobile && "flex-col gap-4"
-    )}>
-      {/* Main Content */}
-      <div className="flex-1 min-w-0 space-y-4 md:space-y-6">
-        {/* Template Selector Dialog */}
-        {showTemplateSelector && (
-          <TemplateSelector
-            open={showTemplateSelector}
-            onOpenChange={setShowTemplateSelector}
-            onSelect={handleTemplateSelect}
-            currentTemplateId={plan?.templateId || undefined}
+    // Task descriptions are edited together through the plan's collaboration room
+    <CollaborationProvider roomId={`plan:${plan.id}`}>
+      <div className={cn(
+        "flex gap-6",
+        isMobile && "flex-col gap-4"
+      )}>
+        {/* Main Content */}
+        <div className="flex-1 min-w-0 space-y-4 md:space-y-6">
+          {/* Template Selector Dialog */}
+          {showTemplateSelector && (
+            <TemplateSelector
+              open={showTemplateSelector}
+              onOpenChange={setShowTemplateSelector}
+              onSelect={handleTemplateSelect}
+              currentTemplateId={plan?.templateId || undefined}
+            />
+          )}
+      
+        {/* Template Warning Dialog */}
+        <TemplateWarningDialog
+          open={showTemplateWarning}
+          onOpenChange={setShowTemplateWarning}
+          onConfirm={handleConfirmTemplateApplication}
+          templateName={selectedTemplateName}
+        />
+      
+        {/* Completion Celebration Modal */}
+        {plan && progress && (
+          <CompletionCelebrationModal
+            open={showCompletionModal}
+            onOpenChange={setShowCompletionModal}
+            plan={plan}
+            progress={progress}
+            onArchive={handleArchivePlan}
+            onStartNew={handleStartNewPlan}
           />
         )}
       
-      {/* Template Warning Dialog */}
-      <TemplateWarningDialog
-        open={showTemplateWarning}
-        onOpenChange={setShowTemplateWarning}
-        onConfirm={handleConfirmTemplateApplication}
-        templateName={selectedTemplateName}
-      />
-      
-      {/* Completion Celebration Modal */}
-      {plan && progress && (
-        <CompletionCelebrationModal
-          open={showCompletionModal}
-          onOpenChange={setShowCompletionModal}
+        {/* Keyboard Shortcuts Help Dialog */}
+        <KeyboardShortcutsDialog
+          open={showKeyboardShortcuts}
+          onOpenChange={setShowKeyboardShortcuts}
+        />
+
+        <ExportDialog
           plan={plan}
-          progress={progress}
-          onArchive={handleArchivePlan}
-          onStartNew={handleStartNewPlan}
+          open={showExportDialog}
+          onOpenChange={setShowExportDialog}
+        />
+
+        <ImportDialog
+          plan={plan}
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+        />
+
+        <PlanVersionsDialog
+          plan={plan}
+          open={showVersionsDialog}
+          onOpenChange={setShowVersionsDialog}
         />
-      )}
-      
-      {/* Keyboard Shortcuts Help Dialog */}
-      <KeyboardShortcutsDialog
-        open={showKeyboardShortcuts}
-        onOpenChange={setShowKeyboardShortcuts}
-      />
       
-      {/* Completion Celebration Banner */}
-      {progress && progress.completionPercentage === 100 && (
-        <Card className="flame-card border-green-500/50 bg-gradient-to-r from-green-500/10 to-emerald-500/10 animate-in fade-in slide-in-from-top-4 duration-500">
-          <CardContent className="pt-6">
-            <div className="flex items-center space-x-4">
-              <Trophy className="w-12 h-12 text-yellow-400 animate-bounce" />
-              <div className="flex-1">
-                <h2 className="text-2xl font-bold text-green-400 mb-1">
-                  🎉 Congratulations!
-                </h2>
-                <p className="text-gray-300">
-                  You've completed your entire action plan! All {progress.totalTasks} tasks are done.
-                </p>
+        {/* Completion Celebration Banner */}
+        {progress && progress.completionPercentage === 100 && (
+          <Card className="flame-card border-green-500/50 bg-gradient-to-r from-green-500/10 to-emerald-500/10 animate-in fade-in slide-in-from-top-4 duration-500">
+            <CardContent className="pt-6">
+              <div className="flex items-center space-x-4">
+                <Trophy className="w-12 h-12 text-yellow-400 animate-bounce" />
+                <div className="flex-1">
+                  <h2 className="text-2xl font-bold text-green-400 mb-1">
+                    🎉 Congratulations!
+                  </h2>
+                  <p className="text-gray-300">
+                    You've completed your entire action plan! All {progress.totalTasks} tasks are done.
+                  </p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+            </CardContent>
+          </Card>
+        )}
       
-      {/* Header Section */}
-      <div className="space-y-4">
-        <div className={cn(
-          "flex items-start justify-between",
-          isMobile && "flex-col gap-4"
-        )}>
-          <div className="flex-1 w-full">
-            <div className={cn(
-              "flex items-center gap-3 mb-2",
-              isMobile && "flex-col items-start gap-2"
-            )}>
-              <h1 className={cn(
-                "font-bold text-white",
-                isSmallScreen ? "text-2xl" : "text-3xl"
-              )}>
-                {plan.title}
-              </h1>
-              
-              {/* Connection Status Indicator */}
+        {/* Header Section */}
+        <div className="space-y-4">
+          <div className={cn(
+            "flex items-start justify-between",
+            isMobile && "flex-col gap-4"
+          )}>
+            <div className="flex-1 w-full">
               <div className={cn(
-                "flex items-center gap-2",
-                isMobile && "flex-wrap"
+                "flex items-center gap-3 mb-2",
+                isMobile && "flex-col items-start gap-2"
               )}>
-                <Badge
-                  variant={isConnected ? 'default' : 'secondary'}
-                  className={cn(
-                    'flex items-center gap-1.5 transition-colors',
-                    isConnected 
-                      ? 'bg-green-500/20 text-green-400 border-green-500/50' 
-                      : 'bg-gray-500/20 text-gray-400 border-gray-500/50',
-                    isSmallScreen && 'text-xs'
-                  )}
-                >
-                  {isConnected ? (
-                    <Wifi className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
-                  ) : (
-                    <WifiOff className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
-                  )}
-                  {isConnected ? 'Live' : 'Offline'}
-                </Badge>
-                
-                {/* Presence Indicator */}
-                {isConnected && participantCount > 1 && (
+                <h1 className={cn(
+                  "font-bold text-white",
+                  isSmallScreen ? "text-2xl" : "text-3xl"
+                )}>
+                  {plan.title}
+                </h1>
+              
+                {/* Connection Status Indicator */}
+                <div className={cn(
+                  "flex items-center gap-2",
+                  isMobile && "flex-wrap"
+                )}>
                   <Badge
-                    variant="outline"
+                    variant={isConnected ? 'default' : 'secondary'}
                     className={cn(
-                      "flex items-center gap-1.5 bg-purple-500/20 text-purple-400 border-purple-500/50",
+                      'flex items-center gap-1.5 transition-colors',
+                      isConnected 
+                        ? 'bg-green-500/20 text-green-400 border-green-500/50' 
+                        : 'bg-gray-500/20 text-gray-400 border-gray-500/50',
                       isSmallScreen && 'text-xs'
                     )}
                   >
-                    <Users className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
-                    {participantCount} {participantCount === 1 ? 'viewer' : 'viewers'}
+                    {isConnected ? (
+                      <Wifi className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
+                    ) : (
+                      <WifiOff className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
+                    )}
+                    {isConnected ? 'Live' : 'Offline'}
                   </Badge>
-                )}
+                
+                  {/* Presence Indicator */}
+                  {isConnected && participantCount > 1 && (
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "flex items-center gap-1.5 bg-purple-500/20 text-purple-400 border-purple-500/50",
+                        isSmallScreen && 'text-xs'
+                      )}
+                    >
+                      <Users className={cn("w-3 h-3", isSmallScreen && "w-2.5 h-2.5")} />
+                      {participantCount} {participantCount === 1 ? 'viewer' : 'viewers'}
+                    </Badge>
+                  )}
+                </div>
               </div>
-            </div>
-            
-            {plan.description && (
-              <p className={cn(
-                "text-gray-400",
-                isSmallScreen ? "text-sm" : "text-lg"
-              )}>
-                {plan.description}
-              </p>
-            )}
-          </div>
-          <div className={cn(
-            "flex items-center gap-2",
-            isMobile ? "w-full flex-wrap" : "ml-4"
-          )}>
-            {/* Undo/Redo Controls */}
-            <UndoRedoControls
-              canUndo={canUndo}
-              canRedo={canRedo}
-              onUndo={undo}
-              onRedo={redo}
-              undoDescription={nextUndoDescription}
-              redoDescription={nextRedoDescription}
-              isPerforming={isUndoRedoPerforming}
-            />
             
-            <Button
-              onClick={() => setShowTemplateSelector(true)}
-              variant="outline"
-              size={isSmallScreen ? "sm" : "default"}
-              className={cn(
-                "border-purple-500/50 hover:bg-purple-500/10",
-                isMobile && "flex-1"
+              {plan.description && (
+                <p className={cn(
+                  "text-gray-400",
+                  isSmallScreen ? "text-sm" : "text-lg"
+                )}>
+                  {plan.description}
+                </p>
               )}
-            >
-              <Sparkles className="w-4 h-4 mr-2" />
-              {isSmallScreen ? "Template" : "Change Template"}
-            </Button>
+            </div>
+            <div className={cn(
+              "flex items-center gap-2",
+              isMobile ? "w-full flex-wrap" : "ml-4"
+            )}>
+              {/* Undo/Redo Controls */}
+              <UndoRedoControls
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                undoDescription={nextUndoDescription}
+                redoDescription={nextRedoDescription}
+                isPerforming={isUndoRedoPerforming}
+              />
+            
+              <Button
+                onClick={() => setShowTemplateSelector(true)}
+                variant="outline"
+                size={isSmallScreen ? "sm" : "default"}
+                className={cn(
+                  "border-purple-500/50 hover:bg-purple-500/10",
+                  isMobile && "flex-1"
+                )}
+              >
+                <Sparkles className="w-4 h-4 mr-2" />
+                {isSmallScreen ? "Template" : "Change Template"}
+              </Button>
+
+              <Button
+                onClick={() => setShowExportDialog(true)}
+                variant="outline"
+                size={isSmallScreen ? "sm" : "default"}
+                className={cn(isMobile && "flex-1")}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+
+              <Button
+                onClick={() => setShowImportDialog(true)}
+                variant="outline"
+                size={isSmallScreen ? "sm" : "default"}
+                className={cn(isMobile && "flex-1")}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+
+              <Button
+                onClick={() => setShowVersionsDialog(true)}
+                variant="outline"
+                size={isSmallScreen ? "sm" : "default"}
+                className={cn(isMobile && "flex-1")}
+              >
+                <History className="w-4 h-4 mr-2" />
+                Versions
+              </Button>
+            </div>
           </div>
-        </div>
         
-        {/* Overall Progress Bar */}
-        {progress && !isLoadingProgress && (
-          <Card className="flame-card">
-            <CardContent className="pt-6">
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-2">
-                    <CheckCircle2 className="w-5 h-5 text-green-500" />
-                    <span className="text-white font-semibold">
-                      Overall Progress
+          {/* Overall Progress Bar */}
+          {progress && !isLoadingProgress && (
+            <Card className="flame-card">
+              <CardContent className="pt-6">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <CheckCircle2 className="w-5 h-5 text-green-500" />
+                      <span className="text-white font-semibold">
+                        Overall Progress
+                      </span>
+                    </div>
+                    <span className="text-2xl font-bold text-white">
+                      {progress.completionPercentage}%
                     </span>
                   </div>
-                  <span className="text-2xl font-bold text-white">
-                    {progress.completionPercentage}%
-                  </span>
-                </div>
                 
-                <Progress
-                  value={progress.completionPercentage}
-                  className="h-3 transition-all duration-500"
-                />
+                  <Progress
+                    value={progress.completionPercentage}
+                    className="h-3 transition-all duration-500"
+                  />
                 
-                <div className="flex items-center justify-between text-sm text-gray-400">
-                  <span>
-                    {progress.completedTasks} of {progress.totalTasks} tasks completed
-                  </span>
-                  {progress.inProgressTasks > 0 && (
+                  <div className="flex items-center justify-between text-sm text-gray-400">
                     <span>
-                      {progress.inProgressTasks} in progress
+                      {progress.completedTasks} of {progress.totalTasks} tasks completed
                     </span>
-                  )}
+                    {progress.inProgressTasks > 0 && (
+                      <span>
+                        {progress.inProgressTasks} in progress
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        )}
-      </div>
-      
-      {/* Tabs for Plan View, Next Actions, and Dashboard */}
-      <Tabs defaultValue="plan" className="w-full">
-        <TabsList className={cn(
-          "grid w-full grid-cols-3 mb-4 md:mb-6",
-          isMobile ? "max-w-full" : "max-w-2xl"
-        )}>
-          <TabsTrigger value="plan" className={isSmallScreen ? "text-xs px-2" : ""}>
-            {isSmallScreen ? "Plan" : "Action Plan"}
-          </TabsTrigger>
-          <TabsTrigger value="next-actions" className={isSmallScreen ? "text-xs px-2" : ""}>
-            <Sparkles className={cn("w-4 h-4", !isSmallScreen && "mr-2")} />
-            {!isSmallScreen && "Next Actions"}
-          </TabsTrigger>
-          <TabsTrigger value="dashboard" className={isSmallScreen ? "text-xs px-2" : ""}>
-            <BarChart3 className={cn("w-4 h-4", !isSmallScreen && "mr-2")} />
-            {!isSmallScreen && "Dashboard"}
-          </TabsTrigger>
-        </TabsList>
+              </CardContent>
+            </Card>
+          )}
         
-        <TabsContent value="plan" className="space-y-4">
-          {/* Inline Recommendations */}
-          {visibleRecommendations.length > 0 && (
-            <InlineRecommendations
-              recommendations={visibleRecommendations}
-              onDismiss={handleDismissRecommendation}
-              onApply={handleApplyRecommendation}
-              maxVisible={2}
-            />
+          {/* Projected Schedule */}
+          {schedule && schedule.tasks.length > 0 && (
+            <Card className="flame-card" data-testid="plan-schedule-summary">
+              <CardContent className="pt-6">
+                <div className={cn(
+                  "flex items-center justify-between gap-4",
+                  isMobile && "flex-col items-start"
+                )}>
+                  <div className="flex items-center space-x-2">
+                    <CalendarClock className="w-5 h-5 text-purple-400" />
+                    <span className="text-white font-semibold">Projected finish</span>
+                    <span className="text-white">
+                      {new Date(schedule.finishDate).toLocaleDateString(undefined, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-gray-400">
+                    <span className="flex items-center space-x-1 text-red-400">
+                      <Flame className="w-4 h-4" />
+                      <span>
+                        {schedule.criticalPath.length} critical task{schedule.criticalPath.length !== 1 ? 's' : ''}
+                      </span>
+                    </span>
+                    <span>{Math.round(schedule.totalWorkingHours)} working hours remaining</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           )}
+        </div>
+      
+        {/* Tabs for Plan View, Next Actions, Timeline, and Dashboard */}
+        <Tabs defaultValue="plan" className="w-full">
+          <TabsList className={cn(
+            "grid w-full grid-cols-4 mb-4 md:mb-6",
+            isMobile ? "max-w-full" : "max-w-2xl"
+          )}>
+            <TabsTrigger value="plan" className={isSmallScreen ? "text-xs px-2" : ""}>
+              {isSmallScreen ? "Plan" : "Action Plan"}
+            </TabsTrigger>
+            <TabsTrigger value="next-actions" className={isSmallScreen ? "text-xs px-2" : ""}>
+              <Sparkles className={cn("w-4 h-4", !isSmallScreen && "mr-2")} />
+              {!isSmallScreen && "Next Actions"}
+            </TabsTrigger>
+            <TabsTrigger value="timeline" className={isSmallScreen ? "text-xs px-2" : ""}>
+              <CalendarRange className={cn("w-4 h-4", !isSmallScreen && "mr-2")} />
+              {!isSmallScreen && "Timeline"}
+            </TabsTrigger>
+            <TabsTrigger value="dashboard" className={isSmallScreen ? "text-xs px-2" : ""}>
+              <BarChart3 className={cn("w-4 h-4", !isSmallScreen && "mr-2")} />
+              {!isSmallScreen && "Dashboard"}
+            </TabsTrigger>
+          </TabsList>
+        
+          <TabsContent value="plan" className="space-y-4">
+            {/* Inline Recommendations */}
+            {visibleRecommendations.length > 0 && (
+              <InlineRecommendations
+                recommendations={visibleRecommendations}
+                onDismiss={handleDismissRecommendation}
+                onApply={handleApplyRecommendation}
+                maxVisible={2}
+              />
+            )}
           
-          {/* Phase Accordions */}
-          {plan.phases.map((phase) => (
-            <PhaseAccordion
-              key={phase.id}
-              phase={phase}
-              planId={plan.id}
+            {/* Phase Accordions */}
+            {plan.phases.map((phase) => (
+              <PhaseAccordion
+                key={phase.id}
+                phase={phase}
+                planId={plan.id}
+                plan={plan}
+                recentUpdates={recentUpdates}
+                taskSchedules={taskSchedules}
+              />
+            ))}
+          </TabsContent>
+        
+          <TabsContent value="next-actions">
+            <NextActionsView
               plan={plan}
-              recentUpdates={recentUpdates}
+              onEditTask={(task) => {
+                // Find the phase for this task and open the editor
+                const phase = plan.phases.find(p => p.tasks.some(t => t.id === task.id));
+                if (phase) {
+                  // This will be handled by the phase accordion
+                  console.log('Edit task from Next Actions:', task);
+                }
+              }}
+              onDeleteTask={(taskId) => {
+                // This will be handled by the phase accordion
+                console.log('Delete task from Next Actions:', taskId);
+              }}
             />
-          ))}
-        </TabsContent>
+          </TabsContent>
         
-        <TabsContent value="next-actions">
-          <NextActionsView
-            plan={plan}
-            onEditTask={(task) => {
-              // Find the phase for this task and open the editor
-              const phase = plan.phases.find(p => p.tasks.some(t => t.id === task.id));
-              if (phase) {
-                // This will be handled by the phase accordion
-                console.log('Edit task from Next Actions:', task);
-              }
-            }}
-            onDeleteTask={(taskId) => {
-              // This will be handled by the phase accordion
-              console.log('Delete task from Next Actions:', taskId);
-            }}
-          />
-        </TabsContent>
+          <TabsContent value="timeline">
+            <PlanTimeline plan={plan} schedule={schedule} />
+          </TabsContent>
         
-        <TabsContent value="dashboard">
-          {progress && (
-            <ProgressDashboard
-              progress={progress}
-              phases={plan.phases}
-              progressHistory={progressHistory || []}
-            />
-          )}
-        </TabsContent>
-      </Tabs>
-      </div>
+          <TabsContent value="dashboard">
+            {progress && (
+              <ProgressDashboard
+                progress={progress}
+                phases={plan.phases}
+                progressHistory={progressHistory || []}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+        </div>
       
-      {/* Recommendations Sidebar - Hidden on mobile, shown as inline on small screens */}
-      {!isMobile && (
-        <div className={cn(
-          'transition-all duration-300',
-          isSidebarCollapsed ? 'w-12' : 'w-80'
-        )}>
-          <div className="sticky top-6">
-            <RecommendationsSidebar
-              recommendations={visibleRecommendations}
-              onDismiss={handleDismissRecommendation}
-              onApply={handleApplyRecommendation}
-              isCollapsed={isSidebarCollapsed}
-              onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
-            />
+        {/* Recommendations Sidebar - Hidden on mobile, shown as inline on small screens */}
+        {!isMobile && (
+          <div className={cn(
+            'transition-all duration-300',
+            isSidebarCollapsed ? 'w-12' : 'w-80'
+          )}>
+            <div className="sticky top-6">
+              <RecommendationsSidebar
+                recommendations={visibleRecommendations}
+                onDismiss={handleDismissRecommendation}
+                onApply={handleApplyRecommendation}
+                isCollapsed={isSidebarCollapsed}
+                onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+              />
+            </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </CollaborationProvider>
   );
 }
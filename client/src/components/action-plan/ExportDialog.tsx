@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Download, FileText, FileJson, FileCode, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { Download, FileText, FileJson, FileCode, CalendarDays, ChartGantt, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -26,9 +26,14 @@ import type { ActionPlan } from '@shared/schema';
 
 /**
  * Export format type
- * Supports CSV, JSON, Markdown, and future integrations (Trello, Asana)
+ * Supports CSV, JSON, Markdown, iCalendar, MS Project XML, and future integrations (Trello, Asana)
  */
-export type ExportFormat = 'csv' | 'json' | 'markdown' | 'trello' | 'asana';
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'ics' | 'msproject' | 'trello' | 'asana';
+
+const FILE_EXTENSIONS: Partial<Record<ExportFormat, string>> = {
+  markdown: 'md',
+  msproject: 'xml',
+};
 
 /**
  * Export status type
@@ -48,7 +53,7 @@ interface ExportDialogProps {
  * ExportDialog Component
  * 
  * Modal dialog for exporting action plans with:
- * - Format selection (CSV, JSON, Markdown, Trello, Asana)
+ * - Format selection (CSV, JSON, Markdown, iCalendar, MS Project, Trello, Asana)
  * - Option to include/exclude completed tasks
  * - Export progress indicator
  * - Download link when ready
@@ -100,6 +105,18 @@ export function ExportDialog({
       description: 'Checklist format for GitHub, Notion, Obsidian',
       available: true,
     },
+    ics: {
+      icon: <CalendarDays className="h-4 w-4" />,
+      label: 'iCalendar',
+      description: 'Dated tasks for Google Calendar, Outlook, Apple Calendar',
+      available: true,
+    },
+    msproject: {
+      icon: <ChartGantt className="h-4 w-4" />,
+      label: 'MS Project',
+      description: 'XML project file with phases and dependencies',
+      available: true,
+    },
     trello: {
       icon: <FileText className="h-4 w-4" />,
       label: 'Trello',
@@ -212,7 +229,7 @@ export function ExportDialog({
       .substring(0, 50);
 
     const timestamp = new Date().toISOString().split('T')[0];
-    const extension = format === 'markdown' ? 'md' : format;
+    const extension = FILE_EXTENSIONS[format] ?? format;
 
     return `action-plan-${sanitizedTitle}-${timestamp}.${extension}`;
   };
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Upload, Plus, Pencil, Trash2, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useApplyPlanImport, usePreviewPlanImport, type PlanImportFile } from '@/hooks/useActionPlan';
+import type { ActionPlan } from '@shared/schema';
+
+interface ImportDialogProps {
+  /** Action plan to import into */
+  plan: ActionPlan | null;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when dialog should close */
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  estimatedTime: 'Estimate',
+  resources: 'Resources',
+  order: 'Order',
+  startDate: 'Start',
+  dueDate: 'Due',
+  phase: 'Phase',
+};
+
+/**
+ * Short display form of a changed value
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return text.slice(0, 10);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * ImportDialog Component
+ *
+ * Re-imports an edited CSV or JSON export of the plan:
+ * - File selection (format inferred from the extension)
+ * - Preview of created, updated and deleted tasks before anything changes
+ * - Row errors block the import until the file is fixed
+ */
+export function ImportDialog({
+  plan,
+  open,
+  onOpenChange,
+}: ImportDialogProps) {
+  const [file, setFile] = useState<PlanImportFile | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const preview = usePreviewPlanImport(plan?.id ?? 0);
+  const applyImport = useApplyPlanImport(plan?.id ?? 0);
+  const { toast } = useToast();
+
+  // Reset state when dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setFile(null);
+      setFileName(null);
+      preview.reset();
+      applyImport.reset();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected || !plan) return;
+
+    const format = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    const importFile: PlanImportFile = { format, content: await selected.text() };
+
+    setFile(importFile);
+    setFileName(selected.name);
+    preview.mutate(importFile);
+  };
+
+  const handleApply = () => {
+    if (!file) return;
+
+    applyImport.mutate(file, {
+      onSuccess: (result) => {
+        toast({
+          title: 'Import applied',
+          description: `${result.created} created, ${result.updated} updated, ${result.deleted} deleted`,
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          title: 'Import failed',
+          description: error instanceof Error ? error.message : 'An unexpected error occurred',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const diff = preview.data;
+  const hasChanges = !!diff && (diff.created.length + diff.updated.length + diff.deleted.length) > 0;
+  const canApply = hasChanges && diff.errors.length === 0 && !applyImport.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-[600px]"
+        data-testid="import-dialog"
+      >
+        <DialogHeader>
+          <DialogTitle>Import Changes</DialogTitle>
+          <DialogDescription>
+            Upload an edited CSV or JSON export of this plan to review the changes before applying them
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Plan file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={preview.isPending || applyImport.isPending}
+              data-testid="import-file-input"
+            />
+            {fileName && (
+              <p className="text-xs text-muted-foreground">{fileName}</p>
+            )}
+          </div>
+
+          {preview.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="import-preview-loading">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Comparing with the current plan...
+            </div>
+          )}
+
+          {preview.isError && (
+            <Alert variant="destructive" data-testid="import-preview-error">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {preview.error instanceof Error ? preview.error.message : 'Could not read the file'}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {diff && (
+            <div className="space-y-3" data-testid="import-preview">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{diff.created.length} new</Badge>
+                <Badge variant="secondary">{diff.updated.length} changed</Badge>
+                <Badge variant={diff.deleted.length > 0 ? 'destructive' : 'secondary'}>
+                  {diff.deleted.length} deleted
+                </Badge>
+                <Badge variant="outline">{diff.unchanged} unchanged</Badge>
+              </div>
+
+              {diff.errors.length > 0 && (
+                <Alert variant="destructive" data-testid="import-row-errors">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="space-y-1">
+                      {diff.errors.map(error => (
+                        <li key={`${error.row}-${error.message}`}>Row {error.row}: {error.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {!hasChanges && diff.errors.length === 0 && (
+                <Alert data-testid="import-no-changes">
+                  <CheckCircle2 className="h-4 w-4" />
+                  <AlertDescription>The file matches the current plan.</AlertDescription>
+                </Alert>
+              )}
+
+              {hasChanges && (
+                <ScrollArea className="max-h-72 rounded-md border">
+                  <ul className="divide-y text-sm">
+                    {diff.created.map(task => (
+                      <li key={`created-${task.row}`} className="flex items-start gap-2 p-2">
+                        <Plus className="h-4 w-4 mt-0.5 text-green-600" />
+                        <div>
+                          <p className="font-medium">{task.title}</p>
+                          <p className="text-xs text-muted-foreground">New task in {task.phaseName}</p>
+                        </div>
+                      </li>
+                    ))}
+                    {diff.updated.map(task => (
+                      <li key={`updated-${task.taskId}`} className="flex items-start gap-2 p-2">
+                        <Pencil className="h-4 w-4 mt-0.5 text-blue-600" />
+                        <div className="min-w-0">
+                          <p className="font-medium">{task.title}</p>
+                          {task.changes.map(change => (
+                            <p key={change.field} className="text-xs text-muted-foreground truncate">
+                              {FIELD_LABELS[change.field] ?? change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                            </p>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                    {diff.deleted.map(task => (
+                      <li key={`deleted-${task.taskId}`} className="flex items-start gap-2 p-2">
+                        <Trash2 className="h-4 w-4 mt-0.5 text-destructive" />
+                        <div>
+                          <p className="font-medium line-through">{task.title}</p>
+                          <p className="text-xs text-muted-foreground">Removed from {task.phaseName}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={applyImport.isPending}
+            data-testid="import-dialog-cancel"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={!canApply}
+            data-testid="import-dialog-apply"
+          >
+            {applyImport.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Apply Changes
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { ChevronDown, CheckCircle2, Circle, Clock, Sparkles, Plus } from 'lucide-react';
+import { ChevronDown, CheckCircle2, Circle, Clock, Sparkles, Plus, CalendarDays } from 'lucide-react';
 import { useActionPlanStore } from '@/stores/actionPlanStore';
 import { useTouchFriendly } from '@/hooks/useTouchFriendly';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
-import type { PlanPhaseWithTasks, PlanTask } from '@/types/action-plan';
+import type { PlanPhaseWithTasks, PlanTask, TaskSchedule } from '@/types/action-plan';
 import { TaskItem } from './TaskItem';
 import { TaskEditor } from './TaskEditor';
 import { DeleteTaskDialog } from './DeleteTaskDialog';
@@ -35,6 +35,7 @@ interface PhaseAccordionProps {
   planId: number;
   plan?: import('@/types/action-plan').ActionPlanWithDetails;
   recentUpdates?: Map<number, Date>;
+  taskSchedules?: Map<number, TaskSchedule>;
 }
 
 /**
@@ -49,7 +50,7 @@ interface PhaseAccordionProps {
  * 
  * Requirements: 1.1, 1.2
  */
-export function PhaseAccordion({ phase, planId, plan, recentUpdates }: PhaseAccordionProps) {
+export function PhaseAccordion({ phase, planId, plan, recentUpdates, taskSchedules }: PhaseAccordionProps) {
   const { expandedPhases, togglePhase, selectedTaskId } = useActionPlanStore();
   const isExpanded = expandedPhases.has(phase.id);
   const contentRef = useRef<HTMLDivElement>(null);
@@ -479,6 +480,27 @@ export function PhaseAccordion({ phase, planId, plan, recentUpdates }: PhaseAcco
             </div>
           )}
           
+          {/* Planned Dates */}
+          {(phase.startDate || phase.dueDate) && (
+            <div
+              className={cn(
+                "mb-4 flex items-center space-x-2",
+                !isPhaseComplete && phase.dueDate && new Date(phase.dueDate) < new Date()
+                  ? "text-red-400"
+                  : "text-gray-400",
+                isSmallScreen ? "text-xs" : "text-sm"
+              )}
+              data-testid={`phase-dates-${phase.id}`}
+            >
+              <CalendarDays className={cn(isSmallScreen ? "w-3 h-3" : "w-4 h-4")} />
+              <span>
+                {phase.startDate && `Starts ${new Date(phase.startDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}`}
+                {phase.startDate && phase.dueDate && ' · '}
+                {phase.dueDate && `Due ${new Date(phase.dueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}`}
+              </span>
+            </div>
+          )}
+          
           {/* Task List with Drag and Drop */}
           <DndContext
             sensors={sensors}
@@ -502,6 +524,7 @@ export function PhaseAccordion({ phase, planId, plan, recentUpdates }: PhaseAcco
                       isNewlyAvailable={newlyAvailableTasks.has(task.id)}
                       isRecentlyUpdated={recentUpdates?.has(task.id)}
                       isSelected={selectedTaskId === task.id}
+                      schedule={taskSchedules?.get(task.id)}
                       onEdit={(task: PlanTask) => {
                         setEditingTask(task);
                         setIsTaskEditorOpen(true);
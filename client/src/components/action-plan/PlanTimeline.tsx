@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarRange, Link2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useUpdateTask, useLinkTasks, usePlanDependencies } from '@/hooks/useActionPlan';
+import type { ActionPlanWithDetails, PlanSchedule, TaskSchedule } from '@/types/action-plan';
+
+const DAY_WIDTH = 32;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 200;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface PlanTimelineProps {
+  plan: ActionPlanWithDetails;
+  schedule: PlanSchedule | null | undefined;
+}
+
+type DragMode = 'move' | 'resize' | 'link';
+
+interface DragState {
+  mode: DragMode;
+  taskId: number;
+  originX: number;
+  deltaDays: number;
+  pointer: { x: number; y: number };
+}
+
+type TimelineRow =
+  | { kind: 'phase'; id: number; name: string; start: number; finish: number }
+  | { kind: 'task'; id: number; name: string; schedule: TaskSchedule };
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / MS_PER_DAY) * MS_PER_DAY;
+}
+
+/**
+ * Express working hours as whole days of the schedule's calendar when they divide evenly,
+ * matching how estimates are usually written
+ */
+function formatEstimate(hours: number, hoursPerDay: number): string {
+  if (hours % hoursPerDay === 0) {
+    const days = hours / hoursPerDay;
+    return `${days} day${days !== 1 ? 's' : ''}`;
+  }
+  return `${hours} hour${hours !== 1 ? 's' : ''}`;
+}
+
+/**
+ * PlanTimeline Component
+ *
+ * Gantt-style view of the plan schedule with:
+ * - Phase and task bars positioned from the computed schedule
+ * - Dependency arrows between prerequisite and dependent tasks
+ * - Drag a bar to pin its start date, snapped to whole days
+ * - Drag the right edge to change the estimate
+ * - Drag from the connector handle onto another bar to add a dependency
+ *
+ * Completed and skipped tasks are shown but cannot be moved.
+ */
+export function PlanTimeline({ plan, schedule }: PlanTimelineProps) {
+  const { toast } = useToast();
+  const updateTask = useUpdateTask();
+  const linkTasks = useLinkTasks(plan.id);
+  const { data: dependencyMap } = usePlanDependencies(plan.id);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const taskSchedules = useMemo(
+    () => new Map<number, TaskSchedule>((schedule?.tasks || []).map(t => [t.taskId, t])),
+    [schedule]
+  );
+
+  const rows = useMemo<TimelineRow[]>(() => {
+    const result: TimelineRow[] = [];
+    plan.phases.forEach(phase => {
+      const scheduled = phase.tasks
+        .map(task => taskSchedules.get(task.id))
+        .filter((t): t is TaskSchedule => t !== undefined);
+      if (scheduled.length === 0) return;
+
+      result.push({
+        kind: 'phase',
+        id: phase.id,
+        name: phase.name,
+        start: Math.min(...scheduled.map(t => new Date(t.startDate).getTime())),
+        finish: Math.max(...scheduled.map(t => new Date(t.finishDate).getTime())),
+      });
+      scheduled.forEach(t => result.push({ kind: 'task', id: t.taskId, name: t.title, schedule: t }));
+    });
+    return result;
+  }, [plan.phases, taskSchedules]);
+
+  const rangeStart = schedule ? startOfUtcDay(new Date(schedule.startDate).getTime()) : 0;
+  const totalDays = schedule
+    ? Math.max(7, Math.ceil((new Date(schedule.finishDate).getTime() - rangeStart) / MS_PER_DAY) + 2)
+    : 0;
+
+  const xFor = useCallback((time: number) => ((time - rangeStart) / MS_PER_DAY) * DAY_WIDTH, [rangeStart]);
+
+  const rowIndexByTask = useMemo(() => {
+    const map = new Map<number, number>();
+    rows.forEach((row, index) => {
+      if (row.kind === 'task') map.set(row.id, index);
+    });
+    return map;
+  }, [rows]);
+
+  const commitMove = useCallback((taskSchedule: TaskSchedule, deltaDays: number) => {
+    if (!schedule || deltaDays === 0) return;
+
+    const start = new Date(startOfUtcDay(new Date(taskSchedule.startDate).getTime()) + deltaDays * MS_PER_DAY);
+    start.setUTCHours(schedule.calendar.dayStartHour, 0, 0, 0);
+
+    // The server rejects a start earlier than any prerequisite finishes
+    updateTask.mutate(
+      { id: taskSchedule.taskId, startDate: start.toISOString() },
+      {
+        onError: (error) => {
+          toast({
+            title: 'Cannot move task',
+            description: error instanceof Error ? error.message : 'Failed to move task',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  }, [schedule, toast, updateTask]);
+
+  const commitResize = useCallback((taskSchedule: TaskSchedule, deltaDays: number) => {
+    if (!schedule || deltaDays === 0) return;
+
+    const hours = Math.max(1, Math.round(taskSchedule.durationHours + deltaDays * schedule.calendar.hoursPerDay));
+    updateTask.mutate({ id: taskSchedule.taskId, estimatedTime: formatEstimate(hours, schedule.calendar.hoursPerDay) });
+  }, [schedule, updateTask]);
+
+  const commitLink = useCallback((prerequisiteTaskId: number, clientX: number, clientY: number) => {
+    const target = document.elementFromPoint(clientX, clientY)?.closest('[data-timeline-task-id]');
+    const taskId = Number(target?.getAttribute('data-timeline-task-id'));
+    if (!taskId || taskId === prerequisiteTaskId) return;
+
+    linkTasks.mutate(
+      { taskId, prerequisiteTaskId },
+      {
+        onError: (error) => {
+          toast({
+            title: 'Cannot link tasks',
+            description: error instanceof Error ? error.message : 'Failed to add dependency',
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  }, [linkTasks, toast]);
+
+  // Track the pointer on the window so drags keep working outside the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      setDrag(prev => prev && {
+        ...prev,
+        deltaDays: Math.round((event.clientX - prev.originX) / DAY_WIDTH),
+        pointer: rect ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : prev.pointer,
+      });
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      const taskSchedule = taskSchedules.get(drag.taskId);
+      if (taskSchedule) {
+        const deltaDays = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+        if (drag.mode === 'move') commitMove(taskSchedule, deltaDays);
+        if (drag.mode === 'resize') commitResize(taskSchedule, deltaDays);
+        if (drag.mode === 'link') commitLink(drag.taskId, event.clientX, event.clientY);
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, taskSchedules, commitMove, commitResize, commitLink]);
+
+  const startDrag = (mode: DragMode, taskId: number) => (event: React.PointerEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = containerRef.current?.getBoundingClientRect();
+    setDrag({
+      mode,
+      taskId,
+      originX: event.clientX,
+      deltaDays: 0,
+      pointer: rect ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : { x: 0, y: 0 },
+    });
+  };
+
+  if (!schedule || rows.length === 0) {
+    return (
+      <Card className="flame-card">
+        <CardContent className="pt-6 text-gray-400" data-testid="plan-timeline-empty">
+          No scheduled tasks to show yet.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Bar geometry, including the in-flight drag preview
+  const barFor = (taskSchedule: TaskSchedule) => {
+    let left = xFor(new Date(taskSchedule.startDate).getTime());
+    let width = Math.max(xFor(new Date(taskSchedule.finishDate).getTime()) - left, DAY_WIDTH / 4);
+    if (drag?.taskId === taskSchedule.taskId) {
+      if (drag.mode === 'move') left += drag.deltaDays * DAY_WIDTH;
+      if (drag.mode === 'resize') width = Math.max(DAY_WIDTH / 4, width + drag.deltaDays * DAY_WIDTH);
+    }
+    return { left, width };
+  };
+
+  const arrows: Array<{ key: string; from: { x: number; y: number }; to: { x: number; y: number } }> = [];
+  dependencyMap?.forEach((deps, taskId) => {
+    const toRow = rowIndexByTask.get(taskId);
+    const toSchedule = taskSchedules.get(taskId);
+    if (toRow === undefined || !toSchedule) return;
+
+    deps.prerequisites.forEach((prereqId: number) => {
+      const fromRow = rowIndexByTask.get(prereqId);
+      const fromSchedule = taskSchedules.get(prereqId);
+      if (fromRow === undefined || !fromSchedule) return;
+
+      const fromBar = barFor(fromSchedule);
+      const toBar = barFor(toSchedule);
+      arrows.push({
+        key: `${prereqId}-${taskId}`,
+        from: { x: fromBar.left + fromBar.width, y: fromRow * ROW_HEIGHT + ROW_HEIGHT / 2 },
+        to: { x: toBar.left, y: toRow * ROW_HEIGHT + ROW_HEIGHT / 2 },
+      });
+    });
+  });
+
+  const linkSource = drag?.mode === 'link' ? taskSchedules.get(drag.taskId) : undefined;
+  const linkSourceRow = linkSource ? rowIndexByTask.get(linkSource.taskId) : undefined;
+  const chartWidth = totalDays * DAY_WIDTH;
+  const chartHeight = rows.length * ROW_HEIGHT;
+
+  return (
+    <Card className="flame-card" data-testid="plan-timeline">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <CalendarRange className="w-5 h-5 text-purple-400" />
+          Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex overflow-x-auto select-none">
+          {/* Row labels */}
+          <div className="shrink-0" style={{ width: LABEL_WIDTH }}>
+            <div style={{ height: ROW_HEIGHT }} />
+            {rows.map(row => (
+              <div
+                key={`${row.kind}-${row.id}`}
+                className={cn(
+                  "flex items-center truncate pr-2 text-sm",
+                  row.kind === 'phase' ? "font-semibold text-white" : "pl-3 text-gray-300"
+                )}
+                style={{ height: ROW_HEIGHT }}
+                title={row.name}
+              >
+                {row.name}
+              </div>
+            ))}
+          </div>
+
+          <div className="relative" style={{ width: chartWidth }}>
+            {/* Day header */}
+            <div className="flex" style={{ height: ROW_HEIGHT }}>
+              {Array.from({ length: totalDays }, (_, day) => {
+                const date = new Date(rangeStart + day * MS_PER_DAY);
+                const isWorkingDay = schedule.calendar.workingDays.includes(date.getUTCDay());
+                return (
+                  <div
+                    key={day}
+                    className={cn(
+                      "shrink-0 border-l border-gray-700 text-[10px] text-center leading-tight",
+                      isWorkingDay ? "text-gray-400" : "text-gray-600"
+                    )}
+                    style={{ width: DAY_WIDTH }}
+                  >
+                    {date.getUTCDate() === 1 || day === 0
+                      ? date.toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' })
+                      : ' '}
+                    <br />
+                    {date.getUTCDate()}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Bars */}
+            <div ref={containerRef} className="relative" style={{ height: chartHeight }}>
+              {rows.map((row, index) => {
+                const top = index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+
+                if (row.kind === 'phase') {
+                  const left = xFor(row.start);
+                  return (
+                    <div
+                      key={`phase-${row.id}`}
+                      className="absolute rounded-sm bg-purple-500/40 border border-purple-400"
+                      style={{ top: top + BAR_HEIGHT / 4, left, width: Math.max(xFor(row.finish) - left, 4), height: BAR_HEIGHT / 2 }}
+                    />
+                  );
+                }
+
+                const taskSchedule = row.schedule;
+                const isDone = taskSchedule.estimateSource === 'done';
+                const { left, width } = barFor(taskSchedule);
+
+                return (
+                  <div
+                    key={`task-${row.id}`}
+                    data-timeline-task-id={row.id}
+                    data-testid={`timeline-bar-${row.id}`}
+                    className={cn(
+                      "absolute rounded group",
+                      isDone
+                        ? "bg-green-600/50 cursor-default"
+                        : taskSchedule.isCritical
+                          ? "bg-red-500/80 cursor-grab"
+                          : "bg-blue-500/80 cursor-grab",
+                      drag?.taskId === row.id && "ring-2 ring-white"
+                    )}
+                    style={{ top, left, width, height: BAR_HEIGHT }}
+                    title={`${taskSchedule.title}: ${new Date(taskSchedule.startDate).toLocaleDateString()} – ${new Date(taskSchedule.finishDate).toLocaleDateString()}`}
+                    onPointerDown={isDone ? undefined : startDrag('move', row.id)}
+                  >
+                    {!isDone && (
+                      <>
+                        {/* Resize handle */}
+                        <div
+                          className="absolute right-0 top-0 h-full w-2 cursor-ew-resize"
+                          onPointerDown={startDrag('resize', row.id)}
+                        />
+                        {/* Link handle */}
+                        <div
+                          className="absolute -right-3 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center justify-center w-4 h-4 rounded-full bg-white text-gray-800 cursor-crosshair"
+                          onPointerDown={startDrag('link', row.id)}
+                          title="Drag onto another task to make it depend on this one"
+                        >
+                          <Link2 className="w-3 h-3" />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* Dependency arrows */}
+              <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={chartHeight}>
+                <defs>
+                  <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" fill="#9ca3af" />
+                  </marker>
+                </defs>
+                {arrows.map(({ key, from, to }) => (
+                  <path
+                    key={key}
+                    d={`M${from.x},${from.y} C${from.x + 12},${from.y} ${to.x - 12},${to.y} ${to.x},${to.y}`}
+                    fill="none"
+                    stroke="#9ca3af"
+                    strokeWidth={1.5}
+                    markerEnd="url(#timeline-arrow)"
+                  />
+                ))}
+                {linkSource && linkSourceRow !== undefined && drag && (
+                  <line
+                    x1={barFor(linkSource).left + barFor(linkSource).width}
+                    y1={linkSourceRow * ROW_HEIGHT + ROW_HEIGHT / 2}
+                    x2={drag.pointer.x}
+                    y2={drag.pointer.y}
+                    stroke="#ffffff"
+                    strokeDasharray="4 3"
+                    strokeWidth={1.5}
+                  />
+                )}
+              </svg>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
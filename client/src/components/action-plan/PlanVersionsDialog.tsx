@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { History, Save, RotateCcw, Loader2, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  useCreatePlanVersion,
+  usePlanVersionDiff,
+  usePlanVersions,
+  useRestorePlanVersion,
+} from '@/hooks/useActionPlan';
+import type { PlanVersionDiff } from '@/types/action-plan';
+import type { ActionPlan } from '@shared/schema';
+
+interface PlanVersionsDialogProps {
+  /** Action plan whose versions are shown */
+  plan: ActionPlan | null;
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when dialog should close */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Human-readable lines for a version diff
+ */
+function describeDiff(diff: PlanVersionDiff): string[] {
+  const lines: string[] = [];
+
+  diff.plan.forEach(change => lines.push(`Plan ${change.field}: ${change.from ?? '—'} → ${change.to ?? '—'}`));
+  diff.phases.added.forEach(phase => lines.push(`+ Phase "${phase.name}"`));
+  diff.phases.removed.forEach(phase => lines.push(`− Phase "${phase.name}"`));
+  diff.phases.renamed.forEach(phase => lines.push(`Phase renamed: "${phase.from}" → "${phase.to}"`));
+  diff.phases.moved.forEach(phase => lines.push(`Phase "${phase.name}" moved to position ${phase.toOrder + 1}`));
+  diff.tasks.added.forEach(task => lines.push(`+ Task "${task.title}" in ${task.phaseName}`));
+  diff.tasks.removed.forEach(task => lines.push(`− Task "${task.title}" from ${task.phaseName}`));
+  diff.tasks.moved.forEach(task => lines.push(
+    task.fromPhase === task.toPhase
+      ? `Task "${task.title}" moved to position ${task.toOrder + 1}`
+      : `Task "${task.title}" moved from ${task.fromPhase} to ${task.toPhase}`
+  ));
+  diff.tasks.restatused.forEach(task => lines.push(`Task "${task.title}": ${task.from.replace('_', ' ')} → ${task.to.replace('_', ' ')}`));
+  diff.tasks.edited.forEach(task => lines.push(`Task "${task.title}" edited (${task.fields.join(', ')})`));
+  if (diff.dependencies.added.length > 0) lines.push(`+ ${diff.dependencies.added.length} dependency link(s)`);
+  if (diff.dependencies.removed.length > 0) lines.push(`− ${diff.dependencies.removed.length} dependency link(s)`);
+
+  return lines;
+}
+
+/**
+ * PlanVersionsDialog Component
+ *
+ * Version history for an action plan:
+ * - Save the current plan as a named checkpoint
+ * - Automatic versions taken before template changes, imports and restores
+ * - Compare any version with the current plan or another version
+ * - Restore any version (the current state is saved first)
+ */
+export function PlanVersionsDialog({
+  plan,
+  open,
+  onOpenChange,
+}: PlanVersionsDialogProps) {
+  const planId = plan?.id ?? null;
+  const [name, setName] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | 'current'>('current');
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const { toast } = useToast();
+
+  const { data: versions = [], isLoading } = usePlanVersions(open ? planId : null);
+  const { data: diff, isLoading: isDiffLoading } = usePlanVersionDiff(open ? planId : null, selectedId, compareTo);
+  const createVersion = useCreatePlanVersion(planId ?? 0);
+  const restoreVersion = useRestorePlanVersion(planId ?? 0);
+
+  // Reset state when dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setName('');
+      setSelectedId(null);
+      setCompareTo('current');
+      setConfirmRestore(false);
+    }
+  }, [open]);
+
+  const selected = versions.find(v => v.id === selectedId);
+  const diffLines = diff ? describeDiff(diff) : [];
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    createVersion.mutate(name.trim(), {
+      onSuccess: (version) => {
+        setName('');
+        toast({ title: 'Version saved', description: `Saved as version ${version.version}` });
+      },
+      onError: (error) => {
+        toast({
+          title: 'Could not save version',
+          description: error instanceof Error ? error.message : 'An unexpected error occurred',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+
+    restoreVersion.mutate(selected.id, {
+      onSuccess: ({ restored, backup }) => {
+        toast({
+          title: `Restored version ${restored.version}`,
+          description: `The previous state was saved as version ${backup.version}`,
+        });
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          title: 'Restore failed',
+          description: error instanceof Error ? error.message : 'An unexpected error occurred',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]" data-testid="plan-versions-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Save checkpoints, compare versions and restore earlier states of this plan
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Checkpoint name, e.g. Before pivot"
+            maxLength={200}
+            data-testid="plan-version-name-input"
+          />
+          <Button type="submit" disabled={!name.trim() || createVersion.isPending}>
+            {createVersion.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </form>
+
+        <div className="grid gap-4 sm:grid-cols-[240px_1fr]">
+          <ScrollArea className="h-80 rounded-md border">
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No versions saved yet</p>
+            ) : (
+              <ul className="divide-y">
+                {versions.map(version => (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedId(version.id);
+                        setConfirmRestore(false);
+                      }}
+                      className={cn(
+                        'w-full text-left p-3 hover:bg-muted/50',
+                        version.id === selectedId && 'bg-muted'
+                      )}
+                      data-testid={`plan-version-${version.version}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">v{version.version} · {version.name}</span>
+                        {version.kind === 'auto' && <Badge variant="outline">auto</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(version.createdAt).toLocaleString()}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <div className="space-y-3 min-w-0">
+            {!selected ? (
+              <p className="text-sm text-muted-foreground">Select a version to see what changed since then</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="shrink-0">Changes from v{selected.version} to</span>
+                  <Select
+                    value={String(compareTo)}
+                    onValueChange={(value) => setCompareTo(value === 'current' ? 'current' : Number(value))}
+                  >
+                    <SelectTrigger className="h-8" data-testid="plan-version-compare-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="current">Current plan</SelectItem>
+                      {versions.filter(v => v.id !== selected.id).map(version => (
+                        <SelectItem key={version.id} value={String(version.id)}>
+                          v{version.version} · {version.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <ScrollArea className="h-56 rounded-md border p-3">
+                  {isDiffLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : diffLines.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No differences</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm" data-testid="plan-version-diff">
+                      {diffLines.map((line, index) => (
+                        <li key={index}>{line}</li>
+                      ))}
+                    </ul>
+                  )}
+                </ScrollArea>
+
+                {confirmRestore ? (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription className="flex items-center justify-between gap-2">
+                      <span>The current plan will be saved as a new version first.</span>
+                      <span className="flex gap-2 shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => setConfirmRestore(false)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={handleRestore}
+                          disabled={restoreVersion.isPending}
+                          data-testid="plan-version-restore-confirm"
+                        >
+                          {restoreVersion.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Restore
+                        </Button>
+                      </span>
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={() => setConfirmRestore(true)}
+                    data-testid="plan-version-restore"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore v{selected.version}
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
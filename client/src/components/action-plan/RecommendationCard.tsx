@@ -8,7 +8,9 @@ import {
   Clock,
   X,
   ChevronRight,
-  Sparkles
+  Sparkles,
+  CalendarX,
+  CalendarClock
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -57,6 +59,10 @@ export function RecommendationCard({
         return <Trophy className="w-5 h-5" />;
       case 'timeline_adjustment':
         return <Clock className="w-5 h-5" />;
+      case 'overdue':
+        return <CalendarX className="w-5 h-5" />;
+      case 'at_risk':
+        return <CalendarClock className="w-5 h-5" />;
       default:
         return <Sparkles className="w-5 h-5" />;
     }
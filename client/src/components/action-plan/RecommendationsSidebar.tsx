@@ -91,6 +91,8 @@ export function RecommendationsSidebar({
     task_tip: 'Task Tips',
     fast_progress: 'Fast Progress',
     timeline_adjustment: 'Timeline',
+    overdue: 'Overdue',
+    at_risk: 'At Risk',
   };
   
   // Priority labels
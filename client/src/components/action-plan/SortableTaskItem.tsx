@@ -2,7 +2,7 @@ import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { TaskItem } from './TaskItem';
-import type { PlanTask } from '@/types/action-plan';
+import type { PlanTask, TaskSchedule } from '@/types/action-plan';
 
 interface SortableTaskItemProps {
   task: PlanTask;
@@ -12,6 +12,7 @@ interface SortableTaskItemProps {
   isNewlyAvailable?: boolean;
   isRecentlyUpdated?: boolean;
   isSelected?: boolean;
+  schedule?: TaskSchedule;
   onEdit?: (task: PlanTask) => void;
   onDelete?: (taskId: number) => void;
 }
@@ -32,6 +33,7 @@ export function SortableTaskItem({
   isNewlyAvailable,
   isRecentlyUpdated,
   isSelected,
+  schedule,
   onEdit,
   onDelete,
 }: SortableTaskItemProps) {
@@ -61,6 +63,7 @@ export function SortableTaskItem({
         isNewlyAvailable={isNewlyAvailable}
         isRecentlyUpdated={isRecentlyUpdated}
         isSelected={isSelected}
+        schedule={schedule}
         isDraggable={true}
         onEdit={onEdit}
         onDelete={onDelete}
@@ -35,6 +35,8 @@ import {
 } from '@/components/ui/popover';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { CollaborativeTextarea } from '@/components/collaboration/CollaborativeTextarea';
+import { useCollaborationRoom } from '@/components/collaboration/CollaborationProvider';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -57,6 +59,7 @@ import { cn } from '@/lib/utils';
  * - description: Optional, text
  * - estimatedTime: Optional, max 50 characters
  * - resources: Optional array of URLs
+ * - startDate / dueDate: Optional calendar dates, start on or before due
  * - dependencies: Optional array of task IDs
  */
 const taskFormSchema = z.object({
@@ -78,14 +81,55 @@ const taskFormSchema = z.object({
     .string()
     .optional()
     .or(z.literal('')),
+  startDate: z
+    .string()
+    .optional()
+    .or(z.literal('')),
+  dueDate: z
+    .string()
+    .optional()
+    .or(z.literal('')),
   dependencies: z
     .array(z.number())
     .optional()
     .default([]),
+}).refine(data => !data.startDate || !data.dueDate || data.startDate <= data.dueDate, {
+  message: 'Due date must be on or after the start date',
+  path: ['dueDate'],
 });
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
 
+/**
+ * Stored timestamps to the YYYY-MM-DD value of a date input
+ */
+function toDateInput(value: string | null | undefined): string {
+  return value ? value.slice(0, 10) : '';
+}
+
+/**
+ * Date input value to a timestamp; due dates run to the end of the day
+ */
+function fromDateInput(value: string | undefined, endOfDay: boolean): string | null {
+  if (!value) return null;
+  return `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`;
+}
+
+/**
+ * Date fields for the save payload, only those that differ from the task
+ * so a pinned start time from the timeline isn't rewritten on every save
+ */
+function changedDates(values: TaskFormValues, task?: PlanTask): { startDate?: string | null; dueDate?: string | null } {
+  const dates: { startDate?: string | null; dueDate?: string | null } = {};
+  if ((values.startDate || '') !== toDateInput(task?.startDate)) {
+    dates.startDate = fromDateInput(values.startDate, false);
+  }
+  if ((values.dueDate || '') !== toDateInput(task?.dueDate)) {
+    dates.dueDate = fromDateInput(values.dueDate, true);
+  }
+  return dates;
+}
+
 interface TaskEditorProps {
   /** Task to edit (undefined for creating new task) */
   task?: PlanTask;
@@ -111,7 +155,7 @@ interface TaskEditorProps {
  * Modal dialog for creating and editing tasks with:
  * - React Hook Form for form management
  * - Zod validation for input validation
- * - Fields: title, description, estimated time, resources, dependencies
+ * - Fields: title, description, estimated time, start and due dates, resources, dependencies
  * - Save and cancel actions
  * - Loading states during save operations
  * - Dependency selection with circular dependency validation
@@ -129,6 +173,8 @@ export function TaskEditor({
   plan,
 }: TaskEditorProps) {
   const isEditing = !!task;
+  // In a plan's collaboration room an existing task's description is a shared document the server saves
+  const sharedDescription = isEditing && !!useCollaborationRoom();
   const [isSaving, setIsSaving] = useState(false);
   const [dependencyPopoverOpen, setDependencyPopoverOpen] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -172,6 +218,8 @@ export function TaskEditor({
       resources: Array.isArray(task?.resources) 
         ? task.resources.join('\n') 
         : '',
+      startDate: toDateInput(task?.startDate),
+      dueDate: toDateInput(task?.dueDate),
       dependencies: existingDependencies?.prerequisites || [],
     },
   });
@@ -195,9 +243,10 @@ export function TaskEditor({
     const taskData: any = {
       id: task.id,
       title: values.title,
-      description: values.description || '',
+      ...(sharedDescription ? {} : { description: values.description || '' }),
       estimatedTime: values.estimatedTime || '',
       resources: resourcesArray,
+      ...changedDates(values, task),
     };
 
     if (onSave) {
@@ -237,6 +286,8 @@ export function TaskEditor({
         resources: Array.isArray(task?.resources) 
           ? task.resources.join('\n') 
           : '',
+        startDate: toDateInput(task?.startDate),
+        dueDate: toDateInput(task?.dueDate),
         dependencies: existingDependencies?.prerequisites || [],
       });
       setValidationError(null);
@@ -342,9 +393,10 @@ export function TaskEditor({
       // Prepare task data (excluding dependencies - they're managed separately)
       const taskData: any = {
         title: values.title,
-        description: values.description || '',
+        ...(sharedDescription ? {} : { description: values.description || '' }),
         estimatedTime: values.estimatedTime || '',
         resources: resourcesArray,
+        ...changedDates(values, task),
       };
 
       if (isEditing) {
@@ -523,12 +575,24 @@ export function TaskEditor({
                 <FormItem>
                   <FormLabel>Description</FormLabel>
                   <FormControl>
-                    <Textarea
-                      placeholder="Describe what needs to be done, any specific requirements, or helpful context..."
-                      className="min-h-[120px] resize-y"
-                      data-testid="task-description-input"
-                      {...field}
-                    />
+                    {sharedDescription ? (
+                      <CollaborativeTextarea
+                        docKey={`task:${task!.id}:description`}
+                        placeholder="Describe what needs to be done, any specific requirements, or helpful context..."
+                        className="min-h-[120px] resize-y"
+                        data-testid="task-description-input"
+                        name={field.name}
+                        onBlur={field.onBlur}
+                        onTextChange={(text) => form.setValue('description', text, { shouldValidate: true })}
+                      />
+                    ) : (
+                      <Textarea
+                        placeholder="Describe what needs to be done, any specific requirements, or helpful context..."
+                        className="min-h-[120px] resize-y"
+                        data-testid="task-description-input"
+                        {...field}
+                      />
+                    )}
                   </FormControl>
                   <FormDescription>
                     Detailed description of the task (optional, max 2000 characters)
@@ -560,6 +624,51 @@ export function TaskEditor({
               )}
             />
 
+            {/* Start and Due Date Fields */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        data-testid="task-start-date-input"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Earliest day work can begin (optional)
+                    </FormDescription>
+                    <FormMessage data-testid="task-start-date-error" />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        data-testid="task-due-date-input"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Day the task should be finished by (optional)
+                    </FormDescription>
+                    <FormMessage data-testid="task-due-date-error" />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* Resources Field */}
             <FormField
               control={form.control}
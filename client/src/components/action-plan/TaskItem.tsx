@@ -11,17 +11,26 @@ import {
   ChevronDown,
   ChevronUp,
   Unlock,
-  ArrowRight
+  ArrowRight,
+  Flame,
+  CalendarDays
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useUpdateTaskStatus, useIncompletePrerequisites } from '@/hooks/useActionPlan';
 import { useTouchFriendly } from '@/hooks/useTouchFriendly';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
-import type { PlanTask, TaskStatus } from '@/types/action-plan';
+import type { PlanTask, TaskSchedule, TaskStatus } from '@/types/action-plan';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { DependencyWarningDialog } from './DependencyWarningDialog';
 
+/**
+ * Format slack hours as "6h" or "2.5d" (8-hour days)
+ */
+function formatSlack(hours: number): string {
+  return hours >= 8 ? `${Math.round((hours / 8) * 10) / 10}d` : `${Math.round(hours * 10) / 10}h`;
+}
+
 interface TaskItemProps {
   task: PlanTask;
   isBlocked?: boolean;
@@ -30,6 +39,7 @@ interface TaskItemProps {
   isNewlyAvailable?: boolean;
   isRecentlyUpdated?: boolean;
   isSelected?: boolean;
+  schedule?: TaskSchedule;
   onEdit?: (task: PlanTask) => void;
   onDelete?: (taskId: number) => void;
   isDraggable?: boolean;
@@ -46,6 +56,8 @@ interface TaskItemProps {
  * - Edit and delete action buttons
  * - Dependency indicators (locked icon if blocked)
  * - Drag handle for reordering
+ * - Critical path highlight and slack from the plan schedule
+ * - Due date, flagged when overdue or projected to finish late
  * 
  * Requirements: 1.3, 1.4, 1.5, 2.6
  */
@@ -57,6 +69,7 @@ export function TaskItem({
   isNewlyAvailable = false,
   isRecentlyUpdated = false,
   isSelected = false,
+  schedule,
   onEdit,
   onDelete,
   isDraggable = false,
@@ -91,6 +104,16 @@ export function TaskItem({
     enabled: isTouchDevice && !isExpanded,
   });
   
+  // Overdue once the due date passes; at risk when the schedule finishes after it
+  const isOpen = task.status === 'not_started' || task.status === 'in_progress';
+  const dueState = !task.dueDate || !isOpen
+    ? null
+    : new Date(task.dueDate) < new Date()
+      ? 'overdue'
+      : schedule && new Date(schedule.finishDate) > new Date(task.dueDate)
+        ? 'at_risk'
+        : null;
+  
   // Determine task status icon and color
   const getStatusIcon = () => {
     if (isBlocked) {
@@ -259,6 +282,7 @@ export function TaskItem({
           "hover:border-purple-500/50 hover:bg-gray-900/70",
           !isTouchDevice && "hover:scale-[1.01]",
           isBlocked && "opacity-70 border-yellow-500/30",
+          schedule?.isCritical && "border-l-4 border-l-red-500",
           isTouchDevice && "active:scale-[0.99]"
         )}
         data-testid={`task-item-${task.id}`}
@@ -352,6 +376,40 @@ export function TaskItem({
                   </span>
                 )}
                 
+                {task.dueDate && (
+                  <span
+                    className={cn(
+                      "flex items-center space-x-1",
+                      dueState === 'overdue' && "text-red-400 font-medium",
+                      dueState === 'at_risk' && "text-orange-400"
+                    )}
+                    data-testid={`task-due-${task.id}`}
+                    title={dueState === 'at_risk' ? 'Projected to finish after the due date' : undefined}
+                  >
+                    <CalendarDays className="w-3 h-3" />
+                    <span>
+                      {dueState === 'overdue' ? 'Overdue · ' : 'Due '}
+                      {new Date(task.dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                    </span>
+                  </span>
+                )}
+                
+                {schedule?.isCritical && (
+                  <span
+                    className="flex items-center space-x-1 text-red-400 font-medium"
+                    data-testid={`task-critical-${task.id}`}
+                  >
+                    <Flame className="w-3 h-3" />
+                    <span>Critical path</span>
+                  </span>
+                )}
+                
+                {schedule && !schedule.isCritical && schedule.durationHours > 0 && (
+                  <span title="How long this task can slip without delaying the plan">
+                    {formatSlack(schedule.slackHours)} slack
+                  </span>
+                )}
+                
                 {isBlocked && (
                   <span className="flex items-center space-x-1 text-yellow-500">
                     <Lock className="w-3 h-3" />
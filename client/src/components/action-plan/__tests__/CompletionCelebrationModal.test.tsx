@@ -8,6 +8,7 @@ describe('CompletionCelebrationModal', () => {
     id: 1,
     searchId: 1,
     userId: 1,
+    teamId: null,
     templateId: null,
     title: 'Test Action Plan',
     description: 'Test description',
@@ -25,6 +26,8 @@ describe('CompletionCelebrationModal', () => {
         description: 'First phase',
         order: 0,
         estimatedDuration: '1 week',
+        startDate: null,
+        dueDate: null,
         isCustom: false,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -16,6 +16,9 @@ describe('DeleteTaskDialog', () => {
     status: 'not_started',
     isCustom: false,
     assigneeId: null,
+    startDate: null,
+    dueDate: null,
+    overdueNotifiedAt: null,
     completedAt: null,
     completedBy: null,
     createdAt: new Date().toISOString(),
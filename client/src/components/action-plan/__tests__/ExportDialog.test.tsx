@@ -23,6 +23,7 @@ describe('ExportDialog', () => {
     id: 1,
     searchId: 1,
     userId: 1,
+    teamId: null,
     templateId: null,
     title: 'Test Action Plan',
     description: 'Test description',
@@ -55,6 +55,8 @@ describe('PhaseAccordion', () => {
     description: 'Validate market need and technical feasibility',
     order: 1,
     estimatedDuration: '2 weeks',
+    startDate: null,
+    dueDate: null,
     isCustom: false,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
@@ -71,6 +73,9 @@ describe('PhaseAccordion', () => {
         status: 'completed',
         isCustom: false,
         assigneeId: null,
+        startDate: null,
+        dueDate: null,
+        overdueNotifiedAt: null,
         completedAt: new Date().toISOString(),
         completedBy: null,
         createdAt: new Date().toISOString(),
@@ -88,6 +93,9 @@ describe('PhaseAccordion', () => {
         status: 'in_progress',
         isCustom: false,
         assigneeId: null,
+        startDate: null,
+        dueDate: null,
+        overdueNotifiedAt: null,
         completedAt: null,
         completedBy: null,
         createdAt: new Date().toISOString(),
@@ -105,6 +113,9 @@ describe('PhaseAccordion', () => {
         status: 'not_started',
         isCustom: false,
         assigneeId: null,
+        startDate: null,
+        dueDate: null,
+        overdueNotifiedAt: null,
         completedAt: null,
         completedBy: null,
         createdAt: new Date().toISOString(),
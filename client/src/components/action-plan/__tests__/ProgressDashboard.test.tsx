@@ -26,6 +26,8 @@ describe('ProgressDashboard', () => {
       description: 'Initial planning phase',
       order: 1,
       estimatedDuration: '2 weeks',
+      startDate: null,
+      dueDate: null,
       isCustom: false,
       createdAt: '2025-01-01T00:00:00.000Z',
       updatedAt: '2025-01-01T00:00:00.000Z',
@@ -42,6 +44,9 @@ describe('ProgressDashboard', () => {
           status: 'completed',
           isCustom: false,
           assigneeId: null,
+          startDate: null,
+          dueDate: null,
+          overdueNotifiedAt: null,
           completedAt: '2025-01-05T00:00:00.000Z',
           completedBy: null,
           createdAt: '2025-01-01T00:00:00.000Z',
@@ -59,6 +64,9 @@ describe('ProgressDashboard', () => {
           status: 'completed',
           isCustom: false,
           assigneeId: null,
+          startDate: null,
+          dueDate: null,
+          overdueNotifiedAt: null,
           completedAt: '2025-01-06T00:00:00.000Z',
           completedBy: null,
           createdAt: '2025-01-01T00:00:00.000Z',
@@ -73,6 +81,8 @@ describe('ProgressDashboard', () => {
       description: 'Development phase',
       order: 2,
       estimatedDuration: '4 weeks',
+      startDate: null,
+      dueDate: null,
       isCustom: false,
       createdAt: '2025-01-01T00:00:00.000Z',
       updatedAt: '2025-01-01T00:00:00.000Z',
@@ -89,6 +99,9 @@ describe('ProgressDashboard', () => {
           status: 'in_progress',
           isCustom: false,
           assigneeId: null,
+          startDate: null,
+          dueDate: null,
+          overdueNotifiedAt: null,
           completedAt: null,
           completedBy: null,
           createdAt: '2025-01-07T00:00:00.000Z',
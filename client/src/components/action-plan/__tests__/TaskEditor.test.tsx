@@ -17,6 +17,9 @@ const mockTask: PlanTask = {
   status: 'not_started',
   isCustom: false,
   assigneeId: null,
+  startDate: null,
+  dueDate: null,
+  overdueNotifiedAt: null,
   completedAt: null,
   completedBy: null,
   createdAt: new Date().toISOString(),
@@ -432,6 +435,7 @@ describe('TaskEditor', () => {
       id: 1,
       searchId: 1,
       userId: 1,
+      teamId: null,
       templateId: null,
       title: 'Test Plan',
       description: 'Test Description',
@@ -449,6 +453,8 @@ describe('TaskEditor', () => {
           description: 'Test Phase',
           order: 1,
           estimatedDuration: '1 week',
+          startDate: null,
+          dueDate: null,
           isCustom: false,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -465,6 +471,9 @@ describe('TaskEditor', () => {
               status: 'not_started' as const,
               isCustom: false,
               assigneeId: null,
+              startDate: null,
+              dueDate: null,
+              overdueNotifiedAt: null,
               completedAt: null,
               completedBy: null,
               createdAt: new Date().toISOString(),
@@ -482,6 +491,9 @@ describe('TaskEditor', () => {
               status: 'not_started' as const,
               isCustom: false,
               assigneeId: null,
+              startDate: null,
+              dueDate: null,
+              overdueNotifiedAt: null,
               completedAt: null,
               completedBy: null,
               createdAt: new Date().toISOString(),
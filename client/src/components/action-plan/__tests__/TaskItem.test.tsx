@@ -34,6 +34,9 @@ describe('TaskItem', () => {
     status: 'not_started',
     isCustom: false,
     assigneeId: null,
+    startDate: null,
+    dueDate: null,
+    overdueNotifiedAt: null,
     completedAt: null,
     completedBy: null,
     createdAt: new Date().toISOString(),
@@ -7,8 +7,11 @@
 export { ActionPlanView } from './ActionPlanView';
 export { PhaseAccordion } from './PhaseAccordion';
 export { TaskItem } from './TaskItem';
+export { PlanTimeline } from './PlanTimeline';
 export { TemplateSelector } from './TemplateSelector';
 export { ExportDialog } from './ExportDialog';
+export { ImportDialog } from './ImportDialog';
+export { PlanVersionsDialog } from './PlanVersionsDialog';
 export { RecommendationCard } from './RecommendationCard';
 export { RecommendationsSidebar } from './RecommendationsSidebar';
 export { InlineRecommendations } from './InlineRecommendations';
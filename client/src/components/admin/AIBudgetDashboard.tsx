@@ -0,0 +1,413 @@
+/**
+ * AI Budget Dashboard Component
+ *
+ * Admin interface for monthly AI spend budgets, hard caps and temporary overrides
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Wallet,
+  AlertTriangle,
+  ShieldOff,
+  RefreshCw,
+  Plus,
+  XCircle
+} from 'lucide-react';
+import type { AIBudgetHardCapAction, AIBudgetScope, AIBudgetStatus } from '@shared/schema';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+/** Dollars typed by an admin, as whole cents; null when not a valid amount */
+const parseDollars = (value: string): number | null => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) : null;
+};
+
+async function sendBudgetRequest(path: string, method: 'PUT' | 'DELETE', body?: unknown) {
+  const response = await fetch(`/api/ai-budgets/${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update AI budget');
+  }
+  return response.json();
+}
+
+export function AIBudgetDashboard() {
+  const queryClient = useQueryClient();
+  const [newScope, setNewScope] = useState<AIBudgetScope>('user');
+  const [newId, setNewId] = useState('');
+  const [newLimit, setNewLimit] = useState('');
+
+  // Fetch all configured budgets
+  const { data: budgets, isLoading } = useQuery<{ success: boolean; data: AIBudgetStatus[] }>({
+    queryKey: ['ai-budgets'],
+    queryFn: async () => {
+      const response = await fetch('/api/ai-budgets', {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch AI budgets');
+      return response.json();
+    },
+    refetchInterval: 60000 // Refresh every minute
+  });
+
+  const budgetMutation = useMutation({
+    mutationFn: (data: { path: string; method: 'PUT' | 'DELETE'; body?: unknown }) =>
+      sendBudgetRequest(data.path, data.method, data.body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ai-budgets'] });
+    }
+  });
+
+  const handleAddBudget = () => {
+    const limitCents = parseDollars(newLimit);
+    if (!newId || limitCents === null) return;
+
+    budgetMutation.mutate(
+      { path: `${newScope}/${newId}`, method: 'PUT', body: { monthlyLimitCents: limitCents } },
+      {
+        onSuccess: () => {
+          setNewId('');
+          setNewLimit('');
+        }
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <RefreshCw className="w-8 h-8 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  const aiBudgets = budgets?.data || [];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Wallet className="w-8 h-8 text-purple-500" />
+          AI Budgets
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Monthly AI spend limits for users and teams. Budgets reset at the start of each month.
+        </p>
+      </div>
+
+      {/* Overview Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Spend This Month</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatCents(aiBudgets.filter(b => b.scope === 'user').reduce((sum, b) => sum + b.spentCents, 0))}
+            </div>
+            <p className="text-xs text-muted-foreground">Across users with a budget</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">At or Over Limit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-500">
+              {aiBudgets.filter(b => b.percentUsed >= 100).length}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium">Active Overrides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-500">
+              {aiBudgets.filter(b => b.overrideActive).length}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* New Budget */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Set a Budget</CardTitle>
+          <CardDescription>Users without one get their tier's default</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>Scope</Label>
+              <Select value={newScope} onValueChange={(value) => setNewScope(value as AIBudgetScope)}>
+                <SelectTrigger className="w-32" aria-label="Budget scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">User</SelectItem>
+                  <SelectItem value="team">Team</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-budget-new-id">{newScope === 'team' ? 'Team ID' : 'User ID'}</Label>
+              <Input
+                id="ai-budget-new-id"
+                type="number"
+                min={1}
+                className="w-32"
+                value={newId}
+                onChange={(event) => setNewId(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-budget-new-limit">Monthly limit ($)</Label>
+              <Input
+                id="ai-budget-new-limit"
+                type="number"
+                min={0}
+                step="0.01"
+                className="w-36"
+                value={newLimit}
+                onChange={(event) => setNewLimit(event.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAddBudget}
+              disabled={!newId || parseDollars(newLimit) === null || budgetMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Save Budget
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {budgetMutation.error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="w-4 h-4" />
+          <AlertDescription>{budgetMutation.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Budgets List */}
+      <div className="space-y-4">
+        {aiBudgets.map((status) => (
+          <AIBudgetCard
+            key={`${status.scope}-${status.userId ?? status.teamId}`}
+            status={status}
+            pending={budgetMutation.isPending}
+            onUpdate={(path, method, body) => budgetMutation.mutate({ path, method, body })}
+          />
+        ))}
+      </div>
+
+      {aiBudgets.length === 0 && (
+        <Alert>
+          <AlertTriangle className="w-4 h-4" />
+          <AlertDescription>
+            No budgets configured. Every user is on their tier's default monthly limit.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+interface AIBudgetCardProps {
+  status: AIBudgetStatus;
+  pending: boolean;
+  onUpdate: (path: string, method: 'PUT' | 'DELETE', body?: unknown) => void;
+}
+
+function AIBudgetCard({ status, pending, onUpdate }: AIBudgetCardProps) {
+  const [limit, setLimit] = useState(
+    status.budget?.monthlyLimitCents != null ? (status.budget.monthlyLimitCents / 100).toFixed(2) : ''
+  );
+  const [overrideLimit, setOverrideLimit] = useState('');
+  const [overrideExpiry, setOverrideExpiry] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const path = `${status.scope}/${status.userId ?? status.teamId}`;
+  const overrideUntil = status.budget?.overrideExpiresAt
+    ? new Date(status.budget.overrideExpiresAt).toLocaleString()
+    : null;
+
+  const handleSaveLimit = () => {
+    // An empty limit falls back to the tier default
+    onUpdate(path, 'PUT', { monthlyLimitCents: limit.trim() === '' ? null : parseDollars(limit) });
+  };
+
+  const handleOverride = () => {
+    const limitCents = parseDollars(overrideLimit);
+    if (limitCents === null || !overrideReason.trim()) return;
+
+    onUpdate(`${path}/override`, 'PUT', {
+      limitCents,
+      expiresAt: overrideExpiry ? new Date(overrideExpiry).toISOString() : null,
+      reason: overrideReason.trim()
+    });
+    setOverrideLimit('');
+    setOverrideExpiry('');
+    setOverrideReason('');
+  };
+
+  return (
+    <Card className="border-l-4 border-l-purple-500">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2">
+              {status.name}
+              <Badge variant="outline">{status.scope === 'team' ? 'Team' : 'User'}</Badge>
+              {status.overrideActive && (
+                <Badge variant="default" className="bg-yellow-500">Override</Badge>
+              )}
+              {status.percentUsed >= 100 && (
+                <Badge variant="destructive">
+                  {status.hardCapAction === 'block' ? 'Blocked' : 'Degraded'}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {formatCents(status.spentCents)} of {formatCents(status.limitCents)} used this month
+            </CardDescription>
+          </div>
+          <Select
+            value={status.hardCapAction}
+            onValueChange={(value) => onUpdate(path, 'PUT', { hardCapAction: value as AIBudgetHardCapAction })}
+            disabled={pending}
+          >
+            <SelectTrigger className="w-48" aria-label="When the limit is reached">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="degrade">Switch to cheaper model</SelectItem>
+              <SelectItem value="block">Block AI calls</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Used</Label>
+            <span className="text-sm font-medium">{status.percentUsed}%</span>
+          </div>
+          <Progress value={Math.min(status.percentUsed, 100)} />
+        </div>
+
+        {/* Monthly Limit */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`ai-budget-limit-${path}`}>Monthly limit ($)</Label>
+            <Input
+              id={`ai-budget-limit-${path}`}
+              type="number"
+              min={0}
+              step="0.01"
+              className="w-36"
+              placeholder="Tier default"
+              value={limit}
+              onChange={(event) => setLimit(event.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleSaveLimit}
+            disabled={pending || (limit.trim() !== '' && parseDollars(limit) === null)}
+          >
+            Save Limit
+          </Button>
+        </div>
+
+        {/* Override */}
+        {status.overrideActive && status.budget ? (
+          <Alert>
+            <ShieldOff className="w-4 h-4" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                Limit raised to {formatCents(status.budget.overrideLimitCents ?? 0)}
+                {overrideUntil ? ` until ${overrideUntil}` : ''}: {status.budget.overrideReason}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onUpdate(`${path}/override`, 'DELETE')}
+                disabled={pending}
+              >
+                <XCircle className="w-4 h-4 mr-1" />
+                Remove Override
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex flex-wrap items-end gap-3 pt-4 border-t">
+            <div className="space-y-1">
+              <Label htmlFor={`ai-budget-override-${path}`}>Override limit ($)</Label>
+              <Input
+                id={`ai-budget-override-${path}`}
+                type="number"
+                min={0}
+                step="0.01"
+                className="w-36"
+                value={overrideLimit}
+                onChange={(event) => setOverrideLimit(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`ai-budget-override-expiry-${path}`}>Until (optional)</Label>
+              <Input
+                id={`ai-budget-override-expiry-${path}`}
+                type="datetime-local"
+                className="w-56"
+                value={overrideExpiry}
+                onChange={(event) => setOverrideExpiry(event.target.value)}
+              />
+            </div>
+            <div className="space-y-1 flex-1 min-w-[12rem]">
+              <Label htmlFor={`ai-budget-override-reason-${path}`}>Reason</Label>
+              <Input
+                id={`ai-budget-override-reason-${path}`}
+                maxLength={500}
+                value={overrideReason}
+                onChange={(event) => setOverrideReason(event.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleOverride}
+              disabled={pending || parseDollars(overrideLimit) === null || !overrideReason.trim()}
+            >
+              Override
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
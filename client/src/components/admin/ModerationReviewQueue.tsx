@@ -0,0 +1,411 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CheckCircle2,
+  Trash2,
+  User,
+  Calendar,
+  Flag,
+  Bot,
+  ShieldAlert,
+  UserCheck,
+  AlertCircle,
+  Loader2
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+type FlagStatus = 'pending' | 'approved' | 'removed';
+type FlagSeverity = 'low' | 'medium' | 'high' | 'critical';
+type AssigneeFilter = 'all' | 'me' | 'unassigned';
+
+interface FlagUser {
+  id: number;
+  name: string | null;
+  email: string;
+}
+
+interface FlaggedContentItem {
+  id: number;
+  source: 'auto' | 'report';
+  contentRole: 'user' | 'assistant';
+  messageId: number | null;
+  conversationId: number | null;
+  content: string;
+  flagReason: string;
+  categories: string[];
+  severity: FlagSeverity;
+  status: FlagStatus;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  author?: FlagUser | null;
+  reporter?: FlagUser | null;
+  assignee?: FlagUser | null;
+  reviewer?: FlagUser | null;
+}
+
+interface FlagQueue {
+  flags: FlaggedContentItem[];
+  counts: Record<FlagStatus, number>;
+}
+
+const SEVERITY_VARIANTS: Record<FlagSeverity, 'destructive' | 'default' | 'secondary' | 'outline'> = {
+  critical: 'destructive',
+  high: 'destructive',
+  medium: 'default',
+  low: 'secondary',
+};
+
+function displayName(user?: FlagUser | null): string {
+  return user ? user.name || user.email : 'Unknown user';
+}
+
+async function postFlagAction(path: string, body: Record<string, unknown>) {
+  const response = await fetch(`/api/admin/moderation/flags/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Moderation action failed');
+  }
+
+  return response.json();
+}
+
+export function ModerationReviewQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<FlagStatus>('pending');
+  const [assignee, setAssignee] = useState<AssigneeFilter>('all');
+  const [selectedFlag, setSelectedFlag] = useState<FlaggedContentItem | null>(null);
+  const [reviewAction, setReviewAction] = useState<'approve' | 'remove' | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  const { data, isLoading, error } = useQuery<FlagQueue>({
+    queryKey: ['admin', 'moderation', status, assignee],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status });
+      if (assignee !== 'all') params.set('assignedTo', assignee);
+
+      const response = await fetch(`/api/admin/moderation/flags?${params}`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch flagged content');
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 30000 // Refetch every 30 seconds
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ id, assigneeId }: { id: number; assigneeId?: null }) =>
+      postFlagAction(`${id}/assign`, assigneeId === null ? { assigneeId } : {}),
+    onSuccess: (_, { assigneeId }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'moderation'] });
+      toast({
+        title: 'Success',
+        description: assigneeId === null ? 'Released back to the queue' : 'Assigned to you'
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, action, notes }: { id: number; action: 'approve' | 'remove'; notes?: string }) =>
+      postFlagAction(`${id}/review`, { action, notes }),
+    onSuccess: (result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'moderation'] });
+      const duplicates: number = result.data?.resolvedDuplicates ?? 0;
+      toast({
+        title: 'Success',
+        description: `${action === 'approve' ? 'Content approved' : 'Content removed'}${
+          duplicates > 0 ? ` (${duplicates} other report${duplicates === 1 ? '' : 's'} resolved)` : ''
+        }`
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const openReviewDialog = (flag: FlaggedContentItem, action: 'approve' | 'remove') => {
+    setSelectedFlag(flag);
+    setReviewAction(action);
+    setReviewNotes('');
+  };
+
+  const closeDialog = () => {
+    setSelectedFlag(null);
+    setReviewAction(null);
+    setReviewNotes('');
+  };
+
+  const handleReview = () => {
+    if (!selectedFlag || !reviewAction) return;
+
+    reviewMutation.mutate({
+      id: selectedFlag.id,
+      action: reviewAction,
+      notes: reviewNotes.trim() || undefined
+    });
+  };
+
+  const flags = data?.flags ?? [];
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as FlagStatus)}>
+          <TabsList>
+            <TabsTrigger value="pending">Pending ({data?.counts.pending ?? 0})</TabsTrigger>
+            <TabsTrigger value="approved">Approved ({data?.counts.approved ?? 0})</TabsTrigger>
+            <TabsTrigger value="removed">Removed ({data?.counts.removed ?? 0})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Select value={assignee} onValueChange={(value) => setAssignee(value as AssigneeFilter)}>
+          <SelectTrigger className="w-48" data-testid="moderation-assignee-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reviewers</SelectItem>
+            <SelectItem value="me">Assigned to me</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-5 w-5" />
+              Error Loading Flagged Content
+            </CardTitle>
+            <CardDescription>
+              {error instanceof Error ? error.message : 'An unknown error occurred'}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : flags.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>{status === 'pending' ? 'Nothing to Review' : 'No Reviewed Content'}</CardTitle>
+            <CardDescription>
+              {status === 'pending'
+                ? 'No flagged or reported content is waiting for review'
+                : `No content has been ${status} yet`}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {flags.map((flag) => (
+            <Card key={flag.id} data-testid={`flagged-content-${flag.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {flag.source === 'report' ? (
+                        <Flag className="h-4 w-4" />
+                      ) : (
+                        <ShieldAlert className="h-4 w-4" />
+                      )}
+                      {flag.source === 'report'
+                        ? `Reported by ${displayName(flag.reporter)}`
+                        : 'Flagged automatically'}
+                    </CardTitle>
+                    <CardDescription className="flex flex-wrap items-center gap-4 text-sm">
+                      <span className="flex items-center gap-1">
+                        {flag.contentRole === 'assistant' ? (
+                          <Bot className="h-3 w-3" />
+                        ) : (
+                          <User className="h-3 w-3" />
+                        )}
+                        {flag.contentRole === 'assistant'
+                          ? `AI response to ${displayName(flag.author)}`
+                          : displayName(flag.author)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {format(new Date(flag.createdAt), 'MMM d, yyyy HH:mm')}
+                      </span>
+                      {flag.messageId === null && <span>Blocked before sending</span>}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={SEVERITY_VARIANTS[flag.severity]}>{flag.severity}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Reason</h4>
+                  <p className="text-sm text-muted-foreground">{flag.flagReason}</p>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Content</h4>
+                  <p className="text-sm whitespace-pre-wrap rounded-md border bg-muted/50 p-3 max-h-48 overflow-y-auto">
+                    {flag.content}
+                  </p>
+                </div>
+
+                {flag.categories.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {flag.categories.map((category) => (
+                      <Badge key={category} variant="outline">
+                        {category.replace('_', ' ')}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {flag.status === 'pending' ? (
+                  <div className="flex flex-wrap items-center gap-2 pt-4">
+                    <Button
+                      onClick={() => openReviewDialog(flag, 'approve')}
+                      className="flex items-center gap-2"
+                    >
+                      <CheckCircle2 className="h-4 w-4" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => openReviewDialog(flag, 'remove')}
+                      className="flex items-center gap-2"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Remove
+                    </Button>
+                    {flag.assignee ? (
+                      <>
+                        <span className="text-sm text-muted-foreground flex items-center gap-1 ml-2">
+                          <UserCheck className="h-4 w-4" />
+                          {displayName(flag.assignee)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => assignMutation.mutate({ id: flag.id, assigneeId: null })}
+                          disabled={assignMutation.isPending}
+                        >
+                          Release
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        onClick={() => assignMutation.mutate({ id: flag.id })}
+                        disabled={assignMutation.isPending}
+                        className="flex items-center gap-2"
+                      >
+                        <UserCheck className="h-4 w-4" />
+                        Assign to me
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-sm text-muted-foreground border-t pt-4">
+                    {flag.status === 'approved' ? 'Approved' : 'Removed'} by {displayName(flag.reviewer)}
+                    {flag.reviewedAt && ` on ${format(new Date(flag.reviewedAt), 'MMM d, yyyy')}`}
+                    {flag.reviewNotes && <p className="mt-1">{flag.reviewNotes}</p>}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selectedFlag} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewAction === 'approve' ? 'Approve' : 'Remove'} Content
+            </DialogTitle>
+            <DialogDescription>
+              {reviewAction === 'approve'
+                ? 'The content stays in the conversation and the flag is closed.'
+                : 'The message is replaced in the conversation. The original is kept here for the record.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">Review Notes (Optional)</Label>
+            <Textarea
+              id="review-notes"
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              placeholder="Add any notes about this decision..."
+              maxLength={1000}
+              rows={4}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={reviewMutation.isPending}
+              variant={reviewAction === 'remove' ? 'destructive' : 'default'}
+            >
+              {reviewMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {reviewAction === 'approve' ? 'Approve' : 'Remove'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
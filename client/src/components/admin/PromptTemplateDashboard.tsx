@@ -0,0 +1,345 @@
+/**
+ * Prompt Template Dashboard Component
+ *
+ * Admin interface for editing AI prompts, activating versions and comparing them in A/B experiments
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  FileText,
+  AlertTriangle,
+  RefreshCw,
+  Plus,
+  FlaskConical,
+  CheckCircle,
+  XCircle
+} from 'lucide-react';
+import type { PromptTemplate, PromptTemplateVersion, PromptVersionMetrics } from '@shared/schema';
+
+interface PromptTemplateDetails {
+  key: string;
+  name: string;
+  description: string;
+  variables: string[];
+  defaultContent: string;
+  template: PromptTemplate | null;
+  versions: PromptTemplateVersion[];
+  experimentRolloutPercentage: number;
+  metrics?: PromptVersionMetrics[];
+}
+
+async function sendPromptRequest(path: string, method: 'POST' | 'PUT' | 'DELETE', body?: unknown) {
+  const response = await fetch(`/api/prompt-templates/${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update prompt template');
+  }
+  return response.json();
+}
+
+export function PromptTemplateDashboard() {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Fetch all prompts
+  const { data: templates, isLoading } = useQuery<{ success: boolean; data: PromptTemplateDetails[] }>({
+    queryKey: ['prompt-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/prompt-templates', {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch prompt templates');
+      return response.json();
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <RefreshCw className="w-8 h-8 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  const prompts = templates?.data || [];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <FileText className="w-8 h-8 text-purple-500" />
+          Prompt Templates
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Edit the prompts AI features use and compare versions by how users rate their answers.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {prompts.map((prompt) => (
+          <Card
+            key={prompt.key}
+            className={`cursor-pointer ${selectedKey === prompt.key ? 'border-purple-500' : ''}`}
+            onClick={() => setSelectedKey(prompt.key)}
+          >
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                {prompt.name}
+                {prompt.template?.experimentVersionId && (
+                  <Badge variant="default" className="bg-yellow-500">
+                    Experiment {prompt.experimentRolloutPercentage}%
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>{prompt.description}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">
+                {prompt.versions.length > 0
+                  ? `Version ${prompt.versions.find(v => v.id === prompt.template?.activeVersionId)?.version ?? '?'} active of ${prompt.versions.length}`
+                  : 'Built-in default'}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {selectedKey && <PromptTemplateEditor key={selectedKey} promptKey={selectedKey} />}
+    </div>
+  );
+}
+
+interface PromptTemplateEditorProps {
+  promptKey: string;
+}
+
+function PromptTemplateEditor({ promptKey }: PromptTemplateEditorProps) {
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [rollout, setRollout] = useState('10');
+
+  // Fetch the prompt's versions with their rating metrics
+  const { data, isLoading } = useQuery<{ success: boolean; data: PromptTemplateDetails }>({
+    queryKey: ['prompt-templates', promptKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/prompt-templates/${promptKey}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to fetch prompt template');
+      return response.json();
+    }
+  });
+
+  const promptMutation = useMutation({
+    mutationFn: (request: { path: string; method: 'POST' | 'PUT' | 'DELETE'; body?: unknown }) =>
+      sendPromptRequest(request.path, request.method, request.body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+    }
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <RefreshCw className="w-6 h-6 animate-spin text-purple-500" />
+      </div>
+    );
+  }
+
+  const details = data.data;
+  const activeVersion = details.versions.find(v => v.id === details.template?.activeVersionId);
+  const rolloutPercentage = Number(rollout);
+  const validRollout = Number.isInteger(rolloutPercentage) && rolloutPercentage >= 1 && rolloutPercentage <= 99;
+
+  const handleSaveVersion = () => {
+    if (!content?.trim()) return;
+
+    promptMutation.mutate(
+      { path: `${promptKey}/versions`, method: 'POST', body: { content, notes: notes.trim() || undefined } },
+      {
+        onSuccess: () => {
+          setContent(null);
+          setNotes('');
+        }
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {promptMutation.error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="w-4 h-4" />
+          <AlertDescription>{promptMutation.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* New Version */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">New Version of {details.name}</CardTitle>
+          <CardDescription>
+            Variables: {details.variables.length > 0
+              ? details.variables.map(name => `{{${name}}}`).join(', ')
+              : 'none'}. New versions are not served until activated or put in an experiment.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            aria-label="Prompt content"
+            rows={12}
+            className="font-mono text-sm"
+            value={content ?? activeVersion?.content ?? details.defaultContent}
+            onChange={(event) => setContent(event.target.value)}
+          />
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1 flex-1 min-w-[12rem]">
+              <Label htmlFor={`prompt-notes-${promptKey}`}>Notes</Label>
+              <Input
+                id={`prompt-notes-${promptKey}`}
+                maxLength={500}
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+              />
+            </div>
+            <Button onClick={handleSaveVersion} disabled={!content?.trim() || promptMutation.isPending}>
+              <Plus className="w-4 h-4 mr-2" />
+              Save Version
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Versions */}
+      {details.versions.length > 0 && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`prompt-rollout-${promptKey}`}>Experiment traffic (%)</Label>
+            <Input
+              id={`prompt-rollout-${promptKey}`}
+              type="number"
+              min={1}
+              max={99}
+              className="w-32"
+              value={rollout}
+              onChange={(event) => setRollout(event.target.value)}
+            />
+          </div>
+          {details.template?.experimentVersionId && (
+            <Button
+              variant="outline"
+              onClick={() => promptMutation.mutate({ path: `${promptKey}/experiment`, method: 'DELETE' })}
+              disabled={promptMutation.isPending}
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Stop Experiment
+            </Button>
+          )}
+        </div>
+      )}
+
+      {details.versions.map((version) => {
+        const metrics = details.metrics?.find(m => m.versionId === version.id);
+        const isActive = details.template?.activeVersionId === version.id;
+        const isExperiment = details.template?.experimentVersionId === version.id;
+
+        return (
+          <Card key={version.id} className={`border-l-4 ${isActive ? 'border-l-green-500' : isExperiment ? 'border-l-yellow-500' : 'border-l-gray-300'}`}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2">
+                    Version {version.version}
+                    {isActive && <Badge variant="default" className="bg-green-500">Active</Badge>}
+                    {isExperiment && (
+                      <Badge variant="default" className="bg-yellow-500">
+                        Experiment {details.experimentRolloutPercentage}%
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {version.notes || 'No notes'} · {new Date(version.createdAt).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  {!isActive && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => promptMutation.mutate({
+                        path: `${promptKey}/active`,
+                        method: 'PUT',
+                        body: { versionId: version.id }
+                      })}
+                      disabled={promptMutation.isPending}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Activate
+                    </Button>
+                  )}
+                  {!isActive && !isExperiment && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => promptMutation.mutate({
+                        path: `${promptKey}/experiment`,
+                        method: 'PUT',
+                        body: { versionId: version.id, rolloutPercentage }
+                      })}
+                      disabled={promptMutation.isPending || !validRollout}
+                    >
+                      <FlaskConical className="w-4 h-4 mr-1" />
+                      Start Experiment
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {metrics && metrics.answers > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Answers</p>
+                    <p className="font-medium">{metrics.answers} ({metrics.ratedAnswers} rated)</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Average rating</p>
+                    <p className="font-medium">{metrics.avgRating ?? '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Rated 4 or 5</p>
+                    <p className="font-medium">
+                      {metrics.positiveRate !== null ? `${Math.round(metrics.positiveRate * 100)}%` : '—'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Avg response time</p>
+                    <p className="font-medium">
+                      {metrics.avgResponseTime !== null ? `${metrics.avgResponseTime} ms` : '—'}
+                    </p>
+                  </div>
+                </div>
+              )}
+              <pre className="whitespace-pre-wrap text-xs bg-muted p-3 rounded max-h-48 overflow-y-auto">
+                {version.content}
+              </pre>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ export function CollaborationChat({ roomId }: CollaborationChatProps) {
     participants,
     sendChatMessage,
     sendTyping,
+    permissions,
   } = useCollaboration(roomId);
 
   useEffect(() => {
@@ -223,13 +224,14 @@ export function CollaborationChat({ roomId }: CollaborationChatProps) {
                       onChange={(e) => setMessage(e.target.value)}
                       onKeyPress={handleKeyPress}
                       onInput={handleTyping}
-                      placeholder="Type a message..."
+                      placeholder={permissions.canChat ? "Type a message..." : "You can't chat in this room"}
+                      disabled={!permissions.canChat}
                       className="flex-1"
                     />
                     <Button
                       type="submit"
                       size="icon"
-                      disabled={!message.trim()}
+                      disabled={!permissions.canChat || !message.trim()}
                     >
                       <Send className="w-4 h-4" />
                     </Button>
@@ -1,5 +1,6 @@
-import React, { useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
 import { useCollaboration } from '@/hooks/useCollaboration';
+import { useAuth } from '@/hooks/useAuth';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -11,16 +12,68 @@ interface CollaborationProviderProps {
   children: ReactNode;
 }
 
+const CollaborationRoomContext = createContext<string | null>(null);
+
+/**
+ * Room ID of the surrounding CollaborationProvider, or null outside one
+ */
+export function useCollaborationRoom(): string | null {
+  return useContext(CollaborationRoomContext);
+}
+
+/**
+ * Attribute marking a collaborative field; participants' selections in it are shown to others
+ */
+export const COLLABORATIVE_FIELD_ATTRIBUTE = 'data-collab-field';
+
 export function CollaborationProvider({ roomId, children }: CollaborationProviderProps) {
   const {
     isConnected,
     participants,
     typingUsers,
     sendCursorUpdate,
+    sendSelectionUpdate,
   } = useCollaboration(roomId);
+  const { user } = useAuth();
+  const currentUserId = (user as any)?.id;
   
   const containerRef = useRef<HTMLDivElement>(null);
   const lastCursorUpdate = useRef(0);
+  const lastSelection = useRef<string | null>(null);
+
+  // Share which collaborative field each participant is in and what they have selected.
+  // Fields may render in portals (e.g. dialogs), so this listens on the whole document.
+  useEffect(() => {
+    const updateSelection = () => {
+      const element = document.activeElement;
+      const field = element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement
+        ? element.getAttribute(COLLABORATIVE_FIELD_ATTRIBUTE)
+        : null;
+
+      const selection = field && (element as HTMLTextAreaElement).selectionStart !== null
+        ? {
+            elementId: field,
+            start: (element as HTMLTextAreaElement).selectionStart!,
+            end: (element as HTMLTextAreaElement).selectionEnd ?? (element as HTMLTextAreaElement).selectionStart!,
+          }
+        : null;
+
+      const key = selection ? `${selection.elementId}:${selection.start}:${selection.end}` : null;
+      if (key === lastSelection.current) return;
+      lastSelection.current = key;
+      sendSelectionUpdate(selection);
+    };
+
+    document.addEventListener('selectionchange', updateSelection);
+    document.addEventListener('focusin', updateSelection);
+    document.addEventListener('focusout', updateSelection);
+
+    return () => {
+      document.removeEventListener('selectionchange', updateSelection);
+      document.removeEventListener('focusin', updateSelection);
+      document.removeEventListener('focusout', updateSelection);
+    };
+  }, [sendSelectionUpdate]);
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -56,161 +109,203 @@ export function CollaborationProvider({ roomId, children }: CollaborationProvide
   }, [sendCursorUpdate]);
 
   return (
-    <div ref={containerRef} className="relative w-full h-full">
-      {/* Connection Status */}
-      <div className="fixed top-20 right-4 z-50 flex items-center gap-2">
-        <AnimatePresence>
-          {isConnected && (
-            <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              exit={{ opacity: 0, x: 20 }}
-              className="flex items-center gap-2"
-            >
-              <Badge variant="outline" className="gap-1.5">
-                <Circle className={cn(
-                  "w-2 h-2 fill-current",
-                  isConnected ? "text-green-500" : "text-gray-400"
-                )} />
-                {isConnected ? "Connected" : "Connecting..."}
-              </Badge>
-            </motion.div>
-          )}
-        </AnimatePresence>
-      </div>
+    <CollaborationRoomContext.Provider value={roomId}>
+      <div ref={containerRef} className="relative w-full h-full">
+        {/* Connection Status */}
+        <div className="fixed top-20 right-4 z-50 flex items-center gap-2">
+          <AnimatePresence>
+            {isConnected && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                className="flex items-center gap-2"
+              >
+                <Badge variant="outline" className="gap-1.5">
+                  <Circle className={cn(
+                    "w-2 h-2 fill-current",
+                    isConnected ? "text-green-500" : "text-gray-400"
+                  )} />
+                  {isConnected ? "Connected" : "Connecting..."}
+                </Badge>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
 
-      {/* Participant Avatars */}
-      <div className="fixed top-20 right-40 z-50">
+        {/* Participant Avatars */}
+        <div className="fixed top-20 right-40 z-50">
+          <AnimatePresence>
+            {participants.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="flex items-center gap-2"
+              >
+                <div className="flex -space-x-2">
+                  {participants.slice(0, 5).map((participant) => (
+                    <Avatar
+                      key={participant.userId}
+                      className="w-8 h-8 border-2 border-background"
+                      style={{ borderColor: participant.color }}
+                    >
+                      <AvatarFallback
+                        className="text-xs"
+                        style={{ backgroundColor: participant.color }}
+                      >
+                        {participant.userName.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                </div>
+                {participants.length > 5 && (
+                  <Badge variant="secondary">+{participants.length - 5}</Badge>
+                )}
+                <Badge variant="outline" className="gap-1">
+                  <Users className="w-3 h-3" />
+                  {participants.length}
+                </Badge>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        {/* Typing Indicators */}
         <AnimatePresence>
-          {participants.length > 0 && (
+          {typingUsers.length > 0 && (
             <motion.div
-              initial={{ opacity: 0, y: -10 }}
+              initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              className="flex items-center gap-2"
+              exit={{ opacity: 0, y: 10 }}
+              className="fixed bottom-4 right-4 z-50 flex items-center gap-2 bg-background/90 backdrop-blur-sm rounded-lg px-3 py-2 shadow-lg border"
             >
-              <div className="flex -space-x-2">
-                {participants.slice(0, 5).map((participant) => (
-                  <Avatar
-                    key={participant.userId}
-                    className="w-8 h-8 border-2 border-background"
-                    style={{ borderColor: participant.color }}
-                  >
-                    <AvatarFallback
-                      className="text-xs"
-                      style={{ backgroundColor: participant.color }}
-                    >
-                      {participant.userName.substring(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
+              <MessageCircle className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">
+                {typingUsers.map(u => u?.userName).join(', ')}
+                {typingUsers.length === 1 ? ' is' : ' are'} typing...
+              </span>
+              <div className="flex gap-1">
+                {[0, 1, 2].map((i) => (
+                  <motion.div
+                    key={i}
+                    className="w-1.5 h-1.5 bg-muted-foreground rounded-full"
+                    animate={{
+                      y: [0, -4, 0],
+                    }}
+                    transition={{
+                      duration: 0.6,
+                      repeat: Infinity,
+                      delay: i * 0.1,
+                    }}
+                  />
                 ))}
               </div>
-              {participants.length > 5 && (
-                <Badge variant="secondary">+{participants.length - 5}</Badge>
-              )}
-              <Badge variant="outline" className="gap-1">
-                <Users className="w-3 h-3" />
-                {participants.length}
-              </Badge>
             </motion.div>
           )}
         </AnimatePresence>
-      </div>
 
-      {/* Typing Indicators */}
-      <AnimatePresence>
-        {typingUsers.length > 0 && (
-          <motion.div
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 10 }}
-            className="fixed bottom-4 right-4 z-50 flex items-center gap-2 bg-background/90 backdrop-blur-sm rounded-lg px-3 py-2 shadow-lg border"
-          >
-            <MessageCircle className="w-4 h-4 text-muted-foreground" />
-            <span className="text-sm text-muted-foreground">
-              {typingUsers.map(u => u?.userName).join(', ')}
-              {typingUsers.length === 1 ? ' is' : ' are'} typing...
-            </span>
-            <div className="flex gap-1">
-              {[0, 1, 2].map((i) => (
+        {/* Live Cursors */}
+        <div className="absolute inset-0 pointer-events-none overflow-hidden">
+          <AnimatePresence>
+            {participants.map((participant) => {
+              if (!participant.cursor || participant.cursor.x < 0 || participant.cursor.y < 0) {
+                return null;
+              }
+            
+              return (
                 <motion.div
-                  key={i}
-                  className="w-1.5 h-1.5 bg-muted-foreground rounded-full"
+                  key={participant.userId}
+                  className="absolute flex items-start gap-1 pointer-events-none"
+                  initial={{ opacity: 0, scale: 0.5 }}
                   animate={{
-                    y: [0, -4, 0],
+                    opacity: 1,
+                    scale: 1,
+                    left: `${participant.cursor.x}%`,
+                    top: `${participant.cursor.y}%`,
                   }}
+                  exit={{ opacity: 0, scale: 0.5 }}
                   transition={{
-                    duration: 0.6,
-                    repeat: Infinity,
-                    delay: i * 0.1,
+                    type: "spring",
+                    damping: 30,
+                    stiffness: 300,
                   }}
-                />
-              ))}
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      {/* Live Cursors */}
-      <div className="absolute inset-0 pointer-events-none overflow-hidden">
-        <AnimatePresence>
+                  style={{ zIndex: 1000 }}
+                >
+                  <svg
+                    width="24"
+                    height="24"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    style={{ filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.2))' }}
+                  >
+                    <path
+                      d="M3 3L10.07 19.97L12.58 12.58L19.97 10.07L3 3Z"
+                      fill={participant.color}
+                      stroke="white"
+                      strokeWidth="1"
+                    />
+                  </svg>
+                  <Badge
+                    variant="secondary"
+                    className="text-xs px-1.5 py-0.5"
+                    style={{
+                      backgroundColor: participant.color,
+                      color: 'white',
+                      borderColor: participant.color,
+                    }}
+                  >
+                    {participant.userName}
+                  </Badge>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+
+        {/* Field Presence */}
+        <div className="fixed inset-0 pointer-events-none" style={{ zIndex: 1000 }}>
           {participants.map((participant) => {
-            if (!participant.cursor || participant.cursor.x < 0 || participant.cursor.y < 0) {
-              return null;
-            }
-            
+            const selection = participant.selection;
+            if (!selection?.elementId || participant.userId === currentUserId) return null;
+
+            const field = document.querySelector(
+              `[${COLLABORATIVE_FIELD_ATTRIBUTE}="${CSS.escape(selection.elementId)}"]`
+            );
+            if (!field) return null;
+
+            const rect = field.getBoundingClientRect();
+            const range = selection.start === selection.end
+              ? `at ${selection.start}`
+              : `selecting ${selection.start}–${selection.end}`;
+
             return (
-              <motion.div
+              <div
                 key={participant.userId}
-                className="absolute flex items-start gap-1 pointer-events-none"
-                initial={{ opacity: 0, scale: 0.5 }}
-                animate={{
-                  opacity: 1,
-                  scale: 1,
-                  left: `${participant.cursor.x}%`,
-                  top: `${participant.cursor.y}%`,
+                className="absolute rounded-md border-2"
+                style={{
+                  left: rect.left,
+                  top: rect.top,
+                  width: rect.width,
+                  height: rect.height,
+                  borderColor: participant.color,
                 }}
-                exit={{ opacity: 0, scale: 0.5 }}
-                transition={{
-                  type: "spring",
-                  damping: 30,
-                  stiffness: 300,
-                }}
-                style={{ zIndex: 1000 }}
               >
-                <svg
-                  width="24"
-                  height="24"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  style={{ filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.2))' }}
-                >
-                  <path
-                    d="M3 3L10.07 19.97L12.58 12.58L19.97 10.07L3 3Z"
-                    fill={participant.color}
-                    stroke="white"
-                    strokeWidth="1"
-                  />
-                </svg>
                 <Badge
                   variant="secondary"
-                  className="text-xs px-1.5 py-0.5"
-                  style={{
-                    backgroundColor: participant.color,
-                    color: 'white',
-                    borderColor: participant.color,
-                  }}
+                  className="absolute -top-3 right-2 text-xs px-1.5 py-0"
+                  style={{ backgroundColor: participant.color, color: 'white', borderColor: participant.color }}
                 >
-                  {participant.userName}
+                  {participant.userName} · {range}
                 </Badge>
-              </motion.div>
+              </div>
             );
           })}
-        </AnimatePresence>
-      </div>
+        </div>
 
-      {/* Main Content */}
-      {children}
-    </div>
+        {/* Main Content */}
+        {children}
+      </div>
+    </CollaborationRoomContext.Provider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
+import { useCollaborativeDocument } from '@/hooks/useCollaboration';
+import { Textarea } from '@/components/ui/textarea';
+import { COLLABORATIVE_FIELD_ATTRIBUTE } from './CollaborationProvider';
+import type { CharId } from '@shared/crdt';
+
+type TextareaProps = Omit<React.ComponentProps<'textarea'>, 'value' | 'defaultValue' | 'onChange'>;
+
+interface CollaborativeTextareaProps extends TextareaProps {
+  docKey: string;
+  /** Called with the merged text after local and remote edits, e.g. to keep a form field in step */
+  onTextChange?: (text: string) => void;
+}
+
+/**
+ * Textarea bound to a shared document in the surrounding CollaborationProvider's room
+ * Concurrent edits merge instead of overwriting each other, and edits made offline are sent on reconnect
+ */
+export function CollaborativeTextarea({
+  docKey,
+  onTextChange,
+  readOnly,
+  ...props
+}: CollaborativeTextareaProps) {
+  const { text, isLoaded, canEdit, setText, anchorAt, positionOf } = useCollaborativeDocument(docKey);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const selectionAnchors = useRef<{ start: CharId | null; end: CharId | null }>({ start: null, end: null });
+
+  const recordSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    selectionAnchors.current = {
+      start: anchorAt(textarea.selectionStart),
+      end: anchorAt(textarea.selectionEnd),
+    };
+  };
+
+  // Remote edits replace the value; put the caret back next to the same characters
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || document.activeElement !== textarea) return;
+    const { start, end } = selectionAnchors.current;
+    textarea.setSelectionRange(positionOf(start), positionOf(end));
+  }, [text, positionOf]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      onTextChange?.(text);
+    }
+  }, [text, isLoaded]);
+
+  return (
+    <Textarea
+      {...props}
+      ref={textareaRef}
+      {...{ [COLLABORATIVE_FIELD_ATTRIBUTE]: docKey }}
+      value={text}
+      readOnly={readOnly || !isLoaded || !canEdit}
+      onChange={(e) => {
+        setText(e.target.value);
+        recordSelection();
+      }}
+      onSelect={recordSelection}
+    />
+  );
+}
@@ -2,12 +2,14 @@
  * AIMessage Component
  * 
  * Displays AI assistant messages in the conversation thread.
- * Left-aligned with AI avatar, copy button, rating system, and report option.
+ * Left-aligned with AI avatar, copy button, rating system, branch and report options.
+ * Actions the assistant took or proposed are shown below the answer.
  * 
  * Requirements: 1.5, 6.1, 6.2, 6.6
  */
 
 import { useState } from 'react';
+import { Link } from 'wouter';
 import { formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -35,14 +37,91 @@ import {
   Flag, 
   Check,
   Sparkles,
-  ExternalLink
+  ExternalLink,
+  Search,
+  BookOpen,
+  MessageSquare,
+  GitFork,
+  type LucideIcon
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { hapticLight, hapticSuccess, hapticMedium } from '@/lib/haptics';
 import { shouldReduceMotion } from '@/lib/mobile-optimizations';
-import type { AIMessageProps } from '@/types';
+import { ToolCallCard } from './ToolCallCard';
+import type { AIMessageProps, CitationType, MessageCitation } from '@/types';
 
-export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps) {
+const CITATION_ICONS: Record<CitationType, LucideIcon> = {
+  search_result: Search,
+  resource: BookOpen,
+  message: MessageSquare,
+};
+
+const CITATION_DESCRIPTIONS: Record<CitationType, string> = {
+  search_result: 'Gap from this analysis',
+  resource: 'Resource library',
+  message: 'Earlier in this conversation',
+};
+
+/**
+ * Clickable chip linking a citation back to the record it points at
+ */
+function CitationChip({ citation }: { citation: MessageCitation }) {
+  const Icon = CITATION_ICONS[citation.type];
+  const chipClassName =
+    'inline-flex max-w-full items-center gap-1 rounded-full border border-border bg-background px-2 py-0.5 text-xs hover:bg-accent hover:text-accent-foreground focus:outline-none focus:ring-2 focus:ring-ring min-h-[28px]';
+  const chipContent = (
+    <>
+      <span className="font-semibold">{citation.key}</span>
+      <Icon className="h-3 w-3 shrink-0" aria-hidden="true" />
+      <span className="truncate">{citation.label}</span>
+    </>
+  );
+  const ariaLabel = `Source ${citation.key}: ${citation.label} (${CITATION_DESCRIPTIONS[citation.type]})`;
+
+  const handleScrollToMessage = () => {
+    const target = document.getElementById(`message-${citation.id}`);
+    if (target) {
+      target.scrollIntoView({ behavior: shouldReduceMotion() ? 'auto' : 'smooth', block: 'center' });
+    }
+  };
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          {citation.type === 'message' ? (
+            <button type="button" onClick={handleScrollToMessage} className={chipClassName} aria-label={ariaLabel}>
+              {chipContent}
+            </button>
+          ) : (
+            <Link
+              href={citation.type === 'search_result' ? `/search-result/${citation.id}` : `/resources/${citation.id}`}
+              className={chipClassName}
+              aria-label={ariaLabel}
+            >
+              {chipContent}
+            </Link>
+          )}
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{CITATION_DESCRIPTIONS[citation.type]}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+export function AIMessage({
+  message,
+  onCopy,
+  onRate,
+  onReport,
+  onFork,
+  toolCalls,
+  onConfirmToolCall,
+  onRejectToolCall,
+  resolvingToolCallId,
+}: AIMessageProps) {
   const [copied, setCopied] = useState(false);
   const [rating, setRating] = useState<number | null>(null);
   const [showReportDialog, setShowReportDialog] = useState(false);
@@ -93,12 +172,14 @@ export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps)
 
   const confidence = message.metadata?.confidence;
   const sources = message.metadata?.sources;
+  const citations = message.metadata?.citations;
   const assumptions = message.metadata?.assumptions;
 
   const animationClass = shouldReduceMotion() ? '' : 'animate-in slide-in-from-left duration-300';
   
   return (
     <div 
+      id={`message-${message.id}`}
       className={`flex gap-2 md:gap-3 ${animationClass}`}
       role="article"
       aria-label={`AI response from ${formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}`}
@@ -118,7 +199,7 @@ export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps)
           </p>
 
           {/* Metadata Section - Collapsed on mobile */}
-          {(confidence || assumptions || sources) && (
+          {(confidence || assumptions || sources || (citations && citations.length > 0)) && (
             <div className="mt-2 md:mt-3 pt-2 md:pt-3 border-t border-border/50 space-y-1.5 md:space-y-2">
               {/* Confidence Indicator */}
               {confidence && (
@@ -141,6 +222,20 @@ export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps)
                 </div>
               )}
 
+              {/* Citations - Shown on mobile so claims can be checked anywhere */}
+              {citations && citations.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  <span className="font-medium">Cited sources:</span>
+                  <ul className="flex flex-wrap gap-1.5 mt-1" aria-label="Cited sources">
+                    {citations.map((citation) => (
+                      <li key={citation.key} className="max-w-full">
+                        <CitationChip citation={citation} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Sources - Hidden on small mobile */}
               {sources && sources.length > 0 && (
                 <div className="text-xs text-muted-foreground hidden sm:block">
@@ -159,6 +254,21 @@ export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps)
           )}
         </div>
 
+        {/* Actions the assistant took or proposed for this answer */}
+        {toolCalls && toolCalls.length > 0 && (
+          <div className="space-y-2" aria-label="Assistant actions">
+            {toolCalls.map((toolCall) => (
+              <ToolCallCard
+                key={toolCall.id}
+                toolCall={toolCall}
+                onConfirm={onConfirmToolCall}
+                onReject={onRejectToolCall}
+                resolving={resolvingToolCallId === toolCall.id}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Actions and Timestamp - Touch-friendly */}
         <div className="flex items-center justify-between gap-2 px-1">
           <span className="text-xs text-muted-foreground">
@@ -235,6 +345,31 @@ export function AIMessage({ message, onCopy, onRate, onReport }: AIMessageProps)
               </Tooltip>
             </TooltipProvider>
 
+            {/* Branch Button - Touch-friendly */}
+            {onFork && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        hapticLight();
+                        onFork(message.id);
+                      }}
+                      className="h-8 w-8 md:h-7 md:w-7 p-0 hover:bg-muted min-w-[44px] md:min-w-0"
+                      aria-label="Branch conversation from this message"
+                    >
+                      <GitFork className="h-4 w-4 md:h-3 md:w-3" aria-hidden="true" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Branch from here</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+
             {/* Report Button - Touch-friendly */}
             <TooltipProvider>
               <Tooltip>
@@ -0,0 +1,189 @@
+/**
+ * AnalysisScopePicker Component
+ *
+ * Starts a conversation across several analyses: either everything in a project,
+ * or a hand-picked set of up to six analyses to compare.
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, MessagesSquare } from 'lucide-react';
+import type { Project, Search } from '@shared/schema';
+import type { AnalysisScopePickerProps, Conversation, ConversationScopeAnalysis } from '@/types';
+
+/** Matches the server's limit on analyses per conversation */
+const MAX_ANALYSES = 6;
+
+type ScopeMode = 'project' | 'comparison';
+
+export function AnalysisScopePicker({ onConversationStarted }: AnalysisScopePickerProps) {
+  const [mode, setMode] = useState<ScopeMode>('comparison');
+  const [projectId, setProjectId] = useState<string>('');
+  const [analysisIds, setAnalysisIds] = useState<number[]>([]);
+  const [title, setTitle] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: analyses = [], isLoading: analysesLoading } = useQuery<Search[]>({
+    queryKey: ['/api/searches'],
+    select: (response: any) => {
+      const searches = response?.data || response || [];
+      return Array.isArray(searches) ? searches : [];
+    },
+  });
+
+  const { data: projects = [], isLoading: projectsLoading } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    select: (response: any) => response?.data || response || [],
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const body = mode === 'project'
+        ? { projectId: Number(projectId), ...(title.trim() ? { title: title.trim() } : {}) }
+        : { analysisIds, ...(title.trim() ? { title: title.trim() } : {}) };
+
+      const response = await fetch('/api/conversations/multi-analysis', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || 'Failed to start conversation');
+      }
+
+      const result = await response.json();
+      return result.data as { conversation: Conversation; analyses: ConversationScopeAnalysis[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['multi-analysis-conversations'] });
+      onConversationStarted(data.conversation.id);
+    },
+  });
+
+  const toggleAnalysis = (analysisId: number, checked: boolean) => {
+    setAnalysisIds((current) =>
+      checked ? [...current, analysisId] : current.filter((id) => id !== analysisId)
+    );
+  };
+
+  const canStart = mode === 'project' ? projectId !== '' : analysisIds.length >= 2;
+
+  return (
+    <Card className="p-4 md:p-6 space-y-4" role="region" aria-label="Start a conversation across analyses">
+      <div>
+        <h3 className="text-base md:text-lg font-semibold">Discuss Several Analyses</h3>
+        <p className="text-xs md:text-sm text-muted-foreground">
+          Ask questions that compare opportunities side by side
+        </p>
+      </div>
+
+      <Tabs value={mode} onValueChange={(value) => setMode(value as ScopeMode)}>
+        <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsTrigger value="comparison">Pick analyses</TabsTrigger>
+          <TabsTrigger value="project">Whole project</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="comparison" className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Choose 2 to {MAX_ANALYSES} analyses ({analysisIds.length} selected)
+          </p>
+          {analysesLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : analyses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Run a few searches to compare them here.</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto space-y-1" aria-label="Analyses">
+              {analyses.map((analysis) => {
+                const checked = analysisIds.includes(analysis.id);
+                return (
+                  <li key={analysis.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+                    <Checkbox
+                      id={`scope-analysis-${analysis.id}`}
+                      checked={checked}
+                      disabled={!checked && analysisIds.length >= MAX_ANALYSES}
+                      onCheckedChange={(value) => toggleAnalysis(analysis.id, value === true)}
+                    />
+                    <Label htmlFor={`scope-analysis-${analysis.id}`} className="text-sm font-normal truncate cursor-pointer">
+                      {analysis.query}
+                    </Label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </TabsContent>
+
+        <TabsContent value="project" className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            The conversation follows the project, including analyses you add to it later
+          </p>
+          {projectsLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : (
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger aria-label="Project">
+                <SelectValue placeholder={projects.length === 0 ? 'No projects yet' : 'Select a project'} />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.filter((project) => !project.archived).map((project) => (
+                  <SelectItem key={project.id} value={String(project.id)}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <div className="space-y-1">
+        <Label htmlFor="scope-title" className="text-xs">Title (optional)</Label>
+        <Input
+          id="scope-title"
+          value={title}
+          maxLength={200}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder={mode === 'project' ? 'Defaults to the project name' : 'Defaults to the analyses compared'}
+        />
+      </div>
+
+      {startMutation.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{startMutation.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        onClick={() => startMutation.mutate()}
+        disabled={!canStart || startMutation.isPending}
+        className="min-h-[44px]"
+      >
+        {startMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" aria-hidden="true" />
+        ) : (
+          <MessagesSquare className="h-4 w-4 mr-2" aria-hidden="true" />
+        )}
+        Start conversation
+      </Button>
+    </Card>
+  );
+}
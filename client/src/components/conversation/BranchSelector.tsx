@@ -0,0 +1,67 @@
+/**
+ * BranchSelector Component
+ *
+ * Switches between the main conversation thread and its branches.
+ * Shows each branch's own message count and token usage.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { GitFork } from 'lucide-react';
+import type { ConversationBranchSummary } from '@/types';
+
+interface BranchSelectorProps {
+  branches: ConversationBranchSummary[];
+  currentBranchId: number;
+  onBranchChange: (branchId: number) => void;
+  disabled?: boolean;
+}
+
+export function BranchSelector({
+  branches,
+  currentBranchId,
+  onBranchChange,
+  disabled = false,
+}: BranchSelectorProps) {
+  if (branches.length <= 1) {
+    return null;
+  }
+
+  const current = branches.find((branch) => branch.id === currentBranchId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 md:gap-3 p-2 md:p-3 bg-muted/30 rounded-lg border">
+      <GitFork className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+      <span className="text-sm font-medium">Branch:</span>
+
+      <Select
+        value={String(currentBranchId)}
+        onValueChange={(value) => onBranchChange(parseInt(value))}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-[200px] md:w-[250px]" aria-label="Select conversation branch">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {branches.map((branch) => (
+            <SelectItem key={branch.id} value={String(branch.id)}>
+              {branch.branchName} ({branch.messageCount} messages)
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {current && (
+        <Badge variant="outline" className="text-xs">
+          {current.totalTokensUsed.toLocaleString()} tokens
+        </Badge>
+      )}
+    </div>
+  );
+}
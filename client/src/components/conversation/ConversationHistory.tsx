@@ -35,6 +35,8 @@ interface ConversationHistoryProps {
   onMessageRate?: (messageId: number, rating: number) => void;
   onMessageReport?: (messageId: number) => void;
   highlightMessageId?: number;
+  /** Zero-based position of the highlighted message, to open the page it is on */
+  highlightMessagePosition?: number;
 }
 
 export function ConversationHistory({
@@ -45,15 +47,18 @@ export function ConversationHistory({
   onMessageRate,
   onMessageReport,
   highlightMessageId,
+  highlightMessagePosition,
 }: ConversationHistoryProps) {
+  const pageSize = 20;
+
   const [searchQuery, setSearchQuery] = useState('');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(
+    highlightMessagePosition !== undefined ? Math.floor(highlightMessagePosition / pageSize) + 1 : 1
+  );
   const [filteredMessages, setFilteredMessages] = useState<ConversationMessage[]>([]);
   const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
-  
-  const pageSize = 20;
 
   // Fetch messages with pagination
   const { 
@@ -109,7 +114,14 @@ export function ConversationHistory({
     }
   }, [searchQuery, messages]);
 
-  // Scroll to highlighted message
+  // Jump to the page holding the highlighted message
+  useEffect(() => {
+    if (highlightMessagePosition !== undefined) {
+      setCurrentPage(Math.floor(highlightMessagePosition / pageSize) + 1);
+    }
+  }, [highlightMessageId, highlightMessagePosition]);
+
+  // Scroll to highlighted message once its page has loaded
   useEffect(() => {
     if (highlightMessageId) {
       const messageElement = messageRefs.current.get(highlightMessageId);
@@ -117,7 +129,7 @@ export function ConversationHistory({
         messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
       }
     }
-  }, [highlightMessageId]);
+  }, [highlightMessageId, messages]);
 
   // Scroll to specific message by index
   const scrollToMessage = (index: number) => {
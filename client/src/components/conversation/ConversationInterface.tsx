@@ -13,12 +13,13 @@ import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { LoadingOverlay } from '@/components/ui/loading-overlay';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, RefreshCw, Keyboard } from 'lucide-react';
+import { AlertCircle, RefreshCw, Keyboard, Square } from 'lucide-react';
 import { UserMessage } from './UserMessage';
 import { AIMessage } from './AIMessage';
 import { ConversationInput } from './ConversationInput';
 import { SuggestedQuestions } from './SuggestedQuestions';
 import { VariantSelector } from './VariantSelector';
+import { BranchSelector } from './BranchSelector';
 import { ConversationHistory } from './ConversationHistory';
 import { ConversationExportDialog } from './ConversationExportDialog';
 import { ClearConversationDialog } from './ClearConversationDialog';
@@ -33,20 +34,25 @@ import { useTouchFriendly } from '@/hooks/useTouchFriendly';
 import { useSwipeGesture } from '@/hooks/useSwipeGesture';
 import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useConversationKeyboardNav } from '@/hooks/useConversationKeyboardNav';
+import { useStreamingResponse } from '@/hooks/useStreamingResponse';
 import type { 
   ConversationInterfaceProps, 
   Conversation, 
+  ConversationBranchSummary,
   ConversationMessage,
-  MessageResponse 
+  ConversationToolCall
 } from '@/types';
 
 export function ConversationInterface({ 
   analysisId, 
-  onVariantCreated 
+  onVariantCreated,
+  initialMessage
 }: ConversationInterfaceProps) {
   const [sending, setSending] = useState(false);
   const [currentVariantId, setCurrentVariantId] = useState<number | null>(null);
-  const [activeTab, setActiveTab] = useState<'chat' | 'history'>('chat');
+  // null while on the main thread; a message link may point into a branch
+  const [branchId, setBranchId] = useState<number | null>(initialMessage?.conversationId ?? null);
+  const [activeTab, setActiveTab] = useState<'chat' | 'history'>(initialMessage ? 'history' : 'chat');
   const [showShortcuts, setShowShortcuts] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -75,8 +81,10 @@ export function ConversationInterface({
   } = useQuery<{
     conversation: Conversation;
     messages: ConversationMessage[];
+    toolCalls: ConversationToolCall[];
     suggestions: any[];
     analytics: any;
+    branches: ConversationBranchSummary[];
     rateLimit: {
       remaining: number;
       limit: number;
@@ -84,9 +92,10 @@ export function ConversationInterface({
       tier: 'free' | 'pro' | 'enterprise';
     };
   }>({
-    queryKey: ['conversation', analysisId],
+    queryKey: ['conversation', analysisId, branchId],
     queryFn: async () => {
-      const response = await fetch(`/api/conversations/${analysisId}`);
+      const query = branchId ? `?branchId=${branchId}` : '';
+      const response = await fetch(`/api/conversations/${analysisId}${query}`);
       if (!response.ok) {
         throw new Error('Failed to load conversation');
       }
@@ -96,6 +105,9 @@ export function ConversationInterface({
   });
 
   const conversation = conversationData?.conversation;
+  const messages = conversationData?.messages ?? conversation?.messages ?? [];
+  const branches = conversationData?.branches ?? [];
+  const toolCalls = conversationData?.toolCalls ?? [];
   const rateLimit = conversationData?.rateLimit;
   
   // Pull-to-refresh for mobile
@@ -121,24 +133,78 @@ export function ConversationInterface({
     enabled: isMobile,
   });
 
-  // Send message mutation
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      const response = await fetch(`/api/conversations/${analysisId}/messages`, {
+  // Stream answers as they are generated (editing an earlier question answers it in a new branch)
+  const streaming = useStreamingResponse({
+    onComplete: async (_content, _messageId, _metadata, event) => {
+      if (event.conversationId !== conversation?.id) {
+        setBranchId(event.conversationId);
+      }
+      await queryClient.invalidateQueries({ queryKey: ['conversation', analysisId] });
+      streaming.reset();
+    },
+    onError: () => {
+      // The question may have been saved before the answer failed
+      queryClient.invalidateQueries({ queryKey: ['conversation', analysisId] });
+    },
+  });
+
+  const sendMessage = async (content: string, editMessageId?: number) => {
+    setSending(true);
+    try {
+      await streaming.startStreaming(analysisId, content, { branchId, editMessageId });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Stop generating; the server keeps whatever was already streamed
+  const handleStopStreaming = async () => {
+    streaming.cancelStreaming();
+    await queryClient.invalidateQueries({ queryKey: ['conversation', analysisId] });
+    streaming.reset();
+  };
+
+  // Fork branch mutation
+  const forkMutation = useMutation({
+    mutationFn: async (fromMessageId: number) => {
+      const response = await fetch(`/api/conversations/${conversation?.id}/branches`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content }),
+        body: JSON.stringify({ fromMessageId }),
       });
-      
+
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to send message');
+        throw new Error(error.message || error.error || 'Failed to create branch');
       }
-      
-      return response.json() as Promise<MessageResponse>;
+
+      const result = await response.json();
+      return result.data as { branch: Conversation; branches: ConversationBranchSummary[] };
     },
     onSuccess: (data) => {
-      // Update conversation in cache
+      setBranchId(data.branch.id);
+      queryClient.invalidateQueries({ queryKey: ['conversation', analysisId] });
+    },
+  });
+
+  // Confirm or reject a change the assistant proposed
+  const toolCallMutation = useMutation({
+    mutationFn: async ({ toolCallId, action }: { toolCallId: number; action: 'confirm' | 'reject' }) => {
+      const response = await fetch(`/api/conversations/tool-calls/${toolCallId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || error.error || `Failed to ${action} action`);
+      }
+
+      const result = await response.json();
+      return result.data as { toolCall: ConversationToolCall };
+    },
+    onSuccess: () => {
+      // A confirmed variant or task change also shows up elsewhere in the analysis
       queryClient.invalidateQueries({ queryKey: ['conversation', analysisId] });
     },
   });
@@ -148,18 +214,11 @@ export function ConversationInterface({
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [conversation?.messages]);
+  }, [messages, streaming.content]);
 
   // Handle message submission
   const handleSubmit = async (content: string) => {
-    setSending(true);
-    try {
-      await sendMessageMutation.mutateAsync(content);
-    } catch (error) {
-      console.error('Failed to send message:', error);
-    } finally {
-      setSending(false);
-    }
+    await sendMessage(content);
   };
 
   // Handle suggested question click
@@ -167,10 +226,33 @@ export function ConversationInterface({
     await handleSubmit(question);
   };
 
-  // Handle message edit
+  // Handle message edit: the edited question is answered in a new branch
   const handleEdit = async (messageId: number, newContent: string) => {
-    // TODO: Implement edit functionality
-    console.log('Edit message:', messageId, newContent);
+    await sendMessage(newContent, messageId);
+  };
+
+  // Handle branching from a message
+  const handleFork = async (messageId: number) => {
+    try {
+      await forkMutation.mutateAsync(messageId);
+    } catch (error) {
+      console.error('Failed to create branch:', error);
+    }
+  };
+
+  // Handle a proposed action being confirmed or rejected
+  const handleResolveToolCall = async (toolCallId: number, action: 'confirm' | 'reject') => {
+    try {
+      await toolCallMutation.mutateAsync({ toolCallId, action });
+    } catch (error) {
+      console.error(`Failed to ${action} action:`, error);
+    }
+  };
+
+  // Handle branch switch (the main thread is loaded without a branch ID)
+  const handleBranchChange = (nextBranchId: number) => {
+    const selected = branches.find((branch) => branch.id === nextBranchId);
+    setBranchId(selected && selected.parentConversationId === null ? null : nextBranchId);
   };
 
   // Handle message delete
@@ -274,7 +356,7 @@ export function ConversationInterface({
       skipToMessagesId="conversation-messages"
     >
       <Card className="relative overflow-hidden" role="region" aria-label="Conversation interface">
-        {sending && <LoadingOverlay isLoading={sending} message="Sending message..." />}
+        {sending && !streaming.userMessage && <LoadingOverlay isLoading={sending} message="Sending message..." />}
       
       {/* Screen reader announcements */}
       <div 
@@ -283,12 +365,12 @@ export function ConversationInterface({
         aria-atomic="true" 
         className="sr-only"
       >
-        {sending && 'Sending message...'}
-        {sendMessageMutation.error && `Error: ${sendMessageMutation.error.message}`}
+        {sending && !streaming.userMessage && 'Sending message...'}
+        {streaming.error && `Error: ${streaming.error}`}
       </div>
 
       {/* Live region for new messages */}
-      <ConversationLiveRegion messages={conversation?.messages || []} />
+      <ConversationLiveRegion messages={messages} />
       
       <div className="flex flex-col h-full">
         {/* Header - Responsive */}
@@ -336,6 +418,18 @@ export function ConversationInterface({
 
           <TabsContent value="chat" className="flex-1 flex flex-col mt-0">{/* Chat View - Mobile Optimized */}
 
+        {/* Branch Selector */}
+        {conversation?.id && (
+          <div className="p-3 md:p-4 border-b bg-background empty:hidden">
+            <BranchSelector
+              branches={branches}
+              currentBranchId={conversation.id}
+              onBranchChange={handleBranchChange}
+              disabled={sending || forkMutation.isPending}
+            />
+          </div>
+        )}
+
         {/* Variant Selector - Hidden on small mobile */}
         {conversation?.id && (
           <div className="p-3 md:p-4 border-b bg-background hidden sm:block">
@@ -387,15 +481,46 @@ export function ConversationInterface({
           {/* Virtualized Message List */}
           <div id="conversation-messages">
             <VirtualizedMessageList
-              messages={conversation?.messages || []}
+              messages={messages}
               onEdit={handleEdit}
               onDelete={handleDelete}
               onCopy={handleCopy}
               onRate={handleRate}
               onReport={handleReport}
+              onFork={handleFork}
+              toolCalls={toolCalls}
+              onConfirmToolCall={(toolCallId) => handleResolveToolCall(toolCallId, 'confirm')}
+              onRejectToolCall={(toolCallId) => handleResolveToolCall(toolCallId, 'reject')}
+              resolvingToolCallId={toolCallMutation.isPending ? toolCallMutation.variables?.toolCallId : null}
               maxVisibleMessages={isMobile ? 20 : 50}
               isMobile={isMobile}
             />
+
+            {/* Answer being streamed */}
+            {streaming.userMessage && !streaming.error && (
+              <div className="p-3 md:p-4 space-y-3" aria-busy={streaming.isStreaming}>
+                <div className="ml-auto max-w-[85%] rounded-lg bg-primary text-primary-foreground p-3 text-sm whitespace-pre-wrap">
+                  {streaming.userMessage.content}
+                </div>
+                <div className="max-w-[85%] rounded-lg bg-muted p-3 text-sm whitespace-pre-wrap">
+                  {streaming.content || <span className="text-muted-foreground">Thinking...</span>}
+                  {streaming.isStreaming && (
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" aria-hidden="true" />
+                  )}
+                </div>
+                {streaming.isStreaming && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleStopStreaming}
+                    aria-label="Stop generating"
+                  >
+                    <Square className="h-3 w-3 mr-2" />
+                    Stop generating
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
           
           <div ref={messagesEndRef} />
@@ -416,12 +541,12 @@ export function ConversationInterface({
         </div>
 
         {/* Error Display */}
-        {sendMessageMutation.error && (
+        {(streaming.error || forkMutation.error || toolCallMutation.error) && (
           <div className="p-4 border-t">
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                {sendMessageMutation.error.message}
+                {streaming.error || forkMutation.error?.message || toolCallMutation.error?.message}
               </AlertDescription>
             </Alert>
           </div>
@@ -433,6 +558,8 @@ export function ConversationInterface({
             {conversation?.id && (
               <ConversationHistory
                 conversationId={conversation.id}
+                highlightMessageId={initialMessage?.conversationId === conversation.id ? initialMessage.messageId : undefined}
+                highlightMessagePosition={initialMessage?.conversationId === conversation.id ? initialMessage.position : undefined}
                 onMessageEdit={handleEdit}
                 onMessageDelete={handleDelete}
                 onMessageCopy={handleCopy}
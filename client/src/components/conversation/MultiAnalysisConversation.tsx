@@ -0,0 +1,241 @@
+/**
+ * MultiAnalysisConversation Component
+ *
+ * Conversation across a project's analyses or a hand-picked comparison.
+ * Shows which analyses are in scope above the thread; answers refer to them as "Analysis 1", "Analysis 2", ...
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Square } from 'lucide-react';
+import { ConversationInput } from './ConversationInput';
+import { SuggestedQuestions } from './SuggestedQuestions';
+import { VirtualizedMessageList } from './VirtualizedMessageList';
+import { ConversationLiveRegion } from './ConversationLiveRegion';
+import { AccessibleConversationWrapper } from './AccessibleConversationWrapper';
+import { useTouchFriendly } from '@/hooks/useTouchFriendly';
+import { useStreamingResponse } from '@/hooks/useStreamingResponse';
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationScopeAnalysis,
+  MultiAnalysisConversationProps,
+  SuggestedQuestion
+} from '@/types';
+
+const multiAnalysisStreamEndpoint = (conversationId: number | string) =>
+  `/api/conversations/multi-analysis/${conversationId}/messages/stream`;
+
+export function MultiAnalysisConversation({ conversationId }: MultiAnalysisConversationProps) {
+  const [sending, setSending] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { isMobile } = useTouchFriendly();
+
+  const { data: conversationData, isLoading, error } = useQuery<{
+    conversation: Conversation;
+    messages: ConversationMessage[];
+    suggestions: SuggestedQuestion[];
+    analytics: any;
+    analyses: ConversationScopeAnalysis[];
+    rateLimit: {
+      remaining: number;
+      limit: number;
+      unlimited: boolean;
+      tier: 'free' | 'pro' | 'enterprise';
+    };
+  }>({
+    queryKey: ['multi-analysis-conversation', conversationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/conversations/multi-analysis/${conversationId}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to load conversation');
+      }
+      const result = await response.json();
+      return result.data;
+    },
+  });
+
+  const conversation = conversationData?.conversation;
+  const messages = conversationData?.messages ?? [];
+  const suggestions = conversationData?.suggestions ?? [];
+  const analyses = conversationData?.analyses ?? [];
+  const rateLimit = conversationData?.rateLimit;
+
+  const streaming = useStreamingResponse({
+    endpoint: multiAnalysisStreamEndpoint,
+    onComplete: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['multi-analysis-conversation', conversationId] });
+      streaming.reset();
+    },
+    onError: () => {
+      // The question may have been saved before the answer failed
+      queryClient.invalidateQueries({ queryKey: ['multi-analysis-conversation', conversationId] });
+    },
+  });
+
+  const handleSubmit = async (content: string) => {
+    setSending(true);
+    try {
+      await streaming.startStreaming(conversationId, content);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Stop generating; the server keeps whatever was already streamed
+  const handleStopStreaming = async () => {
+    streaming.cancelStreaming();
+    await queryClient.invalidateQueries({ queryKey: ['multi-analysis-conversation', conversationId] });
+    streaming.reset();
+  };
+
+  // Auto-scroll to latest message
+  useEffect(() => {
+    if (messagesEndRef.current) {
+      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, streaming.content]);
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="p-6">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error instanceof Error ? error.message : 'Failed to load conversation. Please try again.'}
+          </AlertDescription>
+        </Alert>
+      </Card>
+    );
+  }
+
+  return (
+    <AccessibleConversationWrapper
+      skipToInputId="conversation-input"
+      skipToMessagesId="conversation-messages"
+    >
+      <Card className="relative overflow-hidden" role="region" aria-label="Multi-analysis conversation">
+        <ConversationLiveRegion messages={messages} />
+
+        <div className="flex flex-col h-full">
+          {/* Header with the analyses in scope */}
+          <div className="p-3 md:p-4 border-b bg-muted/50 space-y-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <h3 className="text-base md:text-lg font-semibold truncate">
+                {conversation?.title || 'Compare analyses'}
+              </h3>
+              <Badge variant="outline" className="text-xs shrink-0">
+                {conversation?.scope === 'project' ? 'Project' : 'Comparison'}
+              </Badge>
+            </div>
+            <ol className="flex flex-wrap gap-1.5" aria-label="Analyses in this conversation">
+              {analyses.map((analysis, index) => (
+                <li key={analysis.id}>
+                  <Link
+                    href={`/search/${analysis.id}`}
+                    className="inline-flex items-center gap-1 rounded-md border bg-background px-2 py-0.5 text-xs hover:bg-muted"
+                    title={analysis.query}
+                  >
+                    <span className="font-medium">Analysis {index + 1}</span>
+                    <span className="max-w-[12rem] truncate text-muted-foreground">{analysis.query}</span>
+                  </Link>
+                </li>
+              ))}
+            </ol>
+            {analyses.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                There are no analyses in this conversation yet.
+              </p>
+            )}
+          </div>
+
+          {suggestions.length > 0 && (
+            <div className="p-3 md:p-4 border-b bg-background">
+              <SuggestedQuestions
+                questions={suggestions}
+                onQuestionClick={handleSubmit}
+                loading={sending}
+              />
+            </div>
+          )}
+
+          <div id="conversation-messages">
+            <VirtualizedMessageList
+              messages={messages}
+              maxVisibleMessages={isMobile ? 20 : 50}
+              isMobile={isMobile}
+            />
+
+            {/* Answer being streamed */}
+            {streaming.userMessage && !streaming.error && (
+              <div className="p-3 md:p-4 space-y-3" aria-busy={streaming.isStreaming}>
+                <div className="ml-auto max-w-[85%] rounded-lg bg-primary text-primary-foreground p-3 text-sm whitespace-pre-wrap">
+                  {streaming.userMessage.content}
+                </div>
+                <div className="max-w-[85%] rounded-lg bg-muted p-3 text-sm whitespace-pre-wrap">
+                  {streaming.content || <span className="text-muted-foreground">Thinking...</span>}
+                  {streaming.isStreaming && (
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" aria-hidden="true" />
+                  )}
+                </div>
+                {streaming.isStreaming && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleStopStreaming}
+                    aria-label="Stop generating"
+                  >
+                    <Square className="h-3 w-3 mr-2" />
+                    Stop generating
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div ref={messagesEndRef} />
+          </div>
+
+          <div id="conversation-input" className="sticky bottom-0 p-3 md:p-4 border-t bg-muted/50 backdrop-blur-sm">
+            <ConversationInput
+              onSubmit={handleSubmit}
+              disabled={sending || analyses.length === 0}
+              placeholder="Ask about these analyses..."
+              maxLength={rateLimit?.tier === 'pro' ? 1000 : 2000}
+              userTier={rateLimit?.tier || 'pro'}
+            />
+          </div>
+
+          {streaming.error && (
+            <div className="p-4 border-t">
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{streaming.error}</AlertDescription>
+              </Alert>
+            </div>
+          )}
+        </div>
+      </Card>
+    </AccessibleConversationWrapper>
+  );
+}
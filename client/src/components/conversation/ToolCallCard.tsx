@@ -0,0 +1,141 @@
+/**
+ * ToolCallCard Component
+ *
+ * Shows an action the assistant took or proposed while answering.
+ * Proposed changes (plan tasks, analysis variants) wait for the user to confirm or reject them.
+ */
+
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  BookOpen,
+  Calculator,
+  Check,
+  GitBranch,
+  ListChecks,
+  ListPlus,
+  Loader2,
+  Pencil,
+  X,
+  type LucideIcon
+} from 'lucide-react';
+import type { ConversationToolCall, ConversationToolCallStatus, ConversationToolName } from '@/types';
+
+const TOOL_LABELS: Record<ConversationToolName, { label: string; icon: LucideIcon }> = {
+  search_resources: { label: 'Searched the resource library', icon: BookOpen },
+  list_plan_tasks: { label: 'Checked your action plan', icon: ListChecks },
+  run_financial_model: { label: 'Ran a financial projection', icon: Calculator },
+  create_plan_task: { label: 'Add a task to your action plan', icon: ListPlus },
+  update_plan_task: { label: 'Update a task in your action plan', icon: Pencil },
+  create_analysis_variant: { label: 'Create a variant of this analysis', icon: GitBranch },
+};
+
+const STATUS_BADGES: Record<ConversationToolCallStatus, { label: string; className: string }> = {
+  completed: { label: 'Done', className: 'text-muted-foreground' },
+  pending: { label: 'Needs your confirmation', className: 'border-amber-500/50 text-amber-600' },
+  executing: { label: 'Applying', className: 'text-muted-foreground' },
+  executed: { label: 'Applied', className: 'border-green-500/50 text-green-600' },
+  rejected: { label: 'Declined', className: 'text-muted-foreground' },
+  failed: { label: 'Failed', className: 'border-destructive/50 text-destructive' },
+};
+
+const ARGUMENT_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  estimatedTime: 'Estimate',
+  status: 'Status',
+  market: 'Market',
+  targetAudience: 'Target audience',
+  businessModel: 'Business model',
+  geography: 'Geography',
+  timeframe: 'Timeframe',
+  budget: 'Budget',
+};
+
+interface ToolCallCardProps {
+  toolCall: ConversationToolCall;
+  onConfirm?: (toolCallId: number) => void;
+  onReject?: (toolCallId: number) => void;
+  resolving?: boolean;
+}
+
+export function ToolCallCard({ toolCall, onConfirm, onReject, resolving = false }: ToolCallCardProps) {
+  const { label, icon: Icon } = TOOL_LABELS[toolCall.toolName];
+  const badge = STATUS_BADGES[toolCall.status];
+
+  // Only proposed changes are spelled out; lookups are summarised by their label
+  const details = toolCall.requiresConfirmation
+    ? Object.entries(toolCall.arguments).filter(([key, value]) => ARGUMENT_LABELS[key] && value)
+    : [];
+  const variantId = toolCall.status === 'executed' ? toolCall.result?.variantId : undefined;
+
+  return (
+    <div
+      className="rounded-lg border bg-background px-3 py-2 text-sm space-y-2"
+      role="group"
+      aria-label={`${label}: ${badge.label}`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Icon className="h-4 w-4 text-muted-foreground shrink-0" aria-hidden="true" />
+        <span className="font-medium">{label}</span>
+        <Badge variant="outline" className={`text-xs ${badge.className}`}>
+          {badge.label}
+        </Badge>
+      </div>
+
+      {details.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+          {details.map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="text-muted-foreground">{ARGUMENT_LABELS[key]}</dt>
+              <dd className="break-words">{String(value)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {toolCall.status === 'failed' && toolCall.error && (
+        <p className="text-xs text-destructive">{toolCall.error}</p>
+      )}
+
+      {typeof variantId === 'number' && (
+        <Link href={`/search/${variantId}`} className="text-xs underline underline-offset-2">
+          Open the new variant
+        </Link>
+      )}
+
+      {toolCall.status === 'pending' && (onConfirm || onReject) && (
+        <div className="flex gap-2">
+          {onConfirm && (
+            <Button
+              size="sm"
+              onClick={() => onConfirm(toolCall.id)}
+              disabled={resolving}
+              className="min-h-[36px]"
+            >
+              {resolving ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" aria-hidden="true" />
+              ) : (
+                <Check className="h-3 w-3 mr-1" aria-hidden="true" />
+              )}
+              Confirm
+            </Button>
+          )}
+          {onReject && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onReject(toolCall.id)}
+              disabled={resolving}
+              className="min-h-[36px]"
+            >
+              <X className="h-3 w-3 mr-1" aria-hidden="true" />
+              Reject
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * UserMessage Component
  * 
  * Displays user messages in the conversation thread.
- * Right-aligned with user avatar, timestamp, and edit/delete options.
+ * Right-aligned with user avatar, timestamp, and edit/branch/delete options.
  * 
  * Requirements: 1.5, 1.6
  */
@@ -22,12 +22,12 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Edit2, Trash2, Check, X } from 'lucide-react';
+import { Edit2, Trash2, Check, X, GitFork } from 'lucide-react';
 import { hapticLight, hapticMedium, hapticSuccess } from '@/lib/haptics';
 import { getAnimationClasses, shouldReduceMotion } from '@/lib/mobile-optimizations';
 import type { UserMessageProps } from '@/types';
 
-export function UserMessage({ message, onEdit, onDelete }: UserMessageProps) {
+export function UserMessage({ message, onEdit, onDelete, onFork }: UserMessageProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(message.content);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -72,6 +72,7 @@ export function UserMessage({ message, onEdit, onDelete }: UserMessageProps) {
   
   return (
     <div 
+      id={`message-${message.id}`}
       className={`flex justify-end gap-2 md:gap-3 ${animationClass}`}
       role="article"
       aria-label={`Your message from ${formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}`}
@@ -136,6 +137,21 @@ export function UserMessage({ message, onEdit, onDelete }: UserMessageProps) {
                   <Edit2 className="h-4 w-4 md:h-3 md:w-3" aria-hidden="true" />
                 </Button>
               )}
+              {onFork && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    hapticLight();
+                    onFork(message.id);
+                  }}
+                  className="h-8 w-8 md:h-6 md:w-6 p-0 hover:bg-muted min-w-[44px] md:min-w-0"
+                  title="Branch from here"
+                  aria-label="Branch conversation from this message"
+                >
+                  <GitFork className="h-4 w-4 md:h-3 md:w-3" aria-hidden="true" />
+                </Button>
+              )}
               {onDelete && (
                 <Button
                   size="sm"
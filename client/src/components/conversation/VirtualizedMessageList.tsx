@@ -9,11 +9,11 @@
  * Requirements: 1.6
  */
 
-import { memo, useRef, useEffect, useState, useCallback } from 'react';
+import { memo, useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { UserMessage } from './UserMessage';
 import { AIMessage } from './AIMessage';
 import { getMaxVisibleMessages } from '@/lib/mobile-optimizations';
-import type { ConversationMessage } from '@/types';
+import type { ConversationMessage, ConversationToolCall } from '@/types';
 
 interface VirtualizedMessageListProps {
   messages: ConversationMessage[];
@@ -22,6 +22,11 @@ interface VirtualizedMessageListProps {
   onCopy?: () => void;
   onRate?: (messageId: number, rating: number) => void;
   onReport?: (messageId: number) => void;
+  onFork?: (messageId: number) => void;
+  toolCalls?: ConversationToolCall[];
+  onConfirmToolCall?: (toolCallId: number) => void;
+  onRejectToolCall?: (toolCallId: number) => void;
+  resolvingToolCallId?: number | null;
   maxVisibleMessages?: number;
   isMobile?: boolean;
 }
@@ -37,6 +42,11 @@ export function VirtualizedMessageList({
   onCopy,
   onRate,
   onReport,
+  onFork,
+  toolCalls,
+  onConfirmToolCall,
+  onRejectToolCall,
+  resolvingToolCallId,
   maxVisibleMessages = getMaxVisibleMessages(),
   isMobile = false,
 }: VirtualizedMessageListProps) {
@@ -44,6 +54,17 @@ export function VirtualizedMessageList({
   const [visibleRange, setVisibleRange] = useState({ start: 0, end: maxVisibleMessages });
   const [isNearBottom, setIsNearBottom] = useState(true);
 
+  // Group tool calls under the answer they belong to
+  const toolCallsByMessage = useMemo(() => {
+    const grouped = new Map<number, ConversationToolCall[]>();
+    for (const toolCall of toolCalls ?? []) {
+      if (toolCall.messageId !== null) {
+        grouped.set(toolCall.messageId, [...(grouped.get(toolCall.messageId) ?? []), toolCall]);
+      }
+    }
+    return grouped;
+  }, [toolCalls]);
+
   // Calculate visible range based on scroll position
   const handleScroll = useCallback(() => {
     if (!containerRef.current) return;
@@ -138,6 +159,7 @@ export function VirtualizedMessageList({
             message={message}
             onEdit={onEdit}
             onDelete={onDelete}
+            onFork={onFork}
           />
         ) : (
           <MemoizedAIMessage
@@ -146,6 +168,11 @@ export function VirtualizedMessageList({
             onCopy={onCopy}
             onRate={onRate}
             onReport={onReport}
+            onFork={onFork}
+            toolCalls={toolCallsByMessage.get(message.id)}
+            onConfirmToolCall={onConfirmToolCall}
+            onRejectToolCall={onRejectToolCall}
+            resolvingToolCallId={resolvingToolCallId}
           />
         )
       ))}
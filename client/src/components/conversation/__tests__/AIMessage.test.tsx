@@ -85,6 +85,27 @@ describe('AIMessage', () => {
     expect(screen.getByText(/example\.com\/report/i)).toBeInTheDocument();
   });
 
+  it('renders citations as links back to their sources', () => {
+    const messageWithCitations = {
+      ...mockMessage,
+      content: 'Clinics churn after the first year [S1]. See the pricing guide [R1].',
+      createdAt: '2024-01-01T10:01:00Z',
+      metadata: {
+        citations: [
+          { key: 'S1', type: 'search_result' as const, id: 42, label: 'Dental scheduling gap' },
+          { key: 'R1', type: 'resource' as const, id: 7, label: 'SaaS pricing guide', url: 'https://example.com/pricing' },
+          { key: 'M1', type: 'message' as const, id: 1, label: 'You: Who are my competitors?' },
+        ],
+      },
+    };
+
+    render(<AIMessage message={messageWithCitations} />);
+
+    expect(screen.getByRole('link', { name: /source s1: dental scheduling gap/i })).toHaveAttribute('href', '/search-result/42');
+    expect(screen.getByRole('link', { name: /source r1: saas pricing guide/i })).toHaveAttribute('href', '/resources/7');
+    expect(screen.getByRole('button', { name: /source m1/i })).toBeInTheDocument();
+  });
+
   it('copies message to clipboard when copy button is clicked', async () => {
     const user = userEvent.setup();
     const onCopy = vi.fn();
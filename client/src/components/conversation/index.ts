@@ -11,7 +11,11 @@ export { AIMessage } from './AIMessage';
 export { ConversationInput } from './ConversationInput';
 export { SuggestedQuestions } from './SuggestedQuestions';
 export { VariantSelector } from './VariantSelector';
+export { BranchSelector } from './BranchSelector';
 export { ConversationHistory } from './ConversationHistory';
 export { ConversationExportDialog } from './ConversationExportDialog';
 export { ClearConversationDialog } from './ClearConversationDialog';
 export { ConversationIndicator } from './ConversationIndicator';
+export { ToolCallCard } from './ToolCallCard';
+export { AnalysisScopePicker } from './AnalysisScopePicker';
+export { MultiAnalysisConversation } from './MultiAnalysisConversation';
@@ -28,8 +28,10 @@ import {
   Archive,
   Trash2,
   FolderOpen,
+  FolderInput,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
 import { apiRequest } from '@/lib/queryClient';
 
 interface Project {
@@ -50,17 +52,26 @@ export function ProjectManager() {
   const [formData, setFormData] = useState({ name: '', description: '' });
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaces, activeTeamId, activeWorkspace, canEditActiveWorkspace, moveToWorkspace } = useWorkspaces();
 
-  // Fetch projects
+  // Fetch projects in the active workspace
   const { data: projects = [], isLoading } = useQuery<Project[]>({
-    queryKey: ['/api/projects'],
+    queryKey: ['/api/projects', { teamId: activeTeamId }],
+    queryFn: async () => {
+      const url = activeTeamId === null ? '/api/projects' : `/api/projects?teamId=${activeTeamId}`;
+      const response = await apiRequest('GET', url);
+      return response.json();
+    },
     select: (response: any) => response?.data || response || [],
   });
 
   // Create project mutation
   const createProjectMutation = useMutation({
     mutationFn: async (data: { name: string; description: string }) => {
-      const response = await apiRequest('POST', '/api/projects', data);
+      const response = await apiRequest('POST', '/api/projects', {
+        ...data,
+        ...(activeTeamId !== null && { teamId: activeTeamId }),
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -175,6 +186,20 @@ export function ProjectManager() {
     }
   };
 
+  const handleMove = async (project: Project, toTeamId: number | null) => {
+    try {
+      await moveToWorkspace({ type: 'project', id: project.id, fromTeamId: activeTeamId, toTeamId });
+      const destination = workspaces.find((workspace) => workspace.teamId === toTeamId);
+      toast({ title: `Moved "${project.name}" to ${destination ? destination.name : 'your personal workspace'}` });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to move project',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDrop = (e: React.DragEvent, projectId: number) => {
     e.preventDefault();
     const searchId = e.dataTransfer.getData('searchId');
@@ -225,10 +250,16 @@ export function ProjectManager() {
             <CardTitle className="flex items-center gap-2 text-white">
               <FolderKanban className="w-5 h-5" />
               Projects
+              {activeWorkspace && (
+                <Badge variant="secondary" className="text-xs">
+                  {activeWorkspace.name}
+                </Badge>
+              )}
             </CardTitle>
             <Button
               size="sm"
               onClick={() => setIsCreateModalOpen(true)}
+              disabled={!canEditActiveWorkspace}
               className="bg-purple-600 hover:bg-purple-700"
             >
               <Plus className="w-4 h-4 mr-2" />
@@ -286,6 +317,23 @@ export function ProjectManager() {
                           <Archive className="w-4 h-4 mr-2" />
                           Archive
                         </DropdownMenuItem>
+                        {activeTeamId !== null && (
+                          <DropdownMenuItem onClick={() => handleMove(project, null)}>
+                            <FolderInput className="w-4 h-4 mr-2" />
+                            Move to Personal
+                          </DropdownMenuItem>
+                        )}
+                        {workspaces
+                          .filter((workspace) => workspace.teamId !== activeTeamId && workspace.role !== 'viewer')
+                          .map((workspace) => (
+                            <DropdownMenuItem
+                              key={workspace.teamId}
+                              onClick={() => handleMove(project, workspace.teamId)}
+                            >
+                              <FolderInput className="w-4 h-4 mr-2" />
+                              Move to {workspace.name}
+                            </DropdownMenuItem>
+                          ))}
                         <DropdownMenuItem
                           onClick={() => handleDelete(project)}
                           className="text-red-400"
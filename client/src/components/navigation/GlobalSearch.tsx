@@ -19,11 +19,12 @@ import {
   History,
   TrendingUp,
   Loader2,
+  MessagesSquare,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import Fuse from 'fuse.js';
 
-export type SearchResultType = 'analysis' | 'resource' | 'help' | 'page';
+export type SearchResultType = 'analysis' | 'resource' | 'help' | 'page' | 'conversation';
 
 export interface SearchResult {
   type: SearchResultType;
@@ -62,8 +63,35 @@ const resultTypeConfig = {
     label: 'Page',
     color: 'text-orange-500',
   },
+  conversation: {
+    icon: MessagesSquare,
+    label: 'Message',
+    color: 'text-pink-500',
+  },
 };
 
+/**
+ * Render a message snippet with its full-text matches highlighted.
+ * The snippet is split on the server's <mark> markers and rendered as text, never as HTML.
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') ? (
+          <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
 // Static pages for search
 const staticPages: SearchResult[] = [
   {
@@ -212,11 +240,12 @@ export function GlobalSearch({
     return results;
   }, [apiResults]);
 
-  // Fuzzy search with Fuse.js
+  // Fuzzy search with Fuse.js; message matches come from full-text search on the server and are kept as ranked
   const searchResults = useMemo(() => {
     if (!query) return [];
 
-    const fuse = new Fuse(allResults, {
+    const messageResults = allResults.filter((result) => result.type === 'conversation');
+    const fuse = new Fuse(allResults.filter((result) => result.type !== 'conversation'), {
       keys: [
         { name: 'title', weight: 2 },
         { name: 'description', weight: 1 },
@@ -228,10 +257,13 @@ export function GlobalSearch({
     });
 
     const fuseResults = fuse.search(query);
-    return fuseResults.map((result) => ({
-      ...result.item,
-      score: result.score ?? 0,
-    }));
+    return [
+      ...fuseResults.map((result) => ({
+        ...result.item,
+        score: result.score ?? 0,
+      })),
+      ...messageResults,
+    ];
   }, [query, allResults]);
 
   // Filter by category
@@ -247,6 +279,7 @@ export function GlobalSearch({
       resource: [],
       help: [],
       page: [],
+      conversation: [],
     };
 
     filteredResults.forEach((result) => {
@@ -321,6 +354,7 @@ export function GlobalSearch({
     { value: 'page', label: 'Pages' },
     { value: 'help', label: 'Help' },
     { value: 'resource', label: 'Resources' },
+    { value: 'conversation', label: 'Conversations' },
   ];
 
   return (
@@ -333,7 +367,7 @@ export function GlobalSearch({
             <Input
               ref={inputRef}
               type="text"
-              placeholder="Search analyses, pages, help articles..."
+              placeholder="Search analyses, pages, help articles, conversations..."
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               className="border-0 focus-visible:ring-0 focus-visible:ring-offset-0"
@@ -412,12 +446,12 @@ export function GlobalSearch({
                     </div>
                     <div className="space-y-1">
                       {results.map((result, index) => {
-                        const globalIndex = filteredResults.findIndex(r => r.id === result.id);
+                        const globalIndex = filteredResults.findIndex(r => r.type === result.type && r.id === result.id);
                         const isSelected = globalIndex === selectedIndex;
 
                         return (
                           <Button
-                            key={result.id}
+                            key={`${result.type}-${result.id}`}
                             variant={isSelected ? 'secondary' : 'ghost'}
                             size="sm"
                             className="w-full justify-start text-left h-auto py-2"
@@ -429,7 +463,11 @@ export function GlobalSearch({
                                 {result.title}
                               </div>
                               <div className="text-xs text-muted-foreground truncate">
-                                {result.description}
+                                {result.type === 'conversation' ? (
+                                  <HighlightedSnippet snippet={result.description} />
+                                ) : (
+                                  result.description
+                                )}
                               </div>
                             </div>
                             {result.metadata?.resultsCount && (
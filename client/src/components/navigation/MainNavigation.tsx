@@ -24,6 +24,8 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { UserRole } from '@/stores/userPreferencesStore';
+import { NotificationInbox } from './NotificationInbox';
+import { TeamSwitcher } from './TeamSwitcher';
 
 export interface NavigationItem {
   id: string;
@@ -416,6 +418,12 @@ export function MainNavigation({
             </Button>
           );
         })}
+        {user && (
+          <div className="ml-auto flex items-center gap-1">
+            <TeamSwitcher />
+            <NotificationInbox onNavigate={onNavigate} />
+          </div>
+        )}
       </nav>
     );
   }
@@ -426,6 +434,12 @@ export function MainNavigation({
       role="navigation"
       aria-label="Main navigation"
     >
+      {user && (
+        <div className="flex justify-end gap-1">
+          <TeamSwitcher />
+          <NotificationInbox onNavigate={onNavigate} />
+        </div>
+      )}
       {filteredNavigation.map((item, index) =>
         renderNavigationItem(item, 0, index)
       )}
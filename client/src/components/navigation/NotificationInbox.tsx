@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { useNotifications, type InboxNotification } from '@/hooks/useNotifications';
+
+interface NotificationInboxProps {
+  onNavigate: (path: string) => void;
+  className?: string;
+}
+
+/**
+ * Notification bell with the user's inbox
+ * New notifications arrive over the socket while the app is open
+ */
+export function NotificationInbox({ onNavigate, className }: NotificationInboxProps) {
+  const [open, setOpen] = useState(false);
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotifications();
+
+  const handleSelect = (notification: InboxNotification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+    if (notification.actionUrl) {
+      setOpen(false);
+      onNavigate(notification.actionUrl);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('relative', className)}
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none"
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h2 className="text-sm font-semibold">Notifications</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => markAllAsRead()}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="w-3 h-3" />
+            Mark all read
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {isLoading ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+          ) : (
+            <ul role="list">
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={cn(
+                    'group flex items-start gap-2 border-b px-4 py-3 last:border-b-0',
+                    !notification.read && 'bg-muted/50'
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 text-left"
+                    onClick={() => handleSelect(notification)}
+                  >
+                    <p className={cn('text-sm', !notification.read && 'font-semibold')}>
+                      {notification.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="mt-1 text-[11px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    onClick={() => deleteNotification(notification.id)}
+                    aria-label={`Delete notification: ${notification.title}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
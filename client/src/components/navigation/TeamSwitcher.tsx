@@ -0,0 +1,63 @@
+import { Check, ChevronsUpDown, User, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useWorkspaces } from '@/hooks/useWorkspaces';
+
+interface TeamSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Switches between the personal workspace and the user's team workspaces
+ * Hidden until the user belongs to a team
+ */
+export function TeamSwitcher({ className }: TeamSwitcherProps) {
+  const { workspaces, activeWorkspace, setActiveTeamId } = useWorkspaces();
+
+  if (workspaces.length === 0) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('gap-2', className)}
+          aria-label={`Workspace: ${activeWorkspace ? activeWorkspace.name : 'Personal'}`}
+        >
+          {activeWorkspace ? <Users className="w-4 h-4" /> : <User className="w-4 h-4" />}
+          <span className="max-w-32 truncate">{activeWorkspace ? activeWorkspace.name : 'Personal'}</span>
+          <ChevronsUpDown className="w-3 h-3 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => setActiveTeamId(null)}>
+          <User className="w-4 h-4 mr-2" />
+          <span className="flex-1">Personal</span>
+          {!activeWorkspace && <Check className="w-4 h-4" />}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem key={workspace.teamId} onSelect={() => setActiveTeamId(workspace.teamId)}>
+            <Users className="w-4 h-4 mr-2" />
+            <span className="flex-1 truncate">{workspace.name}</span>
+            <span className="ml-2 text-xs capitalize text-muted-foreground">{workspace.role}</span>
+            {activeWorkspace?.teamId === workspace.teamId && <Check className="w-4 h-4 ml-2" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
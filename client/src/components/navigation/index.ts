@@ -1,5 +1,7 @@
 export { MainNavigation } from './MainNavigation';
 export { GlobalSearch } from './GlobalSearch';
 export { MobileNavigation } from './MobileNavigation';
+export { NotificationInbox } from './NotificationInbox';
+export { TeamSwitcher } from './TeamSwitcher';
 export type { NavigationItem } from './MainNavigation';
 export type { SearchResult, SearchResultType } from './GlobalSearch';
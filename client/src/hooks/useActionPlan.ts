@@ -1,6 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import type { ActionPlanWithDetails, ProgressMetrics, TaskUpdate } from '@/types';
+import type {
+  ActionPlanWithDetails,
+  PlanImportDiff,
+  PlanImportResult,
+  PlanSchedule,
+  PlanVersion,
+  PlanVersionDiff,
+  PlanVersionSummary,
+  ProgressMetrics,
+  TaskUpdate,
+} from '@/types';
 import type { ApiResponse } from '@shared/types';
 
 /**
@@ -125,6 +135,8 @@ export function useCreateTask(planId: number) {
       estimatedTime?: string;
       resources?: string[];
       order: number;
+      startDate?: string | null;
+      dueDate?: string | null;
     }) => {
       const response = await apiRequest('POST', `/api/plans/${planId}/tasks`, taskData);
       const data: ApiResponse = await response.json();
@@ -555,6 +567,46 @@ export function useValidateDependency(taskId: number) {
   });
 }
 
+/**
+ * Hook for linking two tasks from the timeline
+ * Validates the link first so cycles are reported without a failed write
+ */
+export function useLinkTasks(planId: number) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ taskId, prerequisiteTaskId }: { taskId: number; prerequisiteTaskId: number }) => {
+      const validationResponse = await apiRequest('POST', `/api/tasks/${taskId}/dependencies/validate`, {
+        prerequisiteTaskId,
+      });
+      const validation: ApiResponse<{ isValid: boolean; errors: string[] }> = await validationResponse.json();
+      
+      if (!validation.success) {
+        throw new Error(validation.error || 'Failed to validate dependency');
+      }
+      if (!validation.data?.isValid) {
+        throw new Error(validation.data?.errors.join('. ') || 'Invalid dependency');
+      }
+      
+      const response = await apiRequest('POST', `/api/tasks/${taskId}/dependencies`, {
+        prerequisiteTaskId,
+      });
+      const data: ApiResponse = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to add dependency');
+      }
+      
+      return data.data;
+    },
+    onSuccess: (_data, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks', taskId, 'dependencies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'dependencies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'schedule'] });
+    },
+  });
+}
+
 /**
  * Hook for fetching all dependencies for a plan
  */
@@ -587,6 +639,174 @@ export function usePlanDependencies(planId: number | null) {
   });
 }
 
+/**
+ * Hook for fetching the critical-path schedule for a plan
+ * Refetched whenever tasks change, since any edit can move the critical path
+ */
+export function usePlanSchedule(planId: number | null) {
+  return useQuery<PlanSchedule | null>({
+    queryKey: ['/api/plans', planId, 'schedule'],
+    queryFn: async () => {
+      if (!planId) return null;
+      
+      const response = await apiRequest('GET', `/api/plans/${planId}/schedule`);
+      const data: ApiResponse<PlanSchedule> = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch plan schedule');
+      }
+      
+      return data.data || null;
+    },
+    enabled: !!planId,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Edited plan export to re-import
+ */
+export interface PlanImportFile {
+  format: 'csv' | 'json';
+  content: string;
+}
+
+/**
+ * Hook for previewing the changes an edited export would make to a plan
+ */
+export function usePreviewPlanImport(planId: number) {
+  return useMutation({
+    mutationFn: async (file: PlanImportFile) => {
+      const response = await apiRequest('POST', `/api/plans/${planId}/import/preview`, file);
+      const data: ApiResponse<PlanImportDiff> = await response.json();
+      
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to preview import');
+      }
+      
+      return data.data;
+    },
+  });
+}
+
+/**
+ * Hook for applying an edited export to a plan
+ */
+export function useApplyPlanImport(planId: number) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (file: PlanImportFile) => {
+      const response = await apiRequest('POST', `/api/plans/${planId}/import/apply`, file);
+      const data: ApiResponse<PlanImportResult> = await response.json();
+      
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to apply import');
+      }
+      
+      return data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'progress'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'dependencies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'schedule'] });
+    },
+  });
+}
+
+/**
+ * Hook for fetching a plan's saved versions, newest first
+ */
+export function usePlanVersions(planId: number | null) {
+  return useQuery<PlanVersionSummary[]>({
+    queryKey: ['/api/plans', planId, 'versions'],
+    queryFn: async () => {
+      if (!planId) return [];
+      
+      const response = await apiRequest('GET', `/api/plans/${planId}/versions`);
+      const data: ApiResponse<PlanVersionSummary[]> = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch plan versions');
+      }
+      
+      return data.data || [];
+    },
+    enabled: !!planId,
+  });
+}
+
+/**
+ * Hook for saving the current plan as a named version
+ */
+export function useCreatePlanVersion(planId: number) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', `/api/plans/${planId}/versions`, { name });
+      const data: ApiResponse<PlanVersion> = await response.json();
+      
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to save version');
+      }
+      
+      return data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plans', planId, 'versions'] });
+    },
+  });
+}
+
+/**
+ * Hook for diffing a version against another version or the current plan
+ */
+export function usePlanVersionDiff(planId: number | null, fromVersionId: number | null, toVersionId: number | 'current') {
+  return useQuery<PlanVersionDiff | null>({
+    queryKey: ['/api/plans', planId, 'versions', 'diff', fromVersionId, toVersionId],
+    queryFn: async () => {
+      if (!planId || !fromVersionId) return null;
+      
+      const response = await apiRequest('GET', `/api/plans/${planId}/versions/diff?from=${fromVersionId}&to=${toVersionId}`);
+      const data: ApiResponse<PlanVersionDiff> = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to compare versions');
+      }
+      
+      return data.data || null;
+    },
+    enabled: !!planId && !!fromVersionId,
+  });
+}
+
+/**
+ * Hook for restoring a plan to a saved version
+ */
+export function useRestorePlanVersion(planId: number) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (versionId: number) => {
+      const response = await apiRequest('POST', `/api/plans/${planId}/versions/${versionId}/restore`);
+      const data: ApiResponse<{ restored: PlanVersion; backup: PlanVersion }> = await response.json();
+      
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to restore version');
+      }
+      
+      return data.data;
+    },
+    onSuccess: () => {
+      // Restores can change every phase, task and dependency
+      queryClient.invalidateQueries({ queryKey: ['/api/plans'] });
+    },
+  });
+}
+
 /**
  * Hook for fetching incomplete prerequisites for a task
  * Used for displaying dependency warnings
@@ -1,16 +1,47 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { create } from 'zustand';
 import { useAuth } from './useAuth';
+import { getAccessToken } from '@/lib/queryClient';
 import { ChatMessage } from '@/types';
+import { TextDocument, type CharId, type TextDocumentState, type TextOperation } from '@shared/crdt';
+import type { SelectionRange } from '@shared/types';
 
 interface Participant {
   userId: number;
   userName: string;
   cursor?: { x: number; y: number };
-  selection?: string;
+  selection?: SelectionRange | null;
   color?: string;
 }
 
+interface SharedDocument {
+  text: string;
+  loaded: boolean; // Synced at least once; editing before then would start from an empty document
+  synced: boolean;
+}
+
+interface PendingBatch {
+  batchId: string;
+  operations: TextOperation[];
+}
+
+/**
+ * Local replica of a room document; edits stay pending until the server acknowledges them
+ */
+interface DocumentReplica {
+  doc: TextDocument;
+  seq: number;
+  loaded: boolean;
+  synced: boolean;
+  pending: PendingBatch[];
+}
+
+// Identifies this tab's edits; characters typed here carry it in their IDs
+const clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+let nextBatchId = 0;
+
+const replicas = new Map<string, DocumentReplica>();
+
 interface CollaborationState {
   ws: WebSocket | null;
   roomId: string | null;
@@ -19,19 +50,24 @@ interface CollaborationState {
   isConnected: boolean;
   messages: ChatMessage[];
   typingUsers: Set<number>;
+  permissions: { canEdit: boolean; canChat: boolean };
+  error: string | null;
+  documents: Record<string, SharedDocument>;
 }
 
 interface CollaborationActions {
   connect: (roomId: string) => void;
   disconnect: () => void;
   sendCursorUpdate: (cursor: { x: number; y: number }) => void;
-  sendSelectionUpdate: (selection: string) => void;
+  sendSelectionUpdate: (selection: SelectionRange | null) => void;
   sendStateUpdate: (changes: any) => void;
   sendChatMessage: (message: string) => void;
   sendTypingIndicator: (isTyping: boolean) => void;
   setParticipants: (participants: Map<string, Participant>) => void;
   addMessage: (message: any) => void;
   setTypingUser: (userId: number, isTyping: boolean) => void;
+  openDocument: (docKey: string) => void;
+  editDocument: (docKey: string, text: string) => void;
 }
 
 const useCollaborationStore = create<CollaborationState & CollaborationActions>((set, get) => ({
@@ -42,6 +78,9 @@ const useCollaborationStore = create<CollaborationState & CollaborationActions>(
   isConnected: false,
   messages: [],
   typingUsers: new Set(),
+  permissions: { canEdit: false, canChat: false },
+  error: null,
+  documents: {},
 
   connect: (roomId: string) => {
     const existingWs = get().ws;
@@ -49,15 +88,27 @@ const useCollaborationStore = create<CollaborationState & CollaborationActions>(
       return;
     }
 
+    if (get().roomId !== roomId) {
+      replicas.clear();
+      set({ documents: {} });
+    }
+
+    const token = getAccessToken();
+    if (!token) {
+      console.warn('No access token found for collaboration connection');
+      return;
+    }
+
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`);
     
     ws.onopen = () => {
       set({ isConnected: true, ws, roomId });
+      // The server names participants after their account
       ws.send(JSON.stringify({
         type: 'join',
         roomId,
-        data: { userName: 'User' }, // Will be updated with actual username
+        data: {},
       }));
     };
 
@@ -70,8 +121,16 @@ const useCollaborationStore = create<CollaborationState & CollaborationActions>(
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       set({ isConnected: false, ws: null });
+      // Keep editing offline; pending edits are sent after catching up on reconnect
+      replicas.forEach((replica) => {
+        replica.synced = false;
+      });
+      if (event.code === 1008) {
+        set({ error: 'Not signed in' });
+        return; // Reconnecting will not help until the user signs in again
+      }
       // Attempt to reconnect after 3 seconds
       setTimeout(() => {
         const currentRoomId = get().roomId;
@@ -90,7 +149,8 @@ const useCollaborationStore = create<CollaborationState & CollaborationActions>(
     const ws = get().ws;
     if (ws) {
       ws.close();
-      set({ ws: null, isConnected: false, roomId: null, participants: new Map() });
+      replicas.clear();
+      set({ ws: null, isConnected: false, roomId: null, participants: new Map(), documents: {} });
     }
   },
 
@@ -169,8 +229,80 @@ const useCollaborationStore = create<CollaborationState & CollaborationActions>(
     }
     return { typingUsers };
   }),
+
+  openDocument: (docKey) => {
+    if (replicas.has(docKey)) return;
+
+    replicas.set(docKey, { doc: new TextDocument(), seq: 0, loaded: false, synced: false, pending: [] });
+    publishDocument(docKey, set);
+    requestDocumentSync(get(), docKey);
+  },
+
+  editDocument: (docKey, text) => {
+    const replica = replicas.get(docKey);
+    if (!replica || !replica.loaded) return;
+
+    const operations = replica.doc.edit(clientId, text);
+    if (operations.length === 0) return;
+
+    const batch = { batchId: `${clientId}-${nextBatchId++}`, operations };
+    replica.pending.push(batch);
+    publishDocument(docKey, set);
+
+    if (replica.synced) {
+      sendDocumentBatch(get(), docKey, batch);
+    }
+  },
 }));
 
+function publishDocument(docKey: string, set: any) {
+  const replica = replicas.get(docKey);
+  if (!replica) return;
+  set((state: CollaborationState) => ({
+    documents: {
+      ...state.documents,
+      [docKey]: { text: replica.doc.toString(), loaded: replica.loaded, synced: replica.synced },
+    },
+  }));
+}
+
+function requestDocumentSync(state: CollaborationState, docKey: string) {
+  const replica = replicas.get(docKey);
+  const { ws, roomId } = state;
+  if (!replica || !ws || ws.readyState !== WebSocket.OPEN || !roomId) return;
+
+  replica.synced = false;
+  ws.send(JSON.stringify({
+    type: 'doc-sync',
+    roomId,
+    data: { docKey, since: replica.seq },
+  }));
+}
+
+function sendDocumentBatch(state: CollaborationState, docKey: string, batch: PendingBatch) {
+  const { ws, roomId } = state;
+  if (!ws || ws.readyState !== WebSocket.OPEN || !roomId) return;
+
+  ws.send(JSON.stringify({
+    type: 'doc-update',
+    roomId,
+    data: { docKey, clientId, ...batch },
+  }));
+}
+
+/**
+ * Finish catching up a document: mark it synced and send the edits made while it was not
+ */
+function completeDocumentSync(docKey: string, set: any, get: () => CollaborationState & CollaborationActions) {
+  const replica = replicas.get(docKey);
+  if (!replica) return;
+
+  replica.loaded = true;
+  replica.synced = true;
+  replica.pending.forEach(batch => sendDocumentBatch(get(), docKey, batch));
+  publishDocument(docKey, set);
+}
+
 function handleWebSocketMessage(
   message: any,
   set: any,
@@ -189,7 +321,63 @@ function handleWebSocketMessage(
           color: generateUserColor(p.userId),
         });
       });
-      set({ participants, sharedState: message.sharedState });
+      set({ participants, sharedState: message.sharedState, permissions: message.permissions, error: null });
+      // Joined (or rejoined after a reconnect): catch up on every open document
+      replicas.forEach((_, docKey) => requestDocumentSync(get(), docKey));
+      break;
+
+    case 'doc-state': {
+      const replica = replicas.get(message.docKey);
+      if (!replica) break;
+      replica.doc = new TextDocument(message.state as TextDocumentState);
+      // Pending edits commute with the snapshot, so replaying them keeps them
+      replica.pending.forEach(batch => replica.doc.applyAll(batch.operations));
+      replica.seq = message.seq;
+      completeDocumentSync(message.docKey, set, get);
+      break;
+    }
+
+    case 'doc-updates': {
+      const replica = replicas.get(message.docKey);
+      if (!replica) break;
+      message.updates.forEach((update: { seq: number; operations: TextOperation[] }) => {
+        if (update.seq > replica.seq) {
+          replica.doc.applyAll(update.operations);
+        }
+      });
+      replica.seq = message.seq;
+      completeDocumentSync(message.docKey, set, get);
+      break;
+    }
+
+    case 'doc-updated': {
+      const replica = replicas.get(message.docKey);
+      if (!replica || !replica.synced || message.seq <= replica.seq) break;
+      if (message.seq !== replica.seq + 1) {
+        requestDocumentSync(get(), message.docKey); // Missed an update
+        break;
+      }
+      replica.doc.applyAll(message.operations);
+      replica.seq = message.seq;
+      publishDocument(message.docKey, set);
+      break;
+    }
+
+    case 'doc-ack': {
+      const replica = replicas.get(message.docKey);
+      if (!replica) break;
+      replica.pending = replica.pending.filter(batch => batch.batchId !== message.batchId);
+      if (message.seq === replica.seq + 1) {
+        replica.seq = message.seq;
+      } else if (message.seq > replica.seq + 1 && replica.synced) {
+        requestDocumentSync(get(), message.docKey);
+      }
+      break;
+    }
+
+    case 'error':
+      console.error('Collaboration error:', message.error);
+      set({ error: message.error });
       break;
 
     case 'user-joined':
@@ -268,6 +456,8 @@ export function useCollaboration(roomId?: string) {
     sharedState,
     messages,
     typingUsers,
+    permissions,
+    error,
     connect,
     disconnect,
     sendCursorUpdate,
@@ -307,15 +497,59 @@ export function useCollaboration(roomId?: string) {
     .filter(Boolean);
 
   return {
+    clientId,
     isConnected,
     participants: participantsList,
     sharedState,
     messages,
     typingUsers: typingUsersList,
+    permissions,
+    error,
     sendCursorUpdate,
     sendSelectionUpdate,
     sendStateUpdate,
     sendChatMessage,
     sendTyping,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Shared text document in the current collaboration room
+ * Needs a mounted useCollaboration (e.g. CollaborationProvider) for the room's connection
+ */
+export function useCollaborativeDocument(docKey: string) {
+  const shared = useCollaborationStore(state => state.documents[docKey]);
+  const canEdit = useCollaborationStore(state => state.permissions.canEdit);
+  const roomId = useCollaborationStore(state => state.roomId);
+  const openDocument = useCollaborationStore(state => state.openDocument);
+  const editDocument = useCollaborationStore(state => state.editDocument);
+
+  useEffect(() => {
+    if (roomId) {
+      openDocument(docKey);
+    }
+  }, [roomId, docKey, openDocument]);
+
+  const setText = useCallback((text: string) => editDocument(docKey, text), [docKey, editDocument]);
+
+  // Carets are anchored to the character before them so remote edits do not move them
+  const anchorAt = useCallback((position: number): CharId | null => {
+    const replica = replicas.get(docKey);
+    return replica && position > 0 ? replica.doc.idAt(position - 1) : null;
+  }, [docKey]);
+
+  const positionOf = useCallback((anchor: CharId | null): number => {
+    const replica = replicas.get(docKey);
+    return replica && anchor ? replica.doc.positionAfter(anchor) : 0;
+  }, [docKey]);
+
+  return {
+    text: shared?.text ?? '',
+    isLoaded: shared?.loaded ?? false,
+    isSynced: shared?.synced ?? false,
+    canEdit,
+    setText,
+    anchorAt,
+    positionOf,
+  };
+}
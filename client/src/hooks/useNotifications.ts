@@ -0,0 +1,176 @@
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getAccessToken } from '@/lib/queryClient';
+
+/**
+ * Notification Inbox Hook
+ *
+ * Loads the user's in-app notifications and keeps them current:
+ * - Fetches the inbox and unread count
+ * - Listens on /ws for new notifications and read state changes from other tabs
+ * - Marks notifications read and deletes them
+ * - Handles reconnection on connection loss
+ */
+
+export interface InboxNotification {
+  id: number;
+  userId: number;
+  type: string;
+  title: string;
+  message: string;
+  metadata: Record<string, unknown>;
+  read: boolean;
+  readAt: string | null;
+  createdAt: string;
+  actionUrl?: string;
+}
+
+interface NotificationInbox {
+  notifications: InboxNotification[];
+  unreadCount: number;
+  hasMore: boolean;
+}
+
+interface NotificationSocketMessage {
+  type: 'notification' | 'notifications-updated' | 'pong';
+  data?: {
+    notification?: InboxNotification;
+    unreadCount?: number;
+  };
+}
+
+const INBOX_QUERY_KEY = ['/api/notifications'];
+
+export function useNotifications(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+
+  const queryClient = useQueryClient();
+  const wsRef = useRef<WebSocket | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const [isConnected, setIsConnected] = useState(false);
+  const maxReconnectAttempts = 5;
+
+  const { data, isLoading } = useQuery<NotificationInbox>({
+    queryKey: INBOX_QUERY_KEY,
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/notifications');
+      const result = await response.json();
+      return result.data;
+    },
+    enabled,
+  });
+
+  const handleMessage = useCallback((message: NotificationSocketMessage) => {
+    switch (message.type) {
+      case 'notification':
+        if (message.data?.notification) {
+          const notification = message.data.notification;
+          queryClient.setQueryData<NotificationInbox>(INBOX_QUERY_KEY, (inbox) => inbox && {
+            ...inbox,
+            notifications: [notification, ...inbox.notifications.filter(n => n.id !== notification.id)],
+            unreadCount: message.data?.unreadCount ?? inbox.unreadCount + 1,
+          });
+        }
+        break;
+
+      case 'notifications-updated':
+        // Read or deleted in another tab; refetch to pick up which ones
+        queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+        break;
+    }
+  }, [queryClient]);
+
+  const connect = useCallback(() => {
+    if (!enabled) return;
+
+    const token = getAccessToken();
+    if (!token) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`;
+
+    try {
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        setIsConnected(true);
+        reconnectAttemptsRef.current = 0;
+        // Catch up on anything created while disconnected
+        queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Failed to parse notification message:', error);
+        }
+      };
+
+      ws.onclose = () => {
+        setIsConnected(false);
+        wsRef.current = null;
+
+        // Attempt to reconnect with exponential backoff
+        if (enabled && reconnectAttemptsRef.current < maxReconnectAttempts) {
+          const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectAttemptsRef.current++;
+            connect();
+          }, delay);
+        }
+      };
+    } catch (error) {
+      console.error('Failed to create notification connection:', error);
+    }
+  }, [enabled, handleMessage, queryClient]);
+
+  useEffect(() => {
+    connect();
+
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (wsRef.current) {
+        // Stop the close handler from reconnecting
+        wsRef.current.onclose = null;
+        wsRef.current.close();
+        wsRef.current = null;
+      }
+    };
+  }, [connect]);
+
+  const markAsRead = useMutation({
+    mutationFn: async (notificationId: number) => {
+      await apiRequest('PATCH', `/api/notifications/${notificationId}/read`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY }),
+  });
+
+  const markAllAsRead = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/notifications/read-all');
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY }),
+  });
+
+  const deleteNotification = useMutation({
+    mutationFn: async (notificationId: number) => {
+      await apiRequest('DELETE', `/api/notifications/${notificationId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY }),
+  });
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unreadCount ?? 0,
+    isLoading,
+    isConnected,
+    markAsRead: markAsRead.mutate,
+    markAllAsRead: markAllAsRead.mutate,
+    deleteNotification: deleteNotification.mutate,
+  };
+}
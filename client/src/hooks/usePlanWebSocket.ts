@@ -15,7 +15,7 @@ import type { PlanTask } from '@/types/action-plan';
 
 interface WebSocketMessage {
   type: 'join-plan' | 'leave-plan' | 'task-updated' | 'task-created' | 'task-deleted' | 
-        'task-reordered' | 'progress-updated' | 'pong';
+        'task-reordered' | 'dependencies-updated' | 'plan-restored' | 'progress-updated' | 'pong';
   planId?: string;
   data?: any;
   timestamp?: string;
@@ -145,6 +145,7 @@ export function usePlanWebSocket(options: UsePlanWebSocketOptions) {
           queryClient.invalidateQueries({ queryKey: ['plan', planId] });
           queryClient.invalidateQueries({ queryKey: ['plan', planId, 'tasks'] });
           queryClient.invalidateQueries({ queryKey: ['plan', planId, 'progress'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/plans', Number(planId), 'schedule'] });
           
           if (onTaskUpdated) {
             onTaskUpdated(message.data.task);
@@ -190,6 +191,18 @@ export function usePlanWebSocket(options: UsePlanWebSocketOptions) {
         }
         break;
 
+      case 'dependencies-updated':
+        // Dependency edges feed both the dependency map and the schedule
+        queryClient.invalidateQueries({ queryKey: ['/api/plans', Number(planId), 'dependencies'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/plans', Number(planId), 'schedule'] });
+        break;
+
+      case 'plan-restored':
+        // A restore can touch every phase, task and dependency
+        queryClient.invalidateQueries({ queryKey: ['/api/plans'] });
+        queryClient.invalidateQueries({ queryKey: ['plan', planId] });
+        break;
+
       case 'progress-updated':
         if (message.data?.progress) {
           // Invalidate progress queries
@@ -1,154 +1,200 @@
 import { useState, useCallback, useRef } from 'react';
+import { getAccessToken } from '@/lib/queryClient';
+import type { ConversationMessage, ConversationToolCall, MessageCitation, SuggestedQuestion } from '@/types';
 
 /**
  * Hook for handling streaming AI responses
- * Provides real-time updates as chunks arrive from the server
+ * Provides real-time updates as tokens arrive from
+ * POST /api/conversations/:analysisId/messages/stream, or the endpoint given in the options
  */
 
+export interface StreamingMetadata {
+  tokensUsed?: {
+    input: number;
+    output: number;
+    total: number;
+  };
+  processingTime?: number;
+  cost?: number;
+  citations?: MessageCitation[];
+  cached?: boolean;
+}
+
 export interface StreamingState {
   isStreaming: boolean;
   content: string;
   error: string | null;
-  metadata: {
-    tokensUsed?: {
-      input: number;
-      output: number;
-      total: number;
-    };
-    processingTime?: number;
-  } | null;
+  metadata: StreamingMetadata | null;
   messageId: number | null;
+  conversationId: number | null;
+  userMessage: ConversationMessage | null;
+}
+
+/**
+ * Terminal event sent once the answer has been saved
+ */
+export interface StreamingDoneEvent {
+  messageId: number;
+  conversationId: number;
+  aiMessage: ConversationMessage;
+  metadata: StreamingMetadata;
+  toolCalls: ConversationToolCall[];
+  suggestions: SuggestedQuestion[];
+  rateLimit: {
+    remaining: number;
+    limit: number;
+    unlimited: boolean;
+    tier: 'free' | 'pro' | 'enterprise';
+  };
+}
+
+export interface StreamingRequestOptions {
+  branchId?: number | null;
+  editMessageId?: number;
 }
 
 export interface UseStreamingResponseOptions {
-  onComplete?: (content: string, messageId: number, metadata: any) => void;
+  /** Build the stream URL from the ID passed to startStreaming; defaults to the analysis conversation */
+  endpoint?: (id: number | string) => string;
+  onStart?: (userMessage: ConversationMessage, conversationId: number) => void;
+  onComplete?: (content: string, messageId: number, metadata: StreamingMetadata, event: StreamingDoneEvent) => void;
   onError?: (error: string) => void;
   onChunk?: (chunk: string) => void;
 }
 
+const analysisStreamEndpoint = (analysisId: number | string) =>
+  `/api/conversations/${analysisId}/messages/stream`;
+
+const initialState: StreamingState = {
+  isStreaming: false,
+  content: '',
+  error: null,
+  metadata: null,
+  messageId: null,
+  conversationId: null,
+  userMessage: null,
+};
+
 export function useStreamingResponse(options: UseStreamingResponseOptions = {}) {
-  const [state, setState] = useState<StreamingState>({
-    isStreaming: false,
-    content: '',
-    error: null,
-    metadata: null,
-    messageId: null,
-  });
-
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const [state, setState] = useState<StreamingState>(initialState);
+
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Read the latest callbacks and content from inside the read loop
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const contentRef = useRef('');
+
+  const handleEvent = useCallback((data: any) => {
+    if (data.type === 'start') {
+      setState((prev) => ({
+        ...prev,
+        conversationId: data.conversationId,
+        userMessage: data.userMessage,
+      }));
+      optionsRef.current.onStart?.(data.userMessage, data.conversationId);
+    } else if (data.type === 'token') {
+      contentRef.current += data.content;
+      setState((prev) => ({
+        ...prev,
+        content: prev.content + data.content,
+      }));
+      optionsRef.current.onChunk?.(data.content);
+    } else if (data.type === 'done') {
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        metadata: data.metadata,
+        messageId: data.messageId,
+      }));
+      optionsRef.current.onComplete?.(
+        contentRef.current,
+        data.messageId,
+        data.metadata,
+        data
+      );
+    } else if (data.type === 'error') {
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        error: data.error,
+      }));
+      optionsRef.current.onError?.(data.error);
+    }
+  }, []);
 
   const startStreaming = useCallback(
-    async (analysisId: number, content: string) => {
+    async (id: number | string, content: string, request: StreamingRequestOptions = {}) => {
       // Reset state
-      setState({
-        isStreaming: true,
-        content: '',
-        error: null,
-        metadata: null,
-        messageId: null,
-      });
+      contentRef.current = '';
+      setState({ ...initialState, isStreaming: true });
 
       try {
         // Create abort controller for cancellation
         abortControllerRef.current = new AbortController();
 
-        // Send message with streaming enabled
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const accessToken = getAccessToken();
+        if (accessToken) {
+          headers['Authorization'] = `Bearer ${accessToken}`;
+        }
+
+        const endpoint = optionsRef.current.endpoint ?? analysisStreamEndpoint;
         const response = await fetch(
-          `/api/conversations/${analysisId}/messages?stream=true`,
+          endpoint(id),
           {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ content }),
+            headers,
+            credentials: 'include',
+            body: JSON.stringify({
+              content,
+              ...(request.branchId ? { branchId: request.branchId } : {}),
+              ...(request.editMessageId ? { editMessageId: request.editMessageId } : {}),
+            }),
             signal: abortControllerRef.current.signal,
           }
         );
 
+        // Validation and rate limit failures arrive as JSON before the stream opens
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.message || error.error || `HTTP error! status: ${response.status}`);
         }
 
-        // Check if response is SSE
-        const contentType = response.headers.get('content-type');
-        if (contentType?.includes('text/event-stream')) {
-          // Handle SSE streaming
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
+        const reader = response.body?.getReader();
+        const decoder = new TextDecoder();
 
-          if (!reader) {
-            throw new Error('Response body is not readable');
-          }
+        if (!reader) {
+          throw new Error('Response body is not readable');
+        }
 
-          let buffer = '';
+        let buffer = '';
 
-          while (true) {
-            const { done, value } = await reader.read();
+        while (true) {
+          const { done, value } = await reader.read();
 
-            if (done) {
-              break;
-            }
+          if (done) {
+            break;
+          }
 
-            buffer += decoder.decode(value, { stream: true });
-
-            // Process complete SSE messages
-            const lines = buffer.split('\n\n');
-            buffer = lines.pop() || '';
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-
-                  if (data.type === 'chunk') {
-                    setState((prev) => ({
-                      ...prev,
-                      content: prev.content + data.content,
-                    }));
-                    options.onChunk?.(data.content);
-                  } else if (data.type === 'complete') {
-                    setState((prev) => ({
-                      ...prev,
-                      isStreaming: false,
-                      metadata: data.metadata,
-                      messageId: data.messageId,
-                    }));
-                    options.onComplete?.(
-                      state.content,
-                      data.messageId,
-                      data.metadata
-                    );
-                  } else if (data.type === 'error') {
-                    setState((prev) => ({
-                      ...prev,
-                      isStreaming: false,
-                      error: data.error,
-                    }));
-                    options.onError?.(data.error);
-                  }
-                } catch (error) {
-                  console.error('Error parsing SSE data:', error);
-                }
+          buffer += decoder.decode(value, { stream: true });
+
+          // Process complete SSE messages
+          const events = buffer.split('\n\n');
+          buffer = events.pop() || '';
+
+          for (const event of events) {
+            if (event.startsWith('data: ')) {
+              try {
+                handleEvent(JSON.parse(event.slice(6)));
+              } catch (error) {
+                console.error('Error parsing SSE data:', error);
               }
             }
           }
-        } else {
-          // Fallback to regular JSON response
-          const data = await response.json();
-          setState({
-            isStreaming: false,
-            content: data.aiMessage.content,
-            error: null,
-            metadata: data.aiMessage.metadata,
-            messageId: data.aiMessage.id,
-          });
-          options.onComplete?.(
-            data.aiMessage.content,
-            data.aiMessage.id,
-            data.aiMessage.metadata
-          );
         }
+
+        // The stream closed without a terminal event
+        setState((prev) => ({ ...prev, isStreaming: false }));
       } catch (error) {
         if (error instanceof Error && error.name === 'AbortError') {
           // Request was cancelled
@@ -164,11 +210,13 @@ export function useStreamingResponse(options: UseStreamingResponseOptions = {})
             isStreaming: false,
             error: errorMessage,
           }));
-          options.onError?.(errorMessage);
+          optionsRef.current.onError?.(errorMessage);
         }
+      } finally {
+        abortControllerRef.current = null;
       }
     },
-    [options, state.content]
+    [handleEvent]
   );
 
   const cancelStreaming = useCallback(() => {
@@ -176,10 +224,6 @@ export function useStreamingResponse(options: UseStreamingResponseOptions = {})
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
-    }
     setState((prev) => ({
       ...prev,
       isStreaming: false,
@@ -188,13 +232,8 @@ export function useStreamingResponse(options: UseStreamingResponseOptions = {})
 
   const reset = useCallback(() => {
     cancelStreaming();
-    setState({
-      isStreaming: false,
-      content: '',
-      error: null,
-      metadata: null,
-      messageId: null,
-    });
+    contentRef.current = '';
+    setState(initialState);
   }, [cancelStreaming]);
 
   return {
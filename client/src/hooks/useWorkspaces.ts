@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useWorkspaceStore } from '@/stores/workspaceStore';
+import type { Workspace, WorkspaceResourceType } from '@shared/schema';
+
+/**
+ * Team Workspaces Hook
+ *
+ * Lists the user's team workspaces and tracks which one is active:
+ * - The active team is persisted; null is the personal workspace
+ * - Falls back to the personal workspace if the user leaves the active team
+ * - Moves searches, plans, projects and conversations between workspaces
+ */
+
+const WORKSPACES_QUERY_KEY = ['/api/workspaces'];
+
+export function useWorkspaces(options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+
+  const queryClient = useQueryClient();
+  const activeTeamId = useWorkspaceStore((state) => state.activeTeamId);
+  const setActiveTeamId = useWorkspaceStore((state) => state.setActiveTeamId);
+
+  const { data: workspaces = [], isLoading, isSuccess } = useQuery<Workspace[]>({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/workspaces');
+      const result = await response.json();
+      return result.data;
+    },
+    enabled,
+  });
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.teamId === activeTeamId) ?? null;
+
+  useEffect(() => {
+    if (isSuccess && activeTeamId !== null && !activeWorkspace) {
+      setActiveTeamId(null);
+    }
+  }, [isSuccess, activeTeamId, activeWorkspace, setActiveTeamId]);
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ type, id, fromTeamId, toTeamId }: {
+      type: WorkspaceResourceType;
+      id: number;
+      fromTeamId: number | null;
+      toTeamId: number | null;
+    }) => {
+      if (toTeamId === null) {
+        await apiRequest('DELETE', `/api/workspaces/${fromTeamId}/items/${type}/${id}`);
+      } else {
+        await apiRequest('POST', `/api/workspaces/${toTeamId}/items`, { type, id });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/searches'] });
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+    },
+  });
+
+  return {
+    workspaces,
+    activeTeamId: activeWorkspace ? activeTeamId : null,
+    activeWorkspace,
+    isLoading,
+    setActiveTeamId,
+    // Only roles that can edit a team's content may add to it
+    canEditActiveWorkspace: !activeWorkspace || activeWorkspace.role !== 'viewer',
+    moveToWorkspace: moveMutation.mutateAsync,
+    isMoving: moveMutation.isPending,
+  };
+}
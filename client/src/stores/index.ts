@@ -7,3 +7,6 @@ export type { UIState } from './uiStateStore';
 
 export { useProgressTrackingStore } from './progressTrackingStore';
 export type { ProgressState, StepProgress, PhaseProgress, ProjectProgress } from './progressTrackingStore';
+
+export { useWorkspaceStore } from './workspaceStore';
+export type { WorkspaceState } from './workspaceStore';
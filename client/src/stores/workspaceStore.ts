@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface WorkspaceState {
+  // Team workspace being browsed; null is the personal workspace
+  activeTeamId: number | null;
+
+  // Actions
+  setActiveTeamId: (teamId: number | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  activeTeamId: null,
+};
+
+export const useWorkspaceStore = create<WorkspaceState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setActiveTeamId: (teamId) => {
+        set({ activeTeamId: teamId });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'workspace-storage',
+      partialize: (state) => ({
+        activeTeamId: state.activeTeamId,
+      }),
+    }
+  )
+);
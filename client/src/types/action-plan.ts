@@ -4,10 +4,30 @@
  * Type definitions for the interactive action plan feature
  */
 
-import type { ActionPlan, PlanPhase, PlanTask } from '@shared/schema';
+import type {
+  ActionPlan,
+  PlanImportDiff,
+  PlanImportResult,
+  PlanPhase,
+  PlanTask,
+  PlanSchedule,
+  PlanVersion,
+  PlanVersionDiff,
+  PlanVersionSummary,
+  TaskSchedule,
+} from '@shared/schema';
 
 // Re-export types from shared schema
-export type { PlanTask };
+export type {
+  PlanTask,
+  PlanSchedule,
+  TaskSchedule,
+  PlanImportDiff,
+  PlanImportResult,
+  PlanVersion,
+  PlanVersionDiff,
+  PlanVersionSummary,
+};
 
 /**
  * Action Plan with related data
@@ -60,6 +80,8 @@ export interface TaskUpdate {
   title?: string;
   description?: string;
   estimatedTime?: string;
+  startDate?: string | null;
+  dueDate?: string | null;
   order?: number;
   assigneeId?: number | null;
   overridePrerequisites?: boolean;
@@ -88,7 +110,7 @@ export interface ActionPlanState {
  * Recommendation types
  * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5, 8.6
  */
-export type RecommendationType = 'stuck_task' | 'phase_complete' | 'plan_review' | 'task_tip' | 'fast_progress' | 'timeline_adjustment';
+export type RecommendationType = 'stuck_task' | 'phase_complete' | 'plan_review' | 'task_tip' | 'fast_progress' | 'timeline_adjustment' | 'overdue' | 'at_risk';
 export type RecommendationPriority = 'high' | 'medium' | 'low';
 
 export interface Recommendation {
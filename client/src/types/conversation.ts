@@ -5,6 +5,29 @@
  * These types define the structure of conversations, messages, and related data.
  */
 
+import type {
+  CitationType,
+  ConversationBranchSummary,
+  ConversationScope,
+  ConversationScopeAnalysis,
+  ConversationToolCallStatus,
+  ConversationToolName,
+  MessageCitation,
+  MultiAnalysisConversationSummary
+} from '@shared/schema';
+
+// Re-export types from shared schema
+export type {
+  CitationType,
+  ConversationBranchSummary,
+  ConversationScope,
+  ConversationScopeAnalysis,
+  ConversationToolCallStatus,
+  ConversationToolName,
+  MessageCitation,
+  MultiAnalysisConversationSummary
+};
+
 // ============================================================================
 // Core Conversation Types
 // ============================================================================
@@ -24,7 +47,27 @@ export interface MessageMetadata {
   processingTime?: number;
   confidence?: number;
   sources?: string[];
+  citations?: MessageCitation[];
   assumptions?: string[];
+  cancelled?: boolean; // streaming was stopped before the answer finished
+}
+
+/**
+ * A tool the assistant called while answering. Changes (plan tasks, variants)
+ * stay pending until the user confirms or rejects them.
+ */
+export interface ConversationToolCall {
+  id: number;
+  conversationId: number;
+  messageId: number | null;
+  toolName: ConversationToolName;
+  arguments: Record<string, unknown>;
+  requiresConfirmation: boolean;
+  status: ConversationToolCallStatus;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
 }
 
 export interface Conversation {
@@ -32,6 +75,12 @@ export interface Conversation {
   analysisId: number;
   userId: number;
   variantIds: number[];
+  parentConversationId?: number | null; // null for the main thread
+  forkedFromMessageId?: number | null;
+  branchName?: string;
+  scope?: ConversationScope; // 'analysis' unless it covers a project or a comparison
+  projectId?: number | null;
+  title?: string | null;
   messages: ConversationMessage[];
   suggestedQuestions: SuggestedQuestion[];
   createdAt: string;
@@ -87,12 +136,27 @@ export interface SuggestedQuestionsResponse {
 export interface ConversationInterfaceProps {
   analysisId: number;
   onVariantCreated?: (variantId: number) => void;
+  /** Open the full history at a message, e.g. from a message search result */
+  initialMessage?: {
+    conversationId: number;
+    messageId: number;
+    position: number;
+  };
+}
+
+export interface MultiAnalysisConversationProps {
+  conversationId: number;
+}
+
+export interface AnalysisScopePickerProps {
+  onConversationStarted: (conversationId: number) => void;
 }
 
 export interface UserMessageProps {
   message: ConversationMessage;
   onEdit?: (messageId: number, newContent: string) => void;
   onDelete?: (messageId: number) => void;
+  onFork?: (messageId: number) => void;
 }
 
 export interface AIMessageProps {
@@ -100,6 +164,11 @@ export interface AIMessageProps {
   onCopy?: () => void;
   onRate?: (messageId: number, rating: number) => void;
   onReport?: (messageId: number) => void;
+  onFork?: (messageId: number) => void;
+  toolCalls?: ConversationToolCall[];
+  onConfirmToolCall?: (toolCallId: number) => void;
+  onRejectToolCall?: (toolCallId: number) => void;
+  resolvingToolCallId?: number | null;
 }
 
 export interface ConversationInputProps {
@@ -0,0 +1,8 @@
+-- Search Result Provenance Migration
+-- Records which AI provider produced each search result and whether each field
+-- was returned by the model, repaired, derived or filled with a default
+
+ALTER TABLE "search_results" ADD COLUMN IF NOT EXISTS "field_provenance" JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN "search_results"."field_provenance" IS 'Provider and per-field origin: { provider, fields: { [field]: model | repaired | derived | defaulted } }';
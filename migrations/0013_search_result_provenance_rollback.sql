@@ -0,0 +1,4 @@
+-- Search Result Provenance Rollback Migration
+-- This migration removes the field provenance column from search results
+
+ALTER TABLE "search_results" DROP COLUMN IF EXISTS "field_provenance";
@@ -0,0 +1,21 @@
+-- Gap Analysis Cache Migration
+-- Persists AI gap analyses so restarts and reworded queries don't trigger new provider calls
+
+CREATE TABLE IF NOT EXISTS "gap_analysis_cache" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "normalized_query" TEXT NOT NULL,
+  "query" TEXT NOT NULL,
+  "results" JSONB NOT NULL,
+  "provider" VARCHAR(50) NOT NULL,
+  "hit_count" INTEGER DEFAULT 0 NOT NULL,
+  "expires_at" TIMESTAMP NOT NULL,
+  "last_hit_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "gap_analysis_cache_normalized_query_unique" UNIQUE("normalized_query")
+);
+
+CREATE INDEX IF NOT EXISTS "idx_gap_analysis_cache_expires_at" ON "gap_analysis_cache" ("expires_at");
+
+-- Add comment for documentation
+COMMENT ON TABLE "gap_analysis_cache" IS 'Persistent cache of AI gap analyses keyed by normalized query';
+COMMENT ON COLUMN "gap_analysis_cache"."normalized_query" IS 'Lowercased query tokens with stopwords removed, sorted and de-duplicated';
@@ -0,0 +1,6 @@
+-- Gap Analysis Cache Rollback Migration
+-- This migration removes the gap analysis cache table
+
+DROP TABLE IF EXISTS "gap_analysis_cache";
+
+DROP INDEX IF EXISTS "idx_gap_analysis_cache_expires_at";
@@ -0,0 +1,21 @@
+-- Financial Assumption Sets Migration
+-- Stores editable pricing, funnel, churn, CAC, COGS and hiring assumptions for the monthly financial model
+
+CREATE TABLE IF NOT EXISTS "financial_assumption_sets" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "idea_id" INTEGER NOT NULL,
+  "user_id" INTEGER NOT NULL,
+  "name" VARCHAR(100) NOT NULL,
+  "assumptions" JSONB NOT NULL,
+  "is_active" BOOLEAN DEFAULT false NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "financial_assumption_sets_idea_id_ideas_id_fk" FOREIGN KEY ("idea_id") REFERENCES "ideas"("id") ON DELETE CASCADE,
+  CONSTRAINT "financial_assumption_sets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "idx_financial_assumption_sets_idea_id" ON "financial_assumption_sets" ("idea_id");
+
+-- Add comment for documentation
+COMMENT ON TABLE "financial_assumption_sets" IS 'Named assumption sets driving the monthly financial model of an idea';
+COMMENT ON COLUMN "financial_assumption_sets"."is_active" IS 'The active set feeds the stored break-even month and projections of the idea';
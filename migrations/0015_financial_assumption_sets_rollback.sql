@@ -0,0 +1,6 @@
+-- Financial Assumption Sets Rollback Migration
+-- This migration removes the financial assumption sets table
+
+DROP TABLE IF EXISTS "financial_assumption_sets";
+
+DROP INDEX IF EXISTS "idx_financial_assumption_sets_idea_id";
@@ -0,0 +1,7 @@
+-- Task Start Date Migration
+-- Lets tasks be pinned to a start date from the plan timeline
+
+ALTER TABLE "plan_tasks" ADD COLUMN IF NOT EXISTS "start_date" TIMESTAMP;
+
+-- Add comment for documentation
+COMMENT ON COLUMN "plan_tasks"."start_date" IS 'Pinned start date; the schedule never starts the task earlier';
@@ -0,0 +1,4 @@
+-- Task Start Date Rollback Migration
+-- This migration removes the pinned start date from plan tasks
+
+ALTER TABLE "plan_tasks" DROP COLUMN IF EXISTS "start_date";
@@ -0,0 +1,15 @@
+-- Plan Due Dates Migration
+-- Adds due dates to tasks and start/due dates to phases for overdue detection
+
+ALTER TABLE "plan_tasks" ADD COLUMN IF NOT EXISTS "due_date" TIMESTAMP;
+ALTER TABLE "plan_tasks" ADD COLUMN IF NOT EXISTS "overdue_notified_at" TIMESTAMP;
+ALTER TABLE "plan_phases" ADD COLUMN IF NOT EXISTS "start_date" TIMESTAMP;
+ALTER TABLE "plan_phases" ADD COLUMN IF NOT EXISTS "due_date" TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS "plan_tasks_due_date_idx" ON "plan_tasks" ("due_date");
+
+-- Add comments for documentation
+COMMENT ON COLUMN "plan_tasks"."due_date" IS 'Date the task should be finished by';
+COMMENT ON COLUMN "plan_tasks"."overdue_notified_at" IS 'When the last task_overdue notification was sent; cleared when the due date changes';
+COMMENT ON COLUMN "plan_phases"."start_date" IS 'Planned start of the phase';
+COMMENT ON COLUMN "plan_phases"."due_date" IS 'Date all tasks in the phase should be finished by';
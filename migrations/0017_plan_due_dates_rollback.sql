@@ -0,0 +1,9 @@
+-- Plan Due Dates Rollback Migration
+-- This migration removes task and phase due dates
+
+DROP INDEX IF EXISTS "plan_tasks_due_date_idx";
+
+ALTER TABLE "plan_phases" DROP COLUMN IF EXISTS "due_date";
+ALTER TABLE "plan_phases" DROP COLUMN IF EXISTS "start_date";
+ALTER TABLE "plan_tasks" DROP COLUMN IF EXISTS "overdue_notified_at";
+ALTER TABLE "plan_tasks" DROP COLUMN IF EXISTS "due_date";
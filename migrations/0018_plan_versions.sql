@@ -0,0 +1,26 @@
+-- Plan Versions Migration
+-- Adds named and automatic plan versions, and lets task history outlive tasks removed by a restore
+
+CREATE TABLE IF NOT EXISTS "plan_versions" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "plan_id" INTEGER NOT NULL,
+  "version" INTEGER NOT NULL,
+  "name" VARCHAR(200) NOT NULL,
+  "kind" TEXT DEFAULT 'manual' NOT NULL,
+  "snapshot" JSONB NOT NULL,
+  "created_by" INTEGER NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "plan_versions_plan_id_action_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "action_plans"("id") ON DELETE CASCADE,
+  CONSTRAINT "plan_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id"),
+  CONSTRAINT "plan_versions_plan_version_unique" UNIQUE ("plan_id", "version")
+);
+
+CREATE INDEX IF NOT EXISTS "plan_versions_plan_id_idx" ON "plan_versions" ("plan_id");
+
+-- Restoring a version removes tasks added after it; their audit trail must stay
+ALTER TABLE "task_history" DROP CONSTRAINT IF EXISTS "task_history_task_id_plan_tasks_id_fk";
+
+-- Add comments for documentation
+COMMENT ON TABLE "plan_versions" IS 'Point-in-time snapshots of a plan''s phases, tasks and dependencies';
+COMMENT ON COLUMN "plan_versions"."kind" IS 'manual for named checkpoints, auto for versions taken before major edits';
+COMMENT ON COLUMN "plan_versions"."snapshot" IS 'PlanVersionSnapshot: plan fields, phases with tasks, and dependency edges';
@@ -0,0 +1,12 @@
+-- Plan Versions Rollback Migration
+-- This migration removes plan versions and restores the task history foreign key
+
+DROP INDEX IF EXISTS "plan_versions_plan_id_idx";
+
+DROP TABLE IF EXISTS "plan_versions";
+
+-- History of tasks that no longer exist cannot satisfy the foreign key
+DELETE FROM "task_history" WHERE "task_id" NOT IN (SELECT "id" FROM "plan_tasks");
+
+ALTER TABLE "task_history" ADD CONSTRAINT "task_history_task_id_plan_tasks_id_fk"
+  FOREIGN KEY ("task_id") REFERENCES "plan_tasks"("id") ON DELETE CASCADE;
@@ -0,0 +1,45 @@
+-- Flagged Content Migration
+-- Persists auto-flagged and user-reported conversation content for the admin moderation queue
+
+CREATE TABLE IF NOT EXISTS "flagged_content" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "source" VARCHAR(20) NOT NULL,
+  "content_role" VARCHAR(20) NOT NULL,
+  "message_id" INTEGER,
+  "conversation_id" INTEGER,
+  "user_id" INTEGER,
+  "reported_by" INTEGER,
+  "content" TEXT NOT NULL,
+  "flag_reason" TEXT NOT NULL,
+  "categories" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "severity" VARCHAR(20) NOT NULL,
+  "status" VARCHAR(20) DEFAULT 'pending' NOT NULL,
+  "assigned_to" INTEGER,
+  "assigned_at" TIMESTAMP,
+  "reviewed_by" INTEGER,
+  "reviewed_at" TIMESTAMP,
+  "review_notes" TEXT,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "flagged_content_message_id_conversation_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "conversation_messages"("id") ON DELETE SET NULL,
+  CONSTRAINT "flagged_content_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE SET NULL,
+  CONSTRAINT "flagged_content_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id"),
+  CONSTRAINT "flagged_content_reported_by_users_id_fk" FOREIGN KEY ("reported_by") REFERENCES "users"("id"),
+  CONSTRAINT "flagged_content_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "users"("id"),
+  CONSTRAINT "flagged_content_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id"),
+  CONSTRAINT "flagged_content_status_check" CHECK ("status" IN ('pending', 'approved', 'removed'))
+);
+
+CREATE INDEX IF NOT EXISTS "flagged_content_status_idx" ON "flagged_content" ("status");
+CREATE INDEX IF NOT EXISTS "flagged_content_severity_idx" ON "flagged_content" ("severity");
+CREATE INDEX IF NOT EXISTS "flagged_content_message_id_idx" ON "flagged_content" ("message_id");
+CREATE INDEX IF NOT EXISTS "flagged_content_reported_by_idx" ON "flagged_content" ("reported_by");
+CREATE INDEX IF NOT EXISTS "flagged_content_assigned_to_idx" ON "flagged_content" ("assigned_to");
+CREATE INDEX IF NOT EXISTS "flagged_content_created_at_idx" ON "flagged_content" ("created_at" DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE "flagged_content" IS 'Moderation queue of conversation content flagged automatically or reported by users';
+COMMENT ON COLUMN "flagged_content"."source" IS 'auto for moderation pipeline flags, report for user reports';
+COMMENT ON COLUMN "flagged_content"."message_id" IS 'Null when user input was blocked before it was stored as a message';
+COMMENT ON COLUMN "flagged_content"."content" IS 'Copy of the flagged content, kept after the message is removed';
+COMMENT ON COLUMN "flagged_content"."status" IS 'pending until reviewed, then approved (content stays) or removed (content taken down)';
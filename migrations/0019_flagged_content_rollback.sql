@@ -0,0 +1,11 @@
+-- Flagged Content Rollback Migration
+-- This migration removes the moderation queue table
+
+DROP INDEX IF EXISTS "flagged_content_created_at_idx";
+DROP INDEX IF EXISTS "flagged_content_assigned_to_idx";
+DROP INDEX IF EXISTS "flagged_content_reported_by_idx";
+DROP INDEX IF EXISTS "flagged_content_message_id_idx";
+DROP INDEX IF EXISTS "flagged_content_severity_idx";
+DROP INDEX IF EXISTS "flagged_content_status_idx";
+
+DROP TABLE IF EXISTS "flagged_content";
@@ -0,0 +1,22 @@
+-- Conversation Memories Migration
+-- Persists a rolling summary, facts and decisions for long conversations so old exchanges are not dropped
+
+CREATE TABLE IF NOT EXISTS "conversation_memories" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "conversation_id" INTEGER NOT NULL,
+  "summary" TEXT DEFAULT '' NOT NULL,
+  "facts" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "decisions" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "covered_through_message_id" INTEGER DEFAULT 0 NOT NULL,
+  "covered_message_count" INTEGER DEFAULT 0 NOT NULL,
+  "generated_by" VARCHAR(20) DEFAULT 'llm' NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "conversation_memories_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE,
+  CONSTRAINT "conversation_memories_conversation_unique" UNIQUE ("conversation_id")
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE "conversation_memories" IS 'Incrementally updated memory of conversation exchanges that fell out of the verbatim history window';
+COMMENT ON COLUMN "conversation_memories"."covered_through_message_id" IS 'Messages up to and including this id are represented by the memory';
+COMMENT ON COLUMN "conversation_memories"."generated_by" IS 'llm when the last refresh used the model, heuristic when it fell back to key-point extraction';
@@ -0,0 +1,4 @@
+-- Conversation Memories Rollback Migration
+-- This migration removes persisted conversation memories
+
+DROP TABLE IF EXISTS "conversation_memories";
@@ -0,0 +1,32 @@
+-- Conversation Branches Migration
+-- Lets a conversation fork at any message into a branch with its own messages and analytics
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "parent_conversation_id" INTEGER;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "forked_from_message_id" INTEGER;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "branch_name" VARCHAR(100) DEFAULT 'Main' NOT NULL;
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "copied_from_message_id" INTEGER;
+
+-- Deleting a conversation deletes its branches; deleting a message only detaches the lineage
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_parent_conversation_id_conversations_id_fk";
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_parent_conversation_id_conversations_id_fk"
+  FOREIGN KEY ("parent_conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE;
+
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_forked_from_message_id_fk";
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_forked_from_message_id_fk"
+  FOREIGN KEY ("forked_from_message_id") REFERENCES "conversation_messages"("id") ON DELETE SET NULL;
+
+ALTER TABLE "conversation_messages" DROP CONSTRAINT IF EXISTS "conversation_messages_copied_from_message_id_fk";
+ALTER TABLE "conversation_messages" ADD CONSTRAINT "conversation_messages_copied_from_message_id_fk"
+  FOREIGN KEY ("copied_from_message_id") REFERENCES "conversation_messages"("id") ON DELETE SET NULL;
+
+-- Only the main thread is unique per analysis and user
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_analysis_user_unique";
+CREATE UNIQUE INDEX IF NOT EXISTS "conversations_analysis_user_main_unique"
+  ON "conversations" ("analysis_id", "user_id") WHERE "parent_conversation_id" IS NULL;
+CREATE INDEX IF NOT EXISTS "conversations_parent_conversation_id_idx" ON "conversations" ("parent_conversation_id");
+
+-- Add comments for documentation
+COMMENT ON COLUMN "conversations"."parent_conversation_id" IS 'Conversation this branch was forked from; NULL for the main thread';
+COMMENT ON COLUMN "conversations"."forked_from_message_id" IS 'Last parent message the branch inherited';
+COMMENT ON COLUMN "conversations"."branch_name" IS 'Display name of the branch';
+COMMENT ON COLUMN "conversation_messages"."copied_from_message_id" IS 'Parent message this message was copied from when the branch was forked';
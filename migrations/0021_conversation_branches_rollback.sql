@@ -0,0 +1,18 @@
+-- Conversation Branches Rollback Migration
+-- This migration removes conversation branches and restores one conversation per analysis and user
+
+DELETE FROM "conversations" WHERE "parent_conversation_id" IS NOT NULL;
+
+DROP INDEX IF EXISTS "conversations_parent_conversation_id_idx";
+DROP INDEX IF EXISTS "conversations_analysis_user_main_unique";
+
+ALTER TABLE "conversation_messages" DROP CONSTRAINT IF EXISTS "conversation_messages_copied_from_message_id_fk";
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_forked_from_message_id_fk";
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_parent_conversation_id_conversations_id_fk";
+
+ALTER TABLE "conversation_messages" DROP COLUMN IF EXISTS "copied_from_message_id";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "branch_name";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "forked_from_message_id";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "parent_conversation_id";
+
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_analysis_user_unique" UNIQUE ("analysis_id", "user_id");
@@ -0,0 +1,29 @@
+-- Conversation Tool Calls Migration
+-- Records server actions the conversation assistant called, and whether the user confirmed the mutating ones
+
+CREATE TABLE IF NOT EXISTS "conversation_tool_calls" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "conversation_id" INTEGER NOT NULL,
+  "message_id" INTEGER,
+  "user_id" INTEGER NOT NULL,
+  "tool_name" VARCHAR(50) NOT NULL,
+  "arguments" JSONB DEFAULT '{}'::jsonb NOT NULL,
+  "requires_confirmation" BOOLEAN NOT NULL,
+  "status" VARCHAR(20) NOT NULL,
+  "result" JSONB,
+  "error" TEXT,
+  "resolved_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "conversation_tool_calls_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE,
+  CONSTRAINT "conversation_tool_calls_message_id_conversation_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "conversation_messages"("id") ON DELETE SET NULL,
+  CONSTRAINT "conversation_tool_calls_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "conversation_tool_calls_conversation_id_idx" ON "conversation_tool_calls" ("conversation_id");
+CREATE INDEX IF NOT EXISTS "conversation_tool_calls_message_id_idx" ON "conversation_tool_calls" ("message_id");
+CREATE INDEX IF NOT EXISTS "conversation_tool_calls_status_idx" ON "conversation_tool_calls" ("status");
+
+-- Add comments for documentation
+COMMENT ON TABLE "conversation_tool_calls" IS 'Whitelisted server actions called by the conversation assistant';
+COMMENT ON COLUMN "conversation_tool_calls"."requires_confirmation" IS 'Mutating actions only run once the user confirms them';
+COMMENT ON COLUMN "conversation_tool_calls"."status" IS 'completed for read-only calls; pending, executed, rejected or failed for mutations';
@@ -0,0 +1,4 @@
+-- Conversation Tool Calls Rollback Migration
+-- This migration removes recorded conversation tool calls
+
+DROP TABLE IF EXISTS "conversation_tool_calls";
@@ -0,0 +1,38 @@
+-- Multi-Analysis Conversations Migration
+-- Lets a conversation cover a project's analyses or a hand-picked set of analyses
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "scope" VARCHAR(20) DEFAULT 'analysis' NOT NULL;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "project_id" INTEGER;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "title" VARCHAR(200);
+
+-- Deleting a project deletes its conversation
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_project_id_projects_id_fk";
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_project_id_projects_id_fk"
+  FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE;
+
+-- The main thread stays unique per analysis and user; multi-analysis conversations share its analysis_id
+DROP INDEX IF EXISTS "conversations_analysis_user_main_unique";
+CREATE UNIQUE INDEX IF NOT EXISTS "conversations_analysis_user_main_unique"
+  ON "conversations" ("analysis_id", "user_id") WHERE "parent_conversation_id" IS NULL AND "scope" = 'analysis';
+CREATE UNIQUE INDEX IF NOT EXISTS "conversations_project_user_unique"
+  ON "conversations" ("project_id", "user_id") WHERE "parent_conversation_id" IS NULL AND "scope" = 'project';
+
+-- Create conversation_analyses table
+CREATE TABLE IF NOT EXISTS "conversation_analyses" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "conversation_id" INTEGER NOT NULL,
+  "analysis_id" INTEGER NOT NULL,
+  "added_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "conversation_analyses_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE,
+  CONSTRAINT "conversation_analyses_analysis_id_searches_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "searches"("id") ON DELETE CASCADE,
+  CONSTRAINT "conversation_analyses_conversation_analysis_unique" UNIQUE ("conversation_id", "analysis_id")
+);
+
+-- Create indexes for conversation_analyses
+CREATE INDEX IF NOT EXISTS "conversation_analyses_analysis_id_idx" ON "conversation_analyses" ("analysis_id");
+
+-- Add comments for documentation
+COMMENT ON COLUMN "conversations"."scope" IS 'analysis (one analysis), project (the project''s analyses) or comparison (conversation_analyses)';
+COMMENT ON COLUMN "conversations"."project_id" IS 'Project whose analyses a project conversation covers';
+COMMENT ON COLUMN "conversations"."title" IS 'Display name of a multi-analysis conversation';
+COMMENT ON TABLE "conversation_analyses" IS 'Analyses a comparison conversation covers';
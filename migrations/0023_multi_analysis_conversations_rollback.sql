@@ -0,0 +1,16 @@
+-- Multi-Analysis Conversations Rollback Migration
+-- This migration removes project and comparison conversations
+
+DROP TABLE IF EXISTS "conversation_analyses";
+
+DELETE FROM "conversations" WHERE "scope" <> 'analysis';
+
+DROP INDEX IF EXISTS "conversations_project_user_unique";
+DROP INDEX IF EXISTS "conversations_analysis_user_main_unique";
+CREATE UNIQUE INDEX IF NOT EXISTS "conversations_analysis_user_main_unique"
+  ON "conversations" ("analysis_id", "user_id") WHERE "parent_conversation_id" IS NULL;
+
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_project_id_projects_id_fk";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "title";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "project_id";
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "scope";
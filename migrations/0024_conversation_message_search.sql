@@ -0,0 +1,8 @@
+-- Conversation Message Search Migration
+-- Full-text index over conversation messages for global search
+
+-- Queries must use the same expression to use this index
+CREATE INDEX IF NOT EXISTS "conversation_messages_content_search_idx"
+  ON "conversation_messages" USING GIN (to_tsvector('english', "content"));
+
+COMMENT ON INDEX "conversation_messages_content_search_idx" IS 'Full-text search over message content; matched with to_tsvector(''english'', content)';
@@ -0,0 +1,4 @@
+-- Conversation Message Search Rollback Migration
+-- This migration removes the full-text index over conversation messages
+
+DROP INDEX IF EXISTS "conversation_messages_content_search_idx";
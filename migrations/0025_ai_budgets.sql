@@ -0,0 +1,58 @@
+-- AI Budgets Migration
+-- Adds monthly AI spend budgets for users and teams, and a ledger of what each AI call cost
+
+-- Create ai_budgets table
+CREATE TABLE IF NOT EXISTS "ai_budgets" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "scope" VARCHAR(10) NOT NULL,
+  "user_id" INTEGER,
+  "team_id" INTEGER,
+  "monthly_limit_cents" INTEGER,
+  "alert_thresholds" JSONB DEFAULT '[50, 80, 100]'::jsonb NOT NULL,
+  "hard_cap_action" VARCHAR(10) DEFAULT 'degrade' NOT NULL,
+  "override_limit_cents" INTEGER,
+  "override_expires_at" TIMESTAMP,
+  "override_reason" TEXT,
+  "updated_by" INTEGER,
+  "last_alert_period" VARCHAR(7),
+  "last_alert_threshold" INTEGER,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "ai_budgets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+  CONSTRAINT "ai_budgets_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE,
+  CONSTRAINT "ai_budgets_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE SET NULL,
+  CONSTRAINT "ai_budgets_user_unique" UNIQUE ("user_id"),
+  CONSTRAINT "ai_budgets_team_unique" UNIQUE ("team_id"),
+  CONSTRAINT "ai_budgets_scope_check" CHECK (
+    ("scope" = 'user' AND "user_id" IS NOT NULL AND "team_id" IS NULL) OR
+    ("scope" = 'team' AND "team_id" IS NOT NULL AND "user_id" IS NULL)
+  ),
+  CONSTRAINT "ai_budgets_hard_cap_action_check" CHECK ("hard_cap_action" IN ('degrade', 'block'))
+);
+
+-- Create ai_spend_ledger table
+CREATE TABLE IF NOT EXISTS "ai_spend_ledger" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "user_id" INTEGER NOT NULL,
+  "conversation_id" INTEGER,
+  "feature" VARCHAR(50) NOT NULL,
+  "model" VARCHAR(100) NOT NULL,
+  "input_tokens" INTEGER NOT NULL,
+  "output_tokens" INTEGER NOT NULL,
+  "cost_micros" INTEGER NOT NULL,
+  "degraded" BOOLEAN DEFAULT false NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "ai_spend_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+  CONSTRAINT "ai_spend_ledger_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE SET NULL
+);
+
+-- Create indexes for ai_spend_ledger
+CREATE INDEX IF NOT EXISTS "idx_ai_spend_ledger_user_created" ON "ai_spend_ledger" ("user_id", "created_at");
+
+-- Add comments for documentation
+COMMENT ON TABLE "ai_budgets" IS 'Monthly AI spend ceilings for a user or a team';
+COMMENT ON COLUMN "ai_budgets"."monthly_limit_cents" IS 'Monthly limit in cents; NULL uses the default for the user''s tier or the team''s plan';
+COMMENT ON COLUMN "ai_budgets"."hard_cap_action" IS 'degrade (switch to the cheaper model) or block once the limit would be exceeded';
+COMMENT ON COLUMN "ai_budgets"."override_limit_cents" IS 'Admin override that replaces the limit until override_expires_at';
+COMMENT ON TABLE "ai_spend_ledger" IS 'Cost of each AI call, summed per month against budgets';
+COMMENT ON COLUMN "ai_spend_ledger"."cost_micros" IS 'Cost in millionths of a dollar';
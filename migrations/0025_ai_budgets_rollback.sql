@@ -0,0 +1,5 @@
+-- AI Budgets Rollback Migration
+-- This migration removes AI budgets and the AI spend ledger
+
+DROP TABLE IF EXISTS "ai_spend_ledger";
+DROP TABLE IF EXISTS "ai_budgets";
@@ -0,0 +1,40 @@
+-- Prompt Templates Migration
+-- Adds a registry of versioned AI prompts that admins can edit and A/B test
+
+-- Create prompt_templates table
+CREATE TABLE IF NOT EXISTS "prompt_templates" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "key" VARCHAR(100) NOT NULL,
+  "name" VARCHAR(200) NOT NULL,
+  "description" TEXT,
+  "variables" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "active_version_id" INTEGER,
+  "experiment_version_id" INTEGER,
+  "experiment_flag" VARCHAR(100),
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "prompt_templates_key_unique" UNIQUE ("key")
+);
+
+-- Create prompt_template_versions table
+CREATE TABLE IF NOT EXISTS "prompt_template_versions" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "template_id" INTEGER NOT NULL,
+  "version" INTEGER NOT NULL,
+  "content" TEXT NOT NULL,
+  "notes" TEXT,
+  "created_by" INTEGER,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "prompt_template_versions_template_id_prompt_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "prompt_templates"("id") ON DELETE CASCADE,
+  CONSTRAINT "prompt_template_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL,
+  CONSTRAINT "prompt_template_versions_template_version_unique" UNIQUE ("template_id", "version")
+);
+
+-- Rated answers are grouped by the prompt version that produced them
+CREATE INDEX IF NOT EXISTS "conversation_messages_prompt_version_idx"
+  ON "conversation_messages" ((("metadata"->>'promptVersionId')::integer)) WHERE "role" = 'assistant';
+
+-- Add comments for documentation
+COMMENT ON TABLE "prompt_templates" IS 'Editable AI prompts, served by key; built-in defaults apply until a template is edited';
+COMMENT ON COLUMN "prompt_templates"."experiment_flag" IS 'Feature flag whose rollout percentage receives experiment_version_id';
+COMMENT ON TABLE "prompt_template_versions" IS 'Immutable revisions of a prompt template';
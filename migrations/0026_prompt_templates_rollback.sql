@@ -0,0 +1,6 @@
+-- Prompt Templates Rollback Migration
+-- This migration removes the prompt template registry
+
+DROP INDEX IF EXISTS "conversation_messages_prompt_version_idx";
+DROP TABLE IF EXISTS "prompt_template_versions";
+DROP TABLE IF EXISTS "prompt_templates";
@@ -0,0 +1,24 @@
+-- Notifications Migration
+-- Adds a persistent in-app notification inbox with read state
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS "notifications" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "user_id" INTEGER NOT NULL,
+  "type" VARCHAR(50) NOT NULL,
+  "title" VARCHAR(200) NOT NULL,
+  "message" TEXT NOT NULL,
+  "metadata" JSONB DEFAULT '{}'::jsonb NOT NULL,
+  "action_url" TEXT,
+  "read_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS "idx_notifications_user_created" ON "notifications" ("user_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_notifications_user_unread" ON "notifications" ("user_id") WHERE "read_at" IS NULL;
+
+-- Add comments for documentation
+COMMENT ON TABLE "notifications" IS 'In-app notification inbox; new rows are pushed to connected clients over /ws';
+COMMENT ON COLUMN "notifications"."read_at" IS 'When the user read the notification, null while unread';
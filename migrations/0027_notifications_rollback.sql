@@ -0,0 +1,4 @@
+-- Notifications Rollback Migration
+-- This migration removes the in-app notification inbox
+
+DROP TABLE IF EXISTS "notifications";
@@ -0,0 +1,33 @@
+-- Collaborative Documents Migration
+-- Adds persisted CRDT documents for collaboration rooms and their update log for reconnect catch-up
+
+-- Create collaborative_documents table
+CREATE TABLE IF NOT EXISTS "collaborative_documents" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "room_id" VARCHAR(100) NOT NULL,
+  "doc_key" VARCHAR(100) NOT NULL,
+  "state" JSONB NOT NULL,
+  "seq" INTEGER DEFAULT 0 NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "collaborative_documents_room_doc_key" UNIQUE ("room_id", "doc_key")
+);
+
+-- Create collaborative_document_updates table
+CREATE TABLE IF NOT EXISTS "collaborative_document_updates" (
+  "id" SERIAL PRIMARY KEY NOT NULL,
+  "document_id" INTEGER NOT NULL,
+  "seq" INTEGER NOT NULL,
+  "user_id" INTEGER,
+  "client_id" VARCHAR(64) NOT NULL,
+  "operations" JSONB NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "collaborative_document_updates_document_id_fk" FOREIGN KEY ("document_id") REFERENCES "collaborative_documents"("id") ON DELETE CASCADE,
+  CONSTRAINT "collaborative_document_updates_document_seq" UNIQUE ("document_id", "seq")
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE "collaborative_documents" IS 'CRDT text documents edited in collaboration rooms (idea and plan descriptions, notes)';
+COMMENT ON COLUMN "collaborative_documents"."state" IS 'TextDocumentState snapshot including tombstones';
+COMMENT ON COLUMN "collaborative_documents"."seq" IS 'Sequence number of the last update included in the snapshot';
+COMMENT ON TABLE "collaborative_document_updates" IS 'Ordered CRDT operations, replayed to clients catching up after a reconnect';
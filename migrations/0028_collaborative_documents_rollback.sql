@@ -0,0 +1,5 @@
+-- Collaborative Documents Rollback Migration
+-- This migration removes collaborative documents and their update log
+
+DROP TABLE IF EXISTS "collaborative_document_updates";
+DROP TABLE IF EXISTS "collaborative_documents";
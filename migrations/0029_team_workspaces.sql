@@ -0,0 +1,34 @@
+-- Team Workspaces Migration
+-- Lets searches, action plans, projects and conversations belong to a team, shared by role with its members
+
+ALTER TABLE "searches" ADD COLUMN IF NOT EXISTS "team_id" INTEGER;
+ALTER TABLE "action_plans" ADD COLUMN IF NOT EXISTS "team_id" INTEGER;
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "team_id" INTEGER;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "team_id" INTEGER;
+
+-- Deleting a team hands its content back to the people who created it
+ALTER TABLE "searches" DROP CONSTRAINT IF EXISTS "searches_team_id_teams_id_fk";
+ALTER TABLE "searches" ADD CONSTRAINT "searches_team_id_teams_id_fk"
+  FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL;
+ALTER TABLE "action_plans" DROP CONSTRAINT IF EXISTS "action_plans_team_id_teams_id_fk";
+ALTER TABLE "action_plans" ADD CONSTRAINT "action_plans_team_id_teams_id_fk"
+  FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL;
+ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "projects_team_id_teams_id_fk";
+ALTER TABLE "projects" ADD CONSTRAINT "projects_team_id_teams_id_fk"
+  FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL;
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_team_id_teams_id_fk";
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_team_id_teams_id_fk"
+  FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL;
+
+-- Create indexes for workspace listings and role lookups
+CREATE INDEX IF NOT EXISTS "idx_searches_team_id" ON "searches" ("team_id");
+CREATE INDEX IF NOT EXISTS "action_plans_team_id_idx" ON "action_plans" ("team_id");
+CREATE INDEX IF NOT EXISTS "projects_team_id_idx" ON "projects" ("team_id");
+CREATE INDEX IF NOT EXISTS "conversations_team_id_idx" ON "conversations" ("team_id");
+CREATE INDEX IF NOT EXISTS "team_members_user_team_idx" ON "team_members" ("user_id", "team_id");
+
+-- Add comments for documentation
+COMMENT ON COLUMN "searches"."team_id" IS 'Team workspace the analysis belongs to; NULL for the owner''s personal workspace';
+COMMENT ON COLUMN "action_plans"."team_id" IS 'Team workspace the plan belongs to; tasks can be assigned to its members';
+COMMENT ON COLUMN "projects"."team_id" IS 'Team workspace the project belongs to; NULL for the owner''s personal workspace';
+COMMENT ON COLUMN "conversations"."team_id" IS 'Team workspace whose members can read the conversation';
@@ -0,0 +1,18 @@
+-- Team Workspaces Rollback Migration
+-- This migration removes team ownership of searches, action plans, projects and conversations
+
+DROP INDEX IF EXISTS "team_members_user_team_idx";
+DROP INDEX IF EXISTS "conversations_team_id_idx";
+DROP INDEX IF EXISTS "projects_team_id_idx";
+DROP INDEX IF EXISTS "action_plans_team_id_idx";
+DROP INDEX IF EXISTS "idx_searches_team_id";
+
+ALTER TABLE "conversations" DROP CONSTRAINT IF EXISTS "conversations_team_id_teams_id_fk";
+ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "projects_team_id_teams_id_fk";
+ALTER TABLE "action_plans" DROP CONSTRAINT IF EXISTS "action_plans_team_id_teams_id_fk";
+ALTER TABLE "searches" DROP CONSTRAINT IF EXISTS "searches_team_id_teams_id_fk";
+
+ALTER TABLE "conversations" DROP COLUMN IF EXISTS "team_id";
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "team_id";
+ALTER TABLE "action_plans" DROP COLUMN IF EXISTS "team_id";
+ALTER TABLE "searches" DROP COLUMN IF EXISTS "team_id";
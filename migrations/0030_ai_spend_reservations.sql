@@ -0,0 +1,10 @@
+-- AI Spend Reservations Migration
+-- Lets a budget check hold a call's estimated cost in the ledger until its actual spend is recorded,
+-- so concurrent calls cannot each pass the check on the same remaining budget
+
+ALTER TABLE "ai_spend_ledger" ADD COLUMN IF NOT EXISTS "status" VARCHAR(10) DEFAULT 'settled' NOT NULL;
+
+ALTER TABLE "ai_spend_ledger" ADD CONSTRAINT "ai_spend_ledger_status_check" CHECK ("status" IN ('pending', 'settled'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN "ai_spend_ledger"."status" IS 'pending for an estimated cost held while a call runs, settled for actual spend';
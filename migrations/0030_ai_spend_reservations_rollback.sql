@@ -0,0 +1,8 @@
+-- AI Spend Reservations Rollback Migration
+-- This migration removes budget reservations from the AI spend ledger
+
+DELETE FROM "ai_spend_ledger" WHERE "status" = 'pending';
+
+ALTER TABLE "ai_spend_ledger" DROP CONSTRAINT IF EXISTS "ai_spend_ledger_status_check";
+
+ALTER TABLE "ai_spend_ledger" DROP COLUMN IF EXISTS "status";
@@ -236,6 +236,58 @@ describe('ContextWindowManager', () => {
       expect(result.analysisContext).toBe(mockCached);
       expect(conversationCacheService.getAnalysisContext).toHaveBeenCalledWith(123);
     });
+
+    it('should pack every analysis when several are in scope', async () => {
+      const analyses: AnalysisData[] = [
+        mockAnalysis,
+        { ...mockAnalysis, searchQuery: 'B2B invoicing for agencies', innovationScore: 72 },
+        { ...mockAnalysis, searchQuery: 'Vet clinic booking', innovationScore: 64 },
+      ];
+
+      const result = await manager.buildContext(analyses, [], 'Which is strongest for B2B SaaS?');
+
+      expect(result.systemPrompt).toContain('3 of their gap analyses');
+      expect(result.analysisContext).toContain('ANALYSES IN SCOPE (3)');
+      expect(result.analysisContext).toContain('=== ANALYSIS 1 ===');
+      expect(result.analysisContext).toContain('Original Search: B2B invoicing for agencies');
+      expect(result.analysisContext).toContain('Original Search: Vet clinic booking');
+      expect(result.analysisContext).toContain('Innovation Score: 64/100');
+    });
+
+    it('should give each analysis an equal share of the budget', async () => {
+      const longDescription = 'Detailed gap description '.repeat(40);
+      const manyGaps = Array.from({ length: 10 }, (_, i) => ({
+        title: `Gap ${i + 1}`,
+        description: longDescription,
+        score: 90 - i,
+      }));
+      const analyses: AnalysisData[] = Array.from({ length: 4 }, (_, i) => ({
+        searchQuery: `Idea ${i + 1}`,
+        topGaps: manyGaps,
+        competitors: Array.from({ length: 10 }, (_, j) => ({ name: `Competitor ${j + 1}`, description: longDescription })),
+      }));
+
+      const result = await manager.buildContext(analyses, [], 'Compare them', 2000);
+
+      // 2000 tokens leaves a 500 token analysis budget, 125 tokens per analysis
+      expect(result.analysisContext.length).toBeLessThanOrEqual(500 * 4);
+      for (const section of result.analysisContext.split('=== ANALYSIS ').slice(1)) {
+        expect(section.length).toBeLessThanOrEqual(125 * 4 + 2);
+      }
+      expect(result.analysisContext).toContain('Original Search: Idea 4');
+    });
+
+    it('should not use the single-analysis cache for several analyses', async () => {
+      const { conversationCacheService } = await import('../../../services/conversationCacheService');
+
+      await manager.buildContext(
+        [{ ...mockAnalysis, id: 1 } as AnalysisData, { ...mockAnalysis, id: 2 } as AnalysisData],
+        [],
+        'Test query'
+      );
+
+      expect(conversationCacheService.getAnalysisContext).not.toHaveBeenCalled();
+    });
   });
 
   describe('estimateTokens', () => {
@@ -13,19 +13,26 @@ import {
   type AnalysisData,
 } from '../../../services/questionGeneratorService';
 import type { ConversationMessage, SuggestedQuestion } from '@shared/schema';
+import { isGeminiAvailable } from '../../../services/geminiConversationService';
+import { aiBudgetService } from '../../../services/aiBudgetService';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
 
 // Mock Gemini service
 vi.mock('../../../services/geminiConversationService', () => ({
   isGeminiAvailable: vi.fn(() => false), // Default to template-based generation
   getGeminiClient: vi.fn(() => ({
-    models: {
-      get: vi.fn(() => ({
-        generateContent: vi.fn(),
-      })),
-    },
+    models: { generateContent },
   })),
 }));
 
+// Budget checks allow every call, on the model the budget picked
+vi.mock('../../../services/aiBudgetService', () => ({
+  aiBudgetService: {
+    runWithinBudget: vi.fn(async (_subject, _feature, _estimate, call) => (await call('gemini-budget')).result),
+  },
+}));
+
 describe('QuestionGenerator Service', () => {
   let mockAnalysis: AnalysisData;
   let mockMessages: ConversationMessage[];
@@ -150,6 +157,27 @@ describe('QuestionGenerator Service', () => {
       expect(questions.every(q => q.text && q.category && q.priority)).toBe(true);
     });
 
+    it('should ask the model allowed by the AI budget for questions', async () => {
+      vi.mocked(isGeminiAvailable).mockReturnValueOnce(true);
+      generateContent.mockResolvedValueOnce({
+        text: JSON.stringify([{ text: 'Which gyms would pilot this first?', category: 'execution_strategy', priority: 80 }]),
+      });
+      const subject = { userId: 3, userTier: 'pro', conversationId: 1 };
+
+      const questions = await generateFollowUpQuestions(mockAnalysis, mockMessages, subject);
+
+      expect(aiBudgetService.runWithinBudget).toHaveBeenCalledWith(
+        subject,
+        'follow_up_questions',
+        expect.objectContaining({ maxOutputTokens: 1000 }),
+        expect.any(Function)
+      );
+      expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-budget' }));
+      expect(questions).toEqual([
+        { text: 'Which gyms would pilot this first?', category: 'execution_strategy', priority: 80, relevanceScore: 80 },
+      ]);
+    });
+
     it('should avoid questions similar to conversation history', async () => {
       const messagesWithMarketQuestion = [
         ...mockMessages,
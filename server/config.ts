@@ -4,15 +4,26 @@ interface Config {
   stripeSecretKey: string | undefined;
   sendgridApiKey: string | undefined;
   redisUrl: string | undefined;
+  gapProviderOrder: string[];
   isDevelopment: boolean;
   isProduction: boolean;
 }
 
+// Gap analysis providers are tried in this order. CI runs fully offline by default.
+function parseGapProviderOrder(): string[] {
+  const configured = process.env.GAP_PROVIDERS;
+  if (configured) {
+    return configured.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  }
+  return process.env.NODE_ENV === 'test' ? ['stub'] : ['perplexity', 'gemini', 'stub'];
+}
+
 export const config: Config = {
   geminiApiKey: process.env.GEMINI_API_KEY,
   stripeSecretKey: process.env.STRIPE_SECRET_KEY,
   sendgridApiKey: process.env.SENDGRID_API_KEY,
   redisUrl: process.env.REDIS_URL,
+  gapProviderOrder: parseGapProviderOrder(),
   isDevelopment: process.env.NODE_ENV === 'development',
   isProduction: process.env.NODE_ENV === 'production',
 };
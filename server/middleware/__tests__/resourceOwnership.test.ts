@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Request, Response, NextFunction } from 'express';
 import {
   validateSearchOwnership,
+  validateWorkspaceAccess,
   validateIdeaOwnership,
   validateUserProfileAccess,
   validateSessionOwnership,
@@ -11,6 +12,7 @@ import {
 } from '../resourceOwnership';
 import { storage } from '../../storage';
 import { AuthorizationService } from '../../services/authorizationService';
+import { workspaceService } from '../../services/workspaceService';
 import { AppError } from '../errorHandler';
 
 // Mock dependencies
@@ -28,6 +30,13 @@ vi.mock('../../services/authorizationService', () => ({
   }
 }));
 
+vi.mock('../../services/workspaceService', () => ({
+  workspaceService: {
+    getResource: vi.fn(),
+    canAccess: vi.fn()
+  }
+}));
+
 vi.mock('../../services/sessionManager', () => ({
   sessionManager: {
     getSessionById: vi.fn()
@@ -147,6 +156,53 @@ describe('Resource Ownership Middleware', () => {
     });
   });
 
+  describe('validateWorkspaceAccess', () => {
+    it('should attach a team resource the user can access', async () => {
+      const mockPlan = { id: 3, userId: 2, teamId: 5, title: 'Launch' };
+      mockReq.user = { id: 1 } as any;
+      mockReq.params = { planId: '3' };
+      vi.mocked(workspaceService.getResource).mockResolvedValue(mockPlan);
+      vi.mocked(workspaceService.canAccess).mockResolvedValue(true);
+
+      const middleware = validateWorkspaceAccess('plan', 'write', 'planId');
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(workspaceService.getResource).toHaveBeenCalledWith('plan', 3);
+      expect(workspaceService.canAccess).toHaveBeenCalledWith(mockReq.user, mockPlan, 'write');
+      expect(mockReq.resource).toEqual(mockPlan);
+      expect(mockReq.resourceOwner).toBe(2);
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should hide resources the user cannot read', async () => {
+      mockReq.user = { id: 1 } as any;
+      mockReq.params = { id: '3' };
+      vi.mocked(workspaceService.getResource).mockResolvedValue({ id: 3, userId: 2, teamId: 5 });
+      vi.mocked(workspaceService.canAccess).mockResolvedValue(false);
+
+      const middleware = validateWorkspaceAccess('search', 'read');
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'RESOURCE_NOT_FOUND' })
+      );
+    });
+
+    it('should deny writes when the team role only allows reading', async () => {
+      mockReq.user = { id: 1 } as any;
+      mockReq.params = { id: '3' };
+      vi.mocked(workspaceService.getResource).mockResolvedValue({ id: 3, userId: 2, teamId: 5 });
+      vi.mocked(workspaceService.canAccess).mockImplementation(async (_user, _resource, operation) => operation === 'read');
+
+      const middleware = validateWorkspaceAccess('project', 'write');
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'RESOURCE_ACCESS_DENIED' })
+      );
+    });
+  });
+
   describe('validateIdeaOwnership', () => {
     it('should return error when user is not authenticated', async () => {
       mockReq.user = undefined;
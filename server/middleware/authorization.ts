@@ -1,5 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
-import { AuthorizationService, Permission, UserRole } from '../services/authorizationService';
+import { AuthorizationService, Permission, TeamPermission, UserRole } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
 import { AppError } from './errorHandler';
 
 /**
@@ -420,7 +421,8 @@ export const requireRole = (requiredRole: UserRole) => {
  * Middleware factory to check team membership and permissions
  * 
  * Creates middleware that validates if the user has access to a team with the specified permission level.
- * Super admins bypass team membership checks.
+ * Viewers can read, members can also write, and admins and owners can manage members.
+ * Sets req.teamRole to the user's role in the team. Super admins bypass team membership checks.
  * 
  * @param permission - Required permission level ('read', 'write', or 'admin')
  * @returns Express middleware function
@@ -458,21 +460,15 @@ export const requireTeamAccess = (permission: 'read' | 'write' | 'admin' = 'read
         return next();
       }
 
-      // TODO: Implement team membership checking
-      // This would require querying the teamMembers table
-      // For now, we'll implement basic logic
+      const requiredPermission = {
+        read: TeamPermission.VIEW,
+        write: TeamPermission.EDIT,
+        admin: TeamPermission.MANAGE_MEMBERS,
+      }[permission];
 
-      // This is a placeholder - in a real implementation, you'd check the database
-      // const teamMember = await getTeamMember(teamId, req.user.id);
-      // if (!teamMember) {
-      //   throw AppError.createForbiddenError('Not a member of this team', 'NOT_TEAM_MEMBER');
-      // }
-      
-      // Check permission level
-      // const hasPermission = checkTeamPermission(teamMember.role, permission);
-      // if (!hasPermission) {
-      //   throw AppError.createForbiddenError('Insufficient team permissions', 'INSUFFICIENT_TEAM_PERMISSION');
-      // }
+      const role = await workspaceService.getTeamRole(teamId, req.user.id);
+      AuthorizationService.requireTeamPermission(role, requiredPermission);
+      req.teamRole = role!;
 
       next();
     } catch (error) {
@@ -2,7 +2,7 @@ import type { Request, Response, NextFunction } from 'express';
 import { AppError } from './errorHandler';
 import { db } from '../db';
 import { conversationMessages, conversations, users } from '@shared/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, and, isNull, sql } from 'drizzle-orm';
 
 /**
  * Conversation Rate Limiting Middleware
@@ -43,6 +43,22 @@ function getUserTier(user: any): UserTier {
   return 'free';
 }
 
+/**
+ * Questions asked about an analysis, counted across the main thread and its branches.
+ * Messages a branch copied from its parent were already counted when first asked.
+ */
+function analysisQuestionsWhere(analysisId: number, userId: number) {
+  return and(
+    sql`${conversationMessages.conversationId} IN (
+      SELECT ${conversations.id} FROM ${conversations}
+      WHERE ${conversations.analysisId} = ${analysisId} AND ${conversations.userId} = ${userId}
+        AND ${conversations.scope} = 'analysis'
+    )`,
+    eq(conversationMessages.role, 'user'),
+    isNull(conversationMessages.copiedFromMessageId)
+  );
+}
+
 /**
  * Check conversation rate limit for a specific analysis
  * Enforces per-analysis question limits based on user tier
@@ -80,7 +96,8 @@ export async function checkConversationRateLimit(
       .where(
         and(
           eq(conversations.analysisId, analysisId),
-          eq(conversations.userId, userId)
+          eq(conversations.userId, userId),
+          eq(conversations.scope, 'analysis')
         )
       )
       .limit(1);
@@ -90,18 +107,11 @@ export async function checkConversationRateLimit(
       return next();
     }
 
-    const conversationId = conversation[0].id;
-
-    // Count user messages in this conversation
+    // Count questions asked about this analysis
     const messageCount = await db
       .select({ count: sql<number>`count(*)` })
       .from(conversationMessages)
-      .where(
-        and(
-          eq(conversationMessages.conversationId, conversationId),
-          eq(conversationMessages.role, 'user')
-        )
-      );
+      .where(analysisQuestionsWhere(analysisId, userId));
 
     const userMessageCount = Number(messageCount[0]?.count || 0);
 
@@ -181,6 +191,7 @@ export async function checkDailyConversationLimit(
         and(
           eq(conversations.userId, userId),
           eq(conversationMessages.role, 'user'),
+          isNull(conversationMessages.copiedFromMessageId),
           sql`${conversationMessages.createdAt} >= ${today.toISOString()}`
         )
       );
@@ -302,7 +313,8 @@ export async function getRemainingQuestions(
     .where(
       and(
         eq(conversations.analysisId, analysisId),
-        eq(conversations.userId, userId)
+        eq(conversations.userId, userId),
+        eq(conversations.scope, 'analysis')
       )
     )
     .limit(1);
@@ -316,18 +328,11 @@ export async function getRemainingQuestions(
     };
   }
 
-  const conversationId = conversation[0].id;
-
-  // Count user messages in this conversation
+  // Count questions asked about this analysis
   const messageCount = await db
     .select({ count: sql<number>`count(*)` })
     .from(conversationMessages)
-    .where(
-      and(
-        eq(conversationMessages.conversationId, conversationId),
-        eq(conversationMessages.role, 'user')
-      )
-    );
+    .where(analysisQuestionsWhere(analysisId, userId));
 
   const userMessageCount = Number(messageCount[0]?.count || 0);
   const remaining = Math.max(0, limits.questionsPerAnalysis - userMessageCount);
@@ -373,6 +378,7 @@ export async function getDailyRemainingQuestions(
       and(
         eq(conversations.userId, userId),
         eq(conversationMessages.role, 'user'),
+        isNull(conversationMessages.copiedFromMessageId),
         sql`${conversationMessages.createdAt} >= ${today.toISOString()}`
       )
     );
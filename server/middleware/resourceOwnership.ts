@@ -1,6 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
 import { AuthorizationService } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
+import type { WorkspaceResourceType } from '@shared/schema';
 import { AppError } from './errorHandler';
 
 /**
@@ -41,6 +43,52 @@ export const validateSearchOwnership = (operation: 'read' | 'write' | 'delete' =
   };
 };
 
+/**
+ * Middleware to load a search, plan, project or conversation and validate access to it
+ * Allows the owner and members of the resource's team workspace whose role grants the operation
+ */
+export const validateWorkspaceAccess = (
+  type: WorkspaceResourceType,
+  operation: 'read' | 'write' | 'delete' = 'read',
+  idParam: string = 'id'
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      return next(AppError.createAuthenticationError('Authentication required', 'AUTH_REQUIRED'));
+    }
+
+    const resourceId = parseInt(req.params[idParam] || '0');
+
+    if (isNaN(resourceId)) {
+      return next(AppError.createValidationError(`Invalid ${type} ID`, 'INVALID_RESOURCE_ID'));
+    }
+
+    try {
+      const resource = await workspaceService.getResource(type, resourceId);
+
+      // Hide resources the user cannot see at all rather than revealing they exist
+      if (!resource || !(await workspaceService.canAccess(req.user, resource, 'read'))) {
+        return next(AppError.createNotFoundError(`${type} not found or access denied`, 'RESOURCE_NOT_FOUND'));
+      }
+
+      if (operation !== 'read' && !(await workspaceService.canAccess(req.user, resource, operation))) {
+        return next(AppError.createForbiddenError(
+          'Access denied: insufficient permissions for this resource',
+          'RESOURCE_ACCESS_DENIED'
+        ));
+      }
+
+      // Attach resource to request for use in route handler
+      req.resource = resource;
+      req.resourceOwner = resource.userId ?? undefined;
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Middleware to load and validate idea ownership
  */
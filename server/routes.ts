@@ -36,8 +36,8 @@ import captchaRoutes from "./routes/captcha";
 import privacyRoutes from "./routes/privacy";
 import { trackSession, monitorSessionSecurity } from "./middleware/sessionManagement";
 import { addUserAuthorization, requirePermission } from "./middleware/authorization";
-import { validateSearchOwnership, validateIdeaOwnership, enforceUserDataScope } from "./middleware/resourceOwnership";
-import { Permission } from "./services/authorizationService";
+import { validateWorkspaceAccess, validateIdeaOwnership, enforceUserDataScope } from "./middleware/resourceOwnership";
+import { AuthorizationService, Permission, TeamPermission } from "./services/authorizationService";
 import { trackSearchMiddleware, trackExportMiddleware, trackPageView } from "./middleware/trackingMiddleware";
 import { cacheStatsMiddleware, cacheStatsTracker } from "./middleware/cacheStats";
 import { 
@@ -65,7 +65,7 @@ import {
 import { insertSearchSchema, insertSearchResultSchema, validateIdeaSchema } from "@shared/schema";
 import { calculateIdeaScore, assessRisk } from "./services/ideaValidation";
 import { getAIValidationInsights, combineValidationScores } from "./services/aiIdeaValidation";
-import { generateFinancialModel, calculateBreakEvenAnalysis, generateScenarioAnalysis } from "./services/financialModeling";
+import { generateFinancialModel, calculateBreakEvenAnalysis, generateScenarioAnalysis, generateMonthlyFinancialModel } from "./services/financialModeling";
 import { exportResults, sendEmailReport } from "./routes/export";
 import analyticsRouter from "./routes/analytics";
 import analyticsAdminRouter from "./routes/analyticsAdmin";
@@ -87,9 +87,13 @@ import conversationLogsRouter from "./routes/conversationLogs";
 import conversationAlertsRouter from "./routes/conversationAlerts";
 import resourcesRouter from "./routes/resources";
 import adminResourcesRouter from "./routes/adminResources";
+import adminModerationRouter from "./routes/adminModeration";
 import plansRouter from "./routes/plans";
 import tasksRouter from "./routes/tasks";
+import notificationsRouter from "./routes/notifications";
+import workspacesRouter from "./routes/workspaces";
 import templatesRouter from "./routes/templates";
+import financialModelsRouter from "./routes/financialModels";
 import { config, configStatus } from "./config";
 import Stripe from "stripe";
 
@@ -294,19 +298,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin resource management routes
   app.use('/api/admin/resources', adminResourcesRouter);
   
+  // Admin moderation queue routes
+  app.use('/api/admin/moderation', adminModerationRouter);
+  
   // Action plan routes
   app.use('/api/plans', plansRouter);
   
   // Task routes
   app.use('/api/tasks', tasksRouter);
   
+  // Notification inbox routes
+  app.use('/api/notifications', notificationsRouter);
+  
+  // Team workspace routes
+  app.use('/api/workspaces', workspacesRouter);
+  
   // Template routes
   app.use('/api/templates', templatesRouter);
   
+  // Idea financial model and assumption set routes
+  app.use('/api/ideas', financialModelsRouter);
+  
   // Feature flag routes
   const featureFlagsRouter = await import('./routes/featureFlags');
   app.use('/api/feature-flags', featureFlagsRouter.default);
   
+  // AI budget routes
+  const aiBudgetsRouter = await import('./routes/aiBudgets');
+  app.use('/api/ai-budgets', aiBudgetsRouter.default);
+  
+  // Prompt template routes
+  const promptTemplatesRouter = await import('./routes/promptTemplates');
+  app.use('/api/prompt-templates', promptTemplatesRouter.default);
+  
   // Performance monitoring routes
   const performanceRouter = await import('./routes/performance');
   app.use('/api/performance', performanceRouter.default);
@@ -324,34 +348,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     console.log(`🔍 Starting search for query: "${parsedQuery.query}" by user ${userId}`);
     
-    // Generate cache key for this search query
-    const { cacheService, CacheNamespaces, CacheTTL } = await import("./services/cache");
-    const { log: logMessage } = await import("./vite");
-    const cacheKey = cacheService.generateKey(
-      CacheNamespaces.SEARCH_RESULTS, 
-      `${parsedQuery.query}:${JSON.stringify(filters || {})}`
-    );
-    
-    // Check cache first
-    const cachedGaps = await cacheService.get<GapAnalysisResult[]>(cacheKey);
-    let gaps: GapAnalysisResult[];
-    let cacheHit = false;
-    
-    if (cachedGaps) {
-      gaps = cachedGaps;
-      cacheHit = true;
-      console.log(`✅ Cache hit for search: ${parsedQuery.query}, found ${gaps.length} gaps`);
-      logMessage(`Cache hit for search: ${parsedQuery.query}`);
-    } else {
-      console.log(`⏳ Cache miss, calling analyzeGaps for: ${parsedQuery.query}`);
-      // Analyze gaps using Gemini with filters context
-      gaps = await analyzeGaps(parsedQuery.query);
-      console.log(`✅ analyzeGaps returned ${gaps.length} gaps`);
-      
-      // Cache the results for 1 hour
-      await cacheService.set(cacheKey, gaps, CacheTTL.LONG);
-      logMessage(`Cache miss for search: ${parsedQuery.query}`);
-    }
+    // analyzeGaps goes through the gap analysis cache, the only cache in front of the providers
+    let gaps = await analyzeGaps(parsedQuery.query, { userId, userTier: req.user!.plan });
+    console.log(`✅ analyzeGaps returned ${gaps.length} gaps`);
     
     // Apply filters if provided
     if (filters) {
@@ -378,23 +377,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
           innovationScore: Math.round(gap.innovationScore), // Ensure integer
           marketSize: gap.marketSize,
           gapReason: gap.gapReason,
+          confidenceScore: Math.round(gap.confidenceScore),
+          priority: gap.priority,
+          actionableRecommendations: gap.actionableRecommendations,
+          competitorAnalysis: gap.competitorAnalysis,
+          industryContext: gap.industryContext,
+          targetAudience: gap.targetAudience,
+          keyTrends: gap.keyTrends,
+          fieldProvenance: gap.provenance,
         })
       )
     );
     
     console.log(`✅ Created ${results.length} search results for search ID ${search.id}`);
     
-    sendSuccess(res, { search, results, _cacheHit: cacheHit });
+    sendSuccess(res, { search, results });
   }));
 
   // Get search by ID
-  app.get("/api/search/:id", apiRateLimit, jwtAuth, validateIdParam, validateSearchOwnership('read'), validateSearchData, asyncHandler(async (req, res) => {
-    const search = req.resource; // Loaded by validateSearchOwnership middleware
+  app.get("/api/search/:id", apiRateLimit, jwtAuth, validateIdParam, validateWorkspaceAccess('search', 'read'), validateSearchData, asyncHandler(async (req, res) => {
+    const search = req.resource; // Loaded by validateWorkspaceAccess middleware
     sendSuccess(res, search);
   }));
 
   // Get search results
-  app.get("/api/search/:id/results", apiRateLimit, jwtAuth, validateIdParam, validateSearchOwnership('read'), validateSearchData, asyncHandler(async (req, res) => {
+  app.get("/api/search/:id/results", apiRateLimit, jwtAuth, validateIdParam, validateWorkspaceAccess('search', 'read'), validateSearchData, asyncHandler(async (req, res) => {
     const searchId = parseInt(req.params.id);
     const results = await storage.getSearchResults(searchId);
     sendSuccess(res, results);
@@ -437,7 +444,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   // Get search history
+  // Pass teamId to list a team workspace's searches instead of the user's own
   app.get("/api/searches", apiRateLimit, jwtAuth, enforceUserDataScope, validatePagination, validateSearchData, asyncHandler(async (req, res) => {
+    if (req.query.teamId !== undefined) {
+      const teamId = parseInt(req.query.teamId as string);
+      if (isNaN(teamId)) {
+        throw AppError.createValidationError('Invalid team ID', 'INVALID_TEAM_ID');
+      }
+
+      const { workspaceService } = await import("./services/workspaceService");
+      const role = await workspaceService.getTeamRole(teamId, req.user!.id);
+      AuthorizationService.requireTeamPermission(role, TeamPermission.VIEW);
+
+      const { searches } = await import("@shared/schema");
+      const teamSearches = await db.select().from(searches).where(eq(searches.teamId, teamId));
+      return sendSuccess(res, teamSearches);
+    }
+
     const userId = req.query.userId as string;
     const searches = await storage.getSearches(userId);
     sendSuccess(res, searches);
@@ -448,14 +471,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const stats = cacheStatsTracker.getAllStats();
     const { cacheService } = await import("./services/cache");
     const cacheAvailable = cacheService.isAvailable();
+    const { aiCache } = await import("./services/ai-cache");
+    const gapAnalysis = await aiCache.getStats();
     
     sendSuccess(res, {
       cacheAvailable,
       statistics: stats,
+      gapAnalysis,
       timestamp: new Date().toISOString()
     });
   }));
 
+  // List cached gap analyses (admin only)
+  app.get("/api/cache/gap-analysis", apiRateLimit, jwtAuth, requirePermission(Permission.MANAGE_USERS), asyncHandler(async (req, res) => {
+    const { aiCache } = await import("./services/ai-cache");
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const entries = await aiCache.listEntries(limit);
+    sendSuccess(res, entries);
+  }));
+
+  // Invalidate cached gap analyses (admin only)
+  // Pass a query to drop its entry, or omit it to clear the whole gap analysis cache
+  app.post("/api/cache/gap-analysis/invalidate", apiRateLimit, jwtAuth, requirePermission(Permission.MANAGE_USERS), asyncHandler(async (req, res) => {
+    const { aiCache } = await import("./services/ai-cache");
+    const { query } = req.body;
+    
+    if (query !== undefined && (typeof query !== 'string' || !query.trim())) {
+      res.status(400).json({ success: false, error: 'query must be a non-empty string' });
+      return;
+    }
+    
+    const invalidated = query ? await aiCache.invalidate(query) : await aiCache.clear();
+    
+    sendSuccess(res, {
+      message: `Invalidated ${invalidated} gap analysis cache entries`,
+      invalidated
+    });
+  }));
+
+  // Invalidate a single cached gap analysis (admin only)
+  app.delete("/api/cache/gap-analysis/:id", apiRateLimit, jwtAuth, requirePermission(Permission.MANAGE_USERS), validateIdParam, asyncHandler(async (req, res) => {
+    const { aiCache } = await import("./services/ai-cache");
+    const deleted = await aiCache.invalidateById(parseInt(req.params.id));
+    
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Cache entry not found' });
+      return;
+    }
+    
+    sendSuccess(res, { message: 'Cache entry invalidated' });
+  }));
+
   // Clear cache (admin only)
   app.post("/api/cache/clear", apiRateLimit, jwtAuth, requirePermission(Permission.MANAGE_USERS), asyncHandler(async (req, res) => {
     const { cacheService } = await import("./services/cache");
@@ -539,7 +605,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Action Plan Generation (xAI powered)
-  app.post("/api/action-plan", aiRateLimit, jwtAuth, validateActionPlan, async (req, res) => {
+  app.post("/api/action-plan", aiRateLimit, jwtAuth, validateActionPlan, async (req, res, next) => {
     try {
       const { idea, validationScore, marketSize } = req.body;
       
@@ -548,11 +614,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`📋 Generating action plan for: ${idea.title}`);
-      const actionPlan = await generateActionPlan(idea, validationScore, marketSize);
+      const actionPlan = await generateActionPlan(
+        idea,
+        { userId: req.user!.id, userTier: req.user!.plan },
+        validationScore,
+        marketSize
+      );
       const summary = summarizeActionPlan(actionPlan);
       
       res.json({ actionPlan, summary });
     } catch (error) {
+      // AI budget blocks keep their 429 and error code
+      if (error instanceof AppError) {
+        return next(error);
+      }
       console.error('Action plan generation error:', error);
       res.status(500).json({ message: 'Failed to generate action plan' });
     }
@@ -700,7 +775,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get action plan for specific idea
-  app.get("/api/ideas/:id/action-plan", aiRateLimit, jwtAuth, validateIdParam, async (req, res) => {
+  app.get("/api/ideas/:id/action-plan", aiRateLimit, jwtAuth, validateIdParam, async (req, res, next) => {
     try {
       const ideaId = parseInt(req.params.id);
       const userId = req.user!.id;
@@ -713,6 +788,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`📋 Generating action plan for idea: ${idea.title}`);
       const actionPlan = await generateActionPlan(
         idea, 
+        { userId, userTier: req.user!.plan },
         idea.overallScore,
         undefined // marketSize would come from search results or validation
       );
@@ -720,6 +796,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ actionPlan, summary, idea });
     } catch (error) {
+      if (error instanceof AppError) {
+        return next(error);
+      }
       console.error('Action plan retrieval error:', error);
       res.status(500).json({ message: 'Failed to get action plan' });
     }
@@ -728,7 +807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Idea validation and financial modeling routes
   
   // Create and validate new idea with AI insights
-  app.post("/api/ideas", aiRateLimit, jwtAuth, requirePermission(Permission.CREATE_IDEA), validateIdea, validateSearchData, async (req, res) => {
+  app.post("/api/ideas", aiRateLimit, jwtAuth, requirePermission(Permission.CREATE_IDEA), validateIdea, validateSearchData, async (req, res, next) => {
     try {
       const ideaData = validateIdeaSchema.parse(req.body);
       const userId = String(req.user!.id);
@@ -739,7 +818,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Get AI-powered validation insights
       console.log(`🧠 Getting AI validation insights for: ${ideaData.title}`);
-      const aiInsights = await getAIValidationInsights(ideaData);
+      const aiInsights = await getAIValidationInsights(ideaData, { userId: req.user!.id, userTier: req.user!.plan });
       
       // Combine traditional and AI scores
       const combinedValidation = combineValidationScores(scoringResult, aiInsights);
@@ -771,6 +850,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         combinedValidation
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        return next(error);
+      }
       console.error('Idea validation error:', error);
       res.status(500).json({ message: 'Failed to validate idea' });
     }
@@ -811,9 +893,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const breakEvenAnalysis = calculateBreakEvenAnalysis(ideaData);
       const scenarioAnalysis = generateScenarioAnalysis(ideaData);
       
+      // Monthly model from the active assumption set (or idea-derived defaults)
+      const { financialAssumptionService } = await import("./services/financialAssumptionService");
+      const { assumptions } = await financialAssumptionService.getActiveAssumptions(idea);
+      const monthlyModel = generateMonthlyFinancialModel(assumptions);
+      
       res.json({
         idea,
         financialModel,
+        monthlyModel,
         breakEvenAnalysis,
         scenarioAnalysis
       });
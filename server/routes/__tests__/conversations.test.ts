@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import conversationsRouter from '../conversations';
+import { db } from '../../db';
+import { conversationService } from '../../services/conversationService';
+import { workspaceService } from '../../services/workspaceService';
+import { TeamPermission } from '../../services/authorizationService';
+import { errorHandlerMiddleware } from '../../middleware/errorHandler';
+import type { Conversation } from '@shared/schema';
+
+vi.mock('../../middleware/jwtAuth', () => ({
+  jwtAuth: (req: any, _res: any, next: any) => {
+    req.user = { id: 5, email: 'member@example.com', plan: 'pro' };
+    next();
+  },
+}));
+
+vi.mock('../../middleware/rateLimiting', () => ({
+  apiRateLimit: (_req: any, _res: any, next: any) => next(),
+  aiRateLimit: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../middleware/validation', () => ({
+  validateIdParam: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../middleware/conversationRateLimiting', () => ({
+  CONVERSATION_LIMITS: {},
+  checkConversationRateLimit: (_req: any, _res: any, next: any) => next(),
+  checkDailyConversationLimit: (_req: any, _res: any, next: any) => next(),
+  validateMessageLength: (_req: any, _res: any, next: any) => next(),
+  getRemainingQuestions: vi.fn(async () => ({ remaining: 10, limit: 10, unlimited: false })),
+}));
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/conversationService', () => ({
+  MAX_SCOPE_ANALYSES: 6,
+  conversationService: {
+    getConversationById: vi.fn(),
+    getConversationWithDetails: vi.fn(),
+    getScopeAnalyses: vi.fn(async () => []),
+    getProjectAnalysisIds: vi.fn(),
+    getOrCreateProjectConversation: vi.fn(),
+    updateComparison: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/workspaceService', () => ({
+  workspaceService: {
+    hasAccess: vi.fn(),
+    accessCondition: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/conversationLogger', () => ({
+  logConversationStart: vi.fn(),
+  logMessageSent: vi.fn(),
+  logConversationError: vi.fn(),
+  logRateLimit: vi.fn(),
+}));
+
+/**
+ * Query stand-in answering each select with the next batch of rows
+ */
+function selectRows(...batches: unknown[][]) {
+  for (const rows of batches) {
+    const chain: any = {
+      from: () => chain,
+      where: () => chain,
+      limit: async () => rows,
+    };
+    vi.mocked(db.select).mockReturnValueOnce(chain);
+  }
+}
+
+// A comparison a teammate moved into the team's workspace
+const teamConversation = {
+  id: 12,
+  analysisId: 10,
+  userId: 9,
+  teamId: 3,
+  scope: 'comparison',
+  parentConversationId: null,
+} as unknown as Conversation;
+
+describe('Multi-analysis conversation routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/api/conversations', conversationsRouter);
+    app.use(errorHandlerMiddleware);
+
+    vi.mocked(conversationService.getConversationById).mockResolvedValue(teamConversation);
+    vi.mocked(conversationService.getConversationWithDetails).mockResolvedValue({
+      conversation: teamConversation,
+      messages: [],
+      suggestions: [],
+      analytics: null,
+    } as any);
+  });
+
+  it("should open a teammate's conversation for a member whose role can view it", async () => {
+    selectRows([{ id: 5, subscriptionTier: 'pro' }]);
+    vi.mocked(workspaceService.hasAccess).mockResolvedValue(true);
+
+    const response = await request(app).get('/api/conversations/multi-analysis/12');
+
+    expect(response.status).toBe(200);
+    expect(workspaceService.hasAccess).toHaveBeenCalledWith(5, teamConversation, TeamPermission.VIEW);
+  });
+
+  it('should hide the conversation from users without access', async () => {
+    selectRows([{ id: 5, subscriptionTier: 'pro' }]);
+    vi.mocked(workspaceService.hasAccess).mockResolvedValue(false);
+
+    const response = await request(app).get('/api/conversations/multi-analysis/12');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should need a role that can edit to change the conversation', async () => {
+    selectRows([{ id: 5, subscriptionTier: 'pro' }]);
+    vi.mocked(workspaceService.hasAccess).mockResolvedValue(false);
+
+    const response = await request(app).put('/api/conversations/multi-analysis/12').send({ title: 'Renamed' });
+
+    expect(response.status).toBe(404);
+    expect(workspaceService.hasAccess).toHaveBeenCalledWith(5, teamConversation, TeamPermission.EDIT);
+    expect(conversationService.updateComparison).not.toHaveBeenCalled();
+  });
+
+  it('should start a conversation about a team project the member can edit', async () => {
+    const project = { id: 4, userId: 9, teamId: 3, name: 'Clinic booking' };
+    selectRows([{ id: 5, subscriptionTier: 'pro' }], [project]);
+    vi.mocked(workspaceService.hasAccess).mockResolvedValue(true);
+    vi.mocked(conversationService.getProjectAnalysisIds).mockResolvedValue([10, 11]);
+    vi.mocked(conversationService.getOrCreateProjectConversation).mockResolvedValue({
+      ...teamConversation,
+      scope: 'project',
+      projectId: 4,
+    } as Conversation);
+
+    const response = await request(app).post('/api/conversations/multi-analysis').send({ projectId: 4 });
+
+    expect(response.status).toBe(201);
+    expect(workspaceService.hasAccess).toHaveBeenCalledWith(5, project, TeamPermission.EDIT);
+    expect(conversationService.getOrCreateProjectConversation).toHaveBeenCalledWith(4, 5, 'Clinic booking', [10, 11]);
+  });
+});
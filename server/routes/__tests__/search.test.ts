@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import searchRouter from '../search';
+import { conversationService } from '../../services/conversationService';
+
+vi.mock('../../middleware/auth', () => ({
+  requireAuth: (req: any, res: any, next: any) => {
+    req.user = { id: 5 };
+    next();
+  },
+}));
+
+vi.mock('../../db', () => ({
+  db: {},
+}));
+
+vi.mock('../../services/conversationService', () => ({
+  conversationService: {
+    searchMessages: vi.fn(),
+  },
+}));
+
+describe('Global search: conversation messages', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use('/api/search', searchRouter);
+
+    vi.mocked(conversationService.searchMessages).mockResolvedValue({
+      hits: [
+        {
+          messageId: 42,
+          conversationId: 3,
+          analysisId: 10,
+          analysisQuery: 'Appointment booking for vet clinics',
+          scope: 'analysis',
+          conversationTitle: null,
+          branchName: 'Main',
+          role: 'assistant',
+          snippet: 'Rural <mark>clinics</mark> book by phone',
+          position: 23,
+          rank: 0.6,
+          createdAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      total: 1,
+    });
+  });
+
+  it('should return matching messages with their snippet and a link to the message', async () => {
+    const response = await request(app).get('/api/search/global?q=clinics&type=conversation');
+
+    expect(response.status).toBe(200);
+    expect(response.body.results).toHaveLength(1);
+    expect(response.body.results[0]).toMatchObject({
+      type: 'conversation',
+      id: '42',
+      title: 'Appointment booking for vet clinics',
+      description: 'Rural <mark>clinics</mark> book by phone',
+      path: '/search-result/10?conversation=3&message=42&position=23',
+      metadata: { conversationId: 3, role: 'assistant', position: 23 },
+    });
+  });
+
+  it('should pass analysis, role and date filters to the message search', async () => {
+    await request(app).get(
+      '/api/search/global?q=pricing&type=conversation&analysisId=10&role=user&from=2025-01-01&to=not-a-date&pageSize=5&page=2'
+    );
+
+    expect(conversationService.searchMessages).toHaveBeenCalledWith(
+      5,
+      'pricing',
+      { analysisId: 10, role: 'user', from: '2025-01-01T00:00:00.000Z', to: undefined },
+      5,
+      5
+    );
+  });
+
+  it('should ignore an unknown role filter', async () => {
+    await request(app).get('/api/search/global?q=pricing&type=conversation&role=system');
+
+    expect(conversationService.searchMessages).toHaveBeenCalledWith(
+      5,
+      'pricing',
+      expect.objectContaining({ role: undefined }),
+      20,
+      0
+    );
+  });
+});
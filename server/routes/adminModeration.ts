@@ -0,0 +1,178 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { jwtAuth } from '../middleware/jwtAuth';
+import {
+  requirePermission,
+  addUserAuthorization,
+  logAuthorizationEvent
+} from '../middleware/authorization';
+import { AuthorizationService, Permission } from '../services/authorizationService';
+import { storage } from '../storage';
+import {
+  AppError,
+  asyncHandler,
+  sendSuccess
+} from '../middleware/errorHandler';
+import {
+  contentModerator,
+  type FlagActionResult
+} from '../services/conversations/contentModerator';
+import { flaggedContentStatusEnum, type FlaggedContent } from '@shared/schema';
+
+const router = Router();
+
+// Apply JWT auth and authorization to all moderation routes
+router.use(jwtAuth);
+router.use(addUserAuthorization);
+
+const listQuerySchema = z.object({
+  status: z.enum(flaggedContentStatusEnum).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  source: z.enum(['auto', 'report']).optional(),
+  assignedTo: z.union([z.literal('me'), z.literal('unassigned'), z.coerce.number().int().positive()]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const assignSchema = z.object({
+  // Omitted assigns the queue entry to the caller, null releases it
+  assigneeId: z.number().int().positive().nullable().optional(),
+});
+
+const reviewSchema = z.object({
+  action: z.enum(['approve', 'remove']),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Parse the :id route parameter
+ */
+function parseFlagId(req: Request): number {
+  const flagId = parseInt(req.params.id);
+  if (isNaN(flagId)) {
+    throw AppError.createValidationError('Invalid flagged content ID', 'INVALID_FLAG_ID');
+  }
+  return flagId;
+}
+
+/**
+ * Turn a failed queue action into the matching API error
+ */
+function requireFlag(result: FlagActionResult): FlaggedContent {
+  if (result.error === 'not_found') {
+    throw AppError.createNotFoundError('Flagged content not found', 'FLAG_NOT_FOUND');
+  }
+  if (result.error === 'not_pending' || !result.flag) {
+    throw AppError.createValidationError(
+      'Only pending flagged content can be changed',
+      'INVALID_STATUS'
+    );
+  }
+  return result.flag;
+}
+
+/**
+ * GET /api/admin/moderation/flags
+ * List flagged conversation content with per-status counts (admin only)
+ */
+router.get(
+  '/flags',
+  requirePermission(Permission.MANAGE_USERS),
+  logAuthorizationEvent('view_flagged_content'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = listQuerySchema.parse(req.query);
+
+    const [flags, counts] = await Promise.all([
+      contentModerator.getFlaggedContent({
+        ...query,
+        assignedTo: query.assignedTo === 'me' ? req.user!.id : query.assignedTo,
+      }),
+      contentModerator.getQueueCounts(),
+    ]);
+
+    sendSuccess(res, {
+      flags,
+      counts,
+      pagination: {
+        limit: query.limit,
+        offset: query.offset
+      }
+    });
+  })
+);
+
+/**
+ * GET /api/admin/moderation/flags/:id
+ * Get a single flagged content entry (admin only)
+ */
+router.get(
+  '/flags/:id',
+  requirePermission(Permission.MANAGE_USERS),
+  logAuthorizationEvent('view_flagged_content'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const flag = await contentModerator.getFlaggedContentById(parseFlagId(req));
+
+    if (!flag) {
+      throw AppError.createNotFoundError('Flagged content not found', 'FLAG_NOT_FOUND');
+    }
+
+    sendSuccess(res, flag);
+  })
+);
+
+/**
+ * POST /api/admin/moderation/flags/:id/assign
+ * Assign a pending entry to a reviewer (admin only)
+ */
+router.post(
+  '/flags/:id/assign',
+  requirePermission(Permission.MANAGE_USERS),
+  logAuthorizationEvent('assign_flagged_content'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const flagId = parseFlagId(req);
+    const { assigneeId } = assignSchema.parse(req.body);
+
+    if (assigneeId) {
+      const assignee = await storage.getUser(assigneeId.toString());
+      if (!assignee || !AuthorizationService.isAdmin(assignee)) {
+        throw AppError.createValidationError(
+          'Flagged content can only be assigned to an admin',
+          'INVALID_ASSIGNEE'
+        );
+      }
+    }
+
+    const result = await contentModerator.assignFlaggedContent(
+      flagId,
+      assigneeId === undefined ? req.user!.id : assigneeId,
+      req.user!.id
+    );
+    const flag = requireFlag(result);
+
+    sendSuccess(res, flag, flag.assignedTo ? 'Flagged content assigned' : 'Flagged content unassigned');
+  })
+);
+
+/**
+ * POST /api/admin/moderation/flags/:id/review
+ * Approve or remove flagged content (admin only)
+ */
+router.post(
+  '/flags/:id/review',
+  requirePermission(Permission.MANAGE_USERS),
+  logAuthorizationEvent('review_flagged_content'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const flagId = parseFlagId(req);
+    const { action, notes } = reviewSchema.parse(req.body);
+
+    const result = await contentModerator.reviewFlaggedContent(flagId, req.user!.id, action, notes);
+    const flag = requireFlag(result);
+
+    sendSuccess(res, {
+      flag,
+      resolvedDuplicates: result.resolvedDuplicates ?? 0
+    }, action === 'approve' ? 'Content approved' : 'Content removed');
+  })
+);
+
+export default router;
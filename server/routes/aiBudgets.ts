@@ -0,0 +1,184 @@
+/**
+ * AI Budgets API Routes
+ *
+ * Admin endpoints for monthly AI spend budgets and temporary overrides
+ */
+
+import { Router } from 'express';
+import { aiBudgetService } from '../services/aiBudgetService';
+import { requireAuth } from '../middleware/auth';
+import { requireAdmin } from '../middleware/authorization';
+import { logger } from '../config/logger';
+import { aiBudgetHardCapActionEnum, aiBudgetScopeEnum, type AIBudgetScope } from '@shared/schema';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const budgetTargetSchema = z.object({
+  scope: z.enum(aiBudgetScopeEnum),
+  id: z.coerce.number().int().positive(),
+});
+
+const upsertBudgetSchema = z.object({
+  monthlyLimitCents: z.number().int().min(0).max(100000000).nullable().optional(),
+  alertThresholds: z.array(z.number().int().min(1).max(100)).min(1).max(5).optional(),
+  hardCapAction: z.enum(aiBudgetHardCapActionEnum).optional(),
+});
+
+const overrideSchema = z.object({
+  limitCents: z.number().int().min(0).max(100000000),
+  expiresAt: z.string().datetime().nullable().optional(),
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * Parse the :scope/:id target of a budget request
+ */
+function parseTarget(params: Record<string, string>): { scope: AIBudgetScope; id: number } | null {
+  const validation = budgetTargetSchema.safeParse(params);
+  return validation.success ? validation.data : null;
+}
+
+/**
+ * GET /api/ai-budgets
+ * Get all configured budgets with this month's spend (Admin only)
+ */
+router.get('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const budgets = await aiBudgetService.listBudgets();
+    res.json({ success: true, data: budgets });
+  } catch (error) {
+    logger.error('Error fetching AI budgets', { error });
+    res.status(500).json({ success: false, error: 'Failed to fetch AI budgets' });
+  }
+});
+
+/**
+ * GET /api/ai-budgets/:scope/:id
+ * Get a user's or team's budget with this month's spend (Admin only)
+ */
+router.get('/:scope/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const target = parseTarget(req.params);
+    if (!target) {
+      return res.status(400).json({ success: false, error: 'Invalid budget scope or ID' });
+    }
+
+    const status = await aiBudgetService.getBudgetStatus(target.scope, target.id);
+    if (!status) {
+      return res.status(404).json({ success: false, error: `${target.scope === 'team' ? 'Team' : 'User'} not found` });
+    }
+
+    res.json({ success: true, data: status });
+  } catch (error) {
+    logger.error('Error fetching AI budget', { params: req.params, error });
+    res.status(500).json({ success: false, error: 'Failed to fetch AI budget' });
+  }
+});
+
+/**
+ * PUT /api/ai-budgets/:scope/:id
+ * Create or update a user's or team's budget (Admin only)
+ * A null monthlyLimitCents falls back to the tier default
+ */
+router.put('/:scope/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const target = parseTarget(req.params);
+    if (!target) {
+      return res.status(400).json({ success: false, error: 'Invalid budget scope or ID' });
+    }
+
+    const validation = upsertBudgetSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: validation.error.errors
+      });
+    }
+
+    if (!(await aiBudgetService.getBudgetStatus(target.scope, target.id))) {
+      return res.status(404).json({ success: false, error: `${target.scope === 'team' ? 'Team' : 'User'} not found` });
+    }
+
+    await aiBudgetService.upsertBudget(target.scope, target.id, validation.data, req.user!.id);
+    const status = await aiBudgetService.getBudgetStatus(target.scope, target.id);
+
+    res.json({ success: true, data: status });
+  } catch (error) {
+    logger.error('Error updating AI budget', { params: req.params, body: req.body, error });
+    res.status(500).json({ success: false, error: 'Failed to update AI budget' });
+  }
+});
+
+/**
+ * PUT /api/ai-budgets/:scope/:id/override
+ * Temporarily replace a budget's limit (Admin only)
+ * Without expiresAt the override lasts until it is removed
+ */
+router.put('/:scope/:id/override', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const target = parseTarget(req.params);
+    if (!target) {
+      return res.status(400).json({ success: false, error: 'Invalid budget scope or ID' });
+    }
+
+    const validation = overrideSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: validation.error.errors
+      });
+    }
+
+    if (validation.data.expiresAt && new Date(validation.data.expiresAt) <= new Date()) {
+      return res.status(400).json({ success: false, error: 'Override expiry must be in the future' });
+    }
+
+    if (!(await aiBudgetService.getBudgetStatus(target.scope, target.id))) {
+      return res.status(404).json({ success: false, error: `${target.scope === 'team' ? 'Team' : 'User'} not found` });
+    }
+
+    await aiBudgetService.setOverride(target.scope, target.id, validation.data, req.user!.id);
+    const status = await aiBudgetService.getBudgetStatus(target.scope, target.id);
+
+    logger.info('AI budget override set', {
+      scope: target.scope,
+      id: target.id,
+      limitCents: validation.data.limitCents,
+      adminId: req.user!.id,
+    });
+    res.json({ success: true, data: status });
+  } catch (error) {
+    logger.error('Error setting AI budget override', { params: req.params, body: req.body, error });
+    res.status(500).json({ success: false, error: 'Failed to set AI budget override' });
+  }
+});
+
+/**
+ * DELETE /api/ai-budgets/:scope/:id/override
+ * Remove a budget's override, restoring its limit (Admin only)
+ */
+router.delete('/:scope/:id/override', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const target = parseTarget(req.params);
+    if (!target) {
+      return res.status(400).json({ success: false, error: 'Invalid budget scope or ID' });
+    }
+
+    const budget = await aiBudgetService.clearOverride(target.scope, target.id, req.user!.id);
+    if (!budget) {
+      return res.status(404).json({ success: false, error: 'AI budget not found' });
+    }
+
+    const status = await aiBudgetService.getBudgetStatus(target.scope, target.id);
+    res.json({ success: true, data: status });
+  } catch (error) {
+    logger.error('Error removing AI budget override', { params: req.params, error });
+    res.status(500).json({ success: false, error: 'Failed to remove AI budget override' });
+  }
+});
+
+export default router;
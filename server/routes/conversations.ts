@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { jwtAuth } from '../middleware/jwtAuth';
 import { apiRateLimit, aiRateLimit } from '../middleware/rateLimiting';
 import { validateIdParam } from '../middleware/validation';
@@ -10,7 +10,9 @@ import {
   getRemainingQuestions,
   CONVERSATION_LIMITS,
 } from '../middleware/conversationRateLimiting';
-import { conversationService } from '../services/conversationService';
+import { conversationService, MAX_SCOPE_ANALYSES } from '../services/conversationService';
+import { TeamPermission } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
 import {
   logConversationStart,
   logMessageSent,
@@ -18,16 +20,333 @@ import {
   logRateLimit,
 } from '../services/conversationLogger';
 import { db } from '../db';
-import { searches, users, searchResults, conversations, conversationMessages } from '@shared/schema';
-import { eq, desc } from 'drizzle-orm';
+import {
+  searches,
+  users,
+  searchResults,
+  conversations,
+  conversationMessages,
+  projects,
+  type Conversation,
+  type ConversationMessage,
+  type ConversationToolCall,
+  type Resource,
+  type SearchResult
+} from '@shared/schema';
+import { eq, and, desc, inArray, isNull } from 'drizzle-orm';
 import { z } from 'zod';
 
 const router = Router();
 
+/**
+ * Resolve the conversation thread a request targets: the main thread for the analysis,
+ * or one of its branches when a branch ID is given
+ */
+async function resolveConversationThread(
+  analysisId: number,
+  userId: number,
+  branchId: number | undefined,
+  permission: TeamPermission
+): Promise<Conversation> {
+  if (branchId === undefined) {
+    return await conversationService.getOrCreateConversation(analysisId, userId);
+  }
+
+  const branch = await conversationService.getConversationById(branchId);
+  if (
+    !branch ||
+    branch.analysisId !== analysisId ||
+    !(await workspaceService.hasAccess(userId, branch, permission))
+  ) {
+    throw AppError.createNotFoundError('Conversation branch not found', 'BRANCH_NOT_FOUND');
+  }
+
+  return branch;
+}
+
+const branchIdSchema = z.coerce.number().int().positive().optional();
+
+/**
+ * Multi-analysis conversations cover a project's analyses or a hand-picked comparison.
+ * The per-analysis question allowance doesn't apply to them, so they need a paid plan.
+ */
+function assertMultiAnalysisTier(userTier: UserTier): void {
+  if (userTier === 'free') {
+    throw AppError.createAuthorizationError(
+      'Comparing several analyses in one conversation requires a Pro or Enterprise plan',
+      'UPGRADE_REQUIRED'
+    );
+  }
+}
+
+/**
+ * Load a project or comparison conversation the requesting user owns or reaches
+ * through a team role granting the permission
+ */
+async function loadMultiAnalysisConversation(req: Request, permission: TeamPermission) {
+  const conversationId = parseInt(req.params.conversationId);
+  const userId = req.user!.id;
+
+  const userTier = await getUserTier(userId);
+  assertMultiAnalysisTier(userTier);
+
+  const conversation = await conversationService.getConversationById(conversationId);
+  if (
+    !conversation ||
+    conversation.scope === 'analysis' ||
+    !(await workspaceService.hasAccess(userId, conversation, permission))
+  ) {
+    throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  return { conversation, userTier };
+}
+
+/**
+ * Check the user can ask about every analysis, returning them in the order given.
+ * Team analyses need a role that can edit, as for single-analysis conversations
+ */
+async function loadAccessibleAnalyses(analysisIds: number[], userId: number) {
+  const accessible = await db
+    .select()
+    .from(searches)
+    .where(and(
+      inArray(searches.id, analysisIds),
+      workspaceService.accessCondition(searches, userId, TeamPermission.EDIT)
+    ));
+
+  if (accessible.length !== new Set(analysisIds).size) {
+    throw AppError.createNotFoundError('Analysis not found', 'ANALYSIS_NOT_FOUND');
+  }
+
+  const byId = new Map(accessible.map(analysis => [analysis.id, analysis]));
+  return [...new Set(analysisIds)].map(id => byId.get(id)!);
+}
+
+const scopeAnalysisIdsSchema = z
+  .array(z.number().int().positive())
+  .min(2, 'Pick at least two analyses to compare')
+  .max(MAX_SCOPE_ANALYSES, `Up to ${MAX_SCOPE_ANALYSES} analyses can be compared at once`);
+
+/**
+ * GET /api/conversations/multi-analysis
+ * List the project and comparison conversations the user owns or can view in their teams'
+ * workspaces, with the analyses each covers
+ */
+router.get(
+  '/multi-analysis',
+  apiRateLimit,
+  jwtAuth,
+  asyncHandler(async (req, res) => {
+    const multiAnalysisConversations = await conversationService.getMultiAnalysisConversations(req.user!.id);
+
+    sendSuccess(res, { conversations: multiAnalysisConversations });
+  })
+);
+
+/**
+ * POST /api/conversations/multi-analysis
+ * Start a conversation across several analyses
+ * Body: projectId - cover the project's analyses, reusing the project's conversation if there is one;
+ *       or analysisIds - compare 2 to 6 analyses, with an optional title
+ */
+router.post(
+  '/multi-analysis',
+  apiRateLimit,
+  jwtAuth,
+  asyncHandler(async (req, res) => {
+    const userId = req.user!.id;
+
+    const createSchema = z.object({
+      projectId: z.number().int().positive().optional(),
+      analysisIds: scopeAnalysisIdsSchema.optional(),
+      title: z.string().trim().min(1).max(200).optional(),
+    }).refine(
+      body => (body.projectId === undefined) !== (body.analysisIds === undefined),
+      'Provide either a projectId or analysisIds'
+    );
+
+    const { projectId, analysisIds, title } = createSchema.parse(req.body);
+
+    assertMultiAnalysisTier(await getUserTier(userId));
+
+    let conversation: Conversation;
+
+    if (projectId !== undefined) {
+      const [project] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+
+      if (!project || !(await workspaceService.hasAccess(userId, project, TeamPermission.EDIT))) {
+        throw AppError.createNotFoundError('Project not found', 'PROJECT_NOT_FOUND');
+      }
+
+      const projectAnalysisIds = await conversationService.getProjectAnalysisIds(projectId);
+
+      if (projectAnalysisIds.length < 2) {
+        throw AppError.createValidationError(
+          'Add at least two analyses to the project to discuss them together',
+          'NOT_ENOUGH_ANALYSES'
+        );
+      }
+
+      conversation = await conversationService.getOrCreateProjectConversation(
+        projectId,
+        userId,
+        title ?? project.name,
+        projectAnalysisIds.slice(0, MAX_SCOPE_ANALYSES)
+      );
+    } else {
+      const analyses = await loadAccessibleAnalyses(analysisIds!, userId);
+
+      if (analyses.length < 2) {
+        throw AppError.createValidationError('Pick at least two different analyses to compare', 'NOT_ENOUGH_ANALYSES');
+      }
+
+      conversation = await conversationService.createComparison(
+        userId,
+        title ?? analyses.map(analysis => analysis.query).join(' vs ').slice(0, 200),
+        analyses.map(analysis => analysis.id)
+      );
+    }
+
+    logConversationStart(conversation.id, userId);
+
+    sendSuccess(res, {
+      conversation,
+      analyses: await conversationService.getScopeAnalyses(conversation),
+    }, 'Conversation started', 201);
+  })
+);
+
+/**
+ * GET /api/conversations/multi-analysis/:conversationId
+ * Get a project or comparison conversation with its messages, suggestions
+ * and the analyses it covers
+ */
+router.get(
+  '/multi-analysis/:conversationId',
+  apiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  asyncHandler(async (req, res) => {
+    const { conversation, userTier } = await loadMultiAnalysisConversation(req, TeamPermission.VIEW);
+
+    const details = await conversationService.getConversationWithDetails(conversation.id);
+    if (!details) {
+      throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
+    }
+
+    const remainingInfo = await getRemainingQuestions(req.user!.id, conversation.analysisId, userTier);
+
+    sendSuccess(res, {
+      conversation: details.conversation,
+      messages: details.messages,
+      suggestions: details.suggestions,
+      analytics: details.analytics,
+      analyses: await conversationService.getScopeAnalyses(conversation),
+      rateLimit: {
+        remaining: remainingInfo.remaining,
+        limit: remainingInfo.limit,
+        unlimited: remainingInfo.unlimited,
+        tier: userTier,
+      },
+    });
+  })
+);
+
+/**
+ * PUT /api/conversations/multi-analysis/:conversationId
+ * Rename a comparison or change the analyses it covers
+ * Project conversations follow the project's analyses and can only be renamed
+ */
+router.put(
+  '/multi-analysis/:conversationId',
+  apiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  asyncHandler(async (req, res) => {
+    const { conversation } = await loadMultiAnalysisConversation(req, TeamPermission.EDIT);
+
+    const updateSchema = z.object({
+      title: z.string().trim().min(1).max(200).optional(),
+      analysisIds: scopeAnalysisIdsSchema.optional(),
+    });
+
+    const { title, analysisIds } = updateSchema.parse(req.body);
+
+    if (analysisIds && conversation.scope !== 'comparison') {
+      throw AppError.createValidationError(
+        'Project conversations cover the project\'s analyses; add or remove them from the project instead',
+        'PROJECT_SCOPE_FIXED'
+      );
+    }
+
+    let scopeAnalysisIds: number[] | undefined;
+    if (analysisIds) {
+      scopeAnalysisIds = (await loadAccessibleAnalyses(analysisIds, req.user!.id)).map(analysis => analysis.id);
+
+      if (scopeAnalysisIds.length < 2) {
+        throw AppError.createValidationError('Pick at least two different analyses to compare', 'NOT_ENOUGH_ANALYSES');
+      }
+    }
+
+    const updated = await conversationService.updateComparison(conversation.id, {
+      title,
+      analysisIds: scopeAnalysisIds,
+    });
+
+    sendSuccess(res, {
+      conversation: updated,
+      analyses: await conversationService.getScopeAnalyses(updated),
+    }, 'Conversation updated');
+  })
+);
+
+/**
+ * POST /api/conversations/multi-analysis/:conversationId/messages
+ * Ask a question across the analyses a conversation covers
+ * The answer is built from every analysis in scope, each given an equal share of the context
+ */
+router.post(
+  '/multi-analysis/:conversationId/messages',
+  aiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  checkDailyConversationLimit,
+  validateMessageLength,
+  asyncHandler(async (req, res) => {
+    const turn = await prepareMultiAnalysisTurn(req);
+    await answerConversationTurn(res, turn);
+  })
+);
+
+/**
+ * POST /api/conversations/multi-analysis/:conversationId/messages/stream
+ * Ask a question across several analyses and stream the answer as Server-Sent Events,
+ * with the same events as POST /:analysisId/messages/stream
+ */
+router.post(
+  '/multi-analysis/:conversationId/messages/stream',
+  aiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  checkDailyConversationLimit,
+  validateMessageLength,
+  asyncHandler(async (req, res) => {
+    const turn = await prepareMultiAnalysisTurn(req);
+    await streamConversationTurn(res, turn);
+  })
+);
+
 /**
  * GET /api/conversations/:analysisId
  * Get or create conversation for an analysis
- * Returns conversation with messages and suggestions
+ * Returns conversation with messages and suggestions, plus the list of branches
+ * and the tool calls the assistant made or proposed
+ * Query: branchId - load a branch instead of the main thread
  */
 router.get(
   '/:analysisId',
@@ -38,7 +357,7 @@ router.get(
     const analysisId = parseInt(req.params.analysisId);
     const userId = req.user!.id;
 
-    // Verify the analysis exists and belongs to the user
+    // Verify the analysis exists and the user can see it
     const analysis = await db
       .select()
       .from(searches)
@@ -49,18 +368,16 @@ router.get(
       throw AppError.createNotFoundError('Analysis not found', 'ANALYSIS_NOT_FOUND');
     }
 
-    if (analysis[0].userId !== userId) {
+    if (!(await workspaceService.hasAccess(userId, analysis[0], TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this analysis',
         'UNAUTHORIZED_ACCESS'
       );
     }
 
-    // Get or create conversation
-    const conversation = await conversationService.getOrCreateConversation(
-      analysisId,
-      userId
-    );
+    // Get or create conversation, or the requested branch
+    const branchId = branchIdSchema.parse(req.query.branchId);
+    const conversation = await resolveConversationThread(analysisId, userId, branchId, TeamPermission.VIEW);
 
     // Log conversation start
     logConversationStart(conversation.id, userId);
@@ -84,11 +401,18 @@ router.get(
     const userTier = (user[0]?.subscriptionTier || user[0]?.plan || 'free') as 'free' | 'pro' | 'enterprise';
     const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
 
+    const branches = await conversationService.getBranches(analysisId, userId);
+
+    const { conversationToolService } = await import('../services/conversationToolService.js');
+    const toolCalls = await conversationToolService.getToolCalls(conversation.id);
+
     sendSuccess(res, {
       conversation: details.conversation,
       messages: details.messages,
+      toolCalls,
       suggestions: details.suggestions,
       analytics: details.analytics,
+      branches,
       rateLimit: {
         remaining: remainingInfo.remaining,
         limit: remainingInfo.limit,
@@ -99,333 +423,778 @@ router.get(
   })
 );
 
+type UserTier = 'free' | 'pro' | 'enterprise';
+
 /**
- * POST /api/conversations/:analysisId/messages
- * Send a message in a conversation
- * Validates input, checks rate limits, and returns AI response
+ * An analysis a turn is answered from
  */
-router.post(
-  '/:analysisId/messages',
-  aiRateLimit,
-  jwtAuth,
-  validateIdParam,
-  checkConversationRateLimit,
-  checkDailyConversationLimit,
-  validateMessageLength,
-  asyncHandler(async (req, res) => {
-    const analysisId = parseInt(req.params.analysisId);
-    const userId = req.user!.id;
+interface TurnAnalysis {
+  analysisId: number;
+  searchQuery: string;
+  analysisResults: SearchResult[];
+}
 
-    // Validate request body
-    const messageSchema = z.object({
-      content: z.string().min(1).max(2000, 'Message is too long'),
-    });
+/**
+ * A user question that has passed validation and been saved, ready to be answered
+ */
+interface ConversationTurn {
+  /** Analysis the conversation belongs to; the first analysis in scope for multi-analysis conversations */
+  analysisId: number;
+  userId: number;
+  userTier: UserTier;
+  /** Analyses in scope, one for a single-analysis conversation */
+  analyses: TurnAnalysis[];
+  conversation: Conversation;
+  userMessage: ConversationMessage;
+  sanitizedContent: string;
+  conversationHistory: ConversationMessage[];
+  /** Earlier answer to a near-identical question, reused instead of calling the AI */
+  cachedResponse?: { content: string; similarity: number };
+}
+
+const messageContentSchema = z.string().min(1).max(2000, 'Message is too long');
+
+/**
+ * Get a user's subscription tier
+ */
+async function getUserTier(userId: number): Promise<UserTier> {
+  const user = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
 
-    const { content } = messageSchema.parse(req.body);
+  if (user.length === 0) {
+    throw AppError.createNotFoundError('User not found', 'USER_NOT_FOUND');
+  }
 
-    // Verify the analysis exists and belongs to the user
-    const analysis = await db
+  return (user[0].subscriptionTier || user[0].plan || 'free') as UserTier;
+}
+
+/**
+ * Load the top results of each analysis a turn is answered from
+ */
+async function loadTurnAnalyses(analyses: Array<{ id: number; query: string }>): Promise<TurnAnalysis[]> {
+  return await Promise.all(analyses.map(async (analysis) => ({
+    analysisId: analysis.id,
+    searchQuery: analysis.query,
+    analysisResults: await db
       .select()
-      .from(searches)
-      .where(eq(searches.id, analysisId))
-      .limit(1);
+      .from(searchResults)
+      .where(eq(searchResults.searchId, analysis.id))
+      .orderBy(desc(searchResults.innovationScore))
+      .limit(5),
+  })));
+}
 
-    if (analysis.length === 0) {
-      throw AppError.createNotFoundError('Analysis not found', 'ANALYSIS_NOT_FOUND');
-    }
+/**
+ * Validate a message request and save the user's question.
+ * Shared by the JSON and streaming message routes.
+ * Body: branchId - send to a branch instead of the main thread;
+ *       editMessageId - replace an earlier question in a new branch and regenerate from there
+ */
+async function prepareConversationTurn(req: Request): Promise<ConversationTurn> {
+  const analysisId = parseInt(req.params.analysisId);
+  const userId = req.user!.id;
+
+  // Validate request body
+  const messageSchema = z.object({
+    content: messageContentSchema,
+    branchId: z.number().int().positive().optional(),
+    editMessageId: z.number().int().positive().optional(),
+  });
+
+  const { content, branchId, editMessageId } = messageSchema.parse(req.body);
+
+  // Verify the analysis exists and the user can use it
+  const analysis = await db
+    .select()
+    .from(searches)
+    .where(eq(searches.id, analysisId))
+    .limit(1);
+
+  if (analysis.length === 0) {
+    throw AppError.createNotFoundError('Analysis not found', 'ANALYSIS_NOT_FOUND');
+  }
+
+  // Asking about a team analysis needs a role that can edit
+  if (!(await workspaceService.hasAccess(userId, analysis[0], TeamPermission.EDIT))) {
+    throw AppError.createAuthorizationError(
+      'You do not have permission to access this analysis',
+      'UNAUTHORIZED_ACCESS'
+    );
+  }
 
-    if (analysis[0].userId !== userId) {
-      throw AppError.createAuthorizationError(
-        'You do not have permission to access this analysis',
-        'UNAUTHORIZED_ACCESS'
-      );
-    }
+  // Get user to check tier
+  const userTier = await getUserTier(userId);
 
-    // Get user to check tier
-    const user = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+  // Get or create conversation, or the branch the message was sent to
+  const conversation = await resolveConversationThread(analysisId, userId, branchId, TeamPermission.EDIT);
 
-    if (user.length === 0) {
-      throw AppError.createNotFoundError('User not found', 'USER_NOT_FOUND');
-    }
+  // Editing an earlier question branches off just before it, leaving the original thread intact
+  const editedMessage = editMessageId
+    ? await conversationService.getMessageById(editMessageId)
+    : null;
 
-    const userTier = (user[0].subscriptionTier || user[0].plan || 'free') as 'free' | 'pro' | 'enterprise';
+  if (editMessageId && (!editedMessage || editedMessage.conversationId !== conversation.id)) {
+    throw AppError.createNotFoundError('Message not found', 'MESSAGE_NOT_FOUND');
+  }
 
-    // Get or create conversation
-    const conversation = await conversationService.getOrCreateConversation(
-      analysisId,
-      userId
-    );
+  if (editedMessage && editedMessage.role !== 'user') {
+    throw AppError.createValidationError('Only your own questions can be edited', 'INVALID_MESSAGE_ROLE');
+  }
 
-    // Validate and sanitize input
-    const { inputValidator } = await import('../services/conversations/inputValidator.js');
-    const validationResult = await inputValidator.validateUserInput(
-      content,
-      userTier,
-      {
-        userId,
-        conversationId: conversation.id.toString(),
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      }
-    );
+  return await saveTurnQuestion(req, {
+    analysisId,
+    userId,
+    userTier,
+    conversation,
+    analyses: await loadTurnAnalyses(analysis),
+  }, content, editedMessage);
+}
 
-    if (!validationResult.isValid) {
-      throw AppError.createValidationError(
-        validationResult.reason || 'Invalid message content',
-        'INVALID_MESSAGE_CONTENT'
-      );
-    }
+/**
+ * Validate a message request to a project or comparison conversation and save the user's question
+ */
+async function prepareMultiAnalysisTurn(req: Request): Promise<ConversationTurn> {
+  const userId = req.user!.id;
+  const { content } = z.object({ content: messageContentSchema }).parse(req.body);
 
-    const sanitizedContent = validationResult.sanitized;
+  const { conversation, userTier } = await loadMultiAnalysisConversation(req, TeamPermission.EDIT);
+  const scopeAnalyses = await conversationService.getScopeAnalyses(conversation);
 
-    // Check for prompt injection
-    const { promptInjectionDetector } = await import('../services/conversations/promptInjectionDetector.js');
-    const injectionResult = await promptInjectionDetector.detectInjection(
-      sanitizedContent,
-      {
-        userId,
-        conversationId: conversation.id.toString(),
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      }
+  if (scopeAnalyses.length === 0) {
+    throw AppError.createValidationError(
+      'There are no analyses in this conversation to answer from',
+      'NO_ANALYSES_IN_SCOPE'
     );
+  }
 
-    if (injectionResult.isInjection) {
-      throw AppError.createValidationError(
-        'Your message contains content that violates our usage policy. Please rephrase your question.',
-        'PROMPT_INJECTION_DETECTED'
-      );
-    }
+  return await saveTurnQuestion(req, {
+    analysisId: conversation.analysisId,
+    userId,
+    userTier,
+    conversation,
+    analyses: await loadTurnAnalyses(scopeAnalyses),
+  }, content);
+}
 
-    // Moderate content
-    const { contentModerator } = await import('../services/conversations/contentModerator.js');
-    const moderationResult = await contentModerator.moderateUserInput(
-      sanitizedContent,
+/**
+ * Check a question and save it: input validation, prompt injection detection and moderation,
+ * then the lookup of an earlier answer to a near-identical question
+ */
+async function saveTurnQuestion(
+  req: Request,
+  turn: Pick<ConversationTurn, 'analysisId' | 'userId' | 'userTier' | 'conversation' | 'analyses'>,
+  content: string,
+  editedMessage: ConversationMessage | null = null
+): Promise<ConversationTurn> {
+  const { userId, userTier } = turn;
+  let conversation = turn.conversation;
+
+  // Validate and sanitize input
+  const { inputValidator } = await import('../services/conversations/inputValidator.js');
+  const validationResult = await inputValidator.validateUserInput(
+    content,
+    userTier,
+    {
       userId,
-      {
-        conversationId: conversation.id.toString(),
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      }
+      conversationId: conversation.id.toString(),
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    }
+  );
+
+  if (!validationResult.isValid) {
+    throw AppError.createValidationError(
+      validationResult.reason || 'Invalid message content',
+      'INVALID_MESSAGE_CONTENT'
     );
+  }
 
-    if (!moderationResult.approved) {
-      throw AppError.createValidationError(
-        'Your message contains inappropriate content. Please keep conversations professional and respectful.',
-        'CONTENT_MODERATION_FAILED'
-      );
+  const sanitizedContent = validationResult.sanitized;
+
+  // Check for prompt injection
+  const { promptInjectionDetector } = await import('../services/conversations/promptInjectionDetector.js');
+  const injectionResult = await promptInjectionDetector.detectInjection(
+    sanitizedContent,
+    {
+      userId,
+      conversationId: conversation.id.toString(),
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
     }
+  );
 
-    // Check if streaming is requested
-    const streamingEnabled = req.query.stream === 'true' && (userTier === 'pro' || userTier === 'enterprise');
+  if (injectionResult.isInjection) {
+    throw AppError.createValidationError(
+      'Your message contains content that violates our usage policy. Please rephrase your question.',
+      'PROMPT_INJECTION_DETECTED'
+    );
+  }
+
+  // Moderate content
+  const { contentModerator } = await import('../services/conversations/contentModerator.js');
+  const moderationResult = await contentModerator.moderateUserInput(
+    sanitizedContent,
+    userId,
+    {
+      conversationId: conversation.id.toString(),
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    }
+  );
 
-    // Add user message
-    const startTime = Date.now();
-    const userMessage = await conversationService.addUserMessage(
-      conversation.id,
-      sanitizedContent
+  if (!moderationResult.approved) {
+    throw AppError.createValidationError(
+      'Your message contains inappropriate content. Please keep conversations professional and respectful.',
+      'CONTENT_MODERATION_FAILED'
     );
+  }
 
-    // Log message sent
-    logMessageSent(conversation.id, userMessage.id, userId, {
-      messageLength: sanitizedContent.length,
-      tier: user[0].subscriptionTier,
+  if (editedMessage) {
+    conversation = await conversationService.createBranch(conversation, editedMessage.id, {
+      beforeMessage: true,
     });
+  }
+
+  // Add user message
+  const userMessage = await conversationService.addUserMessage(
+    conversation.id,
+    sanitizedContent
+  );
+
+  // Log message sent
+  logMessageSent(conversation.id, userMessage.id, userId, {
+    messageLength: sanitizedContent.length,
+    tier: userTier,
+  });
+
+  // Get conversation history
+  const conversationHistory = await conversationService.getRecentMessages(
+    conversation.id,
+    20 // Last 20 messages
+  );
+
+  // Check for similar queries (deduplication)
+  const { queryDeduplicationService } = await import('../services/queryDeduplicationService.js');
+  const similarityResult = await queryDeduplicationService.findSimilarQuery(
+    sanitizedContent,
+    conversationHistory,
+    0.9 // 90% similarity threshold
+  );
+
+  return {
+    ...turn,
+    conversation,
+    userMessage,
+    sanitizedContent,
+    conversationHistory,
+    ...(similarityResult.isSimilar && similarityResult.cachedResponse
+      ? { cachedResponse: { content: similarityResult.cachedResponse, similarity: similarityResult.similarity } }
+      : {}),
+  };
+}
 
-    // Get analysis data for context
-    const analysisResults = await db
-      .select()
-      .from(searchResults)
-      .where(eq(searchResults.searchId, analysisId))
-      .orderBy(desc(searchResults.innovationScore))
-      .limit(5);
+/**
+ * Build the context window and citable sources for answering a turn
+ */
+async function buildTurnContext(turn: ConversationTurn) {
+  const { analyses, conversation, conversationHistory, sanitizedContent, userMessage, userId, userTier } = turn;
+
+  const analysisData = analyses.map(({ searchQuery, analysisResults }) => ({
+    searchQuery,
+    innovationScore: analysisResults[0]?.innovationScore,
+    feasibilityRating: analysisResults[0]?.feasibility,
+    topGaps: analysisResults.map(r => ({
+      title: r.title,
+      description: r.description,
+      score: r.innovationScore,
+    })),
+  }));
+  const searchQueries = analyses.map(analysis => analysis.searchQuery).join(' ');
+
+  // Build context window, with the persisted memory standing in for older exchanges
+  const { conversationMemoryService } = await import('../services/conversationMemoryService.js');
+  const memory = await conversationMemoryService.getMemory(conversation.id);
+
+  // Offer the gaps, matching library resources and earlier messages as citable sources
+  const { buildCitationSources } = await import('../services/citationService.js');
+  let matchedResources: Resource[] = [];
+  try {
+    const { resourceMatchingService } = await import('../services/resourceMatchingService.js');
+    matchedResources = (await resourceMatchingService.matchResourcesToStep(
+      'conversation',
+      `${searchQueries} ${sanitizedContent}`,
+      'research',
+      '',
+      3
+    )).filter(resource => userTier !== 'free' || !resource.isPremium);
+  } catch (error) {
+    console.error('Failed to match resources for citations:', error);
+  }
+
+  const citationSources = buildCitationSources({
+    searchResults: analyses.flatMap(analysis => analysis.analysisResults),
+    resources: matchedResources,
+    messages: conversationHistory.filter(message => message.id !== userMessage.id),
+  });
+
+  const { contextWindowManager } = await import('../services/contextWindowManager.js');
+  const contextWindow = await contextWindowManager.buildContext(
+    analysisData.length === 1 ? analysisData[0] : analysisData,
+    conversationHistory,
+    sanitizedContent, // Current query
+    8000, // Max tokens
+    { memory, citationSources, promptSubject: { userId, userTier } }
+  );
+
+  // Price the turn against the user's and their teams' AI budgets before calling the model:
+  // the answer plus any tool selection rounds, each assumed to use the full output allowance
+  const useTools = conversation.scope === 'analysis';
+  const { aiBudgetService, createBudgetExceededError } = await import('../services/aiBudgetService.js');
+  const { getDefaultConfig } = await import('../services/geminiConversationService.js');
+  const { MAX_TOOL_ROUNDS } = await import('../services/conversationToolService.js');
+  const budget = await aiBudgetService.checkBudget(turn.userId, userTier, {
+    inputTokens: contextWindow.totalTokens,
+    maxOutputTokens: getDefaultConfig().maxOutputTokens!,
+    calls: useTools ? 1 + MAX_TOOL_ROUNDS : 1,
+  }, { feature: 'conversation_answer', conversationId: conversation.id });
+
+  if (budget.action === 'block') {
+    throw createBudgetExceededError(budget);
+  }
+
+  const model = budget.model;
+  const degraded = budget.action === 'degrade';
+
+  // Let the assistant look things up or propose changes before it answers.
+  // Tools act on a single analysis, so they are not offered when comparing several
+  let toolCalls: ConversationToolCall[] = [];
+  try {
+    if (useTools) {
+      const { conversationToolService } = await import('../services/conversationToolService.js');
+      const toolPromptTokens = contextWindow.totalTokens;
+      const toolRound = await conversationToolService.runToolRounds(contextWindow, {
+        userId: turn.userId,
+        userTier,
+        conversation,
+        searchQuery: analyses[0].searchQuery,
+        model,
+      });
 
-    const analysisData = {
-      searchQuery: analysis[0].query,
-      innovationScore: analysisResults[0]?.innovationScore,
-      feasibilityRating: analysisResults[0]?.feasibility,
-      topGaps: analysisResults.map(r => ({
-        title: r.title,
-        description: r.description,
-        score: r.innovationScore,
-      })),
-    };
+      await recordTurnSpend(turn, 'conversation_tools', model, degraded, {
+        input: toolPromptTokens * (toolRound.modelCalls ?? 0),
+        output: await contextWindowManager.estimateTokens(
+          JSON.stringify(toolRound.toolCalls.map(call => ({ name: call.toolName, args: call.arguments })))
+        ),
+      });
 
-    // Get conversation history
-    const conversationHistory = await conversationService.getMessages(
-      conversation.id,
-      20, // Last 20 messages
-      0
-    );
+      toolCalls = toolRound.toolCalls;
+      if (toolRound.promptContext) {
+        contextWindow.toolResults = toolRound.promptContext;
+        contextWindow.totalTokens += await contextWindowManager.estimateTokens(toolRound.promptContext);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to run conversation tools:', error);
+  }
 
-    // Check for similar queries (deduplication)
-    const { queryDeduplicationService } = await import('../services/queryDeduplicationService.js');
-    const similarityResult = await queryDeduplicationService.findSimilarQuery(
-      sanitizedContent,
-      conversationHistory,
-      0.9 // 90% similarity threshold
-    );
+  return { contextWindow, citationSources, toolCalls, model, degraded, reservationId: budget.reservationId };
+}
 
-    // If similar query found, return cached response
-    if (similarityResult.isSimilar && similarityResult.cachedResponse) {
-      console.log(`🔄 Using cached response for similar query (${(similarityResult.similarity * 100).toFixed(1)}% match)`);
-      
-      const aiMessage = await conversationService.addAIResponse(
-        conversation.id,
-        similarityResult.cachedResponse,
-        {
-          processingTime: 0,
-          tokensUsed: {
-            input: 0,
-            output: 0,
-            total: 0,
-          },
-        }
-      );
+/**
+ * Record what a turn's AI calls cost against the user's budgets.
+ * Failures are logged rather than failing an answer that has already been generated
+ */
+async function recordTurnSpend(
+  turn: ConversationTurn,
+  feature: 'conversation_answer' | 'conversation_tools',
+  model: string,
+  degraded: boolean,
+  tokensUsed: { input: number; output: number }
+): Promise<void> {
+  if (tokensUsed.input === 0 && tokensUsed.output === 0) {
+    return;
+  }
+
+  try {
+    const { aiBudgetService } = await import('../services/aiBudgetService.js');
+    await aiBudgetService.recordSpend(turn.userTier, {
+      userId: turn.userId,
+      conversationId: turn.conversation.id,
+      feature,
+      model,
+      inputTokens: tokensUsed.input,
+      outputTokens: tokensUsed.output,
+      degraded,
+    });
+  } catch (error) {
+    console.error('Failed to record AI spend:', error);
+  }
+}
 
-      const details = await conversationService.getConversationWithDetails(
-        conversation.id
-      );
+/**
+ * Release the budget hold taken when the turn was priced, once its spend is recorded or it failed
+ */
+async function releaseTurnBudget(reservationId: number | undefined): Promise<void> {
+  if (reservationId === undefined) {
+    return;
+  }
+
+  try {
+    const { aiBudgetService } = await import('../services/aiBudgetService.js');
+    await aiBudgetService.releaseReservation(reservationId);
+  } catch (error) {
+    console.error('Failed to release AI budget reservation:', error);
+  }
+}
 
-      const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
-
-      return sendSuccess(res, {
-        userMessage,
-        aiMessage,
-        conversation: details?.conversation,
-        analytics: details?.analytics,
-        cached: true,
-        similarity: similarityResult.similarity,
-        rateLimit: {
-          remaining: remainingInfo.remaining,
-          limit: remainingInfo.limit,
-          unlimited: remainingInfo.unlimited,
-          tier: userTier,
-        },
-      });
-    }
+/**
+ * Link a turn's tool calls to its saved answer
+ */
+async function attachTurnToolCalls(
+  toolCalls: ConversationToolCall[],
+  aiMessage: ConversationMessage
+): Promise<ConversationToolCall[]> {
+  if (toolCalls.length === 0) {
+    return [];
+  }
+
+  const { conversationToolService } = await import('../services/conversationToolService.js');
+  return await conversationToolService.attachToMessage(toolCalls, aiMessage.id);
+}
 
-    // Build context window
-    const { contextWindowManager } = await import('../services/contextWindowManager.js');
-    const contextWindow = await contextWindowManager.buildContext(
-      analysisData,
-      conversationHistory,
-      sanitizedContent, // Current query
-      8000 // Max tokens
+/**
+ * Fold exchanges leaving the verbatim window into the memory without delaying the response
+ */
+async function refreshMemory(turn: ConversationTurn): Promise<void> {
+  const { conversationMemoryService } = await import('../services/conversationMemoryService.js');
+  conversationMemoryService.refreshIfNeeded(turn.conversation.id, {
+    userId: turn.userId,
+    userTier: turn.userTier,
+    conversationId: turn.conversation.id,
+  }).catch(error => {
+    console.error('Failed to refresh conversation memory:', error);
+  });
+}
+
+/**
+ * Save a turn's answer and cache it for deduplication
+ */
+async function saveTurnAnswer(
+  turn: ConversationTurn,
+  content: string,
+  metadata: Parameters<typeof conversationService.addAIResponse>[2]
+): Promise<ConversationMessage> {
+  const aiMessage = await conversationService.addAIResponse(turn.conversation.id, content, metadata);
+  await refreshMemory(turn);
+
+  // Cache query-response pair for deduplication
+  const { queryDeduplicationService } = await import('../services/queryDeduplicationService.js');
+  await queryDeduplicationService.cacheQueryResponse(
+    turn.sanitizedContent,
+    content,
+    turn.conversation.id
+  );
+
+  return aiMessage;
+}
+
+/**
+ * Answer a turn with a single JSON response
+ */
+async function answerConversationTurn(res: Response, turn: ConversationTurn): Promise<void> {
+  const { analysisId, conversation, userId, userMessage, userTier } = turn;
+
+  // If similar query found, return cached response
+  if (turn.cachedResponse) {
+    console.log(`🔄 Using cached response for similar query (${(turn.cachedResponse.similarity * 100).toFixed(1)}% match)`);
+    
+    const aiMessage = await saveTurnAnswer(turn, turn.cachedResponse.content, {
+      processingTime: 0,
+      tokensUsed: {
+        input: 0,
+        output: 0,
+        total: 0,
+      },
+    });
+
+    const details = await conversationService.getConversationWithDetails(
+      conversation.id
     );
 
-    if (streamingEnabled) {
-      // Set headers for SSE (Server-Sent Events)
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.flushHeaders();
+    const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
 
-      let fullContent = '';
-      let aiMessageId: number | null = null;
+    sendSuccess(res, {
+      userMessage,
+      aiMessage,
+      conversation: details?.conversation,
+      analytics: details?.analytics,
+      cached: true,
+      similarity: turn.cachedResponse.similarity,
+      rateLimit: {
+        remaining: remainingInfo.remaining,
+        limit: remainingInfo.limit,
+        unlimited: remainingInfo.unlimited,
+        tier: userTier,
+      },
+    });
+    return;
+  }
 
-      try {
-        // Generate streaming response
-        const { generateStreamingResponse } = await import('../services/geminiConversationService.js');
-        
-        const aiResponse = await generateStreamingResponse(
-          contextWindow,
-          (chunk: string) => {
-            fullContent += chunk;
-            // Send chunk to client
-            res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
-          }
-        );
+  const { contextWindow, citationSources, toolCalls, model, degraded, reservationId } = await buildTurnContext(turn);
 
-        // Save AI message to database
-        const aiMessage = await conversationService.addAIResponse(
-          conversation.id,
-          aiResponse.content,
-          {
-            processingTime: aiResponse.metadata.processingTime,
-            tokensUsed: aiResponse.metadata.tokensUsed,
-          }
-        );
+  // Non-streaming response
+  const { generateResponse, parseResponseMetadata } = await import('../services/geminiConversationService.js');
+  
+  let aiResponse: Awaited<ReturnType<typeof generateResponse>>;
+  try {
+    aiResponse = await generateResponse(contextWindow, { model }, undefined, {
+      userId,
+      conversationId: conversation.id.toString(),
+    });
+    await recordTurnSpend(turn, 'conversation_answer', model, degraded, aiResponse.metadata.tokensUsed);
+  } finally {
+    await releaseTurnBudget(reservationId);
+  }
+  const { citations } = parseResponseMetadata(aiResponse.content, citationSources);
+
+  const aiMessage = await saveTurnAnswer(turn, aiResponse.content, {
+    processingTime: aiResponse.metadata.processingTime,
+    tokensUsed: aiResponse.metadata.tokensUsed,
+    citations,
+    promptVersionId: contextWindow.promptVersionId,
+  });
+  const attachedToolCalls = await attachTurnToolCalls(toolCalls, aiMessage);
+
+  // Get updated conversation details
+  const details = await conversationService.getConversationWithDetails(
+    conversation.id
+  );
+
+  // Get remaining questions
+  const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
+
+  sendSuccess(res, {
+    userMessage,
+    aiMessage,
+    toolCalls: attachedToolCalls,
+    conversation: details?.conversation,
+    analytics: details?.analytics,
+    ...(degraded ? { degraded, model } : {}),
+    rateLimit: {
+      remaining: remainingInfo.remaining,
+      limit: remainingInfo.limit,
+      unlimited: remainingInfo.unlimited,
+      tier: userTier,
+    },
+  });
+}
+
+/**
+ * Answer a turn over Server-Sent Events.
+ *
+ * Events, each a `data:` line of JSON with a `type`:
+ * - start: the saved user message and the conversation it was added to
+ * - token: the next piece of the answer, released only after passing moderation
+ * - done (terminal): the saved answer's ID, tokens, processing time, cost, citations,
+ *   tool calls, follow-up suggestions and the remaining question allowance
+ * - error (terminal): the answer could not be completed; streamed text should be discarded.
+ *   `code` is AI_BUDGET_EXCEEDED when the user's or their team's monthly AI budget is used up
+ *
+ * If the client disconnects, generation stops and any partial answer is saved marked as cancelled.
+ */
+async function streamConversationTurn(res: Response, turn: ConversationTurn): Promise<void> {
+  const { analysisId, conversation, userId, userTier } = turn;
+  const abortController = new AbortController();
+
+  // Set headers for SSE (Server-Sent Events)
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const send = (event: Record<string, unknown>) => {
+    if (!res.writableEnded && !abortController.signal.aborted) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  };
 
-        aiMessageId = aiMessage.id;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
 
-        // Cache query-response pair for deduplication
-        await queryDeduplicationService.cacheQueryResponse(
-          sanitizedContent,
-          aiResponse.content,
-          conversation.id
-        );
+  send({ type: 'start', conversationId: conversation.id, userMessage: turn.userMessage });
 
-        // Send completion event
-        const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
-        res.write(`data: ${JSON.stringify({
-          type: 'complete',
-          messageId: aiMessage.id,
-          metadata: aiResponse.metadata,
-          rateLimit: {
-            remaining: remainingInfo.remaining,
-            limit: remainingInfo.limit,
-            unlimited: remainingInfo.unlimited,
-            tier: userTier,
-          },
-        })}\n\n`);
-
-        res.end();
-      } catch (error) {
-        console.error('Streaming error:', error);
-        res.write(`data: ${JSON.stringify({
-          type: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        })}\n\n`);
-        res.end();
-      }
+  let reservationId: number | undefined;
+
+  try {
+    let aiMessage: ConversationMessage;
+    let metadata: Record<string, unknown>;
+    let toolCalls: ConversationToolCall[] = [];
+
+    if (turn.cachedResponse) {
+      console.log(`🔄 Using cached response for similar query (${(turn.cachedResponse.similarity * 100).toFixed(1)}% match)`);
+
+      const tokensUsed = { input: 0, output: 0, total: 0 };
+      send({ type: 'token', content: turn.cachedResponse.content });
+      aiMessage = await saveTurnAnswer(turn, turn.cachedResponse.content, { processingTime: 0, tokensUsed });
+      metadata = { tokensUsed, processingTime: 0, cost: 0, cached: true, similarity: turn.cachedResponse.similarity };
     } else {
-      // Non-streaming response
-      const { generateResponse } = await import('../services/geminiConversationService.js');
-      
-      const aiResponse = await generateResponse(contextWindow);
-
-      const aiMessage = await conversationService.addAIResponse(
-        conversation.id,
-        aiResponse.content,
+      const turnContext = await buildTurnContext(turn);
+      const { contextWindow, citationSources } = turnContext;
+      reservationId = turnContext.reservationId;
+      const { generateStreamingResponse, parseResponseMetadata } = await import('../services/geminiConversationService.js');
+
+      const aiResponse = await generateStreamingResponse(
+        contextWindow,
+        (chunk: string) => send({ type: 'token', content: chunk }),
+        { model: turnContext.model },
+        undefined,
         {
-          processingTime: aiResponse.metadata.processingTime,
-          tokensUsed: aiResponse.metadata.tokensUsed,
+          signal: abortController.signal,
+          moderationContext: { userId, conversationId: conversation.id.toString() },
         }
       );
-
-      // Cache query-response pair for deduplication
-      await queryDeduplicationService.cacheQueryResponse(
-        sanitizedContent,
-        aiResponse.content,
-        conversation.id
+      await recordTurnSpend(
+        turn,
+        'conversation_answer',
+        turnContext.model,
+        turnContext.degraded,
+        aiResponse.metadata.tokensUsed
       );
+      await releaseTurnBudget(reservationId);
+      reservationId = undefined;
 
-      // Get updated conversation details
-      const details = await conversationService.getConversationWithDetails(
-        conversation.id
-      );
+      const { citations } = parseResponseMetadata(aiResponse.content, citationSources);
+      const cancelled = !!aiResponse.metadata.cancelled;
 
-      // Get remaining questions
-      const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
-
-      sendSuccess(res, {
-        userMessage,
-        aiMessage,
-        conversation: details?.conversation,
-        analytics: details?.analytics,
-        rateLimit: {
-          remaining: remainingInfo.remaining,
-          limit: remainingInfo.limit,
-          unlimited: remainingInfo.unlimited,
-          tier: userTier,
-        },
+      if (cancelled && !aiResponse.content) {
+        return;
+      }
+
+      aiMessage = await saveTurnAnswer(turn, aiResponse.content, {
+        processingTime: aiResponse.metadata.processingTime,
+        tokensUsed: aiResponse.metadata.tokensUsed,
+        citations,
+        promptVersionId: contextWindow.promptVersionId,
+        ...(cancelled ? { cancelled } : {}),
       });
+      toolCalls = await attachTurnToolCalls(turnContext.toolCalls, aiMessage);
+
+      if (cancelled) {
+        console.log(`⏹️ Streaming cancelled by client, saved partial answer ${aiMessage.id}`);
+        return;
+      }
+
+      const { usageTrackingService } = await import('../services/usageTrackingService.js');
+      const { calculateCostMicros } = await import('../services/aiBudgetService.js');
+      const { tokensUsed } = aiResponse.metadata;
+      metadata = {
+        ...aiResponse.metadata,
+        cost: turnContext.degraded
+          ? calculateCostMicros(turnContext.model, tokensUsed.input, tokensUsed.output) / 1_000_000
+          : usageTrackingService.calculateCost(tokensUsed),
+        citations,
+        ...(turnContext.degraded ? { degraded: true, model: turnContext.model } : {}),
+      };
     }
+
+    const suggestions = await conversationService.getSuggestedQuestions(conversation.id);
+    const remainingInfo = await getRemainingQuestions(userId, analysisId, userTier);
+
+    send({
+      type: 'done',
+      messageId: aiMessage.id,
+      conversationId: conversation.id,
+      aiMessage,
+      metadata,
+      toolCalls,
+      suggestions,
+      rateLimit: {
+        remaining: remainingInfo.remaining,
+        limit: remainingInfo.limit,
+        unlimited: remainingInfo.unlimited,
+        tier: userTier,
+      },
+    });
+  } catch (error) {
+    console.error('Streaming error:', error);
+    logConversationError(conversation.id, error instanceof Error ? error : new Error(String(error)), {
+      userId,
+      streaming: true,
+    });
+
+    const { ConversationAIError } = await import('../services/geminiConversationService.js');
+    send({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof ConversationAIError
+        ? error.type
+        : error instanceof AppError ? error.code : 'STREAMING_FAILED',
+    });
+  } finally {
+    // A turn that failed before its spend was recorded still gives back its hold
+    await releaseTurnBudget(reservationId);
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+}
+
+/**
+ * POST /api/conversations/:analysisId/messages
+ * Send a message in a conversation
+ * Validates input, checks rate limits, and returns AI response
+ * Body: branchId - send to a branch instead of the main thread;
+ *       editMessageId - replace an earlier question in a new branch and regenerate from there
+ * Query: stream=true - pro and enterprise users receive the answer as Server-Sent Events,
+ *        as from POST /:analysisId/messages/stream
+ */
+router.post(
+  '/:analysisId/messages',
+  aiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  checkConversationRateLimit,
+  checkDailyConversationLimit,
+  validateMessageLength,
+  asyncHandler(async (req, res) => {
+    const turn = await prepareConversationTurn(req);
+    const { userTier } = turn;
+
+    // Check if streaming is requested
+    const streamingEnabled = req.query.stream === 'true' && (userTier === 'pro' || userTier === 'enterprise');
+
+    if (streamingEnabled) {
+      return streamConversationTurn(res, turn);
+    }
+
+    await answerConversationTurn(res, turn);
+  })
+);
+
+/**
+ * POST /api/conversations/:analysisId/messages/stream
+ * Send a message and stream the answer as Server-Sent Events (start, token, done | error)
+ * Takes the same body and applies the same limits as POST /:analysisId/messages;
+ * validation failures are returned as regular JSON errors before the stream opens
+ */
+router.post(
+  '/:analysisId/messages/stream',
+  aiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  checkConversationRateLimit,
+  checkDailyConversationLimit,
+  validateMessageLength,
+  asyncHandler(async (req, res) => {
+    const turn = await prepareConversationTurn(req);
+    await streamConversationTurn(res, turn);
   })
 );
 
@@ -460,8 +1229,8 @@ router.get(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -522,8 +1291,8 @@ router.delete(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.DELETE))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to delete this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -546,6 +1315,60 @@ router.delete(
   })
 );
 
+/**
+ * POST /api/conversations/:conversationId/branches
+ * Fork a conversation at a message into a new branch
+ * The branch inherits the messages up to and including that message and keeps its own analytics
+ */
+router.post(
+  '/:conversationId/branches',
+  apiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  asyncHandler(async (req, res) => {
+    const conversationId = parseInt(req.params.conversationId);
+    const userId = req.user!.id;
+
+    const branchSchema = z.object({
+      fromMessageId: z.number().int().positive(),
+      name: z.string().trim().min(1).max(100).optional(),
+    });
+
+    const { fromMessageId, name } = branchSchema.parse(req.body);
+
+    // Get conversation to verify ownership
+    const conversation = await conversationService.getConversationById(conversationId);
+
+    if (!conversation) {
+      throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
+    }
+
+    if (!(await workspaceService.hasAccess(userId, conversation, TeamPermission.EDIT))) {
+      throw AppError.createAuthorizationError(
+        'You do not have permission to access this conversation',
+        'UNAUTHORIZED_ACCESS'
+      );
+    }
+
+    if (conversation.scope !== 'analysis') {
+      throw AppError.createValidationError(
+        'Conversations covering several analyses cannot be branched',
+        'MULTI_ANALYSIS_CONVERSATION'
+      );
+    }
+
+    const message = await conversationService.getMessageById(fromMessageId);
+    if (!message || message.conversationId !== conversationId) {
+      throw AppError.createNotFoundError('Message not found', 'MESSAGE_NOT_FOUND');
+    }
+
+    const branch = await conversationService.createBranch(conversation, fromMessageId, { name });
+    const branches = await conversationService.getBranches(conversation.analysisId, userId);
+
+    sendSuccess(res, { branch, branches }, 'Branch created', 201);
+  })
+);
+
 /**
  * GET /api/conversations/:conversationId/suggestions
  * Get suggested follow-up questions for a conversation
@@ -569,8 +1392,8 @@ router.get(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -613,8 +1436,8 @@ router.post(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.EDIT))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -660,7 +1483,8 @@ router.post(
     
     const generatedQuestions = await generateFollowUpQuestions(
       analysisData,
-      conversation.messages
+      conversation.messages,
+      { userId, userTier: await getUserTier(userId), conversationId }
     );
 
     // Prioritize questions
@@ -721,14 +1545,21 @@ router.post(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.EDIT))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to create variants for this conversation',
         'UNAUTHORIZED_ACCESS'
       );
     }
 
+    if (conversation.conversation.scope !== 'analysis') {
+      throw AppError.createValidationError(
+        'Variants can only be created from a single-analysis conversation',
+        'MULTI_ANALYSIS_CONVERSATION'
+      );
+    }
+
     // Get original analysis
     const originalAnalysis = await db
       .select()
@@ -740,30 +1571,12 @@ router.post(
       throw AppError.createNotFoundError('Original analysis not found', 'ANALYSIS_NOT_FOUND');
     }
 
-    // Create new search for the variant
-    const [variantSearch] = await db
-      .insert(searches)
-      .values({
-        query: modifiedQuery,
-        userId,
-        resultsCount: 0,
-        isFavorite: false,
-      })
-      .returning();
-
-    // Store modified parameters in a metadata field (we'll need to add this to schema or use a separate table)
-    // For now, we'll store it in the conversation's variantIds as a JSON string with metadata
-    
-    // Add variant ID to conversation
-    await conversationService.addVariant(
+    // Create the variant search and a conversation for it
+    const { variantSearch, variantConversation } = await conversationService.createVariant(
       conversationId,
-      `${variantSearch.id}:${JSON.stringify(modifiedParameters)}`
-    );
-
-    // Create a new conversation for the variant
-    const variantConversation = await conversationService.getOrCreateConversation(
-      variantSearch.id,
-      userId
+      userId,
+      modifiedQuery,
+      modifiedParameters
     );
 
     // TODO: Trigger gap analysis for the variant
@@ -803,8 +1616,8 @@ router.get(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -896,8 +1709,8 @@ router.get(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to access this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -1032,7 +1845,7 @@ router.get(
 /**
  * POST /api/conversations/messages/:messageId/report
  * Report inappropriate message content
- * Logs report for admin review and creates security alert
+ * Adds the message to the admin moderation queue and creates security alert
  */
 router.post(
   '/messages/:messageId/report',
@@ -1131,6 +1944,111 @@ router.post(
   })
 );
 
+/**
+ * Load a tool call the user may resolve, with the context its tool acts in
+ */
+async function loadPendingToolCall(req: Request) {
+  const toolCallId = parseInt(req.params.toolCallId);
+  const userId = req.user!.id;
+
+  const { conversationToolService } = await import('../services/conversationToolService.js');
+  const toolCall = await conversationToolService.getToolCallById(toolCallId);
+
+  if (!toolCall || toolCall.userId !== userId) {
+    throw AppError.createNotFoundError('Tool call not found', 'TOOL_CALL_NOT_FOUND');
+  }
+
+  if (toolCall.status !== 'pending') {
+    throw AppError.createValidationError(
+      `This action has already been ${toolCall.status}`,
+      'TOOL_CALL_NOT_PENDING'
+    );
+  }
+
+  const conversation = await conversationService.getConversationById(toolCall.conversationId);
+  if (!conversation) {
+    throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
+  }
+
+  const [analysis] = await db
+    .select()
+    .from(searches)
+    .where(eq(searches.id, conversation.analysisId))
+    .limit(1);
+
+  if (!analysis) {
+    throw AppError.createNotFoundError('Analysis not found', 'ANALYSIS_NOT_FOUND');
+  }
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return {
+    toolCall,
+    context: {
+      userId,
+      userTier: (user?.subscriptionTier || user?.plan || 'free') as UserTier,
+      conversation,
+      searchQuery: analysis.query,
+    },
+  };
+}
+
+/**
+ * POST /api/conversations/tool-calls/:toolCallId/confirm
+ * Run a change the assistant proposed (plan task, analysis variant)
+ * The outcome is recorded on the tool call and audited; a failed action returns status 'failed'
+ */
+router.post(
+  '/tool-calls/:toolCallId/confirm',
+  apiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  asyncHandler(async (req, res) => {
+    const { toolCall, context } = await loadPendingToolCall(req);
+
+    const { conversationToolService } = await import('../services/conversationToolService.js');
+    const resolved = await conversationToolService.confirmToolCall(toolCall, context, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+    if (!resolved) {
+      throw AppError.createConflictError('This action has already been handled', 'TOOL_CALL_NOT_PENDING');
+    }
+
+    sendSuccess(
+      res,
+      { toolCall: resolved },
+      resolved.status === 'executed' ? 'Action completed' : 'Action failed'
+    );
+  })
+);
+
+/**
+ * POST /api/conversations/tool-calls/:toolCallId/reject
+ * Decline a change the assistant proposed
+ */
+router.post(
+  '/tool-calls/:toolCallId/reject',
+  apiRateLimit,
+  jwtAuth,
+  validateIdParam,
+  asyncHandler(async (req, res) => {
+    const { toolCall } = await loadPendingToolCall(req);
+
+    const { conversationToolService } = await import('../services/conversationToolService.js');
+    const resolved = await conversationToolService.rejectToolCall(toolCall);
+    if (!resolved) {
+      throw AppError.createConflictError('This action has already been handled', 'TOOL_CALL_NOT_PENDING');
+    }
+
+    sendSuccess(res, { toolCall: resolved }, 'Action declined');
+  })
+);
+
 /**
  * GET /api/conversations/indicators
  * Get conversation indicators for user's searches
@@ -1155,7 +2073,11 @@ router.get(
     const userConversations = await db
       .select()
       .from(conversations)
-      .where(eq(conversations.userId, userId));
+      .where(and(
+        eq(conversations.userId, userId),
+        isNull(conversations.parentConversationId),
+        eq(conversations.scope, 'analysis')
+      ));
 
     // Build indicators map
     const indicators: Record<number, {
@@ -1230,8 +2152,8 @@ router.post(
       throw AppError.createNotFoundError('Conversation not found', 'CONVERSATION_NOT_FOUND');
     }
 
-    // Verify the conversation belongs to the user
-    if (conversation.conversation.userId !== userId) {
+    // Verify the user owns the conversation or it is in a team workspace they can use
+    if (!(await workspaceService.hasAccess(userId, conversation.conversation, TeamPermission.VIEW))) {
       throw AppError.createAuthorizationError(
         'You do not have permission to export this conversation',
         'UNAUTHORIZED_ACCESS'
@@ -0,0 +1,239 @@
+import { Router } from 'express';
+import { jwtAuth } from '../middleware/jwtAuth';
+import { asyncHandler, sendSuccess, AppError } from '../middleware/errorHandler';
+import { validateIdeaOwnership } from '../middleware/resourceOwnership';
+import { financialAssumptionService } from '../services/financialAssumptionService';
+import { applyAssumptionOverrides, generateMonthlyFinancialModel } from '../services/financialModeling';
+import { runMonteCarloSimulation } from '../services/financialSimulation';
+import {
+  financialAssumptionsSchema,
+  monteCarloOptionsSchema,
+  type FinancialAssumptions,
+  type Idea,
+} from '@shared/schema';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const assumptionOverridesSchema = financialAssumptionsSchema.extend({
+  pricing: financialAssumptionsSchema.shape.pricing.partial(),
+  funnel: financialAssumptionsSchema.shape.funnel.partial(),
+}).partial();
+
+const recomputeSchema = z.object({
+  setId: z.number().int().positive().optional(),
+  assumptions: assumptionOverridesSchema.optional(),
+});
+
+const simulateSchema = recomputeSchema.merge(monteCarloOptionsSchema);
+
+const createSetSchema = z.object({
+  name: z.string().min(1).max(100),
+  assumptions: assumptionOverridesSchema.optional(),
+  activate: z.boolean().optional(),
+});
+
+const updateSetSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  assumptions: assumptionOverridesSchema.optional(),
+});
+
+function parseSetId(value: string): number {
+  const setId = parseInt(value);
+  if (isNaN(setId)) {
+    throw AppError.createValidationError('Invalid assumption set ID', 'VAL_INVALID_ID');
+  }
+  return setId;
+}
+
+/**
+ * Merge edits onto a base set and re-validate the result as a whole,
+ * so cross-field bounds (e.g. hires starting past the horizon) still hold
+ */
+function resolveAssumptions(
+  base: FinancialAssumptions,
+  overrides?: z.infer<typeof assumptionOverridesSchema>
+) {
+  const merged = overrides ? applyAssumptionOverrides(base, overrides) : base;
+  const result = financialAssumptionsSchema.safeParse(merged);
+
+  if (!result.success) {
+    throw AppError.createValidationError('Invalid financial assumptions', 'VAL_INVALID_ASSUMPTIONS');
+  }
+
+  const lateHire = result.data.hiringPlan.find(hire => hire.startMonth > result.data.months);
+  if (lateHire) {
+    throw AppError.createValidationError(
+      `Hire "${lateHire.role}" starts after the ${result.data.months}-month horizon`,
+      'VAL_INVALID_ASSUMPTIONS'
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Load a saved set by ID, or the active assumptions when no ID is given
+ */
+async function resolveBaseAssumptions(idea: Idea, setId?: number): Promise<FinancialAssumptions> {
+  if (!setId) {
+    return (await financialAssumptionService.getActiveAssumptions(idea)).assumptions;
+  }
+
+  const set = await financialAssumptionService.getSet(idea.id, setId);
+  if (!set) {
+    throw AppError.createNotFoundError('Assumption set not found', 'ASSUMPTION_SET_NOT_FOUND');
+  }
+  return set.assumptions as FinancialAssumptions;
+}
+
+/**
+ * GET /api/ideas/:ideaId/financial-model
+ * Monthly model for the active assumption set, or for defaults derived from the idea
+ */
+router.get('/:ideaId/financial-model', jwtAuth, validateIdeaOwnership('read'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const { set, assumptions } = await financialAssumptionService.getActiveAssumptions(idea);
+
+  sendSuccess(res, {
+    assumptionSet: set,
+    model: generateMonthlyFinancialModel(assumptions),
+  });
+}));
+
+/**
+ * POST /api/ideas/:ideaId/financial-model/recompute
+ * What-if run: applies edits to a saved (or the active) set without persisting them
+ */
+router.post('/:ideaId/financial-model/recompute', jwtAuth, validateIdeaOwnership('read'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const data = recomputeSchema.parse(req.body);
+
+  const base = await resolveBaseAssumptions(idea, data.setId);
+  const assumptions = resolveAssumptions(base, data.assumptions);
+
+  sendSuccess(res, { model: generateMonthlyFinancialModel(assumptions) });
+}));
+
+/**
+ * POST /api/ideas/:ideaId/financial-model/simulate
+ * Monte Carlo run over a saved (or the active) set; the seed is echoed back
+ * so the same bands can be reproduced later
+ */
+router.post('/:ideaId/financial-model/simulate', jwtAuth, validateIdeaOwnership('read'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const data = simulateSchema.parse(req.body);
+
+  const base = await resolveBaseAssumptions(idea, data.setId);
+  const assumptions = resolveAssumptions(base, data.assumptions);
+
+  const simulation = runMonteCarloSimulation(assumptions, {
+    iterations: data.iterations,
+    seed: data.seed,
+    drivers: data.drivers,
+  });
+
+  sendSuccess(res, { assumptions, simulation });
+}));
+
+/**
+ * GET /api/ideas/:ideaId/assumption-sets
+ * List saved assumption sets for an idea
+ */
+router.get('/:ideaId/assumption-sets', jwtAuth, validateIdeaOwnership('read'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const sets = await financialAssumptionService.listSets(idea.id);
+
+  sendSuccess(res, { sets });
+}));
+
+/**
+ * POST /api/ideas/:ideaId/assumption-sets
+ * Save a new assumption set, starting from the active assumptions plus any edits
+ */
+router.post('/:ideaId/assumption-sets', jwtAuth, validateIdeaOwnership('write'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const data = createSetSchema.parse(req.body);
+
+  const { assumptions: base } = await financialAssumptionService.getActiveAssumptions(idea);
+  const assumptions = resolveAssumptions(base, data.assumptions);
+
+  const set = await financialAssumptionService.createSet(idea, req.user!.id, {
+    name: data.name,
+    assumptions,
+    activate: data.activate,
+  });
+
+  sendSuccess(res, {
+    set,
+    model: generateMonthlyFinancialModel(assumptions),
+  }, 'Assumption set created', 201);
+}));
+
+/**
+ * PUT /api/ideas/:ideaId/assumption-sets/:setId
+ * Edit a saved assumption set; editing the active set recomputes the idea
+ */
+router.put('/:ideaId/assumption-sets/:setId', jwtAuth, validateIdeaOwnership('write'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const setId = parseSetId(req.params.setId);
+  const data = updateSetSchema.parse(req.body);
+
+  const existing = await financialAssumptionService.getSet(idea.id, setId);
+  if (!existing) {
+    throw AppError.createNotFoundError('Assumption set not found', 'ASSUMPTION_SET_NOT_FOUND');
+  }
+
+  const assumptions = resolveAssumptions(
+    existing.assumptions as FinancialAssumptions,
+    data.assumptions
+  );
+
+  const set = await financialAssumptionService.updateSet(idea, setId, {
+    name: data.name,
+    assumptions,
+  });
+
+  sendSuccess(res, {
+    set,
+    model: generateMonthlyFinancialModel(assumptions),
+  }, 'Assumption set updated');
+}));
+
+/**
+ * POST /api/ideas/:ideaId/assumption-sets/:setId/activate
+ * Make a set drive the idea's stored break-even month and projections
+ */
+router.post('/:ideaId/assumption-sets/:setId/activate', jwtAuth, validateIdeaOwnership('write'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const setId = parseSetId(req.params.setId);
+
+  const set = await financialAssumptionService.activateSet(idea, setId);
+  if (!set) {
+    throw AppError.createNotFoundError('Assumption set not found', 'ASSUMPTION_SET_NOT_FOUND');
+  }
+
+  sendSuccess(res, {
+    set,
+    model: generateMonthlyFinancialModel(set.assumptions as FinancialAssumptions),
+  }, 'Assumption set activated');
+}));
+
+/**
+ * DELETE /api/ideas/:ideaId/assumption-sets/:setId
+ * Delete a saved assumption set; deleting the active one reverts the idea to the default assumptions
+ */
+router.delete('/:ideaId/assumption-sets/:setId', jwtAuth, validateIdeaOwnership('write'), asyncHandler(async (req, res) => {
+  const idea = req.resource as Idea;
+  const setId = parseSetId(req.params.setId);
+
+  const deleted = await financialAssumptionService.deleteSet(idea, setId);
+  if (!deleted) {
+    throw AppError.createNotFoundError('Assumption set not found', 'ASSUMPTION_SET_NOT_FOUND');
+  }
+
+  sendSuccess(res, { deleted: true }, 'Assumption set deleted');
+}));
+
+export default router;
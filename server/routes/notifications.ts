@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { jwtAuth } from '../middleware/jwtAuth';
+import { asyncHandler, sendSuccess, AppError } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const listNotificationsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  before: z.coerce.number().int().positive().optional(),
+  unreadOnly: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+/**
+ * Parse the :notificationId route parameter
+ */
+function parseNotificationId(value: string): number {
+  const notificationId = parseInt(value);
+  if (isNaN(notificationId) || notificationId <= 0) {
+    throw AppError.createValidationError('Invalid notification ID', 'VAL_INVALID_ID');
+  }
+  return notificationId;
+}
+
+/**
+ * GET /api/notifications
+ * List the user's notifications, newest first, with their unread count
+ * Pass the last notification ID as `before` to get the next page
+ */
+router.get('/', jwtAuth, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const options = listNotificationsSchema.parse(req.query);
+
+  const inbox = await notificationService.listNotifications(userId, options);
+
+  sendSuccess(res, inbox);
+}));
+
+/**
+ * GET /api/notifications/unread-count
+ * Get the number of unread notifications
+ */
+router.get('/unread-count', jwtAuth, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+
+  const unreadCount = await notificationService.getUnreadCount(userId);
+
+  sendSuccess(res, { unreadCount });
+}));
+
+/**
+ * POST /api/notifications/read-all
+ * Mark all of the user's notifications as read
+ */
+router.post('/read-all', jwtAuth, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+
+  const updated = await notificationService.markAllAsRead(userId);
+
+  sendSuccess(res, { updated, unreadCount: 0 });
+}));
+
+/**
+ * PATCH /api/notifications/:notificationId/read
+ * Mark a notification as read
+ */
+router.patch('/:notificationId/read', jwtAuth, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const notificationId = parseNotificationId(req.params.notificationId);
+
+  const notification = await notificationService.markAsRead(userId, notificationId);
+  if (!notification) {
+    throw AppError.createNotFoundError('Notification not found', 'NOTIFICATION_NOT_FOUND');
+  }
+
+  sendSuccess(res, notification);
+}));
+
+/**
+ * DELETE /api/notifications/:notificationId
+ * Delete a notification
+ */
+router.delete('/:notificationId', jwtAuth, asyncHandler(async (req, res) => {
+  const userId = req.user!.id;
+  const notificationId = parseNotificationId(req.params.notificationId);
+
+  const deleted = await notificationService.deleteNotification(userId, notificationId);
+  if (!deleted) {
+    throw AppError.createNotFoundError('Notification not found', 'NOTIFICATION_NOT_FOUND');
+  }
+
+  sendSuccess(res, { message: 'Notification deleted successfully' });
+}));
+
+export default router;
@@ -5,7 +5,10 @@ import { exportRateLimit } from '../middleware/rateLimiting';
 import { PlanService } from '../services/planService';
 import { TaskService } from '../services/taskService';
 import { planWebSocketService } from '../services/planWebSocketService';
+import { AuthorizationService } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
 import { z } from 'zod';
+import { createPlanVersionSchema, type ActionPlan, type PlanSchedule } from '@shared/schema';
 
 const router = Router();
 const planService = new PlanService();
@@ -33,6 +36,19 @@ const createTaskSchema = z.object({
   resources: z.array(z.string()).optional(),
   order: z.number().int().min(0),
   assigneeId: z.number().int().positive().optional(),
+  startDate: z.string().datetime().optional(),
+  dueDate: z.string().datetime().optional(),
+}).refine(data => !data.startDate || !data.dueDate || new Date(data.startDate) <= new Date(data.dueDate), {
+  message: 'Start date must be on or before the due date',
+  path: ['dueDate'],
+});
+
+const updatePhaseSchema = z.object({
+  name: z.string().min(2).max(100).optional(),
+  description: z.string().max(2000).optional(),
+  estimatedDuration: z.string().max(50).optional(),
+  startDate: z.string().datetime().nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
 });
 
 const updateTaskSchema = z.object({
@@ -49,11 +65,31 @@ const reorderTasksSchema = z.object({
   taskIds: z.array(z.number().int().positive()).min(1),
 });
 
+const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.union([z.literal('current'), z.coerce.number().int().positive()]).optional().default('current'),
+});
+
+const importSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.string().min(1).max(2_000_000),
+});
+
+const scheduleQuerySchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  hoursPerDay: z.coerce.number().min(1).max(24).optional(),
+  dayStartHour: z.coerce.number().int().min(0).max(23).optional(),
+  workingDays: z.string().regex(/^[0-6](,[0-6])*$/).optional(), // e.g. "1,2,3,4,5"
+  holidays: z.string().regex(/^\d{4}-\d{2}-\d{2}(,\d{4}-\d{2}-\d{2})*$/).optional(),
+  capacity: z.string().regex(/^\d+:\d+(\.\d+)?(,\d+:\d+(\.\d+)?)*$/).optional(), // e.g. "12:4,15:8"
+});
+
 /**
- * Middleware to verify plan ownership
- * Loads the plan and verifies the authenticated user owns it
+ * Middleware factory to verify plan access
+ * Loads the plan and verifies the authenticated user owns it, or has a role in
+ * the plan's team workspace that allows the operation
  */
-const verifyPlanOwnership = asyncHandler(async (req, res, next) => {
+const verifyPlanAccess = (operation: 'read' | 'write' | 'delete' = 'read') => asyncHandler(async (req, res, next) => {
   const planId = parseInt(req.params.planId);
   const userId = req.user!.id;
 
@@ -67,7 +103,8 @@ const verifyPlanOwnership = asyncHandler(async (req, res, next) => {
     throw AppError.createNotFoundError('Plan not found', 'PLAN_NOT_FOUND');
   }
 
-  if (plan.userId !== userId) {
+  const permission = AuthorizationService.getTeamPermissionForOperation(operation);
+  if (!(await workspaceService.hasAccess(userId, plan, permission))) {
     throw AppError.createAuthorizationError('Access denied', 'PLAN_ACCESS_DENIED');
   }
 
@@ -76,6 +113,18 @@ const verifyPlanOwnership = asyncHandler(async (req, res, next) => {
   if (next) next();
 });
 
+/**
+ * Verify a task in the plan can be assigned to the user: the plan owner, or a member of its team
+ */
+async function validateAssignee(plan: ActionPlan, assigneeId: number | null | undefined): Promise<void> {
+  if (assigneeId == null) {
+    return;
+  }
+  if (!(await workspaceService.isAssignable(plan, assigneeId))) {
+    throw AppError.createValidationError('Tasks can only be assigned to members of the plan\'s team', 'VAL_INVALID_ASSIGNEE');
+  }
+}
+
 /**
  * GET /api/plans/users/:userId/progress/summary
  * Get progress summary across all active plans for a user
@@ -170,7 +219,7 @@ router.post('/', jwtAuth, asyncHandler(async (req, res) => {
  * PATCH /api/plans/:planId
  * Update plan metadata
  */
-router.patch('/:planId', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.patch('/:planId', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const data = updatePlanSchema.parse(req.body);
 
@@ -183,7 +232,7 @@ router.patch('/:planId', jwtAuth, verifyPlanOwnership, asyncHandler(async (req,
  * GET /api/plans/:planId/tasks
  * Fetch all tasks for a plan
  */
-router.get('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.get('/:planId/tasks', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const userId = req.user!.id;
 
@@ -192,11 +241,21 @@ router.get('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (r
   sendSuccess(res, tasks);
 }));
 
+/**
+ * GET /api/plans/:planId/assignees
+ * List the people tasks in the plan can be assigned to
+ */
+router.get('/:planId/assignees', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
+  const assignees = await workspaceService.getAssignees((req as any).plan);
+
+  sendSuccess(res, assignees);
+}));
+
 /**
  * POST /api/plans/:planId/tasks
  * Create new task
  */
-router.post('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.post('/:planId/tasks', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const data = createTaskSchema.parse(req.body);
   const userId = req.user!.id;
@@ -212,6 +271,8 @@ router.post('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (
     throw AppError.createValidationError('Phase does not belong to this plan', 'VAL_PHASE_MISMATCH');
   }
 
+  await validateAssignee((req as any).plan, data.assigneeId);
+
   const task = await taskService.createTask({
     phaseId: data.phaseId,
     planId,
@@ -222,6 +283,8 @@ router.post('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (
     order: data.order,
     isCustom: true, // User-created tasks are always custom
     assigneeId: data.assigneeId || null,
+    startDate: data.startDate || null,
+    dueDate: data.dueDate || null,
   }, userId);
 
   // Broadcast task creation via WebSocket
@@ -234,11 +297,41 @@ router.post('/:planId/tasks', jwtAuth, verifyPlanOwnership, asyncHandler(async (
   sendSuccess(res, task, 'Task created successfully', 201);
 }));
 
+/**
+ * PATCH /api/plans/:planId/phases/:phaseId
+ * Update phase details and planned dates
+ */
+router.patch('/:planId/phases/:phaseId', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const phaseId = parseInt(req.params.phaseId);
+  const data = updatePhaseSchema.parse(req.body);
+
+  if (isNaN(phaseId)) {
+    throw AppError.createValidationError('Invalid phase ID', 'VAL_INVALID_ID');
+  }
+
+  const phase = await planService.getPhaseById(phaseId);
+
+  if (!phase || phase.planId !== planId) {
+    throw AppError.createNotFoundError('Phase not found', 'PHASE_NOT_FOUND');
+  }
+
+  const startDate = data.startDate !== undefined ? data.startDate : phase.startDate;
+  const dueDate = data.dueDate !== undefined ? data.dueDate : phase.dueDate;
+  if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+    throw AppError.createValidationError('Start date must be on or before the due date', 'VAL_DATE_ORDER');
+  }
+
+  const updatedPhase = await planService.updatePhase(phaseId, data);
+
+  sendSuccess(res, updatedPhase);
+}));
+
 /**
  * POST /api/plans/:planId/tasks/reorder
  * Reorder tasks within a phase
  */
-router.post('/:planId/tasks/reorder', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.post('/:planId/tasks/reorder', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const { taskIds, phaseId } = z.object({
     taskIds: z.array(z.number().int().positive()).min(1),
@@ -263,7 +356,7 @@ router.post('/:planId/tasks/reorder', jwtAuth, verifyPlanOwnership, asyncHandler
  * Apply a template to an existing plan
  * Warning: This will replace all existing phases and tasks
  */
-router.post('/:planId/apply-template', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.post('/:planId/apply-template', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const { templateId } = z.object({
     templateId: z.number().int().positive(),
@@ -274,6 +367,10 @@ router.post('/:planId/apply-template', jwtAuth, verifyPlanOwnership, asyncHandle
   const { TemplateService } = await import('../services/templateService');
   const templateService = new TemplateService();
 
+  // Template changes replace every phase and task, so keep a way back
+  const { planVersionService } = await import('../services/planVersionService');
+  await planVersionService.createAutoVersion(planId, userId, 'Before applying template');
+
   // Apply template to plan
   const updatedPlan = await templateService.applyTemplateToPlan(
     planId,
@@ -288,7 +385,7 @@ router.post('/:planId/apply-template', jwtAuth, verifyPlanOwnership, asyncHandle
  * GET /api/plans/:planId/progress/history
  * Get progress history for a plan
  */
-router.get('/:planId/progress/history', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.get('/:planId/progress/history', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const userId = req.user!.id;
   const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
@@ -306,7 +403,7 @@ router.get('/:planId/progress/history', jwtAuth, verifyPlanOwnership, asyncHandl
  * Get all dependencies for a plan
  * Returns a map of task ID to its prerequisites and dependents
  */
-router.get('/:planId/dependencies', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.get('/:planId/dependencies', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const userId = req.user!.id;
 
@@ -324,20 +421,65 @@ router.get('/:planId/dependencies', jwtAuth, verifyPlanOwnership, asyncHandler(a
   sendSuccess(res, dependencyObject);
 }));
 
+/**
+ * GET /api/plans/:planId/schedule
+ * Critical-path schedule with earliest/latest times, slack and projected finish
+ * Query: startDate, hoursPerDay, dayStartHour, workingDays, holidays, capacity
+ */
+router.get('/:planId/schedule', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const userId = req.user!.id;
+  const query = scheduleQuerySchema.parse(req.query);
+
+  const { scheduleService, DEFAULT_CALENDAR } = await import('../services/scheduleService');
+
+  const calendar = {
+    workingDays: query.workingDays ? query.workingDays.split(',').map(Number) : DEFAULT_CALENDAR.workingDays,
+    hoursPerDay: query.hoursPerDay ?? DEFAULT_CALENDAR.hoursPerDay,
+    dayStartHour: query.dayStartHour ?? DEFAULT_CALENDAR.dayStartHour,
+    holidays: query.holidays ? query.holidays.split(',') : [],
+  };
+
+  if (calendar.dayStartHour + calendar.hoursPerDay > 24) {
+    throw AppError.createValidationError('Working day must end by midnight', 'VAL_INVALID_CALENDAR');
+  }
+
+  const capacity: Record<number, number> = {};
+  query.capacity?.split(',').forEach(entry => {
+    const [assigneeId, hours] = entry.split(':').map(Number);
+    if (hours <= 0) {
+      throw AppError.createValidationError('Assignee capacity must be positive', 'VAL_INVALID_CAPACITY');
+    }
+    capacity[assigneeId] = Math.min(hours, calendar.hoursPerDay);
+  });
+
+  let startDate: Date | undefined;
+  if (query.startDate) {
+    startDate = new Date(`${query.startDate}T00:00:00Z`);
+    if (isNaN(startDate.getTime())) {
+      throw AppError.createValidationError('Invalid start date', 'VAL_INVALID_DATE');
+    }
+  }
+
+  const schedule = await scheduleService.getPlanSchedule(planId, userId, { startDate, calendar, capacity });
+
+  sendSuccess(res, schedule);
+}));
+
 /**
  * POST /api/plans/:planId/export
  * Export action plan to various formats
- * Supports: CSV, JSON, Markdown
+ * Supports: CSV, JSON, Markdown, iCalendar (ics), MS Project XML (msproject)
  * Rate limited to prevent abuse
  * Requirements: 7.1, 7.7
  */
-router.post('/:planId/export', exportRateLimit, jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.post('/:planId/export', exportRateLimit, jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
-  const plan = (req as any).plan; // Loaded by verifyPlanOwnership middleware
+  const plan = (req as any).plan; // Loaded by verifyPlanAccess middleware
 
   // Validate export request
   const exportSchema = z.object({
-    format: z.enum(['csv', 'json', 'markdown']),
+    format: z.enum(['csv', 'json', 'markdown', 'ics', 'msproject']),
     includeCompleted: z.boolean().optional().default(true),
     includeSkipped: z.boolean().optional().default(true),
   });
@@ -350,6 +492,19 @@ router.post('/:planId/export', exportRateLimit, jwtAuth, verifyPlanOwnership, as
   // Get plan with phases and tasks
   const phases = await planService.getPhasesWithTasks(planId);
 
+  // MS Project needs dependency links and scheduled dates for undated tasks
+  let dependencies: Map<number, number[]> | undefined;
+  let schedule: PlanSchedule | undefined;
+  if (format === 'msproject') {
+    const { dependencyService } = await import('../services/dependencyService');
+    const { scheduleService } = await import('../services/scheduleService');
+
+    const dependencyMap = await dependencyService.getPlanDependencies(planId, req.user!.id);
+    dependencies = new Map();
+    dependencyMap.forEach((value, taskId) => dependencies!.set(taskId, value.prerequisites));
+    schedule = await scheduleService.getPlanSchedule(planId, req.user!.id);
+  }
+
   // Generate export
   const exportBuffer = await planExportService.exportPlan(
     plan,
@@ -358,6 +513,8 @@ router.post('/:planId/export', exportRateLimit, jwtAuth, verifyPlanOwnership, as
       format,
       includeCompleted,
       includeSkipped,
+      dependencies,
+      schedule,
     }
   );
 
@@ -374,13 +531,162 @@ router.post('/:planId/export', exportRateLimit, jwtAuth, verifyPlanOwnership, as
   res.send(exportBuffer);
 }));
 
+/**
+ * POST /api/plans/:planId/import/preview
+ * Diff an edited CSV or JSON export against the plan without changing it
+ * Body: { format: 'csv' | 'json', content: string }
+ */
+router.post('/:planId/import/preview', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const { format, content } = importSchema.parse(req.body);
+
+  const { planImportService } = await import('../services/planImportService');
+
+  try {
+    const diff = await planImportService.previewImport(planId, format, content);
+    sendSuccess(res, diff);
+  } catch (error) {
+    throw AppError.createValidationError((error as Error).message, 'VAL_INVALID_IMPORT');
+  }
+}));
+
+/**
+ * POST /api/plans/:planId/import/apply
+ * Apply an edited CSV or JSON export to the plan
+ * The diff is recomputed from the file; files with row errors are rejected
+ */
+router.post('/:planId/import/apply', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const userId = req.user!.id;
+  const { format, content } = importSchema.parse(req.body);
+
+  const { planImportService, parseImportRows } = await import('../services/planImportService');
+
+  // Surface unreadable files as validation errors before touching the plan
+  try {
+    parseImportRows(format, content);
+  } catch (error) {
+    throw AppError.createValidationError((error as Error).message, 'VAL_INVALID_IMPORT');
+  }
+
+  const { diff, result } = await planImportService.applyImport(planId, userId, format, content);
+
+  if (diff.errors.length > 0) {
+    throw AppError.createValidationError(
+      `Import file has ${diff.errors.length} invalid row(s)`,
+      'VAL_IMPORT_ROW_ERRORS',
+      { errors: diff.errors }
+    );
+  }
+
+  sendSuccess(res, result);
+}));
+
+/**
+ * GET /api/plans/:planId/versions
+ * List saved versions of a plan, newest first
+ */
+router.get('/:planId/versions', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+
+  const { planVersionService } = await import('../services/planVersionService');
+
+  const versions = await planVersionService.listVersions(planId);
+
+  sendSuccess(res, versions);
+}));
+
+/**
+ * POST /api/plans/:planId/versions
+ * Save the current plan as a named checkpoint
+ */
+router.post('/:planId/versions', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const userId = req.user!.id;
+  const { name } = createPlanVersionSchema.parse(req.body);
+
+  const { planVersionService } = await import('../services/planVersionService');
+
+  const version = await planVersionService.createVersion(planId, userId, name);
+
+  sendSuccess(res, version, 'Version saved', 201);
+}));
+
+/**
+ * GET /api/plans/:planId/versions/diff
+ * Structural diff between two versions
+ * Query: from (version ID), to (version ID or 'current', default 'current')
+ */
+router.get('/:planId/versions/diff', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const { from, to } = versionDiffQuerySchema.parse(req.query);
+
+  const { planVersionService } = await import('../services/planVersionService');
+
+  try {
+    const diff = await planVersionService.diffVersions(planId, from, to === 'current' ? null : to);
+    sendSuccess(res, diff);
+  } catch (error) {
+    if ((error as Error).message === 'Version not found') {
+      throw AppError.createNotFoundError('Version not found', 'VERSION_NOT_FOUND');
+    }
+    throw error;
+  }
+}));
+
+/**
+ * GET /api/plans/:planId/versions/:versionId
+ * Get a version with its full snapshot
+ */
+router.get('/:planId/versions/:versionId', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const versionId = parseInt(req.params.versionId);
+
+  const { planVersionService } = await import('../services/planVersionService');
+
+  const version = await planVersionService.getVersion(planId, versionId);
+  if (!version) {
+    throw AppError.createNotFoundError('Version not found', 'VERSION_NOT_FOUND');
+  }
+
+  sendSuccess(res, version);
+}));
+
+/**
+ * POST /api/plans/:planId/versions/:versionId/restore
+ * Restore the plan to a version
+ * The current state is saved as an automatic version first; task history is kept
+ */
+router.post('/:planId/versions/:versionId/restore', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
+  const planId = parseInt(req.params.planId);
+  const versionId = parseInt(req.params.versionId);
+  const userId = req.user!.id;
+
+  const { planVersionService } = await import('../services/planVersionService');
+
+  const version = await planVersionService.getVersion(planId, versionId);
+  if (!version) {
+    throw AppError.createNotFoundError('Version not found', 'VERSION_NOT_FOUND');
+  }
+
+  const result = await planVersionService.restoreVersion(planId, versionId, userId);
+
+  planWebSocketService.broadcastPlanRestored(
+    planId.toString(),
+    { versionId: result.restored.id, version: result.restored.version },
+    userId
+  );
+
+  sendSuccess(res, result, `Plan restored to version ${result.restored.version}`);
+}));
+
 /**
  * GET /api/plans/:planId/recommendations
  * Get recommendations for a plan
  * 
  * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5, 8.6
  */
-router.get('/:planId/recommendations', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.get('/:planId/recommendations', jwtAuth, verifyPlanAccess('read'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const userId = req.user!.id;
 
@@ -399,7 +705,7 @@ router.get('/:planId/recommendations', jwtAuth, verifyPlanOwnership, asyncHandle
  * 
  * Requirements: 8.5
  */
-router.post('/:planId/recommendations/:recommendationId/dismiss', jwtAuth, verifyPlanOwnership, asyncHandler(async (req, res) => {
+router.post('/:planId/recommendations/:recommendationId/dismiss', jwtAuth, verifyPlanAccess('write'), asyncHandler(async (req, res) => {
   const planId = parseInt(req.params.planId);
   const recommendationId = req.params.recommendationId;
   const userId = req.user!.id;
@@ -7,27 +7,42 @@ import {
   createProjectSchema,
   updateProjectSchema
 } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, isNull } from "drizzle-orm";
 import { jwtAuth } from "../middleware/jwtAuth";
 import { asyncHandler, sendSuccess, AppError } from "../middleware/errorHandler";
+import { AuthorizationService, TeamPermission } from "../services/authorizationService";
+import { workspaceService } from "../services/workspaceService";
 
 const router = Router();
 
 // GET /api/projects - List user's projects
+// Pass teamId to list a team workspace's projects instead of the personal workspace
 router.get("/", jwtAuth, asyncHandler(async (req, res) => {
   const userId = req.user!.id;
   const includeArchived = req.query.includeArchived === 'true';
 
+  let workspaceCondition = and(eq(projects.userId, userId), isNull(projects.teamId));
+  if (req.query.teamId !== undefined) {
+    const teamId = parseInt(req.query.teamId as string);
+    if (isNaN(teamId)) {
+      throw AppError.createValidationError("Invalid team ID", "VAL_INVALID_ID");
+    }
+    const role = await workspaceService.getTeamRole(teamId, userId);
+    AuthorizationService.requireTeamPermission(role, TeamPermission.VIEW);
+    workspaceCondition = eq(projects.teamId, teamId);
+  }
+
   // Build query conditions
   const conditions = includeArchived 
-    ? eq(projects.userId, userId)
-    : and(eq(projects.userId, userId), eq(projects.archived, false));
+    ? workspaceCondition
+    : and(workspaceCondition, eq(projects.archived, false));
 
   // Get projects with analysis counts
   const userProjects = await db
     .select({
       id: projects.id,
       userId: projects.userId,
+      teamId: projects.teamId,
       name: projects.name,
       description: projects.description,
       tags: projects.tags,
@@ -57,15 +72,21 @@ router.get("/", jwtAuth, asyncHandler(async (req, res) => {
   sendSuccess(res, projectsWithCounts);
 }));
 
-// POST /api/projects - Create new project
+// POST /api/projects - Create new project, in a team workspace when teamId is given
 router.post("/", jwtAuth, asyncHandler(async (req, res) => {
   const userId = req.user!.id;
   const validatedData = createProjectSchema.parse(req.body);
 
+  if (validatedData.teamId !== undefined) {
+    const role = await workspaceService.getTeamRole(validatedData.teamId, userId);
+    AuthorizationService.requireTeamPermission(role, TeamPermission.EDIT);
+  }
+
   const [newProject] = await db
     .insert(projects)
     .values({
       userId,
+      teamId: validatedData.teamId ?? null,
       name: validatedData.name,
       description: validatedData.description || null,
       tags: validatedData.tags,
@@ -89,7 +110,7 @@ router.get("/:id", jwtAuth, asyncHandler(async (req, res) => {
   const [project] = await db
     .select()
     .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)));
+    .where(and(eq(projects.id, projectId), workspaceService.accessCondition(projects, userId, TeamPermission.VIEW)));
 
   if (!project) {
     throw AppError.createNotFoundError("Project not found", "NOT_FOUND_PROJECT");
@@ -127,11 +148,11 @@ router.put("/:id", jwtAuth, asyncHandler(async (req, res) => {
 
   const validatedData = updateProjectSchema.parse(req.body);
 
-  // Check project exists and belongs to user
+  // Check project exists and user has access to it
   const [existingProject] = await db
     .select()
     .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)));
+    .where(and(eq(projects.id, projectId), workspaceService.accessCondition(projects, userId, TeamPermission.EDIT)));
 
   if (!existingProject) {
     throw AppError.createNotFoundError("Project not found", "NOT_FOUND_PROJECT");
@@ -159,11 +180,11 @@ router.delete("/:id", jwtAuth, asyncHandler(async (req, res) => {
     throw AppError.createValidationError("Invalid project ID", "VAL_INVALID_ID");
   }
 
-  // Check project exists and belongs to user
+  // Check project exists and user has access to it
   const [existingProject] = await db
     .select()
     .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)));
+    .where(and(eq(projects.id, projectId), workspaceService.accessCondition(projects, userId, TeamPermission.DELETE)));
 
   if (!existingProject) {
     throw AppError.createNotFoundError("Project not found", "NOT_FOUND_PROJECT");
@@ -185,21 +206,21 @@ router.post("/:id/analyses/:analysisId", jwtAuth, asyncHandler(async (req, res)
     throw AppError.createValidationError("Invalid project or analysis ID", "VAL_INVALID_ID");
   }
 
-  // Check project exists and belongs to user
+  // Check project exists and user has access to it
   const [project] = await db
     .select()
     .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)));
+    .where(and(eq(projects.id, projectId), workspaceService.accessCondition(projects, userId, TeamPermission.EDIT)));
 
   if (!project) {
     throw AppError.createNotFoundError("Project not found", "NOT_FOUND_PROJECT");
   }
 
-  // Check analysis exists and belongs to user
+  // Check analysis exists and user can see it
   const [analysis] = await db
     .select()
     .from(searches)
-    .where(and(eq(searches.id, analysisId), eq(searches.userId, userId)));
+    .where(and(eq(searches.id, analysisId), workspaceService.accessCondition(searches, userId, TeamPermission.VIEW)));
 
   if (!analysis) {
     throw AppError.createNotFoundError("Analysis not found", "NOT_FOUND_ANALYSIS");
@@ -251,11 +272,11 @@ router.delete("/:id/analyses/:analysisId", jwtAuth, asyncHandler(async (req, res
     throw AppError.createValidationError("Invalid project or analysis ID", "VAL_INVALID_ID");
   }
 
-  // Check project exists and belongs to user
+  // Check project exists and user has access to it
   const [project] = await db
     .select()
     .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)));
+    .where(and(eq(projects.id, projectId), workspaceService.accessCondition(projects, userId, TeamPermission.EDIT)));
 
   if (!project) {
     throw AppError.createNotFoundError("Project not found", "NOT_FOUND_PROJECT");
@@ -0,0 +1,204 @@
+/**
+ * Prompt Templates API Routes
+ *
+ * Admin endpoints for editing AI prompts, activating versions and running A/B experiments
+ */
+
+import { Router } from 'express';
+import { promptTemplateService, promptKeys, type PromptKey } from '../services/promptTemplateService';
+import { requireAuth } from '../middleware/auth';
+import { requireAdmin } from '../middleware/authorization';
+import { logger } from '../config/logger';
+import { z } from 'zod';
+
+const router = Router();
+
+// Validation schemas
+const createVersionSchema = z.object({
+  content: z.string().trim().min(1).max(20000),
+  notes: z.string().trim().max(500).optional(),
+});
+
+const activateVersionSchema = z.object({
+  versionId: z.number().int().positive(),
+});
+
+const experimentSchema = z.object({
+  versionId: z.number().int().positive(),
+  rolloutPercentage: z.number().int().min(1).max(99),
+});
+
+/**
+ * Parse the :key of a prompt request
+ */
+function parseKey(key: string): PromptKey | null {
+  return (promptKeys as readonly string[]).includes(key) ? key as PromptKey : null;
+}
+
+/**
+ * GET /api/prompt-templates
+ * Get all prompts with their versions (Admin only)
+ */
+router.get('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const templates = await promptTemplateService.listTemplates();
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    logger.error('Error fetching prompt templates', { error });
+    res.status(500).json({ success: false, error: 'Failed to fetch prompt templates' });
+  }
+});
+
+/**
+ * GET /api/prompt-templates/:key
+ * Get a prompt with its versions and how each version's answers were rated (Admin only)
+ */
+router.get('/:key', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const key = parseKey(req.params.key);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Prompt template not found' });
+    }
+
+    const [template, metrics] = await Promise.all([
+      promptTemplateService.getTemplate(key),
+      promptTemplateService.getVersionMetrics(key),
+    ]);
+
+    res.json({ success: true, data: { ...template, metrics } });
+  } catch (error) {
+    logger.error('Error fetching prompt template', { key: req.params.key, error });
+    res.status(500).json({ success: false, error: 'Failed to fetch prompt template' });
+  }
+});
+
+/**
+ * POST /api/prompt-templates/:key/versions
+ * Save a new version of a prompt (Admin only)
+ * The version is not served until it is activated or put in an experiment
+ */
+router.post('/:key/versions', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const key = parseKey(req.params.key);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Prompt template not found' });
+    }
+
+    const validation = createVersionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: validation.error.errors
+      });
+    }
+
+    const version = await promptTemplateService.createVersion(key, validation.data, req.user!.id);
+    res.status(201).json({ success: true, data: version });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Unknown prompt variables')) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Error creating prompt version', { key: req.params.key, error });
+    res.status(500).json({ success: false, error: 'Failed to create prompt version' });
+  }
+});
+
+/**
+ * PUT /api/prompt-templates/:key/active
+ * Serve a version to everyone outside the experiment (Admin only)
+ */
+router.put('/:key/active', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const key = parseKey(req.params.key);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Prompt template not found' });
+    }
+
+    const validation = activateVersionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: validation.error.errors
+      });
+    }
+
+    const template = await promptTemplateService.activateVersion(key, validation.data.versionId);
+
+    logger.info('Prompt version activated by admin', { key, versionId: validation.data.versionId, adminId: req.user!.id });
+    res.json({ success: true, data: template });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Prompt version not found')) {
+      return res.status(404).json({ success: false, error: 'Prompt version not found' });
+    }
+    logger.error('Error activating prompt version', { key: req.params.key, body: req.body, error });
+    res.status(500).json({ success: false, error: 'Failed to activate prompt version' });
+  }
+});
+
+/**
+ * PUT /api/prompt-templates/:key/experiment
+ * Serve a version to a percentage of users instead of the active version (Admin only)
+ */
+router.put('/:key/experiment', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const key = parseKey(req.params.key);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Prompt template not found' });
+    }
+
+    const validation = experimentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: validation.error.errors
+      });
+    }
+
+    const template = await promptTemplateService.startExperiment(
+      key,
+      validation.data.versionId,
+      validation.data.rolloutPercentage
+    );
+
+    logger.info('Prompt experiment started by admin', { key, ...validation.data, adminId: req.user!.id });
+    res.json({ success: true, data: template });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Prompt version not found')) {
+      return res.status(404).json({ success: false, error: 'Prompt version not found' });
+    }
+    if (error instanceof Error && error.message.startsWith('The active version')) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Error starting prompt experiment', { key: req.params.key, body: req.body, error });
+    res.status(500).json({ success: false, error: 'Failed to start prompt experiment' });
+  }
+});
+
+/**
+ * DELETE /api/prompt-templates/:key/experiment
+ * Stop the experiment; everyone gets the active version again (Admin only)
+ */
+router.delete('/:key/experiment', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const key = parseKey(req.params.key);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Prompt template not found' });
+    }
+
+    const template = await promptTemplateService.stopExperiment(key);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Prompt template has no versions' });
+    }
+
+    logger.info('Prompt experiment stopped by admin', { key, adminId: req.user!.id });
+    res.json({ success: true, data: template });
+  } catch (error) {
+    logger.error('Error stopping prompt experiment', { key: req.params.key, error });
+    res.status(500).json({ success: false, error: 'Failed to stop prompt experiment' });
+  }
+});
+
+export default router;
@@ -3,11 +3,12 @@ import { db } from '../db';
 import { searches, helpArticles, users } from '@shared/schema';
 import { eq, or, ilike, desc, sql } from 'drizzle-orm';
 import { requireAuth } from '../middleware/auth';
+import { conversationService } from '../services/conversationService';
 
 const router = Router();
 
 interface SearchResult {
-  type: 'analysis' | 'resource' | 'help' | 'page';
+  type: 'analysis' | 'resource' | 'help' | 'page' | 'conversation';
   id: string;
   title: string;
   description: string;
@@ -15,9 +16,17 @@ interface SearchResult {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Read an optional date filter from the query string
+ */
+function parseDateFilter(value: unknown): string | undefined {
+  return typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+}
+
 /**
  * GET /api/search/global
- * Global search across analyses, resources, help articles, and pages
+ * Global search across analyses, resources, help articles, pages and conversation messages
+ * Conversation filters: analysisId, role ('user' | 'assistant'), from and to (ISO dates)
  */
 router.get('/global', requireAuth, async (req, res) => {
   try {
@@ -117,12 +126,54 @@ router.get('/global', requireAuth, async (req, res) => {
       }
     }
 
+    // Search conversation messages (if type is not specified or is 'conversation')
+    if (!type || type === 'conversation') {
+      try {
+        const { analysisId, role } = req.query;
+        const { hits } = await conversationService.searchMessages(
+          userId,
+          searchQuery,
+          {
+            analysisId: typeof analysisId === 'string' && /^\d+$/.test(analysisId) ? parseInt(analysisId, 10) : undefined,
+            role: role === 'user' || role === 'assistant' ? role : undefined,
+            from: parseDateFilter(req.query.from),
+            to: parseDateFilter(req.query.to),
+          },
+          pageSizeNum,
+          offset
+        );
+
+        results.push(
+          ...hits.map((hit) => ({
+            type: 'conversation' as const,
+            id: hit.messageId.toString(),
+            title: hit.conversationTitle || hit.analysisQuery,
+            description: hit.snippet,
+            path: `/search-result/${hit.analysisId}?conversation=${hit.conversationId}&message=${hit.messageId}&position=${hit.position}`,
+            metadata: {
+              conversationId: hit.conversationId,
+              analysisId: hit.analysisId,
+              scope: hit.scope,
+              branchName: hit.branchName,
+              role: hit.role,
+              position: hit.position,
+              rank: hit.rank,
+              timestamp: hit.createdAt,
+            },
+          }))
+        );
+      } catch (error) {
+        console.error('Error searching conversation messages:', error);
+      }
+    }
+
     // Calculate relevance score based on query match
     const scoredResults = results.map((result) => {
       let score = 0;
       const lowerQuery = searchQuery.toLowerCase();
       const lowerTitle = result.title.toLowerCase();
-      const lowerDesc = result.description.toLowerCase();
+      // Message snippets mark their matches; score the plain text
+      const lowerDesc = result.description.replace(/<\/?mark>/g, '').toLowerCase();
 
       // Exact title match
       if (lowerTitle === lowerQuery) {
@@ -6,6 +6,10 @@ import { TaskService } from '../services/taskService';
 import { PlanService } from '../services/planService';
 import { dependencyService } from '../services/dependencyService';
 import { planWebSocketService } from '../services/planWebSocketService';
+import { notificationService } from '../services/notificationService';
+import { TeamPermission } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
+import type { PlanTask } from '@shared/schema';
 import { z } from 'zod';
 
 const router = Router();
@@ -21,6 +25,8 @@ const updateTaskSchema = z.object({
   order: z.number().int().min(0).optional(),
   status: z.enum(['not_started', 'in_progress', 'completed', 'skipped']).optional(),
   assigneeId: z.number().int().positive().optional(),
+  startDate: z.string().datetime().nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
   overridePrerequisites: z.boolean().optional(),
 });
 
@@ -33,10 +39,11 @@ const validateDependencySchema = z.object({
 });
 
 /**
- * Middleware to verify task ownership
- * Loads the task and verifies the authenticated user owns the parent plan
+ * Middleware to verify task access
+ * Loads the task and verifies the authenticated user owns the parent plan, or has a
+ * role in the plan's team workspace that lets them edit it
  */
-const verifyTaskOwnership = asyncHandler(async (req, res, next) => {
+const verifyTaskAccess = asyncHandler(async (req, res, next) => {
   const taskId = parseInt(req.params.taskId);
   const userId = req.user!.id;
 
@@ -44,7 +51,7 @@ const verifyTaskOwnership = asyncHandler(async (req, res, next) => {
     throw AppError.createValidationError('Invalid task ID', 'VAL_INVALID_ID');
   }
 
-  const task = await taskService.getTaskById(taskId, userId);
+  const task = await taskService.getTaskById(taskId, userId, TeamPermission.EDIT);
   
   if (!task) {
     throw AppError.createNotFoundError('Task not found', 'TASK_NOT_FOUND');
@@ -55,17 +62,72 @@ const verifyTaskOwnership = asyncHandler(async (req, res, next) => {
   if (next) next();
 });
 
+/**
+ * Notify the new assignee of an assignment and the plan owner of a completion
+ * Notifications are best effort and never fail the task update
+ */
+async function notifyTaskChanges(previous: PlanTask, updated: PlanTask, userId: number): Promise<void> {
+  try {
+    if (updated.assigneeId && updated.assigneeId !== previous.assigneeId && updated.assigneeId !== userId) {
+      await notificationService.notifyTaskAssigned(updated.id, updated.assigneeId, userId);
+    }
+
+    if (updated.status === 'completed' && previous.status !== 'completed') {
+      const plan = await planService.getPlanById(updated.planId);
+      if (plan) {
+        await notificationService.notifyTaskCompleted(updated.id, userId, plan.userId);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to send task notifications:', error);
+  }
+}
+
 /**
  * PATCH /api/tasks/:taskId
  * Update task
  * 
  * Requirements: 5.5 - Dependency warnings with override
  */
-router.patch('/:taskId', jwtAuth, validateIdParam, verifyTaskOwnership, asyncHandler(async (req, res) => {
+router.patch('/:taskId', jwtAuth, validateIdParam, verifyTaskAccess, asyncHandler(async (req, res) => {
   const taskId = parseInt(req.params.taskId);
   const userId = req.user!.id;
   const data = updateTaskSchema.parse(req.body);
 
+  // Check date order against whichever of the two dates is not being changed
+  const currentTask = (req as any).task;
+  const startDate = data.startDate !== undefined ? data.startDate : currentTask.startDate;
+  const dueDate = data.dueDate !== undefined ? data.dueDate : currentTask.dueDate;
+  if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+    throw AppError.createValidationError('Start date must be on or before the due date', 'VAL_DATE_ORDER');
+  }
+
+  // A pinned start can't be earlier than any prerequisite finishes on the plan's default calendar,
+  // which is the one the timeline schedules on
+  if (data.startDate && data.startDate !== currentTask.startDate) {
+    const { scheduleService } = await import('../services/scheduleService');
+    const blocking = await scheduleService.findBlockingPrerequisite(
+      currentTask.planId,
+      userId,
+      taskId,
+      new Date(data.startDate)
+    );
+    if (blocking) {
+      throw AppError.createValidationError(
+        `"${currentTask.title}" can't start before "${blocking.title}" finishes`,
+        'VAL_START_BEFORE_PREREQUISITE'
+      );
+    }
+  }
+
+  // Tasks can only be assigned to the plan owner or members of the plan's team
+  if (data.assigneeId !== undefined && data.assigneeId !== currentTask.assigneeId) {
+    const plan = await planService.getPlanById(currentTask.planId);
+    if (!plan || !(await workspaceService.isAssignable(plan, data.assigneeId))) {
+      throw AppError.createValidationError('Tasks can only be assigned to members of the plan\'s team', 'VAL_INVALID_ASSIGNEE');
+    }
+  }
+
   let updatedTask;
 
   // If status is being updated, use updateTaskStatus with override support
@@ -91,6 +153,10 @@ router.patch('/:taskId', jwtAuth, validateIdParam, verifyTaskOwnership, asyncHan
     );
   }
 
+  if (updatedTask) {
+    await notifyTaskChanges(currentTask, updatedTask, userId);
+  }
+
   sendSuccess(res, updatedTask);
 }));
 
@@ -98,10 +164,10 @@ router.patch('/:taskId', jwtAuth, validateIdParam, verifyTaskOwnership, asyncHan
  * DELETE /api/tasks/:taskId
  * Delete task
  */
-router.delete('/:taskId', jwtAuth, validateIdParam, verifyTaskOwnership, asyncHandler(async (req, res) => {
+router.delete('/:taskId', jwtAuth, validateIdParam, verifyTaskAccess, asyncHandler(async (req, res) => {
   const taskId = parseInt(req.params.taskId);
   const userId = req.user!.id;
-  const task = (req as any).task; // Loaded by verifyTaskOwnership middleware
+  const task = (req as any).task; // Loaded by verifyTaskAccess middleware
 
   // Store planId before deletion
   const planId = task.planId;
@@ -182,6 +248,16 @@ router.post('/:taskId/dependencies', jwtAuth, validateIdParam, asyncHandler(asyn
       userId
     );
 
+    // Broadcast dependency change via WebSocket
+    const task = await taskService.getTaskById(taskId, userId);
+    if (task) {
+      planWebSocketService.broadcastDependenciesUpdated(
+        task.planId.toString(),
+        { action: 'added', taskId, prerequisiteTaskId: data.prerequisiteTaskId },
+        userId
+      );
+    }
+
     sendSuccess(res, dependency);
   } catch (error) {
     if (error instanceof Error) {
@@ -242,7 +318,15 @@ router.delete('/dependencies/:dependencyId', jwtAuth, validateIdParam, asyncHand
   }
 
   try {
-    await dependencyService.removeDependency(dependencyId, userId);
+    const removed = await dependencyService.removeDependency(dependencyId, userId);
+
+    // Broadcast dependency change via WebSocket
+    planWebSocketService.broadcastDependenciesUpdated(
+      removed.planId.toString(),
+      { action: 'removed', taskId: removed.taskId, prerequisiteTaskId: removed.prerequisiteTaskId },
+      userId
+    );
+
     sendSuccess(res, { message: 'Dependency removed successfully' });
   } catch (error) {
     if (error instanceof Error) {
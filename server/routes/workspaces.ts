@@ -0,0 +1,165 @@
+import { Router, type Request } from 'express';
+import { jwtAuth } from '../middleware/jwtAuth';
+import { requireTeamAccess } from '../middleware/authorization';
+import { asyncHandler, sendSuccess, AppError } from '../middleware/errorHandler';
+import { AuthorizationService, TeamRole } from '../services/authorizationService';
+import { workspaceService } from '../services/workspaceService';
+import {
+  moveToWorkspaceSchema,
+  updateTeamMemberRoleSchema,
+  workspaceResourceTypeEnum,
+  type WorkspaceResourceType,
+} from '@shared/schema';
+
+const router = Router();
+
+/**
+ * Parse a numeric route parameter
+ */
+function parseId(value: string, name: string): number {
+  const id = parseInt(value);
+  if (isNaN(id) || id <= 0) {
+    throw AppError.createValidationError(`Invalid ${name} ID`, 'VAL_INVALID_ID');
+  }
+  return id;
+}
+
+/**
+ * The acting user's role in the team; super admins pass requireTeamAccess without one and act as owners
+ */
+function actingTeamRole(req: Request): TeamRole {
+  return AuthorizationService.isSuperAdmin(req.user!) ? TeamRole.OWNER : req.teamRole as TeamRole;
+}
+
+/**
+ * Load a member of the team, or throw if the user is not one
+ */
+async function getMember(teamId: number, userId: number) {
+  const members = await workspaceService.getMembers(teamId);
+  const member = members.find(m => m.userId === userId);
+  if (!member) {
+    throw AppError.createNotFoundError('Team member not found', 'MEMBER_NOT_FOUND');
+  }
+  return member;
+}
+
+/**
+ * GET /api/workspaces
+ * List the team workspaces the user belongs to with their role in each
+ */
+router.get('/', jwtAuth, asyncHandler(async (req, res) => {
+  const workspaces = await workspaceService.listWorkspaces(req.user!.id);
+
+  sendSuccess(res, workspaces);
+}));
+
+/**
+ * GET /api/workspaces/:teamId/members
+ * List a team's active members and their roles
+ */
+router.get('/:teamId/members', jwtAuth, requireTeamAccess('read'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+
+  const members = await workspaceService.getMembers(teamId);
+
+  sendSuccess(res, members);
+}));
+
+/**
+ * PATCH /api/workspaces/:teamId/members/:userId
+ * Change a member's role (admins and owners; only owners grant or revoke admin)
+ */
+router.patch('/:teamId/members/:userId', jwtAuth, requireTeamAccess('admin'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+  const userId = parseId(req.params.userId, 'user');
+  const { role } = updateTeamMemberRoleSchema.parse(req.body);
+
+  const member = await getMember(teamId, userId);
+  if (!AuthorizationService.canManageTeamMember(actingTeamRole(req), member.role as TeamRole, role as TeamRole)) {
+    throw AppError.createForbiddenError('Access denied: cannot change this member\'s role', 'INSUFFICIENT_TEAM_PERMISSION');
+  }
+
+  const updated = await workspaceService.updateMemberRole(teamId, userId, role as TeamRole);
+
+  sendSuccess(res, updated, 'Member role updated');
+}));
+
+/**
+ * DELETE /api/workspaces/:teamId/members/:userId
+ * Remove a member from the team; content they created stays in the workspace
+ */
+router.delete('/:teamId/members/:userId', jwtAuth, requireTeamAccess('admin'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+  const userId = parseId(req.params.userId, 'user');
+
+  const member = await getMember(teamId, userId);
+  if (!AuthorizationService.canManageTeamMember(actingTeamRole(req), member.role as TeamRole)) {
+    throw AppError.createForbiddenError('Access denied: cannot remove this member', 'INSUFFICIENT_TEAM_PERMISSION');
+  }
+
+  await workspaceService.removeMember(teamId, userId);
+
+  sendSuccess(res, null, 'Member removed');
+}));
+
+/**
+ * GET /api/workspaces/:teamId/items
+ * List the searches, plans, projects and conversations in a team workspace
+ */
+router.get('/:teamId/items', jwtAuth, requireTeamAccess('read'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+
+  const items = await workspaceService.listTeamResources(teamId);
+
+  sendSuccess(res, items);
+}));
+
+/**
+ * POST /api/workspaces/:teamId/items
+ * Move a search, plan, project or conversation into the team workspace
+ * Requires edit access to the team and delete access to the item where it is now
+ */
+router.post('/:teamId/items', jwtAuth, requireTeamAccess('write'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+  const { type, id } = moveToWorkspaceSchema.parse(req.body);
+
+  const resource = await workspaceService.getResource(type, id);
+  if (!resource || !(await workspaceService.canAccess(req.user!, resource, 'read'))) {
+    throw AppError.createNotFoundError(`${type} not found`, 'RESOURCE_NOT_FOUND');
+  }
+  if (!(await workspaceService.canAccess(req.user!, resource, 'delete'))) {
+    throw AppError.createForbiddenError('Access denied: cannot move this item', 'RESOURCE_ACCESS_DENIED');
+  }
+
+  await workspaceService.moveResource(type, id, teamId);
+
+  sendSuccess(res, { type, id, teamId }, 'Moved to team workspace');
+}));
+
+/**
+ * DELETE /api/workspaces/:teamId/items/:type/:id
+ * Move an item out of the team workspace back to its creator's personal workspace
+ * Allowed for the creator and for team admins and owners
+ */
+router.delete('/:teamId/items/:type/:id', jwtAuth, requireTeamAccess('read'), asyncHandler(async (req, res) => {
+  const teamId = parseId(req.params.teamId, 'team');
+  const id = parseId(req.params.id, 'item');
+  const type = req.params.type as WorkspaceResourceType;
+  if (!workspaceResourceTypeEnum.includes(type)) {
+    throw AppError.createValidationError('Invalid item type', 'VAL_INVALID_TYPE');
+  }
+
+  const resource = await workspaceService.getResource(type, id);
+  if (!resource || resource.teamId !== teamId) {
+    throw AppError.createNotFoundError(`${type} not found in this workspace`, 'RESOURCE_NOT_FOUND');
+  }
+  if (!(await workspaceService.canAccess(req.user!, resource, 'delete'))) {
+    throw AppError.createForbiddenError('Access denied: cannot move this item', 'RESOURCE_ACCESS_DENIED');
+  }
+
+  await workspaceService.moveResource(type, id, null);
+
+  sendSuccess(res, { type, id, teamId: null }, 'Moved to personal workspace');
+}));
+
+export default router;
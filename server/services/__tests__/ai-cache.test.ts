@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { aiCache } from '../ai-cache';
+import { db } from '../../db';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+/**
+ * Build a drizzle-like query chain that resolves to the given rows
+ */
+function queryChain(rows: unknown[]) {
+  const chain: any = {};
+  ['from', 'where', 'orderBy', 'limit', 'set', 'values', 'onConflictDoUpdate', 'returning'].forEach(method => {
+    chain[method] = vi.fn().mockReturnValue(chain);
+  });
+  chain.then = (resolve: (value: unknown[]) => void, reject: (error: unknown) => void) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return chain;
+}
+
+const cachedResults = [{ title: 'Cached gap' }];
+
+describe('AICache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    aiCache.resetStats();
+    (db.update as any).mockReturnValue(queryChain([]));
+    (db.select as any).mockReturnValue(queryChain([{ total: 0, active: 0 }]));
+  });
+
+  describe('normalizeQuery', () => {
+    it('should ignore case, punctuation, stopwords and word order', () => {
+      expect(aiCache.normalizeQuery('Apps for Fitness Tracking!')).toBe(
+        aiCache.normalizeQuery('fitness tracking app')
+      );
+    });
+
+    it('should keep distinct queries distinct', () => {
+      expect(aiCache.normalizeQuery('fitness tracking')).not.toBe(
+        aiCache.normalizeQuery('fitness coaching')
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('should return an exact normalized match', async () => {
+      (db.select as any).mockReturnValueOnce(queryChain([{ id: 1, results: cachedResults }]));
+
+      const results = await aiCache.get('Fitness tracking apps');
+
+      expect(results).toEqual(cachedResults);
+      expect(db.update).toHaveBeenCalled();
+      expect((await aiCache.getStats()).exactHits).toBe(1);
+    });
+
+    it('should return a near-duplicate match', async () => {
+      (db.select as any)
+        .mockReturnValueOnce(queryChain([]))
+        .mockReturnValueOnce(queryChain([
+          { id: 2, normalizedQuery: 'app fitness tracking' },
+        ]))
+        .mockReturnValueOnce(queryChain([{ query: 'fitness tracking apps', results: cachedResults }]));
+
+      const results = await aiCache.get('fitness trackng apps');
+
+      expect(results).toEqual(cachedResults);
+      expect((await aiCache.getStats()).similarHits).toBe(1);
+    });
+
+    it('should only load results for the matching entry', async () => {
+      (db.select as any)
+        .mockReturnValueOnce(queryChain([]))
+        .mockReturnValueOnce(queryChain([
+          { id: 2, normalizedQuery: 'app fitness tracking' },
+        ]))
+        .mockReturnValueOnce(queryChain([{ query: 'fitness tracking apps', results: cachedResults }]));
+
+      await aiCache.get('fitness trackng apps');
+
+      expect(Object.keys((db.select as any).mock.calls[1][0])).toEqual(['id', 'normalizedQuery']);
+      expect(Object.keys((db.select as any).mock.calls[2][0])).toEqual(['query', 'results']);
+    });
+
+    it.each([
+      ['b2b saas tool', 'b2b saas tool healthcare'],
+      ['ai legal document review', 'ai legal document review india'],
+      ['fitness tracking', 'fitness tracking apps'],
+    ])('should not share results between "%s" and "%s"', async (broader, narrower) => {
+      for (const [cached, query] of [[broader, narrower], [narrower, broader]]) {
+        (db.select as any)
+          .mockReturnValueOnce(queryChain([]))
+          .mockReturnValueOnce(queryChain([
+            { id: 4, normalizedQuery: aiCache.normalizeQuery(cached) },
+          ]));
+
+        expect(await aiCache.get(query)).toBeNull();
+      }
+      expect((await aiCache.getStats()).similarHits).toBe(0);
+    });
+  });
+
+  describe('set', () => {
+    it('should store entries with a per-entry TTL', async () => {
+      const chain = queryChain([]);
+      (db.insert as any).mockReturnValue(chain);
+
+      const before = Date.now();
+      await aiCache.set('Fitness tracking', cachedResults as any, { provider: 'perplexity', ttlSeconds: 60 });
+
+      const values = chain.values.mock.calls[0][0];
+      expect(values.normalizedQuery).toBe('fitness tracking');
+      expect(values.provider).toBe('perplexity');
+      expect(new Date(values.expiresAt).getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+      expect(new Date(values.expiresAt).getTime()).toBeLessThan(before + 61 * 1000);
+    });
+  });
+});
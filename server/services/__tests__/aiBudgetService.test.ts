@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { db } from '../../db';
+import {
+  aiBudgetService,
+  calculateCostMicros,
+  BUDGET_FALLBACK_MODEL,
+  PRIMARY_MODEL,
+} from '../aiBudgetService';
+
+vi.mock('../../db', () => ({
+  db: {
+    transaction: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../notificationService', () => ({
+  notificationService: {
+    notifyAIBudgetThreshold: vi.fn(),
+  },
+}));
+
+function budget(overrides: Record<string, unknown>) {
+  return {
+    scope: 'user',
+    budget: null,
+    userId: 5,
+    teamId: null,
+    limitMicros: 20_000_000, // $20
+    spentMicros: 0,
+    hardCapAction: 'degrade',
+    alertThresholds: [50, 80, 100],
+    ...overrides,
+  };
+}
+
+// 10,000 prompt tokens and 2,048 output tokens: about $0.02 on the primary model, $0.008 on the fallback
+const estimate = { inputTokens: 10_000, maxOutputTokens: 2048 };
+
+const turn = { feature: 'conversation_answer', conversationId: 12 } as const;
+
+describe('AIBudgetService', () => {
+  let applicableBudgets: ReturnType<typeof budget>[];
+  let tx: { execute: ReturnType<typeof vi.fn>; insert: ReturnType<typeof vi.fn>; values: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    applicableBudgets = [budget({})];
+    vi.spyOn(aiBudgetService as any, 'getApplicableBudgets').mockImplementation(async () => applicableBudgets);
+    vi.spyOn(aiBudgetService as any, 'getActiveTeamIds').mockResolvedValue([3, 8]);
+
+    const values = vi.fn(() => ({ returning: async () => [{ id: 77 }] }));
+    tx = { execute: vi.fn(), insert: vi.fn(() => ({ values })), values };
+    vi.mocked(db.transaction).mockImplementation(async (fn: any) => fn(tx));
+  });
+
+  it('should price calls per million tokens in micro-dollars', () => {
+    expect(calculateCostMicros(PRIMARY_MODEL, 1_000_000, 1_000_000)).toBe(6_250_000);
+    expect(calculateCostMicros(BUDGET_FALLBACK_MODEL, 1_000_000, 0)).toBe(300_000);
+    expect(calculateCostMicros('unknown-model', 1, 0)).toBe(calculateCostMicros(PRIMARY_MODEL, 1, 0));
+  });
+
+  it('should allow a call that fits every budget', async () => {
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision).toEqual({
+      action: 'allow',
+      model: PRIMARY_MODEL,
+      estimatedCostMicros: calculateCostMicros(PRIMARY_MODEL, 10_000, 2048),
+      reservationId: 77,
+    });
+  });
+
+  it('should degrade to the cheaper model when only it fits', async () => {
+    applicableBudgets = [budget({ spentMicros: 19_990_000 })];
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision.action).toBe('degrade');
+    expect(decision.model).toBe(BUDGET_FALLBACK_MODEL);
+    expect(decision.limitingBudget).toEqual({ scope: 'user', userId: 5, teamId: null, limitCents: 2000, spentCents: 1999 });
+  });
+
+  it('should block instead of degrading when the budget hard caps with a block', async () => {
+    applicableBudgets = [budget({ spentMicros: 19_990_000, hardCapAction: 'block' })];
+
+    const decision = await aiBudgetService.checkBudget(5, 'free', estimate, turn);
+
+    expect(decision.action).toBe('block');
+  });
+
+  it('should block when even the cheaper model would exceed the limit', async () => {
+    applicableBudgets = [budget({ spentMicros: 19_999_000 })];
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision.action).toBe('block');
+  });
+
+  it("should enforce a team's budget even when the user's own budget has room", async () => {
+    applicableBudgets = [
+      budget({}),
+      budget({ scope: 'team', userId: null, teamId: 3, limitMicros: 50_000_000, spentMicros: 50_000_000 }),
+    ];
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision.action).toBe('block');
+    expect(decision.limitingBudget).toMatchObject({ scope: 'team', teamId: 3 });
+  });
+
+  it('should count every call a turn makes with the same prompt', async () => {
+    applicableBudgets = [budget({ limitMicros: 50_000 })];
+
+    expect((await aiBudgetService.checkBudget(5, 'pro', estimate, turn)).action).toBe('allow');
+    expect((await aiBudgetService.checkBudget(5, 'pro', { ...estimate, calls: 3 }, turn)).action).toBe('degrade');
+  });
+
+  it('should hold the estimated cost while locking the user and every team budget', async () => {
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    const dialect = new PgDialect();
+    const locks = tx.execute.mock.calls.map(([query]) => dialect.sqlToQuery(query).params);
+    expect(locks).toEqual([[7302, 3], [7302, 8], [7301, 5]]);
+    expect(tx.values).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 5,
+      conversationId: 12,
+      feature: 'conversation_answer',
+      costMicros: decision.estimatedCostMicros,
+      status: 'pending',
+    }));
+  });
+
+  it('should not hold anything for a blocked call', async () => {
+    applicableBudgets = [budget({ spentMicros: 19_999_000 })];
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision.reservationId).toBeUndefined();
+    expect(tx.insert).not.toHaveBeenCalled();
+  });
+
+  it('should check against spend that includes held reservations', async () => {
+    await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect((aiBudgetService as any).getApplicableBudgets).toHaveBeenCalledWith(5, 'pro', true, tx);
+  });
+
+  it('should read budgets and spend through the locking transaction', async () => {
+    vi.mocked((aiBudgetService as any).getApplicableBudgets).mockRestore();
+    const rows = [[], [{ total: '0' }], []];
+    const chain: any = {
+      from: () => chain,
+      innerJoin: () => chain,
+      where: () => chain,
+      limit: () => chain,
+      then: (resolve: (value: unknown) => void) => resolve(rows.shift()),
+    };
+    const select = vi.fn(() => chain);
+    Object.assign(tx, { select });
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', estimate, turn);
+
+    expect(decision.action).toBe('allow');
+    expect(select).toHaveBeenCalledTimes(3);
+  });
+
+  it('should block rather than degrade a call pinned to a model', async () => {
+    applicableBudgets = [budget({ spentMicros: 19_990_000 })];
+
+    const decision = await aiBudgetService.checkBudget(5, 'pro', { ...estimate, model: 'grok-2-1212' }, turn);
+
+    expect(decision.action).toBe('block');
+    expect(decision.model).toBe('grok-2-1212');
+    expect(decision.estimatedCostMicros).toBe(calculateCostMicros('grok-2-1212', 10_000, 2048));
+  });
+
+  describe('runWithinBudget', () => {
+    const subject = { userId: 5, userTier: 'pro' };
+
+    beforeEach(() => {
+      vi.spyOn(aiBudgetService, 'recordSpend').mockResolvedValue(0);
+      vi.spyOn(aiBudgetService, 'releaseReservation').mockResolvedValue();
+    });
+
+    it('should make the call with the allowed model, record its spend and release the hold', async () => {
+      applicableBudgets = [budget({ spentMicros: 19_990_000 })];
+      const call = vi.fn(async (model: string) => ({ result: `answer from ${model}`, inputTokens: 900, outputTokens: 300 }));
+
+      const result = await aiBudgetService.runWithinBudget(subject, 'follow_up_questions', estimate, call);
+
+      expect(result).toBe(`answer from ${BUDGET_FALLBACK_MODEL}`);
+      expect(aiBudgetService.recordSpend).toHaveBeenCalledWith('pro', {
+        userId: 5,
+        conversationId: undefined,
+        feature: 'follow_up_questions',
+        model: BUDGET_FALLBACK_MODEL,
+        inputTokens: 900,
+        outputTokens: 300,
+        degraded: true,
+      });
+      expect(aiBudgetService.releaseReservation).toHaveBeenCalledWith(77);
+    });
+
+    it('should throw AI_BUDGET_EXCEEDED without making a blocked call', async () => {
+      applicableBudgets = [budget({ spentMicros: 19_999_000 })];
+      const call = vi.fn();
+
+      await expect(aiBudgetService.runWithinBudget(subject, 'gap_analysis', estimate, call))
+        .rejects.toMatchObject({ statusCode: 429, code: 'AI_BUDGET_EXCEEDED' });
+      expect(call).not.toHaveBeenCalled();
+      expect(aiBudgetService.releaseReservation).not.toHaveBeenCalled();
+    });
+
+    it('should release the hold without recording spend when the call fails', async () => {
+      const call = vi.fn(async () => {
+        throw new Error('provider down');
+      });
+
+      await expect(aiBudgetService.runWithinBudget(subject, 'action_plan', estimate, call)).rejects.toThrow('provider down');
+      expect(aiBudgetService.recordSpend).not.toHaveBeenCalled();
+      expect(aiBudgetService.releaseReservation).toHaveBeenCalledWith(77);
+    });
+  });
+
+  it('should only release a pending reservation', async () => {
+    const where = vi.fn();
+    vi.mocked(db.delete).mockReturnValue({ where } as any);
+
+    await aiBudgetService.releaseReservation(77);
+
+    const { sql, params } = new PgDialect().sqlToQuery(where.mock.calls[0][0]);
+    expect(sql).toContain('"status" = $2');
+    expect(params).toEqual([77, 'pending']);
+  });
+});
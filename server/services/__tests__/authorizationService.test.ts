@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { AuthorizationService, Permission, UserRole } from '../authorizationService';
+import { AuthorizationService, Permission, TeamPermission, TeamRole, UserRole } from '../authorizationService';
 import { User } from '@shared/schema';
 
 describe('AuthorizationService', () => {
@@ -169,4 +169,50 @@ describe('AuthorizationService', () => {
       expect(AuthorizationService.isSuperAdmin(mockSuperAdmin)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('team workspaces', () => {
+    it('should grant team permissions cumulatively by role', () => {
+      expect(AuthorizationService.hasTeamPermission(TeamRole.VIEWER, TeamPermission.VIEW)).toBe(true);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.VIEWER, TeamPermission.EDIT)).toBe(false);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.MEMBER, TeamPermission.EDIT)).toBe(true);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.MEMBER, TeamPermission.DELETE)).toBe(false);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.ADMIN, TeamPermission.MANAGE_MEMBERS)).toBe(true);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.ADMIN, TeamPermission.MANAGE_TEAM)).toBe(false);
+      expect(AuthorizationService.hasTeamPermission(TeamRole.OWNER, TeamPermission.MANAGE_TEAM)).toBe(true);
+      expect(AuthorizationService.hasTeamPermission(null, TeamPermission.VIEW)).toBe(false);
+    });
+
+    it('should let team members reach team resources according to their role', () => {
+      const teamPlan = { userId: 99, teamId: 5 };
+
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, teamPlan, TeamRole.VIEWER, 'read')).toBe(true);
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, teamPlan, TeamRole.VIEWER, 'write')).toBe(false);
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, teamPlan, TeamRole.MEMBER, 'write')).toBe(true);
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, teamPlan, TeamRole.MEMBER, 'delete')).toBe(false);
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, teamPlan, null, 'read')).toBe(false);
+    });
+
+    it('should keep owner access to their resources and deny others personal ones', () => {
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, { userId: 1, teamId: 5 }, null, 'delete')).toBe(true);
+      expect(AuthorizationService.canAccessWorkspaceResource(mockUser, { userId: 99, teamId: null }, TeamRole.OWNER, 'read')).toBe(false);
+      expect(() => {
+        AuthorizationService.validateWorkspaceResourceAccess(mockUser, { userId: 99, teamId: 5 }, TeamRole.VIEWER, 'write');
+      }).toThrow('Access denied');
+    });
+
+    it('should reject non-members and roles without the team permission', () => {
+      expect(() => AuthorizationService.requireTeamPermission(null, TeamPermission.VIEW)).toThrow('not a member');
+      expect(() => AuthorizationService.requireTeamPermission(TeamRole.MEMBER, TeamPermission.MANAGE_MEMBERS)).toThrow();
+      expect(() => AuthorizationService.requireTeamPermission(TeamRole.ADMIN, TeamPermission.MANAGE_MEMBERS)).not.toThrow();
+    });
+
+    it('should only let the owner grant or revoke admin', () => {
+      expect(AuthorizationService.canManageTeamMember(TeamRole.ADMIN, TeamRole.VIEWER, TeamRole.MEMBER)).toBe(true);
+      expect(AuthorizationService.canManageTeamMember(TeamRole.ADMIN, TeamRole.MEMBER, TeamRole.ADMIN)).toBe(false);
+      expect(AuthorizationService.canManageTeamMember(TeamRole.ADMIN, TeamRole.ADMIN)).toBe(false);
+      expect(AuthorizationService.canManageTeamMember(TeamRole.OWNER, TeamRole.MEMBER, TeamRole.ADMIN)).toBe(true);
+      expect(AuthorizationService.canManageTeamMember(TeamRole.OWNER, TeamRole.OWNER, TeamRole.MEMBER)).toBe(false);
+      expect(AuthorizationService.canManageTeamMember(TeamRole.MEMBER, TeamRole.VIEWER)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCitationSources,
+  extractCitations,
+  formatCitationSources
+} from '../citationService';
+import { parseResponseMetadata } from '../geminiConversationService';
+
+const sources = buildCitationSources({
+  searchResults: [
+    { id: 42, title: 'Dental scheduling gap', description: 'Clinics still book by phone.' },
+    { id: 43, title: 'Vet clinic CRM', description: 'No affordable CRM for small vets.' },
+  ],
+  resources: [
+    { id: 7, title: 'SaaS pricing guide', description: 'How to price B2B software.', url: 'https://example.com/pricing' },
+  ],
+  messages: [
+    { id: 100, role: 'user', content: 'Who are my competitors?' },
+    { id: 101, role: 'assistant', content: 'Mainly phone-based booking services.' },
+  ],
+});
+
+describe('citationService', () => {
+  describe('buildCitationSources', () => {
+    it('should key sources by type and position', () => {
+      expect(sources.map(source => source.key)).toEqual(['S1', 'S2', 'R1', 'M1', 'M2']);
+      expect(sources[2]).toMatchObject({ type: 'resource', id: 7, url: 'https://example.com/pricing' });
+      expect(sources[3].label).toBe('You: Who are my competitors?');
+    });
+
+    it('should only offer the most recent messages', () => {
+      const messages = Array.from({ length: 15 }, (_, i) => ({ id: i + 1, role: 'user', content: `Message ${i + 1}` }));
+      const messageSources = buildCitationSources({ messages });
+
+      expect(messageSources).toHaveLength(10);
+      expect(messageSources[0]).toMatchObject({ key: 'M1', id: 6 });
+    });
+  });
+
+  describe('formatCitationSources', () => {
+    it('should list every source with its tag', () => {
+      const formatted = formatCitationSources(sources);
+
+      expect(formatted).toContain('[S1] Gap: Dental scheduling gap - Clinics still book by phone.');
+      expect(formatted).toContain('[R1] Resource: SaaS pricing guide');
+      expect(formatted).toContain('[M2] Earlier message: Mainly phone-based booking services.');
+    });
+
+    it('should be empty without sources', () => {
+      expect(formatCitationSources([])).toBe('');
+    });
+  });
+
+  describe('extractCitations', () => {
+    it('should resolve tags in order of first use and drop unknown tags', () => {
+      const citations = extractCitations(
+        'Clinics book by phone [S1, R1]. Vets lack CRMs [S2][S9]. As you asked earlier [M1], phones dominate [S1].',
+        sources
+      );
+
+      expect(citations.map(citation => citation.key)).toEqual(['S1', 'R1', 'S2', 'M1']);
+      expect(citations[0]).toEqual({ key: 'S1', type: 'search_result', id: 42, label: 'Dental scheduling gap' });
+      expect(citations[1].url).toBe('https://example.com/pricing');
+    });
+  });
+
+  describe('parseResponseMetadata', () => {
+    it('should return structured citations instead of scraped source text', () => {
+      const metadata = parseResponseMetadata('Sources: my gut feeling\n\nClinics book by phone [S1].', sources);
+
+      expect(metadata.citations).toEqual([
+        { key: 'S1', type: 'search_result', id: 42, label: 'Dental scheduling gap' },
+      ]);
+      expect(metadata).not.toHaveProperty('sources');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkIdeaAccess, checkPlanAccess, checkTeamAccess } from '../collaboration';
+import { parseRoomId, getRoomPermissions } from '../../websocket';
+
+vi.mock('../collaboration', () => ({
+  checkIdeaAccess: vi.fn(),
+  checkTeamAccess: vi.fn(),
+  checkPlanAccess: vi.fn(),
+}));
+
+vi.mock('../collaborativeDocumentService', () => ({
+  collaborativeDocumentService: {},
+}));
+
+vi.mock('../planWebSocketService', () => ({
+  planWebSocketService: {
+    authenticateConnection: vi.fn(),
+    handleConnection: vi.fn(),
+  },
+}));
+
+describe('Collaboration rooms', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only accept idea, team and plan room IDs', () => {
+    expect(parseRoomId('idea:42')).toEqual({ kind: 'idea', id: 42 });
+    expect(parseRoomId('team:7')).toEqual({ kind: 'team', id: 7 });
+    expect(parseRoomId('plan:3')).toEqual({ kind: 'plan', id: 3 });
+    expect(parseRoomId('42')).toBeNull();
+    expect(parseRoomId('search:3')).toBeNull();
+    expect(parseRoomId('idea:abc')).toBeNull();
+  });
+
+  it('should refuse users without access to the idea', async () => {
+    vi.mocked(checkIdeaAccess).mockResolvedValue(false);
+
+    const permissions = await getRoomPermissions(5, 'idea:42');
+
+    expect(permissions).toBeNull();
+    expect(checkIdeaAccess).toHaveBeenCalledWith(42, '5', 'view');
+  });
+
+  it('should resolve edit and chat rights from the idea share', async () => {
+    vi.mocked(checkIdeaAccess).mockImplementation(async (_ideaId, _userId, permission) =>
+      permission !== 'edit'
+    );
+
+    const permissions = await getRoomPermissions(5, 'idea:42');
+
+    expect(permissions).toEqual({ canEdit: false, canChat: true });
+  });
+
+  it('should check team membership for team rooms', async () => {
+    vi.mocked(checkTeamAccess).mockResolvedValue(true);
+
+    const permissions = await getRoomPermissions(5, 'team:7');
+
+    expect(permissions).toEqual({ canEdit: true, canChat: true });
+    expect(checkTeamAccess).toHaveBeenCalledWith(7, '5', 'view');
+    expect(checkIdeaAccess).not.toHaveBeenCalled();
+  });
+
+  it("should only let a plan's owner into its room", async () => {
+    vi.mocked(checkPlanAccess).mockResolvedValue(false);
+
+    const permissions = await getRoomPermissions(5, 'plan:3');
+
+    expect(permissions).toBeNull();
+    expect(checkPlanAccess).toHaveBeenCalledWith(3, '5', 'view');
+  });
+
+  it('should refuse unrecognised rooms without querying access', async () => {
+    const permissions = await getRoomPermissions(5, 'general');
+
+    expect(permissions).toBeNull();
+    expect(checkIdeaAccess).not.toHaveBeenCalled();
+    expect(checkTeamAccess).not.toHaveBeenCalled();
+    expect(checkPlanAccess).not.toHaveBeenCalled();
+  });
+});
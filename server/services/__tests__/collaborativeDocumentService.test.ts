@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import { TextDocument, type TextOperation } from '@shared/crdt';
+import { CollaborativeDocumentService } from '../collaborativeDocumentService';
+
+vi.mock('../../db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+/**
+ * Chainable query builder resolving to the given rows
+ */
+function queryResult(rows: unknown[]) {
+  const builder: any = {};
+  for (const method of ['values', 'set', 'from', 'where', 'orderBy', 'limit', 'returning', 'onConflictDoNothing']) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.then = (resolve: (value: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return builder;
+}
+
+const planRoom = { kind: 'plan' as const, id: 12 };
+
+function storedDocument(text = '') {
+  const doc = new TextDocument();
+  if (text) doc.edit('server', text);
+  return { id: 3, roomId: 'plan:12', docKey: 'notes', state: doc.toJSON(), seq: 0 };
+}
+
+describe('TextDocument', () => {
+  it('should converge when concurrent edits arrive in different orders', () => {
+    const base = new TextDocument();
+    base.edit('server', 'Launch plan');
+
+    const alice = new TextDocument(base.toJSON());
+    const bob = new TextDocument(base.toJSON());
+    const aliceOps = alice.edit('alice', 'Launch beta plan');
+    const bobOps = bob.edit('bob', 'Launch plan today');
+
+    alice.applyAll(bobOps);
+    bob.applyAll(aliceOps);
+
+    expect(alice.toString()).toBe('Launch beta plan today');
+    expect(bob.toString()).toBe(alice.toString());
+  });
+
+  it('should keep text inserted next to characters another replica deleted', () => {
+    const base = new TextDocument();
+    base.edit('server', 'draft copy');
+
+    const alice = new TextDocument(base.toJSON());
+    const bob = new TextDocument(base.toJSON());
+    const aliceOps = alice.edit('alice', 'copy');
+    const bobOps = bob.edit('bob', 'draft final copy');
+
+    alice.applyAll(bobOps);
+    bob.applyAll(aliceOps);
+
+    expect(alice.toString()).toBe('final copy');
+    expect(bob.toString()).toBe('final copy');
+  });
+
+  it('should ignore operations it has already applied', () => {
+    const doc = new TextDocument();
+    const ops = doc.edit('alice', 'notes');
+
+    expect(doc.applyAll(ops)).toEqual([]);
+    expect(doc.toString()).toBe('notes');
+  });
+});
+
+describe('CollaborativeDocumentService', () => {
+  let service: CollaborativeDocumentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.select).mockReturnValue(queryResult([]));
+    service = new CollaborativeDocumentService();
+  });
+
+  it('should number updates and only log operations that changed the document', async () => {
+    vi.mocked(db.select)
+      .mockReturnValueOnce(queryResult([storedDocument('Hello')]))
+      .mockReturnValueOnce(queryResult([]));
+    vi.mocked(db.insert).mockReturnValue(queryResult([]));
+
+    const replica = new TextDocument(storedDocument('Hello').state);
+    const operations = replica.edit('alice', 'Hello team');
+
+    const first = await service.applyUpdate(planRoom, 'notes', { userId: 5, clientId: 'alice', operations });
+    const repeated = await service.applyUpdate(planRoom, 'notes', { userId: 5, clientId: 'alice', operations });
+
+    expect(first).toEqual({ seq: 1, operations });
+    expect(repeated).toEqual({ seq: 1, operations: [] });
+    expect(db.insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should catch up and retry when another instance logged the same sequence number', async () => {
+    const remote: TextOperation[] = [{ type: 'insert', id: { client: 'bob', clock: 1 }, after: null, value: '> ' }];
+    const conflict = queryResult([]);
+    conflict.then = (_resolve: unknown, reject: (error: unknown) => unknown) =>
+      Promise.reject(Object.assign(new Error('duplicate key'), { code: '23505' })).catch(reject);
+    vi.mocked(db.select)
+      .mockReturnValueOnce(queryResult([storedDocument('Hello')]))
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([{ seq: 1, clientId: 'bob', userId: 6, operations: remote }]));
+    vi.mocked(db.insert)
+      .mockReturnValueOnce(conflict)
+      .mockReturnValueOnce(queryResult([]));
+
+    const replica = new TextDocument(storedDocument('Hello').state);
+    const operations = replica.edit('alice', 'Hello team');
+
+    const result = await service.applyUpdate(planRoom, 'notes', { userId: 5, clientId: 'alice', operations });
+    const sync = await service.sync(planRoom, 'notes', 0);
+
+    expect(result).toEqual({ seq: 2, operations });
+    expect(db.insert).toHaveBeenCalledTimes(2);
+    const text = sync.kind === 'state' ? new TextDocument(sync.state).toString() : '';
+    expect(text).toContain('> ');
+    expect(text).toContain('Hello team');
+  });
+
+  it('should send a reconnecting client only the updates it missed', async () => {
+    const missed: TextOperation[] = [{ type: 'insert', id: { client: 'bob', clock: 9 }, after: null, value: 'Hi ' }];
+    vi.mocked(db.select)
+      .mockReturnValueOnce(queryResult([{ ...storedDocument('notes'), seq: 4 }]))
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([
+        { seq: 4, clientId: 'bob', userId: 6, operations: missed },
+      ]));
+
+    const sync = await service.sync(planRoom, 'notes', 3);
+
+    expect(sync).toEqual({
+      kind: 'updates',
+      seq: 4,
+      updates: [{ seq: 4, clientId: 'bob', userId: 6, operations: missed }],
+    });
+  });
+
+  it('should send a snapshot to clients without a replica', async () => {
+    vi.mocked(db.select)
+      .mockReturnValueOnce(queryResult([storedDocument('notes')]))
+      .mockReturnValueOnce(queryResult([]));
+
+    const sync = await service.sync(planRoom, 'notes', 0);
+
+    expect(sync.kind).toBe('state');
+    expect(sync.kind === 'state' && new TextDocument(sync.state).toString()).toBe('notes');
+  });
+
+  it("should seed a new task description document from the task", async () => {
+    const created = { id: 8, roomId: 'plan:12', docKey: 'task:40:description', seq: 0 };
+    const insert = queryResult([]);
+    insert.returning = vi.fn(() => queryResult([{ ...created, state: insert.values.mock.calls[0][0].state }]));
+    vi.mocked(db.select)
+      .mockReturnValueOnce(queryResult([]))
+      .mockReturnValueOnce(queryResult([{ description: 'Interview five customers' }]))
+      .mockReturnValueOnce(queryResult([]));
+    vi.mocked(db.insert).mockReturnValue(insert);
+
+    const sync = await service.sync(planRoom, 'task:40:description');
+
+    expect(sync.kind === 'state' && new TextDocument(sync.state).toString()).toBe('Interview five customers');
+  });
+
+  it('should only accept documents the room kind holds', () => {
+    expect(service.isValidDocKey(planRoom, 'task:40:description')).toBe(true);
+    expect(service.isValidDocKey({ kind: 'idea', id: 1 }, 'task:40:description')).toBe(false);
+    expect(service.isValidDocKey({ kind: 'team', id: 1 }, 'description')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import {
+  buildAutoFlag,
+  contentModerator,
+  MAX_REPORTS_PER_DAY,
+  type ModerationResult
+} from '../conversations/contentModerator';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../securityLogger', () => ({
+  securityLogger: {
+    logSecurityEvent: vi.fn(),
+    createSecurityAlert: vi.fn(),
+  },
+}));
+
+function selectReturning(rows: unknown[]) {
+  const chain: any = {};
+  chain.from = vi.fn(() => chain);
+  chain.where = vi.fn(() => chain);
+  chain.limit = vi.fn(() => Promise.resolve(rows));
+  chain.then = (resolve: (value: unknown[]) => unknown) => Promise.resolve(rows).then(resolve);
+  return chain;
+}
+
+const blocked: ModerationResult = {
+  approved: false,
+  reason: 'Content contains harassment',
+  severity: 'high',
+  categories: ['harassment'],
+  requiresReview: true,
+};
+
+describe('ContentModerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildAutoFlag', () => {
+    it('should not flag approved content', () => {
+      expect(buildAutoFlag('Hello', 'user', {
+        approved: true,
+        severity: 'low',
+        categories: ['financial_advice'],
+        requiresReview: false,
+      })).toBeNull();
+    });
+
+    it('should build a queue entry for blocked content', () => {
+      const flag = buildAutoFlag('bad words', 'user', blocked, { userId: 7, conversationId: '12' });
+
+      expect(flag).toEqual({
+        source: 'auto',
+        contentRole: 'user',
+        messageId: null,
+        conversationId: 12,
+        userId: 7,
+        content: 'bad words',
+        flagReason: 'Content contains harassment',
+        categories: ['harassment'],
+        severity: 'high',
+      });
+    });
+  });
+
+  describe('moderateUserInput', () => {
+    it('should store blocked input in the moderation queue', async () => {
+      const values = vi.fn(() => Promise.resolve());
+      vi.mocked(db.insert).mockReturnValue({ values } as any);
+
+      const result = await contentModerator.moderateUserInput('kill yourself', 3, { conversationId: '5' });
+
+      expect(result.approved).toBe(false);
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        source: 'auto',
+        contentRole: 'user',
+        userId: 3,
+        conversationId: 5,
+        categories: ['harassment'],
+      }));
+    });
+
+    it('should not store clean input', async () => {
+      const result = await contentModerator.moderateUserInput('How big is the market?', 3);
+
+      expect(result.approved).toBe(true);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewFlaggedContent', () => {
+    it('should refuse to review content that is no longer pending', async () => {
+      const tx = {
+        update: vi.fn(() => ({
+          set: vi.fn(() => ({
+            where: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve([])) })),
+          })),
+        })),
+      };
+      vi.mocked(db.transaction).mockImplementation(async (callback: any) => callback(tx));
+      vi.mocked(db.select).mockReturnValue(selectReturning([{ id: 4 }]));
+
+      const result = await contentModerator.reviewFlaggedContent(4, 1, 'remove');
+
+      expect(result).toEqual({ success: false, error: 'not_pending' });
+    });
+  });
+
+  describe('checkReportAbuse', () => {
+    it('should flag users at the daily report limit', async () => {
+      vi.mocked(db.select).mockReturnValue(selectReturning([{ count: MAX_REPORTS_PER_DAY }]));
+
+      const result = await contentModerator.checkReportAbuse(9);
+
+      expect(result).toEqual({ isAbusive: true, reportCount: MAX_REPORTS_PER_DAY });
+    });
+  });
+});
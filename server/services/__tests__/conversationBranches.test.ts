@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import { conversationRepository } from '../conversationRepository';
+import {
+  conversationAnalytics,
+  conversationMemories,
+  conversationMessages,
+  conversations,
+  type Conversation,
+  type ConversationMemory,
+  type ConversationMessage
+} from '@shared/schema';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    transaction: vi.fn(),
+  },
+}));
+
+const parent: Conversation = {
+  id: 1,
+  analysisId: 10,
+  userId: 5,
+  variantIds: [],
+  parentConversationId: null,
+  forkedFromMessageId: null,
+  branchName: 'Main',
+  scope: 'analysis',
+  projectId: null,
+  title: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+function message(id: number): ConversationMessage {
+  return {
+    id,
+    conversationId: 1,
+    role: id % 2 === 1 ? 'user' : 'assistant',
+    content: `Message ${id}`,
+    metadata: {},
+    copiedFromMessageId: null,
+    createdAt: `2025-01-01T00:0${id}:00.000Z`,
+    editedAt: null,
+  };
+}
+
+/**
+ * Transaction double that records inserts per table
+ */
+function createTx(inherited: ConversationMessage[], memory?: ConversationMemory) {
+  const inserts: Array<{ table: unknown; values: any }> = [];
+  let nextMessageId = 100;
+
+  const tx = {
+    select: vi.fn(() => {
+      const chain: any = {};
+      chain.from = vi.fn((table: unknown) => {
+        chain.table = table;
+        return chain;
+      });
+      chain.where = vi.fn(() => chain);
+      chain.orderBy = vi.fn(() => Promise.resolve(inherited));
+      chain.limit = vi.fn(() => Promise.resolve(memory ? [memory] : []));
+      return chain;
+    }),
+    insert: vi.fn((table: unknown) => ({
+      values: vi.fn((values: any) => {
+        inserts.push({ table, values });
+        const row = table === conversations
+          ? { ...parent, ...values, id: 2 }
+          : { ...values, id: nextMessageId++ };
+        return Object.assign(Promise.resolve(), {
+          returning: vi.fn(() => Promise.resolve([row])),
+        });
+      }),
+    })),
+  };
+
+  vi.mocked(db.transaction).mockImplementation(async (callback: any) => callback(tx));
+  return inserts;
+}
+
+describe('ConversationRepository branches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should copy inherited messages and start fresh token accounting', async () => {
+    const inserts = createTx([message(1), message(2)]);
+
+    const branch = await conversationRepository.createBranch(parent, 2, {
+      branchName: 'Branch 1',
+      includeForkMessage: true,
+    });
+
+    expect(branch).toMatchObject({ id: 2, parentConversationId: 1, forkedFromMessageId: 2, branchName: 'Branch 1' });
+
+    const copies = inserts.filter(insert => insert.table === conversationMessages).map(insert => insert.values);
+    expect(copies).toEqual([
+      expect.objectContaining({ conversationId: 2, content: 'Message 1', copiedFromMessageId: 1, createdAt: message(1).createdAt }),
+      expect.objectContaining({ conversationId: 2, content: 'Message 2', copiedFromMessageId: 2 }),
+    ]);
+
+    const analytics = inserts.find(insert => insert.table === conversationAnalytics);
+    expect(analytics?.values).toEqual(expect.objectContaining({
+      conversationId: 2,
+      userId: 5,
+      messageCount: 2,
+      totalTokensUsed: 0,
+    }));
+  });
+
+  it('should carry the memory over only when it covers inherited messages', async () => {
+    const memory: ConversationMemory = {
+      id: 1,
+      conversationId: 1,
+      summary: 'Earlier summary',
+      facts: ['F'],
+      decisions: [],
+      coveredThroughMessageId: 2,
+      coveredMessageCount: 2,
+      generatedBy: 'llm',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    };
+
+    const covered = createTx([message(1), message(2), message(3)], memory);
+    await conversationRepository.createBranch(parent, 4, { branchName: 'Branch 1', includeForkMessage: false });
+
+    expect(covered.find(insert => insert.table === conversationMemories)?.values).toEqual(expect.objectContaining({
+      conversationId: 2,
+      summary: 'Earlier summary',
+      coveredThroughMessageId: 101, // copy of message 2
+    }));
+
+    const uncovered = createTx([message(1)], memory);
+    await conversationRepository.createBranch(parent, 2, { branchName: 'Branch 2', includeForkMessage: false });
+
+    expect(uncovered.some(insert => insert.table === conversationMemories)).toBe(false);
+  });
+
+  it('should leave the fork point empty when branching before the first message', async () => {
+    createTx([]);
+
+    const branch = await conversationRepository.createBranch(parent, 1, {
+      branchName: 'Branch 1',
+      includeForkMessage: false,
+    });
+
+    expect(branch.forkedFromMessageId).toBeNull();
+  });
+});
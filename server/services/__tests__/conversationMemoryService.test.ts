@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import {
+  boundMemory,
+  conversationMemoryService,
+  mergeHeuristicMemory,
+  parseMemoryUpdate,
+  MAX_MEMORY_ITEMS
+} from '../conversationMemoryService';
+import { historySummarizer } from '../historySummarizer';
+import { getGeminiClient, isGeminiAvailable } from '../geminiConversationService';
+import { aiBudgetService } from '../aiBudgetService';
+import { AppError } from '../../middleware/errorHandler';
+import type { ConversationMemory, ConversationMessage } from '@shared/schema';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+  },
+}));
+
+vi.mock('../geminiConversationService', () => ({
+  getGeminiClient: vi.fn(),
+  isGeminiAvailable: vi.fn(() => false),
+}));
+
+// Budget checks allow every call, on the model the budget picked
+vi.mock('../aiBudgetService', () => ({
+  aiBudgetService: {
+    runWithinBudget: vi.fn(async (_subject, _feature, _estimate, call) => (await call('gemini-budget')).result),
+  },
+}));
+
+const subject = { userId: 7, userTier: 'pro', conversationId: 1 };
+
+function message(id: number): ConversationMessage {
+  return {
+    id,
+    conversationId: 1,
+    role: id % 2 === 1 ? 'user' : 'assistant',
+    content: id % 2 === 1 ? `Question ${id}?` : `Answer ${id}.`,
+    metadata: {},
+    copiedFromMessageId: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    editedAt: null,
+  };
+}
+
+function memory(overrides: Partial<ConversationMemory> = {}): ConversationMemory {
+  return {
+    id: 1,
+    conversationId: 1,
+    summary: 'The user is building a B2B scheduling tool.',
+    facts: ['Target market is dental clinics'],
+    decisions: ['Launch in Germany first'],
+    coveredThroughMessageId: 4,
+    coveredMessageCount: 4,
+    generatedBy: 'llm',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function selectChain(rows: unknown[]) {
+  const chain: any = {};
+  chain.from = vi.fn(() => chain);
+  chain.where = vi.fn(() => chain);
+  chain.limit = vi.fn(() => Promise.resolve(rows));
+  chain.orderBy = vi.fn(() => Promise.resolve(rows));
+  return chain;
+}
+
+describe('ConversationMemoryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('boundMemory', () => {
+    it('should drop duplicates and keep the most recent items', () => {
+      const facts = Array.from({ length: MAX_MEMORY_ITEMS + 3 }, (_, i) => `Fact ${i}`);
+      const bounded = boundMemory({ summary: '  Summary  ', facts: ['Fact 0', 'fact 0', ...facts], decisions: [' ', 'Go'] });
+
+      expect(bounded.summary).toBe('Summary');
+      expect(bounded.facts).toHaveLength(MAX_MEMORY_ITEMS);
+      expect(bounded.facts[bounded.facts.length - 1]).toBe(`Fact ${MAX_MEMORY_ITEMS + 2}`);
+      expect(bounded.decisions).toEqual(['Go']);
+    });
+  });
+
+  describe('parseMemoryUpdate', () => {
+    it('should read JSON wrapped in model prose', () => {
+      const update = parseMemoryUpdate('Here you go:\n```json\n{"summary": "S", "facts": ["F"], "decisions": []}\n```');
+
+      expect(update).toEqual({ summary: 'S', facts: ['F'], decisions: [] });
+    });
+
+    it('should reject responses without the expected fields', () => {
+      expect(parseMemoryUpdate('{"summary": "S"}')).toBeNull();
+      expect(parseMemoryUpdate('not json')).toBeNull();
+    });
+  });
+
+  describe('mergeHeuristicMemory', () => {
+    it('should append key points and keep facts and decisions', () => {
+      const merged = mergeHeuristicMemory(
+        { summary: 'Earlier summary', facts: ['F'], decisions: ['D'] },
+        ['Pricing: start at $49']
+      );
+
+      expect(merged).toEqual({
+        summary: 'Earlier summary\n- Pricing: start at $49',
+        facts: ['F'],
+        decisions: ['D'],
+      });
+    });
+  });
+
+  describe('refreshMemory', () => {
+    it('should fold messages older than the verbatim window into the memory', async () => {
+      const current = memory();
+      const uncovered = Array.from({ length: 16 }, (_, i) => message(i + 5)); // messages 5-20
+      vi.mocked(db.select)
+        .mockReturnValueOnce(selectChain([current]))
+        .mockReturnValueOnce(selectChain(uncovered));
+
+      const values = vi.fn(() => ({
+        onConflictDoUpdate: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve([current])) })),
+      }));
+      vi.mocked(db.insert).mockReturnValue({ values } as any);
+
+      await conversationMemoryService.refreshMemory(1, subject);
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        conversationId: 1,
+        coveredThroughMessageId: 10,
+        coveredMessageCount: 10,
+        generatedBy: 'heuristic',
+        facts: ['Target market is dental clinics'],
+        decisions: ['Launch in Germany first'],
+      }));
+    });
+
+    it('should ask the model for the memory when Gemini is available', async () => {
+      const current = memory();
+      const uncovered = Array.from({ length: 16 }, (_, i) => message(i + 5));
+      vi.mocked(db.select)
+        .mockReturnValueOnce(selectChain([current]))
+        .mockReturnValueOnce(selectChain(uncovered));
+
+      const values = vi.fn(() => ({
+        onConflictDoUpdate: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve([current])) })),
+      }));
+      vi.mocked(db.insert).mockReturnValue({ values } as any);
+
+      const generateContent = vi.fn(async () => ({
+        text: JSON.stringify({
+          summary: 'Scheduling tool for dental clinics, launching in Germany.',
+          facts: ['Target market is dental clinics', 'Pricing starts at $49'],
+          decisions: ['Launch in Germany first'],
+        }),
+      }));
+      vi.mocked(getGeminiClient).mockReturnValue({ models: { generateContent } } as any);
+      vi.mocked(isGeminiAvailable).mockReturnValueOnce(true);
+
+      await conversationMemoryService.refreshMemory(1, subject);
+
+      expect(aiBudgetService.runWithinBudget).toHaveBeenCalledWith(
+        subject,
+        'conversation_memory',
+        expect.objectContaining({ maxOutputTokens: 1500 }),
+        expect.any(Function)
+      );
+      expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gemini-budget',
+        contents: expect.stringContaining('Question 5?'),
+      }));
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        generatedBy: 'llm',
+        summary: 'Scheduling tool for dental clinics, launching in Germany.',
+        facts: ['Target market is dental clinics', 'Pricing starts at $49'],
+        coveredThroughMessageId: 10,
+      }));
+    });
+
+    it('should fall back to a heuristic memory when the AI budget blocks the call', async () => {
+      const current = memory();
+      vi.mocked(db.select)
+        .mockReturnValueOnce(selectChain([current]))
+        .mockReturnValueOnce(selectChain(Array.from({ length: 16 }, (_, i) => message(i + 5))));
+
+      const values = vi.fn(() => ({
+        onConflictDoUpdate: vi.fn(() => ({ returning: vi.fn(() => Promise.resolve([current])) })),
+      }));
+      vi.mocked(db.insert).mockReturnValue({ values } as any);
+
+      const generateContent = vi.fn();
+      vi.mocked(getGeminiClient).mockReturnValue({ models: { generateContent } } as any);
+      vi.mocked(isGeminiAvailable).mockReturnValueOnce(true);
+      vi.mocked(aiBudgetService.runWithinBudget).mockRejectedValueOnce(
+        AppError.createRateLimitError('Your monthly AI budget has been reached.', 'AI_BUDGET_EXCEEDED')
+      );
+
+      await conversationMemoryService.refreshMemory(1, subject);
+
+      expect(generateContent).not.toHaveBeenCalled();
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({ generatedBy: 'heuristic' }));
+    });
+
+    it('should leave the memory alone while few messages are waiting', async () => {
+      const current = memory();
+      vi.mocked(db.select)
+        .mockReturnValueOnce(selectChain([current]))
+        .mockReturnValueOnce(selectChain(Array.from({ length: 12 }, (_, i) => message(i + 5))));
+
+      const result = await conversationMemoryService.refreshMemory(1, subject);
+
+      expect(result).toBe(current);
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('HistorySummarizer with memory', () => {
+    it('should replace covered messages with the memory', async () => {
+      const messages = Array.from({ length: 12 }, (_, i) => message(i + 1));
+      const summarized = await historySummarizer.summarizeHistory(messages, 1500, memory());
+
+      expect(summarized.recentMessages.map(m => m.id)).toEqual([5, 6, 7, 8, 9, 10, 11, 12]);
+      expect(summarized.archivedCount).toBe(0);
+      expect(summarized.totalMessages).toBe(12);
+
+      const formatted = historySummarizer.formatForContext(summarized);
+      expect(formatted).toContain('[Conversation memory - 4 earlier messages]');
+      expect(formatted).toContain('- Launch in Germany first');
+      expect(formatted).not.toContain('Question 1?');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { conversationRepository } from '../conversationRepository';
+import { conversationService, MAX_SCOPE_ANALYSES } from '../conversationService';
+import type { Conversation } from '@shared/schema';
+
+vi.mock('../conversationRepository', () => ({
+  conversationRepository: {
+    getProjectAnalysisIds: vi.fn(),
+    getConversationAnalysisIds: vi.fn(),
+    getScopeAnalyses: vi.fn(),
+  },
+}));
+
+function conversation(overrides: Partial<Conversation>): Conversation {
+  return {
+    id: 1,
+    analysisId: 10,
+    userId: 5,
+    variantIds: [],
+    parentConversationId: null,
+    forkedFromMessageId: null,
+    branchName: 'Main',
+    scope: 'analysis',
+    projectId: null,
+    title: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ConversationService scope', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should cover only its own analysis for a single-analysis conversation', async () => {
+    const analysisIds = await conversationService.getScopeAnalysisIds(conversation({}));
+
+    expect(analysisIds).toEqual([10]);
+    expect(conversationRepository.getProjectAnalysisIds).not.toHaveBeenCalled();
+    expect(conversationRepository.getConversationAnalysisIds).not.toHaveBeenCalled();
+  });
+
+  it('should follow the project, capped at the most recent analyses', async () => {
+    const projectAnalysisIds = Array.from({ length: MAX_SCOPE_ANALYSES + 2 }, (_, i) => 100 - i);
+    vi.mocked(conversationRepository.getProjectAnalysisIds).mockResolvedValue(projectAnalysisIds);
+
+    const analysisIds = await conversationService.getScopeAnalysisIds(
+      conversation({ scope: 'project', projectId: 3 })
+    );
+
+    expect(conversationRepository.getProjectAnalysisIds).toHaveBeenCalledWith(3);
+    expect(analysisIds).toEqual(projectAnalysisIds.slice(0, MAX_SCOPE_ANALYSES));
+  });
+
+  it('should use the analyses picked for a comparison', async () => {
+    vi.mocked(conversationRepository.getConversationAnalysisIds).mockResolvedValue([12, 10, 11]);
+
+    const analysisIds = await conversationService.getScopeAnalysisIds(
+      conversation({ id: 4, scope: 'comparison' })
+    );
+
+    expect(conversationRepository.getConversationAnalysisIds).toHaveBeenCalledWith(4);
+    expect(analysisIds).toEqual([12, 10, 11]);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { conversationRepository } from '../conversationRepository';
+import { securityLogger } from '../securityLogger';
+import { conversationToolService, type ToolContext } from '../conversationToolService';
+import type { Conversation, ConversationToolCall } from '@shared/schema';
+
+vi.mock('../conversationRepository', () => ({
+  conversationRepository: {
+    createToolCall: vi.fn(),
+    updateToolCall: vi.fn(),
+    claimPendingToolCall: vi.fn(),
+  },
+}));
+
+vi.mock('../securityLogger', () => ({
+  securityLogger: {
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../conversationService', () => ({
+  conversationService: {
+    createVariant: vi.fn(),
+  },
+}));
+
+vi.mock('../variantDetectionService', () => ({
+  buildModifiedQuery: vi.fn((query: string, params: Record<string, string>) =>
+    `${query} (${Object.values(params).join(', ')})`
+  ),
+}));
+
+const conversation: Conversation = {
+  id: 1,
+  analysisId: 10,
+  userId: 5,
+  variantIds: [],
+  parentConversationId: null,
+  forkedFromMessageId: null,
+  branchName: 'Main',
+  scope: 'analysis',
+  projectId: null,
+  title: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const context: ToolContext = {
+  userId: 5,
+  userTier: 'pro',
+  conversation,
+  searchQuery: 'Appointment booking for vet clinics',
+};
+
+function toolCall(overrides: Partial<ConversationToolCall>): ConversationToolCall {
+  return {
+    id: 7,
+    conversationId: 1,
+    messageId: 20,
+    userId: 5,
+    toolName: 'create_analysis_variant',
+    arguments: { market: 'Rural clinics' },
+    requiresConfirmation: true,
+    status: 'pending',
+    result: null,
+    error: null,
+    resolvedAt: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ConversationToolService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let nextId = 1;
+    vi.mocked(conversationRepository.createToolCall).mockImplementation(async (values: any) =>
+      toolCall({ messageId: null, result: null, error: null, ...values, id: nextId++ })
+    );
+    vi.mocked(conversationRepository.updateToolCall).mockImplementation(async (id: number, updates: any) =>
+      toolCall({ id, ...updates })
+    );
+    vi.mocked(conversationRepository.claimPendingToolCall).mockImplementation(async (id: number, updates: any) =>
+      toolCall({ id, ...updates })
+    );
+  });
+
+  it('should run read-only tools straight away and feed their results to the prompt', async () => {
+    const { toolCalls, promptContext } = await conversationToolService.runToolCalls([
+      {
+        name: 'run_financial_model',
+        args: { initialInvestment: 20000, monthlyRevenue: 8000, monthlyExpenses: 5000 },
+      },
+    ], context);
+
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0].status).toBe('completed');
+    expect(toolCalls[0].requiresConfirmation).toBe(false);
+    expect(toolCalls[0].result).toHaveProperty('summary');
+    expect(promptContext).toContain('run_financial_model');
+  });
+
+  it('should record mutating tools as pending without running them', async () => {
+    const { conversationService } = await import('../conversationService');
+
+    const { toolCalls, promptContext } = await conversationToolService.runToolCalls([
+      { name: 'create_analysis_variant', args: { market: 'Rural clinics' } },
+    ], context);
+
+    expect(toolCalls[0].status).toBe('pending');
+    expect(toolCalls[0].requiresConfirmation).toBe(true);
+    expect(conversationService.createVariant).not.toHaveBeenCalled();
+    expect(promptContext).toContain('NOT yet done');
+  });
+
+  it('should record invalid arguments as failed and skip unknown tools', async () => {
+    const { toolCalls } = await conversationToolService.runToolCalls([
+      { name: 'run_financial_model', args: { initialInvestment: -1 } },
+      { name: 'drop_tables', args: {} },
+    ], context);
+
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0].status).toBe('failed');
+    expect(toolCalls[0].error).toBeTruthy();
+  });
+
+  it('should run a confirmed change and audit it', async () => {
+    const { conversationService } = await import('../conversationService');
+    vi.mocked(conversationService.createVariant).mockResolvedValue({
+      variantSearch: { id: 11 },
+      variantConversation: { id: 3 },
+    } as any);
+
+    const resolved = await conversationToolService.confirmToolCall(toolCall({}), context, { ipAddress: '127.0.0.1' });
+
+    expect(conversationService.createVariant).toHaveBeenCalledWith(
+      1,
+      5,
+      expect.stringContaining('Rural clinics'),
+      { market: 'Rural clinics' }
+    );
+    expect(conversationRepository.claimPendingToolCall).toHaveBeenCalledWith(7, { status: 'executing' });
+    expect(resolved?.status).toBe('executed');
+    expect(resolved?.result).toMatchObject({ variantId: 11, variantConversationId: 3 });
+    expect(securityLogger.logSecurityEvent).toHaveBeenCalledWith(
+      'DATA_MODIFICATION',
+      'conversation_tool_create_analysis_variant',
+      true,
+      expect.objectContaining({ userId: 5, ipAddress: '127.0.0.1', resourceId: '7' })
+    );
+  });
+
+  it('should record a confirmed change that fails', async () => {
+    const { conversationService } = await import('../conversationService');
+    vi.mocked(conversationService.createVariant).mockRejectedValue(new Error('Original analysis not found'));
+
+    const resolved = await conversationToolService.confirmToolCall(toolCall({}), context);
+
+    expect(resolved?.status).toBe('failed');
+    expect(resolved?.error).toBe('Original analysis not found');
+    expect(securityLogger.logSecurityEvent).toHaveBeenCalledWith(
+      'DATA_MODIFICATION',
+      'conversation_tool_create_analysis_variant',
+      false,
+      expect.any(Object),
+      'Original analysis not found'
+    );
+  });
+
+  it('should not run a change that another confirm already claimed', async () => {
+    const { conversationService } = await import('../conversationService');
+    vi.mocked(conversationRepository.claimPendingToolCall).mockResolvedValue(undefined);
+
+    const resolved = await conversationToolService.confirmToolCall(toolCall({}), context);
+
+    expect(resolved).toBeNull();
+    expect(conversationService.createVariant).not.toHaveBeenCalled();
+    expect(conversationRepository.updateToolCall).not.toHaveBeenCalled();
+    expect(securityLogger.logSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  it('should only reject a change that is still pending', async () => {
+    const rejected = await conversationToolService.rejectToolCall(toolCall({}));
+
+    expect(conversationRepository.claimPendingToolCall).toHaveBeenCalledWith(7, {
+      status: 'rejected',
+      resolvedAt: expect.any(String),
+    });
+    expect(rejected?.status).toBe('rejected');
+
+    vi.mocked(conversationRepository.claimPendingToolCall).mockResolvedValue(undefined);
+    expect(await conversationToolService.rejectToolCall(toolCall({}))).toBeNull();
+  });
+});
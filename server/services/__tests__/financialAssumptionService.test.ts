@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import { financialAssumptionSets, ideas, type FinancialAssumptions, type Idea } from '@shared/schema';
+import { financialAssumptionService } from '../financialAssumptionService';
+import { generateMonthlyFinancialModel, getDefaultAssumptions } from '../financialModeling';
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+const idea = {
+  id: 4,
+  category: 'saas',
+  initialInvestment: 50000,
+  monthlyRevenue: 5000,
+  monthlyExpenses: 8000,
+} as Idea;
+
+const assumptions: FinancialAssumptions = {
+  months: 36,
+  startingCash: 100000,
+  startingCustomers: 100,
+  pricing: { monthlyPricePerCustomer: 50, annualPriceIncrease: 0 },
+  funnel: { monthlyVisitors: 10000, monthlyVisitorGrowth: 0, signupRate: 0.05, paidConversionRate: 0.2 },
+  monthlyChurnRate: 0.05,
+  customerAcquisitionCost: 100,
+  cogsPercent: 0.2,
+  fixedMonthlyExpenses: 10000,
+  annualExpenseInflation: 0,
+  hiringPlan: [],
+};
+
+/**
+ * Transaction stand-in that records every update and answers deletes with the given rows
+ */
+function fakeTransaction(deletedRows: Array<{ id: number; isActive: boolean }> = []) {
+  const updates: Array<{ table: unknown; values: Record<string, unknown> }> = [];
+  const tx = {
+    update: vi.fn((table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push({ table, values });
+        const where = () => ({
+          returning: async () => [{ id: 9, isActive: true, assumptions, ...values }],
+          then: (resolve: (value: undefined) => void) => resolve(undefined),
+        });
+        return { where };
+      },
+    })),
+    delete: vi.fn(() => ({
+      where: () => ({ returning: async () => deletedRows }),
+    })),
+  };
+  vi.mocked(db.transaction).mockImplementation(async (fn: any) => fn(tx));
+  return { tx, updates };
+}
+
+describe('FinancialAssumptionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should switch the active set and resync the idea in one transaction', async () => {
+    vi.spyOn(financialAssumptionService, 'getSet').mockResolvedValue({ id: 9 } as any);
+    const { updates } = fakeTransaction();
+
+    const set = await financialAssumptionService.activateSet(idea, 9);
+
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(set?.isActive).toBe(true);
+    expect(updates.map(u => u.table)).toEqual([financialAssumptionSets, financialAssumptionSets, ideas]);
+    expect(updates[2].values.breakEvenMonths).toBe(generateMonthlyFinancialModel(assumptions).summary.breakEvenMonth ?? 0);
+  });
+
+  it('should put the idea back on the default assumptions when the active set is deleted', async () => {
+    const { updates } = fakeTransaction([{ id: 9, isActive: true }]);
+
+    expect(await financialAssumptionService.deleteSet(idea, 9)).toBe(true);
+
+    const defaults = generateMonthlyFinancialModel(getDefaultAssumptions(idea));
+    expect(updates).toHaveLength(1);
+    expect(updates[0].table).toBe(ideas);
+    expect(updates[0].values).toMatchObject({
+      breakEvenMonths: defaults.summary.breakEvenMonth ?? 0,
+      financialProjections: defaults.yearly,
+    });
+  });
+
+  it('should leave the idea alone when an inactive or missing set is deleted', async () => {
+    const { updates } = fakeTransaction([{ id: 9, isActive: false }]);
+    expect(await financialAssumptionService.deleteSet(idea, 9)).toBe(true);
+
+    fakeTransaction([]);
+    expect(await financialAssumptionService.deleteSet(idea, 10)).toBe(false);
+
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyAssumptionOverrides,
+  generateMonthlyFinancialModel,
+  getDefaultAssumptions,
+} from '../financialModeling';
+import type { FinancialAssumptions } from '@shared/schema';
+
+const baseAssumptions: FinancialAssumptions = {
+  months: 36,
+  startingCash: 100000,
+  startingCustomers: 100,
+  pricing: { monthlyPricePerCustomer: 50, annualPriceIncrease: 0 },
+  funnel: { monthlyVisitors: 10000, monthlyVisitorGrowth: 0, signupRate: 0.05, paidConversionRate: 0.2 },
+  monthlyChurnRate: 0.05,
+  customerAcquisitionCost: 100,
+  cogsPercent: 0.2,
+  fixedMonthlyExpenses: 10000,
+  annualExpenseInflation: 0,
+  hiringPlan: [],
+};
+
+describe('Monthly financial model', () => {
+  describe('getDefaultAssumptions', () => {
+    it('should derive a valid 60 month assumption set from the idea', () => {
+      const assumptions = getDefaultAssumptions({
+        category: 'saas',
+        initialInvestment: 50000,
+        monthlyRevenue: 5000,
+        monthlyExpenses: 8000,
+      });
+
+      expect(assumptions.months).toBe(60);
+      expect(assumptions.startingCash).toBe(50000);
+      expect(assumptions.startingCustomers).toBe(100);
+      expect(assumptions.fixedMonthlyExpenses).toBe(5600);
+      expect(assumptions.funnel.monthlyVisitorGrowth).toBeGreaterThan(0);
+    });
+
+    it('should handle ideas without financial inputs', () => {
+      const assumptions = getDefaultAssumptions({ category: 'other' });
+      const model = generateMonthlyFinancialModel(assumptions);
+
+      expect(assumptions.startingCustomers).toBe(0);
+      expect(model.months).toHaveLength(60);
+    });
+  });
+
+  describe('generateMonthlyFinancialModel', () => {
+    it('should apply the funnel and churn each month', () => {
+      const model = generateMonthlyFinancialModel(baseAssumptions);
+      const [first] = model.months;
+
+      // 10000 visitors * 5% signup * 20% paid = 100 new, 5% of 100 churned
+      expect(first.newCustomers).toBe(100);
+      expect(first.churnedCustomers).toBe(5);
+      expect(first.customers).toBe(195);
+      expect(first.revenue).toBe(9750);
+      expect(first.marketing).toBe(10000);
+      expect(model.months).toHaveLength(36);
+      expect(model.yearly).toHaveLength(3);
+    });
+
+    it('should converge towards the churn-limited customer base', () => {
+      const model = generateMonthlyFinancialModel(baseAssumptions);
+      const last = model.months[model.months.length - 1];
+
+      // Steady state is new / churn = 2000 customers
+      expect(last.customers).toBeLessThan(2000);
+      expect(last.customers).toBeGreaterThan(1500);
+    });
+
+    it('should find the break-even month and track cash', () => {
+      const model = generateMonthlyFinancialModel(baseAssumptions);
+
+      expect(model.summary.breakEvenMonth).not.toBeNull();
+      const breakEven = model.months[model.summary.breakEvenMonth! - 1];
+      expect(breakEven.netIncome).toBeGreaterThanOrEqual(0);
+      expect(model.months[model.summary.breakEvenMonth! - 2].netIncome).toBeLessThan(0);
+      expect(model.summary.initialBurnRate).toBe(-model.months[0].netIncome);
+      expect(model.summary.runwayMonths).toBeNull();
+    });
+
+    it('should report runway when cash runs out', () => {
+      const model = generateMonthlyFinancialModel({
+        ...baseAssumptions,
+        startingCash: 20000,
+        hiringPlan: [{ role: 'Engineer', startMonth: 1, monthlySalary: 10000, count: 2 }],
+      });
+
+      expect(model.months[0].payroll).toBe(20000);
+      expect(model.months[0].headcount).toBe(2);
+      expect(model.summary.runwayMonths).not.toBeNull();
+      expect(model.months[model.summary.runwayMonths!].cashBalance).toBeLessThan(0);
+    });
+
+    it('should only add hires from their start month', () => {
+      const model = generateMonthlyFinancialModel({
+        ...baseAssumptions,
+        hiringPlan: [{ role: 'Designer', startMonth: 13, monthlySalary: 6000, count: 1 }],
+      });
+
+      expect(model.months[11].payroll).toBe(0);
+      expect(model.months[12].payroll).toBe(6000);
+    });
+
+    it('should apply annual price increases and expense inflation per year', () => {
+      const model = generateMonthlyFinancialModel({
+        ...baseAssumptions,
+        pricing: { monthlyPricePerCustomer: 50, annualPriceIncrease: 0.1 },
+        annualExpenseInflation: 0.1,
+      });
+
+      expect(model.months[11].pricePerCustomer).toBe(50);
+      expect(model.months[12].pricePerCustomer).toBe(55);
+      expect(model.months[12].fixedExpenses).toBe(11000);
+    });
+
+    it('should roll months up into cumulative yearly projections', () => {
+      const model = generateMonthlyFinancialModel(baseAssumptions);
+      const yearOneRevenue = model.months.slice(0, 12).reduce((sum, m) => sum + m.revenue, 0);
+
+      expect(model.yearly[0].revenue).toBe(yearOneRevenue);
+      expect(model.yearly[0].cashFlow).toBe(-baseAssumptions.startingCash + model.yearly[0].profit);
+      expect(model.yearly[1].cashFlow).toBe(model.yearly[0].cashFlow + model.yearly[1].profit);
+    });
+  });
+
+  describe('applyAssumptionOverrides', () => {
+    it('should merge nested groups field by field', () => {
+      const merged = applyAssumptionOverrides(baseAssumptions, {
+        monthlyChurnRate: 0.02,
+        funnel: { signupRate: 0.1 },
+      });
+
+      expect(merged.monthlyChurnRate).toBe(0.02);
+      expect(merged.funnel.signupRate).toBe(0.1);
+      expect(merged.funnel.monthlyVisitors).toBe(10000);
+      expect(merged.pricing).toEqual(baseAssumptions.pricing);
+    });
+  });
+});
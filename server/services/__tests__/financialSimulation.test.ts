@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  percentile,
+  runMonteCarloSimulation,
+  sampleDistribution,
+} from '../financialSimulation';
+import type { FinancialAssumptions } from '@shared/schema';
+
+const assumptions: FinancialAssumptions = {
+  months: 36,
+  startingCash: 100000,
+  startingCustomers: 100,
+  pricing: { monthlyPricePerCustomer: 50, annualPriceIncrease: 0 },
+  funnel: { monthlyVisitors: 10000, monthlyVisitorGrowth: 0.01, signupRate: 0.05, paidConversionRate: 0.2 },
+  monthlyChurnRate: 0.05,
+  customerAcquisitionCost: 100,
+  cogsPercent: 0.2,
+  fixedMonthlyExpenses: 10000,
+  annualExpenseInflation: 0,
+  hiringPlan: [],
+};
+
+const drivers = {
+  monthlyVisitorGrowth: { type: 'normal' as const, mean: 0.01, stdDev: 0.02 },
+  monthlyChurnRate: { type: 'uniform' as const, min: 0.02, max: 0.1 },
+  customerAcquisitionCost: { type: 'triangular' as const, min: 60, mode: 100, max: 200 },
+};
+
+describe('Monte Carlo financial simulation', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      const c = createSeededRandom(43);
+
+      const sequenceA = Array.from({ length: 5 }, a);
+      expect(Array.from({ length: 5 }, b)).toEqual(sequenceA);
+      expect(Array.from({ length: 5 }, c)).not.toEqual(sequenceA);
+      sequenceA.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+  });
+
+  describe('sampleDistribution', () => {
+    it('should keep uniform and triangular samples within bounds', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 200; i++) {
+        const uniform = sampleDistribution({ type: 'uniform', min: 2, max: 4 }, random);
+        const triangular = sampleDistribution({ type: 'triangular', min: 1, mode: 2, max: 5 }, random);
+        expect(uniform).toBeGreaterThanOrEqual(2);
+        expect(uniform).toBeLessThanOrEqual(4);
+        expect(triangular).toBeGreaterThanOrEqual(1);
+        expect(triangular).toBeLessThanOrEqual(5);
+      }
+    });
+
+    it('should centre normal samples on the mean', () => {
+      const random = createSeededRandom(11);
+      const samples = Array.from({ length: 2000 }, () =>
+        sampleDistribution({ type: 'normal', mean: 10, stdDev: 2 }, random)
+      );
+      const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+
+      expect(mean).toBeGreaterThan(9.8);
+      expect(mean).toBeLessThan(10.2);
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate between ranks', () => {
+      expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+      expect(percentile([0, 10], 10)).toBe(1);
+    });
+  });
+
+  describe('runMonteCarloSimulation', () => {
+    it('should be reproducible for a given seed', () => {
+      const first = runMonteCarloSimulation(assumptions, { iterations: 200, seed: 123, drivers });
+      const second = runMonteCarloSimulation(assumptions, { iterations: 200, seed: 123, drivers });
+      const other = runMonteCarloSimulation(assumptions, { iterations: 200, seed: 124, drivers });
+
+      expect(second).toEqual(first);
+      expect(other.months[35]).not.toEqual(first.months[35]);
+    });
+
+    it('should report ordered percentile bands for every month', () => {
+      const result = runMonteCarloSimulation(assumptions, { iterations: 200, seed: 1, drivers });
+
+      expect(result.months).toHaveLength(36);
+      result.months.forEach(month => {
+        expect(month.revenue.p10).toBeLessThanOrEqual(month.revenue.p50);
+        expect(month.revenue.p50).toBeLessThanOrEqual(month.revenue.p90);
+        expect(month.cashBalance.p10).toBeLessThanOrEqual(month.cashBalance.p90);
+      });
+      expect(result.months[35].revenue.p90).toBeGreaterThan(result.months[35].revenue.p10);
+    });
+
+    it('should collapse to the deterministic model without drivers', () => {
+      const result = runMonteCarloSimulation(assumptions, { iterations: 100, seed: 1, drivers: {} });
+
+      expect(result.months[0].revenue.p10).toBe(result.months[0].revenue.p90);
+      expect(result.breakEvenMonth.p10).toBe(result.breakEvenMonth.p90);
+      expect(result.breakEvenMonth.probabilityWithinHorizon).toBe(1);
+      expect(result.probabilityOfRunningOutOfCash).toBe(0);
+    });
+
+    it('should estimate the probability of running out of cash', () => {
+      const result = runMonteCarloSimulation(
+        { ...assumptions, startingCash: 40000 },
+        {
+          iterations: 300,
+          seed: 5,
+          drivers: { customerAcquisitionCost: { type: 'uniform', min: 50, max: 400 } },
+        }
+      );
+
+      expect(result.probabilityOfRunningOutOfCash).toBeGreaterThan(0);
+      expect(result.probabilityOfRunningOutOfCash).toBeLessThan(1);
+    });
+
+    it('should report null break-even percentiles when most runs never break even', () => {
+      const result = runMonteCarloSimulation(
+        { ...assumptions, fixedMonthlyExpenses: 500000 },
+        { iterations: 100, seed: 1, drivers }
+      );
+
+      expect(result.breakEvenMonth.p50).toBeNull();
+      expect(result.breakEvenMonth.probabilityWithinHorizon).toBe(0);
+      expect(result.probabilityOfRunningOutOfCash).toBe(1);
+    });
+  });
+});
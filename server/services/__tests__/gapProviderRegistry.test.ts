@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CircuitBreaker,
+  GapProviderError,
+  GapProviderRegistry,
+  StubGapProvider,
+  gapProviderRegistry,
+  validateGapResponse,
+  type GapDiscoveryProvider,
+  type GapProviderName,
+} from '../gapDiscovery';
+
+function createProvider(
+  name: GapProviderName,
+  behaviour: (repairHint?: string) => Promise<unknown>,
+  available = true
+): GapDiscoveryProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    isAvailable: () => available,
+    async discover(_query, options) {
+      this.calls++;
+      return behaviour(options?.repairHint);
+    },
+  };
+}
+
+const failing = () => Promise.reject(new Error('API down'));
+
+describe('GapProviderRegistry', () => {
+  let stub: StubGapProvider;
+
+  beforeEach(() => {
+    stub = new StubGapProvider();
+  });
+
+  it('should use the first provider that succeeds', async () => {
+    const registry = new GapProviderRegistry();
+    registry.register(createProvider('perplexity', failing));
+    registry.register(stub);
+    registry.setOrder(['perplexity', 'stub']);
+
+    const outcome = await registry.discover('fitness apps');
+
+    expect(outcome.provider).toBe('stub');
+    expect(outcome.results.length).toBeGreaterThan(0);
+    expect(outcome.attempts.map(a => a.status)).toEqual(['failed', 'success']);
+  });
+
+  it('should skip providers that are not configured', async () => {
+    const registry = new GapProviderRegistry();
+    const gemini = createProvider('gemini', failing, false);
+    registry.register(gemini);
+    registry.register(stub);
+    registry.setOrder(['gemini', 'stub']);
+
+    const outcome = await registry.discover('fintech');
+
+    expect(gemini.calls).toBe(0);
+    expect(outcome.attempts[0]).toMatchObject({ provider: 'gemini', status: 'skipped' });
+  });
+
+  it("should price analyses at the first configured provider's model", () => {
+    const registry = new GapProviderRegistry();
+    registry.register({ ...createProvider('perplexity', failing, false), model: 'sonar-pro' });
+    registry.register({ ...createProvider('xai', failing), model: 'grok-beta' });
+    registry.register(stub);
+
+    registry.setOrder(['perplexity', 'xai', 'stub']);
+    expect(registry.getLeadModel()).toBe('grok-beta');
+
+    registry.setOrder(['stub', 'xai']);
+    expect(registry.getLeadModel()).toBeUndefined();
+  });
+
+  it('should ignore unknown provider names in the order', () => {
+    const registry = new GapProviderRegistry();
+    registry.register(stub);
+    registry.setOrder(['openai', 'stub']);
+
+    expect(registry.getOrder()).toEqual(['stub']);
+  });
+
+  it('should accept every built-in provider in the configured order', () => {
+    const configured = gapProviderRegistry.getOrder();
+
+    gapProviderRegistry.setOrder(['perplexity', 'gemini', 'xai', 'stub']);
+    expect(gapProviderRegistry.getOrder()).toEqual(['perplexity', 'gemini', 'xai', 'stub']);
+
+    gapProviderRegistry.setOrder(configured);
+  });
+
+  it('should time out slow providers and fall back', async () => {
+    const registry = new GapProviderRegistry();
+    const slow = createProvider('perplexity', () => new Promise(() => {}));
+    registry.register(slow, { timeoutMs: 20 });
+    registry.register(stub);
+    registry.setOrder(['perplexity', 'stub']);
+
+    const outcome = await registry.discover('logistics');
+
+    expect(outcome.provider).toBe('stub');
+    expect(outcome.attempts[0].reason).toContain('Timed out');
+  });
+
+  it('should open the circuit after repeated failures', async () => {
+    const registry = new GapProviderRegistry();
+    const perplexity = createProvider('perplexity', failing);
+    registry.register(perplexity, { failureThreshold: 2, cooldownMs: 60000 });
+    registry.register(stub);
+    registry.setOrder(['perplexity', 'stub']);
+
+    await registry.discover('query one');
+    await registry.discover('query two');
+    const outcome = await registry.discover('query three');
+
+    expect(perplexity.calls).toBe(2);
+    expect(outcome.attempts[0]).toMatchObject({ provider: 'perplexity', status: 'skipped', reason: 'circuit open' });
+  });
+
+  it('should re-request with a repair hint when the response is invalid', async () => {
+    const registry = new GapProviderRegistry();
+    const hints: (string | undefined)[] = [];
+    const gemini = createProvider('gemini', async (repairHint) => {
+      hints.push(repairHint);
+      return repairHint
+        ? '[{"title": "Fixed", "description": "Now valid"}]'
+        : 'not json at all';
+    });
+    registry.register(gemini);
+    registry.setOrder(['gemini']);
+
+    const outcome = await registry.discover('retail');
+
+    expect(gemini.calls).toBe(2);
+    expect(hints[0]).toBeUndefined();
+    expect(hints[1]).toBeTruthy();
+    expect(outcome.results[0].title).toBe('Fixed');
+    expect(outcome.attempts.map(a => a.status)).toEqual(['invalid', 'success']);
+  });
+
+  it('should fall back once retries are exhausted', async () => {
+    const registry = new GapProviderRegistry();
+    const gemini = createProvider('gemini', async () => '[]');
+    registry.register(gemini, { maxRetries: 1 });
+    registry.register(stub);
+    registry.setOrder(['gemini', 'stub']);
+
+    const outcome = await registry.discover('retail');
+
+    expect(gemini.calls).toBe(2);
+    expect(outcome.provider).toBe('stub');
+  });
+
+  it('should throw GapProviderError when every provider fails', async () => {
+    const registry = new GapProviderRegistry();
+    registry.register(createProvider('gemini', failing));
+    registry.setOrder(['gemini']);
+
+    await expect(registry.discover('anything')).rejects.toBeInstanceOf(GapProviderError);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should allow a trial request after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+
+    breaker.recordFailure(0);
+    expect(breaker.canRequest(500)).toBe(false);
+    expect(breaker.canRequest(1000)).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+
+    breaker.recordFailure(1000);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should let only one caller through while the trial request is in flight', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+
+    breaker.recordFailure(0);
+    expect(breaker.canRequest(1000)).toBe(true);
+    expect(breaker.canRequest(1001)).toBe(false);
+    expect(breaker.canRequest(1002)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.canRequest(1003)).toBe(true);
+    expect(breaker.canRequest(1004)).toBe(true);
+  });
+
+  it('should send concurrent discoveries past a recovering provider until its trial settles', async () => {
+    let settle!: (value: unknown) => void;
+    const recovering = createProvider('perplexity', () => new Promise(resolve => { settle = resolve; }));
+    const registry = new GapProviderRegistry();
+    registry.register(recovering, { failureThreshold: 1, cooldownMs: 0, maxRetries: 0 });
+    registry.register(new StubGapProvider());
+    registry.setOrder(['perplexity', 'stub']);
+
+    (registry as any).providers.get('perplexity').breaker.recordFailure();
+
+    const trial = registry.discover('fitness apps');
+    const concurrent = await registry.discover('fitness apps');
+
+    expect(recovering.calls).toBe(1);
+    expect(concurrent.attempts[0]).toMatchObject({ provider: 'perplexity', status: 'skipped', reason: 'circuit open' });
+
+    settle(await new StubGapProvider().discover('fitness apps'));
+    expect((await trial).provider).toBe('perplexity');
+  });
+});
+
+describe('StubGapProvider', () => {
+  it('should return the same results for the same query', async () => {
+    const stub = new StubGapProvider();
+
+    const first = await stub.discover('healthcare innovations');
+    const second = await stub.discover('healthcare innovations');
+
+    expect(first).toEqual(second);
+    expect(validateGapResponse(first, 'stub').issues).toEqual([]);
+    expect(first[0].title).toBe('AI Health Companion for Chronic Conditions');
+  });
+
+  it('should not share fixture objects between calls', async () => {
+    const stub = new StubGapProvider();
+
+    const first = await stub.discover('anything');
+    first[0].title = 'Mutated';
+    const second = await stub.discover('anything');
+
+    expect(second[0].title).not.toBe('Mutated');
+  });
+});
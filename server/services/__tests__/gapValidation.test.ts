@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { repairJson, validateGapResponse } from '../gapDiscovery';
+
+const completeGap = {
+  title: 'AI Legal Document Reviewer',
+  description: 'Reviews contracts for small businesses',
+  category: 'technology',
+  feasibility: 'high',
+  marketPotential: 'high',
+  innovationScore: 8,
+  marketSize: '$1.2B',
+  gapReason: 'Liability concerns',
+  confidenceScore: 70,
+  priority: 'high',
+  actionableRecommendations: ['Interview small business owners'],
+  competitorAnalysis: 'Enterprise tools only',
+  industryContext: 'Legal tech',
+};
+
+describe('Gap response validation', () => {
+  describe('repairJson', () => {
+    it('should strip markdown fences', () => {
+      expect(repairJson('```json\n[{"a": 1}]\n```')).toEqual([{ a: 1 }]);
+    });
+
+    it('should extract JSON surrounded by prose and drop trailing commas', () => {
+      const text = 'Here are the gaps:\n[{"a": 1,}, {"b": 2},]\nHope this helps!';
+      expect(repairJson(text)).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+
+    it('should throw when there is no JSON payload', () => {
+      expect(() => repairJson('I could not find any gaps')).toThrow();
+    });
+  });
+
+  describe('validateGapResponse', () => {
+    it('should mark fields returned by the model', () => {
+      const { gaps, issues } = validateGapResponse({ gaps: [completeGap] }, 'gemini');
+
+      expect(issues).toEqual([]);
+      expect(gaps[0].provenance?.provider).toBe('gemini');
+      expect(gaps[0].provenance?.fields.confidenceScore).toBe('model');
+      expect(gaps[0].provenance?.fields.competitorAnalysis).toBe('model');
+    });
+
+    it('should coerce enums and numbers and mark them as repaired', () => {
+      const raw = JSON.stringify([{
+        ...completeGap,
+        category: "Tech That's Missing",
+        feasibility: 'High',
+        marketPotential: 'Moderate',
+        innovationScore: '8/10',
+        confidenceScore: '85%',
+      }]);
+
+      const { gaps } = validateGapResponse(raw, 'perplexity');
+      const [gap] = gaps;
+
+      expect(gap.category).toBe('technology');
+      expect(gap.feasibility).toBe('high');
+      expect(gap.marketPotential).toBe('medium');
+      expect(gap.innovationScore).toBe(8);
+      expect(gap.confidenceScore).toBe(85);
+      expect(gap.provenance?.fields.category).toBe('repaired');
+      expect(gap.provenance?.fields.innovationScore).toBe('repaired');
+    });
+
+    it('should derive priority and default missing fields', () => {
+      const { gaps, issues } = validateGapResponse([{
+        title: 'Neighborhood Tool Library',
+        description: 'Share tools with neighbors',
+        feasibility: 'high',
+        marketPotential: 'high',
+        category: 'not-a-category',
+      }], 'perplexity');
+      const [gap] = gaps;
+
+      expect(gap.priority).toBe('high');
+      expect(gap.provenance?.fields.priority).toBe('derived');
+      expect(gap.provenance?.fields.actionableRecommendations).toBe('derived');
+      expect(gap.provenance?.fields.confidenceScore).toBe('defaulted');
+      expect(gap.provenance?.fields.category).toBe('defaulted');
+      expect(gap.competitorAnalysis).toBeUndefined();
+      expect(issues).toContain('Gap 1: "category" had an invalid value');
+    });
+
+    it('should drop gaps without a title or description', () => {
+      const { gaps, issues } = validateGapResponse([{ description: 'No title' }, completeGap], 'gemini');
+
+      expect(gaps).toHaveLength(1);
+      expect(issues).toContain('Gap 1 is missing a title or description');
+    });
+
+    it('should report unparseable responses', () => {
+      const { gaps, issues } = validateGapResponse('Sorry, I cannot help with that', 'gemini');
+
+      expect(gaps).toEqual([]);
+      expect(issues.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { analyzeGaps, type GapAnalysisResult } from '../gemini';
 
+const subject = { userId: 1, userTier: 'pro' };
+
 describe('Enhanced Gemini Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -9,7 +11,7 @@ describe('Enhanced Gemini Service', () => {
   describe('analyzeGaps', () => {
     it('should return results with enhanced fields', async () => {
       const query = 'AI-powered fitness tracking';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       expect(results).toBeDefined();
       expect(Array.isArray(results)).toBe(true);
@@ -29,7 +31,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should categorize gaps into structured categories', async () => {
       const query = 'sustainable technology solutions';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       const validCategories = ['market', 'technology', 'ux', 'business_model'];
       
@@ -40,7 +42,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should provide confidence scores between 0-100', async () => {
       const query = 'healthcare innovations';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       results.forEach(gap => {
         expect(gap.confidenceScore).toBeGreaterThanOrEqual(0);
@@ -50,7 +52,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should include actionable recommendations', async () => {
       const query = 'fintech opportunities';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       results.forEach(gap => {
         expect(Array.isArray(gap.actionableRecommendations)).toBe(true);
@@ -61,7 +63,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should calculate priority correctly', async () => {
       const query = 'market opportunities';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       const validPriorities = ['high', 'medium', 'low'];
       
@@ -72,7 +74,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should include competitor analysis', async () => {
       const query = 'e-commerce innovations';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       results.forEach(gap => {
         expect(typeof gap.competitorAnalysis).toBe('string');
@@ -82,7 +84,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should include industry context', async () => {
       const query = 'education technology';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       results.forEach(gap => {
         expect(typeof gap.industryContext).toBe('string');
@@ -94,8 +96,8 @@ describe('Enhanced Gemini Service', () => {
       const query1 = 'AI solutions';
       const query2 = 'blockchain applications';
 
-      const results1 = await analyzeGaps(query1);
-      const results2 = await analyzeGaps(query2);
+      const results1 = await analyzeGaps(query1, subject);
+      const results2 = await analyzeGaps(query2, subject);
 
       // Both should have same structure
       const validateStructure = (results: GapAnalysisResult[]) => {
@@ -114,7 +116,7 @@ describe('Enhanced Gemini Service', () => {
 
     it('should prioritize high market potential + high feasibility as high priority', async () => {
       const query = 'business opportunities';
-      const results = await analyzeGaps(query);
+      const results = await analyzeGaps(query, subject);
 
       const highPriorityGaps = results.filter(
         gap => gap.marketPotential === 'high' && gap.feasibility === 'high'
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ContextWindow } from '../contextWindowManager';
+
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn(),
+}));
+
+vi.mock('../../config', () => ({
+  config: { geminiApiKey: 'test-key' },
+}));
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream } })),
+  FunctionCallingConfigMode: { AUTO: 'AUTO' },
+}));
+
+vi.mock('../conversations/contentModerator', () => ({
+  contentModerator: {
+    moderateAIResponse: vi.fn(async () => ({ approved: true })),
+  },
+}));
+
+vi.mock('../conversations/responseValidator', () => ({
+  responseValidator: {
+    validateResponse: vi.fn(async () => ({ isValid: true, issues: [], requiresReview: false, severity: 'low' })),
+    addDisclaimers: vi.fn((content: string) => content),
+  },
+}));
+
+import { generateResponse, generateStreamingResponse } from '../geminiConversationService';
+
+const context: ContextWindow = {
+  systemPrompt: 'You are a business analyst.',
+  analysisContext: '',
+  conversationHistory: '',
+  currentQuery: 'Who are the competitors?',
+  totalTokens: 200,
+};
+
+async function* chunks(...texts: string[]) {
+  for (const text of texts) {
+    yield { text };
+  }
+}
+
+describe('GeminiConversationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should generate a response with the requested model', async () => {
+    generateContent.mockResolvedValue({ text: 'Two incumbents dominate the market.' });
+
+    const response = await generateResponse(context, { model: 'gemini-2.5-flash' });
+
+    expect(response.content).toBe('Two incumbents dominate the market.');
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gemini-2.5-flash',
+      config: expect.objectContaining({ systemInstruction: context.systemPrompt }),
+      contents: expect.stringContaining('Who are the competitors?'),
+    }));
+  });
+
+  it('should stream chunks from the requested model', async () => {
+    generateContentStream.mockResolvedValue(chunks('Two incumbents ', 'dominate the market.'));
+    const streamed: string[] = [];
+
+    const response = await generateStreamingResponse(context, chunk => streamed.push(chunk), { model: 'gemini-2.5-flash' });
+
+    expect(generateContentStream).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.5-flash' }));
+    expect(streamed.join('')).toBe('Two incumbents dominate the market.');
+    expect(response.content).toBe('Two incumbents dominate the market.');
+  });
+});
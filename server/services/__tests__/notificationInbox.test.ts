@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '../../db';
+import { planWebSocketService } from '../planWebSocketService';
+import { notificationService } from '../notificationService';
+
+vi.mock('../../db', () => ({
+  db: {
+    insert: vi.fn(),
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../planWebSocketService', () => ({
+  planWebSocketService: {
+    getUserConnectionCount: vi.fn(),
+    sendNotification: vi.fn(),
+    sendNotificationsUpdated: vi.fn(),
+  },
+}));
+
+const storedNotification = {
+  id: 12,
+  userId: 5,
+  type: 'task_assigned',
+  title: 'New Task Assigned',
+  message: 'Ada assigned you "Interview customers" in Launch plan',
+  metadata: { planId: 3, taskId: 9 },
+  actionUrl: '/plans/3',
+  readAt: null,
+  createdAt: '2026-03-10 12:00:00',
+};
+
+/**
+ * Chainable query builder resolving to the given rows
+ */
+function queryResult(rows: unknown[]) {
+  const builder: any = {};
+  for (const method of ['values', 'set', 'from', 'where', 'orderBy', 'limit', 'returning']) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.then = (resolve: (value: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return builder;
+}
+
+describe('NotificationService inbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(notificationService, 'getUnreadCount').mockResolvedValue(4);
+  });
+
+  it('should store in-app notifications and push them to connected users', async () => {
+    vi.mocked(db.insert).mockReturnValue(queryResult([storedNotification]));
+    vi.mocked(planWebSocketService.getUserConnectionCount).mockReturnValue(2);
+
+    const notification = await (notificationService as any).createInAppNotification({
+      userId: 5,
+      type: 'task_assigned',
+      title: storedNotification.title,
+      message: storedNotification.message,
+      metadata: storedNotification.metadata,
+      actionUrl: '/plans/3',
+    });
+
+    expect(notification).toEqual({
+      id: 12,
+      userId: 5,
+      type: 'task_assigned',
+      title: storedNotification.title,
+      message: storedNotification.message,
+      metadata: { planId: 3, taskId: 9 },
+      read: false,
+      readAt: null,
+      createdAt: '2026-03-10 12:00:00',
+      actionUrl: '/plans/3',
+    });
+    expect(planWebSocketService.sendNotification).toHaveBeenCalledWith(5, notification, 4);
+  });
+
+  it('should only store notifications for users without an open connection', async () => {
+    vi.mocked(db.insert).mockReturnValue(queryResult([storedNotification]));
+    vi.mocked(planWebSocketService.getUserConnectionCount).mockReturnValue(0);
+
+    await (notificationService as any).createInAppNotification({
+      userId: 5,
+      type: 'task_assigned',
+      title: storedNotification.title,
+      message: storedNotification.message,
+      metadata: {},
+    });
+
+    expect(db.insert).toHaveBeenCalled();
+    expect(planWebSocketService.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it("should not mark another user's notification as read", async () => {
+    vi.mocked(db.select).mockReturnValue(queryResult([]));
+
+    const notification = await notificationService.markAsRead(5, 12);
+
+    expect(notification).toBeNull();
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("should sync the unread count to the user's other connections after marking all read", async () => {
+    vi.mocked(db.update).mockReturnValue(queryResult([{ id: 12 }, { id: 13 }]));
+    vi.mocked(planWebSocketService.getUserConnectionCount).mockReturnValue(1);
+
+    const updated = await notificationService.markAllAsRead(5);
+
+    expect(updated).toBe(2);
+    expect(planWebSocketService.sendNotificationsUpdated).toHaveBeenCalledWith(5, 4);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { notificationService } from '../notificationService';
+import { notificationService, isOverdueNotificationDue } from '../notificationService';
 
 /**
  * NotificationService Tests
@@ -58,4 +58,28 @@ describe('NotificationService', () => {
     expect(notificationService.processTaskReminders).toBeDefined();
     expect(typeof notificationService.processTaskReminders).toBe('function');
   });
+
+  it('should have processOverdueTasks method', () => {
+    expect(notificationService.processOverdueTasks).toBeDefined();
+    expect(typeof notificationService.processOverdueTasks).toBe('function');
+  });
+
+  describe('isOverdueNotificationDue', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('should always notify a task that has not been notified yet', () => {
+      expect(isOverdueNotificationDue(null, 'never', now)).toBe(true);
+    });
+
+    it('should repeat notifications according to the reminder frequency', () => {
+      expect(isOverdueNotificationDue('2026-03-09T11:00:00Z', 'daily', now)).toBe(true);
+      expect(isOverdueNotificationDue('2026-03-09T13:00:00Z', 'daily', now)).toBe(false);
+      expect(isOverdueNotificationDue('2026-03-05T12:00:00Z', 'weekly', now)).toBe(false);
+      expect(isOverdueNotificationDue('2026-03-03T12:00:00Z', 'weekly', now)).toBe(true);
+    });
+
+    it('should not repeat notifications when reminders are set to never', () => {
+      expect(isOverdueNotificationDue('2026-01-01T00:00:00Z', 'never', now)).toBe(false);
+    });
+  });
 });
@@ -440,17 +440,87 @@ describe('PlanExportService', () => {
     });
   });
 
+  describe('exportToICS', () => {
+    it('should emit VEVENTs for dated windows and VTODOs for due-only tasks', async () => {
+      mockPhases[0].tasks[0].startDate = '2025-01-02T09:00:00.000Z';
+      mockPhases[0].tasks[0].dueDate = '2025-01-03T17:00:00.000Z';
+      mockPhases[0].tasks[1].dueDate = '2025-01-10 23:59:59.999';
+
+      const buffer = await planExportService.exportPlan(mockPlan, mockPhases, { format: 'ics' });
+      const icsContent = buffer.toString('utf-8');
+
+      expect(icsContent.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(icsContent.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(icsContent).toContain('BEGIN:VEVENT\r\nUID:plan-1-task-1@unbuilt');
+      expect(icsContent).toContain('DTSTART:20250102T090000Z\r\nDTEND:20250103T170000Z');
+      expect(icsContent).toContain('BEGIN:VTODO\r\nUID:plan-1-task-2@unbuilt');
+      expect(icsContent).toContain('DUE:20250110T235959Z\r\nSTATUS:IN-PROCESS');
+      // Undated tasks are left out
+      expect(icsContent).not.toContain('Setup Development Environment');
+    });
+
+    it('should escape text and fold long lines', async () => {
+      mockPhases[0].tasks[1].dueDate = '2025-01-10T23:59:59.999Z';
+      mockPhases[0].tasks[1].title = 'Review pricing; packaging, and positioning';
+      mockPhases[0].tasks[1].description = 'A'.repeat(100);
+
+      const buffer = await planExportService.exportPlan(mockPlan, mockPhases, { format: 'ics' });
+      const icsContent = buffer.toString('utf-8');
+
+      expect(icsContent).toContain('SUMMARY:Review pricing\\; packaging\\, and positioning');
+      expect(icsContent).toContain(`DESCRIPTION:${'A'.repeat(63)}\r\n ${'A'.repeat(37)}`);
+    });
+  });
+
+  describe('exportToMSProject', () => {
+    it('should nest tasks under phase summary tasks with predecessor links', async () => {
+      mockPhases[0].tasks[0].startDate = '2025-01-02T09:00:00.000Z';
+      mockPhases[0].tasks[0].dueDate = '2025-01-03T17:00:00.000Z';
+
+      const buffer = await planExportService.exportPlan(mockPlan, mockPhases, {
+        format: 'msproject',
+        dependencies: new Map([[2, [1]], [3, [2]]]),
+      });
+      const xml = buffer.toString('utf-8');
+
+      expect(xml).toContain('<Project xmlns="http://schemas.microsoft.com/project">');
+      expect(xml).toContain('<Title>Test Action Plan</Title>');
+      // Phase 1 is UID 1, its tasks UIDs 2 and 3, phase 2 is UID 4
+      expect(xml).toMatch(/<UID>1<\/UID>[\s\S]*?<Name>Research Phase<\/Name>[\s\S]*?<Summary>1<\/Summary>/);
+      expect(xml).toMatch(/<UID>2<\/UID>[\s\S]*?<Start>2025-01-02T09:00:00<\/Start>\s*<Finish>2025-01-03T17:00:00<\/Finish>/);
+      expect(xml).toMatch(/<UID>3<\/UID>[\s\S]*?<PredecessorUID>2<\/PredecessorUID><Type>1<\/Type>/);
+      expect(xml).toMatch(/<UID>5<\/UID>[\s\S]*?<PredecessorUID>3<\/PredecessorUID>/);
+      expect(xml).toContain('<PercentComplete>100</PercentComplete>');
+    });
+
+    it('should drop links to tasks left out of the export', async () => {
+      const buffer = await planExportService.exportPlan(mockPlan, mockPhases, {
+        format: 'msproject',
+        includeCompleted: false,
+        dependencies: new Map([[2, [1]]]),
+      });
+      const xml = buffer.toString('utf-8');
+
+      expect(xml).not.toContain('Market Research');
+      expect(xml).not.toContain('<PredecessorLink>');
+    });
+  });
+
   describe('Utility Methods', () => {
     it('should return correct file extension for each format', () => {
       expect(planExportService.getFileExtension('csv')).toBe('csv');
       expect(planExportService.getFileExtension('json')).toBe('json');
       expect(planExportService.getFileExtension('markdown')).toBe('md');
+      expect(planExportService.getFileExtension('ics')).toBe('ics');
+      expect(planExportService.getFileExtension('msproject')).toBe('xml');
     });
 
     it('should return correct MIME type for each format', () => {
       expect(planExportService.getMimeType('csv')).toBe('text/csv');
       expect(planExportService.getMimeType('json')).toBe('application/json');
       expect(planExportService.getMimeType('markdown')).toBe('text/markdown');
+      expect(planExportService.getMimeType('ics')).toBe('text/calendar');
+      expect(planExportService.getMimeType('msproject')).toBe('application/xml');
     });
 
     it('should generate valid filename', () => {
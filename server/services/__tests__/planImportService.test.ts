@@ -0,0 +1,299 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { db } from '../../db';
+import { diffPlanImport, parseCsv, parseImportRows, planImportService } from '../planImportService';
+import { planExportService } from '../planExportService';
+import { planService } from '../planService';
+import { planVersionService } from '../planVersionService';
+import { planTasks } from '@shared/schema';
+import type { ActionPlan, PlanPhase, PlanTask, PlanVersion } from '@shared/schema';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../queryOptimizer', () => ({
+  invalidatePlanCache: vi.fn(),
+}));
+
+function task(id: number, phaseId: number, title: string, overrides: Partial<PlanTask> = {}): PlanTask {
+  return {
+    id,
+    phaseId,
+    planId: 1,
+    title,
+    description: null,
+    estimatedTime: '2 hours',
+    resources: [],
+    order: id,
+    status: 'not_started',
+    isCustom: false,
+    assigneeId: null,
+    startDate: null,
+    dueDate: null,
+    overdueNotifiedAt: null,
+    completedAt: null,
+    completedBy: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function phase(id: number, name: string, tasks: PlanTask[]): PlanPhase & { tasks: PlanTask[] } {
+  return {
+    id,
+    planId: 1,
+    name,
+    description: null,
+    order: id,
+    estimatedDuration: '1 week',
+    isCustom: false,
+    startDate: null,
+    dueDate: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    tasks,
+  };
+}
+
+const plan = {
+  id: 1,
+  title: 'Launch Plan',
+  description: null,
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  completedAt: null,
+} as ActionPlan;
+
+const phases = [
+  phase(1, 'Research', [
+    task(1, 1, 'Market research', { status: 'completed', completedAt: '2025-01-05T00:00:00.000Z' }),
+    task(2, 1, 'Competitor analysis', { dueDate: '2025-02-01 23:59:59.999' }),
+  ]),
+  phase(2, 'Build', [task(3, 2, 'Prototype', { resources: ['figma', 'notion'] })]),
+];
+
+async function exportCsv(): Promise<string> {
+  const buffer = await planExportService.exportPlan(plan, phases, {
+    format: 'csv',
+    includeCompleted: true,
+    includeSkipped: true,
+  });
+  return buffer.toString('utf-8');
+}
+
+/**
+ * CSV export with two tasks' orders swapped
+ */
+async function swappedCsv(): Promise<string> {
+  return (await exportCsv())
+    .replace(',Market research,1,', ',Market research,2,')
+    .replace(',Competitor analysis,2,', ',Competitor analysis,1,');
+}
+
+/**
+ * In-memory transaction over task (phase, order) slots that enforces
+ * the unique plan_tasks_phase_order_unique index on every write
+ */
+function taskSlotTransaction() {
+  const slots = new Map(phases.flatMap(p => p.tasks.map(t => [t.id, { phaseId: t.phaseId, order: t.order }] as const)));
+  const dialect = new PgDialect();
+  let nextId = 100;
+
+  const write = (id: number, values: any) => {
+    const slot = { ...slots.get(id), ...values };
+    slots.set(id, { phaseId: slot.phaseId, order: slot.order });
+    const keys = [...slots.values()].map(t => `${t.phaseId}:${t.order}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('duplicate key value violates unique constraint "plan_tasks_phase_order_unique"');
+    }
+    return { id, ...values };
+  };
+  const result = (rows: unknown[]) => ({
+    returning: async () => rows,
+    then: (resolve: (value: unknown) => unknown) => resolve(undefined),
+  });
+
+  const tx = {
+    update: (table: unknown) => ({
+      set: (values: any) => ({
+        where: (where: any) => {
+          const [id] = dialect.sqlToQuery(where).params as number[];
+          return result([table === planTasks ? write(id, values) : values]);
+        },
+      }),
+    }),
+    insert: (table: unknown) => ({
+      values: (values: any) => result([table === planTasks ? write(nextId++, values) : values]),
+    }),
+    delete: (table: unknown) => ({
+      where: (where: any) => {
+        if (table === planTasks) {
+          (dialect.sqlToQuery(where).params as number[]).forEach(id => slots.delete(id));
+        }
+        return result([]);
+      },
+    }),
+  };
+
+  return { tx, slots };
+}
+
+describe('PlanImportService', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted cells, escaped quotes, CRLF and blank lines', () => {
+      const rows = parseCsv('a,b\r\n"x, ""y""","line\nbreak"\r\n\r\n1,2');
+
+      expect(rows).toEqual([
+        ['a', 'b'],
+        ['x, "y"', 'line\nbreak'],
+        ['1', '2'],
+      ]);
+    });
+  });
+
+  describe('diffPlanImport', () => {
+    it('should report no changes for an unedited CSV export', async () => {
+      const { rows, options } = parseImportRows('csv', await exportCsv());
+      const diff = diffPlanImport(phases, rows, options);
+
+      expect(diff.created).toEqual([]);
+      expect(diff.updated).toEqual([]);
+      expect(diff.deleted).toEqual([]);
+      expect(diff.errors).toEqual([]);
+      expect(diff.unchanged).toBe(3);
+    });
+
+    it('should detect created, updated, moved and deleted tasks', async () => {
+      const lines = (await exportCsv()).split('\n');
+      const edited = [
+        lines[0],
+        // Task 2: new title, date-only due date, moved to Build
+        lines[2].replace('Research,', 'Build,').replace('Competitor analysis', 'Competitor teardown').replace(/2025-02-01T23:59:59\.999Z/, '2025-02-03'),
+        lines[3],
+        'Build,1,Landing page,,,in_progress,1 day,,,,,No,,,2025-02-10',
+      ].join('\n');
+
+      const { rows, options } = parseImportRows('csv', edited);
+      const diff = diffPlanImport(phases, rows, options);
+
+      expect(diff.errors).toEqual([]);
+      expect(diff.created).toHaveLength(1);
+      expect(diff.created[0]).toMatchObject({
+        phaseId: 2,
+        title: 'Landing page',
+        status: 'in_progress',
+        order: 4,
+        dueDate: '2025-02-10T23:59:59.999Z',
+      });
+      expect(diff.updated).toEqual([
+        expect.objectContaining({
+          taskId: 2,
+          phaseId: 2,
+          changes: [
+            { field: 'title', from: 'Competitor analysis', to: 'Competitor teardown' },
+            { field: 'dueDate', from: '2025-02-01T23:59:59.999Z', to: '2025-02-03T23:59:59.999Z' },
+            { field: 'phase', from: 'Research', to: 'Build' },
+          ],
+        }),
+      ]);
+      expect(diff.deleted).toEqual([{ taskId: 1, title: 'Market research', phaseName: 'Research' }]);
+      expect(diff.unchanged).toBe(1);
+    });
+
+    it('should leave fields alone when their column is missing', () => {
+      const { rows } = parseImportRows('csv', 'Phase,Task,Task ID\nResearch,Market research,1\nResearch,Competitor analysis,2\nBuild,Prototype,3');
+      const diff = diffPlanImport(phases, rows);
+
+      expect(diff.updated).toEqual([]);
+      expect(diff.unchanged).toBe(3);
+    });
+
+    it('should report row errors instead of guessing', () => {
+      const csv = [
+        'Phase,Task,Task ID,Status,Start Date,Due Date',
+        'Marketing,Launch ads,,,,',
+        'Research,Market research,99,,,',
+        'Research,Competitor analysis,2,done,,',
+        'Build,Prototype,3,,2025-03-10,2025-03-01',
+        'Build,Prototype again,3,,,',
+        'Build,Prototype,3,,,',
+      ].join('\n');
+
+      const diff = diffPlanImport(phases, parseImportRows('csv', csv).rows);
+
+      expect(diff.errors).toEqual([
+        { row: 1, message: 'Unknown phase "Marketing"' },
+        { row: 2, message: 'Task 99 does not belong to this plan' },
+        { row: 3, message: 'Invalid status "done"' },
+        { row: 4, message: 'Start date must be on or before the due date' },
+        { row: 6, message: 'Task 3 appears more than once' },
+      ]);
+    });
+
+    it('should not delete tasks a filtered JSON export left out', async () => {
+      const buffer = await planExportService.exportPlan(plan, phases, {
+        format: 'json',
+        includeCompleted: false,
+        includeSkipped: true,
+      });
+      const { rows, options } = parseImportRows('json', buffer.toString('utf-8'));
+      const diff = diffPlanImport(phases, rows, options);
+
+      expect(options.excludedStatuses).toEqual(['completed']);
+      expect(diff.deleted).toEqual([]);
+      expect(diff.unchanged).toBe(2);
+    });
+
+    it('should reject files that are not plan exports', () => {
+      expect(() => parseImportRows('json', '{"tasks": []}')).toThrow('JSON file does not match the plan export structure');
+      expect(() => parseImportRows('csv', 'Name,Owner\nx,y')).toThrow('CSV file must have Phase and Task columns');
+    });
+
+    it('should accept swapped task orders', async () => {
+      const diff = diffPlanImport(phases, parseImportRows('csv', await swappedCsv()).rows);
+
+      expect(diff.errors).toEqual([]);
+      expect(diff.updated.map(u => [u.taskId, u.changes])).toEqual([
+        [1, [{ field: 'order', from: 1, to: 2 }]],
+        [2, [{ field: 'order', from: 2, to: 1 }]],
+      ]);
+    });
+
+    it('should report rows that end up sharing an order within a phase', async () => {
+      const csv = (await exportCsv()).replace(',Competitor analysis,2,', ',Competitor analysis,1,');
+
+      const diff = diffPlanImport(phases, parseImportRows('csv', csv).rows);
+
+      expect(diff.errors).toEqual([
+        { row: 1, message: 'Task order 1 in phase "Research" is also used by "Competitor analysis"' },
+        { row: 2, message: 'Task order 1 in phase "Research" is also used by "Market research"' },
+      ]);
+    });
+  });
+
+  describe('applyImport', () => {
+    it('should apply swapped task orders in one transaction', async () => {
+      const { tx, slots } = taskSlotTransaction();
+      vi.mocked(db.transaction).mockImplementation(async (fn: any) => fn(tx));
+      vi.spyOn(planService, 'getPhasesWithTasks').mockResolvedValue(phases);
+      vi.spyOn(planVersionService, 'createAutoVersion').mockResolvedValue({ version: 2 } as PlanVersion);
+
+      const { result } = await planImportService.applyImport(1, 5, 'csv', await swappedCsv());
+
+      expect(result).toEqual({ created: 0, updated: 2, deleted: 0 });
+      expect(db.transaction).toHaveBeenCalledTimes(1);
+      expect(slots.get(1)).toEqual({ phaseId: 1, order: 2 });
+      expect(slots.get(2)).toEqual({ phaseId: 1, order: 1 });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { db } from '../../db';
+import { buildPlanSnapshot, diffPlanSnapshots, planVersionService } from '../planVersionService';
+import { planPhases, planTasks } from '@shared/schema';
+import type { PlanPhase, PlanTask, PlanVersion, PlanVersionSnapshot } from '@shared/schema';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../queryOptimizer', () => ({
+  invalidatePlanCache: vi.fn(),
+}));
+
+function task(id: number, phaseId: number, order: number, overrides: Partial<PlanTask> = {}): PlanTask {
+  return {
+    id,
+    phaseId,
+    planId: 1,
+    title: `Task ${id}`,
+    description: null,
+    estimatedTime: '2 hours',
+    resources: [],
+    order,
+    status: 'not_started',
+    isCustom: false,
+    assigneeId: null,
+    startDate: null,
+    dueDate: null,
+    overdueNotifiedAt: null,
+    completedAt: null,
+    completedBy: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function phase(id: number, name: string, order: number, tasks: PlanTask[]): PlanPhase & { tasks: PlanTask[] } {
+  return {
+    id,
+    planId: 1,
+    name,
+    description: null,
+    order,
+    estimatedDuration: null,
+    isCustom: false,
+    startDate: null,
+    dueDate: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    tasks,
+  };
+}
+
+const plan = { title: 'Launch', description: null, status: 'active' };
+
+type Slot = { phaseId?: number; order: number };
+
+/**
+ * In-memory transaction holding phase and task slots of a plan
+ * Every write is checked against the unique (plan, order) and (phase, order) indexes
+ */
+function slotTransaction(snapshot: PlanVersionSnapshot) {
+  const phases = new Map<number, Slot>(snapshot.phases.map(p => [p.id, { order: p.order }]));
+  const tasks = new Map<number, Slot>(
+    snapshot.phases.flatMap(p => p.tasks.map(t => [t.id, { phaseId: p.id, order: t.order }] as const))
+  );
+  const dialect = new PgDialect();
+  const params = (where: any) => dialect.sqlToQuery(where).params as number[];
+  const rowsOf = (table: unknown) => table === planPhases ? phases : table === planTasks ? tasks : null;
+
+  const assertUnique = () => {
+    const phaseSlots = [...phases.values()].map(p => p.order);
+    if (new Set(phaseSlots).size !== phaseSlots.length) {
+      throw new Error('duplicate key value violates unique constraint "plan_phases_plan_order_unique"');
+    }
+    const taskSlots = [...tasks.values()].map(t => `${t.phaseId}:${t.order}`);
+    if (new Set(taskSlots).size !== taskSlots.length) {
+      throw new Error('duplicate key value violates unique constraint "plan_tasks_phase_order_unique"');
+    }
+  };
+  const result = (rows: unknown[]) => ({
+    returning: async () => rows,
+    then: (resolve: (value: unknown) => unknown) => resolve(undefined),
+  });
+  const slot = (values: any): Slot => values.phaseId === undefined
+    ? { order: values.order }
+    : { phaseId: values.phaseId, order: values.order };
+
+  const tx = {
+    update: (table: unknown) => ({
+      set: (values: any) => ({
+        where: (where: any) => {
+          const rows = rowsOf(table);
+          const [id] = params(where);
+          if (rows && 'order' in values) {
+            rows.set(id, { ...rows.get(id)!, ...slot(values) });
+            assertUnique();
+          }
+          return result([{ id, ...values }]);
+        },
+      }),
+    }),
+    insert: (table: unknown) => ({
+      values: (values: any) => {
+        const rows = rowsOf(table);
+        if (rows) {
+          rows.set(values.id, slot(values));
+          assertUnique();
+        }
+        return result([values]);
+      },
+    }),
+    delete: (table: unknown) => ({
+      where: (where: any) => {
+        if (table === planTasks) {
+          params(where).forEach(id => tasks.delete(id));
+        } else if (table === planPhases) {
+          // and(planId, inArray(id)): the first parameter is the plan ID
+          const removed = params(where).slice(1);
+          removed.forEach(id => phases.delete(id));
+          for (const [taskId, task] of tasks) {
+            if (removed.includes(task.phaseId!)) tasks.delete(taskId);
+          }
+        }
+        return result([]);
+      },
+    }),
+  };
+
+  return { tx, phases, tasks };
+}
+
+/**
+ * Restore `target` over a plan currently at `current`, returning the resulting slots
+ */
+async function restore(current: PlanVersionSnapshot, target: PlanVersionSnapshot) {
+  const { tx, phases, tasks } = slotTransaction(current);
+  vi.mocked(db.transaction).mockImplementation(async (fn: any) => fn(tx));
+  vi.spyOn(planVersionService, 'getVersion').mockResolvedValue({ version: 1, snapshot: target } as PlanVersion);
+  vi.spyOn(planVersionService, 'createAutoVersion').mockResolvedValue({ version: 2, snapshot: current } as PlanVersion);
+
+  await planVersionService.restoreVersion(1, 1, 5);
+
+  return { phases: Object.fromEntries(phases), tasks: Object.fromEntries(tasks) };
+}
+
+function slotsOf(snapshot: PlanVersionSnapshot) {
+  return {
+    phases: Object.fromEntries(snapshot.phases.map(p => [p.id, { order: p.order }])),
+    tasks: Object.fromEntries(snapshot.phases.flatMap(p => p.tasks.map(t => [t.id, { phaseId: p.id, order: t.order }]))),
+  };
+}
+
+const baseline = buildPlanSnapshot(
+  plan,
+  [
+    phase(1, 'Research', 0, [task(1, 1, 0), task(2, 1, 1)]),
+    phase(2, 'Build', 1, [task(3, 2, 0)]),
+  ],
+  [{ taskId: 3, prerequisiteTaskId: 2 }]
+);
+
+describe('PlanVersionService', () => {
+  describe('buildPlanSnapshot', () => {
+    it('should order phases and tasks and normalize timestamps', () => {
+      const snapshot = buildPlanSnapshot(
+        plan,
+        [
+          phase(2, 'Build', 1, []),
+          phase(1, 'Research', 0, [
+            task(2, 1, 1, { dueDate: '2025-02-01 23:59:59.999' }),
+            task(1, 1, 0),
+          ]),
+        ],
+        [{ taskId: 2, prerequisiteTaskId: 1 }]
+      );
+
+      expect(snapshot.phases.map(p => p.name)).toEqual(['Research', 'Build']);
+      expect(snapshot.phases[0].tasks.map(t => t.id)).toEqual([1, 2]);
+      expect(snapshot.phases[0].tasks[1].dueDate).toBe('2025-02-01T23:59:59.999Z');
+      expect(snapshot.dependencies).toEqual([{ taskId: 2, prerequisiteTaskId: 1 }]);
+    });
+  });
+
+  describe('diffPlanSnapshots', () => {
+    it('should report nothing for identical snapshots', () => {
+      const diff = diffPlanSnapshots(baseline, baseline);
+
+      expect(diff.plan).toEqual([]);
+      expect(Object.values(diff.phases).flat()).toEqual([]);
+      expect(Object.values(diff.tasks).flat()).toEqual([]);
+      expect(Object.values(diff.dependencies).flat()).toEqual([]);
+    });
+
+    it('should detect added, removed, moved and re-statused tasks', () => {
+      const later = buildPlanSnapshot(
+        { ...plan, status: 'completed' },
+        [
+          phase(1, 'Discovery', 0, [task(1, 1, 0, { status: 'completed', title: 'Interviews' })]),
+          phase(2, 'Build', 1, [task(3, 2, 0), task(2, 2, 1)]),
+          phase(3, 'Launch', 2, [task(4, 3, 0)]),
+        ],
+        [{ taskId: 4, prerequisiteTaskId: 3 }]
+      );
+
+      const diff = diffPlanSnapshots(baseline, later);
+
+      expect(diff.plan).toEqual([{ field: 'status', from: 'active', to: 'completed' }]);
+      expect(diff.phases.added).toEqual([{ id: 3, name: 'Launch' }]);
+      expect(diff.phases.renamed).toEqual([{ id: 1, from: 'Research', to: 'Discovery' }]);
+      expect(diff.tasks.added).toEqual([{ id: 4, title: 'Task 4', phaseName: 'Launch' }]);
+      expect(diff.tasks.moved).toEqual([
+        { id: 2, title: 'Task 2', fromPhase: 'Research', toPhase: 'Build', fromOrder: 1, toOrder: 1 },
+      ]);
+      expect(diff.tasks.restatused).toEqual([{ id: 1, title: 'Interviews', from: 'not_started', to: 'completed' }]);
+      expect(diff.tasks.edited).toEqual([{ id: 1, title: 'Interviews', fields: ['title'] }]);
+      expect(diff.dependencies.added).toEqual([{ taskId: 4, prerequisiteTaskId: 3 }]);
+      expect(diff.dependencies.removed).toEqual([{ taskId: 3, prerequisiteTaskId: 2 }]);
+    });
+
+    it('should report removed phases and tasks when diffing backwards', () => {
+      const earlier = buildPlanSnapshot(plan, [phase(1, 'Research', 0, [task(1, 1, 0)])], []);
+
+      const diff = diffPlanSnapshots(baseline, earlier);
+
+      expect(diff.phases.removed).toEqual([{ id: 2, name: 'Build' }]);
+      expect(diff.tasks.removed.map(t => t.id)).toEqual([2, 3]);
+      expect(diff.dependencies.removed).toHaveLength(1);
+    });
+
+    it('should compare resources by value', () => {
+      const before = buildPlanSnapshot(plan, [phase(1, 'Research', 0, [task(1, 1, 0, { resources: ['a', 'b'] })])], []);
+      const same = buildPlanSnapshot(plan, [phase(1, 'Research', 0, [task(1, 1, 0, { resources: ['a', 'b'] })])], []);
+      const changed = buildPlanSnapshot(plan, [phase(1, 'Research', 0, [task(1, 1, 0, { resources: ['a'] })])], []);
+
+      expect(diffPlanSnapshots(before, same).tasks.edited).toEqual([]);
+      expect(diffPlanSnapshots(before, changed).tasks.edited).toEqual([{ id: 1, title: 'Task 1', fields: ['resources'] }]);
+    });
+  });
+
+  describe('restoreVersion', () => {
+    it('should restore after tasks and phases were swapped', async () => {
+      const swapped = buildPlanSnapshot(
+        plan,
+        [
+          phase(1, 'Research', 1, [task(2, 1, 0), task(1, 1, 1)]),
+          phase(2, 'Build', 0, [task(3, 2, 0)]),
+        ],
+        [{ taskId: 3, prerequisiteTaskId: 2 }]
+      );
+
+      expect(await restore(swapped, baseline)).toEqual(slotsOf(baseline));
+    });
+
+    it('should restore a deleted task whose slot was reused by a new task', async () => {
+      const reused = buildPlanSnapshot(
+        plan,
+        [
+          phase(1, 'Research', 0, [task(1, 1, 0), task(4, 1, 1)]),
+          phase(2, 'Build', 1, [task(3, 2, 0)]),
+        ],
+        []
+      );
+
+      expect(await restore(reused, baseline)).toEqual(slotsOf(baseline));
+    });
+
+    it('should move tasks out of phases added since the version before removing them', async () => {
+      const moved = buildPlanSnapshot(
+        plan,
+        [
+          phase(1, 'Research', 0, [task(1, 1, 0)]),
+          phase(3, 'Launch', 1, [task(2, 3, 0)]),
+          phase(2, 'Build', 2, [task(3, 2, 0)]),
+        ],
+        []
+      );
+
+      expect(await restore(moved, baseline)).toEqual(slotsOf(baseline));
+    });
+  });
+});
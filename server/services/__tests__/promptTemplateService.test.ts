@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { featureFlagService } from '../featureFlagService';
+import {
+  promptTemplateService,
+  findPromptVariables,
+  renderPrompt,
+} from '../promptTemplateService';
+import { DEFAULT_PROMPTS } from '../promptTemplateDefaults';
+
+vi.mock('../../db', () => ({
+  db: {},
+}));
+
+vi.mock('../featureFlagService', () => ({
+  featureFlagService: {
+    isFeatureEnabled: vi.fn(),
+    upsertFeatureFlag: vi.fn(),
+    getFeatureFlag: vi.fn(),
+  },
+}));
+
+function version(id: number, content: string) {
+  return { id, templateId: 1, version: id, content, notes: null, createdBy: null, createdAt: '2026-01-01' };
+}
+
+const template = {
+  id: 1,
+  key: 'conversation_system',
+  name: 'Conversation system prompt',
+  description: null,
+  variables: ['topic'],
+  activeVersionId: 1,
+  experimentVersionId: 2,
+  experimentFlag: 'prompt_experiment_conversation_system',
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+};
+
+describe('PromptTemplateService', () => {
+  let cachedTemplate: unknown;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cachedTemplate = {
+      template,
+      active: version(1, 'Active prompt about {{topic}}'),
+      experiment: version(2, 'Experiment prompt about {{ topic }}'),
+    };
+    vi.spyOn(promptTemplateService as any, 'getCachedTemplate').mockImplementation(async () => cachedTemplate);
+  });
+
+  it('should fill in variables and find the ones a prompt uses', () => {
+    expect(renderPrompt('Hello {{name}}, {{ greeting }} {{missing}}!', { name: 'Ada', greeting: 'welcome' }))
+      .toBe('Hello Ada, welcome !');
+    expect(findPromptVariables('{{a}} {{ b }} {{a}}')).toEqual(['a', 'b']);
+  });
+
+  it('should serve the built-in default until the prompt is edited', async () => {
+    cachedTemplate = null;
+
+    const rendered = await promptTemplateService.render('conversation_system', { topic: 'their gap analysis.' });
+
+    expect(rendered.versionId).toBeNull();
+    expect(rendered.content).toContain('You are an AI advisor for Unbuilt');
+    expect(rendered.content).toContain('about their gap analysis.');
+    expect(rendered.content).not.toContain('{{');
+  });
+
+  it('should serve the active version to users outside the experiment', async () => {
+    vi.mocked(featureFlagService.isFeatureEnabled).mockResolvedValue({ enabled: false, reason: 'rollout' } as any);
+
+    const rendered = await promptTemplateService.render('conversation_system', { topic: 'pricing' }, { userId: 7 });
+
+    expect(featureFlagService.isFeatureEnabled).toHaveBeenCalledWith('prompt_experiment_conversation_system', 7, undefined);
+    expect(rendered).toEqual({ content: 'Active prompt about pricing', versionId: 1, version: 1, experiment: false });
+  });
+
+  it('should serve the experiment version to users in its rollout', async () => {
+    vi.mocked(featureFlagService.isFeatureEnabled).mockResolvedValue({ enabled: true, reason: 'rollout' } as any);
+
+    const rendered = await promptTemplateService.render('conversation_system', { topic: 'pricing' }, { userId: 7, userTier: 'pro' });
+
+    expect(rendered).toEqual({ content: 'Experiment prompt about pricing', versionId: 2, version: 2, experiment: true });
+  });
+
+  it('should fall back to the built-in default when the registry cannot be read', async () => {
+    vi.spyOn(promptTemplateService as any, 'getCachedTemplate').mockRejectedValue(new Error('connection refused'));
+
+    const rendered = await promptTemplateService.render('action_plan_system');
+
+    expect(rendered).toEqual({
+      content: DEFAULT_PROMPTS.action_plan_system.content,
+      versionId: null,
+      version: null,
+      experiment: false,
+    });
+  });
+
+  it('should reject versions that use undeclared variables', async () => {
+    await expect(
+      promptTemplateService.createVersion('conversation_system', { content: 'About {{topic}} for {{userName}}' }, 1)
+    ).rejects.toThrow('Unknown prompt variables: userName');
+  });
+});
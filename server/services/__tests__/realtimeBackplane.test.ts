@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { ClusterState, InMemoryBus } from '../realtimeBackplane';
+import { PlanWebSocketService } from '../planWebSocketService';
+
+vi.mock('../../jwt', () => ({
+  jwtService: {
+    validateToken: vi.fn(),
+    extractTokenFromHeader: vi.fn(),
+  },
+}));
+
+/**
+ * Let queued backplane messages reach the other instances
+ */
+async function flushBackplane() {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+function mockSocket(): WebSocket {
+  return {
+    on: vi.fn(),
+    send: vi.fn(),
+    close: vi.fn(),
+    readyState: WebSocket.OPEN,
+  } as unknown as WebSocket;
+}
+
+function sendFrom(ws: WebSocket, message: object) {
+  const handler = vi.mocked(ws.on).mock.calls.find(call => call[0] === 'message')?.[1];
+  handler?.(JSON.stringify(message));
+}
+
+function sentMessages(ws: WebSocket) {
+  return vi.mocked(ws.send).mock.calls.map(call => JSON.parse(call[0] as string));
+}
+
+describe('Realtime backplane', () => {
+  describe('ClusterState', () => {
+    it('should mirror entries from other instances and drop them when an instance leaves', async () => {
+      const bus = new InMemoryBus();
+      const first = new ClusterState<string>(bus.connect('first'), 'presence');
+      const second = new ClusterState<string>(bus.connect('second'), 'presence');
+
+      first.set('plan-1/5', 'Alice');
+      second.set('plan-1/6', 'Bob');
+      await flushBackplane();
+
+      expect(first.entries().map(e => e.key).sort()).toEqual(['plan-1/5', 'plan-1/6']);
+      expect(second.entries().find(e => e.key === 'plan-1/5')?.instanceId).toBe('first');
+
+      second.close();
+      await flushBackplane();
+
+      expect(first.entries().map(e => e.key)).toEqual(['plan-1/5']);
+      first.close();
+    });
+
+    it('should hand existing entries to an instance that starts later', async () => {
+      const bus = new InMemoryBus();
+      const running = new ClusterState<number>(bus.connect('running'), 'connections');
+      running.set('5', 2);
+      await flushBackplane();
+
+      const started = new ClusterState<number>(bus.connect('started'), 'connections');
+      await flushBackplane();
+
+      expect(started.entries()).toEqual([{ key: '5', value: 2, instanceId: 'running' }]);
+      running.close();
+      started.close();
+    });
+  });
+
+  describe('PlanWebSocketService across instances', () => {
+    let first: PlanWebSocketService;
+    let second: PlanWebSocketService;
+
+    beforeEach(() => {
+      const bus = new InMemoryBus();
+      first = new PlanWebSocketService(bus.connect('first'));
+      second = new PlanWebSocketService(bus.connect('second'));
+    });
+
+    afterEach(() => {
+      first.shutdown();
+      second.shutdown();
+      vi.clearAllMocks();
+    });
+
+    it('should report plan participants connected to any instance', async () => {
+      const alice = mockSocket();
+      const bob = mockSocket();
+      first.handleConnection(alice, { userId: 5, email: 'alice@example.com', userName: 'alice' });
+      second.handleConnection(bob, { userId: 6, email: 'bob@example.com', userName: 'bob' });
+
+      sendFrom(alice, { type: 'join-plan', planId: '12' });
+      sendFrom(bob, { type: 'join-plan', planId: '12' });
+      await flushBackplane();
+
+      expect(first.getRoomInfo('12')?.participantCount).toBe(2);
+      expect(second.getAllRooms()).toEqual([expect.objectContaining({ planId: '12', participantCount: 2 })]);
+      expect(sentMessages(alice)).toContainEqual(expect.objectContaining({
+        type: 'join-plan',
+        data: expect.objectContaining({ userId: 6 }),
+      }));
+    });
+
+    it('should deliver plan broadcasts to sockets on other instances', async () => {
+      const bob = mockSocket();
+      second.handleConnection(bob, { userId: 6, email: 'bob@example.com', userName: 'bob' });
+      sendFrom(bob, { type: 'join-plan', planId: '12' });
+      await flushBackplane();
+      vi.mocked(bob.send).mockClear();
+
+      first.broadcastTaskDeleted('12', '40', 5);
+      await flushBackplane();
+
+      expect(sentMessages(bob)).toEqual([expect.objectContaining({ type: 'task-deleted', planId: '12' })]);
+    });
+
+    it('should count and reach a user connected to several instances', async () => {
+      const laptop = mockSocket();
+      const phone = mockSocket();
+      first.handleConnection(laptop, { userId: 5, email: 'alice@example.com', userName: 'alice' });
+      second.handleConnection(phone, { userId: 5, email: 'alice@example.com', userName: 'alice' });
+      await flushBackplane();
+      vi.mocked(laptop.send).mockClear();
+      vi.mocked(phone.send).mockClear();
+
+      first.sendNotificationsUpdated(5, 3);
+      await flushBackplane();
+
+      expect(first.getUserConnectionCount(5)).toBe(2);
+      expect(sentMessages(laptop)).toHaveLength(1);
+      expect(sentMessages(phone)).toHaveLength(1);
+    });
+  });
+});
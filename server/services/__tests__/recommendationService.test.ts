@@ -298,6 +298,91 @@ describe('RecommendationService', () => {
     });
   });
 
+  describe('detectDueDateRisks', () => {
+    // Monday 2026-03-02 09:00 UTC
+    const now = new Date('2026-03-02T09:00:00Z');
+
+    function mockQueries(phases: any[], tasks: any[], dependencies: any[] = []) {
+      const results = [phases, tasks, dependencies];
+      (db.select as any).mockImplementation(() => {
+        const result = results.shift();
+        return { from: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(result) }) };
+      });
+    }
+
+    function task(id: number, overrides: Record<string, any> = {}) {
+      return {
+        id,
+        planId: 1,
+        phaseId: 1,
+        title: `Task ${id}`,
+        status: 'not_started',
+        order: id,
+        estimatedTime: '1 day',
+        assigneeId: null,
+        startDate: null,
+        dueDate: null,
+        ...overrides,
+      };
+    }
+
+    const phase = { id: 1, planId: 1, name: 'Build', order: 0, dueDate: null };
+
+    it('should flag open tasks past their due date as overdue', async () => {
+      mockQueries([phase], [
+        task(1, { dueDate: '2026-02-27T23:59:59.999Z' }),
+        task(2, { dueDate: '2026-02-27T23:59:59.999Z', status: 'completed' }),
+      ]);
+
+      const recommendations = await service.detectDueDateRisks(1, now);
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].type).toBe('overdue');
+      expect(recommendations[0].priority).toBe('high');
+      expect(recommendations[0].metadata?.taskId).toBe(1);
+      expect(recommendations[0].metadata?.daysOverdue).toBe(2);
+    });
+
+    it('should flag tasks projected to finish after their due date as at risk', async () => {
+      // Task 2 waits on a 3 day prerequisite, so it can't finish by Tuesday
+      mockQueries(
+        [phase],
+        [task(1, { estimatedTime: '3 days' }), task(2, { dueDate: '2026-03-03T23:59:59.999Z' })],
+        [{ taskId: 2, prerequisiteTaskId: 1 }]
+      );
+
+      const recommendations = await service.detectDueDateRisks(1, now);
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].type).toBe('at_risk');
+      expect(recommendations[0].metadata?.taskId).toBe(2);
+      expect(recommendations[0].metadata?.projectedFinish).toBe('2026-03-05T17:00:00.000Z');
+      expect(recommendations[0].metadata?.daysLate).toBe(2);
+    });
+
+    it('should flag phases whose open work runs past the phase due date', async () => {
+      mockQueries(
+        [{ ...phase, dueDate: '2026-03-03T23:59:59.999Z' }],
+        [task(1, { estimatedTime: '1 week' })]
+      );
+
+      const recommendations = await service.detectDueDateRisks(1, now);
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].id).toBe('at-risk-phase-1');
+      expect(recommendations[0].metadata?.phaseId).toBe(1);
+    });
+
+    it('should skip the schedule when nothing has a due date', async () => {
+      mockQueries([phase], [task(1)]);
+
+      const recommendations = await service.detectDueDateRisks(1, now);
+
+      expect(recommendations).toHaveLength(0);
+      expect(db.select).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('getRecommendationsForPlan', () => {
     it('should throw error if user does not have access to plan', async () => {
       const planId = 1;
@@ -319,6 +404,7 @@ describe('RecommendationService', () => {
 
       // Use spies to mock the individual methods
       const stuckTasksSpy = vi.spyOn(service, 'detectStuckTasks').mockResolvedValue([]);
+      const dueDateSpy = vi.spyOn(service, 'detectDueDateRisks').mockResolvedValue([]);
       const phaseCompleteSpy = vi.spyOn(service, 'recommendResourcesForCompletedPhases').mockResolvedValue([]);
       const planReviewSpy = vi.spyOn(service, 'detectPlanReviewNeeded').mockResolvedValue([]);
       const taskTipsSpy = vi.spyOn(service, 'generateTaskTips').mockResolvedValue([]);
@@ -334,12 +420,14 @@ describe('RecommendationService', () => {
 
       expect(recommendations).toBeInstanceOf(Array);
       expect(stuckTasksSpy).toHaveBeenCalledWith(planId);
+      expect(dueDateSpy).toHaveBeenCalledWith(planId);
       expect(phaseCompleteSpy).toHaveBeenCalledWith(planId);
       expect(planReviewSpy).toHaveBeenCalledWith(planId);
       expect(taskTipsSpy).toHaveBeenCalledWith(planId);
 
       // Cleanup spies
       stuckTasksSpy.mockRestore();
+      dueDateSpy.mockRestore();
       phaseCompleteSpy.mockRestore();
       planReviewSpy.mockRestore();
       taskTipsSpy.mockRestore();
@@ -350,6 +438,7 @@ describe('RecommendationService', () => {
       const userId = 1;
 
       // Create a spy on the service methods
+      const dueDateSpy = vi.spyOn(service, 'detectDueDateRisks').mockResolvedValue([]);
       const stuckTasksSpy = vi.spyOn(service, 'detectStuckTasks').mockResolvedValue([
         {
           id: 'stuck-1',
@@ -403,6 +492,7 @@ describe('RecommendationService', () => {
 
       // Cleanup spies
       stuckTasksSpy.mockRestore();
+      dueDateSpy.mockRestore();
       phaseCompleteSpy.mockRestore();
       planReviewSpy.mockRestore();
       taskTipsSpy.mockRestore();
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  addWorkingHours,
+  computeSchedule,
+  DEFAULT_CALENDAR,
+  parseEstimatedHours,
+  scheduleService,
+  workingHoursBetween,
+} from '../scheduleService';
+import { dependencyService } from '../dependencyService';
+
+// Mock the database
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+function task(id: number, estimatedTime: string | null, overrides: Partial<{ assigneeId: number | null; status: string; startDate: string | null }> = {}) {
+  return {
+    id,
+    title: `Task ${id}`,
+    phaseId: 1,
+    assigneeId: null,
+    status: 'not_started',
+    estimatedTime,
+    ...overrides,
+  };
+}
+
+// Monday 2026-03-02 00:00 UTC
+const monday = new Date('2026-03-02T00:00:00Z');
+
+describe('ScheduleService', () => {
+  describe('parseEstimatedHours', () => {
+    it('should parse common estimate formats into working hours', () => {
+      expect(parseEstimatedHours('4 hours')).toBe(4);
+      expect(parseEstimatedHours('2h')).toBe(2);
+      expect(parseEstimatedHours('30 minutes')).toBe(0.5);
+      expect(parseEstimatedHours('3 days')).toBe(24);
+      expect(parseEstimatedHours('1 week')).toBe(40);
+      expect(parseEstimatedHours('1 month')).toBe(160);
+    });
+
+    it('should use the upper bound of ranges', () => {
+      expect(parseEstimatedHours('2-3 days')).toBe(24);
+      expect(parseEstimatedHours('1 to 2 weeks')).toBe(80);
+    });
+
+    it('should return null for missing or unparseable estimates', () => {
+      expect(parseEstimatedHours(null)).toBeNull();
+      expect(parseEstimatedHours('a while')).toBeNull();
+    });
+  });
+
+  describe('addWorkingHours', () => {
+    it('should start at the beginning of the working day', () => {
+      expect(addWorkingHours(monday, 0, DEFAULT_CALENDAR).toISOString()).toBe('2026-03-02T09:00:00.000Z');
+    });
+
+    it('should finish at the end of a full day rather than the next morning', () => {
+      expect(addWorkingHours(monday, 8, DEFAULT_CALENDAR).toISOString()).toBe('2026-03-02T17:00:00.000Z');
+    });
+
+    it('should skip weekends and holidays', () => {
+      const calendar = { ...DEFAULT_CALENDAR, holidays: ['2026-03-09'] };
+      // 5 days fills the week, the 6th lands on Tuesday after the Monday holiday
+      expect(addWorkingHours(monday, 44, calendar).toISOString()).toBe('2026-03-10T13:00:00.000Z');
+    });
+  });
+
+  describe('workingHoursBetween', () => {
+    it('should count only working hours across weekends', () => {
+      expect(workingHoursBetween(monday, new Date('2026-03-02T13:00:00Z'), DEFAULT_CALENDAR)).toBe(4);
+      expect(workingHoursBetween(monday, new Date('2026-03-09T09:00:00Z'), DEFAULT_CALENDAR)).toBe(40);
+    });
+
+    it('should return zero when the target is not later', () => {
+      expect(workingHoursBetween(monday, new Date('2026-03-01T00:00:00Z'), DEFAULT_CALENDAR)).toBe(0);
+    });
+  });
+
+  describe('computeSchedule', () => {
+    it('should compute earliest and latest times, slack and the critical path', () => {
+      // 1 -> 2 -> 4 (long chain), 1 -> 3 -> 4 (short branch)
+      const tasks = [task(1, '1 day'), task(2, '2 days'), task(3, '4 hours'), task(4, '1 day')];
+      const prerequisites = new Map([[2, [1]], [3, [1]], [4, [2, 3]]]);
+
+      const schedule = computeSchedule(10, tasks, prerequisites, { startDate: monday });
+      const byId = new Map(schedule.tasks.map(t => [t.taskId, t]));
+
+      expect(schedule.totalWorkingHours).toBe(32);
+      expect(schedule.criticalPath).toEqual([1, 2, 4]);
+      expect(byId.get(3)!.slackHours).toBe(12);
+      expect(byId.get(3)!.isCritical).toBe(false);
+      expect(byId.get(4)!.earliestStart).toBe(24);
+      expect(byId.get(4)!.latestStart).toBe(24);
+      expect(schedule.finishDate).toBe('2026-03-05T17:00:00.000Z');
+    });
+
+    it('should not let one assignee work two tasks at once', () => {
+      const tasks = [
+        task(1, '1 day', { assigneeId: 7 }),
+        task(2, '1 day', { assigneeId: 7 }),
+        task(3, '1 day', { assigneeId: 8 }),
+      ];
+
+      const schedule = computeSchedule(10, tasks, new Map(), { startDate: monday });
+      const byId = new Map(schedule.tasks.map(t => [t.taskId, t]));
+
+      expect(schedule.totalWorkingHours).toBe(16);
+      expect(byId.get(2)!.earliestStart).toBe(8);
+      expect(schedule.criticalPath).toEqual([1, 2]);
+      expect(byId.get(3)!.slackHours).toBe(8);
+    });
+
+    it('should stretch durations for part-time assignees', () => {
+      const schedule = computeSchedule(10, [task(1, '8 hours', { assigneeId: 7 })], new Map(), {
+        startDate: monday,
+        capacity: { 7: 4 },
+      });
+
+      expect(schedule.tasks[0].durationHours).toBe(16);
+    });
+
+    it('should treat finished tasks as zero length and default unknown estimates', () => {
+      const tasks = [task(1, '1 week', { status: 'completed' }), task(2, null)];
+      const schedule = computeSchedule(10, tasks, new Map([[2, [1]]]), { startDate: monday });
+
+      expect(schedule.tasks[0].durationHours).toBe(0);
+      expect(schedule.tasks[0].estimateSource).toBe('done');
+      expect(schedule.tasks[0].isCritical).toBe(false);
+      expect(schedule.tasks[1].estimateSource).toBe('default');
+      expect(schedule.totalWorkingHours).toBe(4);
+    });
+
+    it('should not start a task before its pinned start date', () => {
+      const tasks = [
+        task(1, '1 day'),
+        task(2, '1 day', { startDate: '2026-03-04T09:00:00Z' }),
+        task(3, '1 day', { startDate: '2026-03-04T09:00:00Z', status: 'completed' }),
+      ];
+
+      const schedule = computeSchedule(10, tasks, new Map(), { startDate: monday });
+      const byId = new Map(schedule.tasks.map(t => [t.taskId, t]));
+
+      expect(byId.get(2)!.earliestStart).toBe(16);
+      expect(byId.get(2)!.startDate).toBe('2026-03-04T09:00:00.000Z');
+      expect(byId.get(3)!.earliestStart).toBe(0);
+      expect(schedule.criticalPath).toEqual([2]);
+    });
+
+    it('should reject circular dependencies', () => {
+      const tasks = [task(1, '1 day'), task(2, '1 day')];
+
+      expect(() => computeSchedule(10, tasks, new Map([[1, [2]], [2, [1]]]))).toThrow('Circular dependency');
+    });
+  });
+
+  describe('findBlockingPrerequisite', () => {
+    const schedule = computeSchedule(10, [task(1, '2 days'), task(2, '1 day')], new Map([[2, [1]]]), { startDate: monday });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return a prerequisite that finishes after the requested start', async () => {
+      vi.spyOn(dependencyService, 'getPlanDependencies').mockResolvedValue(
+        new Map([[2, { prerequisites: [1], dependents: [] }]])
+      );
+      vi.spyOn(scheduleService, 'getPlanSchedule').mockResolvedValue(schedule);
+
+      // Task 1 finishes at the end of Tuesday
+      const early = await scheduleService.findBlockingPrerequisite(10, 5, 2, new Date('2026-03-03T09:00:00Z'));
+      const later = await scheduleService.findBlockingPrerequisite(10, 5, 2, new Date('2026-03-04T09:00:00Z'));
+
+      expect(early?.taskId).toBe(1);
+      expect(later).toBeNull();
+    });
+
+    it('should skip the schedule for tasks without prerequisites', async () => {
+      vi.spyOn(dependencyService, 'getPlanDependencies').mockResolvedValue(new Map());
+      const getPlanSchedule = vi.spyOn(scheduleService, 'getPlanSchedule');
+
+      expect(await scheduleService.findBlockingPrerequisite(10, 5, 1, monday)).toBeNull();
+      expect(getPlanSchedule).not.toHaveBeenCalled();
+    });
+  });
+});
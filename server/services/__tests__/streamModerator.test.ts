@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { contentModerator } from '../conversations/contentModerator';
+import { StreamModerator } from '../conversations/streamModerator';
+
+vi.mock('../conversations/contentModerator', () => ({
+  contentModerator: {
+    moderateAIResponse: vi.fn(),
+  },
+}));
+
+const approved = { approved: true, severity: 'low' as const, categories: [], requiresReview: false };
+const blocked = {
+  approved: false,
+  reason: 'AI response contains violence',
+  severity: 'high' as const,
+  categories: ['violence'],
+  requiresReview: true,
+};
+
+describe('StreamModerator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentModerator.moderateAIResponse).mockResolvedValue(approved);
+  });
+
+  it('should hold tokens back until a sentence boundary', async () => {
+    const released: string[] = [];
+    const moderator = new StreamModerator(text => released.push(text), { userId: 5 });
+
+    await moderator.push('Clinics still ');
+    await moderator.push('book by phone');
+    expect(released).toEqual([]);
+
+    await moderator.push('. ');
+    expect(released).toEqual(['Clinics still book by phone. ']);
+    expect(contentModerator.moderateAIResponse).toHaveBeenCalledWith('Clinics still book by phone. ', { userId: 5 });
+
+    await moderator.push('Vets lack CRMs');
+    await moderator.flush();
+    expect(released).toEqual(['Clinics still book by phone. ', 'Vets lack CRMs']);
+    expect(moderator.content).toBe('Clinics still book by phone. Vets lack CRMs');
+  });
+
+  it('should release long runs without a boundary at the size checkpoint', async () => {
+    const released: string[] = [];
+    const moderator = new StreamModerator(text => released.push(text), {}, 10);
+
+    await moderator.push('abcdef');
+    expect(released).toEqual([]);
+
+    await moderator.push('ghijkl');
+    expect(released).toEqual(['abcdefghijkl']);
+  });
+
+  it('should moderate the whole response so far and never release blocked text', async () => {
+    const released: string[] = [];
+    const moderator = new StreamModerator(text => released.push(text));
+
+    expect(await moderator.push('First sentence. ')).toBe(true);
+
+    vi.mocked(contentModerator.moderateAIResponse).mockResolvedValueOnce(blocked);
+    expect(await moderator.push('Second sentence. ')).toBe(false);
+
+    expect(contentModerator.moderateAIResponse).toHaveBeenLastCalledWith('First sentence. Second sentence. ', {});
+    expect(released).toEqual(['First sentence. ']);
+    expect(moderator.rejection).toEqual(blocked);
+
+    expect(await moderator.push('Third sentence. ')).toBe(false);
+    expect(await moderator.flush()).toBe(false);
+    expect(contentModerator.moderateAIResponse).toHaveBeenCalledTimes(2);
+  });
+});
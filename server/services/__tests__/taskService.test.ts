@@ -427,6 +427,30 @@ describe('TaskService', () => {
       const updateEntry = history.find(h => h.action === 'updated');
       expect(updateEntry).toBeDefined();
     });
+
+    it('should only reset the overdue notification when the due date moves', async () => {
+      const notifiedAt = '2025-03-02T08:00:00.000Z';
+      const [task] = await db
+        .insert(planTasks)
+        .values({
+          phaseId: testPhase.id,
+          planId: testPlan.id,
+          title: 'Overdue Task',
+          order: 0,
+          status: 'not_started',
+          isCustom: false,
+          dueDate: '2025-03-01T00:00:00.000Z',
+          overdueNotifiedAt: notifiedAt,
+        })
+        .returning();
+
+      // Same instant, formatted the way the database returns it
+      const unchanged = await taskService.updateTask(task.id, testUser.id, { dueDate: task.dueDate });
+      expect(unchanged.overdueNotifiedAt).not.toBeNull();
+
+      const moved = await taskService.updateTask(task.id, testUser.id, { dueDate: '2025-03-08T00:00:00.000Z' });
+      expect(moved.overdueNotifiedAt).toBeNull();
+    });
   });
 
   describe('updateTaskStatus', () => {
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { actionPlans } from '@shared/schema';
+import { db } from '../../db';
+import { TeamPermission, TeamRole } from '../authorizationService';
+import { workspaceService } from '../workspaceService';
+import { planService } from '../planService';
+
+vi.mock('../../db', () => ({
+  db: {
+    select: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+const alice = { id: 5, email: 'alice@example.com' } as any;
+
+/**
+ * Chainable query builder resolving to the given rows
+ */
+function queryResult(rows: unknown[]) {
+  const builder: any = {};
+  for (const method of ['set', 'from', 'leftJoin', 'where', 'groupBy', 'orderBy', 'limit', 'returning']) {
+    builder[method] = vi.fn(() => builder);
+  }
+  builder.then = (resolve: (value: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+    Promise.resolve(rows).then(resolve, reject);
+  return builder;
+}
+
+describe('WorkspaceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getTeamRole', () => {
+    it('should return the role of an active member', async () => {
+      vi.mocked(db.select).mockReturnValueOnce(queryResult([{ role: 'viewer' }]));
+
+      expect(await workspaceService.getTeamRole(3, 5)).toBe(TeamRole.VIEWER);
+      expect(db.select).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat the team owner as owner without a member row', async () => {
+      vi.mocked(db.select)
+        .mockReturnValueOnce(queryResult([]))
+        .mockReturnValueOnce(queryResult([{ ownerId: '5' }]));
+
+      expect(await workspaceService.getTeamRole(3, 5)).toBe(TeamRole.OWNER);
+    });
+
+    it('should return null for users outside the team', async () => {
+      vi.mocked(db.select)
+        .mockReturnValueOnce(queryResult([]))
+        .mockReturnValueOnce(queryResult([{ ownerId: '9' }]));
+
+      expect(await workspaceService.getTeamRole(3, 5)).toBeNull();
+    });
+  });
+
+  describe('canAccess', () => {
+    it('should let owners through without looking up a team role', async () => {
+      expect(await workspaceService.canAccess(alice, { userId: 5, teamId: 3 }, 'delete')).toBe(true);
+      expect(db.select).not.toHaveBeenCalled();
+    });
+
+    it('should deny personal resources of other users', async () => {
+      expect(await workspaceService.canAccess(alice, { userId: 9, teamId: null }, 'read')).toBe(false);
+      expect(db.select).not.toHaveBeenCalled();
+    });
+
+    it('should apply the team role to team resources', async () => {
+      vi.mocked(db.select).mockReturnValue(queryResult([{ role: 'member' }]));
+
+      expect(await workspaceService.canAccess(alice, { userId: 9, teamId: 3 }, 'write')).toBe(true);
+      expect(await workspaceService.canAccess(alice, { userId: 9, teamId: 3 }, 'delete')).toBe(false);
+    });
+  });
+
+  describe('hasAccess', () => {
+    it('should require a team role granting the permission', async () => {
+      vi.mocked(db.select).mockReturnValue(queryResult([{ role: 'viewer' }]));
+
+      expect(await workspaceService.hasAccess(5, { userId: 9, teamId: 3 }, TeamPermission.VIEW)).toBe(true);
+      expect(await workspaceService.hasAccess(5, { userId: 9, teamId: 3 }, TeamPermission.EDIT)).toBe(false);
+    });
+  });
+
+  describe('accessCondition', () => {
+    it('should match owned rows and rows in teams whose role grants the permission', () => {
+      const query = new PgDialect().sqlToQuery(
+        workspaceService.accessCondition(actionPlans, 5, TeamPermission.EDIT)
+      );
+
+      expect(query.sql).toContain('"action_plans"."user_id" = $1');
+      expect(query.sql).toContain('"action_plans"."team_id" in (select');
+      expect(query.params).toEqual([5, '5', 'owner', 'admin', 'member', '5']);
+    });
+  });
+
+  describe('listWorkspaces', () => {
+    it('should list teams with the user\'s role and active member count', async () => {
+      vi.mocked(db.select)
+        .mockReturnValueOnce(queryResult([
+          { teamId: 3, name: 'Founders', ownerId: '5', role: 'owner' },
+          { teamId: 4, name: 'Advisors', ownerId: '9', role: 'viewer' },
+        ]))
+        .mockReturnValueOnce(queryResult([{ teamId: 3, count: 4 }, { teamId: 4, count: 2 }]));
+
+      expect(await workspaceService.listWorkspaces(5)).toEqual([
+        { teamId: 3, name: 'Founders', role: 'owner', memberCount: 4 },
+        { teamId: 4, name: 'Advisors', role: 'viewer', memberCount: 2 },
+      ]);
+    });
+  });
+
+  describe('task assignment', () => {
+    it('should only allow the owner on a personal plan', async () => {
+      const plan = { userId: 5, teamId: null };
+
+      expect(await workspaceService.isAssignable(plan, 5)).toBe(true);
+      expect(await workspaceService.isAssignable(plan, 9)).toBe(false);
+    });
+
+    it('should allow members of a team plan and reject outsiders', async () => {
+      const plan = { userId: 5, teamId: 3 };
+      vi.mocked(db.select)
+        .mockReturnValueOnce(queryResult([{ role: 'viewer' }]))
+        .mockReturnValueOnce(queryResult([]))
+        .mockReturnValueOnce(queryResult([]));
+
+      expect(await workspaceService.isAssignable(plan, 9)).toBe(true);
+      expect(await workspaceService.isAssignable(plan, 11)).toBe(false);
+    });
+
+    it('should list the team members with invited rows left out', async () => {
+      vi.mocked(db.select).mockReturnValueOnce(queryResult([
+        { userId: '5', email: 'alice@example.com', role: 'owner' },
+        { userId: '9', email: 'bob@example.com', role: 'member' },
+      ]));
+
+      const assignees = await workspaceService.getAssignees({ userId: 5, teamId: 3 });
+
+      expect(assignees).toEqual([
+        { userId: 5, email: 'alice@example.com', role: 'owner' },
+        { userId: 9, email: 'bob@example.com', role: 'member' },
+      ]);
+    });
+  });
+
+  describe('moveResource', () => {
+    it('should drop the cached plan so access follows the move', async () => {
+      const teamPlan = { id: 7001, userId: 9, teamId: 3, title: 'Launch' };
+      vi.mocked(db.select)
+        .mockReturnValueOnce(queryResult([teamPlan]))
+        .mockReturnValueOnce(queryResult([{ role: 'member' }]))
+        .mockReturnValueOnce(queryResult([{ ...teamPlan, teamId: null }]));
+      vi.mocked(db.update).mockReturnValueOnce(queryResult([{ userId: 9 }]));
+
+      expect(await planService.getPlanById(7001, 5)).toMatchObject({ teamId: 3 });
+
+      await workspaceService.moveResource('plan', 7001, null);
+
+      expect(await planService.getPlanById(7001, 5)).toBeNull();
+      expect(await planService.getPlanById(7001, 9)).toMatchObject({ teamId: null });
+    });
+  });
+});
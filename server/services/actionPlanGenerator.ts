@@ -1,8 +1,12 @@
 import axios from 'axios';
 import type { Idea } from '@shared/schema';
+import { aiBudgetService, type AIBudgetSubject } from './aiBudgetService';
+import { tokenEstimator } from './tokenEstimator';
 
 const XAI_API_KEY = process.env.XAI_API_KEY;
 const XAI_API_URL = 'https://api.x.ai/v1/chat/completions';
+const XAI_MODEL = 'grok-2-1212';
+const MAX_OUTPUT_TOKENS = 6000;
 
 export interface Milestone {
   id: string;
@@ -85,6 +89,7 @@ export interface ActionPlan {
 
 export async function generateActionPlan(
   idea: Partial<Idea>,
+  subject: AIBudgetSubject,
   validationScore?: number,
   marketSize?: string
 ): Promise<ActionPlan> {
@@ -93,109 +98,78 @@ export async function generateActionPlan(
     return getFallbackActionPlan(idea);
   }
 
-  const prompt = `Generate a comprehensive 4-phase action plan for launching this validated business idea:
+  const { promptTemplateService } = await import('./promptTemplateService');
+  const [{ content: prompt }, { content: systemPrompt }] = await Promise.all([
+    promptTemplateService.render('action_plan', {
+      title: idea.title,
+      description: idea.description,
+      targetMarket: idea.targetMarket,
+      businessModel: idea.businessModel,
+      category: idea.category,
+      validationScore: validationScore ?? 'Not provided',
+      marketSize: marketSize ?? 'Not provided',
+      initialInvestment: idea.initialInvestment ? `$${idea.initialInvestment}` : 'Not specified',
+    }, subject),
+    promptTemplateService.render('action_plan_system', {}, subject),
+  ]);
 
-Title: ${idea.title}
-Description: ${idea.description}
-Target Market: ${idea.targetMarket}
-Business Model: ${idea.businessModel}
-Category: ${idea.category}
-Validation Score: ${validationScore ?? 'Not provided'}
-Market Size: ${marketSize ?? 'Not provided'}
-Initial Investment: ${idea.initialInvestment ? `$${idea.initialInvestment}` : 'Not specified'}
+  const inputTokens = await tokenEstimator.estimateTokensForSegments([systemPrompt, prompt]);
 
-Create a detailed, actionable roadmap with:
-
-1. PHASE 1 - DISCOVERY & VALIDATION (0-3 months)
-   - Market research milestones
-   - Customer discovery activities
-   - MVP definition
-   - Team formation
-   - Initial funding
-
-2. PHASE 2 - DEVELOPMENT & TESTING (3-9 months)
-   - Product development milestones
-   - Alpha/Beta testing
-   - Early customer acquisition
-   - Product-market fit validation
-   - Seed funding preparation
-
-3. PHASE 3 - LAUNCH & MARKET ENTRY (9-15 months)
-   - Go-to-market execution
-   - Marketing campaigns
-   - Sales activation
-   - Operations scaling
-   - Series A preparation
+  return aiBudgetService.runWithinBudget<ActionPlan>(subject, 'action_plan', {
+    model: XAI_MODEL,
+    inputTokens,
+    maxOutputTokens: MAX_OUTPUT_TOKENS,
+  }, async () => {
+    try {
+      const response = await axios.post(
+        XAI_API_URL,
+        {
+          model: XAI_MODEL,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: 0.7,
+          max_tokens: MAX_OUTPUT_TOKENS,
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${XAI_API_KEY}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
 
-4. PHASE 4 - GROWTH & SCALE (15-27 months)
-   - Market expansion
-   - Product enhancement
-   - Team scaling
-   - Revenue optimization
-   - Strategic partnerships
+      const content = response.data.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('No content in xAI response');
+      }
 
-For each phase include:
-- Specific milestones with timelines
-- Resource requirements (team, tools, budget)
-- Success criteria and KPIs
-- Risk mitigation strategies
-- Decision gates
+      const usage = { inputTokens, outputTokens: await tokenEstimator.estimateTokens(content) };
 
-Also provide:
-- Critical path analysis
-- Resource planning
-- Contingency plans
-- Immediate next actions
+      try {
+        const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+        const plan = JSON.parse(cleanContent);
 
-Return ONLY a JSON object matching the ActionPlan interface structure, no additional text.`;
+        // Add ideaId to the plan
+        plan.ideaId = idea.id || 0;
 
-  try {
-    const response = await axios.post(
-      XAI_API_URL,
-      {
-        model: 'grok-2-1212',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a strategic business planning expert. Provide detailed, actionable roadmaps in JSON format only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 6000,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${XAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
+        return { result: plan, ...usage };
+      } catch (parseError) {
+        console.error('Error parsing xAI action plan response:', parseError);
+        return { result: getFallbackActionPlan(idea), ...usage };
       }
-    );
-
-    const content = response.data.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in xAI response');
+    } catch (error) {
+      console.error('xAI action plan generation error:', error);
+      return { result: getFallbackActionPlan(idea), inputTokens: 0, outputTokens: 0 };
     }
-
-    try {
-      const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      const plan = JSON.parse(cleanContent);
-      
-      // Add ideaId to the plan
-      plan.ideaId = idea.id || 0;
-      
-      return plan;
-    } catch (parseError) {
-      console.error('Error parsing xAI action plan response:', parseError);
-      return getFallbackActionPlan(idea);
-    }
-  } catch (error) {
-    console.error('xAI action plan generation error:', error);
-    return getFallbackActionPlan(idea);
-  }
+  });
 }
 
 function getFallbackActionPlan(idea: Partial<Idea>): ActionPlan {
@@ -1,98 +1,322 @@
-import { createHash } from 'crypto';
-import { GapAnalysisResult } from './gemini';
-
-interface CacheEntry {
-  query: string;
-  results: GapAnalysisResult[];
-  timestamp: number;
-  hitCount: number;
+import { and, desc, eq, gt, lte, sql } from 'drizzle-orm';
+import { gapAnalysisCache } from '@shared/schema';
+import { db } from '../db';
+import type { GapAnalysisResult } from './gapDiscovery';
+
+/**
+ * AI Gap Analysis Cache
+ *
+ * Persists gap analyses in the database so they survive restarts, and
+ * serves near-duplicate queries ("fitness tracking apps" vs "app for
+ * fitness tracking") from the same entry. Lookups try the normalized
+ * query first, then fall back to a similarity scan over recent entries
+ * that tolerates misspellings but never an added or dropped word: a
+ * narrower search must not be served a broader search's gaps.
+ */
+
+export interface AICacheSetOptions {
+  provider: string;
+  /** Time to live for this entry, defaults to 24 hours */
+  ttlSeconds?: number;
 }
 
-class AICache {
-  private cache: Map<string, CacheEntry> = new Map();
-  private readonly TTL = 24 * 60 * 60 * 1000; // 24 hours cache
-  private readonly MAX_ENTRIES = 1000;
+interface AICacheCounters {
+  exactHits: number;
+  similarHits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+}
 
-  private generateKey(query: string): string {
-    // Create hash of normalized query for cache key
-    const normalized = query.toLowerCase().trim();
-    return createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+const SIMILARITY_THRESHOLD = parseFloat(process.env.GAP_CACHE_SIMILARITY_THRESHOLD || '0.9');
+const MAX_SIMILARITY_CANDIDATES = 500;
+// Below this, two words are different words rather than spellings of one ("app" vs "api")
+const MIN_TOKEN_SIMILARITY = 0.75;
+
+// Words that don't change what a market gap search is about
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'for', 'of', 'in', 'on', 'to', 'with',
+  'by', 'at', 'from', 'about', 'that', 'this', 'is', 'are', 'my', 'our',
+]);
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
   }
+  return previous[b.length];
+}
 
-  get(query: string): GapAnalysisResult[] | null {
-    const key = this.generateKey(query);
-    const entry = this.cache.get(key);
+/**
+ * Similarity (0-1) of two normalized queries
+ * Every word must pair with a spelling of the same word in the other query,
+ * so queries with different word counts score 0. The score is the share of
+ * characters the paired words have in common.
+ */
+function querySimilarity(a: string, b: string): number {
+  const left = a.split(' ').filter(Boolean);
+  const remaining = b.split(' ').filter(Boolean);
+  if (left.length === 0 || left.length !== remaining.length) {
+    return 0;
+  }
 
-    if (!entry) return null;
+  let distance = 0;
+  let length = 0;
+  for (const token of left) {
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    remaining.forEach((candidate, index) => {
+      const d = editDistance(token, candidate);
+      if (d < bestDistance) {
+        bestIndex = index;
+        bestDistance = d;
+      }
+    });
 
-    // Check if cache is expired
-    if (Date.now() - entry.timestamp > this.TTL) {
-      this.cache.delete(key);
-      return null;
+    const [match] = remaining.splice(bestIndex, 1);
+    const pairLength = Math.max(token.length, match.length);
+    if (1 - bestDistance / pairLength < MIN_TOKEN_SIMILARITY) {
+      return 0;
     }
+    distance += bestDistance;
+    length += pairLength;
+  }
 
-    // Increment hit count for analytics
-    entry.hitCount++;
-    
-    console.log(`✨ Cache hit for query: "${query}" (${entry.hitCount} hits)`);
-    return entry.results;
+  return 1 - distance / length;
+}
+
+class AICache {
+  private counters: AICacheCounters = this.emptyCounters();
+
+  /**
+   * Normalize a query into a stable cache key: lowercase, no punctuation,
+   * no stopwords, naive singular forms, de-duplicated and sorted tokens.
+   */
+  normalizeQuery(query: string): string {
+    const tokens = query
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token && !STOPWORDS.has(token))
+      .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+    return Array.from(new Set(tokens)).sort().join(' ');
   }
 
-  set(query: string, results: GapAnalysisResult[]): void {
-    const key = this.generateKey(query);
+  async get(query: string): Promise<GapAnalysisResult[] | null> {
+    const normalized = this.normalizeQuery(query);
+    const now = new Date().toISOString();
 
-    // Implement LRU eviction if cache is full
-    if (this.cache.size >= this.MAX_ENTRIES) {
-      const oldestKey = this.findOldestEntry();
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+    try {
+      const [exact] = await db
+        .select()
+        .from(gapAnalysisCache)
+        .where(and(eq(gapAnalysisCache.normalizedQuery, normalized), gt(gapAnalysisCache.expiresAt, now)))
+        .limit(1);
+
+      if (exact) {
+        this.counters.exactHits++;
+        await this.recordHit(exact.id);
+        console.log(`✨ Cache hit for query: "${query}"`);
+        return exact.results as GapAnalysisResult[];
       }
+
+      // Only keys are scanned; results are loaded for the winning entry alone
+      const candidates = await db
+        .select({
+          id: gapAnalysisCache.id,
+          normalizedQuery: gapAnalysisCache.normalizedQuery,
+        })
+        .from(gapAnalysisCache)
+        .where(gt(gapAnalysisCache.expiresAt, now))
+        .orderBy(desc(gapAnalysisCache.createdAt))
+        .limit(MAX_SIMILARITY_CANDIDATES);
+
+      const match = this.findBestMatch(normalized, candidates);
+      if (match) {
+        const [entry] = await db
+          .select({ query: gapAnalysisCache.query, results: gapAnalysisCache.results })
+          .from(gapAnalysisCache)
+          .where(and(eq(gapAnalysisCache.id, match.id), gt(gapAnalysisCache.expiresAt, now)))
+          .limit(1);
+
+        if (entry) {
+          this.counters.similarHits++;
+          await this.recordHit(match.id);
+          console.log(`✨ Similar cache hit for query: "${query}" (matched "${entry.query}")`);
+          return entry.results as GapAnalysisResult[];
+        }
+      }
+
+      this.counters.misses++;
+      return null;
+    } catch (error) {
+      // The cache is an optimization - never fail a search because of it
+      this.counters.errors++;
+      this.counters.misses++;
+      console.error('❌ Gap analysis cache lookup failed:', error);
+      return null;
     }
+  }
 
-    this.cache.set(key, {
-      query,
-      results,
-      timestamp: Date.now(),
-      hitCount: 0
-    });
+  async set(query: string, results: GapAnalysisResult[], options: AICacheSetOptions): Promise<void> {
+    const normalizedQuery = this.normalizeQuery(query);
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+
+    try {
+      await db
+        .insert(gapAnalysisCache)
+        .values({ normalizedQuery, query, results, provider: options.provider, expiresAt })
+        .onConflictDoUpdate({
+          target: gapAnalysisCache.normalizedQuery,
+          set: {
+            query,
+            results,
+            provider: options.provider,
+            expiresAt,
+            hitCount: 0,
+            createdAt: new Date().toISOString(),
+          },
+        });
 
-    console.log(`💾 Cached results for query: "${query}"`);
+      this.counters.writes++;
+      console.log(`💾 Cached results for query: "${query}"`);
+    } catch (error) {
+      this.counters.errors++;
+      console.error('❌ Failed to write gap analysis cache:', error);
+    }
   }
 
-  private findOldestEntry(): string | null {
-    let oldestKey: string | null = null;
-    let oldestTime = Infinity;
+  /**
+   * Invalidate the entry for a query, matched by normalized form
+   */
+  async invalidate(query: string): Promise<number> {
+    const deleted = await db
+      .delete(gapAnalysisCache)
+      .where(eq(gapAnalysisCache.normalizedQuery, this.normalizeQuery(query)))
+      .returning({ id: gapAnalysisCache.id });
 
-    Array.from(this.cache.entries()).forEach(([key, entry]) => {
-      if (entry.timestamp < oldestTime) {
-        oldestTime = entry.timestamp;
-        oldestKey = key;
-      }
-    });
+    return deleted.length;
+  }
+
+  async invalidateById(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(gapAnalysisCache)
+      .where(eq(gapAnalysisCache.id, id))
+      .returning({ id: gapAnalysisCache.id });
 
-    return oldestKey;
+    return deleted.length > 0;
   }
 
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<number> {
+    const deleted = await db.delete(gapAnalysisCache).returning({ id: gapAnalysisCache.id });
     console.log('🧹 Cache cleared');
+    return deleted.length;
   }
 
-  getStats() {
-    let totalHits = 0;
-    let totalQueries = this.cache.size;
-    
-    Array.from(this.cache.values()).forEach(entry => {
-      totalHits += entry.hitCount;
-    });
+  /**
+   * Remove expired entries, returns the number removed
+   */
+  async purgeExpired(): Promise<number> {
+    const deleted = await db
+      .delete(gapAnalysisCache)
+      .where(lte(gapAnalysisCache.expiresAt, new Date().toISOString()))
+      .returning({ id: gapAnalysisCache.id });
+
+    return deleted.length;
+  }
+
+  async listEntries(limit: number = 50) {
+    return db
+      .select({
+        id: gapAnalysisCache.id,
+        query: gapAnalysisCache.query,
+        normalizedQuery: gapAnalysisCache.normalizedQuery,
+        provider: gapAnalysisCache.provider,
+        hitCount: gapAnalysisCache.hitCount,
+        expiresAt: gapAnalysisCache.expiresAt,
+        lastHitAt: gapAnalysisCache.lastHitAt,
+        createdAt: gapAnalysisCache.createdAt,
+      })
+      .from(gapAnalysisCache)
+      .orderBy(desc(gapAnalysisCache.createdAt))
+      .limit(limit);
+  }
+
+  async getStats() {
+    const { exactHits, similarHits, misses, writes, errors } = this.counters;
+    const hits = exactHits + similarHits;
+    const lookups = hits + misses;
+
+    let entries = { total: 0, active: 0 };
+    try {
+      const [row] = await db
+        .select({
+          total: sql<number>`count(*)::int`,
+          active: sql<number>`count(*) filter (where ${gapAnalysisCache.expiresAt} > now())::int`,
+        })
+        .from(gapAnalysisCache);
+      entries = row ?? entries;
+    } catch (error) {
+      console.error('❌ Failed to count gap analysis cache entries:', error);
+    }
 
     return {
-      totalQueries,
-      totalHits,
-      cacheSize: this.cache.size,
-      hitRate: totalQueries > 0 ? (totalHits / (totalHits + totalQueries)) : 0
+      hits,
+      exactHits,
+      similarHits,
+      misses,
+      writes,
+      errors,
+      hitRate: lookups > 0 ? hits / lookups : 0,
+      totalEntries: entries.total,
+      activeEntries: entries.active,
+      similarityThreshold: SIMILARITY_THRESHOLD,
     };
   }
+
+  resetStats(): void {
+    this.counters = this.emptyCounters();
+  }
+
+  private findBestMatch<T extends { normalizedQuery: string }>(normalized: string, candidates: T[]): T | null {
+    let best: T | null = null;
+    let bestScore = SIMILARITY_THRESHOLD;
+
+    for (const candidate of candidates) {
+      const score = querySimilarity(normalized, candidate.normalizedQuery);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private async recordHit(id: number): Promise<void> {
+    await db
+      .update(gapAnalysisCache)
+      .set({
+        hitCount: sql`${gapAnalysisCache.hitCount} + 1`,
+        lastHitAt: new Date().toISOString(),
+      })
+      .where(eq(gapAnalysisCache.id, id));
+  }
+
+  private emptyCounters(): AICacheCounters {
+    return { exactHits: 0, similarHits: 0, misses: 0, writes: 0, errors: 0 };
+  }
 }
 
-export const aiCache = new AICache();
\ No newline at end of file
+export const aiCache = new AICache();
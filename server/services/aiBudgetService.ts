@@ -0,0 +1,791 @@
+/**
+ * AI Budget Service
+ *
+ * Enforces monthly AI spend budgets for users and teams on every AI feature. A call is priced
+ * before it is made and checked against every budget it counts toward: calls that would take
+ * spend over a limit switch to a cheaper model or are blocked. An allowed call holds its
+ * estimated cost in the ledger until its actual spend is recorded, so concurrent calls cannot
+ * each pass on the same remaining budget. Alerts go out as thresholds are crossed.
+ */
+
+import { db } from '../db';
+import { and, eq, gte, inArray, sql } from 'drizzle-orm';
+import {
+  aiBudgets,
+  aiSpendLedger,
+  teamMembers,
+  teams,
+  users,
+  type AIBudget,
+  type AIBudgetDecision,
+  type AIBudgetHardCapAction,
+  type AIBudgetScope,
+  type AIBudgetStatus,
+} from '@shared/schema';
+import { notificationService } from './notificationService';
+import { AppError } from '../middleware/errorHandler';
+
+type UserTier = 'free' | 'pro' | 'enterprise';
+
+// Budget checks read inside the transaction holding their locks, so they never wait on a second connection
+type Executor = Pick<typeof db, 'select'>;
+
+/**
+ * Model answers are generated with unless a budget forces the cheaper one
+ */
+export const PRIMARY_MODEL = 'gemini-2.5-pro-latest';
+
+/**
+ * Cheaper model calls are degraded to once a budget would be exceeded
+ */
+export const BUDGET_FALLBACK_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Price per million tokens, in dollars
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [PRIMARY_MODEL]: { input: 1.25, output: 5.0 },
+  [BUDGET_FALLBACK_MODEL]: { input: 0.30, output: 2.50 },
+  // Gap analysis, action plans and idea validation also call Perplexity and xAI
+  'sonar-pro': { input: 3.0, output: 15.0 },
+  'grok-beta': { input: 5.0, output: 15.0 },
+  'grok-2-1212': { input: 2.0, output: 10.0 },
+};
+
+/**
+ * Monthly limits for users and teams without a configured limit
+ */
+export const DEFAULT_MONTHLY_LIMIT_CENTS: Record<UserTier, number> = {
+  free: 100, // $1
+  pro: 2000, // $20
+  enterprise: 10000, // $100
+};
+
+const DEFAULT_HARD_CAP_ACTION: Record<UserTier, AIBudgetHardCapAction> = {
+  free: 'block',
+  pro: 'degrade',
+  enterprise: 'degrade',
+};
+
+const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+const MICROS_PER_CENT = 10_000;
+
+// Advisory lock namespaces serializing budget checks per user and per team
+const USER_BUDGET_LOCK = 7301;
+const TEAM_BUDGET_LOCK = 7302;
+
+// Holds left behind by a crashed process stop counting after this long
+const RESERVATION_TTL_MINUTES = 15;
+
+/**
+ * Tokens an AI call is expected to use
+ */
+export interface AICallEstimate {
+  /** Prompt tokens, as counted by tokenEstimator */
+  inputTokens: number;
+  /** Most the call may generate; the estimate assumes it is all used */
+  maxOutputTokens: number;
+  /** Calls made with this prompt, e.g. tool selection rounds before the answer */
+  calls?: number;
+  /** Model a call that cannot switch models is made with; such calls are blocked rather than degraded */
+  model?: string;
+}
+
+/**
+ * AI features whose calls count toward budgets
+ */
+export type AIFeature =
+  | 'conversation_answer'
+  | 'conversation_tools'
+  | 'conversation_memory'
+  | 'follow_up_questions'
+  | 'gap_analysis'
+  | 'action_plan'
+  | 'idea_validation';
+
+/**
+ * Who an AI call is made for; tiers without a budget default count as free
+ */
+export interface AIBudgetSubject {
+  userId: number;
+  userTier?: string;
+  conversationId?: number | null;
+}
+
+/**
+ * What a budgeted AI call returned and used
+ */
+export interface AICallUsage<T> {
+  result: T;
+  /** Model that answered, when not the one the budget allowed */
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Spend of a completed AI call
+ */
+export interface AISpend {
+  userId: number;
+  conversationId?: number | null;
+  feature: AIFeature;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  degraded?: boolean;
+}
+
+/**
+ * A budget a user's AI calls count toward, with this month's spend
+ */
+interface ApplicableBudget {
+  scope: AIBudgetScope;
+  budget: AIBudget | null;
+  userId: number | null;
+  teamId: number | null;
+  teamName?: string;
+  limitMicros: number;
+  spentMicros: number;
+  hardCapAction: AIBudgetHardCapAction;
+  alertThresholds: number[];
+}
+
+/**
+ * Cost of a call in millionths of a dollar, rounded up
+ */
+export function calculateCostMicros(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING[model] ?? MODEL_PRICING[PRIMARY_MODEL];
+  return Math.ceil(inputTokens * pricing.input + outputTokens * pricing.output);
+}
+
+/**
+ * Start of the current calendar month, when budgets reset
+ */
+function currentPeriodStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+/**
+ * Current month as 'YYYY-MM'
+ */
+function currentPeriod(now = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+function isOverrideActive(budget: AIBudget | null, now = new Date()): boolean {
+  return !!budget &&
+    budget.overrideLimitCents !== null &&
+    (!budget.overrideExpiresAt || new Date(budget.overrideExpiresAt) > now);
+}
+
+/**
+ * Limit in force for a budget: an active override, else the configured limit, else the tier default
+ */
+function effectiveLimitCents(budget: AIBudget | null, tier: UserTier): number {
+  if (budget && isOverrideActive(budget)) {
+    return budget.overrideLimitCents!;
+  }
+  return budget?.monthlyLimitCents ?? DEFAULT_MONTHLY_LIMIT_CENTS[tier] ?? DEFAULT_MONTHLY_LIMIT_CENTS.free;
+}
+
+function toTier(value: string | null | undefined): UserTier {
+  return value === 'pro' || value === 'enterprise' ? value : 'free';
+}
+
+/**
+ * Error for a call a budget blocked, naming whose budget was reached
+ */
+export function createBudgetExceededError(decision: AIBudgetDecision): AppError {
+  return AppError.createRateLimitError(
+    decision.limitingBudget?.scope === 'team'
+      ? "Your team's monthly AI budget has been reached. Ask a team admin to raise it."
+      : 'Your monthly AI budget has been reached. It resets at the start of next month.',
+    'AI_BUDGET_EXCEEDED',
+    { budget: decision.limitingBudget }
+  );
+}
+
+export class AIBudgetService {
+  /**
+   * Check an AI call against the user's budget and every budget of the teams they belong to.
+   * The call is allowed if it fits all of them; otherwise it is degraded to the cheaper model
+   * if that fits and every exceeded budget allows degrading, and blocked if not.
+   *
+   * Checks for the same user or team run one at a time, and an allowed call's estimated cost is
+   * held as a pending ledger row before the next check reads spend. Release the hold with
+   * releaseReservation once the call's actual spend has been recorded, whether or not it succeeded.
+   */
+  async checkBudget(
+    userId: number,
+    userTier: UserTier,
+    estimate: AICallEstimate,
+    reservation: Pick<AISpend, 'feature' | 'conversationId'>
+  ): Promise<AIBudgetDecision> {
+    const teamIds = await this.getActiveTeamIds(userId);
+
+    return await db.transaction(async (tx) => {
+      // Team locks first, in ID order, so two members' checks never wait on each other in a cycle
+      for (const teamId of teamIds) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${TEAM_BUDGET_LOCK}, ${teamId})`);
+      }
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${USER_BUDGET_LOCK}, ${userId})`);
+
+      const decision = this.decide(userId, await this.getApplicableBudgets(userId, userTier, true, tx), estimate);
+      if (decision.action === 'block') {
+        return decision;
+      }
+
+      const [held] = await tx
+        .insert(aiSpendLedger)
+        .values({
+          userId,
+          conversationId: reservation.conversationId ?? null,
+          feature: reservation.feature,
+          model: decision.model,
+          inputTokens: 0,
+          outputTokens: 0,
+          costMicros: decision.estimatedCostMicros,
+          degraded: decision.action === 'degrade',
+          status: 'pending',
+        })
+        .returning({ id: aiSpendLedger.id });
+
+      return { ...decision, reservationId: held.id };
+    });
+  }
+
+  /**
+   * Make an AI call within the user's budgets: check it, make it with the model the budget allows,
+   * then record what it used and release the hold. Blocked calls throw AI_BUDGET_EXCEEDED unmade.
+   * Calls that report no tokens, e.g. ones that fell back to non-AI output, record no spend
+   */
+  async runWithinBudget<T>(
+    subject: AIBudgetSubject,
+    feature: AIFeature,
+    estimate: AICallEstimate,
+    call: (model: string) => Promise<AICallUsage<T>>
+  ): Promise<T> {
+    const userTier = toTier(subject.userTier);
+    const decision = await this.checkBudget(subject.userId, userTier, estimate, {
+      feature,
+      conversationId: subject.conversationId,
+    });
+
+    if (decision.action === 'block') {
+      throw createBudgetExceededError(decision);
+    }
+
+    try {
+      const usage = await call(decision.model);
+
+      if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+        await this.recordSpend(userTier, {
+          userId: subject.userId,
+          conversationId: subject.conversationId,
+          feature,
+          model: usage.model ?? decision.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          degraded: decision.action === 'degrade',
+        }).catch(error => {
+          console.error('Failed to record AI spend:', error);
+        });
+      }
+
+      return usage.result;
+    } finally {
+      await this.releaseReservation(decision.reservationId!).catch(error => {
+        console.error('Failed to release AI budget reservation:', error);
+      });
+    }
+  }
+
+  /**
+   * Drop the estimated cost held by checkBudget; the call's actual spend is recorded separately
+   */
+  async releaseReservation(reservationId: number): Promise<void> {
+    await db
+      .delete(aiSpendLedger)
+      .where(and(eq(aiSpendLedger.id, reservationId), eq(aiSpendLedger.status, 'pending')));
+  }
+
+  /**
+   * Record what a completed AI call cost, then alert on any threshold it crossed
+   */
+  async recordSpend(userTier: UserTier, spend: AISpend): Promise<number> {
+    const costMicros = calculateCostMicros(spend.model, spend.inputTokens, spend.outputTokens);
+
+    await db.insert(aiSpendLedger).values({
+      userId: spend.userId,
+      conversationId: spend.conversationId ?? null,
+      feature: spend.feature,
+      model: spend.model,
+      inputTokens: spend.inputTokens,
+      outputTokens: spend.outputTokens,
+      costMicros,
+      degraded: spend.degraded ?? false,
+    });
+
+    await this.checkAlerts(spend.userId, userTier);
+
+    return costMicros;
+  }
+
+  /**
+   * Notify once per month for the highest alert threshold each budget has crossed
+   */
+  async checkAlerts(userId: number, userTier: UserTier): Promise<void> {
+    const period = currentPeriod();
+    const budgets = await this.getApplicableBudgets(userId, userTier);
+
+    for (const applicable of budgets) {
+      if (applicable.limitMicros === 0) {
+        continue;
+      }
+
+      const percentUsed = (applicable.spentMicros / applicable.limitMicros) * 100;
+      const threshold = Math.max(0, ...applicable.alertThresholds.filter(t => percentUsed >= t));
+      if (threshold === 0) {
+        continue;
+      }
+
+      const budgetId = applicable.budget?.id ?? (await this.ensureUserBudget(userId)).id;
+
+      // Claim the alert so concurrent calls crossing the same threshold notify once
+      const claimed = await db
+        .update(aiBudgets)
+        .set({ lastAlertPeriod: period, lastAlertThreshold: threshold })
+        .where(and(
+          eq(aiBudgets.id, budgetId),
+          sql`(${aiBudgets.lastAlertPeriod} IS DISTINCT FROM ${period} OR ${aiBudgets.lastAlertThreshold} < ${threshold})`
+        ))
+        .returning({ id: aiBudgets.id });
+
+      if (claimed.length === 0) {
+        continue;
+      }
+
+      const recipients = applicable.scope === 'team'
+        ? await this.getTeamAdminIds(applicable.teamId!)
+        : [userId];
+
+      for (const recipientId of recipients) {
+        await notificationService.notifyAIBudgetThreshold(recipientId, {
+          scope: applicable.scope,
+          teamName: applicable.teamName,
+          threshold,
+          spentCents: Math.round(applicable.spentMicros / MICROS_PER_CENT),
+          limitCents: Math.round(applicable.limitMicros / MICROS_PER_CENT),
+          hardCapAction: applicable.hardCapAction,
+        }).catch(error => {
+          console.error(`Failed to send AI budget alert to user ${recipientId}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Every configured budget with this month's spend, for the admin dashboard
+   */
+  async listBudgets(): Promise<AIBudgetStatus[]> {
+    const rows = await db
+      .select({
+        budget: aiBudgets,
+        userEmail: users.email,
+        userTier: sql<string | null>`COALESCE(${users.subscriptionTier}, ${users.plan})`,
+        teamName: teams.name,
+        teamPlan: teams.plan,
+      })
+      .from(aiBudgets)
+      .leftJoin(users, eq(users.id, aiBudgets.userId))
+      .leftJoin(teams, eq(teams.id, aiBudgets.teamId))
+      .orderBy(aiBudgets.scope, aiBudgets.id);
+
+    const since = currentPeriodStart();
+    return await Promise.all(rows.map(async row => {
+      const scope = row.budget.scope as AIBudgetScope;
+      const tier = toTier(scope === 'team' ? row.teamPlan : row.userTier);
+      const spentMicros = scope === 'team'
+        ? await this.getTeamSpendMicros(row.budget.teamId!, since)
+        : await this.getUserSpendMicros(row.budget.userId!, since);
+
+      return this.toStatus({
+        scope,
+        budget: row.budget,
+        userId: row.budget.userId,
+        teamId: row.budget.teamId,
+        teamName: row.teamName ?? undefined,
+        limitMicros: effectiveLimitCents(row.budget, tier) * MICROS_PER_CENT,
+        spentMicros,
+        hardCapAction: row.budget.hardCapAction as AIBudgetHardCapAction,
+        alertThresholds: row.budget.alertThresholds as number[],
+      }, scope === 'team' ? row.teamName ?? `Team ${row.budget.teamId}` : row.userEmail ?? `User ${row.budget.userId}`);
+    }));
+  }
+
+  /**
+   * A user's or team's budget with this month's spend; users without a budget row get their tier default
+   */
+  async getBudgetStatus(scope: AIBudgetScope, id: number): Promise<AIBudgetStatus | null> {
+    const since = currentPeriodStart();
+
+    if (scope === 'user') {
+      const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+      if (!user) {
+        return null;
+      }
+
+      const tier = toTier(user.subscriptionTier || user.plan);
+      const budget = await this.findBudget('user', id);
+      return this.toStatus({
+        ...this.userBudget(id, tier, budget),
+        spentMicros: await this.getUserSpendMicros(id, since),
+      }, user.email);
+    }
+
+    const [team] = await db.select().from(teams).where(eq(teams.id, id)).limit(1);
+    if (!team) {
+      return null;
+    }
+
+    const budget = await this.findBudget('team', id);
+    return this.toStatus({
+      scope: 'team',
+      budget,
+      userId: null,
+      teamId: id,
+      teamName: team.name,
+      limitMicros: effectiveLimitCents(budget, toTier(team.plan)) * MICROS_PER_CENT,
+      spentMicros: await this.getTeamSpendMicros(id, since),
+      hardCapAction: (budget?.hardCapAction as AIBudgetHardCapAction) ?? DEFAULT_HARD_CAP_ACTION[toTier(team.plan)],
+      alertThresholds: (budget?.alertThresholds as number[]) ?? DEFAULT_ALERT_THRESHOLDS,
+    }, team.name);
+  }
+
+  /**
+   * Create or update a user's or team's budget
+   */
+  async upsertBudget(
+    scope: AIBudgetScope,
+    id: number,
+    input: { monthlyLimitCents?: number | null; alertThresholds?: number[]; hardCapAction?: AIBudgetHardCapAction },
+    adminId: number
+  ): Promise<AIBudget> {
+    const changes = {
+      ...(input.monthlyLimitCents !== undefined ? { monthlyLimitCents: input.monthlyLimitCents } : {}),
+      ...(input.alertThresholds ? { alertThresholds: [...new Set(input.alertThresholds)].sort((a, b) => a - b) } : {}),
+      ...(input.hardCapAction ? { hardCapAction: input.hardCapAction } : {}),
+      updatedBy: adminId,
+    };
+
+    const [budget] = await db
+      .insert(aiBudgets)
+      .values({
+        scope,
+        userId: scope === 'user' ? id : null,
+        teamId: scope === 'team' ? id : null,
+        ...changes,
+      })
+      .onConflictDoUpdate({
+        target: scope === 'user' ? aiBudgets.userId : aiBudgets.teamId,
+        set: { ...changes, updatedAt: sql`NOW()` },
+      })
+      .returning();
+
+    console.log(`💰 ${scope} ${id} AI budget updated by admin ${adminId}`);
+    return budget;
+  }
+
+  /**
+   * Temporarily replace a budget's limit, e.g. to unblock a user before the month resets
+   */
+  async setOverride(
+    scope: AIBudgetScope,
+    id: number,
+    override: { limitCents: number; expiresAt?: string | null; reason: string },
+    adminId: number
+  ): Promise<AIBudget> {
+    await this.upsertBudget(scope, id, {}, adminId);
+
+    const [budget] = await db
+      .update(aiBudgets)
+      .set({
+        overrideLimitCents: override.limitCents,
+        overrideExpiresAt: override.expiresAt ?? null,
+        overrideReason: override.reason,
+        // Alert again as the raised limit is used up
+        lastAlertThreshold: null,
+        updatedBy: adminId,
+        updatedAt: sql`NOW()`,
+      })
+      .where(scope === 'user' ? eq(aiBudgets.userId, id) : eq(aiBudgets.teamId, id))
+      .returning();
+
+    console.log(`💰 ${scope} ${id} AI budget overridden to ${override.limitCents}¢ by admin ${adminId}: ${override.reason}`);
+    return budget;
+  }
+
+  /**
+   * Remove a budget's override, restoring its configured limit
+   */
+  async clearOverride(scope: AIBudgetScope, id: number, adminId: number): Promise<AIBudget | null> {
+    const [budget] = await db
+      .update(aiBudgets)
+      .set({
+        overrideLimitCents: null,
+        overrideExpiresAt: null,
+        overrideReason: null,
+        updatedBy: adminId,
+        updatedAt: sql`NOW()`,
+      })
+      .where(scope === 'user' ? eq(aiBudgets.userId, id) : eq(aiBudgets.teamId, id))
+      .returning();
+
+    return budget ?? null;
+  }
+
+  /**
+   * The user's own budget and those of their active teams, with this month's spend.
+   * Budget checks count held reservations as spent; alerts and reports count settled spend only
+   */
+  private async getApplicableBudgets(
+    userId: number,
+    userTier: UserTier,
+    includeReservations = false,
+    executor: Executor = db
+  ): Promise<ApplicableBudget[]> {
+    const since = currentPeriodStart();
+
+    const userBudget = await this.findBudget('user', userId, executor);
+    const budgets: ApplicableBudget[] = [{
+      ...this.userBudget(userId, userTier, userBudget),
+      spentMicros: await this.getUserSpendMicros(userId, since, includeReservations, executor),
+    }];
+
+    const teamBudgets = await executor
+      .select({ budget: aiBudgets, teamName: teams.name, teamPlan: teams.plan })
+      .from(aiBudgets)
+      .innerJoin(teams, eq(teams.id, aiBudgets.teamId))
+      .innerJoin(teamMembers, eq(teamMembers.teamId, aiBudgets.teamId))
+      .where(and(
+        eq(aiBudgets.scope, 'team'),
+        eq(teamMembers.userId, String(userId)),
+        eq(teamMembers.status, 'active')
+      ));
+
+    for (const { budget, teamName, teamPlan } of teamBudgets) {
+      budgets.push({
+        scope: 'team',
+        budget,
+        userId: null,
+        teamId: budget.teamId,
+        teamName,
+        limitMicros: effectiveLimitCents(budget, toTier(teamPlan)) * MICROS_PER_CENT,
+        spentMicros: await this.getTeamSpendMicros(budget.teamId!, since, includeReservations, executor),
+        hardCapAction: budget.hardCapAction as AIBudgetHardCapAction,
+        alertThresholds: budget.alertThresholds as number[],
+      });
+    }
+
+    return budgets;
+  }
+
+  /**
+   * Teams the user is an active member of, in ID order
+   */
+  private async getActiveTeamIds(userId: number): Promise<number[]> {
+    const memberships = await db
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(and(eq(teamMembers.userId, String(userId)), eq(teamMembers.status, 'active')));
+
+    return [...new Set(memberships.map(m => m.teamId))].sort((a, b) => a - b);
+  }
+
+  /**
+   * Ledger rows counted as spend: settled spend, plus recent holds when asked for
+   */
+  private countedSpend(includeReservations: boolean) {
+    return includeReservations
+      ? sql`(${aiSpendLedger.status} = 'settled' OR ${aiSpendLedger.createdAt} > NOW() - make_interval(mins => ${RESERVATION_TTL_MINUTES}))`
+      : eq(aiSpendLedger.status, 'settled');
+  }
+
+  /**
+   * Allow, degrade or block a call given the budgets it counts toward
+   */
+  private decide(userId: number, budgets: ApplicableBudget[], estimate: AICallEstimate): AIBudgetDecision {
+    const calls = estimate.calls ?? 1;
+    const model = estimate.model ?? PRIMARY_MODEL;
+    const cost = calculateCostMicros(
+      model,
+      estimate.inputTokens * calls,
+      estimate.maxOutputTokens * calls
+    );
+
+    const exceeded = budgets.filter(b => b.spentMicros + cost > b.limitMicros);
+    if (exceeded.length === 0) {
+      return { action: 'allow', model, estimatedCostMicros: cost };
+    }
+
+    // A call pinned to a model has nothing cheaper to switch to
+    if (estimate.model) {
+      return this.blockDecision(userId, exceeded.find(b => b.hardCapAction === 'block') ?? exceeded[0], model, cost);
+    }
+
+    const fallbackCost = calculateCostMicros(
+      BUDGET_FALLBACK_MODEL,
+      estimate.inputTokens * calls,
+      estimate.maxOutputTokens * calls
+    );
+    const blocking = exceeded.find(b => b.hardCapAction === 'block') ??
+      budgets.find(b => b.spentMicros + fallbackCost > b.limitMicros);
+
+    if (blocking) {
+      return this.blockDecision(userId, blocking, model, cost);
+    }
+
+    console.log(`💸 AI call degraded to ${BUDGET_FALLBACK_MODEL} by ${exceeded[0].scope} budget for user ${userId}`);
+    return {
+      action: 'degrade',
+      model: BUDGET_FALLBACK_MODEL,
+      estimatedCostMicros: fallbackCost,
+      limitingBudget: this.describeBudget(exceeded[0]),
+    };
+  }
+
+  private blockDecision(userId: number, blocking: ApplicableBudget, model: string, cost: number): AIBudgetDecision {
+    console.warn(`🚫 AI call blocked by ${blocking.scope} budget for user ${userId}`);
+    return {
+      action: 'block',
+      model,
+      estimatedCostMicros: cost,
+      limitingBudget: this.describeBudget(blocking),
+    };
+  }
+
+  private async findBudget(scope: AIBudgetScope, id: number, executor: Executor = db): Promise<AIBudget | null> {
+    const [budget] = await executor
+      .select()
+      .from(aiBudgets)
+      .where(scope === 'user' ? eq(aiBudgets.userId, id) : eq(aiBudgets.teamId, id))
+      .limit(1);
+
+    return budget ?? null;
+  }
+
+  private userBudget(userId: number, tier: UserTier, budget: AIBudget | null): Omit<ApplicableBudget, 'spentMicros'> {
+    return {
+      scope: 'user',
+      budget,
+      userId,
+      teamId: null,
+      limitMicros: effectiveLimitCents(budget, tier) * MICROS_PER_CENT,
+      hardCapAction: (budget?.hardCapAction as AIBudgetHardCapAction) ?? DEFAULT_HARD_CAP_ACTION[tier],
+      alertThresholds: (budget?.alertThresholds as number[]) ?? DEFAULT_ALERT_THRESHOLDS,
+    };
+  }
+
+  /**
+   * Budget row for a user on their tier default, created to track which alerts were sent
+   */
+  private async ensureUserBudget(userId: number): Promise<AIBudget> {
+    const [created] = await db
+      .insert(aiBudgets)
+      .values({ scope: 'user', userId })
+      .onConflictDoNothing()
+      .returning();
+
+    return created ?? (await this.findBudget('user', userId))!;
+  }
+
+  private async getUserSpendMicros(
+    userId: number,
+    since: string,
+    includeReservations = false,
+    executor: Executor = db
+  ): Promise<number> {
+    const [row] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${aiSpendLedger.costMicros}), 0)` })
+      .from(aiSpendLedger)
+      .where(and(
+        eq(aiSpendLedger.userId, userId),
+        gte(aiSpendLedger.createdAt, since),
+        this.countedSpend(includeReservations)
+      ));
+
+    return Number(row?.total ?? 0);
+  }
+
+  /**
+   * Spend of the team's active members; team_members stores user IDs as text
+   */
+  private async getTeamSpendMicros(
+    teamId: number,
+    since: string,
+    includeReservations = false,
+    executor: Executor = db
+  ): Promise<number> {
+    const [row] = await executor
+      .select({ total: sql<string>`COALESCE(SUM(${aiSpendLedger.costMicros}), 0)` })
+      .from(aiSpendLedger)
+      .where(and(
+        gte(aiSpendLedger.createdAt, since),
+        this.countedSpend(includeReservations),
+        sql`${aiSpendLedger.userId}::text IN (
+          SELECT ${teamMembers.userId} FROM ${teamMembers}
+          WHERE ${teamMembers.teamId} = ${teamId} AND ${teamMembers.status} = 'active'
+        )`
+      ));
+
+    return Number(row?.total ?? 0);
+  }
+
+  /**
+   * Team owners and admins, who receive the team's budget alerts
+   */
+  private async getTeamAdminIds(teamId: number): Promise<number[]> {
+    const admins = await db
+      .select({ userId: teamMembers.userId })
+      .from(teamMembers)
+      .where(and(
+        eq(teamMembers.teamId, teamId),
+        eq(teamMembers.status, 'active'),
+        inArray(teamMembers.role, ['owner', 'admin'])
+      ));
+
+    return admins.map(admin => Number(admin.userId)).filter(Number.isInteger);
+  }
+
+  private describeBudget(applicable: ApplicableBudget): AIBudgetDecision['limitingBudget'] {
+    return {
+      scope: applicable.scope,
+      userId: applicable.userId,
+      teamId: applicable.teamId,
+      limitCents: Math.round(applicable.limitMicros / MICROS_PER_CENT),
+      spentCents: Math.round(applicable.spentMicros / MICROS_PER_CENT),
+    };
+  }
+
+  private toStatus(applicable: ApplicableBudget, name: string): AIBudgetStatus {
+    return {
+      budget: applicable.budget,
+      scope: applicable.scope,
+      userId: applicable.userId,
+      teamId: applicable.teamId,
+      name,
+      limitCents: Math.round(applicable.limitMicros / MICROS_PER_CENT),
+      spentCents: Math.round(applicable.spentMicros / MICROS_PER_CENT),
+      percentUsed: applicable.limitMicros === 0
+        ? 100
+        : Math.round((applicable.spentMicros / applicable.limitMicros) * 100),
+      overrideActive: isOverrideActive(applicable.budget),
+      hardCapAction: applicable.hardCapAction,
+    };
+  }
+}
+
+// Export singleton instance
+export const aiBudgetService = new AIBudgetService();
@@ -1,8 +1,12 @@
 import axios from 'axios';
 import type { ValidateIdea } from '@shared/schema';
+import { aiBudgetService, type AIBudgetSubject } from './aiBudgetService';
+import { tokenEstimator } from './tokenEstimator';
 
 const XAI_API_KEY = process.env.XAI_API_KEY;
 const XAI_API_URL = 'https://api.x.ai/v1/chat/completions';
+const XAI_MODEL = 'grok-2-1212';
+const MAX_OUTPUT_TOKENS = 4000;
 
 export interface AIValidationInsights {
   dimensions: {
@@ -69,115 +73,83 @@ export interface AIValidationInsights {
   };
 }
 
-export async function getAIValidationInsights(idea: ValidateIdea): Promise<AIValidationInsights> {
+export async function getAIValidationInsights(
+  idea: ValidateIdea,
+  subject: AIBudgetSubject
+): Promise<AIValidationInsights> {
   if (!XAI_API_KEY) {
     console.warn('⚠️ xAI API key not configured - using fallback validation');
     return getFallbackInsights(idea);
   }
 
-  const prompt = `Analyze this business idea comprehensively and provide detailed validation insights:
+  const { promptTemplateService } = await import('./promptTemplateService');
+  const [{ content: prompt }, { content: systemPrompt }] = await Promise.all([
+    promptTemplateService.render('idea_validation', {
+      title: idea.title,
+      description: idea.description,
+      targetMarket: idea.targetMarket,
+      businessModel: idea.businessModel,
+      category: idea.category,
+      financials: [
+        idea.initialInvestment ? `Initial Investment: $${idea.initialInvestment}` : '',
+        idea.monthlyRevenue ? `Projected Monthly Revenue: $${idea.monthlyRevenue}` : '',
+      ].join('\n'),
+    }, subject),
+    promptTemplateService.render('idea_validation_system', {}, subject),
+  ]);
 
-Title: ${idea.title}
-Description: ${idea.description}
-Target Market: ${idea.targetMarket}
-Business Model: ${idea.businessModel}
-Category: ${idea.category}
-${idea.initialInvestment ? `Initial Investment: $${idea.initialInvestment}` : ''}
-${idea.monthlyRevenue ? `Projected Monthly Revenue: $${idea.monthlyRevenue}` : ''}
+  const inputTokens = await tokenEstimator.estimateTokensForSegments([systemPrompt, prompt]);
 
-Provide a comprehensive analysis including:
-
-1. FEASIBILITY (0-100 score)
-   - Technical feasibility
-   - Resource requirements
-   - Key strengths and weaknesses
-   - Specific recommendations
-
-2. MARKET DEMAND (0-100 score)
-   - Target audience size and characteristics
-   - Growth potential and market trends
-   - Evidence of demand
-
-3. INNOVATION (0-100 score)
-   - Unique value proposition
-   - Competitive advantages
-   - Innovation level and patentability
-
-4. SCALABILITY (0-100 score)
-   - Growth factors and potential
-   - Bottlenecks and limitations
-   - Expansion opportunities
-
-5. VIABILITY (0-100 score)
-   - Revenue streams
-   - Cost structure
-   - Path to profitability
-
-6. OVERALL ASSESSMENT
-   - Combined score (0-100)
-   - Verdict (Highly Promising/Promising/Moderate Potential/Needs Work/High Risk)
-   - Top 3 strengths
-   - Top 3 risks
-   - Next 3 action steps
-
-7. COMPETITOR ANALYSIS
-   - Direct and indirect competitors
-   - Market positioning
-   - Key differentiators
-
-8. REGULATORY CONSIDERATIONS
-   - Requirements and challenges
-   - Timeline for compliance
-
-9. FUNDING ADVICE
-   - Capital requirements
-   - Best funding sources
-   - Investor appeal factors
-
-Return ONLY a JSON object matching the AIValidationInsights structure, no additional text.`;
-
-  try {
-    const response = await axios.post(
-      XAI_API_URL,
-      {
-        model: 'grok-2-1212',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a business validation expert. Provide thorough, data-driven analysis in JSON format only.'
-          },
-          {
-            role: 'user',
-            content: prompt
+  return aiBudgetService.runWithinBudget<AIValidationInsights>(subject, 'idea_validation', {
+    model: XAI_MODEL,
+    inputTokens,
+    maxOutputTokens: MAX_OUTPUT_TOKENS,
+  }, async () => {
+    try {
+      const response = await axios.post(
+        XAI_API_URL,
+        {
+          model: XAI_MODEL,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: 0.6,
+          max_tokens: MAX_OUTPUT_TOKENS,
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${XAI_API_KEY}`,
+            'Content-Type': 'application/json'
           }
-        ],
-        temperature: 0.6,
-        max_tokens: 4000,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${XAI_API_KEY}`,
-          'Content-Type': 'application/json'
         }
+      );
+
+      const content = response.data.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('No content in xAI response');
       }
-    );
 
-    const content = response.data.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in xAI response');
-    }
+      const usage = { inputTokens, outputTokens: await tokenEstimator.estimateTokens(content) };
 
-    try {
-      const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      return JSON.parse(cleanContent);
-    } catch (parseError) {
-      console.error('Error parsing xAI validation response:', parseError);
-      return getFallbackInsights(idea);
+      try {
+        const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+        return { result: JSON.parse(cleanContent), ...usage };
+      } catch (parseError) {
+        console.error('Error parsing xAI validation response:', parseError);
+        return { result: getFallbackInsights(idea), ...usage };
+      }
+    } catch (error) {
+      console.error('xAI validation error:', error);
+      return { result: getFallbackInsights(idea), inputTokens: 0, outputTokens: 0 };
     }
-  } catch (error) {
-    console.error('xAI validation error:', error);
-    return getFallbackInsights(idea);
-  }
+  });
 }
 
 function getFallbackInsights(idea: ValidateIdea): AIValidationInsights {
@@ -76,6 +76,66 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   [UserRole.SUPER_ADMIN]: SUPER_ADMIN_PERMISSIONS
 };
 
+// Roles a user can hold in a team workspace
+export enum TeamRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer'
+}
+
+// Permissions on a team workspace and the searches, plans, projects and conversations in it
+export enum TeamPermission {
+  VIEW = 'view',
+  EDIT = 'edit',
+  DELETE = 'delete',
+  MANAGE_MEMBERS = 'manage_members',
+  MANAGE_TEAM = 'manage_team'
+}
+
+const TEAM_VIEWER_PERMISSIONS: TeamPermission[] = [
+  TeamPermission.VIEW
+];
+
+const TEAM_MEMBER_PERMISSIONS: TeamPermission[] = [
+  ...TEAM_VIEWER_PERMISSIONS,
+  TeamPermission.EDIT
+];
+
+const TEAM_ADMIN_PERMISSIONS: TeamPermission[] = [
+  ...TEAM_MEMBER_PERMISSIONS,
+  TeamPermission.DELETE,
+  TeamPermission.MANAGE_MEMBERS
+];
+
+const TEAM_OWNER_PERMISSIONS: TeamPermission[] = [
+  ...TEAM_ADMIN_PERMISSIONS,
+  TeamPermission.MANAGE_TEAM
+];
+
+// Team role-permission mapping
+const TEAM_ROLE_PERMISSIONS: Record<TeamRole, TeamPermission[]> = {
+  [TeamRole.OWNER]: TEAM_OWNER_PERMISSIONS,
+  [TeamRole.ADMIN]: TEAM_ADMIN_PERMISSIONS,
+  [TeamRole.MEMBER]: TEAM_MEMBER_PERMISSIONS,
+  [TeamRole.VIEWER]: TEAM_VIEWER_PERMISSIONS
+};
+
+// Team permission each resource operation needs
+const OPERATION_TEAM_PERMISSIONS: Record<'read' | 'write' | 'delete', TeamPermission> = {
+  read: TeamPermission.VIEW,
+  write: TeamPermission.EDIT,
+  delete: TeamPermission.DELETE
+};
+
+/**
+ * A resource that belongs to a user and optionally to that user's team workspace
+ */
+export interface WorkspaceResource {
+  userId: number | null;
+  teamId: number | null;
+}
+
 export interface AuthorizedUser extends User {
   role: UserRole;
 }
@@ -208,6 +268,115 @@ export class AuthorizationService {
     }
   }
 
+  /**
+   * Check if a value stored in team_members.role is a known team role
+   */
+  static isTeamRole(role: string): role is TeamRole {
+    return Object.values(TeamRole).includes(role as TeamRole);
+  }
+
+  /**
+   * Check if a team role grants a permission; non-members (null) have none
+   */
+  static hasTeamPermission(role: TeamRole | null, permission: TeamPermission): boolean {
+    if (!role) {
+      return false;
+    }
+    return TEAM_ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  /**
+   * Get the team roles that grant a permission
+   */
+  static getTeamRolesWithPermission(permission: TeamPermission): TeamRole[] {
+    return Object.values(TeamRole).filter(role => TEAM_ROLE_PERMISSIONS[role].includes(permission));
+  }
+
+  /**
+   * Get the team permission a resource operation needs
+   */
+  static getTeamPermissionForOperation(operation: 'read' | 'write' | 'delete'): TeamPermission {
+    return OPERATION_TEAM_PERMISSIONS[operation];
+  }
+
+  /**
+   * Check if user can perform an operation on a resource in a workspace
+   * The owner (and admins, as for any user resource) follow the ownership rules;
+   * everyone else needs a team role on the resource's team that grants the operation
+   */
+  static canAccessWorkspaceResource(
+    currentUser: User,
+    resource: WorkspaceResource,
+    teamRole: TeamRole | null,
+    operation: 'read' | 'write' | 'delete' = 'read'
+  ): boolean {
+    if (resource.userId !== null) {
+      const ownerAccess = {
+        read: () => this.canAccessUserResource(currentUser, resource.userId!),
+        write: () => this.canModifyUserResource(currentUser, resource.userId!),
+        delete: () => this.canDeleteUserResource(currentUser, resource.userId!),
+      }[operation]();
+      if (ownerAccess) {
+        return true;
+      }
+    }
+
+    if (resource.teamId === null) {
+      return false;
+    }
+
+    return this.hasTeamPermission(teamRole, this.getTeamPermissionForOperation(operation));
+  }
+
+  /**
+   * Validate access to a resource that may belong to a team workspace
+   */
+  static validateWorkspaceResourceAccess(
+    currentUser: User,
+    resource: WorkspaceResource,
+    teamRole: TeamRole | null,
+    operation: 'read' | 'write' | 'delete' = 'read'
+  ): void {
+    if (!this.canAccessWorkspaceResource(currentUser, resource, teamRole, operation)) {
+      throw AppError.createForbiddenError(
+        'Access denied: insufficient permissions for this resource',
+        'RESOURCE_ACCESS_DENIED'
+      );
+    }
+  }
+
+  /**
+   * Check if a team role can change or remove a member's role
+   * The owner's membership is fixed, and only the owner can grant or revoke admin
+   */
+  static canManageTeamMember(actingRole: TeamRole | null, memberRole: TeamRole, newRole?: TeamRole): boolean {
+    if (!this.hasTeamPermission(actingRole, TeamPermission.MANAGE_MEMBERS) || memberRole === TeamRole.OWNER) {
+      return false;
+    }
+    if (memberRole === TeamRole.ADMIN || newRole === TeamRole.ADMIN || newRole === TeamRole.OWNER) {
+      return newRole !== TeamRole.OWNER && this.hasTeamPermission(actingRole, TeamPermission.MANAGE_TEAM);
+    }
+    return true;
+  }
+
+  /**
+   * Require a team permission
+   */
+  static requireTeamPermission(role: TeamRole | null, permission: TeamPermission): void {
+    if (!role) {
+      throw AppError.createForbiddenError(
+        'Access denied: not a member of this team',
+        'NOT_TEAM_MEMBER'
+      );
+    }
+    if (!this.hasTeamPermission(role, permission)) {
+      throw AppError.createForbiddenError(
+        `Access denied: ${permission} team permission required`,
+        'INSUFFICIENT_TEAM_PERMISSION'
+      );
+    }
+  }
+
   /**
    * Require specific permission
    */
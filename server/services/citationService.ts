@@ -0,0 +1,133 @@
+import type {
+  CitationType,
+  ConversationMessage,
+  MessageCitation,
+  Resource,
+  SearchResult
+} from '@shared/schema';
+
+/**
+ * A record the AI may cite, with the tag it cites it by
+ */
+export interface CitationSource {
+  key: string;
+  type: CitationType;
+  id: number;
+  label: string;
+  excerpt: string;
+  url?: string;
+}
+
+/** Prior messages offered as citable sources */
+const MAX_MESSAGE_SOURCES = 10;
+
+const KEY_PREFIXES: Record<CitationType, string> = {
+  search_result: 'S',
+  resource: 'R',
+  message: 'M',
+};
+
+// Matches [S1], [R2], [M3] and grouped tags like [S1, R2]
+const CITATION_TAG_PATTERN = /\[((?:[SRM]\d+)(?:\s*,\s*[SRM]\d+)*)\]/g;
+
+function excerpt(text: string | null | undefined, maxLength: number): string {
+  const clean = (text ?? '').replace(/\s+/g, ' ').trim();
+  return clean.length > maxLength ? `${clean.slice(0, maxLength - 3)}...` : clean;
+}
+
+/**
+ * Number the records the AI may cite for one response.
+ * Keys are stable within a response only; the stored citation carries the record id.
+ */
+export function buildCitationSources(records: {
+  searchResults?: Pick<SearchResult, 'id' | 'title' | 'description'>[];
+  resources?: Pick<Resource, 'id' | 'title' | 'description' | 'url'>[];
+  messages?: Pick<ConversationMessage, 'id' | 'role' | 'content'>[];
+}): CitationSource[] {
+  const sources: CitationSource[] = [];
+
+  (records.searchResults ?? []).forEach((result, index) => {
+    sources.push({
+      key: `${KEY_PREFIXES.search_result}${index + 1}`,
+      type: 'search_result',
+      id: result.id,
+      label: excerpt(result.title, 80),
+      excerpt: excerpt(result.description, 200),
+    });
+  });
+
+  (records.resources ?? []).forEach((resource, index) => {
+    sources.push({
+      key: `${KEY_PREFIXES.resource}${index + 1}`,
+      type: 'resource',
+      id: resource.id,
+      label: excerpt(resource.title, 80),
+      excerpt: excerpt(resource.description, 200),
+      url: resource.url,
+    });
+  });
+
+  (records.messages ?? []).slice(-MAX_MESSAGE_SOURCES).forEach((message, index) => {
+    sources.push({
+      key: `${KEY_PREFIXES.message}${index + 1}`,
+      type: 'message',
+      id: message.id,
+      label: `${message.role === 'user' ? 'You' : 'Assistant'}: ${excerpt(message.content, 60)}`,
+      excerpt: excerpt(message.content, 200),
+    });
+  });
+
+  return sources;
+}
+
+/**
+ * Format citable sources and citation instructions for the prompt
+ */
+export function formatCitationSources(sources: CitationSource[]): string {
+  if (sources.length === 0) {
+    return '';
+  }
+
+  const lines = sources.map(source => {
+    const kind = source.type === 'search_result'
+      ? 'Gap'
+      : source.type === 'resource'
+        ? 'Resource'
+        : 'Earlier message';
+    return `[${source.key}] ${kind}: ${source.type === 'message' ? source.excerpt : `${source.label} - ${source.excerpt}`}`;
+  });
+
+  return `CITABLE SOURCES:
+${lines.join('\n')}
+
+When a claim relies on one of these sources, cite it inline with its tag, e.g. [S1] or [S1, R2].
+Only use the tags listed above. Do not invent sources or add a separate sources list.`;
+}
+
+/**
+ * Extract the citations a response actually used, in order of first use.
+ * Tags that do not match a source offered for this response are dropped.
+ */
+export function extractCitations(content: string, sources: CitationSource[]): MessageCitation[] {
+  const byKey = new Map(sources.map(source => [source.key, source]));
+  const citations: MessageCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of Array.from(content.matchAll(CITATION_TAG_PATTERN))) {
+    for (const key of match[1].split(',').map(part => part.trim())) {
+      const source = byKey.get(key);
+      if (!source || seen.has(key)) continue;
+      seen.add(key);
+
+      citations.push({
+        key,
+        type: source.type,
+        id: source.id,
+        label: source.label,
+        ...(source.url ? { url: source.url } : {}),
+      });
+    }
+  }
+
+  return citations;
+}
@@ -7,6 +7,7 @@ import {
   comments, 
   activityFeed,
   ideas,
+  actionPlans,
   type Team,
   type TeamMember,
   type IdeaShare,
@@ -440,4 +441,52 @@ export async function checkIdeaAccess(
   }
   
   return false;
-}
\ No newline at end of file
+}
+// Helper function to check team permissions
+// Owners, admins and members can edit; viewers can only view and comment
+export async function checkTeamAccess(
+  teamId: number,
+  userId: string,
+  requiredPermission: 'view' | 'edit' | 'comment'
+): Promise<boolean> {
+  const [membership] = await db
+    .select()
+    .from(teamMembers)
+    .where(
+      and(
+        eq(teamMembers.teamId, teamId),
+        eq(teamMembers.userId, userId),
+        eq(teamMembers.status, 'active')
+      )
+    );
+
+  if (!membership) {
+    // The owner may not have a member row
+    const [team] = await db
+      .select()
+      .from(teams)
+      .where(eq(teams.id, teamId));
+    return !!team && team.ownerId === userId;
+  }
+
+  if (requiredPermission === 'edit') return membership.role !== 'viewer';
+  return true;
+}
+
+// Helper function to check action plan permissions
+// Plans are open to their owner and, for team plans, to the team's members by role, matching the plan API
+export async function checkPlanAccess(
+  planId: number,
+  userId: string,
+  requiredPermission: 'view' | 'edit' | 'comment'
+): Promise<boolean> {
+  const [plan] = await db
+    .select({ userId: actionPlans.userId, teamId: actionPlans.teamId })
+    .from(actionPlans)
+    .where(eq(actionPlans.id, planId));
+
+  if (!plan) return false;
+  if (plan.userId.toString() === userId) return true;
+
+  return plan.teamId !== null && checkTeamAccess(plan.teamId, userId, requiredPermission);
+}
@@ -0,0 +1,377 @@
+/**
+ * Collaborative Document Service
+ *
+ * Server replica of the CRDT text documents edited in collaboration rooms.
+ * Updates are applied one at a time per document, numbered, and logged so a
+ * client that reconnects can fetch only what it missed. A snapshot is written
+ * every few updates and when the room empties; loading replays the log on top
+ * of it. Documents backed by a column (idea, plan and task descriptions) are
+ * seeded from it and written back shortly after edits stop.
+ *
+ * With several server instances the update log is the source of truth: each
+ * instance catches up from it before using its replica, and the unique
+ * (document, seq) constraint makes concurrent writers retry.
+ */
+
+import { db } from '../db';
+import { and, asc, eq, gt } from 'drizzle-orm';
+import {
+  actionPlans,
+  collaborativeDocumentUpdates,
+  collaborativeDocuments,
+  ideas,
+  planTasks,
+} from '@shared/schema';
+import { TextDocument, type TextDocumentState, type TextOperation } from '@shared/crdt';
+import { logger } from '../config/logger';
+
+/**
+ * A parsed collaboration room ID, e.g. `plan:12`
+ */
+export interface CollaborationRoomRef {
+  kind: 'idea' | 'team' | 'plan';
+  id: number;
+}
+
+export interface DocumentUpdate {
+  seq: number;
+  clientId: string;
+  userId: number | null;
+  operations: TextOperation[];
+}
+
+/**
+ * What a client needs to catch up: the missed updates when the log still has them, otherwise a snapshot
+ */
+export type DocumentSync =
+  | { kind: 'updates'; seq: number; updates: DocumentUpdate[] }
+  | { kind: 'state'; seq: number; state: TextDocumentState };
+
+interface LoadedDocument {
+  id: number;
+  roomId: string;
+  docKey: string;
+  doc: TextDocument;
+  seq: number;
+  snapshotSeq: number;
+}
+
+const SNAPSHOT_INTERVAL = 50;
+const MAX_APPEND_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = '23505';
+const WRITE_BACK_DELAY_MS = 2000;
+const SERVER_CLIENT_ID = 'server';
+
+const TASK_DESCRIPTION_KEY = /^task:(\d+):description$/;
+
+function roomIdOf(room: CollaborationRoomRef): string {
+  return `${room.kind}:${room.id}`;
+}
+
+function cacheKey(roomId: string, docKey: string): string {
+  return `${roomId}/${docKey}`;
+}
+
+export class CollaborativeDocumentService {
+  private documents = new Map<string, LoadedDocument>();
+  private queues = new Map<string, Promise<unknown>>();
+  private writeBackTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Documents each kind of room can hold
+   */
+  isValidDocKey(room: CollaborationRoomRef, docKey: string): boolean {
+    switch (room.kind) {
+      case 'idea':
+        return docKey === 'description' || docKey === 'notes';
+      case 'plan':
+        return docKey === 'description' || docKey === 'notes' || TASK_DESCRIPTION_KEY.test(docKey);
+      case 'team':
+        return docKey === 'notes';
+    }
+  }
+
+  /**
+   * Bring a client up to date from the last sequence number it saw (0 or undefined for a fresh client)
+   */
+  async sync(room: CollaborationRoomRef, docKey: string, since?: number): Promise<DocumentSync> {
+    return this.enqueue(cacheKey(roomIdOf(room), docKey), async () => {
+      const loaded = await this.load(room, docKey);
+
+      if (since === undefined || since <= 0 || since > loaded.seq) {
+        return { kind: 'state', seq: loaded.seq, state: loaded.doc.toJSON() };
+      }
+
+      if (since === loaded.seq) {
+        return { kind: 'updates', seq: loaded.seq, updates: [] };
+      }
+
+      const updates = await this.getUpdatesSince(loaded.id, since);
+      if (updates.length !== loaded.seq - since) {
+        return { kind: 'state', seq: loaded.seq, state: loaded.doc.toJSON() };
+      }
+
+      return { kind: 'updates', seq: loaded.seq, updates };
+    });
+  }
+
+  /**
+   * Apply a client's operations
+   * Returns the new sequence number and the operations that changed the document (none if all were already applied)
+   */
+  async applyUpdate(
+    room: CollaborationRoomRef,
+    docKey: string,
+    update: { userId: number; clientId: string; operations: TextOperation[] }
+  ): Promise<{ seq: number; operations: TextOperation[] }> {
+    const roomId = roomIdOf(room);
+    const key = cacheKey(roomId, docKey);
+
+    return this.enqueue(key, async () => {
+      const loaded = await this.load(room, docKey);
+
+      const applied = await this.append(loaded, update);
+      if (applied.length === 0) {
+        return { seq: loaded.seq, operations: [] };
+      }
+
+      if (loaded.seq - loaded.snapshotSeq >= SNAPSHOT_INTERVAL) {
+        await this.saveSnapshot(loaded);
+      }
+
+      this.scheduleWriteBack(room, loaded);
+      return { seq: loaded.seq, operations: applied };
+    });
+  }
+
+  /**
+   * Snapshot and write back a room's documents and drop them from memory, once everyone has left
+   */
+  async releaseRoom(roomId: string): Promise<void> {
+    const keys = [...this.documents.keys()].filter(key => key.startsWith(`${roomId}/`));
+
+    await Promise.all(keys.map(key => this.enqueue(key, async () => {
+      const loaded = this.documents.get(key);
+      if (!loaded) return;
+
+      const timer = this.writeBackTimers.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        this.writeBackTimers.delete(key);
+        await this.writeBack(loaded);
+      }
+
+      if (loaded.seq > loaded.snapshotSeq) {
+        await this.saveSnapshot(loaded);
+      }
+
+      this.documents.delete(key);
+    })));
+
+    keys.forEach(key => this.queues.delete(key));
+  }
+
+  /**
+   * Run document operations one at a time so sequence numbers stay gap-free
+   */
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    this.queues.set(key, next.catch(() => undefined));
+    return next;
+  }
+
+  /**
+   * Log an update under the next sequence number and apply it to the replica
+   * Another instance may take that number first; catch up from the log and retry
+   */
+  private async append(
+    loaded: LoadedDocument,
+    update: { userId: number; clientId: string; operations: TextOperation[] }
+  ): Promise<TextOperation[]> {
+    for (let attempt = 1; ; attempt++) {
+      // Apply to a copy so a failed write leaves the replica matching the database
+      const next = new TextDocument(loaded.doc.toJSON());
+      const applied = next.applyAll(update.operations);
+      if (applied.length === 0) return applied;
+
+      const seq = loaded.seq + 1;
+      try {
+        await db.insert(collaborativeDocumentUpdates).values({
+          documentId: loaded.id,
+          seq,
+          userId: update.userId,
+          clientId: update.clientId,
+          operations: applied,
+        });
+      } catch (error) {
+        if ((error as { code?: string }).code !== UNIQUE_VIOLATION || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        await this.catchUp(loaded);
+        continue;
+      }
+
+      loaded.doc = next;
+      loaded.seq = seq;
+      return applied;
+    }
+  }
+
+  /**
+   * Apply updates other instances logged since the replica was last current
+   */
+  private async catchUp(loaded: LoadedDocument): Promise<void> {
+    const updates = await this.getUpdatesSince(loaded.id, loaded.seq);
+    updates.forEach(update => loaded.doc.applyAll(update.operations));
+    if (updates.length > 0) {
+      loaded.seq = updates[updates.length - 1].seq;
+    }
+  }
+
+  private async load(room: CollaborationRoomRef, docKey: string): Promise<LoadedDocument> {
+    const roomId = roomIdOf(room);
+    const key = cacheKey(roomId, docKey);
+
+    const cached = this.documents.get(key);
+    if (cached) {
+      await this.catchUp(cached);
+      return cached;
+    }
+
+    let [row] = await db
+      .select()
+      .from(collaborativeDocuments)
+      .where(and(eq(collaborativeDocuments.roomId, roomId), eq(collaborativeDocuments.docKey, docKey)));
+
+    if (!row) {
+      // Seed from the field the document edits so the first editor starts from the saved text
+      const doc = new TextDocument();
+      const text = await this.readSource(room, docKey);
+      if (text) doc.edit(SERVER_CLIENT_ID, text);
+
+      [row] = await db
+        .insert(collaborativeDocuments)
+        .values({ roomId, docKey, state: doc.toJSON(), seq: 0 })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!row) {
+        [row] = await db
+          .select()
+          .from(collaborativeDocuments)
+          .where(and(eq(collaborativeDocuments.roomId, roomId), eq(collaborativeDocuments.docKey, docKey)));
+      }
+    }
+
+    const doc = new TextDocument(row.state as TextDocumentState);
+    const updates = await this.getUpdatesSince(row.id, row.seq);
+    updates.forEach(update => doc.applyAll(update.operations));
+
+    const loaded: LoadedDocument = {
+      id: row.id,
+      roomId,
+      docKey,
+      doc,
+      seq: updates.length > 0 ? updates[updates.length - 1].seq : row.seq,
+      snapshotSeq: row.seq,
+    };
+    this.documents.set(key, loaded);
+    return loaded;
+  }
+
+  private async getUpdatesSince(documentId: number, since: number): Promise<DocumentUpdate[]> {
+    const rows = await db
+      .select()
+      .from(collaborativeDocumentUpdates)
+      .where(and(
+        eq(collaborativeDocumentUpdates.documentId, documentId),
+        gt(collaborativeDocumentUpdates.seq, since)
+      ))
+      .orderBy(asc(collaborativeDocumentUpdates.seq));
+
+    return rows.map(row => ({
+      seq: row.seq,
+      clientId: row.clientId,
+      userId: row.userId,
+      operations: row.operations as TextOperation[],
+    }));
+  }
+
+  private async saveSnapshot(loaded: LoadedDocument): Promise<void> {
+    await db
+      .update(collaborativeDocuments)
+      .set({ state: loaded.doc.toJSON(), seq: loaded.seq, updatedAt: new Date().toISOString() })
+      .where(eq(collaborativeDocuments.id, loaded.id));
+    loaded.snapshotSeq = loaded.seq;
+  }
+
+  private scheduleWriteBack(room: CollaborationRoomRef, loaded: LoadedDocument): void {
+    if (!this.hasSource(room, loaded.docKey)) return;
+
+    const key = cacheKey(loaded.roomId, loaded.docKey);
+    const existing = this.writeBackTimers.get(key);
+    if (existing) clearTimeout(existing);
+
+    this.writeBackTimers.set(key, setTimeout(() => {
+      this.writeBackTimers.delete(key);
+      this.enqueue(key, () => this.writeBack(loaded)).catch(error => {
+        logger.error('Failed to write back collaborative document', { key, error });
+      });
+    }, WRITE_BACK_DELAY_MS));
+  }
+
+  private hasSource(room: CollaborationRoomRef, docKey: string): boolean {
+    return docKey === 'description' || (room.kind === 'plan' && TASK_DESCRIPTION_KEY.test(docKey));
+  }
+
+  private async readSource(room: CollaborationRoomRef, docKey: string): Promise<string | null> {
+    if (room.kind === 'idea' && docKey === 'description') {
+      const [idea] = await db.select({ description: ideas.description }).from(ideas).where(eq(ideas.id, room.id));
+      return idea?.description ?? null;
+    }
+
+    if (room.kind === 'plan' && docKey === 'description') {
+      const [plan] = await db.select({ description: actionPlans.description }).from(actionPlans).where(eq(actionPlans.id, room.id));
+      return plan?.description ?? null;
+    }
+
+    const taskMatch = room.kind === 'plan' ? TASK_DESCRIPTION_KEY.exec(docKey) : null;
+    if (taskMatch) {
+      const [task] = await db
+        .select({ description: planTasks.description })
+        .from(planTasks)
+        .where(and(eq(planTasks.id, parseInt(taskMatch[1])), eq(planTasks.planId, room.id)));
+      return task?.description ?? null;
+    }
+
+    return null;
+  }
+
+  private async writeBack(loaded: LoadedDocument): Promise<void> {
+    const [kind, id] = loaded.roomId.split(':');
+    const roomKey = parseInt(id);
+    const text = loaded.doc.toString();
+    const updatedAt = new Date().toISOString();
+
+    if (kind === 'idea' && loaded.docKey === 'description') {
+      await db.update(ideas).set({ description: text, updatedAt }).where(eq(ideas.id, roomKey));
+      return;
+    }
+
+    if (kind === 'plan' && loaded.docKey === 'description') {
+      await db.update(actionPlans).set({ description: text, updatedAt }).where(eq(actionPlans.id, roomKey));
+      return;
+    }
+
+    const taskMatch = kind === 'plan' ? TASK_DESCRIPTION_KEY.exec(loaded.docKey) : null;
+    if (taskMatch) {
+      await db
+        .update(planTasks)
+        .set({ description: text, updatedAt })
+        .where(and(eq(planTasks.id, parseInt(taskMatch[1])), eq(planTasks.planId, roomKey)));
+    }
+  }
+}
+
+export const collaborativeDocumentService = new CollaborativeDocumentService();
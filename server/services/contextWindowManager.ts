@@ -1,7 +1,9 @@
-import type { ConversationMessage } from '../../shared/schema.js';
+import type { ConversationMessage, ConversationMemory, RenderedPrompt } from '../../shared/schema.js';
+import type { PromptSubject } from './promptTemplateService';
 import { tokenEstimator } from './tokenEstimator';
 import { historySummarizer } from './historySummarizer';
 import { contextOptimizer } from './contextOptimizer';
+import { formatCitationSources, type CitationSource } from './citationService';
 
 /**
  * Context Window for AI conversation
@@ -11,6 +13,9 @@ export interface ContextWindow {
   analysisContext: string;
   conversationHistory: string;
   currentQuery: string;
+  citationContext?: string;
+  toolResults?: string; // outcome of tools the assistant called for this question
+  promptVersionId?: number | null; // system prompt version, null for the built-in default
   totalTokens: number;
 }
 
@@ -65,28 +70,37 @@ export class ContextWindowManager {
 
   /**
    * Build complete context window for AI conversation
+   * Several analyses share the analysis budget, each packed with fewer gaps
    */
   async buildContext(
-    analysis: AnalysisData,
+    analysis: AnalysisData | AnalysisData[],
     conversationHistory: ConversationMessage[],
     currentQuery: string,
     maxTokens: number = 8000,
     options: {
       useCache?: boolean;
       optimize?: boolean;
+      memory?: ConversationMemory | null;
+      citationSources?: CitationSource[];
+      promptSubject?: PromptSubject;
     } = {}
   ): Promise<ContextWindow> {
-    const { useCache = true, optimize = true } = options;
+    const { useCache = true, optimize = true, memory = null, citationSources = [], promptSubject } = options;
     const budget = this.calculateBudget(maxTokens);
 
+    const analyses = Array.isArray(analysis) ? analysis : [analysis];
+
     // Build system prompt
-    const systemPrompt = this.buildSystemPrompt();
+    const renderedPrompt = await this.buildSystemPrompt(analyses.length, promptSubject);
+    const systemPrompt = renderedPrompt.content;
 
     // Check cache for analysis context
     let analysisContext: string;
-    const analysisId = (analysis as any).id?.toString();
+    const analysisId = analyses.length === 1 ? (analyses[0] as any).id?.toString() : undefined;
 
-    if (useCache && analysisId) {
+    if (analyses.length > 1) {
+      analysisContext = this.buildComparisonContext(analyses, budget.analysisContext);
+    } else if (useCache && analysisId) {
       // Try Redis cache first
       const { conversationCacheService } = await import('./conversationCacheService.js');
       const redisCached = await conversationCacheService.getAnalysisContext(parseInt(analysisId));
@@ -100,7 +114,7 @@ export class ContextWindowManager {
           analysisContext = cached.content;
         } else {
           // Optimize analysis data (top 5 gaps only)
-          const optimizedAnalysis = contextOptimizer.optimizeAnalysisData(analysis, 5);
+          const optimizedAnalysis = contextOptimizer.optimizeAnalysisData(analyses[0], 5);
           analysisContext = this.buildAnalysisContext(
             optimizedAnalysis,
             budget.analysisContext
@@ -114,19 +128,26 @@ export class ContextWindowManager {
       }
     } else {
       // Optimize analysis data (top 5 gaps only)
-      const optimizedAnalysis = contextOptimizer.optimizeAnalysisData(analysis, 5);
+      const optimizedAnalysis = contextOptimizer.optimizeAnalysisData(analyses[0], 5);
       analysisContext = this.buildAnalysisContext(optimizedAnalysis, budget.analysisContext);
     }
 
     // Build conversation history (with summarization if needed)
     const historyContext = await this.buildConversationHistory(
       conversationHistory,
-      budget.conversationHistory
+      budget.conversationHistory,
+      memory
     );
 
     // Truncate current query if needed
     const truncatedQuery = this.truncateText(currentQuery, budget.currentQuery);
 
+    // Citable sources get half the analysis budget; drop the last sources rather than cut the instructions
+    const citationContext = this.buildCitationContext(
+      citationSources,
+      Math.floor(budget.analysisContext / 2)
+    );
+
     // Optimize context window if requested
     let finalContext = {
       systemPrompt,
@@ -151,6 +172,7 @@ export class ContextWindowManager {
       finalContext.analysisContext,
       finalContext.conversationHistory,
       finalContext.currentQuery,
+      citationContext,
     ]);
 
     return {
@@ -158,45 +180,58 @@ export class ContextWindowManager {
       analysisContext: finalContext.analysisContext,
       conversationHistory: finalContext.conversationHistory,
       currentQuery: finalContext.currentQuery,
+      ...(citationContext ? { citationContext } : {}),
+      promptVersionId: renderedPrompt.versionId,
       totalTokens,
     };
   }
 
   /**
-   * Build system prompt with role definition and guidelines
+   * Build system prompt with role definition and guidelines, from the prompt registry
    */
-  private buildSystemPrompt(): string {
-    return `You are an AI advisor for Unbuilt, a platform that helps entrepreneurs discover market gaps and innovation opportunities. You are having a conversation with a user about their gap analysis.
-
-GUIDELINES:
-1. Be conversational and helpful, not robotic
-2. Reference specific data from the analysis when relevant
-3. If you make assumptions, state them explicitly
-4. For financial projections, include appropriate disclaimers
-5. Stay focused on the analysis topic; politely redirect off-topic questions
-6. Acknowledge uncertainty rather than making up information
-7. Cite sources when making specific claims
-8. Be encouraging but realistic about opportunities and challenges
-
-SAFETY:
-- Reject inappropriate, offensive, or harmful requests
-- Do not provide legal, medical, or financial advice
-- Do not make guarantees about business success
-- Respect user privacy and data
-
-RESPONSE FORMAT:
-- Use clear paragraphs
-- Include bullet points for lists
-- Bold key insights with **text**
-- Keep responses concise (200-400 words typically)`;
+  private async buildSystemPrompt(
+    analysisCount: number = 1,
+    subject?: PromptSubject
+  ): Promise<RenderedPrompt> {
+    const topic = analysisCount > 1
+      ? `${analysisCount} of their gap analyses. Compare them directly when asked, referring to each as "Analysis N" with its search, and say which data each claim comes from.`
+      : 'their gap analysis.';
+
+    const { promptTemplateService } = await import('./promptTemplateService.js');
+    return promptTemplateService.render('conversation_system', { topic }, subject);
   }
 
   /**
    * Build analysis context from gap analysis data
    */
   private buildAnalysisContext(analysis: AnalysisData, maxTokens: number): string {
-    let context = `ANALYSIS CONTEXT:\n\n`;
-    context += `Original Search: ${analysis.searchQuery}\n\n`;
+    return this.truncateText(`ANALYSIS CONTEXT:\n\n${this.buildAnalysisSummary(analysis)}`, maxTokens);
+  }
+
+  /**
+   * Build context for several analyses.
+   * Each gets an equal share of the budget and fewer gaps the more analyses there are,
+   * so every analysis stays represented instead of the first crowding out the rest.
+   */
+  private buildComparisonContext(analyses: AnalysisData[], maxTokens: number): string {
+    const tokensPerAnalysis = Math.floor(maxTokens / analyses.length);
+    const gapsPerAnalysis = Math.max(2, Math.floor(10 / analyses.length));
+
+    let context = `ANALYSES IN SCOPE (${analyses.length}):\n\n`;
+    analyses.forEach((analysis, index) => {
+      const optimizedAnalysis = contextOptimizer.optimizeAnalysisData(analysis, gapsPerAnalysis);
+      const section = `=== ANALYSIS ${index + 1} ===\n${this.buildAnalysisSummary(optimizedAnalysis)}`;
+      context += `${this.truncateText(section, tokensPerAnalysis).trimEnd()}\n\n`;
+    });
+
+    return this.truncateText(context, maxTokens);
+  }
+
+  /**
+   * Summarize one analysis: search, scores, top gaps, competitors and plan phases
+   */
+  private buildAnalysisSummary(analysis: AnalysisData): string {
+    let context = `Original Search: ${analysis.searchQuery}\n\n`;
 
     if (analysis.innovationScore !== undefined) {
       context += `Innovation Score: ${analysis.innovationScore}/100\n`;
@@ -251,8 +286,7 @@ RESPONSE FORMAT:
       });
     }
 
-    // Truncate if exceeds budget
-    return this.truncateText(context, maxTokens);
+    return context;
   }
 
   /**
@@ -260,18 +294,18 @@ RESPONSE FORMAT:
    */
   private async buildConversationHistory(
     messages: ConversationMessage[],
-    maxTokens: number
+    maxTokens: number,
+    memory: ConversationMemory | null = null
   ): Promise<string> {
-    if (messages.length === 0) {
+    if (messages.length === 0 && !memory) {
       return '';
     }
 
     let history = `CONVERSATION HISTORY:\n\n`;
 
-    // Check if summarization is needed
-    if (historySummarizer.needsSummarization(messages.length)) {
-      // Summarize long conversations
-      const summarized = await historySummarizer.summarizeHistory(messages, maxTokens);
+    // Long conversations and conversations with a persisted memory are summarized
+    if (memory || historySummarizer.needsSummarization(messages.length)) {
+      const summarized = await historySummarizer.summarizeHistory(messages, maxTokens, memory);
       history += historySummarizer.formatForContext(summarized);
     } else {
       // Short conversations - include all messages
@@ -322,6 +356,22 @@ RESPONSE FORMAT:
     return text.substring(0, maxChars - 3) + '...';
   }
 
+  /**
+   * Format citable sources, dropping trailing sources until the block fits
+   */
+  private buildCitationContext(sources: CitationSource[], maxTokens: number): string {
+    const maxChars = maxTokens * 4;
+    let included = sources;
+    let formatted = formatCitationSources(included);
+
+    while (included.length > 0 && formatted.length > maxChars) {
+      included = included.slice(0, -1);
+      formatted = formatCitationSources(included);
+    }
+
+    return formatted;
+  }
+
   /**
    * Validate context window fits within budget
    */
@@ -0,0 +1,293 @@
+import { db } from '../db';
+import {
+  conversationMemories,
+  conversationMessages,
+  type ConversationMemory,
+  type ConversationMessage
+} from '@shared/schema';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+import { getGeminiClient, isGeminiAvailable } from './geminiConversationService';
+import { historySummarizer } from './historySummarizer';
+import { conversationRepository } from './conversationRepository';
+import { aiBudgetService, type AIBudgetSubject } from './aiBudgetService';
+import { tokenEstimator } from './tokenEstimator';
+
+/** Messages that must fall out of the verbatim window before the memory is refreshed */
+export const MEMORY_REFRESH_MIN_MESSAGES = 4;
+
+/** Upper bound on the stored summary so the memory stays within its share of the history budget */
+export const MAX_MEMORY_SUMMARY_CHARS = 2400;
+
+/** Upper bound on stored facts and on stored decisions */
+export const MAX_MEMORY_ITEMS = 15;
+
+/** Most tokens a memory refresh may generate */
+const MEMORY_MAX_OUTPUT_TOKENS = 1500;
+
+/**
+ * Memory content produced by a refresh
+ */
+export interface MemoryUpdate {
+  summary: string;
+  facts: string[];
+  decisions: string[];
+}
+
+/**
+ * Keep a memory update within its size limits.
+ * Duplicate items are dropped and the most recent items are kept.
+ */
+export function boundMemory(update: MemoryUpdate): MemoryUpdate {
+  const boundItems = (items: string[]) => {
+    const seen = new Set<string>();
+    const unique = items
+      .map(item => item.trim())
+      .filter(item => {
+        const key = item.toLowerCase();
+        if (!item || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return unique.slice(-MAX_MEMORY_ITEMS);
+  };
+
+  let summary = update.summary.trim();
+  if (summary.length > MAX_MEMORY_SUMMARY_CHARS) {
+    // Drop the oldest lines first; the newest exchanges are the least compressed
+    const tail = summary.slice(summary.length - MAX_MEMORY_SUMMARY_CHARS + 2);
+    const lineBreak = tail.indexOf('\n');
+    summary = '…\n' + (lineBreak >= 0 ? tail.slice(lineBreak + 1) : tail);
+  }
+
+  return {
+    summary,
+    facts: boundItems(update.facts),
+    decisions: boundItems(update.decisions),
+  };
+}
+
+/**
+ * Build the prompt that folds new exchanges into the existing memory
+ */
+export function buildMemoryPrompt(previous: MemoryUpdate | null, messages: ConversationMessage[]): string {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'AI'}: ${message.content}`)
+    .join('\n\n');
+
+  const existing = previous
+    ? JSON.stringify(previous, null, 2)
+    : '{"summary": "", "facts": [], "decisions": []}';
+
+  return `You maintain the long-term memory of a conversation between an entrepreneur and an AI advisor about a market gap analysis.
+
+Current memory:
+${existing}
+
+New exchanges to fold into the memory:
+${transcript}
+
+Update the memory so it covers everything above:
+1. "summary": a compact narrative of the whole conversation so far (at most ${Math.floor(MAX_MEMORY_SUMMARY_CHARS / 6)} words)
+2. "facts": concrete facts established about the idea, market, customers, numbers or constraints
+3. "decisions": choices, commitments and rejected options the user settled on
+Keep earlier facts and decisions unless the new exchanges replace them. At most ${MAX_MEMORY_ITEMS} facts and ${MAX_MEMORY_ITEMS} decisions.
+
+Respond with JSON only:
+{"summary": "...", "facts": ["..."], "decisions": ["..."]}`;
+}
+
+/**
+ * Parse the model's memory update, or null when it is not usable
+ */
+export function parseMemoryUpdate(content: string): MemoryUpdate | null {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    const isStringArray = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+
+    if (typeof parsed.summary !== 'string' || !isStringArray(parsed.facts) || !isStringArray(parsed.decisions)) {
+      return null;
+    }
+
+    return boundMemory({
+      summary: parsed.summary,
+      facts: parsed.facts,
+      decisions: parsed.decisions,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fold heuristic key points into the memory when the model is unavailable
+ */
+export function mergeHeuristicMemory(previous: MemoryUpdate | null, keyPoints: string[]): MemoryUpdate {
+  const lines = keyPoints.map(point => `- ${point}`).join('\n');
+
+  return boundMemory({
+    summary: previous?.summary ? `${previous.summary}\n${lines}` : lines,
+    facts: previous?.facts ?? [],
+    decisions: previous?.decisions ?? [],
+  });
+}
+
+/**
+ * Conversation Memory Service
+ * Keeps a persisted, incrementally updated memory of exchanges that fell out of
+ * the verbatim history window, so long conversations stay bounded without forgetting.
+ */
+export class ConversationMemoryService {
+  private readonly refreshing = new Set<number>();
+
+  /**
+   * Get the stored memory for a conversation
+   */
+  async getMemory(conversationId: number): Promise<ConversationMemory | null> {
+    const [memory] = await db
+      .select()
+      .from(conversationMemories)
+      .where(eq(conversationMemories.conversationId, conversationId))
+      .limit(1);
+
+    return memory ?? null;
+  }
+
+  /**
+   * Refresh the memory once the conversation outgrows the verbatim history window
+   */
+  async refreshIfNeeded(conversationId: number, subject: AIBudgetSubject): Promise<ConversationMemory | null> {
+    const messageCount = await conversationRepository.getMessageCount(conversationId);
+    if (!historySummarizer.needsSummarization(messageCount)) {
+      return null;
+    }
+
+    return this.refreshMemory(conversationId, subject);
+  }
+
+  /**
+   * Fold messages older than the verbatim window into the memory, charging the model call to
+   * the subject's budgets. Returns the current memory unchanged when too few messages are waiting;
+   * a blocked or failed call falls back to a heuristic summary.
+   */
+  async refreshMemory(conversationId: number, subject: AIBudgetSubject): Promise<ConversationMemory | null> {
+    if (this.refreshing.has(conversationId)) {
+      return this.getMemory(conversationId);
+    }
+
+    this.refreshing.add(conversationId);
+    try {
+      const current = await this.getMemory(conversationId);
+      const uncovered = await db
+        .select()
+        .from(conversationMessages)
+        .where(and(
+          eq(conversationMessages.conversationId, conversationId),
+          gt(conversationMessages.id, current?.coveredThroughMessageId ?? 0)
+        ))
+        .orderBy(asc(conversationMessages.createdAt), asc(conversationMessages.id));
+
+      const foldable = uncovered.slice(0, Math.max(0, uncovered.length - historySummarizer.getRecentWindowSize()));
+
+      // Keep exchanges together: a question stays with its answer in the verbatim window
+      if (foldable.length > 0 && foldable[foldable.length - 1].role === 'user') {
+        foldable.pop();
+      }
+
+      if (foldable.length < MEMORY_REFRESH_MIN_MESSAGES) {
+        return current;
+      }
+
+      const previous: MemoryUpdate | null = current
+        ? { summary: current.summary, facts: current.facts as string[], decisions: current.decisions as string[] }
+        : null;
+
+      let update: MemoryUpdate | null = null;
+      let generatedBy: 'llm' | 'heuristic' = 'llm';
+
+      if (isGeminiAvailable()) {
+        try {
+          update = await this.generateMemory(previous, foldable, subject);
+        } catch (error) {
+          console.error('Failed to generate conversation memory:', error);
+        }
+      }
+
+      if (!update) {
+        const segment = await historySummarizer.summarizeSegment(foldable, Math.floor(MAX_MEMORY_SUMMARY_CHARS / 4));
+        update = mergeHeuristicMemory(previous, segment.keyPoints);
+        generatedBy = 'heuristic';
+      }
+
+      const coverage = {
+        coveredThroughMessageId: foldable[foldable.length - 1].id,
+        coveredMessageCount: (current?.coveredMessageCount ?? 0) + foldable.length,
+        generatedBy,
+      };
+
+      const [memory] = await db
+        .insert(conversationMemories)
+        .values({ conversationId, ...update, ...coverage })
+        .onConflictDoUpdate({
+          target: conversationMemories.conversationId,
+          set: { ...update, ...coverage, updatedAt: sql`NOW()` },
+        })
+        .returning();
+
+      console.log(`🧠 Conversation memory refreshed`, {
+        conversationId,
+        foldedMessages: foldable.length,
+        coveredMessageCount: coverage.coveredMessageCount,
+        generatedBy,
+      });
+
+      return memory;
+    } finally {
+      this.refreshing.delete(conversationId);
+    }
+  }
+
+  /**
+   * Ask the model to fold new exchanges into the memory
+   */
+  private async generateMemory(
+    previous: MemoryUpdate | null,
+    messages: ConversationMessage[],
+    subject: AIBudgetSubject
+  ): Promise<MemoryUpdate | null> {
+    const client = getGeminiClient();
+    const prompt = buildMemoryPrompt(previous, messages);
+    const inputTokens = await tokenEstimator.estimateTokens(prompt);
+
+    const text = await aiBudgetService.runWithinBudget(subject, 'conversation_memory', {
+      inputTokens,
+      maxOutputTokens: MEMORY_MAX_OUTPUT_TOKENS,
+    }, async model => {
+      const response = await client.models.generateContent({
+        model,
+        config: {
+          temperature: 0.2,
+          maxOutputTokens: MEMORY_MAX_OUTPUT_TOKENS,
+        },
+        contents: prompt,
+      });
+
+      const content = response.text || '';
+      return { result: content, inputTokens, outputTokens: await tokenEstimator.estimateTokens(content) };
+    });
+
+    const update = parseMemoryUpdate(text);
+    if (!update) {
+      console.error('Conversation memory response was not valid JSON');
+    }
+    return update;
+  }
+}
+
+// Export singleton instance
+export const conversationMemoryService = new ConversationMemoryService();
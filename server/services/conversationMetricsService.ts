@@ -6,7 +6,7 @@ import {
   searches,
   users,
 } from '@shared/schema';
-import { eq, and, gte, lte, sql, desc, count, avg, sum } from 'drizzle-orm';
+import { eq, and, gte, lte, sql, desc, count, avg, sum, inArray } from 'drizzle-orm';
 
 /**
  * Conversation Metrics Service
@@ -54,6 +54,16 @@ export interface UserEngagementMetrics {
   totalTokensUsed: number;
 }
 
+export interface PromptVersionQuality {
+  versionId: number;
+  answers: number;
+  ratedAnswers: number;
+  avgRating: number | null;
+  positiveRate: number | null; // share of ratings of 4 or 5
+  avgResponseTime: number | null; // milliseconds
+  avgTokens: number | null;
+}
+
 export interface ConversationQualityMetrics {
   conversationId: number;
   messageCount: number;
@@ -530,6 +540,53 @@ export async function getTopConversations(
   }));
 }
 
+/**
+ * Calculate answer quality per prompt version, from the ratings of the
+ * assistant messages each version generated
+ */
+export async function calculatePromptVersionQuality(
+  versionIds: number[]
+): Promise<PromptVersionQuality[]> {
+  if (versionIds.length === 0) {
+    return [];
+  }
+
+  const versionIdSql = sql<number>`(${conversationMessages.metadata}->>'promptVersionId')::integer`;
+  const ratingSql = sql`(${conversationMessages.metadata}->>'rating')::numeric`;
+
+  const rows = await db
+    .select({
+      versionId: versionIdSql,
+      answers: sql<string>`COUNT(*)`,
+      ratedAnswers: sql<string>`COUNT(${ratingSql})`,
+      avgRating: sql<string | null>`AVG(${ratingSql})`,
+      positiveAnswers: sql<string>`COUNT(*) FILTER (WHERE ${ratingSql} >= 4)`,
+      avgResponseTime: sql<string | null>`AVG((${conversationMessages.metadata}->>'processingTime')::numeric)`,
+      avgTokens: sql<string | null>`AVG((${conversationMessages.metadata}->'tokensUsed'->>'total')::numeric)`,
+    })
+    .from(conversationMessages)
+    .where(
+      and(
+        eq(conversationMessages.role, 'assistant'),
+        inArray(versionIdSql, versionIds)
+      )
+    )
+    .groupBy(versionIdSql);
+
+  return rows.map(row => {
+    const ratedAnswers = Number(row.ratedAnswers);
+    return {
+      versionId: Number(row.versionId),
+      answers: Number(row.answers),
+      ratedAnswers,
+      avgRating: row.avgRating !== null ? Math.round(parseFloat(row.avgRating) * 100) / 100 : null,
+      positiveRate: ratedAnswers > 0 ? Math.round((Number(row.positiveAnswers) / ratedAnswers) * 100) / 100 : null,
+      avgResponseTime: row.avgResponseTime !== null ? Math.round(parseFloat(row.avgResponseTime)) : null,
+      avgTokens: row.avgTokens !== null ? Math.round(parseFloat(row.avgTokens)) : null,
+    };
+  });
+}
+
 /**
  * Track conversation event for metrics
  */
@@ -563,5 +620,6 @@ export const conversationMetricsService = {
   calculateReturnRate,
   calculateConversionImpact,
   calculateAvgCostPerConversation,
+  calculatePromptVersionQuality,
   trackConversationEvent,
 };
@@ -4,6 +4,11 @@ import {
   conversationMessages, 
   suggestedQuestions, 
   conversationAnalytics,
+  conversationMemories,
+  conversationToolCalls,
+  conversationAnalyses,
+  projectAnalyses,
+  searches,
   type Conversation,
   type InsertConversation,
   type ConversationMessage,
@@ -12,9 +17,18 @@ import {
   type InsertSuggestedQuestion,
   type ConversationAnalytics,
   type InsertConversationAnalytics,
-  type UpdateConversationAnalytics
+  type UpdateConversationAnalytics,
+  type ConversationBranchSummary,
+  type ConversationToolCall,
+  type InsertConversationToolCall,
+  type ConversationScopeAnalysis,
+  type ConversationMessageSearchFilters,
+  type ConversationMessageSearchHit,
+  type Search
 } from '@shared/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, asc, desc, gte, inArray, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Conversation Repository
@@ -22,7 +36,7 @@ import { eq, and, desc, sql } from 'drizzle-orm';
  */
 export class ConversationRepository {
   /**
-   * Get or create a conversation for an analysis
+   * Get or create the main conversation thread for an analysis
    */
   async getOrCreateConversation(
     analysisId: number,
@@ -35,7 +49,9 @@ export class ConversationRepository {
       .where(
         and(
           eq(conversations.analysisId, analysisId),
-          eq(conversations.userId, userId)
+          eq(conversations.userId, userId),
+          isNull(conversations.parentConversationId),
+          eq(conversations.scope, 'analysis')
         )
       )
       .limit(1);
@@ -80,7 +96,7 @@ export class ConversationRepository {
   }
 
   /**
-   * Get conversation by analysis ID and user ID
+   * Get the main conversation thread by analysis ID and user ID
    */
   async getConversationByAnalysis(
     analysisId: number,
@@ -92,7 +108,9 @@ export class ConversationRepository {
       .where(
         and(
           eq(conversations.analysisId, analysisId),
-          eq(conversations.userId, userId)
+          eq(conversations.userId, userId),
+          isNull(conversations.parentConversationId),
+          eq(conversations.scope, 'analysis')
         )
       )
       .limit(1);
@@ -100,6 +118,295 @@ export class ConversationRepository {
     return result[0];
   }
 
+  /**
+   * Get the main thread and all branches for an analysis, oldest first
+   */
+  async getBranches(
+    analysisId: number,
+    userId: number
+  ): Promise<ConversationBranchSummary[]> {
+    const rows = await db
+      .select({
+        id: conversations.id,
+        branchName: conversations.branchName,
+        parentConversationId: conversations.parentConversationId,
+        forkedFromMessageId: conversations.forkedFromMessageId,
+        messageCount: conversationAnalytics.messageCount,
+        totalTokensUsed: conversationAnalytics.totalTokensUsed,
+        createdAt: conversations.createdAt,
+        updatedAt: conversations.updatedAt,
+      })
+      .from(conversations)
+      .leftJoin(conversationAnalytics, eq(conversationAnalytics.conversationId, conversations.id))
+      .where(
+        and(
+          eq(conversations.analysisId, analysisId),
+          eq(conversations.userId, userId),
+          eq(conversations.scope, 'analysis')
+        )
+      )
+      .orderBy(asc(conversations.createdAt), asc(conversations.id));
+
+    return rows.map(row => ({
+      ...row,
+      messageCount: row.messageCount ?? 0,
+      totalTokensUsed: row.totalTokensUsed ?? 0,
+    }));
+  }
+
+  /**
+   * Fork a conversation into a new branch.
+   * The branch gets copies of the parent's messages up to the fork point and fresh
+   * token accounting; the memory is carried over when it only covers inherited messages.
+   */
+  async createBranch(
+    parent: Conversation,
+    forkAtMessageId: number,
+    options: { branchName: string; includeForkMessage: boolean }
+  ): Promise<Conversation> {
+    return await db.transaction(async (tx) => {
+      const inherited = await tx
+        .select()
+        .from(conversationMessages)
+        .where(
+          and(
+            eq(conversationMessages.conversationId, parent.id),
+            options.includeForkMessage
+              ? lte(conversationMessages.id, forkAtMessageId)
+              : lt(conversationMessages.id, forkAtMessageId)
+          )
+        )
+        .orderBy(asc(conversationMessages.id));
+
+      const [branch] = await tx
+        .insert(conversations)
+        .values({
+          analysisId: parent.analysisId,
+          userId: parent.userId,
+          variantIds: parent.variantIds,
+          parentConversationId: parent.id,
+          forkedFromMessageId: inherited.length > 0 ? inherited[inherited.length - 1].id : null,
+          branchName: options.branchName,
+        })
+        .returning();
+
+      // Copy messages in order so ids stay chronological within the branch
+      const copiedIds = new Map<number, number>();
+      for (const message of inherited) {
+        const [copy] = await tx
+          .insert(conversationMessages)
+          .values({
+            conversationId: branch.id,
+            role: message.role,
+            content: message.content,
+            metadata: message.metadata,
+            copiedFromMessageId: message.id,
+            createdAt: message.createdAt,
+            editedAt: message.editedAt,
+          })
+          .returning({ id: conversationMessages.id });
+        copiedIds.set(message.id, copy.id);
+      }
+
+      await tx.insert(conversationAnalytics).values({
+        conversationId: branch.id,
+        userId: parent.userId,
+        messageCount: inherited.length,
+        totalTokensUsed: 0,
+        avgResponseTime: 0,
+      });
+
+      const [memory] = await tx
+        .select()
+        .from(conversationMemories)
+        .where(eq(conversationMemories.conversationId, parent.id))
+        .limit(1);
+
+      const coveredThrough = memory?.coveredThroughMessageId
+        ? copiedIds.get(memory.coveredThroughMessageId)
+        : undefined;
+
+      if (memory && coveredThrough) {
+        await tx.insert(conversationMemories).values({
+          conversationId: branch.id,
+          summary: memory.summary,
+          facts: memory.facts,
+          decisions: memory.decisions,
+          coveredThroughMessageId: coveredThrough,
+          coveredMessageCount: memory.coveredMessageCount,
+          generatedBy: memory.generatedBy,
+        });
+      }
+
+      return branch;
+    });
+  }
+
+  /**
+   * Get the conversation covering a project's analyses
+   */
+  async getProjectConversation(
+    projectId: number,
+    userId: number
+  ): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.projectId, projectId),
+          eq(conversations.userId, userId),
+          isNull(conversations.parentConversationId),
+          eq(conversations.scope, 'project')
+        )
+      )
+      .limit(1);
+
+    return conversation;
+  }
+
+  /**
+   * Create a conversation covering several analyses.
+   * Comparison conversations record their analyses; project conversations follow the project's.
+   */
+  async createMultiAnalysisConversation(values: {
+    userId: number;
+    scope: 'project' | 'comparison';
+    projectId?: number;
+    title: string;
+    analysisIds: number[];
+  }): Promise<Conversation> {
+    return await db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({
+          analysisId: values.analysisIds[0],
+          userId: values.userId,
+          variantIds: [],
+          scope: values.scope,
+          projectId: values.projectId ?? null,
+          title: values.title,
+        })
+        .returning();
+
+      await tx.insert(conversationAnalytics).values({
+        conversationId: conversation.id,
+        userId: values.userId,
+        messageCount: 0,
+        totalTokensUsed: 0,
+        avgResponseTime: 0,
+      });
+
+      if (values.scope === 'comparison') {
+        await tx.insert(conversationAnalyses).values(
+          values.analysisIds.map(analysisId => ({ conversationId: conversation.id, analysisId }))
+        );
+      }
+
+      return conversation;
+    });
+  }
+
+  /**
+   * Get the project and comparison conversations a user owns or can view in their teams'
+   * workspaces, most recently active first
+   */
+  async getMultiAnalysisConversations(
+    userId: number
+  ): Promise<Array<Conversation & { messageCount: number }>> {
+    const rows = await db
+      .select({
+        conversation: conversations,
+        messageCount: conversationAnalytics.messageCount,
+      })
+      .from(conversations)
+      .leftJoin(conversationAnalytics, eq(conversationAnalytics.conversationId, conversations.id))
+      .where(
+        and(
+          workspaceService.accessCondition(conversations, userId, TeamPermission.VIEW),
+          isNull(conversations.parentConversationId),
+          ne(conversations.scope, 'analysis')
+        )
+      )
+      .orderBy(desc(conversations.updatedAt));
+
+    return rows.map(row => ({ ...row.conversation, messageCount: row.messageCount ?? 0 }));
+  }
+
+  /**
+   * Get the analyses a comparison conversation covers, in the order they were picked
+   */
+  async getConversationAnalysisIds(conversationId: number): Promise<number[]> {
+    const rows = await db
+      .select({ analysisId: conversationAnalyses.analysisId })
+      .from(conversationAnalyses)
+      .where(eq(conversationAnalyses.conversationId, conversationId))
+      .orderBy(asc(conversationAnalyses.id));
+
+    return rows.map(row => row.analysisId);
+  }
+
+  /**
+   * Get the analyses in a project, most recently added first
+   */
+  async getProjectAnalysisIds(projectId: number): Promise<number[]> {
+    const rows = await db
+      .select({ analysisId: projectAnalyses.searchId })
+      .from(projectAnalyses)
+      .where(eq(projectAnalyses.projectId, projectId))
+      .orderBy(desc(projectAnalyses.addedAt), desc(projectAnalyses.id));
+
+    return rows.map(row => row.analysisId);
+  }
+
+  /**
+   * Get analyses by ID, in the order given
+   */
+  async getScopeAnalyses(analysisIds: number[]): Promise<ConversationScopeAnalysis[]> {
+    if (analysisIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({ id: searches.id, query: searches.query, timestamp: searches.timestamp })
+      .from(searches)
+      .where(inArray(searches.id, analysisIds));
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return analysisIds.flatMap(id => byId.get(id) ?? []);
+  }
+
+  /**
+   * Replace the title or analyses of a comparison conversation
+   */
+  async updateComparison(
+    conversationId: number,
+    updates: { title?: string; analysisIds?: number[] }
+  ): Promise<Conversation> {
+    return await db.transaction(async (tx) => {
+      if (updates.analysisIds) {
+        await tx
+          .delete(conversationAnalyses)
+          .where(eq(conversationAnalyses.conversationId, conversationId));
+        await tx.insert(conversationAnalyses).values(
+          updates.analysisIds.map(analysisId => ({ conversationId, analysisId }))
+        );
+      }
+
+      const [conversation] = await tx
+        .update(conversations)
+        .set({
+          ...(updates.title !== undefined ? { title: updates.title } : {}),
+          ...(updates.analysisIds ? { analysisId: updates.analysisIds[0] } : {}),
+          updatedAt: sql`NOW()`,
+        })
+        .where(eq(conversations.id, conversationId))
+        .returning();
+
+      return conversation;
+    });
+  }
+
   /**
    * Update conversation variant IDs
    */
@@ -116,6 +423,110 @@ export class ConversationRepository {
       .where(eq(conversations.id, conversationId));
   }
 
+  /**
+   * Create the search record for a variant analysis
+   */
+  async createVariantSearch(userId: number, query: string): Promise<Search> {
+    const [variantSearch] = await db
+      .insert(searches)
+      .values({
+        query,
+        userId,
+        resultsCount: 0,
+        isFavorite: false,
+      })
+      .returning();
+
+    return variantSearch;
+  }
+
+  /**
+   * Record a tool call made by the assistant
+   */
+  async createToolCall(toolCall: InsertConversationToolCall): Promise<ConversationToolCall> {
+    const [created] = await db
+      .insert(conversationToolCalls)
+      .values(toolCall)
+      .returning();
+
+    return created;
+  }
+
+  /**
+   * Get a tool call by ID
+   */
+  async getToolCallById(toolCallId: number): Promise<ConversationToolCall | undefined> {
+    const [toolCall] = await db
+      .select()
+      .from(conversationToolCalls)
+      .where(eq(conversationToolCalls.id, toolCallId))
+      .limit(1);
+
+    return toolCall;
+  }
+
+  /**
+   * Get the tool calls attached to a conversation's answers, oldest first
+   */
+  async getToolCalls(conversationId: number): Promise<ConversationToolCall[]> {
+    return await db
+      .select()
+      .from(conversationToolCalls)
+      .where(eq(conversationToolCalls.conversationId, conversationId))
+      .orderBy(asc(conversationToolCalls.id));
+  }
+
+  /**
+   * Update a tool call's status and outcome
+   */
+  async updateToolCall(
+    toolCallId: number,
+    updates: Partial<Pick<ConversationToolCall, 'status' | 'result' | 'error' | 'resolvedAt'>>
+  ): Promise<ConversationToolCall> {
+    const [updated] = await db
+      .update(conversationToolCalls)
+      .set(updates)
+      .where(eq(conversationToolCalls.id, toolCallId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Move a pending tool call to another status
+   * Returns undefined if it is no longer pending, so only one of several
+   * concurrent confirms or rejects gets to act on it
+   */
+  async claimPendingToolCall(
+    toolCallId: number,
+    updates: Partial<Pick<ConversationToolCall, 'status' | 'resolvedAt'>>
+  ): Promise<ConversationToolCall | undefined> {
+    const [claimed] = await db
+      .update(conversationToolCalls)
+      .set(updates)
+      .where(and(
+        eq(conversationToolCalls.id, toolCallId),
+        eq(conversationToolCalls.status, 'pending')
+      ))
+      .returning();
+
+    return claimed;
+  }
+
+  /**
+   * Link tool calls to the answer they were made for
+   */
+  async attachToolCallsToMessage(toolCallIds: number[], messageId: number): Promise<void> {
+    if (toolCallIds.length === 0) {
+      return;
+    }
+
+    await db
+      .update(conversationToolCalls)
+      .set({ messageId })
+      .where(inArray(conversationToolCalls.id, toolCallIds));
+  }
+
   /**
    * Delete conversation and all related data
    */
@@ -171,6 +582,106 @@ export class ConversationRepository {
     return await query;
   }
 
+  /**
+   * Get the most recent messages for a conversation, oldest first
+   */
+  async getRecentMessages(
+    conversationId: number,
+    limit: number
+  ): Promise<ConversationMessage[]> {
+    const messages = await db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(desc(conversationMessages.createdAt), desc(conversationMessages.id))
+      .limit(limit);
+
+    return messages.reverse();
+  }
+
+  /**
+   * Full-text search over the messages of conversations a user owns or can view in their teams'
+   * workspaces, best matches first.
+   * Messages a branch inherited from its parent are skipped so each exchange is found once.
+   */
+  async searchMessages(
+    userId: number,
+    query: string,
+    filters: ConversationMessageSearchFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ hits: ConversationMessageSearchHit[]; total: number }> {
+    // Must match the expression of conversation_messages_content_search_idx
+    const document = sql`to_tsvector('english', ${conversationMessages.content})`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+
+    const conditions = [
+      workspaceService.accessCondition(conversations, userId, TeamPermission.VIEW),
+      isNull(conversationMessages.copiedFromMessageId),
+      sql`${document} @@ ${tsQuery}`,
+    ];
+
+    if (filters.analysisId !== undefined) {
+      // Comparisons also match on any analysis they cover
+      conditions.push(or(
+        eq(conversations.analysisId, filters.analysisId),
+        sql`EXISTS (SELECT 1 FROM ${conversationAnalyses} WHERE ${conversationAnalyses.conversationId} = ${conversations.id} AND ${conversationAnalyses.analysisId} = ${filters.analysisId})`
+      )!);
+    }
+    if (filters.role) {
+      conditions.push(eq(conversationMessages.role, filters.role));
+    }
+    if (filters.from) {
+      conditions.push(gte(conversationMessages.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(conversationMessages.createdAt, filters.to));
+    }
+
+    const where = and(...conditions);
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+
+    const rows = await db
+      .select({
+        messageId: conversationMessages.id,
+        conversationId: conversationMessages.conversationId,
+        analysisId: conversations.analysisId,
+        analysisQuery: searches.query,
+        scope: conversations.scope,
+        conversationTitle: conversations.title,
+        branchName: conversations.branchName,
+        role: conversationMessages.role,
+        snippet: sql<string>`ts_headline('english', ${conversationMessages.content}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "')`,
+        position: sql<number>`(SELECT count(*) FROM conversation_messages earlier WHERE earlier.conversation_id = ${conversationMessages.conversationId} AND earlier.created_at < ${conversationMessages.createdAt})`,
+        rank,
+        createdAt: conversationMessages.createdAt,
+      })
+      .from(conversationMessages)
+      .innerJoin(conversations, eq(conversationMessages.conversationId, conversations.id))
+      .innerJoin(searches, eq(conversations.analysisId, searches.id))
+      .where(where)
+      .orderBy(desc(rank), desc(conversationMessages.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(conversationMessages)
+      .innerJoin(conversations, eq(conversationMessages.conversationId, conversations.id))
+      .where(where);
+
+    return {
+      hits: rows.map(row => ({
+        ...row,
+        scope: row.scope as ConversationMessageSearchHit['scope'],
+        role: row.role as ConversationMessageSearchHit['role'],
+        position: Number(row.position),
+        rank: Number(row.rank),
+      })),
+      total: Number(count || 0),
+    };
+  }
+
   /**
    * Get message count for a conversation
    */
@@ -266,6 +777,15 @@ export class ConversationRepository {
       .where(eq(suggestedQuestions.conversationId, conversationId));
   }
 
+  /**
+   * Delete the persisted memory for a conversation
+   */
+  async deleteMemory(conversationId: number): Promise<void> {
+    await db
+      .delete(conversationMemories)
+      .where(eq(conversationMemories.conversationId, conversationId));
+  }
+
   /**
    * Get conversation analytics
    */
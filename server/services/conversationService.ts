@@ -5,8 +5,18 @@ import type {
   ConversationMessage,
   SuggestedQuestion,
   ConversationAnalytics,
+  ConversationBranchSummary,
+  MessageCitation,
+  MultiAnalysisConversationSummary,
+  ConversationScopeAnalysis,
+  ConversationMessageSearchFilters,
+  ConversationMessageSearchHit,
+  Search,
 } from '@shared/schema';
 
+/** Most analyses one conversation covers; they share the analysis part of the context window */
+export const MAX_SCOPE_ANALYSES = 6;
+
 /**
  * Conversation Service
  * Business logic layer for conversation operations
@@ -124,6 +134,159 @@ export class ConversationService {
     };
   }
 
+  /**
+   * Get a conversation or branch by ID
+   */
+  async getConversationById(conversationId: number): Promise<Conversation | undefined> {
+    return await conversationRepository.getConversationById(conversationId);
+  }
+
+  /**
+   * Get a message by ID
+   */
+  async getMessageById(messageId: number): Promise<ConversationMessage | null> {
+    return await conversationRepository.getMessageById(messageId);
+  }
+
+  /**
+   * Get the main thread and branches for an analysis
+   */
+  async getBranches(analysisId: number, userId: number): Promise<ConversationBranchSummary[]> {
+    return await conversationRepository.getBranches(analysisId, userId);
+  }
+
+  /**
+   * Fork a conversation into a new branch.
+   * Forking at a message keeps it in the branch; forking before a message (to edit and
+   * regenerate it) keeps only the messages that came earlier.
+   */
+  async createBranch(
+    conversation: Conversation,
+    messageId: number,
+    options: { name?: string; beforeMessage?: boolean } = {}
+  ): Promise<Conversation> {
+    const existing = await conversationRepository.getBranches(conversation.analysisId, conversation.userId);
+    const branchName = options.name || `Branch ${existing.length}`;
+
+    const branch = await conversationRepository.createBranch(conversation, messageId, {
+      branchName,
+      includeForkMessage: !options.beforeMessage,
+    });
+
+    console.log(`🌿 Conversation branch created`, {
+      parentConversationId: conversation.id,
+      branchId: branch.id,
+      forkedFromMessageId: branch.forkedFromMessageId,
+      beforeMessage: !!options.beforeMessage,
+    });
+
+    return branch;
+  }
+
+  /**
+   * Get the IDs of the analyses a conversation covers.
+   * Project conversations follow the project, so analyses added to it later come into scope.
+   */
+  async getScopeAnalysisIds(conversation: Conversation): Promise<number[]> {
+    if (conversation.scope === 'project' && conversation.projectId) {
+      const analysisIds = await conversationRepository.getProjectAnalysisIds(conversation.projectId);
+      return analysisIds.slice(0, MAX_SCOPE_ANALYSES);
+    }
+
+    if (conversation.scope === 'comparison') {
+      return await conversationRepository.getConversationAnalysisIds(conversation.id);
+    }
+
+    return [conversation.analysisId];
+  }
+
+  /**
+   * Get the IDs of a project's analyses, newest first
+   */
+  async getProjectAnalysisIds(projectId: number): Promise<number[]> {
+    return await conversationRepository.getProjectAnalysisIds(projectId);
+  }
+
+  /**
+   * Get the analyses a conversation covers
+   */
+  async getScopeAnalyses(conversation: Conversation): Promise<ConversationScopeAnalysis[]> {
+    return await conversationRepository.getScopeAnalyses(await this.getScopeAnalysisIds(conversation));
+  }
+
+  /**
+   * Get or create the conversation covering a project's analyses
+   */
+  async getOrCreateProjectConversation(
+    projectId: number,
+    userId: number,
+    title: string,
+    analysisIds: number[]
+  ): Promise<Conversation> {
+    const existing = await conversationRepository.getProjectConversation(projectId, userId);
+    if (existing) {
+      return existing;
+    }
+
+    const conversation = await conversationRepository.createMultiAnalysisConversation({
+      userId,
+      scope: 'project',
+      projectId,
+      title,
+      analysisIds,
+    });
+
+    console.log(`🗂️ Project conversation created`, { conversationId: conversation.id, projectId });
+    return conversation;
+  }
+
+  /**
+   * Start a conversation comparing a hand-picked set of analyses
+   */
+  async createComparison(
+    userId: number,
+    title: string,
+    analysisIds: number[]
+  ): Promise<Conversation> {
+    const conversation = await conversationRepository.createMultiAnalysisConversation({
+      userId,
+      scope: 'comparison',
+      title,
+      analysisIds,
+    });
+
+    console.log(`🗂️ Comparison conversation created`, { conversationId: conversation.id, analysisIds });
+    return conversation;
+  }
+
+  /**
+   * Rename a comparison or change the analyses it covers
+   */
+  async updateComparison(
+    conversationId: number,
+    updates: { title?: string; analysisIds?: number[] }
+  ): Promise<Conversation> {
+    return await conversationRepository.updateComparison(conversationId, updates);
+  }
+
+  /**
+   * Get the project and comparison conversations a user can view with the analyses each covers
+   */
+  async getMultiAnalysisConversations(userId: number): Promise<MultiAnalysisConversationSummary[]> {
+    const multiAnalysisConversations = await conversationRepository.getMultiAnalysisConversations(userId);
+
+    return await Promise.all(multiAnalysisConversations.map(async (conversation) => ({
+      id: conversation.id,
+      scope: conversation.scope as MultiAnalysisConversationSummary['scope'],
+      title: conversation.title,
+      projectId: conversation.projectId,
+      analyses: await this.getScopeAnalyses(conversation),
+      messageCount: conversation.messageCount,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    })));
+  }
+
   /**
    * Add a user message to a conversation
    */
@@ -159,7 +322,10 @@ export class ConversationService {
       processingTime?: number;
       confidence?: number;
       sources?: string[];
+      citations?: MessageCitation[];
       assumptions?: string[];
+      cancelled?: boolean;
+      promptVersionId?: number | null; // system prompt version the answer was generated with
     }
   ): Promise<ConversationMessage> {
     const message = await conversationRepository.addMessage({
@@ -210,6 +376,33 @@ export class ConversationService {
     return await conversationRepository.getMessages(conversationId, limit, offset);
   }
 
+  /**
+   * Get the most recent messages, oldest first
+   */
+  async getRecentMessages(
+    conversationId: number,
+    limit: number
+  ): Promise<ConversationMessage[]> {
+    return await conversationRepository.getRecentMessages(conversationId, limit);
+  }
+
+  /**
+   * Search a user's messages across all the conversations they can view
+   */
+  async searchMessages(
+    userId: number,
+    query: string,
+    filters: ConversationMessageSearchFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ hits: ConversationMessageSearchHit[]; total: number }> {
+    if (!query.trim()) {
+      return { hits: [], total: 0 };
+    }
+
+    return await conversationRepository.searchMessages(userId, query.trim(), filters, limit, offset);
+  }
+
   /**
    * Get message count
    */
@@ -292,7 +485,7 @@ export class ConversationService {
   }
 
   /**
-   * Clear conversation (delete all messages and suggestions)
+   * Clear conversation (delete all messages, suggestions and memory)
    */
   async clearConversation(conversationId: number): Promise<void> {
     // Use repository methods to clear data
@@ -305,6 +498,9 @@ export class ConversationService {
     // Delete suggestions
     await conversationRepository.deleteSuggestedQuestions(conversationId);
 
+    // Forget the memory of the deleted messages
+    await conversationRepository.deleteMemory(conversationId);
+
     // Reset analytics
     await conversationRepository.updateAnalytics(conversationId, {
       messageCount: 0,
@@ -408,6 +604,29 @@ export class ConversationService {
     await conversationRepository.updateVariantIds(conversationId, variantIds);
   }
 
+  /**
+   * Create a variant analysis with modified parameters
+   * Links the variant to the conversation and opens a conversation for it
+   */
+  async createVariant(
+    conversationId: number,
+    userId: number,
+    modifiedQuery: string,
+    modifiedParameters: Record<string, string>
+  ): Promise<{ variantSearch: Search; variantConversation: Conversation }> {
+    const variantSearch = await conversationRepository.createVariantSearch(userId, modifiedQuery);
+
+    // Modified parameters are stored alongside the variant ID until variants get their own table
+    await this.addVariant(
+      conversationId,
+      `${variantSearch.id}:${JSON.stringify(modifiedParameters)}`
+    );
+
+    const variantConversation = await this.getOrCreateConversation(variantSearch.id, userId);
+
+    return { variantSearch, variantConversation };
+  }
+
   /**
    * Rate a message (thumbs up/down)
    */
@@ -0,0 +1,566 @@
+import { Type, type FunctionCall, type FunctionDeclaration } from '@google/genai';
+import { z } from 'zod';
+import { conversationRepository } from './conversationRepository';
+import { securityLogger, type SecurityEventContext } from './securityLogger';
+import type { ContextWindow } from './contextWindowManager';
+import type {
+  Conversation,
+  ConversationToolCall,
+  ConversationToolName
+} from '@shared/schema';
+
+/**
+ * Conversation Tool Service
+ * Lets the conversation assistant call a whitelisted set of server actions.
+ * Read-only tools run straight away and feed the answer; mutating tools are
+ * recorded as pending and only run once the user confirms them.
+ */
+
+/**
+ * What a tool may act on: the analysis behind the conversation and its owner
+ */
+export interface ToolContext {
+  userId: number;
+  userTier: 'free' | 'pro' | 'enterprise';
+  conversation: Conversation;
+  searchQuery: string;
+  /** Model to select tools with, when a budget has switched the turn to a cheaper one */
+  model?: string;
+}
+
+interface ConversationTool<TArgs> {
+  name: ConversationToolName;
+  declaration: Omit<FunctionDeclaration, 'name'>;
+  args: z.ZodType<TArgs>;
+  /** Mutating tools wait for the user's confirmation */
+  mutates: boolean;
+  execute: (args: TArgs, context: ToolContext) => Promise<Record<string, unknown>>;
+}
+
+/** Tool calls honoured per question */
+const MAX_TOOL_CALLS = 3;
+
+/** Rounds of tool selection per question, so a lookup can inform a proposed change */
+export const MAX_TOOL_ROUNDS = 2;
+
+const taskStatusSchema = z.enum(['not_started', 'in_progress', 'completed', 'skipped']);
+
+const variantParametersSchema = z.object({
+  market: z.string().max(200).optional(),
+  targetAudience: z.string().max(200).optional(),
+  businessModel: z.string().max(200).optional(),
+  geography: z.string().max(200).optional(),
+  timeframe: z.string().max(200).optional(),
+  budget: z.string().max(200).optional(),
+}).refine(params => Object.values(params).some(Boolean), 'At least one parameter must change');
+
+/**
+ * Resolve the analysis plan a task tool may act on
+ */
+async function getAnalysisPlan(context: ToolContext) {
+  const { planService } = await import('./planService');
+  const plan = await planService.getPlanBySearchId(context.conversation.analysisId, context.userId);
+  if (!plan) {
+    throw new Error('No action plan exists for this analysis yet');
+  }
+  return plan;
+}
+
+const TOOLS: ConversationTool<any>[] = [
+  {
+    name: 'search_resources',
+    mutates: false,
+    declaration: {
+      description: 'Look up library resources (guides, templates, tools) relevant to a topic.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: { type: Type.STRING, description: 'Topic to find resources for' },
+          limit: { type: Type.INTEGER, description: 'Number of resources, 1-5' },
+        },
+        required: ['query'],
+      },
+    },
+    args: z.object({
+      query: z.string().min(1).max(200),
+      limit: z.number().int().min(1).max(5).optional(),
+    }),
+    execute: async (args: { query: string; limit?: number }, context) => {
+      const { resourceMatchingService } = await import('./resourceMatchingService');
+      const resources = await resourceMatchingService.matchResourcesToStep(
+        'conversation',
+        `${context.searchQuery} ${args.query}`,
+        'research',
+        '',
+        args.limit ?? 3
+      );
+
+      return {
+        resources: resources
+          .filter(resource => context.userTier !== 'free' || !resource.isPremium)
+          .map(resource => ({
+            id: resource.id,
+            title: resource.title,
+            description: resource.description,
+            url: resource.url,
+          })),
+      };
+    },
+  },
+  {
+    name: 'list_plan_tasks',
+    mutates: false,
+    declaration: {
+      description: "List the phases and tasks of the user's action plan for this analysis, with their IDs and statuses.",
+    },
+    args: z.object({}),
+    execute: async (_args, context) => {
+      const { planService } = await import('./planService');
+      const plan = await getAnalysisPlan(context);
+      const phases = await planService.getPhasesWithTasks(plan.id);
+
+      return {
+        planId: plan.id,
+        title: plan.title,
+        phases: phases.map(phase => ({
+          id: phase.id,
+          name: phase.name,
+          tasks: phase.tasks.map(task => ({ id: task.id, title: task.title, status: task.status })),
+        })),
+      };
+    },
+  },
+  {
+    name: 'run_financial_model',
+    mutates: false,
+    declaration: {
+      description: 'Project five-year financials for this idea under the given assumptions. Nothing is saved.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          initialInvestment: { type: Type.NUMBER, description: 'Up-front investment in USD' },
+          monthlyRevenue: { type: Type.NUMBER, description: 'Expected monthly revenue in USD' },
+          monthlyExpenses: { type: Type.NUMBER, description: 'Expected monthly expenses in USD' },
+          businessModel: { type: Type.STRING, description: 'Business model, e.g. subscription' },
+          targetMarket: { type: Type.STRING, description: 'Target market' },
+        },
+        required: ['initialInvestment', 'monthlyRevenue', 'monthlyExpenses'],
+      },
+    },
+    args: z.object({
+      initialInvestment: z.number().min(0).max(10000000),
+      monthlyRevenue: z.number().min(0).max(1000000),
+      monthlyExpenses: z.number().min(0).max(1000000),
+      businessModel: z.string().max(500).optional(),
+      targetMarket: z.string().max(500).optional(),
+    }),
+    execute: async (args: {
+      initialInvestment: number;
+      monthlyRevenue: number;
+      monthlyExpenses: number;
+      businessModel?: string;
+      targetMarket?: string;
+    }, context) => {
+      const { generateFinancialModel } = await import('./financialModeling');
+      const model = generateFinancialModel({
+        title: context.searchQuery.slice(0, 200),
+        description: context.searchQuery,
+        targetMarket: args.targetMarket || 'Not specified',
+        businessModel: args.businessModel || 'Not specified',
+        category: 'other',
+        initialInvestment: args.initialInvestment,
+        monthlyRevenue: args.monthlyRevenue,
+        monthlyExpenses: args.monthlyExpenses,
+      });
+
+      return {
+        assumptions: args,
+        summary: model.summary,
+        keyMetrics: model.keyMetrics,
+        riskFactors: model.riskFactors,
+      };
+    },
+  },
+  {
+    name: 'create_plan_task',
+    mutates: true,
+    declaration: {
+      description: "Add a task to a phase of the user's action plan. Use list_plan_tasks first to find the phase ID.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          phaseId: { type: Type.INTEGER, description: 'Phase to add the task to' },
+          title: { type: Type.STRING, description: 'Task title' },
+          description: { type: Type.STRING, description: 'What the task involves' },
+          estimatedTime: { type: Type.STRING, description: 'Effort estimate, e.g. "4 hours"' },
+        },
+        required: ['phaseId', 'title'],
+      },
+    },
+    args: z.object({
+      phaseId: z.number().int().positive(),
+      title: z.string().min(1).max(200),
+      description: z.string().max(2000).optional(),
+      estimatedTime: z.string().max(50).optional(),
+    }),
+    execute: async (args: { phaseId: number; title: string; description?: string; estimatedTime?: string }, context) => {
+      const { planService } = await import('./planService');
+      const { taskService } = await import('./taskService');
+      const { planWebSocketService } = await import('./planWebSocketService');
+      const plan = await getAnalysisPlan(context);
+      const phase = await planService.getPhaseById(args.phaseId);
+
+      if (!phase || phase.planId !== plan.id) {
+        throw new Error('Phase not found in this analysis plan');
+      }
+
+      const phaseTasks = await taskService.getTasksByPhaseId(args.phaseId, context.userId);
+
+      const task = await taskService.createTask({
+        phaseId: args.phaseId,
+        planId: plan.id,
+        title: args.title,
+        description: args.description || '',
+        estimatedTime: args.estimatedTime || '',
+        resources: [],
+        order: phaseTasks.reduce((max, existing) => Math.max(max, existing.order + 1), 0),
+        isCustom: true,
+      }, context.userId, { source: 'conversation_tool', conversationId: context.conversation.id });
+
+      planWebSocketService.broadcastTaskCreated(plan.id.toString(), task, context.userId);
+
+      return { taskId: task.id, title: task.title, phaseId: task.phaseId };
+    },
+  },
+  {
+    name: 'update_plan_task',
+    mutates: true,
+    declaration: {
+      description: "Change a task in the user's action plan: its title, description, estimate or status. Use list_plan_tasks first to find the task ID.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          taskId: { type: Type.INTEGER, description: 'Task to change' },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          estimatedTime: { type: Type.STRING },
+          status: { type: Type.STRING, enum: [...taskStatusSchema.options] },
+        },
+        required: ['taskId'],
+      },
+    },
+    args: z.object({
+      taskId: z.number().int().positive(),
+      title: z.string().min(1).max(200).optional(),
+      description: z.string().max(2000).optional(),
+      estimatedTime: z.string().max(50).optional(),
+      status: taskStatusSchema.optional(),
+    }).refine(
+      ({ taskId, ...changes }) => Object.values(changes).some(value => value !== undefined),
+      'At least one field must change'
+    ),
+    execute: async (args: {
+      taskId: number;
+      title?: string;
+      description?: string;
+      estimatedTime?: string;
+      status?: z.infer<typeof taskStatusSchema>;
+    }, context) => {
+      const { taskService } = await import('./taskService');
+      const { planWebSocketService } = await import('./planWebSocketService');
+      const plan = await getAnalysisPlan(context);
+      const existing = await taskService.getTaskById(args.taskId, context.userId);
+
+      if (!existing || existing.planId !== plan.id) {
+        throw new Error('Task not found in this analysis plan');
+      }
+
+      const historyContext = { source: 'conversation_tool', conversationId: context.conversation.id };
+      const { taskId, status, ...changes } = args;
+      let task = existing;
+
+      if (Object.values(changes).some(value => value !== undefined)) {
+        task = await taskService.updateTask(taskId, context.userId, changes, historyContext);
+      }
+      if (status !== undefined && status !== task.status) {
+        task = await taskService.updateTaskStatus(taskId, context.userId, status, false, historyContext);
+      }
+
+      planWebSocketService.broadcastTaskUpdate(plan.id.toString(), task, context.userId);
+
+      return { taskId: task.id, title: task.title, status: task.status };
+    },
+  },
+  {
+    name: 'create_analysis_variant',
+    mutates: true,
+    declaration: {
+      description: 'Start a new variant of this analysis with changed parameters. The original analysis is kept for comparison.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          market: { type: Type.STRING },
+          targetAudience: { type: Type.STRING },
+          businessModel: { type: Type.STRING },
+          geography: { type: Type.STRING },
+          timeframe: { type: Type.STRING },
+          budget: { type: Type.STRING },
+        },
+      },
+    },
+    args: variantParametersSchema,
+    execute: async (args: z.infer<typeof variantParametersSchema>, context) => {
+      const { buildModifiedQuery } = await import('./variantDetectionService');
+      const { conversationService } = await import('./conversationService');
+      const modifiedParameters = Object.fromEntries(
+        Object.entries(args).filter((entry): entry is [string, string] => !!entry[1])
+      );
+      const modifiedQuery = buildModifiedQuery(context.searchQuery, modifiedParameters);
+
+      const { variantSearch, variantConversation } = await conversationService.createVariant(
+        context.conversation.id,
+        context.userId,
+        modifiedQuery,
+        modifiedParameters
+      );
+
+      return {
+        variantId: variantSearch.id,
+        variantConversationId: variantConversation.id,
+        modifiedQuery,
+      };
+    },
+  },
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]));
+
+/**
+ * Outcome of the tool calls made for one question
+ */
+export interface ToolRound {
+  toolCalls: ConversationToolCall[];
+  /** Tool results formatted for the prompt, empty when no tools were called */
+  promptContext: string;
+  /** Tool selection requests made to the model */
+  modelCalls?: number;
+}
+
+export class ConversationToolService {
+  /**
+   * Function declarations for the whitelisted tools
+   */
+  getFunctionDeclarations(): FunctionDeclaration[] {
+    return TOOLS.map(tool => ({ name: tool.name, ...tool.declaration }));
+  }
+
+  /**
+   * Let the model call tools before it answers a question.
+   * A second round runs only when the first looked something up, e.g. listing the
+   * plan's tasks before proposing a change to one of them.
+   */
+  async runToolRounds(contextWindow: ContextWindow, context: ToolContext): Promise<ToolRound> {
+    const { requestToolCalls } = await import('./geminiConversationService');
+    const declarations = this.getFunctionDeclarations();
+    const toolCalls: ConversationToolCall[] = [];
+    let modelCalls = 0;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS && toolCalls.length < MAX_TOOL_CALLS; round++) {
+      modelCalls++;
+      const calls = await requestToolCalls(
+        { ...contextWindow, toolResults: this.formatToolResults(toolCalls) || undefined },
+        declarations,
+        { model: context.model }
+      );
+      if (calls.length === 0) {
+        break;
+      }
+
+      const { toolCalls: roundCalls } = await this.runToolCalls(
+        calls.slice(0, MAX_TOOL_CALLS - toolCalls.length),
+        context
+      );
+      toolCalls.push(...roundCalls);
+
+      if (!roundCalls.some(call => call.status === 'completed')) {
+        break;
+      }
+    }
+
+    return { toolCalls, promptContext: this.formatToolResults(toolCalls), modelCalls };
+  }
+
+  /**
+   * Handle the calls the model made for one question.
+   * Unknown tools and invalid arguments are recorded as failed and reported back to the model.
+   */
+  async runToolCalls(calls: FunctionCall[], context: ToolContext): Promise<ToolRound> {
+    const toolCalls: ConversationToolCall[] = [];
+
+    for (const call of calls.slice(0, MAX_TOOL_CALLS)) {
+      const tool = call.name ? TOOLS_BY_NAME.get(call.name as ConversationToolName) : undefined;
+      const args = call.args ?? {};
+
+      if (!tool) {
+        console.warn(`⚠️ Assistant called unknown tool: ${call.name}`);
+        continue;
+      }
+
+      const parsed = tool.args.safeParse(args);
+      const base = {
+        conversationId: context.conversation.id,
+        userId: context.userId,
+        toolName: tool.name,
+        arguments: parsed.success ? parsed.data : args,
+        requiresConfirmation: tool.mutates,
+      };
+
+      if (!parsed.success) {
+        toolCalls.push(await conversationRepository.createToolCall({
+          ...base,
+          status: 'failed',
+          error: parsed.error.errors.map(issue => issue.message).join('; '),
+        }));
+        continue;
+      }
+
+      if (tool.mutates) {
+        toolCalls.push(await conversationRepository.createToolCall({ ...base, status: 'pending' }));
+        continue;
+      }
+
+      try {
+        const result = await tool.execute(parsed.data, context);
+        toolCalls.push(await conversationRepository.createToolCall({ ...base, status: 'completed', result }));
+      } catch (error) {
+        toolCalls.push(await conversationRepository.createToolCall({
+          ...base,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Tool failed',
+        }));
+      }
+    }
+
+    if (toolCalls.length > 0) {
+      console.log(`🛠️ Assistant called ${toolCalls.map(call => call.toolName).join(', ')} for conversation ${context.conversation.id}`);
+    }
+
+    return { toolCalls, promptContext: this.formatToolResults(toolCalls) };
+  }
+
+  /**
+   * Format tool outcomes for the prompt, telling the model which changes await confirmation
+   */
+  formatToolResults(toolCalls: ConversationToolCall[]): string {
+    if (toolCalls.length === 0) {
+      return '';
+    }
+
+    const lines = toolCalls.map(call => {
+      const args = JSON.stringify(call.arguments);
+      if (call.status === 'pending') {
+        return `- ${call.toolName}(${args}): proposed to the user, NOT yet done. Describe the change and ask them to confirm it below your answer.`;
+      }
+      if (call.status === 'failed') {
+        return `- ${call.toolName}(${args}): failed - ${call.error}`;
+      }
+      return `- ${call.toolName}(${args}): ${JSON.stringify(call.result)}`;
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Link a question's tool calls to the saved answer
+   */
+  async attachToMessage(toolCalls: ConversationToolCall[], messageId: number): Promise<ConversationToolCall[]> {
+    await conversationRepository.attachToolCallsToMessage(toolCalls.map(call => call.id), messageId);
+    return toolCalls.map(call => ({ ...call, messageId }));
+  }
+
+  /**
+   * Get the tool calls shown with a conversation's answers
+   */
+  async getToolCalls(conversationId: number): Promise<ConversationToolCall[]> {
+    return await conversationRepository.getToolCalls(conversationId);
+  }
+
+  /**
+   * Get a tool call by ID
+   */
+  async getToolCallById(toolCallId: number): Promise<ConversationToolCall | undefined> {
+    return await conversationRepository.getToolCallById(toolCallId);
+  }
+
+  /**
+   * Run a pending mutation the user confirmed
+   * The call is claimed as executing before it runs, so a repeated confirm cannot run it twice;
+   * returns null if it was no longer pending. The outcome is recorded on the tool call and in
+   * the security audit log
+   */
+  async confirmToolCall(
+    toolCall: ConversationToolCall,
+    context: ToolContext,
+    auditContext: SecurityEventContext = {}
+  ): Promise<ConversationToolCall | null> {
+    const tool = TOOLS_BY_NAME.get(toolCall.toolName as ConversationToolName);
+    if (!tool || !tool.mutates) {
+      throw new Error(`Tool ${toolCall.toolName} cannot be confirmed`);
+    }
+
+    const claimed = await conversationRepository.claimPendingToolCall(toolCall.id, { status: 'executing' });
+    if (!claimed) {
+      return null;
+    }
+
+    const audit: SecurityEventContext = {
+      ...auditContext,
+      userId: context.userId,
+      resource: 'conversation_tool_call',
+      resourceId: toolCall.id.toString(),
+      metadata: {
+        toolName: toolCall.toolName,
+        arguments: toolCall.arguments,
+        conversationId: toolCall.conversationId,
+        messageId: toolCall.messageId,
+      },
+    };
+
+    try {
+      const result = await tool.execute(tool.args.parse(toolCall.arguments), context);
+
+      await securityLogger.logSecurityEvent('DATA_MODIFICATION', `conversation_tool_${toolCall.toolName}`, true, {
+        ...audit,
+        metadata: { ...audit.metadata, result },
+      });
+
+      return await conversationRepository.updateToolCall(toolCall.id, {
+        status: 'executed',
+        result,
+        resolvedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Tool failed';
+      await securityLogger.logSecurityEvent('DATA_MODIFICATION', `conversation_tool_${toolCall.toolName}`, false, audit, message);
+
+      return await conversationRepository.updateToolCall(toolCall.id, {
+        status: 'failed',
+        error: message,
+        resolvedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Decline a pending mutation
+   * Returns null if it was no longer pending, e.g. confirmed in the meantime
+   */
+  async rejectToolCall(toolCall: ConversationToolCall): Promise<ConversationToolCall | null> {
+    return await conversationRepository.claimPendingToolCall(toolCall.id, {
+      status: 'rejected',
+      resolvedAt: new Date().toISOString(),
+    }) ?? null;
+  }
+}
+
+export const conversationToolService = new ConversationToolService();
@@ -1,6 +1,14 @@
 import { db } from '../../db';
-import { conversationMessages } from '@shared/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import {
+  conversationMessages,
+  conversations,
+  flaggedContent,
+  users,
+  type FlaggedContent,
+  type FlaggedContentStatus,
+  type InsertFlaggedContent
+} from '@shared/schema';
+import { eq, and, desc, gte, inArray, isNull, sql } from 'drizzle-orm';
 import { securityLogger } from '../securityLogger';
 
 export interface ModerationResult {
@@ -27,18 +35,70 @@ export interface ReportData {
   details?: string;
 }
 
-export interface FlaggedContent {
-  id: string;
-  messageId: string;
-  conversationId: string;
-  userId: number;
-  content: string;
-  flagReason: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'pending' | 'reviewed' | 'approved' | 'removed';
-  reviewedBy?: number;
-  reviewedAt?: Date;
-  createdAt: Date;
+export interface FlaggedContentFilters {
+  status?: FlaggedContentStatus;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  source?: 'auto' | 'report';
+  assignedTo?: number | 'unassigned';
+  limit?: number;
+  offset?: number;
+}
+
+interface FlagUserSummary {
+  id: number;
+  name: string | null;
+  email: string;
+}
+
+export interface FlaggedContentWithUsers extends FlaggedContent {
+  author?: FlagUserSummary | null;
+  reporter?: FlagUserSummary | null;
+  assignee?: FlagUserSummary | null;
+  reviewer?: FlagUserSummary | null;
+}
+
+export interface FlagActionResult {
+  success: boolean;
+  flag?: FlaggedContent;
+  error?: 'not_found' | 'not_pending';
+  /** Other pending flags on the same message resolved by the same review */
+  resolvedDuplicates?: number;
+}
+
+/** Reports a single user may file in 24 hours before further reports are refused */
+export const MAX_REPORTS_PER_DAY = 20;
+
+/** Content shown in place of a message removed by a moderator */
+export const REMOVED_MESSAGE_PLACEHOLDER = '[This message was removed by a moderator]';
+
+/**
+ * Build the queue entry for a moderation result, or null when nothing needs review.
+ * Blocked content and content marked for review are flagged; clean content is not.
+ */
+export function buildAutoFlag(
+  content: string,
+  contentRole: 'user' | 'assistant',
+  result: ModerationResult,
+  context: ModerationContext = {}
+): InsertFlaggedContent | null {
+  if (result.approved && !result.requiresReview) {
+    return null;
+  }
+
+  const conversationId = context.conversationId ? parseInt(context.conversationId) : NaN;
+  const messageId = context.messageId ? parseInt(context.messageId) : NaN;
+
+  return {
+    source: 'auto',
+    contentRole,
+    messageId: isNaN(messageId) ? null : messageId,
+    conversationId: isNaN(conversationId) ? null : conversationId,
+    userId: context.userId ?? null,
+    content,
+    flagReason: result.reason ?? `Flagged for review: ${result.categories.join(', ')}`,
+    categories: result.categories,
+    severity: result.severity,
+  };
 }
 
 /**
@@ -311,6 +371,45 @@ export class ContentModerator {
         return { success: false };
       }
 
+      // A repeated report from the same user joins the existing queue entry
+      const [existing] = await db
+        .select({ id: flaggedContent.id })
+        .from(flaggedContent)
+        .where(and(
+          eq(flaggedContent.messageId, message.id),
+          eq(flaggedContent.reportedBy, reportData.reportedBy),
+          eq(flaggedContent.status, 'pending')
+        ))
+        .limit(1);
+
+      if (existing) {
+        return { success: true, reportId: String(existing.id) };
+      }
+
+      const [conversation] = await db
+        .select({ userId: conversations.userId })
+        .from(conversations)
+        .where(eq(conversations.id, message.conversationId))
+        .limit(1);
+
+      const [flag] = await db
+        .insert(flaggedContent)
+        .values({
+          source: 'report',
+          contentRole: message.role === 'assistant' ? 'assistant' : 'user',
+          messageId: message.id,
+          conversationId: message.conversationId,
+          userId: conversation?.userId ?? null,
+          reportedBy: reportData.reportedBy,
+          content: message.content,
+          flagReason: reportData.details
+            ? `${reportData.category}: ${reportData.reason} - ${reportData.details}`
+            : `${reportData.category}: ${reportData.reason}`,
+          categories: [reportData.category],
+          severity: this.getCategorySeverity(reportData.category),
+        })
+        .returning();
+
       // Log the report
       await securityLogger.logSecurityEvent(
         'SECURITY_VIOLATION',
@@ -341,6 +440,7 @@ export class ContentModerator {
           userId: reportData.reportedBy,
           severity: this.getCategorySeverity(reportData.category),
           details: {
+            flagId: flag.id,
             messageId: reportData.messageId,
             conversationId: message.conversationId,
             category: reportData.category,
@@ -351,6 +451,7 @@ export class ContentModerator {
       );
 
       console.log(`📢 Message reported`, {
+        flagId: flag.id,
         messageId: reportData.messageId,
         category: reportData.category,
         reportedBy: reportData.reportedBy
@@ -358,7 +459,7 @@ export class ContentModerator {
 
       return {
         success: true,
-        reportId: `report_${Date.now()}_${reportData.messageId}`
+        reportId: String(flag.id)
       };
     } catch (error) {
       console.error('Failed to report message:', error);
@@ -389,33 +490,161 @@ export class ContentModerator {
   }
 
   /**
-   * Get flagged content for admin review
+   * Get flagged content for admin review, most severe and oldest first
+   */
+  async getFlaggedContent(filters: FlaggedContentFilters = {}): Promise<FlaggedContentWithUsers[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(flaggedContent.status, filters.status));
+    if (filters.severity) conditions.push(eq(flaggedContent.severity, filters.severity));
+    if (filters.source) conditions.push(eq(flaggedContent.source, filters.source));
+    if (filters.assignedTo === 'unassigned') {
+      conditions.push(isNull(flaggedContent.assignedTo));
+    } else if (filters.assignedTo !== undefined) {
+      conditions.push(eq(flaggedContent.assignedTo, filters.assignedTo));
+    }
+
+    const flags = await db
+      .select()
+      .from(flaggedContent)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        sql`CASE ${flaggedContent.severity} WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END`,
+        flaggedContent.createdAt
+      )
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    return this.attachUsers(flags);
+  }
+
+  /**
+   * Get a single flagged content entry
+   */
+  async getFlaggedContentById(flagId: number): Promise<FlaggedContentWithUsers | null> {
+    const [flag] = await db
+      .select()
+      .from(flaggedContent)
+      .where(eq(flaggedContent.id, flagId))
+      .limit(1);
+
+    if (!flag) {
+      return null;
+    }
+
+    const [enriched] = await this.attachUsers([flag]);
+    return enriched;
+  }
+
+  /**
+   * Count queue entries per status for the review queue tabs
+   */
+  async getQueueCounts(): Promise<Record<FlaggedContentStatus, number>> {
+    const rows = await db
+      .select({ status: flaggedContent.status, count: sql<number>`count(*)::int` })
+      .from(flaggedContent)
+      .groupBy(flaggedContent.status);
+
+    const counts: Record<FlaggedContentStatus, number> = { pending: 0, approved: 0, removed: 0 };
+    for (const row of rows) {
+      if (row.status in counts) {
+        counts[row.status as FlaggedContentStatus] = row.count;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Assign a pending entry to a reviewer, or release it with a null assignee
    */
-  async getFlaggedContent(
-    filters: {
-      status?: 'pending' | 'reviewed' | 'approved' | 'removed';
-      severity?: 'low' | 'medium' | 'high' | 'critical';
-      limit?: number;
-      offset?: number;
-    } = {}
-  ): Promise<FlaggedContent[]> {
-    // This would query a flagged_content table in a real implementation
-    // For now, return empty array as the table doesn't exist yet
-    console.log('Getting flagged content with filters:', filters);
-    return [];
+  async assignFlaggedContent(
+    flagId: number,
+    assigneeId: number | null,
+    assignedBy: number
+  ): Promise<FlagActionResult> {
+    const [flag] = await db
+      .update(flaggedContent)
+      .set({
+        assignedTo: assigneeId,
+        assignedAt: assigneeId === null ? null : sql`NOW()`,
+        updatedAt: sql`NOW()`,
+      })
+      .where(and(eq(flaggedContent.id, flagId), eq(flaggedContent.status, 'pending')))
+      .returning();
+
+    if (!flag) {
+      return { success: false, error: await this.missingFlagReason(flagId) };
+    }
+
+    console.log(`👤 Flagged content ${assigneeId === null ? 'unassigned' : 'assigned'}`, {
+      flagId,
+      assigneeId,
+      assignedBy
+    });
+
+    return { success: true, flag };
   }
 
   /**
    * Review flagged content (admin action)
+   *
+   * Moves a pending entry to approved or removed. Removing a stored message replaces
+   * its content in the conversation; the original stays on the queue entry. Other
+   * pending flags on the same message are resolved with the same decision.
    */
   async reviewFlaggedContent(
-    flagId: string,
+    flagId: number,
     reviewedBy: number,
     action: 'approve' | 'remove',
     notes?: string
-  ): Promise<{ success: boolean }> {
+  ): Promise<FlagActionResult> {
+    const status: FlaggedContentStatus = action === 'approve' ? 'approved' : 'removed';
+    const review = {
+      status,
+      reviewedBy,
+      reviewedAt: sql`NOW()`,
+      reviewNotes: notes ?? null,
+      updatedAt: sql`NOW()`,
+    };
+
+    const outcome = await db.transaction(async (tx) => {
+      const [flag] = await tx
+        .update(flaggedContent)
+        .set(review)
+        .where(and(eq(flaggedContent.id, flagId), eq(flaggedContent.status, 'pending')))
+        .returning();
+
+      if (!flag) {
+        return null;
+      }
+
+      let resolvedDuplicates = 0;
+      if (flag.messageId !== null) {
+        const duplicates = await tx
+          .update(flaggedContent)
+          .set(review)
+          .where(and(eq(flaggedContent.messageId, flag.messageId), eq(flaggedContent.status, 'pending')))
+          .returning({ id: flaggedContent.id });
+        resolvedDuplicates = duplicates.length;
+
+        if (status === 'removed') {
+          await tx
+            .update(conversationMessages)
+            .set({
+              content: REMOVED_MESSAGE_PLACEHOLDER,
+              metadata: sql`${conversationMessages.metadata} || ${JSON.stringify({ moderation: { removed: true, flagId: flag.id } })}::jsonb`,
+            })
+            .where(eq(conversationMessages.id, flag.messageId));
+        }
+      }
+
+      return { flag, resolvedDuplicates };
+    });
+
+    if (!outcome) {
+      return { success: false, error: await this.missingFlagReason(flagId) };
+    }
+
     try {
-      // Log the review action
       await securityLogger.logSecurityEvent(
         'ADMIN_ACTION',
         'flagged_content_reviewed',
@@ -423,26 +652,27 @@ export class ContentModerator {
         {
           userId: reviewedBy,
           resource: 'flagged_content',
-          resourceId: flagId,
+          resourceId: String(flagId),
           metadata: {
             action,
-            notes
+            notes,
+            messageId: outcome.flag.messageId,
+            resolvedDuplicates: outcome.resolvedDuplicates
           }
         },
         `Flagged content ${action}d by admin`
       );
-
-      console.log(`✅ Flagged content reviewed`, {
-        flagId,
-        action,
-        reviewedBy
-      });
-
-      return { success: true };
     } catch (error) {
-      console.error('Failed to review flagged content:', error);
-      return { success: false };
+      console.error('Failed to log flagged content review:', error);
     }
+
+    console.log(`✅ Flagged content reviewed`, {
+      flagId,
+      action,
+      reviewedBy
+    });
+
+    return { success: true, ...outcome };
   }
 
   /**
@@ -452,14 +682,85 @@ export class ContentModerator {
     isAbusive: boolean;
     reportCount: number;
   }> {
-    // In a real implementation, this would query report history
-    // For now, return non-abusive
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(flaggedContent)
+      .where(and(
+        eq(flaggedContent.reportedBy, userId),
+        gte(flaggedContent.createdAt, since)
+      ));
+
+    const reportCount = result?.count ?? 0;
     return {
-      isAbusive: false,
-      reportCount: 0
+      isAbusive: reportCount >= MAX_REPORTS_PER_DAY,
+      reportCount
     };
   }
 
+  /**
+   * Explain why a pending-only update matched no row
+   */
+  private async missingFlagReason(flagId: number): Promise<'not_found' | 'not_pending'> {
+    const [flag] = await db
+      .select({ id: flaggedContent.id })
+      .from(flaggedContent)
+      .where(eq(flaggedContent.id, flagId))
+      .limit(1);
+
+    return flag ? 'not_pending' : 'not_found';
+  }
+
+  /**
+   * Attach author, reporter, assignee and reviewer summaries to queue entries
+   */
+  private async attachUsers(flags: FlaggedContent[]): Promise<FlaggedContentWithUsers[]> {
+    const userIds = Array.from(new Set(
+      flags.flatMap(flag => [flag.userId, flag.reportedBy, flag.assignedTo, flag.reviewedBy])
+        .filter((id): id is number => id !== null)
+    ));
+
+    if (userIds.length === 0) {
+      return flags;
+    }
+
+    const rows = await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    const byId = new Map(rows.map(user => [user.id, user]));
+    const lookup = (id: number | null) => (id === null ? null : byId.get(id) ?? null);
+
+    return flags.map(flag => ({
+      ...flag,
+      author: lookup(flag.userId),
+      reporter: lookup(flag.reportedBy),
+      assignee: lookup(flag.assignedTo),
+      reviewer: lookup(flag.reviewedBy),
+    }));
+  }
+
+  /**
+   * Persist a moderation result to the review queue
+   */
+  private async recordAutoFlag(
+    content: string,
+    contentRole: 'user' | 'assistant',
+    result: ModerationResult,
+    context: ModerationContext
+  ): Promise<void> {
+    const flag = buildAutoFlag(content, contentRole, result, context);
+    if (!flag) {
+      return;
+    }
+
+    try {
+      await db.insert(flaggedContent).values(flag);
+    } catch (error) {
+      console.error('Failed to record flagged content:', error);
+    }
+  }
+
   /**
    * Log moderation event
    */
@@ -529,10 +830,12 @@ export class ContentModerator {
     userId: number,
     context: ModerationContext = {}
   ): Promise<ModerationResult> {
-    return this.moderateContent(content, {
-      ...context,
-      userId
-    });
+    const moderationContext = { ...context, userId };
+    const result = await this.moderateContent(content, moderationContext);
+
+    await this.recordAutoFlag(content, 'user', result, moderationContext);
+
+    return result;
   }
 
   /**
@@ -569,13 +872,17 @@ export class ContentModerator {
       if (maxSeverity !== 'critical') maxSeverity = 'high';
     }
 
-    return {
+    const result: ModerationResult = {
       approved: maxSeverity === 'low',
       reason: maxSeverity !== 'low' ? `AI response contains ${categories.join(', ')}` : undefined,
       severity: maxSeverity,
       categories,
       requiresReview: maxSeverity === 'high' || maxSeverity === 'critical'
     };
+
+    await this.recordAutoFlag(content, 'assistant', result, context);
+
+    return result;
   }
 
   /**
@@ -0,0 +1,80 @@
+import { contentModerator, type ModerationContext, type ModerationResult } from './contentModerator';
+
+/** Hold back at most this many characters before moderating */
+const CHECKPOINT_CHARS = 200;
+
+// A sentence or paragraph boundary at the end of the pending text
+const BOUNDARY_PATTERN = /[.!?:\n]\s*$/;
+
+/**
+ * Moderates a streamed AI response as it arrives.
+ * Tokens are held back until a sentence boundary or a size checkpoint, then the
+ * whole response so far is moderated and the pending text released only if it passes.
+ * Nothing that fails moderation is ever released to the client.
+ */
+export class StreamModerator {
+  private released = '';
+  private pending = '';
+  private blocked: ModerationResult | null = null;
+
+  constructor(
+    private readonly onRelease: (text: string) => void,
+    private readonly context: ModerationContext = {},
+    private readonly checkpointChars: number = CHECKPOINT_CHARS
+  ) {}
+
+  /**
+   * Add a streamed chunk. Returns false once the response has been blocked.
+   */
+  async push(chunk: string): Promise<boolean> {
+    if (this.blocked) {
+      return false;
+    }
+
+    this.pending += chunk;
+
+    if (this.pending.length >= this.checkpointChars || BOUNDARY_PATTERN.test(this.pending)) {
+      return await this.checkpoint();
+    }
+
+    return true;
+  }
+
+  /**
+   * Moderate and release whatever is still held back at the end of the stream
+   */
+  async flush(): Promise<boolean> {
+    if (this.blocked) {
+      return false;
+    }
+
+    return this.pending ? await this.checkpoint() : true;
+  }
+
+  /** Text released to the client so far */
+  get content(): string {
+    return this.released;
+  }
+
+  /** Moderation result that stopped the stream, if any */
+  get rejection(): ModerationResult | null {
+    return this.blocked;
+  }
+
+  private async checkpoint(): Promise<boolean> {
+    const candidate = this.released + this.pending;
+    const result = await contentModerator.moderateAIResponse(candidate, this.context);
+
+    if (!result.approved) {
+      this.blocked = result;
+      this.pending = '';
+      return false;
+    }
+
+    const text = this.pending;
+    this.released = candidate;
+    this.pending = '';
+    this.onRelease(text);
+    return true;
+  }
+}
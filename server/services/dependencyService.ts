@@ -8,6 +8,8 @@ import {
   type DependencyValidation,
 } from '@shared/schema';
 import { eq, and, or } from 'drizzle-orm';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Dependency Service
@@ -33,8 +35,8 @@ export class DependencyService {
 
     // Verify both tasks exist and user has access
     const [task, prerequisiteTask] = await Promise.all([
-      this.getTaskWithAccess(taskId, userId),
-      this.getTaskWithAccess(prerequisiteTaskId, userId),
+      this.getTaskWithAccess(taskId, userId, TeamPermission.EDIT),
+      this.getTaskWithAccess(prerequisiteTaskId, userId, TeamPermission.EDIT),
     ]);
 
     if (!task) {
@@ -93,7 +95,7 @@ export class DependencyService {
   async removeDependency(
     dependencyId: number,
     userId: number
-  ): Promise<void> {
+  ): Promise<TaskDependency & { planId: number }> {
     // Get the dependency
     const [dependency] = await db
       .select()
@@ -106,7 +108,7 @@ export class DependencyService {
     }
 
     // Verify user has access to the task
-    const task = await this.getTaskWithAccess(dependency.taskId, userId);
+    const task = await this.getTaskWithAccess(dependency.taskId, userId, TeamPermission.EDIT);
     if (!task) {
       throw new Error('Access denied');
     }
@@ -115,6 +117,8 @@ export class DependencyService {
     await db
       .delete(taskDependencies)
       .where(eq(taskDependencies.id, dependencyId));
+
+    return { ...dependency, planId: task.planId };
   }
 
   /**
@@ -331,7 +335,7 @@ export class DependencyService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -445,7 +449,7 @@ export class DependencyService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -480,7 +484,8 @@ export class DependencyService {
    */
   private async getTaskWithAccess(
     taskId: number,
-    userId: number
+    userId: number,
+    permission: TeamPermission = TeamPermission.VIEW
   ): Promise<typeof planTasks.$inferSelect | null> {
     const [result] = await db
       .select({
@@ -491,7 +496,7 @@ export class DependencyService {
       .innerJoin(actionPlans, eq(planTasks.planId, actionPlans.id))
       .where(and(
         eq(planTasks.id, taskId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, permission)
       ))
       .limit(1);
 
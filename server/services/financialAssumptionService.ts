@@ -0,0 +1,196 @@
+import { db } from '../db';
+import {
+  financialAssumptionSets,
+  ideas,
+  type FinancialAssumptions,
+  type FinancialAssumptionSet,
+  type Idea,
+} from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import {
+  generateMonthlyFinancialModel,
+  getDefaultAssumptions,
+  type MonthlyFinancialModel,
+} from './financialModeling';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Financial Assumption Service
+ * Persists named assumption sets per idea and keeps the idea's stored
+ * break-even month and yearly projections in line with the active set
+ */
+export class FinancialAssumptionService {
+  /**
+   * List all assumption sets for an idea, active set first
+   */
+  async listSets(ideaId: number): Promise<FinancialAssumptionSet[]> {
+    return db
+      .select()
+      .from(financialAssumptionSets)
+      .where(eq(financialAssumptionSets.ideaId, ideaId))
+      .orderBy(desc(financialAssumptionSets.isActive), desc(financialAssumptionSets.updatedAt));
+  }
+
+  async getSet(ideaId: number, setId: number): Promise<FinancialAssumptionSet | null> {
+    const [set] = await db
+      .select()
+      .from(financialAssumptionSets)
+      .where(and(
+        eq(financialAssumptionSets.id, setId),
+        eq(financialAssumptionSets.ideaId, ideaId)
+      ))
+      .limit(1);
+
+    return set ?? null;
+  }
+
+  /**
+   * Get the assumptions currently driving an idea's model.
+   * Falls back to defaults derived from the idea when no set is active.
+   */
+  async getActiveAssumptions(idea: Idea): Promise<{ set: FinancialAssumptionSet | null; assumptions: FinancialAssumptions }> {
+    const [set] = await db
+      .select()
+      .from(financialAssumptionSets)
+      .where(and(
+        eq(financialAssumptionSets.ideaId, idea.id),
+        eq(financialAssumptionSets.isActive, true)
+      ))
+      .limit(1);
+
+    return {
+      set: set ?? null,
+      assumptions: set ? (set.assumptions as FinancialAssumptions) : getDefaultAssumptions(idea),
+    };
+  }
+
+  async createSet(
+    idea: Idea,
+    userId: number,
+    data: { name: string; assumptions: FinancialAssumptions; activate?: boolean }
+  ): Promise<FinancialAssumptionSet> {
+    const [set] = await db
+      .insert(financialAssumptionSets)
+      .values({
+        ideaId: idea.id,
+        userId,
+        name: data.name,
+        assumptions: data.assumptions,
+        isActive: false,
+      })
+      .returning();
+
+    if (data.activate) {
+      return this.activateSet(idea, set.id) as Promise<FinancialAssumptionSet>;
+    }
+
+    return set;
+  }
+
+  async updateSet(
+    idea: Idea,
+    setId: number,
+    updates: { name?: string; assumptions?: FinancialAssumptions }
+  ): Promise<FinancialAssumptionSet | null> {
+    return await db.transaction(async (tx) => {
+      const [set] = await tx
+        .update(financialAssumptionSets)
+        .set({ ...updates, updatedAt: new Date().toISOString() })
+        .where(and(
+          eq(financialAssumptionSets.id, setId),
+          eq(financialAssumptionSets.ideaId, idea.id)
+        ))
+        .returning();
+
+      if (!set) {
+        return null;
+      }
+
+      if (set.isActive && updates.assumptions) {
+        await this.syncIdea(tx, idea.id, updates.assumptions);
+      }
+
+      return set;
+    });
+  }
+
+  /**
+   * Make a set the active one for its idea and recompute the idea's stored figures
+   */
+  async activateSet(idea: Idea, setId: number): Promise<FinancialAssumptionSet | null> {
+    const existing = await this.getSet(idea.id, setId);
+    if (!existing) {
+      return null;
+    }
+
+    const set = await db.transaction(async (tx) => {
+      await tx
+        .update(financialAssumptionSets)
+        .set({ isActive: false })
+        .where(eq(financialAssumptionSets.ideaId, idea.id));
+
+      const [activated] = await tx
+        .update(financialAssumptionSets)
+        .set({ isActive: true, updatedAt: new Date().toISOString() })
+        .where(eq(financialAssumptionSets.id, setId))
+        .returning();
+
+      await this.syncIdea(tx, idea.id, activated.assumptions as FinancialAssumptions);
+      return activated;
+    });
+    console.log(`✅ Activated assumption set ${setId} for idea ${idea.id}`);
+
+    return set;
+  }
+
+  /**
+   * Delete a set; deleting the active one puts the idea's stored figures back on the defaults
+   */
+  async deleteSet(idea: Idea, setId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(financialAssumptionSets)
+        .where(and(
+          eq(financialAssumptionSets.id, setId),
+          eq(financialAssumptionSets.ideaId, idea.id)
+        ))
+        .returning({ id: financialAssumptionSets.id, isActive: financialAssumptionSets.isActive });
+
+      if (!deleted) {
+        return false;
+      }
+
+      if (deleted.isActive) {
+        await this.syncIdea(tx, idea.id, getDefaultAssumptions(idea));
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Write the model's break-even month, ROI and yearly rollup back to the idea
+   */
+  private async syncIdea(tx: Transaction, ideaId: number, assumptions: FinancialAssumptions): Promise<MonthlyFinancialModel> {
+    const model = generateMonthlyFinancialModel(assumptions);
+    const { startingCash } = assumptions;
+    const projectedRoi = startingCash > 0
+      ? Math.round(((model.summary.totalNetIncome - startingCash) / startingCash) * 100)
+      : 0;
+
+    await tx
+      .update(ideas)
+      .set({
+        breakEvenMonths: model.summary.breakEvenMonth ?? 0,
+        projectedRoi,
+        financialProjections: model.yearly,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(ideas.id, ideaId));
+
+    return model;
+  }
+}
+
+export const financialAssumptionService = new FinancialAssumptionService();
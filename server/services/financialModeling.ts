@@ -1,4 +1,4 @@
-import type { ValidateIdea, FinancialProjection } from '@shared/schema';
+import type { ValidateIdea, FinancialProjection, FinancialAssumptions } from '@shared/schema';
 
 export interface FinancialModel {
   projections: FinancialProjection[];
@@ -19,6 +19,49 @@ export interface FinancialModel {
   riskFactors: string[];
 }
 
+export interface MonthlyProjection {
+  month: number;
+  visitors: number;
+  newCustomers: number;
+  churnedCustomers: number;
+  customers: number;
+  pricePerCustomer: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  payroll: number;
+  headcount: number;
+  marketing: number;
+  fixedExpenses: number;
+  expenses: number;
+  netIncome: number;
+  cashBalance: number;
+}
+
+export interface MonthlyFinancialModel {
+  assumptions: FinancialAssumptions;
+  months: MonthlyProjection[];
+  yearly: FinancialProjection[];
+  summary: {
+    /** First month with non-negative net income, null if never reached */
+    breakEvenMonth: number | null;
+    /** First month cumulative net income recovers the starting cash, null if never reached */
+    paybackMonth: number | null;
+    /** Burn in month 1, zero when the business starts profitable */
+    initialBurnRate: number;
+    /** Average burn across the loss-making months */
+    averageBurnRate: number;
+    /** Full months covered before cash runs out, null if it never runs out within the horizon */
+    runwayMonths: number | null;
+    minimumCashBalance: number;
+    endingCashBalance: number;
+    endingCustomers: number;
+    endingMonthlyRevenue: number;
+    totalRevenue: number;
+    totalNetIncome: number;
+  };
+}
+
 export function generateFinancialModel(idea: ValidateIdea): FinancialModel {
   const projections = generateProjections(idea);
   const summary = calculateSummary(projections, idea);
@@ -271,4 +314,204 @@ export function generateScenarioAnalysis(idea: ValidateIdea) {
     optimistic: generateFinancialModel(optimisticIdea),
     pessimistic: generateFinancialModel(pessimisticIdea)
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Derive a starting assumption set from the headline numbers of an idea.
+ * Category growth rates drive the visitor growth, and the entered monthly
+ * expenses are split 70/30 between fixed costs and customer acquisition,
+ * matching the split used by calculateKeyMetrics.
+ */
+export function getDefaultAssumptions(
+  idea: {
+    category: string;
+    initialInvestment?: number | null;
+    monthlyRevenue?: number | null;
+    monthlyExpenses?: number | null;
+  }
+): FinancialAssumptions {
+  const monthlyRevenue = idea.monthlyRevenue || 0;
+  const monthlyExpenses = idea.monthlyExpenses || 0;
+  const growthRates = getGrowthRates(idea.category);
+
+  const monthlyPricePerCustomer = 50;
+  const monthlyChurnRate = 0.03;
+  const signupRate = 0.05;
+  const paidConversionRate = 0.2;
+
+  const startingCustomers = Math.round(monthlyRevenue / monthlyPricePerCustomer);
+
+  // Enough new customers to cover churn and reach the category's first-year growth
+  const targetNewCustomers = Math.max(
+    startingCustomers * (monthlyChurnRate + growthRates.initial / 12),
+    10
+  );
+  const monthlyVisitors = Math.round(targetNewCustomers / (signupRate * paidConversionRate));
+  const monthlyVisitorGrowth = Math.pow(1 + growthRates.initial * growthRates.decay, 1 / 12) - 1;
+
+  const acquisitionBudget = monthlyExpenses * 0.3;
+  const customerAcquisitionCost = acquisitionBudget > 0
+    ? Math.round(acquisitionBudget / targetNewCustomers)
+    : 50;
+
+  return {
+    months: 60,
+    startingCash: idea.initialInvestment || 0,
+    startingCustomers,
+    pricing: {
+      monthlyPricePerCustomer,
+      annualPriceIncrease: 0.03,
+    },
+    funnel: {
+      monthlyVisitors,
+      monthlyVisitorGrowth: Math.round(monthlyVisitorGrowth * 10000) / 10000,
+      signupRate,
+      paidConversionRate,
+    },
+    monthlyChurnRate,
+    customerAcquisitionCost,
+    cogsPercent: 0.2,
+    fixedMonthlyExpenses: Math.round(monthlyExpenses * 0.7),
+    annualExpenseInflation: 0.05,
+    hiringPlan: [],
+  };
+}
+
+/**
+ * Apply partial edits on top of an assumption set. Pricing and funnel are
+ * merged field by field, the hiring plan is replaced as a whole.
+ */
+export function applyAssumptionOverrides(
+  base: FinancialAssumptions,
+  overrides: Partial<Omit<FinancialAssumptions, 'pricing' | 'funnel'>> & {
+    pricing?: Partial<FinancialAssumptions['pricing']>;
+    funnel?: Partial<FinancialAssumptions['funnel']>;
+  }
+): FinancialAssumptions {
+  return {
+    ...base,
+    ...overrides,
+    pricing: { ...base.pricing, ...overrides.pricing },
+    funnel: { ...base.funnel, ...overrides.funnel },
+  };
+}
+
+/**
+ * Run the month-by-month model for an assumption set.
+ * Customers are tracked fractionally so small funnels don't round to zero,
+ * and are only rounded for display.
+ */
+export function generateMonthlyFinancialModel(assumptions: FinancialAssumptions): MonthlyFinancialModel {
+  const months: MonthlyProjection[] = [];
+
+  let customers = assumptions.startingCustomers;
+  let cashBalance = assumptions.startingCash;
+
+  for (let month = 1; month <= assumptions.months; month++) {
+    const yearIndex = Math.floor((month - 1) / 12);
+
+    const visitors = assumptions.funnel.monthlyVisitors * Math.pow(1 + assumptions.funnel.monthlyVisitorGrowth, month - 1);
+    const newCustomers = visitors * assumptions.funnel.signupRate * assumptions.funnel.paidConversionRate;
+    const churnedCustomers = customers * assumptions.monthlyChurnRate;
+    customers = Math.max(0, customers + newCustomers - churnedCustomers);
+
+    const pricePerCustomer = assumptions.pricing.monthlyPricePerCustomer * Math.pow(1 + assumptions.pricing.annualPriceIncrease, yearIndex);
+    const revenue = customers * pricePerCustomer;
+    const cogs = revenue * assumptions.cogsPercent;
+    const grossProfit = revenue - cogs;
+
+    const activeHires = assumptions.hiringPlan.filter(hire => hire.startMonth <= month);
+    const payroll = activeHires.reduce((sum, hire) => sum + hire.monthlySalary * hire.count, 0);
+    const headcount = activeHires.reduce((sum, hire) => sum + hire.count, 0);
+
+    const marketing = newCustomers * assumptions.customerAcquisitionCost;
+    const fixedExpenses = assumptions.fixedMonthlyExpenses * Math.pow(1 + assumptions.annualExpenseInflation, yearIndex);
+
+    const expenses = cogs + payroll + marketing + fixedExpenses;
+    const netIncome = revenue - expenses;
+    cashBalance += netIncome;
+
+    months.push({
+      month,
+      visitors: Math.round(visitors),
+      newCustomers: Math.round(newCustomers),
+      churnedCustomers: Math.round(churnedCustomers),
+      customers: Math.round(customers),
+      pricePerCustomer: Math.round(pricePerCustomer * 100) / 100,
+      revenue: Math.round(revenue),
+      cogs: Math.round(cogs),
+      grossProfit: Math.round(grossProfit),
+      payroll: Math.round(payroll),
+      headcount,
+      marketing: Math.round(marketing),
+      fixedExpenses: Math.round(fixedExpenses),
+      expenses: Math.round(expenses),
+      netIncome: Math.round(netIncome),
+      cashBalance: Math.round(cashBalance),
+    });
+  }
+
+  return {
+    assumptions,
+    months,
+    yearly: rollUpYears(months, assumptions.startingCash),
+    summary: summarizeMonths(months, assumptions.startingCash),
+  };
+}
+
+function summarizeMonths(months: MonthlyProjection[], startingCash: number): MonthlyFinancialModel['summary'] {
+  const breakEven = months.find(m => m.netIncome >= 0);
+  const payback = months.find(m => m.cashBalance - startingCash >= startingCash);
+  const cashOut = months.find(m => m.cashBalance < 0);
+
+  const lossMonths = months.filter(m => m.netIncome < 0);
+  const averageBurnRate = lossMonths.length > 0
+    ? lossMonths.reduce((sum, m) => sum - m.netIncome, 0) / lossMonths.length
+    : 0;
+
+  const last = months[months.length - 1];
+
+  return {
+    breakEvenMonth: breakEven ? breakEven.month : null,
+    paybackMonth: startingCash > 0 && payback ? payback.month : null,
+    initialBurnRate: Math.max(0, -(months[0]?.netIncome ?? 0)),
+    averageBurnRate: Math.round(averageBurnRate),
+    runwayMonths: cashOut ? cashOut.month - 1 : null,
+    minimumCashBalance: months.reduce((min, m) => Math.min(min, m.cashBalance), startingCash),
+    endingCashBalance: last?.cashBalance ?? startingCash,
+    endingCustomers: last?.customers ?? 0,
+    endingMonthlyRevenue: last?.revenue ?? 0,
+    totalRevenue: months.reduce((sum, m) => sum + m.revenue, 0),
+    totalNetIncome: months.reduce((sum, m) => sum + m.netIncome, 0),
+  };
+}
+
+/**
+ * Collapse monthly rows into the yearly FinancialProjection shape stored on
+ * ideas, so existing charts keep working. cashFlow stays cumulative from the
+ * initial investment, as in generateProjections.
+ */
+function rollUpYears(months: MonthlyProjection[], startingCash: number): FinancialProjection[] {
+  const years: FinancialProjection[] = [];
+
+  let cumulativeCashFlow = -startingCash;
+
+  for (let start = 0; start < months.length; start += 12) {
+    const yearMonths = months.slice(start, start + 12);
+    const revenue = yearMonths.reduce((sum, m) => sum + m.revenue, 0);
+    const expenses = yearMonths.reduce((sum, m) => sum + m.expenses, 0);
+    const profit = revenue - expenses;
+    cumulativeCashFlow += profit;
+
+    years.push({
+      year: start / 12 + 1,
+      revenue,
+      expenses,
+      profit,
+      cashFlow: cumulativeCashFlow,
+      customers: yearMonths[yearMonths.length - 1].customers,
+    });
+  }
+
+  return years;
+}
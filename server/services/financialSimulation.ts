@@ -0,0 +1,189 @@
+import type {
+  Distribution,
+  FinancialAssumptions,
+  MonteCarloOptions,
+  SimulationDrivers,
+} from '@shared/schema';
+import { generateMonthlyFinancialModel } from './financialModeling';
+
+/**
+ * Monte Carlo Financial Simulation
+ *
+ * Samples growth, churn, CAC and fixed expense drivers from user-specified
+ * distributions, runs the monthly model once per sample, and reports
+ * percentile bands across runs. The RNG is seeded so the same inputs always
+ * produce the same bands.
+ */
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationMonth {
+  month: number;
+  revenue: PercentileBand;
+  cashBalance: PercentileBand;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  drivers: SimulationDrivers;
+  months: SimulationMonth[];
+  /** Percentiles of the break-even month; null where runs never broke even within the horizon */
+  breakEvenMonth: {
+    p10: number | null;
+    p50: number | null;
+    p90: number | null;
+    probabilityWithinHorizon: number;
+  };
+  probabilityOfRunningOutOfCash: number;
+}
+
+type DriverName = keyof SimulationDrivers;
+
+// Sampled values are clamped to what the assumption schema accepts
+const DRIVER_BOUNDS: Record<DriverName, { min: number; max: number }> = {
+  monthlyVisitorGrowth: { min: -0.5, max: 1 },
+  monthlyChurnRate: { min: 0, max: 1 },
+  customerAcquisitionCost: { min: 0, max: Infinity },
+  fixedMonthlyExpenses: { min: 0, max: Infinity },
+};
+
+/**
+ * Mulberry32 - small, fast, seedable PRNG returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleDistribution(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.value;
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'normal': {
+      // Box-Muller; 1 - random() keeps the log argument in (0, 1]
+      const u1 = 1 - random();
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return distribution.mean + z * distribution.stdDev;
+    }
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      if (max === min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+  }
+}
+
+/**
+ * Linear-interpolated percentile of an ascending sorted array
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function band(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: Math.round(percentile(sorted, 10)),
+    p50: Math.round(percentile(sorted, 50)),
+    p90: Math.round(percentile(sorted, 90)),
+  };
+}
+
+function sampleAssumptions(
+  assumptions: FinancialAssumptions,
+  drivers: SimulationDrivers,
+  random: () => number
+): FinancialAssumptions {
+  const sampled = { ...assumptions, funnel: { ...assumptions.funnel } };
+
+  // Fixed iteration order keeps the random stream stable across runs
+  for (const name of Object.keys(DRIVER_BOUNDS) as DriverName[]) {
+    const distribution = drivers[name];
+    if (!distribution) continue;
+
+    const { min, max } = DRIVER_BOUNDS[name];
+    const value = Math.min(max, Math.max(min, sampleDistribution(distribution, random)));
+
+    if (name === 'monthlyVisitorGrowth') {
+      sampled.funnel.monthlyVisitorGrowth = value;
+    } else {
+      sampled[name] = value;
+    }
+  }
+
+  return sampled;
+}
+
+export function runMonteCarloSimulation(
+  assumptions: FinancialAssumptions,
+  options: MonteCarloOptions
+): MonteCarloResult {
+  const { iterations, seed, drivers } = options;
+  const random = createSeededRandom(seed);
+
+  const revenueByMonth: number[][] = Array.from({ length: assumptions.months }, () => []);
+  const cashByMonth: number[][] = Array.from({ length: assumptions.months }, () => []);
+  const breakEvenMonths: number[] = [];
+  let cashOutRuns = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const model = generateMonthlyFinancialModel(sampleAssumptions(assumptions, drivers, random));
+
+    model.months.forEach((month, index) => {
+      revenueByMonth[index].push(month.revenue);
+      cashByMonth[index].push(month.cashBalance);
+    });
+
+    // Runs that never break even sort after every real month
+    breakEvenMonths.push(model.summary.breakEvenMonth ?? Infinity);
+    if (model.summary.runwayMonths !== null) {
+      cashOutRuns++;
+    }
+  }
+
+  breakEvenMonths.sort((a, b) => a - b);
+  const breakEvenPercentile = (p: number) => {
+    const value = percentile(breakEvenMonths, p);
+    return Number.isFinite(value) ? Math.round(value) : null;
+  };
+
+  return {
+    iterations,
+    seed,
+    drivers,
+    months: revenueByMonth.map((revenues, index) => ({
+      month: index + 1,
+      revenue: band(revenues),
+      cashBalance: band(cashByMonth[index]),
+    })),
+    breakEvenMonth: {
+      p10: breakEvenPercentile(10),
+      p50: breakEvenPercentile(50),
+      p90: breakEvenPercentile(90),
+      probabilityWithinHorizon: breakEvenMonths.filter(Number.isFinite).length / iterations,
+    },
+    probabilityOfRunningOutOfCash: cashOutRuns / iterations,
+  };
+}
@@ -0,0 +1,169 @@
+import type { GapAnalysisResult } from "./types";
+
+/**
+ * Gap Analysis Fixtures
+ * Deterministic results served by the stub provider in offline environments
+ */
+
+export interface DomainGapFixture {
+  keywords: string[];
+  gaps: GapAnalysisResult[];
+}
+
+export const DOMAIN_GAP_FIXTURES: DomainGapFixture[] = [
+  {
+    keywords: ["health", "medical", "wellness", "fitness"],
+    gaps: [
+      {
+        title: "AI Health Companion for Chronic Conditions",
+        description: "24/7 AI-powered health monitoring and support system that tracks symptoms, medication adherence, and provides personalized health insights for chronic disease patients.",
+        category: "technology",
+        feasibility: "high",
+        marketPotential: "high",
+        innovationScore: 8,
+        marketSize: "$4.2B",
+        gapReason: "Privacy concerns and regulatory approval complexities",
+        targetAudience: "Chronic disease patients and their caregivers",
+        keyTrends: ["Aging population", "AI in healthcare", "Remote patient monitoring"],
+        confidenceScore: 72,
+        priority: "high",
+        actionableRecommendations: [
+          "Start with a single chronic condition such as type 2 diabetes",
+          "Map HIPAA and medical device requirements early",
+          "Pilot with a clinic to gather outcome data"
+        ],
+        competitorAnalysis: "Point solutions exist for glucose and heart monitoring but few cover multiple conditions",
+        industryContext: "Digital health and remote patient monitoring"
+      }
+    ]
+  },
+  {
+    keywords: ["education", "learning", "training", "edtech"],
+    gaps: [
+      {
+        title: "Personalized Skill Gap Analyzer",
+        description: "AI platform that analyzes your current skills, career goals, and market demand to create personalized learning paths with real-time job market alignment.",
+        category: "market",
+        feasibility: "high",
+        marketPotential: "high",
+        innovationScore: 7,
+        marketSize: "$2.8B",
+        gapReason: "Fragmented data sources and lack of industry standardization",
+        targetAudience: "Career changers and continuous learners",
+        keyTrends: ["Skills-based hiring", "Lifelong learning", "Career pivoting"],
+        confidenceScore: 74,
+        priority: "high",
+        actionableRecommendations: [
+          "Start with one job family such as data analytics",
+          "Partner with course providers for learning content",
+          "Validate demand with career coaching communities"
+        ],
+        competitorAnalysis: "LinkedIn Learning and Coursera recommend courses but do not track live job demand",
+        industryContext: "Education technology and workforce development"
+      }
+    ]
+  }
+];
+
+export const GENERAL_GAP_FIXTURES: GapAnalysisResult[] = [
+  {
+    title: "AI-Powered Market Gap Analyzer",
+    description: "An intelligent platform that continuously scans market trends, patent databases, and consumer complaints to identify unaddressed needs and business opportunities in real-time.",
+    category: "technology",
+    feasibility: "high",
+    marketPotential: "high",
+    innovationScore: 8,
+    marketSize: "$2.3B",
+    gapReason: "Complex data integration and lack of unified market intelligence APIs",
+    confidenceScore: 75,
+    priority: "high",
+    actionableRecommendations: [
+      "Start with MVP focusing on single industry vertical",
+      "Partner with existing data providers for initial data sources",
+      "Conduct user interviews with market researchers and VCs",
+      "Build API-first architecture for easy integration"
+    ],
+    competitorAnalysis: "Limited direct competitors; CB Insights and Crunchbase offer partial solutions",
+    industryContext: "Market intelligence and business analytics"
+  },
+  {
+    title: "Virtual Reality Therapy Sessions",
+    description: "Immersive VR therapy platform that provides accessible mental health support with AI therapists and realistic environments for treating phobias, PTSD, and anxiety disorders.",
+    category: "market",
+    feasibility: "medium",
+    marketPotential: "high",
+    innovationScore: 9,
+    marketSize: "$4.5B",
+    gapReason: "Regulatory hurdles and need for clinical validation studies",
+    confidenceScore: 70,
+    priority: "medium",
+    actionableRecommendations: [
+      "Research regulatory requirements and clinical trial pathways",
+      "Partner with licensed therapists for content development",
+      "Start with anxiety treatment as initial use case",
+      "Develop pilot program with mental health clinics"
+    ],
+    competitorAnalysis: "Some VR therapy apps exist but lack AI personalization and clinical validation",
+    industryContext: "Mental health and digital therapeutics"
+  },
+  {
+    title: "Smart Urban Farming Pods",
+    description: "Automated vertical farming units for urban apartments that use AI to optimize growing conditions and provide fresh produce year-round with minimal effort.",
+    category: "market",
+    feasibility: "high",
+    marketPotential: "medium",
+    innovationScore: 7,
+    marketSize: "$890M",
+    gapReason: "High initial cost and consumer education needed",
+    confidenceScore: 80,
+    priority: "medium",
+    actionableRecommendations: [
+      "Develop prototype with 3-5 popular vegetables",
+      "Target urban millennials and health-conscious consumers",
+      "Create subscription model for seeds and nutrients",
+      "Partner with smart home platforms for integration"
+    ],
+    competitorAnalysis: "AeroGarden and Click & Grow exist but lack AI optimization",
+    industryContext: "Urban agriculture and smart home technology"
+  },
+  {
+    title: "Subscription-Based Car Sharing for Suburbs",
+    description: "Neighborhood-based car sharing service specifically designed for suburban communities where residents share costs and access to vehicles within walking distance.",
+    category: "business_model",
+    feasibility: "high",
+    marketPotential: "medium",
+    innovationScore: 6,
+    marketSize: "$1.2B",
+    gapReason: "Insurance complexity and community coordination challenges",
+    confidenceScore: 65,
+    priority: "medium",
+    actionableRecommendations: [
+      "Start with pilot in single suburban neighborhood",
+      "Partner with insurance companies for group coverage",
+      "Develop community management platform",
+      "Create clear usage rules and conflict resolution process"
+    ],
+    competitorAnalysis: "Zipcar and Turo focus on urban areas; suburban market underserved",
+    industryContext: "Shared mobility and community services"
+  },
+  {
+    title: "Personal Carbon Offset Marketplace",
+    description: "Platform that automatically calculates your carbon footprint from purchases and travel, then matches you with verified local offset projects you can support.",
+    category: "technology",
+    feasibility: "high",
+    marketPotential: "high",
+    innovationScore: 8,
+    marketSize: "$3.1B",
+    gapReason: "Lack of standardized carbon tracking and verification systems",
+    confidenceScore: 78,
+    priority: "high",
+    actionableRecommendations: [
+      "Integrate with credit card APIs for purchase tracking",
+      "Partner with verified carbon offset organizations",
+      "Start with travel and transportation tracking",
+      "Build mobile app for easy carbon footprint monitoring"
+    ],
+    competitorAnalysis: "Wren and Offset exist but lack automatic tracking and local projects",
+    industryContext: "Climate tech and sustainability"
+  }
+];
@@ -0,0 +1,14 @@
+/**
+ * Gap Discovery
+ * Exports the provider registry and shared types for gap analysis
+ */
+
+export { gapProviderRegistry, GapProviderRegistry } from './registry';
+export { CircuitBreaker } from './circuitBreaker';
+export { PerplexityGapProvider } from './providers/perplexityProvider';
+export { GeminiGapProvider } from './providers/geminiProvider';
+export { XaiGapProvider } from './providers/xaiProvider';
+export { StubGapProvider } from './providers/stubProvider';
+export { validateGapResponse, repairJson } from './validation';
+export * from './schema';
+export * from './types';
@@ -0,0 +1,208 @@
+import { GoogleGenAI } from "@google/genai";
+import { config } from "../../../config";
+import type { GapDiscoveryOptions, GapDiscoveryProvider } from "../types";
+
+const SYSTEM_PROMPT = `You are an elite innovation strategist and market gap analyst with deep expertise in identifying untapped business opportunities. 
+
+Your analysis framework:
+1. Market Dynamics: Understand current trends, pain points, and unmet needs
+2. Technology Assessment: Evaluate technical feasibility with current and emerging tech
+3. Economic Viability: Assess market size, growth potential, and monetization models
+4. Competitive Landscape: Identify why these gaps exist and barriers to entry
+5. Innovation Impact: Measure true innovation potential and market disruption capability
+6. Industry Context: Provide specific industry insights and trends
+7. Actionable Strategy: Deliver concrete next steps and recommendations
+
+Guidelines:
+- Focus on ACTIONABLE opportunities that entrepreneurs can realistically pursue in the next 2-3 years
+- Prioritize gaps with clear value propositions and identifiable target markets
+- Consider regulatory, technical, and market barriers realistically
+- Provide specific, measurable market data when possible
+- Ensure diversity across different industries and business models
+- Include confidence scores based on data availability and market clarity
+- Categorize gaps into: market, technology, ux (user experience), or business_model
+- Provide 3-5 specific actionable recommendations for each gap
+
+Always respond with valid JSON in the exact format specified.`;
+
+function buildPrompt(query: string): string {
+  return `Analyze this market research query: "${query}"
+
+Context: The user is an entrepreneur or innovator looking for untapped business opportunities. They need specific, actionable market gaps they could potentially address.
+
+Your task: Identify 6-8 significant market gaps related to the query. These should be opportunities that:
+- Don't currently exist in the market (or exist poorly)
+- Have clear demand signals (complaints, workarounds, high friction)
+- Could be realistically built/launched within 2-3 years
+- Have identifiable early adopters and growth potential
+
+For each gap, provide:
+1. Title: A clear, memorable name for the solution (e.g., "AI-Powered Legal Document Reviewer")
+2. Description: Comprehensive explanation including:
+   - What problem it solves
+   - How it works
+   - Target users and use cases
+   - Key differentiators from existing alternatives
+3. Category: Choose ONE of these structured categories:
+   - "market" - Market gaps and unmet customer needs
+   - "technology" - Technology solutions not yet built
+   - "ux" - User experience improvements and design gaps
+   - "business_model" - New ways to monetize or deliver value
+4. Feasibility: Rate as "high", "medium", or "low" considering:
+   - Technical complexity
+   - Resource requirements
+   - Regulatory hurdles
+   - Time to market
+5. Market Potential: Rate as "high", "medium", or "low" based on:
+   - Total addressable market
+   - Growth trajectory
+   - Customer willingness to pay
+   - Competitive dynamics
+6. Innovation Score: 1-10 scale where:
+   - 1-3: Incremental improvements
+   - 4-6: Notable innovations
+   - 7-8: Breakthrough solutions
+   - 9-10: Paradigm-shifting innovations
+7. Market Size: Provide realistic TAM estimate (e.g., "$2.3B global market", "$450M in North America")
+8. Gap Reason: Explain specifically why this doesn't exist yet:
+   - Technical barriers
+   - Regulatory challenges
+   - Economic factors
+   - Market timing issues
+9. Confidence Score: 0-100 rating based on:
+   - Data availability and quality
+   - Market clarity and validation
+   - Competitive landscape understanding
+   - Industry expertise level
+10. Priority: Calculate as "high", "medium", or "low" based on:
+    - High: High market potential + High feasibility
+    - Medium: Mixed potential and feasibility
+    - Low: Low market potential or Low feasibility
+11. Actionable Recommendations: Provide 3-5 specific next steps such as:
+    - MVP development approach
+    - Target customer segments
+    - Partnership opportunities
+    - Go-to-market strategies
+    - Risk mitigation tactics
+12. Competitor Analysis: Brief overview of existing solutions and competitive landscape
+13. Industry Context: Specific industry trends, regulations, and dynamics
+
+Ensure variety across different approaches and industries. Prioritize quality over quantity - each gap should be genuinely valuable and well-researched.
+
+Return the results as a JSON object with the exact structure:
+{
+  "gaps": [
+    {
+      "title": "string",
+      "description": "string", 
+      "category": "market" | "technology" | "ux" | "business_model",
+      "feasibility": "high" | "medium" | "low",
+      "marketPotential": "high" | "medium" | "low",
+      "innovationScore": number (1-10),
+      "marketSize": "string",
+      "gapReason": "string",
+      "confidenceScore": number (0-100),
+      "priority": "high" | "medium" | "low",
+      "actionableRecommendations": ["string", "string", ...],
+      "competitorAnalysis": "string",
+      "industryContext": "string"
+    }
+  ]
+}`;
+}
+
+const RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    gaps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          description: { type: "string" },
+          category: {
+            type: "string",
+            enum: ["market", "technology", "ux", "business_model"]
+          },
+          feasibility: {
+            type: "string",
+            enum: ["high", "medium", "low"]
+          },
+          marketPotential: {
+            type: "string",
+            enum: ["high", "medium", "low"]
+          },
+          innovationScore: { type: "number" },
+          marketSize: { type: "string" },
+          gapReason: { type: "string" },
+          confidenceScore: { type: "number" },
+          priority: {
+            type: "string",
+            enum: ["high", "medium", "low"]
+          },
+          actionableRecommendations: {
+            type: "array",
+            items: { type: "string" }
+          },
+          competitorAnalysis: { type: "string" },
+          industryContext: { type: "string" }
+        },
+        required: [
+          "title", "description", "category", "feasibility", "marketPotential",
+          "innovationScore", "marketSize", "gapReason", "confidenceScore",
+          "priority", "actionableRecommendations", "competitorAnalysis", "industryContext"
+        ]
+      }
+    }
+  },
+  required: ["gaps"]
+};
+
+/**
+ * Gemini gap discovery provider
+ * Uses structured JSON output with a response schema
+ */
+export class GeminiGapProvider implements GapDiscoveryProvider {
+  readonly name = 'gemini' as const;
+  readonly model = "gemini-2.5-pro-latest";  // Updated from deprecated gemini-2.0-flash-exp for better reasoning
+  private ai: GoogleGenAI | null = null;
+
+  isAvailable(): boolean {
+    return !!config.geminiApiKey;
+  }
+
+  async discover(query: string, options: GapDiscoveryOptions = {}): Promise<string> {
+    const ai = this.getClient();
+
+    const response = await ai.models.generateContent({
+      model: this.model,
+      config: {
+        systemInstruction: SYSTEM_PROMPT,
+        responseMimeType: "application/json",
+        responseSchema: RESPONSE_SCHEMA,
+        abortSignal: options.signal
+      },
+      contents: options.repairHint
+        ? `${buildPrompt(query)}\n\nYour previous answer was rejected: ${options.repairHint}. Return corrected JSON only.`
+        : buildPrompt(query),
+    });
+
+    const rawJson = response.text;
+    if (!rawJson) {
+      throw new Error("Empty response from Gemini");
+    }
+
+    return rawJson;
+  }
+
+  private getClient(): GoogleGenAI {
+    if (!config.geminiApiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+    if (!this.ai) {
+      this.ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+    }
+    return this.ai;
+  }
+}
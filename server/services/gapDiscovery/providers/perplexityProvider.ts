@@ -0,0 +1,19 @@
+import { isPerplexityConfigured, PERPLEXITY_GAP_MODEL, requestMarketGapContent } from "../../perplexity";
+import type { GapDiscoveryOptions, GapDiscoveryProvider } from "../types";
+
+/**
+ * Perplexity gap discovery provider
+ * Real-time web search backed market gap discovery
+ */
+export class PerplexityGapProvider implements GapDiscoveryProvider {
+  readonly name = 'perplexity' as const;
+  readonly model = PERPLEXITY_GAP_MODEL;
+
+  isAvailable(): boolean {
+    return isPerplexityConfigured();
+  }
+
+  async discover(query: string, options: GapDiscoveryOptions = {}): Promise<string> {
+    return requestMarketGapContent(query, options);
+  }
+}
@@ -0,0 +1,31 @@
+import { DOMAIN_GAP_FIXTURES, GENERAL_GAP_FIXTURES } from "../fixtures";
+import type { GapAnalysisResult, GapDiscoveryProvider } from "../types";
+
+const MAX_RESULTS = 6;
+
+/**
+ * Offline gap discovery provider
+ * Returns fixture-based results so staging and CI can run the full
+ * search → results → action plan flow without API keys.
+ * The same query always yields the same results.
+ */
+export class StubGapProvider implements GapDiscoveryProvider {
+  readonly name = 'stub' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async discover(query: string): Promise<GapAnalysisResult[]> {
+    const queryLower = query.toLowerCase();
+
+    const domainGaps = DOMAIN_GAP_FIXTURES
+      .filter(fixture => fixture.keywords.some(keyword => queryLower.includes(keyword)))
+      .flatMap(fixture => fixture.gaps);
+
+    // Copy fixtures so callers can't mutate the shared data
+    return [...domainGaps, ...GENERAL_GAP_FIXTURES]
+      .slice(0, MAX_RESULTS)
+      .map(gap => structuredClone(gap));
+  }
+}
@@ -0,0 +1,19 @@
+import { isXaiConfigured, requestMarketGapContent, XAI_GAP_MODEL } from "../../xai";
+import type { GapDiscoveryOptions, GapDiscoveryProvider } from "../types";
+
+/**
+ * xAI gap discovery provider
+ * Grok backed market gap discovery, without live web search
+ */
+export class XaiGapProvider implements GapDiscoveryProvider {
+  readonly name = 'xai' as const;
+  readonly model = XAI_GAP_MODEL;
+
+  isAvailable(): boolean {
+    return isXaiConfigured();
+  }
+
+  async discover(query: string, options: GapDiscoveryOptions = {}): Promise<string> {
+    return requestMarketGapContent(query, options);
+  }
+}
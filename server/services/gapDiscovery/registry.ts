@@ -0,0 +1,205 @@
+import { config } from "../../config";
+import { CircuitBreaker } from "./circuitBreaker";
+import { GeminiGapProvider } from "./providers/geminiProvider";
+import { PerplexityGapProvider } from "./providers/perplexityProvider";
+import { StubGapProvider } from "./providers/stubProvider";
+import { XaiGapProvider } from "./providers/xaiProvider";
+import { validateGapResponse } from "./validation";
+import {
+  GapProviderError,
+  type GapDiscoveryOutcome,
+  type GapDiscoveryProvider,
+  type GapProviderAttempt,
+  type GapProviderName,
+} from "./types";
+
+export interface ProviderSettings {
+  timeoutMs: number;
+  /** Re-requests after a response fails schema validation */
+  maxRetries: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+interface RegisteredProvider {
+  provider: GapDiscoveryProvider;
+  settings: ProviderSettings;
+  breaker: CircuitBreaker;
+}
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  timeoutMs: 45000,
+  maxRetries: 1,
+  failureThreshold: 3,
+  cooldownMs: 60000,
+};
+
+/**
+ * Gap Provider Registry
+ * Tries each configured provider in order, enforcing a per-provider timeout
+ * and skipping providers whose circuit breaker is open. Responses are
+ * validated against the gap analysis schema and re-requested when unusable.
+ */
+export class GapProviderRegistry {
+  private providers = new Map<GapProviderName, RegisteredProvider>();
+  private order: GapProviderName[] = [];
+
+  register(provider: GapDiscoveryProvider, settings: Partial<ProviderSettings> = {}): void {
+    const merged = { ...DEFAULT_SETTINGS, ...settings };
+    this.providers.set(provider.name, {
+      provider,
+      settings: merged,
+      breaker: new CircuitBreaker({
+        failureThreshold: merged.failureThreshold,
+        cooldownMs: merged.cooldownMs,
+      }),
+    });
+  }
+
+  /**
+   * Set the fallback order. Unknown provider names are ignored with a warning.
+   */
+  setOrder(names: string[]): void {
+    this.order = [];
+    for (const name of names) {
+      if (this.providers.has(name as GapProviderName)) {
+        this.order.push(name as GapProviderName);
+      } else {
+        console.warn(`⚠️ Unknown gap provider "${name}" in provider order - ignoring`);
+      }
+    }
+  }
+
+  getOrder(): GapProviderName[] {
+    return [...this.order];
+  }
+
+  /**
+   * Model of the first configured provider in the fallback order, which analyses are priced at
+   */
+  getLeadModel(): string | undefined {
+    const lead = this.order
+      .map(name => this.providers.get(name)!.provider)
+      .find(provider => provider.isAvailable());
+    return lead?.model;
+  }
+
+  async discover(query: string): Promise<GapDiscoveryOutcome> {
+    const attempts: GapProviderAttempt[] = [];
+
+    for (const name of this.order) {
+      const entry = this.providers.get(name)!;
+      const { provider, breaker, settings } = entry;
+
+      if (!provider.isAvailable()) {
+        attempts.push({ provider: name, status: 'skipped', reason: 'not configured' });
+        continue;
+      }
+
+      if (!breaker.canRequest()) {
+        attempts.push({ provider: name, status: 'skipped', reason: 'circuit open' });
+        continue;
+      }
+
+      let repairHint: string | undefined;
+
+      for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+        const startTime = Date.now();
+        try {
+          console.log(`🔍 Using ${name} provider for gap discovery: ${query}`);
+          const raw = await this.withTimeout(provider, query, settings.timeoutMs, repairHint);
+          const { gaps, issues } = validateGapResponse(raw, name);
+
+          if (gaps.length === 0) {
+            repairHint = issues.join('; ') || 'No gaps were returned';
+            attempts.push({ provider: name, status: 'invalid', reason: repairHint, durationMs: Date.now() - startTime });
+            console.warn(`⚠️ ${name} returned no valid gaps: ${repairHint}`);
+            continue;
+          }
+
+          if (issues.length > 0) {
+            console.warn(`🔧 Repaired ${name} response: ${issues.join('; ')}`);
+          }
+
+          breaker.recordSuccess();
+          attempts.push({ provider: name, status: 'success', durationMs: Date.now() - startTime });
+          console.log(`✅ ${name} returned ${gaps.length} results`);
+
+          return { provider: name, model: provider.model, results: gaps, attempts };
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          attempts.push({ provider: name, status: 'failed', reason, durationMs: Date.now() - startTime });
+          console.error(`❌ ${name} provider failed, trying next provider:`, reason);
+          break;
+        }
+      }
+
+      // Transport errors and exhausted retries both count against the provider
+      breaker.recordFailure();
+    }
+
+    throw new GapProviderError('All gap discovery providers failed', attempts);
+  }
+
+  /**
+   * Provider health for monitoring endpoints
+   */
+  getStatus() {
+    return this.order.map(name => {
+      const { provider, breaker, settings } = this.providers.get(name)!;
+      return {
+        name,
+        available: provider.isAvailable(),
+        timeoutMs: settings.timeoutMs,
+        circuit: breaker.getStats(),
+      };
+    });
+  }
+
+  resetCircuits(): void {
+    this.providers.forEach(entry => entry.breaker.reset());
+  }
+
+  private async withTimeout(
+    provider: GapDiscoveryProvider,
+    query: string,
+    timeoutMs: number,
+    repairHint?: string
+  ): Promise<unknown> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        provider.discover(query, { signal: controller.signal, repairHint }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function timeoutFromEnv(name: GapProviderName, fallback: number): number {
+  const value = parseInt(process.env[`GAP_PROVIDER_${name.toUpperCase()}_TIMEOUT_MS`] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function createDefaultRegistry(): GapProviderRegistry {
+  const registry = new GapProviderRegistry();
+  registry.register(new PerplexityGapProvider(), { timeoutMs: timeoutFromEnv('perplexity', 45000) });
+  registry.register(new GeminiGapProvider(), { timeoutMs: timeoutFromEnv('gemini', 60000) });
+  registry.register(new XaiGapProvider(), { timeoutMs: timeoutFromEnv('xai', 60000) });
+  registry.register(new StubGapProvider(), { timeoutMs: timeoutFromEnv('stub', 5000) });
+  registry.setOrder(config.gapProviderOrder);
+  return registry;
+}
+
+export const gapProviderRegistry = createDefaultRegistry();
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * Gap Analysis Schema
+ * Single source of truth for the shape of a gap analysis result.
+ * Every provider response is validated against this before it is used.
+ */
+
+export const GAP_CATEGORIES = ["market", "technology", "ux", "business_model"] as const;
+export const GAP_LEVELS = ["high", "medium", "low"] as const;
+
+export const gapAnalysisFieldSchemas = {
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  category: z.enum(GAP_CATEGORIES),
+  feasibility: z.enum(GAP_LEVELS),
+  marketPotential: z.enum(GAP_LEVELS),
+  innovationScore: z.number().min(1).max(10),
+  marketSize: z.string().trim().min(1),
+  gapReason: z.string().trim().min(1),
+  targetAudience: z.string().trim().min(1).optional(),
+  keyTrends: z.array(z.string()).optional(),
+  confidenceScore: z.number().min(0).max(100),
+  priority: z.enum(GAP_LEVELS),
+  actionableRecommendations: z.array(z.string().min(1)).min(1).max(5),
+  competitorAnalysis: z.string().trim().min(1).optional(),
+  industryContext: z.string().trim().min(1).optional(),
+};
+
+export const gapAnalysisResultSchema = z.object(gapAnalysisFieldSchemas);
+
+export type GapAnalysisField = keyof typeof gapAnalysisFieldSchemas;
+
+/**
+ * Where a field's value came from:
+ * - model: returned by the provider and valid as-is
+ * - repaired: returned by the provider but coerced into shape (e.g. "High" → "high")
+ * - derived: computed from other model fields (e.g. priority)
+ * - defaulted: missing or unusable, filled with a placeholder value
+ */
+export type FieldProvenance = "model" | "repaired" | "derived" | "defaulted";
+
+export interface GapProvenance {
+  provider: string;
+  fields: Partial<Record<GapAnalysisField, FieldProvenance>>;
+}
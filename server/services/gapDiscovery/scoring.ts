@@ -0,0 +1,46 @@
+import type { GapAnalysisResult } from "./types";
+
+// Helper function to calculate priority based on market potential and feasibility
+export function calculatePriority(
+  marketPotential: "high" | "medium" | "low",
+  feasibility: "high" | "medium" | "low"
+): "high" | "medium" | "low" {
+  if (marketPotential === "high" && feasibility === "high") return "high";
+  if (marketPotential === "high" || feasibility === "high") return "medium";
+  if (marketPotential === "low" && feasibility === "low") return "low";
+  return "medium";
+}
+
+// Helper function to generate actionable recommendations
+export function generateRecommendations(
+  gap: Pick<GapAnalysisResult, "feasibility" | "marketPotential" | "innovationScore">
+): string[] {
+  const recommendations: string[] = [];
+
+  // Add feasibility-based recommendations
+  if (gap.feasibility === "high") {
+    recommendations.push("Start with MVP development to validate core assumptions");
+    recommendations.push("Conduct user interviews with target audience");
+  } else if (gap.feasibility === "medium") {
+    recommendations.push("Research technical requirements and potential partnerships");
+    recommendations.push("Create detailed feasibility study before proceeding");
+  } else {
+    recommendations.push("Explore alternative approaches to reduce complexity");
+    recommendations.push("Consider phased implementation strategy");
+  }
+
+  // Add market potential-based recommendations
+  if (gap.marketPotential === "high") {
+    recommendations.push("Develop go-to-market strategy for rapid scaling");
+    recommendations.push("Identify early adopter segments for initial launch");
+  }
+
+  // Add innovation-based recommendations
+  if (gap.innovationScore >= 8) {
+    recommendations.push("Consider patent protection for novel approaches");
+    recommendations.push("Build strong brand positioning as market innovator");
+  }
+
+  return recommendations.slice(0, 4); // Return top 4 recommendations
+}
+
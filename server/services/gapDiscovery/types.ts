@@ -0,0 +1,63 @@
+/**
+ * Gap Discovery Types
+ * Shared contracts for the AI providers that power gap analysis
+ */
+
+import type { z } from "zod";
+import type { gapAnalysisResultSchema, GapProvenance } from "./schema";
+
+export type GapAnalysisResult = z.infer<typeof gapAnalysisResultSchema> & {
+  /** Per-field record of what the model produced vs. what was filled in */
+  provenance?: GapProvenance;
+};
+
+export type GapProviderName = 'perplexity' | 'gemini' | 'xai' | 'stub';
+
+export interface GapDiscoveryOptions {
+  /** Aborted by the registry when the provider exceeds its timeout */
+  signal?: AbortSignal;
+  /** Set on a re-request, describing why the previous response was rejected */
+  repairHint?: string;
+}
+
+/**
+ * A source of market gap analyses. Providers own their prompt and transport
+ * and must throw on failure so the registry can fall back.
+ */
+export interface GapDiscoveryProvider {
+  readonly name: GapProviderName;
+
+  /** Model the provider calls, pricing its analyses against AI budgets; unset when it calls none */
+  readonly model?: string;
+
+  /** Whether the provider can be called at all (e.g. API key present) */
+  isAvailable(): boolean;
+
+  /**
+   * Return the provider's raw response: model text or already-parsed JSON.
+   * The registry validates and repairs it against the gap analysis schema.
+   */
+  discover(query: string, options?: GapDiscoveryOptions): Promise<unknown>;
+}
+
+export interface GapProviderAttempt {
+  provider: GapProviderName;
+  status: 'success' | 'failed' | 'invalid' | 'skipped';
+  reason?: string;
+  durationMs?: number;
+}
+
+export interface GapDiscoveryOutcome {
+  provider: GapProviderName;
+  /** Model of the provider that answered */
+  model?: string;
+  results: GapAnalysisResult[];
+  attempts: GapProviderAttempt[];
+}
+
+export class GapProviderError extends Error {
+  constructor(message: string, public readonly attempts: GapProviderAttempt[]) {
+    super(message);
+    this.name = 'GapProviderError';
+  }
+}
@@ -0,0 +1,248 @@
+import { calculatePriority, generateRecommendations } from "./scoring";
+import {
+  GAP_CATEGORIES,
+  GAP_LEVELS,
+  gapAnalysisFieldSchemas,
+  gapAnalysisResultSchema,
+  type FieldProvenance,
+  type GapAnalysisField,
+  type GapProvenance,
+} from "./schema";
+import type { GapAnalysisResult } from "./types";
+
+export interface GapValidationResult {
+  gaps: GapAnalysisResult[];
+  /** Human-readable problems found while validating, used as a repair hint */
+  issues: string[];
+}
+
+type Level = (typeof GAP_LEVELS)[number];
+type Category = (typeof GAP_CATEGORIES)[number];
+
+const CATEGORY_ALIASES: Record<string, Category> = {
+  "tech that's missing": "technology",
+  "tech": "technology",
+  "services that don't exist": "market",
+  "products nobody's made": "market",
+  "business models": "business_model",
+  "business model": "business_model",
+  "business-model": "business_model",
+  "user experience": "ux",
+  "design": "ux",
+};
+
+const LEVEL_ALIASES: Record<string, Level> = {
+  "very high": "high",
+  "moderate": "medium",
+  "med": "medium",
+  "very low": "low",
+};
+
+/**
+ * Parse model text into JSON, repairing the common ways LLM output breaks:
+ * markdown fences, prose around the payload and trailing commas.
+ */
+export function repairJson(text: string): unknown {
+  const withoutFences = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(withoutFences);
+  } catch {
+    // Fall through to extraction
+  }
+
+  const start = withoutFences.search(/[[{]/);
+  const end = Math.max(withoutFences.lastIndexOf(']'), withoutFences.lastIndexOf('}'));
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON payload found in model output');
+  }
+
+  const extracted = withoutFences
+    .slice(start, end + 1)
+    .replace(/,\s*([}\]])/g, '$1');
+
+  return JSON.parse(extracted);
+}
+
+function coerceEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  aliases: Record<string, T>
+): T | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if ((allowed as readonly string[]).includes(normalized)) return normalized as T;
+  const underscored = normalized.replace(/[\s-]+/g, '_');
+  if ((allowed as readonly string[]).includes(underscored)) return underscored as T;
+  return aliases[normalized];
+}
+
+function coerceNumber(value: unknown, min: number, max: number): number | undefined {
+  let parsed: number | undefined;
+  if (typeof value === 'number') {
+    parsed = value;
+  } else if (typeof value === 'string') {
+    // Handles "8", "8/10" and "85%"
+    const match = value.match(/-?\d+(\.\d+)?/);
+    parsed = match ? parseFloat(match[0]) : undefined;
+  }
+  if (parsed === undefined || !Number.isFinite(parsed)) return undefined;
+  return Math.min(max, Math.max(min, parsed));
+}
+
+function coerceStringArray(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    const strings = value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+    return strings.length > 0 ? strings.map(item => item.trim()) : undefined;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    return value.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function coerceString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  return undefined;
+}
+
+function coerceField(field: GapAnalysisField, value: unknown): unknown {
+  switch (field) {
+    case 'category':
+      return coerceEnum(value, GAP_CATEGORIES, CATEGORY_ALIASES);
+    case 'feasibility':
+    case 'marketPotential':
+    case 'priority':
+      return coerceEnum(value, GAP_LEVELS, LEVEL_ALIASES);
+    case 'innovationScore':
+      return coerceNumber(value, 1, 10);
+    case 'confidenceScore':
+      return coerceNumber(value, 0, 100);
+    case 'keyTrends':
+      return coerceStringArray(value);
+    case 'actionableRecommendations':
+      return coerceStringArray(value)?.slice(0, 5);
+    default:
+      return coerceString(value);
+  }
+}
+
+// Placeholders for required fields the model did not provide
+const FIELD_DEFAULTS: Partial<Record<GapAnalysisField, unknown>> = {
+  category: 'market',
+  feasibility: 'medium',
+  marketPotential: 'medium',
+  innovationScore: 5,
+  marketSize: 'Unknown',
+  gapReason: 'Not provided',
+  confidenceScore: 50,
+};
+
+// Fields a gap is useless without; gaps missing these are dropped
+const ESSENTIAL_FIELDS: GapAnalysisField[] = ['title', 'description'];
+
+const FIELD_ORDER = Object.keys(gapAnalysisFieldSchemas) as GapAnalysisField[];
+
+/**
+ * Validate a single raw gap, repairing or defaulting fields where possible.
+ * Returns null when an essential field is missing.
+ */
+export function normalizeGap(
+  raw: unknown,
+  provider: string
+): { gap: GapAnalysisResult; issues: string[] } | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const source = raw as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  const fields: GapProvenance['fields'] = {};
+  const issues: string[] = [];
+
+  const assign = (field: GapAnalysisField, value: unknown, provenance: FieldProvenance) => {
+    values[field] = value;
+    fields[field] = provenance;
+  };
+
+  for (const field of FIELD_ORDER) {
+    const schema = gapAnalysisFieldSchemas[field];
+    const value = source[field];
+
+    if (value !== undefined && value !== null && schema.safeParse(value).success) {
+      assign(field, value, 'model');
+      continue;
+    }
+
+    const coerced = value === undefined || value === null ? undefined : coerceField(field, value);
+    if (coerced !== undefined && schema.safeParse(coerced).success) {
+      assign(field, coerced, 'repaired');
+      continue;
+    }
+
+    if (ESSENTIAL_FIELDS.includes(field)) {
+      return null;
+    }
+
+    if (value !== undefined && value !== null) {
+      issues.push(`"${field}" had an invalid value`);
+    }
+
+    if (FIELD_DEFAULTS[field] !== undefined) {
+      assign(field, FIELD_DEFAULTS[field], 'defaulted');
+    }
+  }
+
+  // Priority and recommendations follow from other fields when missing
+  if (!fields.priority) {
+    assign('priority', calculatePriority(values.marketPotential as Level, values.feasibility as Level), 'derived');
+  }
+  if (!fields.actionableRecommendations) {
+    assign('actionableRecommendations', generateRecommendations({
+      feasibility: values.feasibility as Level,
+      marketPotential: values.marketPotential as Level,
+      innovationScore: values.innovationScore as number,
+    }), 'derived');
+  }
+
+  const parsed = gapAnalysisResultSchema.parse(values);
+  return { gap: { ...parsed, provenance: { provider, fields } }, issues };
+}
+
+/**
+ * Validate a provider response against the gap analysis schema.
+ * Accepts model text, a `{ gaps: [...] }` object or a bare array.
+ */
+export function validateGapResponse(raw: unknown, provider: string): GapValidationResult {
+  let payload: unknown = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      payload = repairJson(raw);
+    } catch (error) {
+      return { gaps: [], issues: [(error as Error).message] };
+    }
+  }
+
+  const items = Array.isArray(payload)
+    ? payload
+    : (payload as { gaps?: unknown } | null)?.gaps;
+
+  if (!Array.isArray(items)) {
+    return { gaps: [], issues: ['Expected a JSON array of gaps or an object with a "gaps" array'] };
+  }
+
+  const gaps: GapAnalysisResult[] = [];
+  const issues: string[] = [];
+
+  items.forEach((item, index) => {
+    const normalized = normalizeGap(item, provider);
+    if (!normalized) {
+      issues.push(`Gap ${index + 1} is missing a title or description`);
+      return;
+    }
+    gaps.push(normalized.gap);
+    normalized.issues.forEach(issue => issues.push(`Gap ${index + 1}: ${issue}`));
+  });
+
+  return { gaps, issues };
+}
@@ -1,6 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, FunctionCallingConfigMode, type FunctionCall, type FunctionDeclaration } from "@google/genai";
 import { config } from "../config";
 import type { ContextWindow } from "./contextWindowManager";
+import type { ModerationContext } from "./conversations/contentModerator";
+import { extractCitations, type CitationSource } from "./citationService";
+import type { MessageCitation } from "@shared/schema";
 
 /**
  * Gemini Conversation Service
@@ -24,6 +27,8 @@ const DEFAULT_MAX_TOKENS = 2048;
  * Configuration for Gemini model parameters
  */
 export interface GeminiConfig {
+  /** Model to call; budgets may switch answers to a cheaper one */
+  model?: string;
   temperature?: number;
   maxOutputTokens?: number;
   topP?: number;
@@ -43,8 +48,9 @@ export interface AIResponse {
     };
     processingTime: number;
     confidence?: number;
-    sources?: string[];
+    citations?: MessageCitation[];
     assumptions?: string[];
+    cancelled?: boolean;
   };
 }
 
@@ -53,6 +59,16 @@ export interface AIResponse {
  */
 export type StreamCallback = (chunk: string) => void;
 
+/**
+ * Options for a streamed response
+ */
+export interface StreamOptions {
+  /** Stops generation; the partial response is returned with metadata.cancelled set */
+  signal?: AbortSignal;
+  /** User and conversation to attach to moderation flags */
+  moderationContext?: ModerationContext;
+}
+
 /**
  * Error types for conversation AI
  */
@@ -63,6 +79,7 @@ export enum ConversationErrorType {
   API_ERROR = "api_error",
   NETWORK_ERROR = "network_error",
   CONTEXT_TOO_LARGE = "context_too_large",
+  CONTENT_BLOCKED = "content_blocked",
 }
 
 /**
@@ -97,6 +114,9 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   timeout: 30000, // 30 seconds
 };
 
+// Streamed answers are delivered as they are generated, so allow long ones to finish
+const STREAM_TIMEOUT = 120000; // 2 minutes
+
 /**
  * Get Gemini client instance
  */
@@ -119,6 +139,7 @@ export function isGeminiAvailable(): boolean {
  */
 export function getDefaultConfig(): GeminiConfig {
   return {
+    model: MODEL_NAME,
     temperature: DEFAULT_TEMPERATURE,
     maxOutputTokens: DEFAULT_MAX_TOKENS,
     topP: 0.95,
@@ -133,7 +154,7 @@ export function createModel(customConfig?: GeminiConfig) {
   const client = getGeminiClient();
   const config = { ...getDefaultConfig(), ...customConfig };
   
-  return client.models.get(MODEL_NAME);
+  return client.models.get(config.model || MODEL_NAME);
 }
 
 /**
@@ -164,6 +185,13 @@ function buildPrompt(context: ContextWindow): string {
     parts.push("");
   }
   
+  // Add citable sources if available
+  if (context.citationContext) {
+    parts.push("=== CITABLE SOURCES ===");
+    parts.push(context.citationContext);
+    parts.push("");
+  }
+  
   // Add conversation history if available
   if (context.conversationHistory) {
     parts.push("=== CONVERSATION HISTORY ===");
@@ -171,6 +199,13 @@ function buildPrompt(context: ContextWindow): string {
     parts.push("");
   }
   
+  // Add results of tools called for this question
+  if (context.toolResults) {
+    parts.push("=== TOOL RESULTS ===");
+    parts.push(context.toolResults);
+    parts.push("");
+  }
+  
   // Add current query
   parts.push("=== USER QUESTION ===");
   parts.push(context.currentQuery);
@@ -195,6 +230,11 @@ function calculateBackoff(attempt: number, config: RetryConfig): number {
  * Classify error and determine if retryable
  */
 function classifyError(error: any): ConversationAIError {
+  // Already classified where it was raised
+  if (error instanceof ConversationAIError) {
+    return error;
+  }
+
   const errorMessage = error?.message || String(error);
   
   // Rate limit errors
@@ -322,12 +362,14 @@ async function withRetry<T>(
  * @param context - Context window with system prompt, history, and query
  * @param customConfig - Optional custom model configuration
  * @param retryConfig - Optional retry configuration
+ * @param moderationContext - Optional user and conversation to attach to moderation flags
  * @returns AI response with metadata
  */
 export async function generateResponse(
   context: ContextWindow,
   customConfig?: GeminiConfig,
-  retryConfig?: Partial<RetryConfig>
+  retryConfig?: Partial<RetryConfig>,
+  moderationContext?: ModerationContext
 ): Promise<AIResponse> {
   const startTime = Date.now();
   
@@ -351,8 +393,8 @@ export async function generateResponse(
     const prompt = buildPrompt(context);
     
     // Generate content
-    const model = await client.models.get(MODEL_NAME);
-    const response = await model.generateContent({
+    const response = await client.models.generateContent({
+      model: modelConfig.model || MODEL_NAME,
       config: {
         systemInstruction: context.systemPrompt,
         temperature: modelConfig.temperature,
@@ -397,7 +439,7 @@ export async function generateResponse(
     
     // Moderate AI response content
     const { contentModerator } = await import('./conversations/contentModerator.js');
-    const moderationResult = await contentModerator.moderateAIResponse(content);
+    const moderationResult = await contentModerator.moderateAIResponse(content, moderationContext);
     
     if (!moderationResult.approved) {
       console.error('🚨 AI response failed content moderation:', {
@@ -431,20 +473,72 @@ export async function generateResponse(
   }, config);
 }
 
+/**
+ * Ask the model which of the given tools it wants to call before answering
+ * Returns no calls when the model answers directly or the request fails, so the
+ * answer is never blocked on tool selection.
+ * 
+ * @param context - Context window with system prompt, history, and query
+ * @param functionDeclarations - Tools the model may call
+ * @param customConfig - Optional custom model configuration; only the model is used
+ * @returns Requested function calls, in the order the model made them
+ */
+export async function requestToolCalls(
+  context: ContextWindow,
+  functionDeclarations: FunctionDeclaration[],
+  customConfig?: GeminiConfig
+): Promise<FunctionCall[]> {
+  if (!isGeminiAvailable() || functionDeclarations.length === 0) {
+    return [];
+  }
+  
+  try {
+    return await withRetry(async () => {
+      const client = getGeminiClient();
+      const response = await client.models.generateContent({
+        model: customConfig?.model || MODEL_NAME,
+        config: {
+          systemInstruction: `${context.systemPrompt}
+
+You can call tools to look things up or to propose changes to the user's action plan and analysis.
+Only call a tool when it directly helps answer the question. Changes are shown to the user for confirmation before they happen.`,
+          temperature: 0,
+          tools: [{ functionDeclarations }],
+          toolConfig: {
+            functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO },
+          },
+        },
+        contents: buildPrompt(context),
+      });
+      
+      return response.functionCalls ?? [];
+    }, { ...DEFAULT_RETRY_CONFIG, maxRetries: 1 });
+  } catch (error) {
+    console.error('Tool selection failed, answering without tools:', error);
+    return [];
+  }
+}
+
 /**
  * Generate AI response with streaming support (with retry logic)
+ *
+ * Chunks are moderated before they reach `onStream`, so a blocked response stops
+ * mid-stream without the offending text being sent. Once text has been streamed
+ * the request is no longer retried, since a retry would repeat it.
  * 
  * @param context - Context window with system prompt, history, and query
  * @param onStream - Callback for each streamed chunk
  * @param customConfig - Optional custom model configuration
  * @param retryConfig - Optional retry configuration
+ * @param options - Optional abort signal and moderation context
  * @returns AI response with metadata
  */
 export async function generateStreamingResponse(
   context: ContextWindow,
   onStream: StreamCallback,
   customConfig?: GeminiConfig,
-  retryConfig?: Partial<RetryConfig>
+  retryConfig?: Partial<RetryConfig>,
+  options: StreamOptions = {}
 ): Promise<AIResponse> {
   const startTime = Date.now();
   
@@ -460,34 +554,98 @@ export async function generateStreamingResponse(
     );
   }
   
-  const config = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+  const config = { ...DEFAULT_RETRY_CONFIG, timeout: STREAM_TIMEOUT, ...retryConfig };
+  const { StreamModerator } = await import('./conversations/streamModerator.js');
   
   return withRetry(async () => {
     const client = getGeminiClient();
     const modelConfig = { ...getDefaultConfig(), ...customConfig };
     const prompt = buildPrompt(context);
+    const moderator = new StreamModerator(onStream, options.moderationContext);
     
-    let fullContent = "";
+    try {
+      // Generate content with streaming
+      const stream = await client.models.generateContentStream({
+        model: modelConfig.model || MODEL_NAME,
+        config: {
+          systemInstruction: context.systemPrompt,
+          temperature: modelConfig.temperature,
+          maxOutputTokens: modelConfig.maxOutputTokens,
+          topP: modelConfig.topP,
+          topK: modelConfig.topK,
+          abortSignal: options.signal,
+        },
+        contents: prompt,
+      });
+      
+      // Process stream chunks, releasing them as they pass moderation
+      for await (const chunk of stream) {
+        if (options.signal?.aborted) {
+          break;
+        }
+        
+        const chunkText = chunk.text || "";
+        if (chunkText && !(await moderator.push(chunkText))) {
+          break;
+        }
+      }
+      
+      if (!options.signal?.aborted) {
+        await moderator.flush();
+      }
+    } catch (error) {
+      // The client went away; keep whatever was already streamed
+      if (!options.signal?.aborted) {
+        throw moderator.content ? nonRetryable(error) : error;
+      }
+    }
     
-    // Generate content with streaming
-    const model = await client.models.get(MODEL_NAME);
-    const stream = await model.generateContentStream({
-      config: {
-        systemInstruction: context.systemPrompt,
-        temperature: modelConfig.temperature,
-        maxOutputTokens: modelConfig.maxOutputTokens,
-        topP: modelConfig.topP,
-        topK: modelConfig.topK,
-      },
-      contents: prompt,
-    });
+    if (moderator.rejection) {
+      console.error('🚨 Streamed AI response failed content moderation:', {
+        reason: moderator.rejection.reason,
+        severity: moderator.rejection.severity,
+        categories: moderator.rejection.categories
+      });
+      
+      throw new ConversationAIError(
+        ConversationErrorType.CONTENT_BLOCKED,
+        'AI response contains inappropriate content',
+        false
+      );
+    }
     
-    // Process stream chunks
-    for await (const chunk of stream) {
-      const chunkText = chunk.text || "";
-      if (chunkText) {
-        fullContent += chunkText;
-        onStream(chunkText);
+    const cancelled = !!options.signal?.aborted;
+    let content = moderator.content;
+    
+    if (!cancelled) {
+      // Validate the complete response; disclaimers are streamed as a final chunk
+      const { responseValidator } = await import('./conversations/responseValidator.js');
+      const validationResult = await responseValidator.validateResponse(content, {
+        userQuery: context.currentQuery,
+      });
+      
+      if (!validationResult.isValid || validationResult.requiresReview) {
+        console.warn('⚠️ Streamed AI response validation issues:', {
+          issues: validationResult.issues,
+          severity: validationResult.severity,
+          requiresReview: validationResult.requiresReview
+        });
+        
+        if (validationResult.severity === 'high') {
+          throw new ConversationAIError(
+            ConversationErrorType.CONTENT_BLOCKED,
+            'AI response failed safety validation',
+            false
+          );
+        }
+      }
+      
+      if (validationResult.isValid && validationResult.issues.length > 0) {
+        const withDisclaimers = responseValidator.addDisclaimers(content);
+        if (withDisclaimers.startsWith(content) && withDisclaimers.length > content.length) {
+          onStream(withDisclaimers.slice(content.length));
+          content = withDisclaimers;
+        }
       }
     }
     
@@ -495,10 +653,10 @@ export async function generateStreamingResponse(
     
     // Extract token usage
     const inputTokens = context.totalTokens;
-    const outputTokens = estimateTokens(fullContent);
+    const outputTokens = estimateTokens(content);
     
     return {
-      content: fullContent,
+      content,
       metadata: {
         tokensUsed: {
           input: inputTokens,
@@ -506,11 +664,20 @@ export async function generateStreamingResponse(
           total: inputTokens + outputTokens,
         },
         processingTime,
+        ...(cancelled ? { cancelled } : {}),
       },
     };
   }, config);
 }
 
+/**
+ * Mark an error as non-retryable, keeping its classification
+ */
+function nonRetryable(error: unknown): ConversationAIError {
+  const classified = classifyError(error);
+  return new ConversationAIError(classified.type, classified.message, false);
+}
+
 /**
  * Simple token estimation (approximate)
  * Uses rough heuristic: ~4 characters per token
@@ -523,16 +690,17 @@ function estimateTokens(text: string): number {
  * Parse AI response to extract metadata
  * 
  * @param content - Raw AI response content
+ * @param citationSources - Sources offered to the model for this response
  * @returns Parsed metadata
  */
-export function parseResponseMetadata(content: string): {
+export function parseResponseMetadata(content: string, citationSources: CitationSource[] = []): {
   confidence?: number;
-  sources?: string[];
+  citations?: MessageCitation[];
   assumptions?: string[];
 } {
   const metadata: {
     confidence?: number;
-    sources?: string[];
+    citations?: MessageCitation[];
     assumptions?: string[];
   } = {};
   
@@ -542,13 +710,10 @@ export function parseResponseMetadata(content: string): {
     metadata.confidence = parseInt(confidenceMatch[1], 10);
   }
   
-  // Extract sources (if present)
-  const sourcesMatch = content.match(/sources?[:\s]+(.+?)(?:\n\n|\n$|$)/i);
-  if (sourcesMatch) {
-    metadata.sources = sourcesMatch[1]
-      .split(/[,;]/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
+  // Resolve inline citation tags against the sources offered to the model
+  const citations = extractCitations(content, citationSources);
+  if (citations.length > 0) {
+    metadata.citations = citations;
   }
   
   // Extract assumptions (if present)
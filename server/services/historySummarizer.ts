@@ -1,4 +1,4 @@
-import type { ConversationMessage } from '../../shared/schema.js';
+import type { ConversationMessage, ConversationMemory } from '../../shared/schema.js';
 import { tokenEstimator } from './tokenEstimator';
 
 /**
@@ -16,7 +16,8 @@ export interface SummarizedSegment {
 export interface SummarizedHistory {
   recentMessages: ConversationMessage[]; // Last 5 exchanges (10 messages)
   middleSummary?: SummarizedSegment; // Exchanges 6-10 summarized
-  archivedCount: number; // Exchanges 11+ (not included)
+  memory?: ConversationMemory; // Persisted memory of messages already folded in
+  archivedCount: number; // Exchanges 11+ not covered by memory (not included)
   totalMessages: number;
 }
 
@@ -31,20 +32,26 @@ export class HistorySummarizer {
 
   /**
    * Summarize conversation history with smart truncation
+   * - Replace messages covered by the conversation memory with the memory
    * - Keep last 5 exchanges (10 messages) in full
    * - Summarize middle exchanges (6-10) if they exist
    * - Archive old exchanges (11+)
    */
   async summarizeHistory(
-    messages: ConversationMessage[],
-    maxTokens: number
+    allMessages: ConversationMessage[],
+    maxTokens: number,
+    memory?: ConversationMemory | null
   ): Promise<SummarizedHistory> {
-    const totalMessages = messages.length;
+    const messages = memory
+      ? allMessages.filter(message => message.id > memory.coveredThroughMessageId)
+      : allMessages;
+    const totalMessages = messages.length + (memory?.coveredMessageCount ?? 0);
 
-    // If conversation is short, return all messages
-    if (totalMessages <= this.RECENT_EXCHANGES * this.MESSAGES_PER_EXCHANGE) {
+    // If the uncovered part is short, return all of it
+    if (messages.length <= this.RECENT_EXCHANGES * this.MESSAGES_PER_EXCHANGE) {
       return {
         recentMessages: messages,
+        memory: memory ?? undefined,
         archivedCount: 0,
         totalMessages,
       };
@@ -53,7 +60,7 @@ export class HistorySummarizer {
     // Calculate message boundaries
     const recentStart = Math.max(
       0,
-      totalMessages - this.RECENT_EXCHANGES * this.MESSAGES_PER_EXCHANGE
+      messages.length - this.RECENT_EXCHANGES * this.MESSAGES_PER_EXCHANGE
     );
     const middleStart = Math.max(
       0,
@@ -74,6 +81,7 @@ export class HistorySummarizer {
     return {
       recentMessages,
       middleSummary,
+      memory: memory ?? undefined,
       archivedCount,
       totalMessages,
     };
@@ -82,7 +90,7 @@ export class HistorySummarizer {
   /**
    * Summarize a segment of conversation messages
    */
-  private async summarizeSegment(
+  async summarizeSegment(
     messages: ConversationMessage[],
     maxTokens: number
   ): Promise<SummarizedSegment> {
@@ -206,6 +214,11 @@ export class HistorySummarizer {
   formatForContext(summarized: SummarizedHistory): string {
     let formatted = '';
 
+    // Add persisted memory of the oldest exchanges
+    if (summarized.memory) {
+      formatted += this.formatMemory(summarized.memory) + '\n';
+    }
+
     // Add archived message indicator
     if (summarized.archivedCount > 0) {
       formatted += `[${summarized.archivedCount} earlier messages archived]\n\n`;
@@ -228,6 +241,34 @@ export class HistorySummarizer {
     return formatted;
   }
 
+  /**
+   * Format a conversation memory as a context block
+   */
+  formatMemory(memory: ConversationMemory): string {
+    const facts = memory.facts as string[];
+    const decisions = memory.decisions as string[];
+
+    let formatted = `[Conversation memory - ${memory.coveredMessageCount} earlier messages]\n`;
+    if (memory.summary) {
+      formatted += `${memory.summary}\n`;
+    }
+    if (facts.length > 0) {
+      formatted += `Established facts:\n${facts.map(fact => `- ${fact}`).join('\n')}\n`;
+    }
+    if (decisions.length > 0) {
+      formatted += `Decisions made:\n${decisions.map(decision => `- ${decision}`).join('\n')}\n`;
+    }
+
+    return formatted;
+  }
+
+  /**
+   * Number of most recent messages always kept verbatim
+   */
+  getRecentWindowSize(): number {
+    return this.RECENT_EXCHANGES * this.MESSAGES_PER_EXCHANGE;
+  }
+
   /**
    * Check if conversation needs summarization
    */
@@ -243,6 +284,7 @@ export class HistorySummarizer {
       totalMessages: summarized.totalMessages,
       recentMessages: summarized.recentMessages.length,
       summarizedMessages: summarized.middleSummary?.messageCount || 0,
+      rememberedMessages: summarized.memory?.coveredMessageCount || 0,
       archivedMessages: summarized.archivedCount,
       compressionRatio:
         summarized.totalMessages > 0
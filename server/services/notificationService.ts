@@ -5,9 +5,11 @@ import {
   actionPlans, 
   planTasks,
   planPhases,
+  notifications,
+  type Notification,
   type User,
 } from '@shared/schema';
-import { eq, and, lt, gte, sql } from 'drizzle-orm';
+import { eq, and, lt, gte, sql, isNotNull, isNull, desc } from 'drizzle-orm';
 
 /**
  * Notification Service
@@ -25,13 +27,15 @@ export type NotificationType =
   | 'task_reminder'
   | 'phase_completed'
   | 'plan_completed'
-  | 'task_overdue';
+  | 'task_overdue'
+  | 'ai_budget_alert';
 
 /**
  * Notification preferences for action plans
  */
 export interface ActionPlanNotificationPreferences {
   taskReminders: boolean;
+  taskOverdue: boolean;
   taskAssignments: boolean;
   taskCompletions: boolean;
   phaseCompletions: boolean;
@@ -45,7 +49,7 @@ export interface ActionPlanNotificationPreferences {
  * In-app notification structure
  */
 export interface InAppNotification {
-  id: string;
+  id: number;
   userId: number;
   type: NotificationType;
   title: string;
@@ -59,7 +63,8 @@ export interface InAppNotification {
     [key: string]: any;
   };
   read: boolean;
-  createdAt: Date;
+  readAt: string | null;
+  createdAt: string;
   actionUrl?: string;
 }
 
@@ -82,6 +87,7 @@ export interface EmailNotification {
  */
 const DEFAULT_NOTIFICATION_PREFERENCES: ActionPlanNotificationPreferences = {
   taskReminders: true,
+  taskOverdue: true,
   taskAssignments: true,
   taskCompletions: true,
   phaseCompletions: true,
@@ -91,6 +97,24 @@ const DEFAULT_NOTIFICATION_PREFERENCES: ActionPlanNotificationPreferences = {
   inAppEnabled: true,
 };
 
+/**
+ * Shape a stored notification for the inbox
+ */
+function toInAppNotification(row: Notification): InAppNotification {
+  return {
+    id: row.id,
+    userId: row.userId,
+    type: row.type as NotificationType,
+    title: row.title,
+    message: row.message,
+    metadata: row.metadata as InAppNotification['metadata'],
+    read: row.readAt !== null,
+    readAt: row.readAt,
+    createdAt: row.createdAt,
+    ...(row.actionUrl ? { actionUrl: row.actionUrl } : {}),
+  };
+}
+
 /**
  * Notification Service Class
  */
@@ -116,6 +140,7 @@ export class NotificationService {
       return {
         ...DEFAULT_NOTIFICATION_PREFERENCES,
         taskReminders: notifPrefs.taskReminders ?? DEFAULT_NOTIFICATION_PREFERENCES.taskReminders,
+        taskOverdue: notifPrefs.taskOverdue ?? DEFAULT_NOTIFICATION_PREFERENCES.taskOverdue,
         taskAssignments: notifPrefs.taskAssignments ?? DEFAULT_NOTIFICATION_PREFERENCES.taskAssignments,
         taskCompletions: notifPrefs.taskCompletions ?? DEFAULT_NOTIFICATION_PREFERENCES.taskCompletions,
         phaseCompletions: notifPrefs.phaseCompletions ?? DEFAULT_NOTIFICATION_PREFERENCES.phaseCompletions,
@@ -440,6 +465,97 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send task overdue notification
+   * Goes to the assignee, or the plan owner when the task is unassigned
+   */
+  async notifyTaskOverdue(
+    taskId: number,
+    userId: number
+  ): Promise<void> {
+    try {
+      const prefs = await this.getUserNotificationPreferences(userId);
+      
+      if (!prefs.taskOverdue) {
+        return; // User has disabled overdue notifications
+      }
+
+      // Get task details
+      const [task] = await db
+        .select()
+        .from(planTasks)
+        .where(eq(planTasks.id, taskId))
+        .limit(1);
+
+      // The task may have been deleted or lost its due date since the overdue scan
+      if (!task || !task.dueDate) {
+        return;
+      }
+
+      // Get plan details
+      const [plan] = await db
+        .select()
+        .from(actionPlans)
+        .where(eq(actionPlans.id, task.planId))
+        .limit(1);
+
+      if (!plan) {
+        return;
+      }
+
+      // Get user details
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      if (!user) {
+        return; // Neither the assignee nor the plan owner can be notified
+      }
+
+      const daysOverdue = Math.max(1, Math.floor(
+        (Date.now() - new Date(task.dueDate).getTime()) / (1000 * 60 * 60 * 24)
+      ));
+
+      // Send in-app notification
+      if (prefs.inAppEnabled) {
+        await this.createInAppNotification({
+          userId,
+          type: 'task_overdue',
+          title: 'Task Overdue',
+          message: `"${task.title}" in ${plan.title} is ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''} overdue`,
+          metadata: {
+            planId: plan.id,
+            taskId: task.id,
+            dueDate: task.dueDate,
+            daysOverdue,
+          },
+          actionUrl: `/plans/${plan.id}`,
+        });
+      }
+
+      // Send email notification
+      if (prefs.emailEnabled) {
+        await this.sendTaskOverdueEmail({
+          to: user.email,
+          userName: user.name || 'there',
+          taskTitle: task.title,
+          taskDescription: task.description || '',
+          planTitle: plan.title,
+          planId: plan.id,
+          taskId: task.id,
+          daysOverdue,
+        });
+      }
+
+      console.log(`Sent task overdue notification to user ${userId}`);
+    } catch (error) {
+      console.error('Error sending task overdue notification:', error);
+      throw error;
+    }
+  }
+
   /**
    * Send phase completion notification
    */
@@ -587,25 +703,203 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send an AI budget alert when monthly spend crosses one of the budget's thresholds
+   * Sent regardless of the action plan preferences, since spend alerts are not optional
+   */
+  async notifyAIBudgetThreshold(
+    userId: number,
+    data: {
+      scope: 'user' | 'team';
+      teamName?: string;
+      threshold: number;
+      spentCents: number;
+      limitCents: number;
+      hardCapAction: 'degrade' | 'block';
+    }
+  ): Promise<void> {
+    try {
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const budgetName = data.scope === 'team' ? `${data.teamName || 'Your team'}'s AI budget` : 'Your AI budget';
+      const spent = `$${(data.spentCents / 100).toFixed(2)}`;
+      const limit = `$${(data.limitCents / 100).toFixed(2)}`;
+      const consequence = data.hardCapAction === 'block'
+        ? 'AI features will pause once the limit is reached.'
+        : 'Answers will switch to a faster, lower-cost model once the limit is reached.';
+
+      await this.createInAppNotification({
+        userId,
+        type: 'ai_budget_alert',
+        title: data.threshold >= 100 ? 'AI Budget Reached' : `AI Budget ${data.threshold}% Used`,
+        message: `${budgetName} has used ${spent} of ${limit} this month. ${consequence}`,
+        metadata: {
+          scope: data.scope,
+          threshold: data.threshold,
+          spentCents: data.spentCents,
+          limitCents: data.limitCents,
+        },
+        actionUrl: '/settings',
+      });
+
+      await this.sendAIBudgetAlertEmail({
+        to: user.email,
+        userName: user.name || 'there',
+        budgetName,
+        threshold: data.threshold,
+        spent,
+        limit,
+        consequence,
+        userId,
+      });
+
+      console.log(`Sent AI budget alert (${data.threshold}%) to user ${userId}`);
+    } catch (error) {
+      console.error('Error sending AI budget alert:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's notifications, newest first
+   * Pass the last ID of a page as `before` to get the next page
+   */
+  async listNotifications(
+    userId: number,
+    options: { limit?: number; before?: number; unreadOnly?: boolean } = {}
+  ): Promise<{ notifications: InAppNotification[]; unreadCount: number; hasMore: boolean }> {
+    const { limit = 20, before, unreadOnly = false } = options;
+
+    const conditions = [eq(notifications.userId, userId)];
+    if (before) {
+      conditions.push(lt(notifications.id, before));
+    }
+    if (unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    // Fetch one extra row to know whether there is another page
+    const rows = await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id))
+      .limit(limit + 1);
+
+    return {
+      notifications: rows.slice(0, limit).map(toInAppNotification),
+      unreadCount: await this.getUnreadCount(userId),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async getUnreadCount(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+
+    return Number(result?.count ?? 0);
+  }
+
+  /**
+   * Mark one of a user's notifications as read
+   * Returns null if the notification does not exist or belongs to someone else
+   */
+  async markAsRead(userId: number, notificationId: number): Promise<InAppNotification | null> {
+    const [existing] = await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .limit(1);
+
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.readAt) {
+      return toInAppNotification(existing);
+    }
+
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: sql`NOW()` })
+      .where(eq(notifications.id, notificationId))
+      .returning();
+
+    await this.pushUnreadCount(userId);
+    return toInAppNotification(updated);
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   * Returns how many were unread
+   */
+  async markAllAsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: sql`NOW()` })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+
+    if (updated.length > 0) {
+      await this.pushUnreadCount(userId);
+    }
+    return updated.length;
+  }
+
+  /**
+   * Delete one of a user's notifications
+   * Returns false if the notification does not exist or belongs to someone else
+   */
+  async deleteNotification(userId: number, notificationId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(notifications)
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .returning({ readAt: notifications.readAt });
+
+    if (deleted.length === 0) {
+      return false;
+    }
+
+    if (!deleted[0].readAt) {
+      await this.pushUnreadCount(userId);
+    }
+    return true;
+  }
+
   /**
    * Create in-app notification
-   * Stores notification in memory/database for display in UI
+   * Stores it in the user's inbox and pushes it to their open connections
    */
   private async createInAppNotification(
-    notification: Omit<InAppNotification, 'id' | 'read' | 'createdAt'>
+    notification: Omit<InAppNotification, 'id' | 'read' | 'readAt' | 'createdAt'>
   ): Promise<InAppNotification> {
-    // Generate unique ID
-    const id = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const inAppNotif: InAppNotification = {
-      id,
-      ...notification,
-      read: false,
-      createdAt: new Date(),
-    };
+    const [row] = await db
+      .insert(notifications)
+      .values({
+        userId: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        metadata: notification.metadata,
+        actionUrl: notification.actionUrl ?? null,
+      })
+      .returning();
+
+    const inAppNotif = toInAppNotification(row);
 
-    // TODO: Store in database or cache (Redis)
-    // For now, just log it
     console.log(`📬 In-app notification created:`, {
       id: inAppNotif.id,
       userId: inAppNotif.userId,
@@ -613,9 +907,37 @@ export class NotificationService {
       title: inAppNotif.title,
     });
 
+    // The notification is stored either way; a failed push is picked up on the next inbox fetch
+    try {
+      const { planWebSocketService } = await import('./planWebSocketService');
+      if (planWebSocketService.getUserConnectionCount(inAppNotif.userId) > 0) {
+        planWebSocketService.sendNotification(
+          inAppNotif.userId,
+          inAppNotif,
+          await this.getUnreadCount(inAppNotif.userId)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to push in-app notification:', error);
+    }
+
     return inAppNotif;
   }
 
+  /**
+   * Send a user's open connections their new unread count, so other tabs stay in sync
+   */
+  private async pushUnreadCount(userId: number): Promise<void> {
+    try {
+      const { planWebSocketService } = await import('./planWebSocketService');
+      if (planWebSocketService.getUserConnectionCount(userId) > 0) {
+        planWebSocketService.sendNotificationsUpdated(userId, await this.getUnreadCount(userId));
+      }
+    } catch (error) {
+      console.error('Failed to push notification read state:', error);
+    }
+  }
+
   /**
    * Email template: Task Assignment
    */
@@ -807,6 +1129,70 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Email template: Task Overdue
+   */
+  private async sendTaskOverdueEmail(data: {
+    to: string;
+    userName: string;
+    taskTitle: string;
+    taskDescription: string;
+    planTitle: string;
+    planId: number;
+    taskId: number;
+    daysOverdue: number;
+  }): Promise<void> {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0;">
+  <title>Task Overdue - Unbuilt</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background: linear-gradient(135deg, #ef4444 0%, #b91c1c 100%); padding: 40px 30px; text-align: center;">
+      <h1 style="margin: 0; color: #ffffff; font-size: 28px;">Task Overdue ⚠️</h1>
+    </div>
+    <div style="padding: 30px;">
+      <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px;">Hi ${data.userName},</p>
+      <p style="margin: 0 0 30px 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+        A task in your action plan "${data.planTitle}" is ${data.daysOverdue} day${data.daysOverdue !== 1 ? 's' : ''} past its due date.
+      </p>
+      <div style="background: #fef2f2; border-left: 4px solid #ef4444; padding: 20px; margin: 15px 0; border-radius: 4px;">
+        <h3 style="margin: 0 0 10px 0; color: #1f2937; font-size: 18px;">${data.taskTitle}</h3>
+        <p style="margin: 0; color: #6b7280; font-size: 14px;">${data.taskDescription || 'No description provided.'}</p>
+      </div>
+      <div style="margin-top: 30px; text-align: center;">
+        <a href="https://unbuilt.one/plans/${data.planId}" style="display: inline-block; background: #ef4444; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 14px;">
+          Review Task
+        </a>
+      </div>
+    </div>
+    <div style="padding: 30px; background: #f9fafb; border-top: 1px solid #e5e7eb;">
+      <p style="margin: 0; color: #6b7280; font-size: 12px; text-align: center;">
+        <a href="https://unbuilt.one/settings" style="color: #7c3aed; text-decoration: none;">Manage notification preferences</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await this.sendEmail({
+      to: data.to,
+      subject: `Overdue: ${data.taskTitle}`,
+      html,
+      metadata: {
+        type: 'task_overdue',
+        userId: 0,
+        planId: data.planId,
+        taskId: data.taskId,
+      },
+    });
+  }
+
   /**
    * Email template: Phase Completion
    */
@@ -930,6 +1316,60 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Email template: AI Budget Alert
+   */
+  private async sendAIBudgetAlertEmail(data: {
+    to: string;
+    userName: string;
+    budgetName: string;
+    threshold: number;
+    spent: string;
+    limit: string;
+    consequence: string;
+    userId: number;
+  }): Promise<void> {
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>AI Budget Alert - Unbuilt</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6;">
+  <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+    <div style="background: linear-gradient(135deg, #7c3aed 0%, #ec4899 100%); padding: 40px 30px; text-align: center;">
+      <h1 style="margin: 0; color: #ffffff; font-size: 28px;">AI Budget ${data.threshold}% Used</h1>
+    </div>
+    <div style="padding: 30px;">
+      <p style="margin: 0 0 20px 0; color: #1f2937; font-size: 16px;">Hi ${data.userName},</p>
+      <p style="margin: 0 0 30px 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+        ${data.budgetName} has used ${data.spent} of its ${data.limit} monthly limit. ${data.consequence}
+      </p>
+    </div>
+    <div style="padding: 30px; background: #f9fafb; border-top: 1px solid #e5e7eb;">
+      <p style="margin: 0; color: #6b7280; font-size: 12px; text-align: center;">
+        Budgets reset at the start of each month.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    await this.sendEmail({
+      to: data.to,
+      subject: `AI Budget Alert: ${data.threshold}% used`,
+      html,
+      metadata: {
+        type: 'ai_budget_alert',
+        userId: data.userId,
+        threshold: data.threshold,
+      },
+    });
+  }
+
   /**
    * Send email (placeholder - integrate with email service)
    */
@@ -1035,6 +1475,119 @@ export class NotificationService {
       return { sent: 0, failed: 0, total: 0 };
     }
   }
+
+  /**
+   * Get open tasks in active plans whose due date has passed
+   * Each task goes to its assignee, or the plan owner when unassigned
+   */
+  async getOverdueTasks(): Promise<Array<{
+    userId: number;
+    taskId: number;
+    overdueNotifiedAt: string | null;
+  }>> {
+    try {
+      const tasks = await db
+        .select({
+          taskId: planTasks.id,
+          assigneeId: planTasks.assigneeId,
+          ownerId: actionPlans.userId,
+          overdueNotifiedAt: planTasks.overdueNotifiedAt,
+        })
+        .from(planTasks)
+        .innerJoin(actionPlans, eq(planTasks.planId, actionPlans.id))
+        .where(
+          and(
+            sql`${planTasks.status} IN ('not_started', 'in_progress')`,
+            eq(actionPlans.status, 'active'),
+            isNotNull(planTasks.dueDate),
+            lt(planTasks.dueDate, new Date().toISOString())
+          )
+        );
+
+      return tasks.map(task => ({
+        userId: task.assigneeId ?? task.ownerId,
+        taskId: task.taskId,
+        overdueNotifiedAt: task.overdueNotifiedAt,
+      }));
+    } catch (error) {
+      console.error('Error getting overdue tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Send task_overdue notifications
+   * The first one goes out as soon as a task is overdue; repeats follow the
+   * recipient's reminder frequency, and 'never' means no repeats
+   */
+  async processOverdueTasks(): Promise<{
+    sent: number;
+    skipped: number;
+    failed: number;
+    total: number;
+  }> {
+    try {
+      console.log('⏰ Processing overdue task notifications...');
+
+      const overdueTasks = await this.getOverdueTasks();
+
+      if (overdueTasks.length === 0) {
+        console.log('No overdue tasks to notify');
+        return { sent: 0, skipped: 0, failed: 0, total: 0 };
+      }
+
+      let sent = 0;
+      let skipped = 0;
+      let failed = 0;
+
+      for (const overdue of overdueTasks) {
+        try {
+          const prefs = await this.getUserNotificationPreferences(overdue.userId);
+
+          if (!prefs.taskOverdue || !isOverdueNotificationDue(overdue.overdueNotifiedAt, prefs.reminderFrequency)) {
+            skipped++;
+            continue;
+          }
+
+          await this.notifyTaskOverdue(overdue.taskId, overdue.userId);
+          await db
+            .update(planTasks)
+            .set({ overdueNotifiedAt: new Date().toISOString() })
+            .where(eq(planTasks.id, overdue.taskId));
+          sent++;
+        } catch (error) {
+          console.error(`Failed to send overdue notification for task ${overdue.taskId}:`, error);
+          failed++;
+        }
+      }
+
+      console.log(`✅ Sent ${sent} overdue notifications, ${skipped} skipped, ${failed} failed`);
+
+      return { sent, skipped, failed, total: overdueTasks.length };
+    } catch (error) {
+      console.error('Error processing overdue tasks:', error);
+      return { sent: 0, skipped: 0, failed: 0, total: 0 };
+    }
+  }
+}
+
+/**
+ * Whether an overdue task should be notified again, given when it last was
+ */
+export function isOverdueNotificationDue(
+  lastNotifiedAt: string | null,
+  frequency: ActionPlanNotificationPreferences['reminderFrequency'],
+  now: Date = new Date()
+): boolean {
+  if (!lastNotifiedAt) {
+    return true;
+  }
+  if (frequency === 'never') {
+    return false;
+  }
+
+  const intervalDays = frequency === 'daily' ? 1 : 7;
+  return now.getTime() - new Date(lastNotifiedAt).getTime() >= intervalDays * 24 * 60 * 60 * 1000;
 }
 
 // Export singleton instance
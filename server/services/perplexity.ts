@@ -3,6 +3,11 @@ import axios from 'axios';
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 const PERPLEXITY_API_URL = 'https://api.perplexity.ai/chat/completions';
 
+/**
+ * Model market gaps are requested from
+ */
+export const PERPLEXITY_GAP_MODEL = 'sonar-pro'; // Updated from deprecated llama-3.1-sonar-large-128k-online
+
 interface PerplexityResponse {
   id: string;
   model: string;
@@ -26,29 +31,21 @@ interface PerplexityResponse {
   }>;
 }
 
-export interface MarketGap {
-  title: string;
-  description: string;
-  category: string;
-  feasibility: 'high' | 'medium' | 'low';
-  marketPotential: 'high' | 'medium' | 'low';
-  innovationScore: number;
-  marketSize: string;
-  gapReason: string;
-  competitors?: string[];
-  targetAudience?: string;
-  keyTrends?: string[];
+export function isPerplexityConfigured(): boolean {
+  return !!PERPLEXITY_API_KEY;
 }
 
-export async function discoverMarketGaps(query: string): Promise<MarketGap[]> {
-  console.log(`🔍 discoverMarketGaps called with query: "${query}"`);
-  console.log(`🔑 PERPLEXITY_API_KEY configured: ${!!PERPLEXITY_API_KEY}`);
-  
+/**
+ * Call Perplexity for market gaps and return the raw model content.
+ * Parsing and validation are left to the caller.
+ * Throws when the API is not configured, fails, or returns no content.
+ */
+export async function requestMarketGapContent(
+  query: string,
+  options: { signal?: AbortSignal; repairHint?: string } = {}
+): Promise<string> {
   if (!PERPLEXITY_API_KEY) {
-    console.warn('⚠️ Perplexity API key not configured - using fallback data');
-    const fallbackData = getFallbackGaps(query);
-    console.log(`📦 Returning ${fallbackData.length} fallback gaps`);
-    return fallbackData;
+    throw new Error('Perplexity API key not configured');
   }
 
   const prompt = `You are a market research expert analyzing untapped opportunities and market gaps. Analyze the following query and identify 5-8 specific market gaps or unbuilt opportunities.
@@ -58,7 +55,7 @@ Query: "${query}"
 For each gap, provide:
 1. Title: A specific, actionable product/service name
 2. Description: Detailed explanation of what this would be and how it works
-3. Category: One of "Tech That's Missing", "Services That Don't Exist", "Products Nobody's Made", or "Business Models"
+3. Category: One of "market", "technology", "ux", or "business_model"
 4. Feasibility: Rate as "high", "medium", or "low" based on current technology and resources
 5. Market Potential: Rate as "high", "medium", or "low" based on demand and market size
 6. Innovation Score: Rate from 1-10 (10 being most innovative)
@@ -66,6 +63,9 @@ For each gap, provide:
 8. Gap Reason: Why doesn't this exist yet?
 9. Target Audience: Who would use this?
 10. Key Trends: What current trends support this opportunity?
+11. Confidence Score: 0-100 based on how well the gap is supported by current market data
+12. Competitor Analysis: Existing solutions and why they fall short
+13. Industry Context: Relevant industry trends and regulations
 
 Focus on REAL gaps that don't exist yet but should. Be specific and actionable. Use current market data and trends.
 
@@ -81,16 +81,19 @@ Return ONLY a JSON array with the gaps, no additional text. Format:
     "marketSize": "...",
     "gapReason": "...",
     "targetAudience": "...",
-    "keyTrends": ["...", "..."]
+    "keyTrends": ["...", "..."],
+    "confidenceScore": 70,
+    "competitorAnalysis": "...",
+    "industryContext": "..."
   }
-]`;
+]${options.repairHint ? `\n\nYour previous answer was rejected: ${options.repairHint}. Return corrected JSON only.` : ''}`;
 
   try {
     console.log(`📡 Calling Perplexity API...`);
     const response = await axios.post<PerplexityResponse>(
       PERPLEXITY_API_URL,
       {
-        model: 'sonar-pro', // Updated from deprecated llama-3.1-sonar-large-128k-online
+        model: PERPLEXITY_GAP_MODEL,
         messages: [
           {
             role: 'system',
@@ -112,7 +115,8 @@ Return ONLY a JSON array with the gaps, no additional text. Format:
         headers: {
           'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
           'Content-Type': 'application/json'
-        }
+        },
+        signal: options.signal
       }
     );
 
@@ -123,165 +127,13 @@ Return ONLY a JSON array with the gaps, no additional text. Format:
       throw new Error('No content in Perplexity response');
     }
     console.log(`📝 Perplexity content length: ${content.length} characters`);
-
-    // Parse the JSON response
-    try {
-      // Clean the response - remove markdown code blocks if present
-      const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      console.log(`🧹 Cleaned content (first 200 chars): ${cleanContent.substring(0, 200)}...`);
-      const gaps = JSON.parse(cleanContent);
-      console.log(`✅ Parsed ${gaps.length} gaps from Perplexity response`);
-      
-      // Validate and clean the data
-      const cleanedGaps = gaps.map((gap: any) => ({
-        title: gap.title ?? 'Untitled Opportunity',
-        description: gap.description ?? 'No description available',
-        category: gap.category ?? 'Tech That\'s Missing',
-        feasibility: gap.feasibility ?? 'medium',
-        marketPotential: gap.marketPotential ?? 'medium',
-        innovationScore: Math.min(10, Math.max(1, gap.innovationScore ?? 5)),
-        marketSize: gap.marketSize ?? 'TBD',
-        gapReason: gap.gapReason ?? 'Market analysis pending',
-        targetAudience: gap.targetAudience,
-        keyTrends: gap.keyTrends ?? []
-      }));
-      console.log(`✅ Returning ${cleanedGaps.length} cleaned gaps from Perplexity`);
-      return cleanedGaps;
-    } catch (parseError) {
-      console.error('❌ Error parsing Perplexity response:', parseError);
-      console.error('Raw content:', content);
-      const fallbackData = getFallbackGaps(query);
-      console.log(`📦 Returning ${fallbackData.length} fallback gaps after parse error`);
-      return fallbackData;
-    }
+    return content;
   } catch (error) {
     console.error('❌ Perplexity API error:', error);
     if (axios.isAxiosError(error)) {
       console.error('Response status:', error.response?.status);
       console.error('Response data:', error.response?.data);
     }
-    const fallbackData = getFallbackGaps(query);
-    console.log(`📦 Returning ${fallbackData.length} fallback gaps after API error`);
-    return fallbackData;
+    throw error;
   }
 }
-
-/**
- * Generate fallback market gaps when Perplexity API is unavailable
- * 
- * This function provides intelligent fallback data when the Perplexity API fails or
- * is not configured. It uses simple keyword matching to provide contextually relevant
- * market gaps based on the user's query.
- * 
- * Strategy:
- * 1. Parse the query for domain-specific keywords (health, education, etc.)
- * 2. Return domain-specific gaps if keywords match
- * 3. Add general gaps to ensure we always return useful data
- * 4. Maintain consistent data structure with API responses
- * 
- * This ensures the application remains functional even without the external API,
- * providing a degraded but usable experience.
- */
-function getFallbackGaps(query: string): MarketGap[] {
-  // Convert query to lowercase for case-insensitive matching
-  const queryLower = query.toLowerCase();
-  
-  // Start with empty array, will be populated based on query keywords
-  let gaps: MarketGap[] = [];
-  
-  // Domain-specific gap: Healthcare/Medical
-  // Triggered by keywords like "health", "medical", "healthcare", etc.
-  if (queryLower.includes('health') || queryLower.includes('medical')) {
-    gaps.push({
-      title: "AI Health Companion for Chronic Conditions",
-      description: "24/7 AI-powered health monitoring and support system that tracks symptoms, medication adherence, and provides personalized health insights for chronic disease patients.",
-      category: "Tech That's Missing",
-      feasibility: "high",
-      marketPotential: "high",
-      innovationScore: 8,
-      marketSize: "$4.2B",
-      gapReason: "Privacy concerns and regulatory approval complexities",
-      targetAudience: "Chronic disease patients and their caregivers",
-      keyTrends: ["Aging population", "AI in healthcare", "Remote patient monitoring"]
-    });
-  }
-  
-  // Domain-specific gap: Education/Learning
-  // Triggered by keywords like "education", "learning", "training", etc.
-  if (queryLower.includes('education') || queryLower.includes('learning')) {
-    gaps.push({
-      title: "Personalized Skill Gap Analyzer",
-      description: "AI platform that analyzes your current skills, career goals, and market demand to create personalized learning paths with real-time job market alignment.",
-      category: "Services That Don't Exist",
-      feasibility: "high",
-      marketPotential: "high",
-      innovationScore: 7,
-      marketSize: "$2.8B",
-      gapReason: "Fragmented data sources and lack of industry standardization",
-      targetAudience: "Career changers and continuous learners",
-      keyTrends: ["Skills-based hiring", "Lifelong learning", "Career pivoting"]
-    });
-  }
-  
-  // If no domain-specific gaps matched, provide general baseline gaps
-  // This ensures we always return something useful
-  if (gaps.length === 0) {
-    gaps = [
-      {
-        title: "Neighborhood Resource Sharing Platform",
-        description: "Hyper-local platform where neighbors can share tools, equipment, and skills within walking distance, reducing consumption and building community.",
-        category: "Business Models",
-        feasibility: "high",
-        marketPotential: "medium",
-        innovationScore: 6,
-        marketSize: "$890M",
-        gapReason: "Trust and liability concerns in peer-to-peer sharing",
-        targetAudience: "Suburban homeowners and urban communities",
-        keyTrends: ["Sharing economy", "Sustainability", "Community building"]
-      },
-      {
-        title: "AI-Powered Local Business Discovery",
-        description: "Platform that uses AI to match consumers with local businesses based on specific needs, preferences, and real-time availability.",
-        category: "Tech That's Missing",
-        feasibility: "high",
-        marketPotential: "high",
-        innovationScore: 7,
-        marketSize: "$3.1B",
-        gapReason: "Fragmented local business data and integration challenges",
-        targetAudience: "Local shoppers and small businesses",
-        keyTrends: ["Shop local movement", "AI personalization", "Real-time commerce"]
-      }
-    ];
-  }
-  
-  // Always append additional general opportunities to provide variety
-  // This gives users 4-6 total gaps regardless of query specificity
-  gaps.push(
-    {
-      title: "Carbon Footprint Trading for Individuals",
-      description: "Personal carbon credit marketplace where individuals can trade, offset, and monetize their carbon-saving actions.",
-      category: "Business Models",
-      feasibility: "medium",
-      marketPotential: "high",
-      innovationScore: 8,
-      marketSize: "$5.2B",
-      gapReason: "Lack of standardized personal carbon tracking methods",
-      targetAudience: "Environmentally conscious consumers",
-      keyTrends: ["Climate action", "Carbon markets", "Personal sustainability"]
-    },
-    {
-      title: "Virtual Reality Workspace Designer",
-      description: "VR platform that lets remote teams design and customize shared virtual offices with spatial audio and presence.",
-      category: "Products Nobody's Made",
-      feasibility: "medium",
-      marketPotential: "high",
-      innovationScore: 9,
-      marketSize: "$2.7B",
-      gapReason: "VR hardware adoption and bandwidth requirements",
-      targetAudience: "Remote teams and distributed companies",
-      keyTrends: ["Remote work", "Virtual collaboration", "Metaverse"]
-    }
-  );
-  
-  return gaps;
-}
\ No newline at end of file
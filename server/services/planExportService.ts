@@ -1,20 +1,43 @@
-import type { ActionPlan, PlanPhase, PlanTask } from '@shared/schema';
+import type { ActionPlan, PlanPhase, PlanSchedule, PlanTask } from '@shared/schema';
 
 /**
  * Plan Export Service
- * Handles exporting action plans to various formats (CSV, JSON, Markdown)
+ * Handles exporting action plans to various formats (CSV, JSON, Markdown,
+ * iCalendar and MS Project XML)
  * 
  * Requirements: 7.1, 7.2, 7.5, 7.7
  */
 
-export type ExportFormat = 'csv' | 'json' | 'markdown';
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'ics' | 'msproject';
 
 export interface ExportOptions {
   format: ExportFormat;
   includeCompleted?: boolean; // Include completed tasks (default: true)
   includeSkipped?: boolean; // Include skipped tasks (default: true)
+  dependencies?: Map<number, number[]>; // Task ID -> prerequisite task IDs (MS Project links)
+  schedule?: PlanSchedule; // Computed schedule for tasks without explicit dates (MS Project)
 }
 
+/**
+ * Normalize a stored timestamp to ISO 8601
+ * Timestamps without a zone are stored as UTC
+ */
+export function toIsoTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalized = /(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value) || !value.includes(':')
+    ? value
+    : `${value.replace(' ', 'T')}Z`;
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const ICS_TODO_STATUS: Record<string, string> = {
+  not_started: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  skipped: 'CANCELLED',
+};
+
 export interface ExportJob {
   id: string;
   planId: number;
@@ -51,6 +74,10 @@ export class PlanExportService {
         return this.exportToJSON(plan, phases, options);
       case 'markdown':
         return this.exportToMarkdown(plan, phases, options);
+      case 'ics':
+        return this.exportToICS(plan, phases, options);
+      case 'msproject':
+        return this.exportToMSProject(plan, phases, options);
       default:
         throw new Error(`Unsupported export format: ${options.format}`);
     }
@@ -82,7 +109,10 @@ export class PlanExportService {
       'Assignee ID',
       'Completed At',
       'Completed By',
-      'Is Custom'
+      'Is Custom',
+      'Task ID',
+      'Start Date',
+      'Due Date'
     ]);
 
     // Data rows
@@ -108,7 +138,10 @@ export class PlanExportService {
           task.assigneeId?.toString() || '',
           task.completedAt || '',
           task.completedBy?.toString() || '',
-          task.isCustom ? 'Yes' : 'No'
+          task.isCustom ? 'Yes' : 'No',
+          task.id.toString(),
+          toIsoTimestamp(task.startDate) || '',
+          toIsoTimestamp(task.dueDate) || ''
         ]);
       }
     }
@@ -190,6 +223,8 @@ export class PlanExportService {
         order: phase.order,
         estimatedDuration: phase.estimatedDuration,
         isCustom: phase.isCustom,
+        startDate: toIsoTimestamp(phase.startDate),
+        dueDate: toIsoTimestamp(phase.dueDate),
         tasks: phase.tasks.map(task => ({
           id: task.id,
           title: task.title,
@@ -200,6 +235,8 @@ export class PlanExportService {
           resources: task.resources,
           isCustom: task.isCustom,
           assigneeId: task.assigneeId,
+          startDate: toIsoTimestamp(task.startDate),
+          dueDate: toIsoTimestamp(task.dueDate),
           completedAt: task.completedAt,
           completedBy: task.completedBy,
           createdAt: task.createdAt,
@@ -330,6 +367,275 @@ export class PlanExportService {
     return Buffer.from(markdown, 'utf-8');
   }
 
+  /**
+   * Export to iCalendar format
+   * Tasks with both a start and a due date become VEVENTs spanning that window;
+   * tasks with only one of them become VTODOs. Undated tasks are left out.
+   */
+  private async exportToICS(
+    plan: ActionPlan,
+    phases: Array<PlanPhase & { tasks: PlanTask[] }>,
+    options: ExportOptions
+  ): Promise<Buffer> {
+    const stamp = this.formatICSDate(new Date().toISOString());
+    const lines: string[] = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Unbuilt//Action Plans//EN',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${this.escapeICSText(plan.title)}`,
+    ];
+
+    for (const phase of phases) {
+      for (const task of phase.tasks) {
+        if (!this.includeTask(task, options)) {
+          continue;
+        }
+
+        const start = toIsoTimestamp(task.startDate);
+        const due = toIsoTimestamp(task.dueDate);
+        if (!start && !due) {
+          continue;
+        }
+
+        const component = start && due ? 'VEVENT' : 'VTODO';
+        lines.push(`BEGIN:${component}`);
+        lines.push(`UID:plan-${plan.id}-task-${task.id}@unbuilt`);
+        lines.push(`DTSTAMP:${stamp}`);
+        if (start) {
+          lines.push(`DTSTART:${this.formatICSDate(start)}`);
+        }
+
+        if (component === 'VEVENT') {
+          lines.push(`DTEND:${this.formatICSDate(due!)}`);
+          lines.push(`STATUS:${task.status === 'skipped' ? 'CANCELLED' : 'CONFIRMED'}`);
+        } else {
+          if (due) {
+            lines.push(`DUE:${this.formatICSDate(due)}`);
+          }
+          lines.push(`STATUS:${ICS_TODO_STATUS[task.status] ?? 'NEEDS-ACTION'}`);
+          const completedAt = toIsoTimestamp(task.completedAt);
+          if (task.status === 'completed' && completedAt) {
+            lines.push(`COMPLETED:${this.formatICSDate(completedAt)}`);
+          }
+        }
+
+        lines.push(`SUMMARY:${this.escapeICSText(task.title)}`);
+        if (task.description) {
+          lines.push(`DESCRIPTION:${this.escapeICSText(task.description)}`);
+        }
+        lines.push(`CATEGORIES:${this.escapeICSText(phase.name)}`);
+        lines.push(`END:${component}`);
+      }
+    }
+
+    lines.push('END:VCALENDAR');
+
+    // RFC 5545 requires CRLF line endings, including after the last line
+    const icsContent = lines.map(line => this.foldICSLine(line)).join('\r\n') + '\r\n';
+    return Buffer.from(icsContent, 'utf-8');
+  }
+
+  /**
+   * Export to MS Project XML (MSPDI) format
+   * Phases become summary tasks and dependencies become finish-to-start links.
+   * Dates come from the task itself, falling back to the computed schedule.
+   */
+  private async exportToMSProject(
+    plan: ActionPlan,
+    phases: Array<PlanPhase & { tasks: PlanTask[] }>,
+    options: ExportOptions
+  ): Promise<Buffer> {
+    const scheduled = new Map(options.schedule?.tasks.map(t => [t.taskId, t]) ?? []);
+    const fallbackDate = options.schedule?.startDate ?? toIsoTimestamp(plan.createdAt) ?? new Date().toISOString();
+
+    // MS Project needs one UID space across summary and leaf tasks
+    const taskUids = new Map<number, number>();
+    let nextUid = 1;
+    const exported = phases.map(phase => ({
+      phase,
+      uid: nextUid++,
+      tasks: phase.tasks
+        .filter(task => this.includeTask(task, options))
+        .map(task => {
+          const uid = nextUid++;
+          taskUids.set(task.id, uid);
+          return { task, uid };
+        }),
+    }));
+
+    const taskXml: string[] = [];
+    let projectStart: string | null = null;
+    let projectFinish: string | null = null;
+
+    exported.forEach(({ phase, uid, tasks }, phaseIndex) => {
+      const leaves = tasks.map(({ task, uid: taskUid }, taskIndex) => {
+        const schedule = scheduled.get(task.id);
+        const start = toIsoTimestamp(task.startDate) ?? schedule?.startDate ?? fallbackDate;
+        const finish = toIsoTimestamp(task.dueDate) ?? schedule?.finishDate ?? start;
+        const wbs = `${phaseIndex + 1}.${taskIndex + 1}`;
+
+        const links = (options.dependencies?.get(task.id) ?? [])
+          .filter(prerequisiteId => taskUids.has(prerequisiteId))
+          .map(prerequisiteId =>
+            '      <PredecessorLink>' +
+            `<PredecessorUID>${taskUids.get(prerequisiteId)}</PredecessorUID>` +
+            '<Type>1</Type>' +
+            '</PredecessorLink>'
+          );
+
+        return {
+          start,
+          finish,
+          xml: [
+            '    <Task>',
+            `      <UID>${taskUid}</UID>`,
+            `      <ID>${taskUid}</ID>`,
+            `      <Name>${this.escapeXml(task.title)}</Name>`,
+            `      <WBS>${wbs}</WBS>`,
+            `      <OutlineNumber>${wbs}</OutlineNumber>`,
+            '      <OutlineLevel>2</OutlineLevel>',
+            '      <Summary>0</Summary>',
+            `      <Start>${this.formatMSProjectDate(start)}</Start>`,
+            `      <Finish>${this.formatMSProjectDate(finish)}</Finish>`,
+            `      <Duration>${this.formatMSProjectDuration(schedule?.durationHours ?? 0)}</Duration>`,
+            `      <PercentComplete>${task.status === 'completed' ? 100 : 0}</PercentComplete>`,
+            ...(task.description ? [`      <Notes>${this.escapeXml(task.description)}</Notes>`] : []),
+            ...links,
+            '    </Task>',
+          ].join('\n'),
+        };
+      });
+
+      // Summary tasks span their children unless the phase has planned dates
+      const starts = leaves.map(l => l.start).sort();
+      const finishes = leaves.map(l => l.finish).sort();
+      const phaseStart = toIsoTimestamp(phase.startDate) ?? starts[0] ?? fallbackDate;
+      const phaseFinish = toIsoTimestamp(phase.dueDate) ?? finishes[finishes.length - 1] ?? phaseStart;
+
+      if (!projectStart || phaseStart < projectStart) projectStart = phaseStart;
+      if (!projectFinish || phaseFinish > projectFinish) projectFinish = phaseFinish;
+
+      taskXml.push([
+        '    <Task>',
+        `      <UID>${uid}</UID>`,
+        `      <ID>${uid}</ID>`,
+        `      <Name>${this.escapeXml(phase.name)}</Name>`,
+        `      <WBS>${phaseIndex + 1}</WBS>`,
+        `      <OutlineNumber>${phaseIndex + 1}</OutlineNumber>`,
+        '      <OutlineLevel>1</OutlineLevel>',
+        '      <Summary>1</Summary>',
+        `      <Start>${this.formatMSProjectDate(phaseStart)}</Start>`,
+        `      <Finish>${this.formatMSProjectDate(phaseFinish)}</Finish>`,
+        ...(phase.description ? [`      <Notes>${this.escapeXml(phase.description)}</Notes>`] : []),
+        '    </Task>',
+      ].join('\n'));
+      taskXml.push(...leaves.map(l => l.xml));
+    });
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Project xmlns="http://schemas.microsoft.com/project">',
+      '  <SaveVersion>14</SaveVersion>',
+      `  <Name>${this.escapeXml(this.generateFilename(plan, 'msproject'))}</Name>`,
+      `  <Title>${this.escapeXml(plan.title)}</Title>`,
+      `  <StartDate>${this.formatMSProjectDate(projectStart ?? fallbackDate)}</StartDate>`,
+      `  <FinishDate>${this.formatMSProjectDate(projectFinish ?? projectStart ?? fallbackDate)}</FinishDate>`,
+      '  <Tasks>',
+      ...taskXml,
+      '  </Tasks>',
+      '</Project>',
+    ].join('\n');
+
+    return Buffer.from(xml, 'utf-8');
+  }
+
+  /**
+   * Whether a task passes the completed/skipped filters
+   */
+  private includeTask(task: PlanTask, options: ExportOptions): boolean {
+    if (options.includeCompleted === false && task.status === 'completed') {
+      return false;
+    }
+    if (options.includeSkipped === false && task.status === 'skipped') {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * ISO timestamp to iCalendar UTC form (20260302T090000Z)
+   */
+  private formatICSDate(iso: string): string {
+    return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Escape iCalendar TEXT values
+   */
+  private escapeICSText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+   */
+  private foldICSLine(line: string): string {
+    if (Buffer.byteLength(line, 'utf-8') <= 75) {
+      return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+      const charBytes = Buffer.byteLength(char, 'utf-8');
+      // Continuation lines start with a space, which counts toward the limit
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + charBytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += charBytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * ISO timestamp to the zone-less form MS Project expects
+   */
+  private formatMSProjectDate(iso: string): string {
+    return iso.slice(0, 19);
+  }
+
+  /**
+   * Working hours to an XML duration (PT8H30M0S)
+   */
+  private formatMSProjectDuration(hours: number): string {
+    const totalMinutes = Math.round(hours * 60);
+    return `PT${Math.floor(totalMinutes / 60)}H${totalMinutes % 60}M0S`;
+  }
+
+  /**
+   * Escape XML text content
+   */
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
   /**
    * Escape CSV cell content
    * Handles quotes, commas, and newlines
@@ -439,6 +745,10 @@ export class PlanExportService {
         return 'json';
       case 'markdown':
         return 'md';
+      case 'ics':
+        return 'ics';
+      case 'msproject':
+        return 'xml';
       default:
         return 'txt';
     }
@@ -455,6 +765,10 @@ export class PlanExportService {
         return 'application/json';
       case 'markdown':
         return 'text/markdown';
+      case 'ics':
+        return 'text/calendar';
+      case 'msproject':
+        return 'application/xml';
       default:
         return 'text/plain';
     }
@@ -0,0 +1,539 @@
+import { z } from 'zod';
+import { eq, inArray, or } from 'drizzle-orm';
+import { db } from '../db';
+import { planTasks, taskDependencies, taskHistory } from '@shared/schema';
+import type {
+  ImportedTaskCreate,
+  InsertPlanTask,
+  PlanImportDiff,
+  PlanImportResult,
+  PlanPhase,
+  PlanTask,
+  TaskFieldChange,
+} from '@shared/schema';
+import { toIsoTimestamp } from './planExportService';
+import { planService } from './planService';
+import { planVersionService } from './planVersionService';
+import { invalidatePlanCache } from './queryOptimizer';
+
+/**
+ * Plan Import Service
+ * Turns an edited CSV or JSON export back into changes against the plan.
+ * Rows are matched to existing tasks by Task ID; rows without one are new
+ * tasks, and plan tasks missing from the file are deletions. The diff is
+ * previewed first and recomputed from the same file when applied, after
+ * an automatic plan version is saved, in a single transaction.
+ */
+
+export type ImportFormat = 'csv' | 'json';
+
+type TaskStatus = ImportedTaskCreate['status'];
+
+const TASK_STATUSES: TaskStatus[] = ['not_started', 'in_progress', 'completed', 'skipped'];
+
+/**
+ * One task row from an import file
+ * Fields are undefined when the file has no such column, and are then left unchanged
+ */
+export interface ImportedTaskRow {
+  row: number; // 1-based row (CSV line after the header, or task position in JSON)
+  taskId: number | null;
+  phaseName: string;
+  title: string;
+  description?: string;
+  status?: string;
+  estimatedTime?: string;
+  resources?: string[];
+  order?: number;
+  startDate?: string | null;
+  dueDate?: string | null;
+}
+
+export interface DiffOptions {
+  // Statuses the file was exported without; tasks in them are not deleted when missing
+  excludedStatuses?: string[];
+}
+
+const jsonImportSchema = z.object({
+  exportMetadata: z.object({
+    includeCompleted: z.boolean().optional(),
+    includeSkipped: z.boolean().optional(),
+  }).passthrough().optional(),
+  phases: z.array(z.object({
+    name: z.string(),
+    tasks: z.array(z.object({
+      id: z.number().int().positive().nullable().optional(),
+      title: z.string(),
+      description: z.string().nullable().optional(),
+      status: z.string().optional(),
+      estimatedTime: z.string().nullable().optional(),
+      resources: z.array(z.string()).nullable().optional(),
+      order: z.number().int().min(0).optional(),
+      startDate: z.string().nullable().optional(),
+      dueDate: z.string().nullable().optional(),
+    }).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+/**
+ * Parse RFC 4180 CSV into rows of cells
+ * Handles quoted cells with embedded commas, quotes and newlines
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left behind by spreadsheet tools
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no rows
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Parse an import file into task rows
+ * Throws on files that are not a recognizable plan export
+ */
+export function parseImportRows(
+  format: ImportFormat,
+  content: string
+): { rows: ImportedTaskRow[]; options: DiffOptions } {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('Import file is not valid JSON');
+    }
+
+    const parsed = jsonImportSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error('JSON file does not match the plan export structure');
+    }
+
+    const excludedStatuses: string[] = [];
+    if (parsed.data.exportMetadata?.includeCompleted === false) excludedStatuses.push('completed');
+    if (parsed.data.exportMetadata?.includeSkipped === false) excludedStatuses.push('skipped');
+
+    let position = 0;
+    const rows = parsed.data.phases.flatMap(phase =>
+      phase.tasks.map(task => ({
+        row: ++position,
+        taskId: task.id ?? null,
+        phaseName: phase.name,
+        title: task.title,
+        description: task.description === undefined ? undefined : task.description ?? '',
+        status: task.status,
+        estimatedTime: task.estimatedTime === undefined ? undefined : task.estimatedTime ?? '',
+        resources: task.resources === undefined ? undefined : task.resources ?? [],
+        order: task.order,
+        startDate: task.startDate,
+        dueDate: task.dueDate,
+      }))
+    );
+
+    return { rows, options: { excludedStatuses } };
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columns = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  if (!columns.has('phase') || !columns.has('task')) {
+    throw new Error('CSV file must have Phase and Task columns');
+  }
+
+  // Absent columns stay undefined so the matching fields are left alone
+  const read = (line: string[], column: string): string | undefined => {
+    const index = columns.get(column);
+    return index === undefined ? undefined : (line[index] ?? '').trim();
+  };
+  const optionalDate = (value: string | undefined) => value === undefined ? undefined : value || null;
+
+  const rows = lines.map((line, index) => {
+    const taskId = read(line, 'task id');
+    const order = read(line, 'task order');
+    const resources = read(line, 'resources');
+
+    return {
+      row: index + 1,
+      taskId: taskId ? Number(taskId) : null,
+      phaseName: read(line, 'phase') ?? '',
+      title: read(line, 'task') ?? '',
+      description: read(line, 'description'),
+      status: read(line, 'status'),
+      estimatedTime: read(line, 'estimated time'),
+      resources: resources === undefined
+        ? undefined
+        : resources.split(';').map(r => r.trim()).filter(Boolean),
+      order: order ? Number(order) : undefined,
+      startDate: optionalDate(read(line, 'start date')),
+      dueDate: optionalDate(read(line, 'due date')),
+    };
+  });
+
+  return { rows, options: {} };
+}
+
+/**
+ * Normalize an imported date: ISO timestamps pass through, date-only values
+ * become the start of the day (start dates) or its end (due dates)
+ */
+function normalizeImportedDate(value: string, endOfDay: boolean): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return toIsoTimestamp(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+  }
+  return toIsoTimestamp(value);
+}
+
+function sameResources(a: unknown, b: string[]): boolean {
+  const current = Array.isArray(a) ? a : [];
+  return current.length === b.length && current.every((value, index) => value === b[index]);
+}
+
+/**
+ * Compare imported rows against the plan's current phases and tasks
+ * Pure: the same inputs always give the same diff
+ */
+export function diffPlanImport(
+  phases: Array<PlanPhase & { tasks: PlanTask[] }>,
+  rows: ImportedTaskRow[],
+  options: DiffOptions = {}
+): PlanImportDiff {
+  const diff: PlanImportDiff = { created: [], updated: [], deleted: [], unchanged: 0, errors: [] };
+
+  const phasesByName = new Map(phases.map(p => [p.name.trim().toLowerCase(), p]));
+  const tasksById = new Map(
+    phases.flatMap(phase => phase.tasks.map(task => [task.id, { task, phase }] as const))
+  );
+  const seenIds = new Set<number>();
+
+  // Where every task ends up, to catch two tasks sharing an order within a phase
+  const slots: Array<{ row?: number; phaseId: number; order: number; title: string }> = [];
+  const unordered: ImportedTaskCreate[] = [];
+
+  for (const row of rows) {
+    const fail = (message: string) => diff.errors.push({ row: row.row, message });
+
+    const phase = phasesByName.get(row.phaseName.trim().toLowerCase());
+    if (!phase) {
+      fail(`Unknown phase "${row.phaseName}"`);
+      continue;
+    }
+
+    const title = row.title.trim();
+    if (title.length < 3 || title.length > 200) {
+      fail('Task title must be between 3 and 200 characters');
+      continue;
+    }
+
+    if (row.status !== undefined && row.status !== '' && !TASK_STATUSES.includes(row.status as TaskStatus)) {
+      fail(`Invalid status "${row.status}"`);
+      continue;
+    }
+
+    if (row.order !== undefined && (!Number.isInteger(row.order) || row.order < 0)) {
+      fail('Task order must be a non-negative whole number');
+      continue;
+    }
+
+    const startDate = row.startDate ? normalizeImportedDate(row.startDate, false) : row.startDate;
+    const dueDate = row.dueDate ? normalizeImportedDate(row.dueDate, true) : row.dueDate;
+    if ((row.startDate && !startDate) || (row.dueDate && !dueDate)) {
+      fail('Invalid date');
+      continue;
+    }
+    if (startDate && dueDate && startDate > dueDate) {
+      fail('Start date must be on or before the due date');
+      continue;
+    }
+
+    if (row.taskId === null) {
+      const created: ImportedTaskCreate = {
+        row: row.row,
+        phaseId: phase.id,
+        phaseName: phase.name,
+        title,
+        description: row.description || null,
+        status: (row.status || 'not_started') as TaskStatus,
+        estimatedTime: row.estimatedTime || null,
+        resources: row.resources ?? [],
+        order: row.order ?? -1,
+        startDate: startDate ?? null,
+        dueDate: dueDate ?? null,
+      };
+
+      diff.created.push(created);
+      if (row.order === undefined) {
+        unordered.push(created);
+      } else {
+        slots.push({ row: row.row, phaseId: phase.id, order: row.order, title });
+      }
+      continue;
+    }
+
+    const existing = tasksById.get(row.taskId);
+    if (!existing || !Number.isInteger(row.taskId)) {
+      fail(`Task ${row.taskId} does not belong to this plan`);
+      continue;
+    }
+    if (seenIds.has(row.taskId)) {
+      fail(`Task ${row.taskId} appears more than once`);
+      continue;
+    }
+    seenIds.add(row.taskId);
+
+    const { task } = existing;
+    const changes: TaskFieldChange[] = [];
+    const compare = (field: TaskFieldChange['field'], from: unknown, to: unknown) => {
+      if (to !== undefined && from !== to) changes.push({ field, from, to });
+    };
+
+    compare('title', task.title, title);
+    compare('description', task.description ?? '', row.description);
+    compare('status', task.status, row.status || undefined);
+    compare('estimatedTime', task.estimatedTime ?? '', row.estimatedTime);
+    compare('order', task.order, row.order);
+    compare('startDate', toIsoTimestamp(task.startDate), startDate);
+    compare('dueDate', toIsoTimestamp(task.dueDate), dueDate);
+    if (row.resources !== undefined && !sameResources(task.resources, row.resources)) {
+      changes.push({ field: 'resources', from: task.resources, to: row.resources });
+    }
+    if (existing.phase.id !== phase.id) {
+      changes.push({ field: 'phase', from: existing.phase.name, to: phase.name });
+    }
+    slots.push({ row: row.row, phaseId: phase.id, order: row.order ?? task.order, title });
+
+    if (changes.length === 0) {
+      diff.unchanged++;
+    } else {
+      diff.updated.push({ row: row.row, taskId: task.id, title, phaseId: phase.id, changes });
+    }
+  }
+
+  const excluded = new Set(options.excludedStatuses ?? []);
+  for (const { task, phase } of tasksById.values()) {
+    if (seenIds.has(task.id)) continue;
+    if (excluded.has(task.status)) {
+      slots.push({ phaseId: phase.id, order: task.order, title: task.title });
+    } else {
+      diff.deleted.push({ taskId: task.id, title: task.title, phaseName: phase.name });
+    }
+  }
+
+  // New tasks without an order go after everything else that ends up in their phase
+  for (const created of unordered) {
+    created.order = slots
+      .filter(slot => slot.phaseId === created.phaseId)
+      .reduce((max, slot) => Math.max(max, slot.order + 1), 0);
+    slots.push({ row: created.row, phaseId: created.phaseId, order: created.order, title: created.title });
+  }
+
+  const phaseNames = new Map(phases.map(p => [p.id, p.name]));
+  for (const slot of slots) {
+    if (slot.row === undefined) continue;
+    const other = slots.find(s => s !== slot && s.phaseId === slot.phaseId && s.order === slot.order);
+    if (other) {
+      diff.errors.push({
+        row: slot.row,
+        message: `Task order ${slot.order} in phase "${phaseNames.get(slot.phaseId)}" is also used by "${other.title}"`,
+      });
+    }
+  }
+  diff.errors.sort((a, b) => a.row - b.row);
+
+  return diff;
+}
+
+/**
+ * Completion fields for a status change, as taskService.updateTaskStatus sets them
+ */
+function completionFields(from: string, to: TaskStatus, userId: number, now: string) {
+  if (to === 'completed' && from !== 'completed') {
+    return { completedAt: now, completedBy: userId };
+  }
+  if (to !== 'completed' && from === 'completed') {
+    return { completedAt: null, completedBy: null };
+  }
+  return {};
+}
+
+export class PlanImportService {
+  /**
+   * Diff an import file against the plan without changing anything
+   */
+  async previewImport(planId: number, format: ImportFormat, content: string): Promise<PlanImportDiff> {
+    const phases = await planService.getPhasesWithTasks(planId);
+    const { rows, options } = parseImportRows(format, content);
+
+    return diffPlanImport(phases, rows, options);
+  }
+
+  /**
+   * Apply an import file to the plan
+   * The diff is recomputed so changes made since the preview are respected;
+   * files with row errors are rejected as a whole
+   */
+  async applyImport(
+    planId: number,
+    userId: number,
+    format: ImportFormat,
+    content: string
+  ): Promise<{ diff: PlanImportDiff; result: PlanImportResult }> {
+    const phases = await planService.getPhasesWithTasks(planId);
+    const { rows, options } = parseImportRows(format, content);
+    const diff = diffPlanImport(phases, rows, options);
+    if (diff.errors.length > 0) {
+      return { diff, result: { created: 0, updated: 0, deleted: 0 } };
+    }
+
+    if (diff.created.length + diff.updated.length + diff.deleted.length > 0) {
+      await planVersionService.createAutoVersion(planId, userId, 'Before import');
+    }
+
+    const tasksById = new Map(phases.flatMap(phase => phase.tasks.map(task => [task.id, task] as const)));
+    const deletedIds = diff.deleted.map(task => task.taskId);
+    const movedIds = diff.updated
+      .filter(update => update.changes.some(change => change.field === 'order' || change.field === 'phase'))
+      .map(update => update.taskId);
+    const now = new Date().toISOString();
+
+    // All or nothing: a failed row leaves the plan as it was, so the file can be fixed and re-applied
+    await db.transaction(async (tx) => {
+      if (deletedIds.length > 0) {
+        await tx
+          .delete(taskDependencies)
+          .where(or(
+            inArray(taskDependencies.taskId, deletedIds),
+            inArray(taskDependencies.prerequisiteTaskId, deletedIds)
+          ));
+        await tx.delete(taskHistory).where(inArray(taskHistory.taskId, deletedIds));
+        await tx.delete(planTasks).where(inArray(planTasks.id, deletedIds));
+      }
+
+      // Tasks changing slot are parked on negative orders first, so swapped or
+      // shifted orders never collide with the unique (phase, order) index
+      for (let i = 0; i < movedIds.length; i++) {
+        await tx.update(planTasks).set({ order: -(i + 1) }).where(eq(planTasks.id, movedIds[i]));
+      }
+
+      for (const update of diff.updated) {
+        const current = tasksById.get(update.taskId)!;
+        const values: Partial<InsertPlanTask> = { isCustom: true, updatedAt: now };
+        let status: TaskStatus | undefined;
+
+        for (const change of update.changes) {
+          switch (change.field) {
+            case 'status':
+              status = change.to as TaskStatus;
+              Object.assign(values, { status }, completionFields(current.status, status, userId, now));
+              break;
+            case 'phase':
+              values.phaseId = update.phaseId;
+              break;
+            case 'dueDate':
+              // A new due date deserves a fresh overdue notification
+              values.dueDate = change.to as string | null;
+              values.overdueNotifiedAt = null;
+              break;
+            default:
+              (values as Record<string, unknown>)[change.field] = change.to;
+          }
+        }
+
+        const [updated] = await tx
+          .update(planTasks)
+          .set(values)
+          .where(eq(planTasks.id, update.taskId))
+          .returning();
+        await tx.insert(taskHistory).values({
+          taskId: update.taskId,
+          userId,
+          action: status === 'completed' || status === 'skipped' ? status : 'updated',
+          previousState: current,
+          // The file is an explicit instruction, so prerequisites do not block status changes
+          newState: status ? { ...updated, overridePrerequisites: true } : updated,
+          timestamp: now,
+        });
+      }
+
+      for (const task of diff.created) {
+        const [created] = await tx
+          .insert(planTasks)
+          .values({
+            planId,
+            phaseId: task.phaseId,
+            title: task.title,
+            description: task.description,
+            estimatedTime: task.estimatedTime,
+            resources: task.resources,
+            order: task.order,
+            status: task.status,
+            startDate: task.startDate,
+            dueDate: task.dueDate,
+            isCustom: true,
+            ...completionFields('not_started', task.status, userId, now),
+            createdAt: now,
+            updatedAt: now,
+          })
+          .returning();
+        await tx.insert(taskHistory).values({
+          taskId: created.id,
+          userId,
+          action: 'created',
+          previousState: null,
+          newState: created,
+          timestamp: now,
+        });
+      }
+    });
+
+    await invalidatePlanCache(planId);
+
+    console.log(`📥 Imported plan ${planId}: ${diff.created.length} created, ${diff.updated.length} updated, ${diff.deleted.length} deleted`);
+
+    return {
+      diff,
+      result: { created: diff.created.length, updated: diff.updated.length, deleted: diff.deleted.length },
+    };
+  }
+}
+
+export const planImportService = new PlanImportService();
@@ -10,11 +10,14 @@ import {
   type InsertPlanPhase,
   type PlanTask,
   type InsertPlanTask,
+  type UpdatePlanPhase,
 } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { cacheService } from './cacheService';
 import { queryOptimizer, invalidatePlanCache, invalidateUserPlansCache } from './queryOptimizer';
 import { withQueryTracking } from './dbPerformanceMonitor';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Plan Service
@@ -33,13 +36,13 @@ export class PlanService {
     title: string;
     description: string;
   }): Promise<ActionPlan> {
-    // Verify search exists and belongs to user
+    // Verify search exists and user can edit it (their own, or in a team workspace they edit)
     const search = await db
       .select()
       .from(searches)
       .where(and(
         eq(searches.id, data.searchId),
-        eq(searches.userId, data.userId)
+        workspaceService.accessCondition(searches, data.userId, TeamPermission.EDIT)
       ))
       .limit(1);
 
@@ -53,7 +56,7 @@ export class PlanService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.searchId, data.searchId),
-        eq(actionPlans.userId, data.userId)
+        workspaceService.accessCondition(actionPlans, data.userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -65,6 +68,7 @@ export class PlanService {
     const planData: InsertActionPlan = {
       searchId: data.searchId,
       userId: data.userId,
+      teamId: search[0].teamId, // Plans for a team search belong to the same workspace
       templateId: data.templateId ? parseInt(data.templateId) : null,
       title: data.title,
       description: data.description || null,
@@ -95,13 +99,13 @@ export class PlanService {
     aiGeneratedPlan: any,
     templateId?: number
   ): Promise<ActionPlan> {
-    // Verify search exists and belongs to user
+    // Verify search exists and user can edit it (their own, or in a team workspace they edit)
     const search = await db
       .select()
       .from(searches)
       .where(and(
         eq(searches.id, searchId),
-        eq(searches.userId, userId)
+        workspaceService.accessCondition(searches, userId, TeamPermission.EDIT)
       ))
       .limit(1);
 
@@ -115,7 +119,7 @@ export class PlanService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.searchId, searchId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -127,6 +131,7 @@ export class PlanService {
     const planData: InsertActionPlan = {
       searchId,
       userId,
+      teamId: search[0].teamId, // Plans for a team search belong to the same workspace
       templateId: templateId || null,
       title,
       description: description || null,
@@ -147,25 +152,24 @@ export class PlanService {
 
   /**
    * Get action plan by ID
-   * Verifies user has access to the plan
+   * With a user, verifies they own the plan or have a team role granting the permission
    */
-  async getPlanById(planId: number, userId?: number): Promise<ActionPlan | null> {
+  async getPlanById(
+    planId: number,
+    userId?: number,
+    permission: TeamPermission = TeamPermission.VIEW
+  ): Promise<ActionPlan | null> {
     const cacheKey = cacheService.keys.plan(planId);
     
-    return cacheService.getOrSet(
+    // The cached plan is shared by everyone who can see it, so access is checked after loading
+    const plan = await cacheService.getOrSet(
       cacheKey,
       async () => {
-        const conditions = [eq(actionPlans.id, planId)];
-        
-        if (userId !== undefined) {
-          conditions.push(eq(actionPlans.userId, userId));
-        }
-
         const [plan] = await withQueryTracking(
           () => db
             .select()
             .from(actionPlans)
-            .where(and(...conditions))
+            .where(eq(actionPlans.id, planId))
             .limit(1),
           'getPlanById'
         );
@@ -174,6 +178,11 @@ export class PlanService {
       },
       { ttl: cacheService.ttl.default }
     );
+
+    if (!plan || userId === undefined) {
+      return plan;
+    }
+    return (await workspaceService.hasAccess(userId, plan, permission)) ? plan : null;
   }
 
   /**
@@ -189,6 +198,28 @@ export class PlanService {
     return phase || null;
   }
 
+  /**
+   * Update phase details such as its name or planned dates
+   */
+  async updatePhase(phaseId: number, updates: UpdatePlanPhase): Promise<PlanPhase> {
+    const [updatedPhase] = await db
+      .update(planPhases)
+      .set({
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(planPhases.id, phaseId))
+      .returning();
+
+    if (!updatedPhase) {
+      throw new Error('Phase not found');
+    }
+
+    await invalidatePlanCache(updatedPhase.planId);
+
+    return updatedPhase;
+  }
+
   /**
    * Get action plan by search ID
    * Returns the plan associated with a specific search
@@ -199,7 +230,7 @@ export class PlanService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.searchId, searchId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -302,7 +333,7 @@ export class PlanService {
     }
   ): Promise<ActionPlan> {
     // Verify plan exists and user has access
-    const plan = await this.getPlanById(planId, userId);
+    const plan = await this.getPlanById(planId, userId, TeamPermission.EDIT);
     if (!plan) {
       throw new Error('Plan not found or access denied');
     }
@@ -316,7 +347,7 @@ export class PlanService {
       })
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .returning();
 
@@ -333,7 +364,7 @@ export class PlanService {
     status: 'active' | 'completed' | 'archived'
   ): Promise<ActionPlan> {
     // Verify plan exists and user has access
-    const plan = await this.getPlanById(planId, userId);
+    const plan = await this.getPlanById(planId, userId, TeamPermission.EDIT);
     if (!plan) {
       throw new Error('Plan not found or access denied');
     }
@@ -358,7 +389,7 @@ export class PlanService {
       .set(updateData)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .returning();
 
@@ -375,7 +406,7 @@ export class PlanService {
     customizations: Record<string, any>
   ): Promise<ActionPlan> {
     // Verify plan exists and user has access
-    const plan = await this.getPlanById(planId, userId);
+    const plan = await this.getPlanById(planId, userId, TeamPermission.EDIT);
     if (!plan) {
       throw new Error('Plan not found or access denied');
     }
@@ -394,7 +425,7 @@ export class PlanService {
       })
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .returning();
 
@@ -407,7 +438,7 @@ export class PlanService {
    */
   async deletePlan(planId: number, userId: number): Promise<void> {
     // Verify plan exists and user has access
-    const plan = await this.getPlanById(planId, userId);
+    const plan = await this.getPlanById(planId, userId, TeamPermission.DELETE);
     if (!plan) {
       throw new Error('Plan not found or access denied');
     }
@@ -417,7 +448,7 @@ export class PlanService {
       .delete(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.DELETE)
       ));
   }
 
@@ -565,7 +596,7 @@ export class PlanService {
    */
   async restoreOriginalPlan(planId: number, userId: number): Promise<ActionPlan> {
     // Verify plan exists and user has access
-    const plan = await this.getPlanById(planId, userId);
+    const plan = await this.getPlanById(planId, userId, TeamPermission.EDIT);
     if (!plan) {
       throw new Error('Plan not found or access denied');
     }
@@ -579,7 +610,7 @@ export class PlanService {
       })
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .returning();
 
@@ -0,0 +1,548 @@
+import { db } from '../db';
+import {
+  actionPlans,
+  planPhases,
+  planTasks,
+  planVersions,
+  taskDependencies,
+  taskHistory,
+  type ActionPlan,
+  type PlanPhase,
+  type PlanTask,
+  type PlanVersion,
+  type PlanVersionDiff,
+  type PlanVersionSnapshot,
+  type PlanVersionSummary,
+  type PlanVersionTask,
+} from '@shared/schema';
+import { and, desc, eq, inArray, or } from 'drizzle-orm';
+import { toIsoTimestamp } from './planExportService';
+import { planService } from './planService';
+import { invalidatePlanCache } from './queryOptimizer';
+
+/**
+ * Plan Version Service
+ * Snapshots a plan's phases, tasks and dependencies as numbered versions.
+ * Users name checkpoints themselves; automatic versions are taken before
+ * major edits (template changes, imports, restores). Any two versions, or a
+ * version and the live plan, can be diffed, and any version restored.
+ * Restores write to task_history like ordinary edits and never remove it.
+ */
+
+// Older automatic versions beyond this many are pruned; named ones are kept
+export const MAX_AUTO_VERSIONS = 20;
+
+const TASK_EDIT_FIELDS = [
+  'title',
+  'description',
+  'estimatedTime',
+  'resources',
+  'assigneeId',
+  'startDate',
+  'dueDate',
+] as const;
+
+/**
+ * Build a version snapshot from the live plan
+ * Timestamps are normalized so equal plans give equal snapshots
+ */
+export function buildPlanSnapshot(
+  plan: Pick<ActionPlan, 'title' | 'description' | 'status'>,
+  phases: Array<PlanPhase & { tasks: PlanTask[] }>,
+  dependencies: Array<{ taskId: number; prerequisiteTaskId: number }>
+): PlanVersionSnapshot {
+  return {
+    plan: {
+      title: plan.title,
+      description: plan.description,
+      status: plan.status,
+    },
+    phases: [...phases]
+      .sort((a, b) => a.order - b.order)
+      .map(phase => ({
+        id: phase.id,
+        name: phase.name,
+        description: phase.description,
+        order: phase.order,
+        estimatedDuration: phase.estimatedDuration,
+        isCustom: phase.isCustom,
+        startDate: toIsoTimestamp(phase.startDate),
+        dueDate: toIsoTimestamp(phase.dueDate),
+        tasks: [...phase.tasks]
+          .sort((a, b) => a.order - b.order)
+          .map(task => ({
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            estimatedTime: task.estimatedTime,
+            resources: Array.isArray(task.resources) ? task.resources as string[] : [],
+            order: task.order,
+            status: task.status,
+            isCustom: task.isCustom,
+            assigneeId: task.assigneeId,
+            startDate: toIsoTimestamp(task.startDate),
+            dueDate: toIsoTimestamp(task.dueDate),
+            completedAt: toIsoTimestamp(task.completedAt),
+            completedBy: task.completedBy,
+          })),
+      })),
+    dependencies: [...dependencies]
+      .map(d => ({ taskId: d.taskId, prerequisiteTaskId: d.prerequisiteTaskId }))
+      .sort((a, b) => (a.taskId - b.taskId) || (a.prerequisiteTaskId - b.prerequisiteTaskId)),
+  };
+}
+
+function indexTasks(snapshot: PlanVersionSnapshot) {
+  return new Map(
+    snapshot.phases.flatMap(phase => phase.tasks.map(task => [task.id, { task, phase }] as const))
+  );
+}
+
+/**
+ * Key-order independent equality; jsonb does not keep the key order snapshots were written with
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown) => JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([x], [y]) => x.localeCompare(y)))
+      : v
+  );
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Structural diff from one snapshot to another
+ * Phases and tasks are matched by ID, so renames are not add/remove pairs
+ */
+export function diffPlanSnapshots(from: PlanVersionSnapshot, to: PlanVersionSnapshot): PlanVersionDiff {
+  const diff: PlanVersionDiff = {
+    plan: [],
+    phases: { added: [], removed: [], moved: [], renamed: [] },
+    tasks: { added: [], removed: [], moved: [], restatused: [], edited: [] },
+    dependencies: { added: [], removed: [] },
+  };
+
+  for (const field of ['title', 'description', 'status'] as const) {
+    if (from.plan[field] !== to.plan[field]) {
+      diff.plan.push({ field, from: from.plan[field], to: to.plan[field] });
+    }
+  }
+
+  const fromPhases = new Map(from.phases.map(p => [p.id, p]));
+  const toPhases = new Map(to.phases.map(p => [p.id, p]));
+
+  for (const phase of to.phases) {
+    const before = fromPhases.get(phase.id);
+    if (!before) {
+      diff.phases.added.push({ id: phase.id, name: phase.name });
+      continue;
+    }
+    if (before.order !== phase.order) {
+      diff.phases.moved.push({ id: phase.id, name: phase.name, fromOrder: before.order, toOrder: phase.order });
+    }
+    if (before.name !== phase.name) {
+      diff.phases.renamed.push({ id: phase.id, from: before.name, to: phase.name });
+    }
+  }
+  for (const phase of from.phases) {
+    if (!toPhases.has(phase.id)) {
+      diff.phases.removed.push({ id: phase.id, name: phase.name });
+    }
+  }
+
+  const fromTasks = indexTasks(from);
+  const toTasks = indexTasks(to);
+
+  for (const [id, { task, phase }] of toTasks) {
+    const before = fromTasks.get(id);
+    if (!before) {
+      diff.tasks.added.push({ id, title: task.title, phaseName: phase.name });
+      continue;
+    }
+
+    if (before.phase.id !== phase.id || before.task.order !== task.order) {
+      diff.tasks.moved.push({
+        id,
+        title: task.title,
+        fromPhase: before.phase.name,
+        toPhase: phase.name,
+        fromOrder: before.task.order,
+        toOrder: task.order,
+      });
+    }
+    if (before.task.status !== task.status) {
+      diff.tasks.restatused.push({ id, title: task.title, from: before.task.status, to: task.status });
+    }
+
+    const fields = TASK_EDIT_FIELDS.filter(field => !sameValue(before.task[field], task[field]));
+    if (fields.length > 0) {
+      diff.tasks.edited.push({ id, title: task.title, fields: [...fields] });
+    }
+  }
+  for (const [id, { task, phase }] of fromTasks) {
+    if (!toTasks.has(id)) {
+      diff.tasks.removed.push({ id, title: task.title, phaseName: phase.name });
+    }
+  }
+
+  const edgeKey = (d: { taskId: number; prerequisiteTaskId: number }) => `${d.taskId}:${d.prerequisiteTaskId}`;
+  const fromEdges = new Set(from.dependencies.map(edgeKey));
+  const toEdges = new Set(to.dependencies.map(edgeKey));
+  diff.dependencies.added = to.dependencies.filter(d => !fromEdges.has(edgeKey(d)));
+  diff.dependencies.removed = from.dependencies.filter(d => !toEdges.has(edgeKey(d)));
+
+  return diff;
+}
+
+/**
+ * Task row values for a snapshot task
+ */
+function taskValues(task: PlanVersionTask, phaseId: number) {
+  return {
+    phaseId,
+    title: task.title,
+    description: task.description,
+    estimatedTime: task.estimatedTime,
+    resources: task.resources,
+    order: task.order,
+    status: task.status,
+    isCustom: task.isCustom,
+    assigneeId: task.assigneeId,
+    startDate: task.startDate,
+    dueDate: task.dueDate,
+    completedAt: task.completedAt,
+    completedBy: task.completedBy,
+  };
+}
+
+export class PlanVersionService {
+  /**
+   * Snapshot the live plan
+   */
+  async captureSnapshot(planId: number): Promise<PlanVersionSnapshot> {
+    const [plan] = await db
+      .select()
+      .from(actionPlans)
+      .where(eq(actionPlans.id, planId))
+      .limit(1);
+
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    const [phases, dependencies] = await Promise.all([
+      planService.getPhasesWithTasks(planId),
+      db
+        .select({
+          taskId: taskDependencies.taskId,
+          prerequisiteTaskId: taskDependencies.prerequisiteTaskId,
+        })
+        .from(taskDependencies)
+        .innerJoin(planTasks, eq(taskDependencies.taskId, planTasks.id))
+        .where(eq(planTasks.planId, planId)),
+    ]);
+
+    return buildPlanSnapshot(plan, phases, dependencies);
+  }
+
+  /**
+   * List a plan's versions, newest first (snapshots omitted)
+   */
+  async listVersions(planId: number): Promise<PlanVersionSummary[]> {
+    return await db
+      .select({
+        id: planVersions.id,
+        planId: planVersions.planId,
+        version: planVersions.version,
+        name: planVersions.name,
+        kind: planVersions.kind,
+        createdBy: planVersions.createdBy,
+        createdAt: planVersions.createdAt,
+      })
+      .from(planVersions)
+      .where(eq(planVersions.planId, planId))
+      .orderBy(desc(planVersions.version));
+  }
+
+  /**
+   * Get a version with its snapshot
+   */
+  async getVersion(planId: number, versionId: number): Promise<PlanVersion | null> {
+    const [version] = await db
+      .select()
+      .from(planVersions)
+      .where(and(
+        eq(planVersions.id, versionId),
+        eq(planVersions.planId, planId)
+      ))
+      .limit(1);
+
+    return version || null;
+  }
+
+  /**
+   * Save the live plan as a named checkpoint
+   */
+  async createVersion(
+    planId: number,
+    userId: number,
+    name: string,
+    kind: 'manual' | 'auto' = 'manual',
+    snapshot?: PlanVersionSnapshot
+  ): Promise<PlanVersion> {
+    const versionSnapshot = snapshot ?? await this.captureSnapshot(planId);
+
+    const [latest] = await db
+      .select({ version: planVersions.version })
+      .from(planVersions)
+      .where(eq(planVersions.planId, planId))
+      .orderBy(desc(planVersions.version))
+      .limit(1);
+
+    const [version] = await db
+      .insert(planVersions)
+      .values({
+        planId,
+        version: (latest?.version ?? 0) + 1,
+        name,
+        kind,
+        snapshot: versionSnapshot,
+        createdBy: userId,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+
+    if (kind === 'auto') {
+      await this.pruneAutoVersions(planId);
+    }
+
+    console.log(`📸 Saved ${kind} version ${version.version} of plan ${planId}: ${name}`);
+
+    return version;
+  }
+
+  /**
+   * Take an automatic version before a major edit
+   * Skipped when the plan has not changed since its latest version
+   */
+  async createAutoVersion(planId: number, userId: number, reason: string): Promise<PlanVersion> {
+    const snapshot = await this.captureSnapshot(planId);
+
+    const [latest] = await db
+      .select()
+      .from(planVersions)
+      .where(eq(planVersions.planId, planId))
+      .orderBy(desc(planVersions.version))
+      .limit(1);
+
+    if (latest && sameValue(latest.snapshot, snapshot)) {
+      return latest;
+    }
+
+    return this.createVersion(planId, userId, reason, 'auto', snapshot);
+  }
+
+  /**
+   * Diff two versions, or a version against the live plan when toVersionId is null
+   */
+  async diffVersions(planId: number, fromVersionId: number, toVersionId: number | null): Promise<PlanVersionDiff> {
+    const from = await this.getVersion(planId, fromVersionId);
+    if (!from) {
+      throw new Error('Version not found');
+    }
+
+    let to: PlanVersionSnapshot;
+    if (toVersionId === null) {
+      to = await this.captureSnapshot(planId);
+    } else {
+      const version = await this.getVersion(planId, toVersionId);
+      if (!version) {
+        throw new Error('Version not found');
+      }
+      to = version.snapshot as PlanVersionSnapshot;
+    }
+
+    return diffPlanSnapshots(from.snapshot as PlanVersionSnapshot, to);
+  }
+
+  /**
+   * Restore the plan to a version
+   * The current state is saved as an automatic version first, so a restore
+   * can itself be undone. Tasks keep their IDs across restores, and every
+   * task the restore touches gets a task_history entry.
+   */
+  async restoreVersion(
+    planId: number,
+    versionId: number,
+    userId: number
+  ): Promise<{ restored: PlanVersion; backup: PlanVersion }> {
+    const target = await this.getVersion(planId, versionId);
+    if (!target) {
+      throw new Error('Version not found');
+    }
+
+    const backup = await this.createAutoVersion(planId, userId, `Before restoring version ${target.version}`);
+    const current = backup.snapshot as PlanVersionSnapshot;
+    const snapshot = target.snapshot as PlanVersionSnapshot;
+
+    const currentTasks = indexTasks(current);
+    const targetTasks = indexTasks(snapshot);
+    const currentPhaseIds = new Set(current.phases.map(p => p.id));
+    const targetPhaseOrders = new Map(snapshot.phases.map(p => [p.id, p.order]));
+    const now = new Date().toISOString();
+    const historyMarker = { restoredFromVersion: target.version };
+
+    const removedTaskIds = [...currentTasks.keys()].filter(id => !targetTasks.has(id));
+    const removedPhaseIds = [...currentPhaseIds].filter(id => !targetPhaseOrders.has(id));
+
+    // Rows leaving their (phase, order) slot are parked on negative orders first,
+    // so swaps and reused slots never collide with the unique order indexes
+    const parkedPhaseIds = current.phases
+      .filter(p => targetPhaseOrders.get(p.id) !== p.order)
+      .map(p => p.id);
+    const parkedTaskIds = [...currentTasks].filter(([taskId, { task, phase }]) => {
+      const next = targetTasks.get(taskId);
+      return next && (next.phase.id !== phase.id || next.task.order !== task.order);
+    }).map(([taskId]) => taskId);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(actionPlans)
+        .set({
+          title: snapshot.plan.title,
+          description: snapshot.plan.description,
+          status: snapshot.plan.status,
+          updatedAt: now,
+        })
+        .where(eq(actionPlans.id, planId));
+
+      // Dependencies are rebuilt from the snapshot once tasks are in place
+      const currentTaskIds = [...currentTasks.keys()];
+      if (currentTaskIds.length > 0) {
+        await tx
+          .delete(taskDependencies)
+          .where(or(
+            inArray(taskDependencies.taskId, currentTaskIds),
+            inArray(taskDependencies.prerequisiteTaskId, currentTaskIds)
+          ));
+      }
+
+      if (removedTaskIds.length > 0) {
+        await tx.delete(planTasks).where(inArray(planTasks.id, removedTaskIds));
+        await tx.insert(taskHistory).values(removedTaskIds.map(taskId => ({
+          taskId,
+          userId,
+          action: 'deleted',
+          previousState: currentTasks.get(taskId)!.task,
+          newState: historyMarker,
+          timestamp: now,
+        })));
+      }
+
+      for (let i = 0; i < parkedPhaseIds.length; i++) {
+        await tx.update(planPhases).set({ order: -(i + 1) }).where(eq(planPhases.id, parkedPhaseIds[i]));
+      }
+      for (let i = 0; i < parkedTaskIds.length; i++) {
+        await tx.update(planTasks).set({ order: -(i + 1) }).where(eq(planTasks.id, parkedTaskIds[i]));
+      }
+
+      for (const phase of snapshot.phases) {
+        const values = {
+          name: phase.name,
+          description: phase.description,
+          order: phase.order,
+          estimatedDuration: phase.estimatedDuration,
+          isCustom: phase.isCustom,
+          startDate: phase.startDate,
+          dueDate: phase.dueDate,
+          updatedAt: now,
+        };
+
+        if (currentPhaseIds.has(phase.id)) {
+          await tx.update(planPhases).set(values).where(eq(planPhases.id, phase.id));
+        } else {
+          await tx.insert(planPhases).values({ id: phase.id, planId, ...values, createdAt: now });
+        }
+      }
+
+      for (const [taskId, { task, phase }] of targetTasks) {
+        const values = taskValues(task, phase.id);
+        const existing = currentTasks.get(taskId);
+
+        if (existing) {
+          if (sameValue(taskValues(existing.task, existing.phase.id), values)) continue;
+
+          const [updated] = await tx
+            .update(planTasks)
+            .set({ ...values, updatedAt: now })
+            .where(eq(planTasks.id, taskId))
+            .returning();
+          await tx.insert(taskHistory).values({
+            taskId,
+            userId,
+            action: 'updated',
+            previousState: existing.task,
+            newState: { ...updated, ...historyMarker },
+            timestamp: now,
+          });
+        } else {
+          // Re-created under its old ID so its history and links still apply
+          const [created] = await tx
+            .insert(planTasks)
+            .values({ id: taskId, planId, ...values, createdAt: now, updatedAt: now })
+            .returning();
+          await tx.insert(taskHistory).values({
+            taskId,
+            userId,
+            action: 'created',
+            previousState: null,
+            newState: { ...created, ...historyMarker },
+            timestamp: now,
+          });
+        }
+      }
+
+      // Removed phases go last: deleting them cascades to tasks, and surviving
+      // tasks have only now moved out of them
+      if (removedPhaseIds.length > 0) {
+        await tx
+          .delete(planPhases)
+          .where(and(
+            eq(planPhases.planId, planId),
+            inArray(planPhases.id, removedPhaseIds)
+          ));
+      }
+
+      if (snapshot.dependencies.length > 0) {
+        await tx.insert(taskDependencies).values(snapshot.dependencies.map(d => ({ ...d, createdAt: now })));
+      }
+    });
+
+    await invalidatePlanCache(planId);
+
+    console.log(`⏪ Restored plan ${planId} to version ${target.version} (backup: version ${backup.version})`);
+
+    return { restored: target, backup };
+  }
+
+  /**
+   * Drop the oldest automatic versions beyond MAX_AUTO_VERSIONS
+   */
+  private async pruneAutoVersions(planId: number): Promise<void> {
+    const autoVersions = await db
+      .select({ id: planVersions.id })
+      .from(planVersions)
+      .where(and(
+        eq(planVersions.planId, planId),
+        eq(planVersions.kind, 'auto')
+      ))
+      .orderBy(desc(planVersions.version));
+
+    const stale = autoVersions.slice(MAX_AUTO_VERSIONS).map(v => v.id);
+    if (stale.length > 0) {
+      await db.delete(planVersions).where(inArray(planVersions.id, stale));
+    }
+  }
+}
+
+export const planVersionService = new PlanVersionService();
@@ -1,6 +1,8 @@
 import { WebSocket } from 'ws';
 import { jwtService } from '../jwt';
 import type { PlanTask } from '@shared/schema';
+import type { InAppNotification } from './notificationService';
+import { ClusterState, realtimeBackplane, type RealtimeBackplane } from './realtimeBackplane';
 
 /**
  * WebSocket Service for Action Plan Real-Time Updates
@@ -9,8 +11,12 @@ import type { PlanTask } from '@shared/schema';
  * - Task status changes
  * - Task creation/editing/deletion
  * - Task reordering
+ * - Dependency changes
  * - Progress updates
  * - User presence indicators
+ * - In-app notifications, sent to every connection of the recipient
+ *
+ * Broadcasts and presence span every server instance through the realtime backplane.
  */
 
 interface PlanRoom {
@@ -28,20 +34,51 @@ interface PlanParticipant {
   lastActivity: Date;
 }
 
+/**
+ * A plan participant as seen by other instances
+ */
+interface PlanPresence {
+  planId: string;
+  userId: number;
+  userName: string;
+  joinedAt: string;
+}
+
 interface WebSocketMessage {
   type: 'join-plan' | 'leave-plan' | 'task-updated' | 'task-created' | 'task-deleted' | 
-        'task-reordered' | 'progress-updated' | 'ping' | 'pong';
+        'task-reordered' | 'dependencies-updated' | 'plan-restored' | 'progress-updated' |
+        'notification' | 'notifications-updated' | 'ping' | 'pong';
   planId?: string;
   data?: any;
   timestamp?: string;
 }
 
+const PLAN_BROADCAST_CHANNEL = 'plan-broadcast';
+const USER_MESSAGE_CHANNEL = 'user-message';
+
 export class PlanWebSocketService {
   private rooms: Map<string, PlanRoom> = new Map();
   private userConnections: Map<number, Set<WebSocket>> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
-
-  constructor() {
+  // Keyed by `${planId}/${userId}`
+  private planPresence: ClusterState<PlanPresence>;
+  // Connection count per user on each instance, keyed by user ID
+  private userPresence: ClusterState<number>;
+  private unsubscribers: Array<() => void>;
+
+  constructor(private backplane: RealtimeBackplane = realtimeBackplane) {
+    this.planPresence = new ClusterState(backplane, 'plan-participants');
+    this.userPresence = new ClusterState(backplane, 'user-connections');
+    this.unsubscribers = [
+      backplane.subscribe(PLAN_BROADCAST_CHANNEL, (payload, origin) => {
+        if (origin === backplane.instanceId) return;
+        this.deliverToPlan(payload.planId, payload.message, payload.excludeUserId);
+      }),
+      backplane.subscribe(USER_MESSAGE_CHANNEL, (payload, origin) => {
+        if (origin === backplane.instanceId) return;
+        this.deliverToUser(payload.userId, payload.message);
+      }),
+    ];
     this.startCleanupTask();
   }
 
@@ -97,6 +134,7 @@ export class PlanWebSocketService {
       this.userConnections.set(user.userId, new Set());
     }
     this.userConnections.get(user.userId)!.add(ws);
+    this.userPresence.set(user.userId.toString(), this.userConnections.get(user.userId)!.size);
 
     // Set up message handler
     ws.on('message', (data) => {
@@ -161,7 +199,8 @@ export class PlanWebSocketService {
         break;
 
       default:
-        console.warn('Unknown message type:', message.type);
+        // Collaboration room messages share the socket and are handled by CollaborationServer
+        break;
     }
   }
 
@@ -195,6 +234,14 @@ export class PlanWebSocketService {
     });
 
     room.lastActivity = new Date();
+    this.planPresence.set(`${planId}/${user.userId}`, {
+      planId,
+      userId: user.userId,
+      userName: user.userName,
+      joinedAt: new Date().toISOString(),
+    });
+
+    const participants = this.getPlanParticipants(planId);
 
     // Notify user they've joined
     this.sendMessage(ws, {
@@ -202,8 +249,8 @@ export class PlanWebSocketService {
       planId,
       data: {
         success: true,
-        participantCount: room.participants.size,
-        participants: Array.from(room.participants.values()).map(p => ({
+        participantCount: participants.length,
+        participants: participants.map(p => ({
           userId: p.userId,
           userName: p.userName,
         })),
@@ -217,7 +264,7 @@ export class PlanWebSocketService {
       data: {
         userId: user.userId,
         userName: user.userName,
-        participantCount: room.participants.size,
+        participantCount: participants.length,
       },
     }, user.userId);
 
@@ -233,6 +280,7 @@ export class PlanWebSocketService {
 
     room.participants.delete(userId.toString());
     room.lastActivity = new Date();
+    this.planPresence.delete(`${planId}/${userId}`);
 
     // Notify other participants
     this.broadcastToPlan(planId, {
@@ -240,7 +288,7 @@ export class PlanWebSocketService {
       planId,
       data: {
         userId,
-        participantCount: room.participants.size,
+        participantCount: this.getPlanParticipants(planId).length,
       },
     });
 
@@ -263,6 +311,9 @@ export class PlanWebSocketService {
       connections.delete(ws);
       if (connections.size === 0) {
         this.userConnections.delete(userId);
+        this.userPresence.delete(userId.toString());
+      } else {
+        this.userPresence.set(userId.toString(), connections.size);
       }
     }
 
@@ -325,6 +376,34 @@ export class PlanWebSocketService {
     }, userId);
   }
 
+  /**
+   * Broadcast an added or removed dependency to all participants in a plan
+   */
+  broadcastDependenciesUpdated(
+    planId: string,
+    change: { action: 'added' | 'removed'; taskId: number; prerequisiteTaskId: number },
+    userId?: number
+  ) {
+    this.broadcastToPlan(planId, {
+      type: 'dependencies-updated',
+      planId,
+      data: change,
+      timestamp: new Date().toISOString(),
+    }, userId);
+  }
+
+  /**
+   * Broadcast a version restore; the whole plan may have changed
+   */
+  broadcastPlanRestored(planId: string, restored: { versionId: number; version: number }, userId?: number) {
+    this.broadcastToPlan(planId, {
+      type: 'plan-restored',
+      planId,
+      data: restored,
+      timestamp: new Date().toISOString(),
+    }, userId);
+  }
+
   /**
    * Broadcast progress update to all participants in a plan
    */
@@ -338,9 +417,54 @@ export class PlanWebSocketService {
   }
 
   /**
-   * Broadcast message to all participants in a plan room
+   * Push a new in-app notification to all of a user's connections
+   */
+  sendNotification(userId: number, notification: InAppNotification, unreadCount: number) {
+    this.sendToUser(userId, {
+      type: 'notification',
+      data: { notification, unreadCount },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Tell a user's connections that notifications were read or deleted elsewhere
+   */
+  sendNotificationsUpdated(userId: number, unreadCount: number) {
+    this.sendToUser(userId, {
+      type: 'notifications-updated',
+      data: { unreadCount },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Send message to all of a user's connections on every instance, whether or not they joined a plan
+   */
+  private sendToUser(userId: number, message: WebSocketMessage) {
+    this.deliverToUser(userId, message);
+    this.backplane.publish(USER_MESSAGE_CHANNEL, { userId, message });
+  }
+
+  private deliverToUser(userId: number, message: WebSocketMessage) {
+    const connections = this.userConnections.get(userId);
+    if (!connections) return;
+
+    connections.forEach((ws) => this.sendMessage(ws, message));
+  }
+
+  /**
+   * Broadcast message to all participants in a plan room, on every instance
    */
   private broadcastToPlan(planId: string, message: WebSocketMessage, excludeUserId?: number) {
+    this.deliverToPlan(planId, message, excludeUserId);
+    this.backplane.publish(PLAN_BROADCAST_CHANNEL, { planId, message, excludeUserId });
+  }
+
+  /**
+   * Send message to this instance's participants in a plan room
+   */
+  private deliverToPlan(planId: string, message: WebSocketMessage, excludeUserId?: number) {
     const room = this.rooms.get(planId);
     if (!room) return;
 
@@ -391,41 +515,59 @@ export class PlanWebSocketService {
   }
 
   /**
-   * Get room information
+   * Participants of a plan across all instances
+   */
+  private getPlanParticipants(planId: string): PlanPresence[] {
+    return this.planPresence.entries()
+      .filter(({ value }) => value.planId === planId)
+      .map(({ value }) => value);
+  }
+
+  /**
+   * Get room information across all instances
    */
   getRoomInfo(planId: string) {
+    const participants = this.getPlanParticipants(planId);
     const room = this.rooms.get(planId);
-    if (!room) return null;
+    if (participants.length === 0 && !room) return null;
 
     return {
-      planId: room.planId,
-      participantCount: room.participants.size,
-      participants: Array.from(room.participants.values()).map(p => ({
-        userId: p.userId,
-        userName: p.userName,
-        joinedAt: p.joinedAt,
-        lastActivity: p.lastActivity,
-      })),
-      lastActivity: room.lastActivity,
+      planId,
+      participantCount: participants.length,
+      participants: participants.map(p => {
+        const local = room?.participants.get(p.userId.toString());
+        return {
+          userId: p.userId,
+          userName: p.userName,
+          joinedAt: local?.joinedAt ?? new Date(p.joinedAt),
+          lastActivity: local?.lastActivity,
+        };
+      }),
+      lastActivity: room?.lastActivity,
     };
   }
 
   /**
-   * Get all active rooms
+   * Get all active rooms across all instances
    */
   getAllRooms() {
-    return Array.from(this.rooms.entries()).map(([planId, room]) => ({
+    const planIds = new Set<string>(this.rooms.keys());
+    this.planPresence.entries().forEach(({ value }) => planIds.add(value.planId));
+
+    return Array.from(planIds, (planId) => ({
       planId,
-      participantCount: room.participants.size,
-      lastActivity: room.lastActivity,
+      participantCount: this.getPlanParticipants(planId).length,
+      lastActivity: this.rooms.get(planId)?.lastActivity,
     }));
   }
 
   /**
-   * Get user's active connections count
+   * Get user's active connections count across all instances
    */
   getUserConnectionCount(userId: number): number {
-    return this.userConnections.get(userId)?.size || 0;
+    return this.userPresence.entries()
+      .filter(({ key }) => key === userId.toString())
+      .reduce((count, { value }) => count + value, 0);
   }
 
   /**
@@ -446,6 +588,7 @@ export class PlanWebSocketService {
           if (participantInactiveTime > inactiveThreshold) {
             console.log(`Removing inactive participant ${userId} from plan ${planId}`);
             room.participants.delete(userId);
+            this.planPresence.delete(`${planId}/${userId}`);
           }
         });
 
@@ -483,9 +626,12 @@ export class PlanWebSocketService {
       });
     });
 
-    // Clear all data
+    // Clear all data and withdraw this instance's presence
     this.rooms.clear();
     this.userConnections.clear();
+    this.planPresence.close();
+    this.userPresence.close();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
 
     console.log('PlanWebSocketService shut down');
   }
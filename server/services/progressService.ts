@@ -9,6 +9,8 @@ import {
   type InsertProgressSnapshot,
 } from '@shared/schema';
 import { eq, and, desc, sql, gte } from 'drizzle-orm';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Progress Service
@@ -31,7 +33,7 @@ export class ProgressService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -257,7 +259,7 @@ export class ProgressService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -296,7 +298,7 @@ export class ProgressService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
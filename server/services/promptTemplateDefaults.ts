@@ -0,0 +1,220 @@
+/**
+ * Built-in prompts for AI features
+ *
+ * Served until an admin edits a template, and seeded as version 1 when they do.
+ * Variables are written as {{name}} and filled in when the prompt is rendered.
+ */
+
+export const promptKeys = [
+  'conversation_system',
+  'follow_up_questions',
+  'action_plan',
+  'action_plan_system',
+  'idea_validation',
+  'idea_validation_system',
+] as const;
+
+export type PromptKey = typeof promptKeys[number];
+
+export interface PromptDefault {
+  name: string;
+  description: string;
+  variables: string[];
+  content: string;
+}
+
+export const DEFAULT_PROMPTS: Record<PromptKey, PromptDefault> = {
+  conversation_system: {
+    name: 'Conversation system prompt',
+    description: 'Role and guidelines for answers in analysis conversations',
+    variables: ['topic'],
+    content: `You are an AI advisor for Unbuilt, a platform that helps entrepreneurs discover market gaps and innovation opportunities. You are having a conversation with a user about {{topic}}
+
+GUIDELINES:
+1. Be conversational and helpful, not robotic
+2. Reference specific data from the analysis when relevant
+3. If you make assumptions, state them explicitly
+4. For financial projections, include appropriate disclaimers
+5. Stay focused on the analysis topic; politely redirect off-topic questions
+6. Acknowledge uncertainty rather than making up information
+7. Cite sources when making specific claims
+8. Be encouraging but realistic about opportunities and challenges
+
+SAFETY:
+- Reject inappropriate, offensive, or harmful requests
+- Do not provide legal, medical, or financial advice
+- Do not make guarantees about business success
+- Respect user privacy and data
+
+RESPONSE FORMAT:
+- Use clear paragraphs
+- Include bullet points for lists
+- Bold key insights with **text**
+- Keep responses concise (200-400 words typically)`,
+  },
+  follow_up_questions: {
+    name: 'Follow-up question generation',
+    description: 'Suggests the next questions to ask in a conversation',
+    variables: ['analysisContext', 'conversationContext'],
+    content: `You are helping generate follow-up questions for a business opportunity analysis conversation.
+
+{{analysisContext}}
+
+Recent Conversation:
+{{conversationContext}}
+
+Generate 5 relevant follow-up questions that:
+1. Build on what has been discussed
+2. Address gaps in understanding
+3. Help the user make progress
+4. Are specific and actionable
+5. Cover different aspects (market, competition, execution, risks)
+
+For each question, specify:
+- The question text
+- Category: market_validation, competitive_analysis, execution_strategy, or risk_assessment
+- Priority: 0-100 (higher = more important)
+
+Format as JSON array:
+[
+  {"text": "question text", "category": "market_validation", "priority": 85},
+  ...
+]`,
+  },
+  action_plan: {
+    name: 'Action plan generation',
+    description: 'Four-phase launch roadmap for a validated idea',
+    variables: ['title', 'description', 'targetMarket', 'businessModel', 'category', 'validationScore', 'marketSize', 'initialInvestment'],
+    content: `Generate a comprehensive 4-phase action plan for launching this validated business idea:
+
+Title: {{title}}
+Description: {{description}}
+Target Market: {{targetMarket}}
+Business Model: {{businessModel}}
+Category: {{category}}
+Validation Score: {{validationScore}}
+Market Size: {{marketSize}}
+Initial Investment: {{initialInvestment}}
+
+Create a detailed, actionable roadmap with:
+
+1. PHASE 1 - DISCOVERY & VALIDATION (0-3 months)
+   - Market research milestones
+   - Customer discovery activities
+   - MVP definition
+   - Team formation
+   - Initial funding
+
+2. PHASE 2 - DEVELOPMENT & TESTING (3-9 months)
+   - Product development milestones
+   - Alpha/Beta testing
+   - Early customer acquisition
+   - Product-market fit validation
+   - Seed funding preparation
+
+3. PHASE 3 - LAUNCH & MARKET ENTRY (9-15 months)
+   - Go-to-market execution
+   - Marketing campaigns
+   - Sales activation
+   - Operations scaling
+   - Series A preparation
+
+4. PHASE 4 - GROWTH & SCALE (15-27 months)
+   - Market expansion
+   - Product enhancement
+   - Team scaling
+   - Revenue optimization
+   - Strategic partnerships
+
+For each phase include:
+- Specific milestones with timelines
+- Resource requirements (team, tools, budget)
+- Success criteria and KPIs
+- Risk mitigation strategies
+- Decision gates
+
+Also provide:
+- Critical path analysis
+- Resource planning
+- Contingency plans
+- Immediate next actions
+
+Return ONLY a JSON object matching the ActionPlan interface structure, no additional text.`,
+  },
+  action_plan_system: {
+    name: 'Action plan system prompt',
+    description: 'Role for action plan generation',
+    variables: [],
+    content: 'You are a strategic business planning expert. Provide detailed, actionable roadmaps in JSON format only.',
+  },
+  idea_validation: {
+    name: 'Idea validation',
+    description: 'Scores an idea across feasibility, demand, innovation, scalability and viability',
+    variables: ['title', 'description', 'targetMarket', 'businessModel', 'category', 'financials'],
+    content: `Analyze this business idea comprehensively and provide detailed validation insights:
+
+Title: {{title}}
+Description: {{description}}
+Target Market: {{targetMarket}}
+Business Model: {{businessModel}}
+Category: {{category}}
+{{financials}}
+
+Provide a comprehensive analysis including:
+
+1. FEASIBILITY (0-100 score)
+   - Technical feasibility
+   - Resource requirements
+   - Key strengths and weaknesses
+   - Specific recommendations
+
+2. MARKET DEMAND (0-100 score)
+   - Target audience size and characteristics
+   - Growth potential and market trends
+   - Evidence of demand
+
+3. INNOVATION (0-100 score)
+   - Unique value proposition
+   - Competitive advantages
+   - Innovation level and patentability
+
+4. SCALABILITY (0-100 score)
+   - Growth factors and potential
+   - Bottlenecks and limitations
+   - Expansion opportunities
+
+5. VIABILITY (0-100 score)
+   - Revenue streams
+   - Cost structure
+   - Path to profitability
+
+6. OVERALL ASSESSMENT
+   - Combined score (0-100)
+   - Verdict (Highly Promising/Promising/Moderate Potential/Needs Work/High Risk)
+   - Top 3 strengths
+   - Top 3 risks
+   - Next 3 action steps
+
+7. COMPETITOR ANALYSIS
+   - Direct and indirect competitors
+   - Market positioning
+   - Key differentiators
+
+8. REGULATORY CONSIDERATIONS
+   - Requirements and challenges
+   - Timeline for compliance
+
+9. FUNDING ADVICE
+   - Capital requirements
+   - Best funding sources
+   - Investor appeal factors
+
+Return ONLY a JSON object matching the AIValidationInsights structure, no additional text.`,
+  },
+  idea_validation_system: {
+    name: 'Idea validation system prompt',
+    description: 'Role for idea validation',
+    variables: [],
+    content: 'You are a business validation expert. Provide thorough, data-driven analysis in JSON format only.',
+  },
+};
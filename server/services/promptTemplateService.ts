@@ -0,0 +1,451 @@
+/**
+ * Prompt Template Service
+ *
+ * Registry of the prompts AI features are generated with. Each prompt is served by key
+ * from its active version, or from the built-in default until an admin edits it.
+ * A template can run an experiment: a feature flag's rollout percentage decides which
+ * users receive the experiment version instead of the active one.
+ */
+
+import { db } from '../db';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  promptTemplates,
+  promptTemplateVersions,
+  type PromptTemplate,
+  type PromptTemplateVersion,
+  type PromptVersionMetrics,
+  type RenderedPrompt,
+} from '@shared/schema';
+import { featureFlagService } from './featureFlagService';
+import { calculatePromptVersionQuality } from './conversationMetricsService';
+import { logger } from '../config/logger';
+import { DEFAULT_PROMPTS, promptKeys, type PromptKey } from './promptTemplateDefaults';
+
+export { promptKeys, type PromptKey } from './promptTemplateDefaults';
+
+/**
+ * User a prompt is rendered for, bucketed into experiments by ID
+ */
+export interface PromptSubject {
+  userId: number;
+  userTier?: string;
+}
+
+/**
+ * A template with its versions, as shown to admins
+ */
+export interface PromptTemplateDetails {
+  key: PromptKey;
+  name: string;
+  description: string;
+  variables: string[];
+  /** Built-in content, served until the prompt is edited */
+  defaultContent: string;
+  template: PromptTemplate | null;
+  versions: PromptTemplateVersion[];
+  /** Rollout percentage of the experiment flag, 0 when no experiment is running */
+  experimentRolloutPercentage: number;
+}
+
+interface CachedTemplate {
+  template: PromptTemplate;
+  active: PromptTemplateVersion | null;
+  experiment: PromptTemplateVersion | null;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Variable names a prompt uses
+ */
+export function findPromptVariables(content: string): string[] {
+  return [...new Set([...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Fill in a prompt's variables; missing values render as empty text
+ */
+export function renderPrompt(content: string, variables: Record<string, string | number | null | undefined>): string {
+  return content.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * Name of the feature flag that splits traffic for a template's experiment
+ */
+export function experimentFlagName(key: PromptKey): string {
+  return `prompt_experiment_${key}`;
+}
+
+export class PromptTemplateService {
+  private cache: Map<string, CachedTemplate | null> = new Map();
+  private cacheExpiry: Map<string, number> = new Map();
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * Render a prompt for an AI call.
+   * Falls back to the built-in default if the registry cannot be read, so AI features keep working.
+   */
+  async render(
+    key: PromptKey,
+    variables: Record<string, string | number | null | undefined> = {},
+    subject?: PromptSubject
+  ): Promise<RenderedPrompt> {
+    const fallback: RenderedPrompt = {
+      content: renderPrompt(DEFAULT_PROMPTS[key].content, variables),
+      versionId: null,
+      version: null,
+      experiment: false,
+    };
+
+    try {
+      const cached = await this.getCachedTemplate(key);
+      if (!cached) {
+        return fallback;
+      }
+
+      if (cached.experiment && cached.template.experimentFlag && subject) {
+        const check = await featureFlagService.isFeatureEnabled(
+          cached.template.experimentFlag,
+          subject.userId,
+          subject.userTier
+        );
+        if (check.enabled) {
+          return this.toRendered(cached.experiment, variables, true);
+        }
+      }
+
+      return cached.active ? this.toRendered(cached.active, variables, false) : fallback;
+    } catch (error) {
+      logger.error('Error rendering prompt template, using built-in default', { key, error });
+      return fallback;
+    }
+  }
+
+  /**
+   * Every prompt in the registry with its versions
+   */
+  async listTemplates(): Promise<PromptTemplateDetails[]> {
+    const templates = await db.select().from(promptTemplates);
+    const versions = templates.length > 0
+      ? await db
+          .select()
+          .from(promptTemplateVersions)
+          .where(inArray(promptTemplateVersions.templateId, templates.map(t => t.id)))
+          .orderBy(desc(promptTemplateVersions.version))
+      : [];
+
+    return await Promise.all(promptKeys.map(async key => {
+      const template = templates.find(t => t.key === key) ?? null;
+      return this.toDetails(key, template, template ? versions.filter(v => v.templateId === template.id) : []);
+    }));
+  }
+
+  /**
+   * A prompt with its versions
+   */
+  async getTemplate(key: PromptKey): Promise<PromptTemplateDetails> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.key, key)).limit(1);
+    const versions = template
+      ? await db
+          .select()
+          .from(promptTemplateVersions)
+          .where(eq(promptTemplateVersions.templateId, template.id))
+          .orderBy(desc(promptTemplateVersions.version))
+      : [];
+
+    return this.toDetails(key, template ?? null, versions);
+  }
+
+  /**
+   * Save a new version of a prompt. It is not served until activated or put in an experiment.
+   * The first edit of a prompt also records the built-in default as version 1, so it can be compared.
+   */
+  async createVersion(
+    key: PromptKey,
+    input: { content: string; notes?: string },
+    adminId: number
+  ): Promise<PromptTemplateVersion> {
+    const unknown = findPromptVariables(input.content)
+      .filter(name => !DEFAULT_PROMPTS[key].variables.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown prompt variables: ${unknown.join(', ')}`);
+    }
+
+    const template = await this.ensureTemplate(key);
+    const [latest] = await db
+      .select({ version: sql<number>`COALESCE(MAX(${promptTemplateVersions.version}), 0)` })
+      .from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, template.id));
+
+    const [version] = await db
+      .insert(promptTemplateVersions)
+      .values({
+        templateId: template.id,
+        version: Number(latest?.version ?? 0) + 1,
+        content: input.content,
+        notes: input.notes ?? null,
+        createdBy: adminId,
+      })
+      .returning();
+
+    logger.info('Prompt version created', { key, version: version.version, adminId });
+    return version;
+  }
+
+  /**
+   * Serve a version to everyone outside the experiment
+   */
+  async activateVersion(key: PromptKey, versionId: number): Promise<PromptTemplate> {
+    const template = await this.getTemplateVersion(key, versionId);
+
+    const [updated] = await db
+      .update(promptTemplates)
+      .set({
+        activeVersionId: versionId,
+        // Activating the experiment version ends the experiment
+        ...(template.experimentVersionId === versionId ? { experimentVersionId: null } : {}),
+        updatedAt: sql`NOW()`,
+      })
+      .where(eq(promptTemplates.id, template.id))
+      .returning();
+
+    if (template.experimentVersionId === versionId && template.experimentFlag) {
+      await featureFlagService.upsertFeatureFlag(template.experimentFlag, { enabled: false, rolloutPercentage: 0 });
+    }
+
+    this.invalidateCache(key);
+    logger.info('Prompt version activated', { key, versionId });
+    return updated;
+  }
+
+  /**
+   * Serve a version to a percentage of users, through the template's experiment feature flag
+   */
+  async startExperiment(key: PromptKey, versionId: number, rolloutPercentage: number): Promise<PromptTemplate> {
+    const template = await this.getTemplateVersion(key, versionId);
+    if (template.activeVersionId === versionId) {
+      throw new Error('The active version cannot be its own experiment');
+    }
+
+    const flagName = experimentFlagName(key);
+    await featureFlagService.upsertFeatureFlag(flagName, {
+      description: `Serves prompt "${DEFAULT_PROMPTS[key].name}" version ${versionId} instead of the active version`,
+      enabled: true,
+      rolloutPercentage,
+    });
+
+    const [updated] = await db
+      .update(promptTemplates)
+      .set({ experimentVersionId: versionId, experimentFlag: flagName, updatedAt: sql`NOW()` })
+      .where(eq(promptTemplates.id, template.id))
+      .returning();
+
+    this.invalidateCache(key);
+    logger.info('Prompt experiment started', { key, versionId, rolloutPercentage });
+    return updated;
+  }
+
+  /**
+   * Stop serving the experiment version; everyone gets the active version again
+   */
+  async stopExperiment(key: PromptKey): Promise<PromptTemplate | null> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.key, key)).limit(1);
+    if (!template) {
+      return null;
+    }
+
+    if (template.experimentFlag) {
+      await featureFlagService.upsertFeatureFlag(template.experimentFlag, { enabled: false, rolloutPercentage: 0 });
+    }
+
+    const [updated] = await db
+      .update(promptTemplates)
+      .set({ experimentVersionId: null, updatedAt: sql`NOW()` })
+      .where(eq(promptTemplates.id, template.id))
+      .returning();
+
+    this.invalidateCache(key);
+    logger.info('Prompt experiment stopped', { key });
+    return updated;
+  }
+
+  /**
+   * How each version's conversation answers were rated.
+   * Answers record the prompt version they were generated with; ratings come from
+   * POST /api/conversations/messages/:messageId/rate.
+   */
+  async getVersionMetrics(key: PromptKey): Promise<PromptVersionMetrics[]> {
+    const details = await this.getTemplate(key);
+    if (!details.template || details.versions.length === 0) {
+      return [];
+    }
+
+    const quality = await calculatePromptVersionQuality(details.versions.map(v => v.id));
+
+    return details.versions.map(version => {
+      const stats = quality.find(q => q.versionId === version.id);
+      return {
+        versionId: version.id,
+        version: version.version,
+        active: details.template!.activeVersionId === version.id,
+        experiment: details.template!.experimentVersionId === version.id,
+        answers: stats?.answers ?? 0,
+        ratedAnswers: stats?.ratedAnswers ?? 0,
+        avgRating: stats?.avgRating ?? null,
+        positiveRate: stats?.positiveRate ?? null,
+        avgResponseTime: stats?.avgResponseTime ?? null,
+        avgTokens: stats?.avgTokens ?? null,
+      };
+    });
+  }
+
+  /**
+   * Clear cached templates
+   */
+  clearCache(): void {
+    this.cache.clear();
+    this.cacheExpiry.clear();
+  }
+
+  /**
+   * Template row for a prompt, created with the built-in default as version 1 on first edit
+   */
+  private async ensureTemplate(key: PromptKey): Promise<PromptTemplate> {
+    const [existing] = await db.select().from(promptTemplates).where(eq(promptTemplates.key, key)).limit(1);
+    if (existing) {
+      return existing;
+    }
+
+    const defaults = DEFAULT_PROMPTS[key];
+    const [created] = await db
+      .insert(promptTemplates)
+      .values({
+        key,
+        name: defaults.name,
+        description: defaults.description,
+        variables: defaults.variables,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!created) {
+      // Created by a concurrent edit
+      const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.key, key)).limit(1);
+      return template;
+    }
+
+    const [baseline] = await db
+      .insert(promptTemplateVersions)
+      .values({
+        templateId: created.id,
+        version: 1,
+        content: defaults.content,
+        notes: 'Built-in default',
+      })
+      .returning();
+
+    const [template] = await db
+      .update(promptTemplates)
+      .set({ activeVersionId: baseline.id })
+      .where(eq(promptTemplates.id, created.id))
+      .returning();
+
+    this.invalidateCache(key);
+    return template;
+  }
+
+  /**
+   * A prompt's template, checking the version belongs to it
+   */
+  private async getTemplateVersion(key: PromptKey, versionId: number): Promise<PromptTemplate> {
+    const [row] = await db
+      .select({ template: promptTemplates })
+      .from(promptTemplateVersions)
+      .innerJoin(promptTemplates, eq(promptTemplates.id, promptTemplateVersions.templateId))
+      .where(and(eq(promptTemplateVersions.id, versionId), eq(promptTemplates.key, key)))
+      .limit(1);
+
+    if (!row) {
+      throw new Error(`Prompt version not found: ${key} ${versionId}`);
+    }
+
+    return row.template;
+  }
+
+  private async getCachedTemplate(key: PromptKey): Promise<CachedTemplate | null> {
+    const expiry = this.cacheExpiry.get(key);
+    if (expiry && Date.now() < expiry) {
+      return this.cache.get(key) ?? null;
+    }
+
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.key, key)).limit(1);
+    let cached: CachedTemplate | null = null;
+
+    if (template) {
+      const versionIds = [template.activeVersionId, template.experimentVersionId].filter((id): id is number => id !== null);
+      const versions = versionIds.length > 0
+        ? await db.select().from(promptTemplateVersions).where(inArray(promptTemplateVersions.id, versionIds))
+        : [];
+
+      cached = {
+        template,
+        active: versions.find(v => v.id === template.activeVersionId) ?? null,
+        experiment: versions.find(v => v.id === template.experimentVersionId) ?? null,
+      };
+    }
+
+    this.cache.set(key, cached);
+    this.cacheExpiry.set(key, Date.now() + this.CACHE_TTL);
+    return cached;
+  }
+
+  private invalidateCache(key: string): void {
+    this.cache.delete(key);
+    this.cacheExpiry.delete(key);
+  }
+
+  private toRendered(
+    version: PromptTemplateVersion,
+    variables: Record<string, string | number | null | undefined>,
+    experiment: boolean
+  ): RenderedPrompt {
+    return {
+      content: renderPrompt(version.content, variables),
+      versionId: version.id,
+      version: version.version,
+      experiment,
+    };
+  }
+
+  private async toDetails(
+    key: PromptKey,
+    template: PromptTemplate | null,
+    versions: PromptTemplateVersion[]
+  ): Promise<PromptTemplateDetails> {
+    const defaults = DEFAULT_PROMPTS[key];
+    let experimentRolloutPercentage = 0;
+
+    if (template?.experimentVersionId && template.experimentFlag) {
+      const flag = await featureFlagService.getFeatureFlag(template.experimentFlag);
+      experimentRolloutPercentage = flag?.enabled ? flag.rolloutPercentage : 0;
+    }
+
+    return {
+      key,
+      name: defaults.name,
+      description: defaults.description,
+      variables: defaults.variables,
+      defaultContent: defaults.content,
+      template,
+      versions,
+      experimentRolloutPercentage,
+    };
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService();
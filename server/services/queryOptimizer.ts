@@ -365,6 +365,7 @@ export async function prefetchPlanData(planIds: number[]) {
  */
 export async function invalidatePlanCache(planId: number) {
   await cacheService.invalidateEntity('plan', planId);
+  await cacheService.delete(cacheService.keys.plan(planId));
   await cacheService.delete(cacheService.keys.planWithTasks(planId));
   await cacheService.delete(cacheService.keys.planProgress(planId));
 }
@@ -382,6 +383,7 @@ export async function invalidateUserPlansCache(userId: number) {
  */
 export async function invalidateSearchCache(searchId: number) {
   await cacheService.invalidateEntity('search', searchId);
+  await cacheService.delete(cacheService.keys.search(searchId));
   await cacheService.delete(cacheService.keys.searchResults(searchId));
 }
 
@@ -1,6 +1,8 @@
 import { getGeminiClient, isGeminiAvailable } from './geminiConversationService';
 import type { ConversationMessage, SuggestedQuestion } from '@shared/schema';
 import type { SearchResult } from '@shared/schema';
+import { aiBudgetService, type AIBudgetSubject } from './aiBudgetService';
+import { tokenEstimator } from './tokenEstimator';
 
 /**
  * Question Generator Service
@@ -48,6 +50,11 @@ export interface AnalysisData {
   actionPlan?: any;
 }
 
+/**
+ * Most tokens an AI question suggestion may generate
+ */
+const FOLLOW_UP_MAX_OUTPUT_TOKENS = 1000;
+
 /**
  * Question templates by category
  */
@@ -187,16 +194,19 @@ export async function generateInitialQuestions(
  * 
  * @param analysis - Analysis data
  * @param conversationHistory - Previous messages in the conversation
+ * @param subject - User the questions are for, placing them in prompt experiments and charging
+ *   AI-generated questions to their budgets; without one, questions come from templates
  * @returns Array of generated questions with priorities
  */
 export async function generateFollowUpQuestions(
   analysis: AnalysisData,
-  conversationHistory: ConversationMessage[]
+  conversationHistory: ConversationMessage[],
+  subject?: AIBudgetSubject
 ): Promise<GeneratedQuestion[]> {
   // If Gemini is available, use AI to generate contextual questions
-  if (isGeminiAvailable()) {
+  if (isGeminiAvailable() && subject) {
     try {
-      return await generateAIFollowUpQuestions(analysis, conversationHistory);
+      return await generateAIFollowUpQuestions(analysis, conversationHistory, subject);
     } catch (error) {
       console.error('Failed to generate AI follow-up questions:', error);
       // Fall back to template-based generation
@@ -212,7 +222,8 @@ export async function generateFollowUpQuestions(
  */
 async function generateAIFollowUpQuestions(
   analysis: AnalysisData,
-  conversationHistory: ConversationMessage[]
+  conversationHistory: ConversationMessage[],
+  subject: AIBudgetSubject
 ): Promise<GeneratedQuestion[]> {
   try {
     const client = getGeminiClient();
@@ -232,43 +243,31 @@ Feasibility: ${analysis.feasibilityRating || 'N/A'}
 Top Gaps: ${topGaps.map(g => `- ${g.title} (${g.category})`).join('\n')}
     `.trim();
     
-    const prompt = `You are helping generate follow-up questions for a business opportunity analysis conversation.
-
-${analysisContext}
+    const { promptTemplateService } = await import('./promptTemplateService');
+    const { content: prompt } = await promptTemplateService.render(
+      'follow_up_questions',
+      { analysisContext, conversationContext },
+      subject
+    );
 
-Recent Conversation:
-${conversationContext}
-
-Generate 5 relevant follow-up questions that:
-1. Build on what has been discussed
-2. Address gaps in understanding
-3. Help the user make progress
-4. Are specific and actionable
-5. Cover different aspects (market, competition, execution, risks)
-
-For each question, specify:
-- The question text
-- Category: market_validation, competitive_analysis, execution_strategy, or risk_assessment
-- Priority: 0-100 (higher = more important)
-
-Format as JSON array:
-[
-  {"text": "question text", "category": "market_validation", "priority": 85},
-  ...
-]`;
+    const inputTokens = await tokenEstimator.estimateTokens(prompt);
+    const content = await aiBudgetService.runWithinBudget(subject, 'follow_up_questions', {
+      inputTokens,
+      maxOutputTokens: FOLLOW_UP_MAX_OUTPUT_TOKENS,
+    }, async model => {
+      const response = await client.models.generateContent({
+        model,
+        config: {
+          temperature: 0.8,
+          maxOutputTokens: FOLLOW_UP_MAX_OUTPUT_TOKENS,
+        },
+        contents: prompt,
+      });
 
-    // Use the Gemini API (type assertion to work around type issues)
-    const model: any = await (client.models as any).get('gemini-2.5-pro-latest');
-    const response: any = await model.generateContent({
-      config: {
-        temperature: 0.8,
-        maxOutputTokens: 1000,
-      },
-      contents: prompt,
+      const text = response.text || '';
+      return { result: text, inputTokens, outputTokens: await tokenEstimator.estimateTokens(text) };
     });
     
-    const content = response.text || '';
-    
     // Parse JSON response
     try {
       const jsonMatch = content.match(/\[[\s\S]*\]/);
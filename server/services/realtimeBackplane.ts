@@ -0,0 +1,302 @@
+/**
+ * Realtime Backplane
+ *
+ * Connects the WebSocket services of every server instance. Each instance
+ * still delivers to its own sockets directly and publishes the same message
+ * on the backplane for the others; messages an instance published itself are
+ * ignored when they come back.
+ *
+ * - RedisBackplane: Redis pub/sub, used when REDIS_URL is configured
+ * - InMemoryBackplane: in-process fallback for a single instance and for tests,
+ *   where several backplanes on one InMemoryBus stand in for several instances
+ *
+ * ClusterState builds cluster-wide views (room membership, presence) on top:
+ * every instance owns its entries and mirrors everyone else's.
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient, type RedisClientType } from 'redis';
+import { logger } from '../config/logger';
+
+export type BackplaneHandler = (payload: any, origin: string) => void;
+
+export interface RealtimeBackplane {
+  /** Identifies this server instance in published messages */
+  readonly instanceId: string;
+  /** Send to every instance subscribed to the channel, including this one */
+  publish(channel: string, payload: unknown): void;
+  /** Returns a function that unsubscribes the handler */
+  subscribe(channel: string, handler: BackplaneHandler): () => void;
+  close(): Promise<void>;
+}
+
+/**
+ * Message bus shared by in-memory backplanes in one process
+ */
+export class InMemoryBus {
+  private handlers = new Map<string, Set<BackplaneHandler>>();
+
+  connect(instanceId: string = randomUUID()): InMemoryBackplane {
+    return new InMemoryBackplane(this, instanceId);
+  }
+
+  deliver(channel: string, payload: unknown, origin: string): void {
+    // Copy like a network hop would, and deliver asynchronously in publish order
+    const message = JSON.parse(JSON.stringify(payload ?? null));
+    this.handlers.get(channel)?.forEach(handler => {
+      queueMicrotask(() => handler(message, origin));
+    });
+  }
+
+  add(channel: string, handler: BackplaneHandler): void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+    }
+    this.handlers.get(channel)!.add(handler);
+  }
+
+  remove(channel: string, handler: BackplaneHandler): void {
+    this.handlers.get(channel)?.delete(handler);
+  }
+}
+
+export class InMemoryBackplane implements RealtimeBackplane {
+  private subscriptions: Array<{ channel: string; handler: BackplaneHandler }> = [];
+
+  constructor(private bus: InMemoryBus, readonly instanceId: string) {}
+
+  publish(channel: string, payload: unknown): void {
+    this.bus.deliver(channel, payload, this.instanceId);
+  }
+
+  subscribe(channel: string, handler: BackplaneHandler): () => void {
+    const subscription = { channel, handler };
+    this.subscriptions.push(subscription);
+    this.bus.add(channel, handler);
+
+    return () => {
+      this.bus.remove(channel, handler);
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions.forEach(({ channel, handler }) => this.bus.remove(channel, handler));
+    this.subscriptions = [];
+  }
+}
+
+const CHANNEL_PREFIX = 'unbuilt:ws:';
+
+export class RedisBackplane implements RealtimeBackplane {
+  readonly instanceId = randomUUID();
+  private publisher: RedisClientType;
+  private subscriber: RedisClientType;
+  private handlers = new Map<string, Set<BackplaneHandler>>();
+  private ready: Promise<void>;
+
+  constructor(redisUrl: string) {
+    this.publisher = createClient({
+      url: redisUrl,
+      socket: {
+        reconnectStrategy: (retries) => Math.min(retries * 100, 3000),
+      },
+    });
+    this.subscriber = this.publisher.duplicate();
+
+    this.publisher.on('error', (error) => logger.error('Realtime backplane publisher error', { error: error.message }));
+    this.subscriber.on('error', (error) => logger.error('Realtime backplane subscriber error', { error: error.message }));
+
+    this.ready = Promise.all([this.publisher.connect(), this.subscriber.connect()])
+      .then(() => logger.info('Realtime backplane connected to Redis', { instanceId: this.instanceId }))
+      .catch((error) => {
+        // Without Redis this instance keeps serving its own sockets
+        logger.error('Realtime backplane failed to connect; broadcasts stay on this instance', { error });
+      });
+  }
+
+  publish(channel: string, payload: unknown): void {
+    const message = JSON.stringify({ origin: this.instanceId, payload });
+    this.ready
+      .then(() => this.publisher.publish(CHANNEL_PREFIX + channel, message))
+      .catch((error) => logger.error('Realtime backplane publish failed', { channel, error }));
+  }
+
+  subscribe(channel: string, handler: BackplaneHandler): () => void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+      this.ready
+        .then(() => this.subscriber.subscribe(CHANNEL_PREFIX + channel, (message) => this.dispatch(channel, message)))
+        .catch((error) => logger.error('Realtime backplane subscribe failed', { channel, error }));
+    }
+    this.handlers.get(channel)!.add(handler);
+
+    return () => {
+      const handlers = this.handlers.get(channel);
+      handlers?.delete(handler);
+      if (handlers && handlers.size === 0) {
+        this.handlers.delete(channel);
+        this.ready
+          .then(() => this.subscriber.unsubscribe(CHANNEL_PREFIX + channel))
+          .catch((error) => logger.error('Realtime backplane unsubscribe failed', { channel, error }));
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    await Promise.allSettled([this.subscriber.close(), this.publisher.close()]);
+  }
+
+  private dispatch(channel: string, message: string): void {
+    try {
+      const { origin, payload } = JSON.parse(message);
+      this.handlers.get(channel)?.forEach(handler => handler(payload, origin));
+    } catch (error) {
+      logger.error('Invalid realtime backplane message', { channel, error });
+    }
+  }
+}
+
+/**
+ * Redis when configured; tests always use the in-process backplane
+ */
+export function createBackplane(redisUrl: string | undefined = process.env.REDIS_URL): RealtimeBackplane {
+  if (redisUrl && process.env.NODE_ENV !== 'test') {
+    return new RedisBackplane(redisUrl);
+  }
+  return new InMemoryBus().connect();
+}
+
+export const realtimeBackplane = createBackplane();
+
+type ClusterStateMessage<T> =
+  | { type: 'set'; key: string; value: T }
+  | { type: 'delete'; key: string }
+  | { type: 'snapshot'; entries: Array<[string, T]> }
+  | { type: 'sync-request' }
+  | { type: 'heartbeat' }
+  | { type: 'leave' };
+
+interface RemoteEntries<T> {
+  lastSeen: number;
+  entries: Map<string, T>;
+}
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const STALE_AFTER_MS = 35 * 1000;
+
+/**
+ * Key-value state where each instance owns its own entries and mirrors every other instance's
+ * An instance that stops sending heartbeats (e.g. it crashed) drops out of the mirror
+ */
+export class ClusterState<T> {
+  private localEntries = new Map<string, T>();
+  private remote = new Map<string, RemoteEntries<T>>();
+  private unsubscribe: () => void;
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private backplane: RealtimeBackplane, private name: string) {
+    this.unsubscribe = backplane.subscribe(this.channel, (message, origin) => this.handleMessage(message, origin));
+    this.heartbeat = setInterval(() => {
+      this.send({ type: 'heartbeat' });
+      this.pruneStale();
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref?.();
+
+    // Ask running instances for what they already hold
+    this.send({ type: 'sync-request' });
+  }
+
+  get local(): ReadonlyMap<string, T> {
+    return this.localEntries;
+  }
+
+  set(key: string, value: T): void {
+    this.localEntries.set(key, value);
+    this.send({ type: 'set', key, value });
+  }
+
+  delete(key: string): void {
+    if (this.localEntries.delete(key)) {
+      this.send({ type: 'delete', key });
+    }
+  }
+
+  /**
+   * Every entry in the cluster with the instance that owns it
+   */
+  entries(): Array<{ key: string; value: T; instanceId: string }> {
+    this.pruneStale();
+
+    const all = Array.from(this.localEntries, ([key, value]) => ({
+      key,
+      value,
+      instanceId: this.backplane.instanceId,
+    }));
+    this.remote.forEach(({ entries }, instanceId) => {
+      entries.forEach((value, key) => all.push({ key, value, instanceId }));
+    });
+    return all;
+  }
+
+  /**
+   * Stop mirroring and withdraw this instance's entries from the cluster
+   */
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.send({ type: 'leave' });
+    this.unsubscribe();
+    this.localEntries.clear();
+    this.remote.clear();
+  }
+
+  private get channel(): string {
+    return `state:${this.name}`;
+  }
+
+  private send(message: ClusterStateMessage<T>): void {
+    this.backplane.publish(this.channel, message);
+  }
+
+  private handleMessage(message: ClusterStateMessage<T>, origin: string): void {
+    if (origin === this.backplane.instanceId) return;
+
+    if (message.type === 'leave') {
+      this.remote.delete(origin);
+      return;
+    }
+
+    if (message.type === 'sync-request') {
+      this.send({ type: 'snapshot', entries: Array.from(this.localEntries) });
+      return;
+    }
+
+    if (!this.remote.has(origin)) {
+      this.remote.set(origin, { lastSeen: Date.now(), entries: new Map() });
+    }
+    const instance = this.remote.get(origin)!;
+    instance.lastSeen = Date.now();
+
+    switch (message.type) {
+      case 'set':
+        instance.entries.set(message.key, message.value);
+        break;
+      case 'delete':
+        instance.entries.delete(message.key);
+        break;
+      case 'snapshot':
+        instance.entries = new Map(message.entries);
+        break;
+    }
+  }
+
+  private pruneStale(): void {
+    const cutoff = Date.now() - STALE_AFTER_MS;
+    this.remote.forEach((instance, instanceId) => {
+      if (instance.lastSeen < cutoff) {
+        this.remote.delete(instanceId);
+      }
+    });
+  }
+}
@@ -3,20 +3,24 @@ import {
   planTasks,
   planPhases,
   actionPlans,
+  taskDependencies,
   resources,
   resourceCategories,
   type PlanTask,
   type PlanPhase,
   type Resource,
 } from '@shared/schema';
-import { eq, and, lt, gte, desc, sql } from 'drizzle-orm';
+import { eq, and, lt, gte, desc, sql, inArray } from 'drizzle-orm';
+import { computeSchedule } from './scheduleService';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Recommendation types
  */
 export interface Recommendation {
   id: string;
-  type: 'stuck_task' | 'phase_complete' | 'plan_review' | 'task_tip';
+  type: 'stuck_task' | 'phase_complete' | 'plan_review' | 'task_tip' | 'overdue' | 'at_risk';
   priority: 'high' | 'medium' | 'low';
   title: string;
   message: string;
@@ -107,7 +111,7 @@ export class RecommendationService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -120,11 +124,13 @@ export class RecommendationService {
     // Get all recommendation types
     const [
       stuckTaskRecs,
+      dueDateRecs,
       phaseCompleteRecs,
       planReviewRecs,
       taskTipRecs,
     ] = await Promise.all([
       this.detectStuckTasks(planId),
+      this.detectDueDateRisks(planId),
       this.recommendResourcesForCompletedPhases(planId),
       this.detectPlanReviewNeeded(planId),
       this.generateTaskTips(planId),
@@ -132,6 +138,7 @@ export class RecommendationService {
 
     recommendations.push(
       ...stuckTaskRecs,
+      ...dueDateRecs,
       ...phaseCompleteRecs,
       ...planReviewRecs,
       ...taskTipRecs
@@ -199,6 +206,150 @@ export class RecommendationService {
     return recommendations;
   }
 
+  /**
+   * Detect overdue and at-risk tasks and phases
+   * Overdue means the due date has passed with work still open; at risk means
+   * the projected schedule finishes the work after its due date
+   */
+  async detectDueDateRisks(planId: number, now: Date = new Date()): Promise<Recommendation[]> {
+    const [phases, tasks] = await Promise.all([
+      db.select().from(planPhases).where(eq(planPhases.planId, planId)),
+      db.select().from(planTasks).where(eq(planTasks.planId, planId)),
+    ]);
+
+    const isOpen = (task: PlanTask) => task.status === 'not_started' || task.status === 'in_progress';
+    const openTasks = tasks.filter(isOpen);
+    if (openTasks.length === 0 || (!openTasks.some(t => t.dueDate) && !phases.some(p => p.dueDate))) {
+      return [];
+    }
+
+    // Project finish dates from today so at-risk checks account for dependencies
+    const projectedFinish = new Map<number, Date>();
+    const dependencies = await db
+      .select()
+      .from(taskDependencies)
+      .where(inArray(taskDependencies.taskId, tasks.map(t => t.id)));
+    const prerequisites = new Map<number, number[]>();
+    dependencies.forEach(dep => {
+      prerequisites.set(dep.taskId, [...(prerequisites.get(dep.taskId) ?? []), dep.prerequisiteTaskId]);
+    });
+    const phaseOrder = new Map(phases.map(p => [p.id, p.order]));
+    const ordered = [...tasks].sort(
+      (a, b) => ((phaseOrder.get(a.phaseId) ?? 0) - (phaseOrder.get(b.phaseId) ?? 0)) || (a.order - b.order)
+    );
+    try {
+      computeSchedule(planId, ordered, prerequisites, { startDate: now }).tasks.forEach(t => {
+        projectedFinish.set(t.taskId, new Date(t.finishDate));
+      });
+    } catch (error) {
+      // Circular dependencies leave no projection; overdue checks still apply
+      console.error(`Could not project schedule for plan ${planId}:`, error);
+    }
+
+    const dayMs = 1000 * 60 * 60 * 24;
+    const recommendations: Recommendation[] = [];
+
+    for (const task of openTasks) {
+      if (!task.dueDate) continue;
+      const dueDate = new Date(task.dueDate);
+      const finish = projectedFinish.get(task.id);
+
+      if (dueDate < now) {
+        const daysOverdue = Math.max(1, Math.floor((now.getTime() - dueDate.getTime()) / dayMs));
+        recommendations.push({
+          id: `overdue-task-${task.id}`,
+          type: 'overdue',
+          priority: 'high',
+          title: 'Task Overdue',
+          message: `"${task.title}" was due ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''} ago. Finish it, or move the due date if the plan has changed.`,
+          actionable: true,
+          metadata: {
+            taskId: task.id,
+            planId,
+            phaseId: task.phaseId,
+            dueDate: task.dueDate,
+            daysOverdue,
+          },
+          createdAt: new Date(),
+        });
+      } else if (finish && finish > dueDate) {
+        const daysLate = Math.ceil((finish.getTime() - dueDate.getTime()) / dayMs);
+        recommendations.push({
+          id: `at-risk-task-${task.id}`,
+          type: 'at_risk',
+          priority: 'medium',
+          title: 'Task At Risk',
+          message: `"${task.title}" is projected to finish ${daysLate} day${daysLate !== 1 ? 's' : ''} after its due date.`,
+          actionable: true,
+          metadata: {
+            taskId: task.id,
+            planId,
+            phaseId: task.phaseId,
+            dueDate: task.dueDate,
+            projectedFinish: finish.toISOString(),
+            daysLate,
+            suggestions: [
+              'Start the task or its prerequisites sooner',
+              'Reduce the scope or split the task',
+              'Move the due date if it is no longer realistic',
+            ],
+          },
+          createdAt: new Date(),
+        });
+      }
+    }
+
+    for (const phase of phases) {
+      if (!phase.dueDate) continue;
+      const phaseTasks = openTasks.filter(t => t.phaseId === phase.id);
+      if (phaseTasks.length === 0) continue;
+
+      const dueDate = new Date(phase.dueDate);
+      const finishes = phaseTasks
+        .map(t => projectedFinish.get(t.id)?.getTime())
+        .filter((time): time is number => time !== undefined);
+      const finish = finishes.length > 0 ? new Date(Math.max(...finishes)) : undefined;
+
+      if (dueDate < now) {
+        recommendations.push({
+          id: `overdue-phase-${phase.id}`,
+          type: 'overdue',
+          priority: 'high',
+          title: 'Phase Overdue',
+          message: `${phase.name} is past its due date with ${phaseTasks.length} task${phaseTasks.length !== 1 ? 's' : ''} still open.`,
+          actionable: true,
+          metadata: {
+            phaseId: phase.id,
+            planId,
+            dueDate: phase.dueDate,
+            openTasks: phaseTasks.length,
+          },
+          createdAt: new Date(),
+        });
+      } else if (finish && finish > dueDate) {
+        const daysLate = Math.ceil((finish.getTime() - dueDate.getTime()) / dayMs);
+        recommendations.push({
+          id: `at-risk-phase-${phase.id}`,
+          type: 'at_risk',
+          priority: 'medium',
+          title: 'Phase At Risk',
+          message: `${phase.name} is projected to finish ${daysLate} day${daysLate !== 1 ? 's' : ''} after its due date.`,
+          actionable: true,
+          metadata: {
+            phaseId: phase.id,
+            planId,
+            dueDate: phase.dueDate,
+            projectedFinish: finish.toISOString(),
+            daysLate,
+          },
+          createdAt: new Date(),
+        });
+      }
+    }
+
+    return recommendations;
+  }
+
   /**
    * Recommend resources when phase completes
    * Requirement: 8.2
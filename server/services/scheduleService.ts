@@ -0,0 +1,410 @@
+import { db } from '../db';
+import {
+  planPhases,
+  planTasks,
+  type PlanSchedule,
+  type PlanTask,
+  type TaskSchedule,
+  type WorkingCalendar,
+} from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { dependencyService } from './dependencyService';
+
+/**
+ * Schedule Service
+ * Critical-path scheduling for action plans
+ *
+ * Durations come from the free-text estimatedTime of each task, measured in
+ * working hours on a calendar. Tasks sharing an assignee are levelled so one
+ * person never works two tasks at once, then a classic forward/backward pass
+ * gives earliest/latest times, slack and the critical path.
+ */
+
+export const DEFAULT_CALENDAR: WorkingCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  hoursPerDay: 8,
+  dayStartHour: 9,
+  holidays: [],
+};
+
+// Used when a task has no estimate or one we can't parse
+const DEFAULT_TASK_HOURS = 4;
+const EPSILON = 1e-6;
+
+type SchedulableTask = Pick<PlanTask, 'id' | 'title' | 'phaseId' | 'assigneeId' | 'status' | 'estimatedTime'> & {
+  startDate?: string | null;
+};
+
+export interface ScheduleOptions {
+  startDate?: Date;
+  calendar?: WorkingCalendar;
+  /** Hours per working day each assignee can put into the plan, keyed by user ID */
+  capacity?: Record<number, number>;
+}
+
+/**
+ * Parse a free-text estimate ("4 hours", "2-3 days", "1 week", "30 min") into
+ * working hours. Ranges use the upper bound; days, weeks and months are
+ * converted with the calendar's working hours.
+ */
+export function parseEstimatedHours(
+  estimate: string | null | undefined,
+  calendar: WorkingCalendar = DEFAULT_CALENDAR
+): number | null {
+  if (!estimate) {
+    return null;
+  }
+
+  const match = estimate.match(
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(months?|mo|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w)\b/i
+  );
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[2] ?? match[1]);
+  const unit = match[3].toLowerCase();
+  const hoursPerWeek = calendar.hoursPerDay * calendar.workingDays.length;
+
+  if (unit.startsWith('mo')) return value * hoursPerWeek * 4;
+  if (unit.startsWith('m')) return value / 60;
+  if (unit.startsWith('h')) return value;
+  if (unit.startsWith('d')) return value * calendar.hoursPerDay;
+  return value * hoursPerWeek;
+}
+
+function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  return calendar.workingDays.includes(date.getUTCDay()) &&
+    !calendar.holidays.includes(date.toISOString().slice(0, 10));
+}
+
+function nextWorkingDayStart(date: Date, calendar: WorkingCalendar): Date {
+  const next = new Date(date);
+  do {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } while (!isWorkingDay(next, calendar));
+  next.setUTCHours(calendar.dayStartHour, 0, 0, 0);
+  return next;
+}
+
+/**
+ * Move forward by a number of working hours (UTC). A task that uses up a day
+ * exactly finishes at the end of that day rather than the next morning.
+ */
+export function addWorkingHours(start: Date, hours: number, calendar: WorkingCalendar): Date {
+  let current = new Date(start);
+  const dayEndHour = calendar.dayStartHour + calendar.hoursPerDay;
+  const hourOf = (date: Date) => date.getUTCHours() + date.getUTCMinutes() / 60;
+
+  // Snap to the next working moment
+  if (!isWorkingDay(current, calendar) || hourOf(current) >= dayEndHour) {
+    current = nextWorkingDayStart(current, calendar);
+  } else if (hourOf(current) < calendar.dayStartHour) {
+    current.setUTCHours(calendar.dayStartHour, 0, 0, 0);
+  }
+
+  let remaining = hours;
+  while (remaining > EPSILON) {
+    const available = dayEndHour - hourOf(current);
+    if (remaining <= available + EPSILON) {
+      return new Date(current.getTime() + remaining * 60 * 60 * 1000);
+    }
+    remaining -= available;
+    current = nextWorkingDayStart(current, calendar);
+  }
+
+  return current;
+}
+
+/**
+ * Count the working hours between two instants (UTC), zero if `to` is not later
+ */
+export function workingHoursBetween(from: Date, to: Date, calendar: WorkingCalendar): number {
+  const dayEndHour = calendar.dayStartHour + calendar.hoursPerDay;
+  let current = addWorkingHours(from, 0, calendar);
+  let hours = 0;
+
+  while (current < to) {
+    const dayEnd = new Date(current);
+    dayEnd.setUTCHours(dayEndHour, 0, 0, 0);
+
+    if (to <= dayEnd) {
+      hours += (to.getTime() - current.getTime()) / (60 * 60 * 1000);
+      break;
+    }
+    hours += (dayEnd.getTime() - current.getTime()) / (60 * 60 * 1000);
+    current = nextWorkingDayStart(current, calendar);
+  }
+
+  return hours;
+}
+
+/**
+ * Compute the schedule for a set of tasks. Tasks should be passed in plan
+ * order; it breaks ties when several tasks could start at the same time.
+ */
+export function computeSchedule(
+  planId: number,
+  tasks: SchedulableTask[],
+  prerequisites: Map<number, number[]>,
+  options: ScheduleOptions = {}
+): PlanSchedule {
+  const calendar = options.calendar ?? DEFAULT_CALENDAR;
+  const startDate = options.startDate ?? new Date();
+  const capacity = options.capacity ?? {};
+  const taskIds = new Set(tasks.map(t => t.id));
+  const indexOf = new Map(tasks.map((t, i) => [t.id, i]));
+
+  // Durations in working hours, stretched for part-time assignees
+  const durations = new Map<number, { hours: number; source: TaskSchedule['estimateSource'] }>();
+  for (const task of tasks) {
+    if (task.status === 'completed' || task.status === 'skipped') {
+      durations.set(task.id, { hours: 0, source: 'done' });
+      continue;
+    }
+    const parsed = parseEstimatedHours(task.estimatedTime, calendar);
+    const effort = parsed ?? DEFAULT_TASK_HOURS;
+    const assigneeHours = task.assigneeId != null ? capacity[task.assigneeId] : undefined;
+    const hours = assigneeHours ? effort * (calendar.hoursPerDay / assigneeHours) : effort;
+    durations.set(task.id, { hours: Math.round(hours * 100) / 100, source: parsed === null ? 'default' : 'parsed' });
+  }
+  const duration = (id: number) => durations.get(id)!.hours;
+
+  // Pinned start dates become "start no earlier than" offsets
+  const pinned = new Map<number, number>();
+  for (const task of tasks) {
+    if (task.startDate && durations.get(task.id)!.source !== 'done') {
+      pinned.set(task.id, workingHoursBetween(startDate, new Date(task.startDate), calendar));
+    }
+  }
+
+  const preds = new Map<number, number[]>();
+  const succs = new Map<number, number[]>();
+  for (const task of tasks) {
+    preds.set(task.id, (prerequisites.get(task.id) ?? []).filter(id => taskIds.has(id)));
+    succs.set(task.id, []);
+  }
+  preds.forEach((list, id) => list.forEach(pred => succs.get(pred)!.push(id)));
+
+  // Unconstrained backward pass gives the levelling priority (latest start)
+  const topoOrder = topologicalOrder(tasks.map(t => t.id), preds, succs, indexOf);
+  const priority = backwardPass(topoOrder, succs, duration, forwardPass(topoOrder, preds, duration, pinned).finish);
+
+  // Serial levelling: take the eligible task with the least latest start,
+  // and chain it after whatever its assignee did last
+  const scheduledOrder: number[] = [];
+  const resourcePred = new Map<number, number>();
+  const lastByAssignee = new Map<number, number>();
+  const remainingPreds = new Map(tasks.map(t => [t.id, preds.get(t.id)!.length]));
+  const eligible = tasks.filter(t => remainingPreds.get(t.id) === 0).map(t => t.id);
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+
+  while (eligible.length > 0) {
+    eligible.sort((a, b) => (priority.latestStart.get(a)! - priority.latestStart.get(b)!) || (indexOf.get(a)! - indexOf.get(b)!));
+    const id = eligible.shift()!;
+    scheduledOrder.push(id);
+
+    const assigneeId = taskById.get(id)!.assigneeId;
+    if (assigneeId != null && duration(id) > 0) {
+      const previous = lastByAssignee.get(assigneeId);
+      if (previous !== undefined) resourcePred.set(id, previous);
+      lastByAssignee.set(assigneeId, id);
+    }
+
+    for (const succ of succs.get(id)!) {
+      remainingPreds.set(succ, remainingPreds.get(succ)! - 1);
+      if (remainingPreds.get(succ) === 0) eligible.push(succ);
+    }
+  }
+
+  // CPM over dependencies plus the assignee chains
+  const allPreds = new Map<number, number[]>();
+  const allSuccs = new Map<number, number[]>(tasks.map(t => [t.id, [...succs.get(t.id)!]]));
+  for (const task of tasks) {
+    const list = [...preds.get(task.id)!];
+    const resource = resourcePred.get(task.id);
+    if (resource !== undefined) {
+      list.push(resource);
+      allSuccs.get(resource)!.push(task.id);
+    }
+    allPreds.set(task.id, list);
+  }
+
+  const forward = forwardPass(scheduledOrder, allPreds, duration, pinned);
+  const backward = backwardPass(scheduledOrder, allSuccs, duration, forward.finish);
+
+  const scheduled: TaskSchedule[] = tasks.map(task => {
+    const earliestStart = forward.earliestStart.get(task.id)!;
+    // Work that starts where a day ends begins the next working morning
+    const start = addWorkingHours(startDate, earliestStart, calendar);
+    const earliestFinish = earliestStart + duration(task.id);
+    const latestStart = backward.latestStart.get(task.id)!;
+    const slackHours = Math.max(0, latestStart - earliestStart);
+
+    return {
+      taskId: task.id,
+      title: task.title,
+      phaseId: task.phaseId,
+      assigneeId: task.assigneeId,
+      status: task.status,
+      durationHours: duration(task.id),
+      estimateSource: durations.get(task.id)!.source,
+      earliestStart: round(earliestStart),
+      earliestFinish: round(earliestFinish),
+      latestStart: round(latestStart),
+      latestFinish: round(latestStart + duration(task.id)),
+      slackHours: round(slackHours),
+      isCritical: duration(task.id) > 0 && slackHours < EPSILON,
+      startDate: (duration(task.id) > 0 ? addWorkingHours(start, 0, calendar) : start).toISOString(),
+      finishDate: addWorkingHours(startDate, earliestFinish, calendar).toISOString(),
+    };
+  });
+
+  return {
+    planId,
+    startDate: startDate.toISOString(),
+    finishDate: addWorkingHours(startDate, forward.finish, calendar).toISOString(),
+    totalWorkingHours: round(forward.finish),
+    calendar,
+    criticalPath: traceCriticalPath(scheduled, allPreds),
+    tasks: scheduled,
+  };
+}
+
+function topologicalOrder(
+  ids: number[],
+  preds: Map<number, number[]>,
+  succs: Map<number, number[]>,
+  indexOf: Map<number, number>
+): number[] {
+  const inDegree = new Map(ids.map(id => [id, preds.get(id)!.length]));
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const order: number[] = [];
+
+  while (queue.length > 0) {
+    queue.sort((a, b) => indexOf.get(a)! - indexOf.get(b)!);
+    const id = queue.shift()!;
+    order.push(id);
+    for (const succ of succs.get(id)!) {
+      inDegree.set(succ, inDegree.get(succ)! - 1);
+      if (inDegree.get(succ) === 0) queue.push(succ);
+    }
+  }
+
+  if (order.length !== ids.length) {
+    throw new Error('Circular dependency detected in plan');
+  }
+
+  return order;
+}
+
+function forwardPass(
+  order: number[],
+  preds: Map<number, number[]>,
+  duration: (id: number) => number,
+  pinned: Map<number, number>
+) {
+  const earliestStart = new Map<number, number>();
+  let finish = 0;
+
+  for (const id of order) {
+    const start = Math.max(pinned.get(id) ?? 0, ...preds.get(id)!.map(pred => earliestStart.get(pred)! + duration(pred)));
+    earliestStart.set(id, start);
+    finish = Math.max(finish, start + duration(id));
+  }
+
+  return { earliestStart, finish };
+}
+
+function backwardPass(
+  order: number[],
+  succs: Map<number, number[]>,
+  duration: (id: number) => number,
+  projectFinish: number
+) {
+  const latestStart = new Map<number, number>();
+
+  for (const id of [...order].reverse()) {
+    const latestFinish = Math.min(projectFinish, ...succs.get(id)!.map(succ => latestStart.get(succ)!));
+    latestStart.set(id, latestFinish - duration(id));
+  }
+
+  return { latestStart };
+}
+
+/**
+ * Walk back from the last critical task through critical predecessors that
+ * finish exactly when it starts, giving one unbroken chain
+ */
+function traceCriticalPath(tasks: TaskSchedule[], preds: Map<number, number[]>): number[] {
+  const byId = new Map(tasks.map(t => [t.taskId, t]));
+  const critical = tasks.filter(t => t.isCritical);
+  if (critical.length === 0) {
+    return [];
+  }
+
+  let current: TaskSchedule | undefined = critical.reduce((last, t) => (t.earliestFinish > last.earliestFinish ? t : last));
+  const path: number[] = [];
+
+  while (current) {
+    path.unshift(current.taskId);
+    const start: number = current.earliestStart;
+    current = preds.get(current.taskId)!
+      .map(id => byId.get(id)!)
+      .find(pred => pred.isCritical && Math.abs(pred.earliestFinish - start) < 0.01);
+  }
+
+  return path;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class ScheduleService {
+  /**
+   * Load a plan's tasks and dependencies and compute its schedule
+   */
+  async getPlanSchedule(planId: number, userId: number, options: ScheduleOptions = {}): Promise<PlanSchedule> {
+    // Also verifies the user has access to the plan
+    const dependencyMap = await dependencyService.getPlanDependencies(planId, userId);
+
+    const [phases, tasks] = await Promise.all([
+      db.select().from(planPhases).where(eq(planPhases.planId, planId)),
+      db.select().from(planTasks).where(eq(planTasks.planId, planId)),
+    ]);
+
+    const phaseOrder = new Map(phases.map(p => [p.id, p.order]));
+    tasks.sort((a, b) => ((phaseOrder.get(a.phaseId) ?? 0) - (phaseOrder.get(b.phaseId) ?? 0)) || (a.order - b.order));
+
+    const prerequisites = new Map<number, number[]>();
+    dependencyMap.forEach((value, taskId) => prerequisites.set(taskId, value.prerequisites));
+
+    return computeSchedule(planId, tasks, prerequisites, options);
+  }
+
+  /**
+   * Find a prerequisite the schedule has finishing after the given start, if any
+   * A task pinned to that start could not actually begin then
+   */
+  async findBlockingPrerequisite(
+    planId: number,
+    userId: number,
+    taskId: number,
+    start: Date,
+    options: ScheduleOptions = {}
+  ): Promise<TaskSchedule | null> {
+    const dependencyMap = await dependencyService.getPlanDependencies(planId, userId);
+    const prerequisites = dependencyMap.get(taskId)?.prerequisites || [];
+    if (prerequisites.length === 0) {
+      return null;
+    }
+
+    const schedule = await this.getPlanSchedule(planId, userId, options);
+    return schedule.tasks.find(t =>
+      prerequisites.includes(t.taskId) && new Date(t.finishDate).getTime() > start.getTime()
+    ) ?? null;
+  }
+}
+
+export const scheduleService = new ScheduleService();
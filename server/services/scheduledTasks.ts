@@ -1,9 +1,13 @@
 import { sessionManager } from './sessionManager';
 import { performSessionCleanup } from '../middleware/sessionManagement';
+import { aiCache } from './ai-cache';
+import { notificationService } from './notificationService';
 
 export class ScheduledTaskService {
   private cleanupInterval: NodeJS.Timeout | null = null;
   private statsInterval: NodeJS.Timeout | null = null;
+  private cachePurgeInterval: NodeJS.Timeout | null = null;
+  private overdueCheckInterval: NodeJS.Timeout | null = null;
 
   /**
    * Start all scheduled tasks
@@ -16,6 +20,12 @@ export class ScheduledTaskService {
     
     // Session statistics logging every hour
     this.startSessionStatsLogging();
+    
+    // Expired gap analysis cache purge every 6 hours
+    this.startGapCachePurge();
+    
+    // Overdue task notifications every hour
+    this.startOverdueTaskCheck();
   }
 
   /**
@@ -33,6 +43,16 @@ export class ScheduledTaskService {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    
+    if (this.cachePurgeInterval) {
+      clearInterval(this.cachePurgeInterval);
+      this.cachePurgeInterval = null;
+    }
+    
+    if (this.overdueCheckInterval) {
+      clearInterval(this.overdueCheckInterval);
+      this.overdueCheckInterval = null;
+    }
   }
 
   /**
@@ -73,6 +93,40 @@ export class ScheduledTaskService {
     console.log('✅ Session stats logging started (runs every hour)');
   }
 
+  /**
+   * Start expired gap analysis cache purge
+   */
+  private startGapCachePurge(): void {
+    this.cachePurgeInterval = setInterval(async () => {
+      try {
+        const purged = await aiCache.purgeExpired();
+        if (purged > 0) {
+          console.log(`🧹 Purged ${purged} expired gap analysis cache entries`);
+        }
+      } catch (error) {
+        console.error('Gap analysis cache purge failed:', error);
+      }
+    }, 6 * 60 * 60 * 1000); // 6 hours
+
+    console.log('✅ Gap analysis cache purge started (runs every 6 hours)');
+  }
+
+  /**
+   * Start overdue task notifications
+   * Runs hourly; repeat notifications are throttled per user preferences
+   */
+  private startOverdueTaskCheck(): void {
+    this.overdueCheckInterval = setInterval(async () => {
+      try {
+        await notificationService.processOverdueTasks();
+      } catch (error) {
+        console.error('Overdue task check failed:', error);
+      }
+    }, 60 * 60 * 1000); // 1 hour
+
+    console.log('✅ Overdue task check started (runs every hour)');
+  }
+
   /**
    * Log session statistics
    */
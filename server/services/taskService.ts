@@ -11,6 +11,8 @@ import {
   type InsertTaskHistory,
 } from '@shared/schema';
 import { eq, and, desc, asc, or } from 'drizzle-orm';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Task Service
@@ -20,11 +22,12 @@ import { eq, and, desc, asc, or } from 'drizzle-orm';
 export class TaskService {
   /**
    * Create a new task
-   * Records creation in task history
+   * Records creation in task history; historyContext (e.g. the change's source) is stored with it
    */
   async createTask(
     taskData: InsertPlanTask,
-    userId: number
+    userId: number,
+    historyContext?: Record<string, unknown>
   ): Promise<PlanTask> {
     // Verify phase exists and user has access to the plan
     const phase = await db
@@ -43,7 +46,7 @@ export class TaskService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, taskData.planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .limit(1);
 
@@ -67,7 +70,7 @@ export class TaskService {
       userId,
       'created',
       null,
-      newTask
+      historyContext ? { ...newTask, ...historyContext } : newTask
     );
 
     return newTask;
@@ -75,9 +78,13 @@ export class TaskService {
 
   /**
    * Get task by ID
-   * Verifies user has access to the task's plan
+   * Verifies user has access to the task's plan: ownership, or a team role granting the permission
    */
-  async getTaskById(taskId: number, userId: number): Promise<PlanTask | null> {
+  async getTaskById(
+    taskId: number,
+    userId: number,
+    permission: TeamPermission = TeamPermission.VIEW
+  ): Promise<PlanTask | null> {
     const [task] = await db
       .select({
         task: planTasks,
@@ -87,7 +94,7 @@ export class TaskService {
       .innerJoin(actionPlans, eq(planTasks.planId, actionPlans.id))
       .where(and(
         eq(planTasks.id, taskId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, permission)
       ))
       .limit(1);
 
@@ -112,7 +119,7 @@ export class TaskService {
       .innerJoin(actionPlans, eq(planPhases.planId, actionPlans.id))
       .where(and(
         eq(planPhases.id, phaseId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -145,7 +152,7 @@ export class TaskService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -173,14 +180,16 @@ export class TaskService {
    * Update task
    * Records update in task history with previous and new state
    * Marks task as custom if it wasn't already (preserves original AI-generated content)
+   * phaseId is only for callers that have already resolved the phase within the plan
    */
   async updateTask(
     taskId: number,
     userId: number,
-    updates: UpdatePlanTask
+    updates: UpdatePlanTask & { phaseId?: number },
+    historyContext?: Record<string, unknown>
   ): Promise<PlanTask> {
     // Get current task state
-    const currentTask = await this.getTaskById(taskId, userId);
+    const currentTask = await this.getTaskById(taskId, userId, TeamPermission.EDIT);
     if (!currentTask) {
       throw new Error('Task not found or access denied');
     }
@@ -188,12 +197,18 @@ export class TaskService {
     // If this is the first edit of an AI-generated task, mark it as custom
     // This preserves the original AI-generated content in the task history
     const isFirstEdit = !currentTask.isCustom;
+
+    // Compare instants, since the database and clients format the same timestamp differently
+    const dueTime = (dueDate: string | null | undefined) => (dueDate ? new Date(dueDate).getTime() : null);
+    const dueDateChanged = updates.dueDate !== undefined && dueTime(updates.dueDate) !== dueTime(currentTask.dueDate);
     
     // Update the task
     const [updatedTask] = await db
       .update(planTasks)
       .set({
         ...updates,
+        // A new due date deserves a fresh overdue notification
+        ...(dueDateChanged ? { overdueNotifiedAt: null } : {}),
         // Mark as custom if this is the first edit of an AI-generated task
         isCustom: isFirstEdit ? true : currentTask.isCustom,
         updatedAt: new Date().toISOString(),
@@ -207,7 +222,7 @@ export class TaskService {
       userId,
       'updated',
       currentTask,
-      updatedTask
+      historyContext ? { ...updatedTask, ...historyContext } : updatedTask
     );
 
     return updatedTask;
@@ -223,10 +238,11 @@ export class TaskService {
     taskId: number,
     userId: number,
     status: 'not_started' | 'in_progress' | 'completed' | 'skipped',
-    overridePrerequisites: boolean = false
+    overridePrerequisites: boolean = false,
+    historyContext?: Record<string, unknown>
   ): Promise<PlanTask> {
     // Get current task state
-    const currentTask = await this.getTaskById(taskId, userId);
+    const currentTask = await this.getTaskById(taskId, userId, TeamPermission.EDIT);
     if (!currentTask) {
       throw new Error('Task not found or access denied');
     }
@@ -260,9 +276,11 @@ export class TaskService {
                    status === 'skipped' ? 'skipped' : 'updated';
     
     // If override was used, record it in the history
-    const historyState = overridePrerequisites 
-      ? { ...updatedTask, overridePrerequisites: true }
-      : updatedTask;
+    const historyState = {
+      ...updatedTask,
+      ...(overridePrerequisites ? { overridePrerequisites: true } : {}),
+      ...historyContext,
+    };
     
     await this.recordTaskHistory(
       taskId,
@@ -286,7 +304,7 @@ export class TaskService {
    */
   async deleteTask(taskId: number, userId: number): Promise<void> {
     // Get current task state
-    const currentTask = await this.getTaskById(taskId, userId);
+    const currentTask = await this.getTaskById(taskId, userId, TeamPermission.EDIT);
     if (!currentTask) {
       throw new Error('Task not found or access denied');
     }
@@ -332,7 +350,7 @@ export class TaskService {
       .innerJoin(actionPlans, eq(planPhases.planId, actionPlans.id))
       .where(and(
         eq(planPhases.id, phaseId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .limit(1);
 
@@ -468,7 +486,7 @@ export class TaskService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.VIEW)
       ))
       .limit(1);
 
@@ -11,6 +11,8 @@ import {
   type InsertPlanTask,
 } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
+import { TeamPermission } from './authorizationService';
+import { workspaceService } from './workspaceService';
 
 /**
  * Template Service
@@ -148,7 +150,7 @@ export class TemplateService {
       .from(actionPlans)
       .where(and(
         eq(actionPlans.id, planId),
-        eq(actionPlans.userId, userId)
+        workspaceService.accessCondition(actionPlans, userId, TeamPermission.EDIT)
       ))
       .limit(1);
 
@@ -1,6 +1,6 @@
 import { db } from '../db';
 import { conversationAnalytics, conversationMessages, conversations, users } from '@shared/schema';
-import { eq, and, sql, gte } from 'drizzle-orm';
+import { eq, and, isNull, sql, gte } from 'drizzle-orm';
 
 /**
  * Usage Tracking Service
@@ -231,14 +231,16 @@ export async function getAnalysisUsageStats(
   userId: number
 ): Promise<AnalysisUsageStats | null> {
   try {
-    // Get conversation for this analysis
+    // Get the main conversation thread for this analysis (branches keep their own analytics)
     const conversation = await db
       .select()
       .from(conversations)
       .where(
         and(
           eq(conversations.analysisId, analysisId),
-          eq(conversations.userId, userId)
+          eq(conversations.userId, userId),
+          isNull(conversations.parentConversationId),
+          eq(conversations.scope, 'analysis')
         )
       )
       .limit(1);
@@ -0,0 +1,311 @@
+/**
+ * Workspace Service
+ *
+ * Searches, action plans, projects and conversations belong to their creator's
+ * personal workspace, or to a team workspace when team_id is set. A team's
+ * active members reach its content according to their role (see TeamRole and
+ * TeamPermission in authorizationService); the creator keeps owner access
+ * either way.
+ */
+
+import { db } from '../db';
+import { and, eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import {
+  actionPlans,
+  conversations,
+  projects,
+  searches,
+  teamMembers,
+  teams,
+  users,
+  type User,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceResourceType,
+} from '@shared/schema';
+import {
+  AuthorizationService,
+  TeamPermission,
+  TeamRole,
+  type WorkspaceResource,
+} from './authorizationService';
+import { invalidatePlanCache, invalidateSearchCache, invalidateUserPlansCache } from './queryOptimizer';
+
+export class WorkspaceService {
+  /**
+   * Get a user's role in a team, or null if they are not an active member
+   * Team owners count as owners even without a member row
+   */
+  async getTeamRole(teamId: number, userId: number): Promise<TeamRole | null> {
+    const [membership] = await db
+      .select({ role: teamMembers.role })
+      .from(teamMembers)
+      .where(and(
+        eq(teamMembers.teamId, teamId),
+        eq(teamMembers.userId, String(userId)),
+        eq(teamMembers.status, 'active')
+      ))
+      .limit(1);
+
+    if (membership && AuthorizationService.isTeamRole(membership.role)) {
+      return membership.role;
+    }
+
+    const [team] = await db
+      .select({ ownerId: teams.ownerId })
+      .from(teams)
+      .where(eq(teams.id, teamId))
+      .limit(1);
+
+    return team && team.ownerId === String(userId) ? TeamRole.OWNER : null;
+  }
+
+  /**
+   * List the team workspaces a user belongs to with their role in each
+   */
+  async listWorkspaces(userId: number): Promise<Workspace[]> {
+    const memberId = String(userId);
+
+    const rows = await db
+      .select({ teamId: teams.id, name: teams.name, ownerId: teams.ownerId, role: teamMembers.role })
+      .from(teams)
+      .leftJoin(teamMembers, and(
+        eq(teamMembers.teamId, teams.id),
+        eq(teamMembers.userId, memberId),
+        eq(teamMembers.status, 'active')
+      ))
+      .where(or(eq(teams.ownerId, memberId), eq(teamMembers.userId, memberId)));
+
+    if (rows.length === 0) return [];
+
+    const counts = await db
+      .select({ teamId: teamMembers.teamId, count: sql<number>`count(*)::int` })
+      .from(teamMembers)
+      .where(and(
+        inArray(teamMembers.teamId, rows.map(row => row.teamId)),
+        eq(teamMembers.status, 'active')
+      ))
+      .groupBy(teamMembers.teamId);
+    const countByTeam = new Map(counts.map(row => [row.teamId, row.count]));
+
+    return rows.map(row => ({
+      teamId: row.teamId,
+      name: row.name,
+      role: row.ownerId === memberId
+        ? TeamRole.OWNER
+        : (row.role && AuthorizationService.isTeamRole(row.role) ? row.role : TeamRole.VIEWER),
+      memberCount: countByTeam.get(row.teamId) ?? 0,
+    }));
+  }
+
+  /**
+   * List a team's active members
+   */
+  async getMembers(teamId: number): Promise<WorkspaceMember[]> {
+    const rows = await db
+      .select({ userId: teamMembers.userId, email: teamMembers.email, role: teamMembers.role })
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.status, 'active')));
+
+    return rows
+      .filter(row => /^\d+$/.test(row.userId) && AuthorizationService.isTeamRole(row.role))
+      .map(row => ({ userId: parseInt(row.userId), email: row.email, role: row.role as TeamRole }));
+  }
+
+  /**
+   * Change an active member's role; returns null if they are not a member
+   */
+  async updateMemberRole(teamId: number, userId: number, role: TeamRole): Promise<WorkspaceMember | null> {
+    const [member] = await db
+      .update(teamMembers)
+      .set({ role })
+      .where(and(
+        eq(teamMembers.teamId, teamId),
+        eq(teamMembers.userId, String(userId)),
+        eq(teamMembers.status, 'active')
+      ))
+      .returning();
+
+    return member ? { userId, email: member.email, role } : null;
+  }
+
+  /**
+   * Remove a member from a team; their content stays in the workspace
+   */
+  async removeMember(teamId: number, userId: number): Promise<boolean> {
+    const removed = await db
+      .delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, String(userId))))
+      .returning({ id: teamMembers.id });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * SQL condition matching rows the user owns or can reach through a team role granting the permission
+   * Built without querying so it can be added to any select, update or delete on a workspace table
+   */
+  accessCondition(
+    resource: { userId: AnyPgColumn; teamId: AnyPgColumn },
+    userId: number,
+    permission: TeamPermission = TeamPermission.VIEW
+  ): SQL {
+    const memberId = String(userId);
+    const roles = AuthorizationService.getTeamRolesWithPermission(permission);
+
+    return or(
+      eq(resource.userId, userId),
+      sql`${resource.teamId} in (select ${teamMembers.teamId} from ${teamMembers} where ${teamMembers.userId} = ${memberId} and ${teamMembers.status} = 'active' and ${inArray(teamMembers.role, roles)})`,
+      sql`${resource.teamId} in (select ${teams.id} from ${teams} where ${teams.ownerId} = ${memberId})`
+    )!;
+  }
+
+  /**
+   * Load a workspace resource by type and ID
+   */
+  async getResource(type: WorkspaceResourceType, id: number): Promise<(WorkspaceResource & { id: number }) | null> {
+    switch (type) {
+      case 'search': {
+        const [search] = await db.select().from(searches).where(eq(searches.id, id)).limit(1);
+        return search || null;
+      }
+      case 'plan': {
+        const [plan] = await db.select().from(actionPlans).where(eq(actionPlans.id, id)).limit(1);
+        return plan || null;
+      }
+      case 'project': {
+        const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
+        return project || null;
+      }
+      case 'conversation': {
+        const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id)).limit(1);
+        return conversation || null;
+      }
+    }
+  }
+
+  /**
+   * Check if a user owns a resource or has a role in its team granting the permission
+   * Same rule as accessCondition, for resources that are already loaded
+   */
+  async hasAccess(
+    userId: number,
+    resource: WorkspaceResource,
+    permission: TeamPermission = TeamPermission.VIEW
+  ): Promise<boolean> {
+    if (resource.userId === userId) {
+      return true;
+    }
+    if (resource.teamId === null) {
+      return false;
+    }
+    return AuthorizationService.hasTeamPermission(await this.getTeamRole(resource.teamId, userId), permission);
+  }
+
+  /**
+   * Check if a user can perform an operation on a resource, looking up their role in its team
+   */
+  async canAccess(
+    user: User,
+    resource: WorkspaceResource,
+    operation: 'read' | 'write' | 'delete' = 'read'
+  ): Promise<boolean> {
+    if (AuthorizationService.canAccessWorkspaceResource(user, resource, null, operation)) {
+      return true;
+    }
+    if (resource.teamId === null) {
+      return false;
+    }
+
+    const role = await this.getTeamRole(resource.teamId, user.id);
+    return AuthorizationService.canAccessWorkspaceResource(user, resource, role, operation);
+  }
+
+  /**
+   * Move a resource into a team workspace, or back to its owner's personal workspace with null
+   * Cached copies carry the old team, so they are dropped before access is checked again
+   */
+  async moveResource(type: WorkspaceResourceType, id: number, teamId: number | null): Promise<void> {
+    const updatedAt = new Date().toISOString();
+
+    switch (type) {
+      case 'search':
+        await db.update(searches).set({ teamId }).where(eq(searches.id, id));
+        await invalidateSearchCache(id);
+        break;
+      case 'plan': {
+        const [plan] = await db
+          .update(actionPlans)
+          .set({ teamId, updatedAt })
+          .where(eq(actionPlans.id, id))
+          .returning({ userId: actionPlans.userId });
+        await invalidatePlanCache(id);
+        if (plan) {
+          await invalidateUserPlansCache(plan.userId);
+        }
+        break;
+      }
+      case 'project':
+        await db.update(projects).set({ teamId, updatedAt }).where(eq(projects.id, id));
+        break;
+      case 'conversation':
+        await db.update(conversations).set({ teamId, updatedAt }).where(eq(conversations.id, id));
+        break;
+    }
+  }
+
+  /**
+   * List a team workspace's content
+   */
+  async listTeamResources(teamId: number) {
+    const [teamSearches, teamPlans, teamProjects, teamConversations] = await Promise.all([
+      db.select().from(searches).where(eq(searches.teamId, teamId)),
+      db.select().from(actionPlans).where(eq(actionPlans.teamId, teamId)),
+      db.select().from(projects).where(eq(projects.teamId, teamId)),
+      db.select().from(conversations).where(eq(conversations.teamId, teamId)),
+    ]);
+
+    return {
+      searches: teamSearches,
+      plans: teamPlans,
+      projects: teamProjects,
+      conversations: teamConversations,
+    };
+  }
+
+  /**
+   * People a plan's tasks can be assigned to: its owner, plus its team's members for a team plan
+   */
+  async getAssignees(plan: { userId: number; teamId: number | null }): Promise<WorkspaceMember[]> {
+    const members = plan.teamId !== null ? await this.getMembers(plan.teamId) : [];
+    if (members.some(member => member.userId === plan.userId)) {
+      return members;
+    }
+
+    const [owner] = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(eq(users.id, plan.userId))
+      .limit(1);
+
+    return owner
+      ? [{ userId: owner.id, email: owner.email, role: TeamRole.OWNER }, ...members]
+      : members;
+  }
+
+  /**
+   * Check a task in the plan can be assigned to the user
+   */
+  async isAssignable(plan: { userId: number; teamId: number | null }, assigneeId: number): Promise<boolean> {
+    if (assigneeId === plan.userId) {
+      return true;
+    }
+    if (plan.teamId === null) {
+      return false;
+    }
+    return (await this.getTeamRole(plan.teamId, assigneeId)) !== null;
+  }
+}
+
+export const workspaceService = new WorkspaceService();
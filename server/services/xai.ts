@@ -3,6 +3,11 @@ import axios from 'axios';
 const XAI_API_KEY = process.env.XAI_API_KEY;
 const XAI_API_URL = 'https://api.x.ai/v1/chat/completions';
 
+/**
+ * Model market gaps are requested from
+ */
+export const XAI_GAP_MODEL = 'grok-beta';
+
 interface XAIResponse {
   id: string;
   object: string;
@@ -68,6 +73,91 @@ export interface BusinessPlan {
   };
 }
 
+export function isXaiConfigured(): boolean {
+  return !!XAI_API_KEY;
+}
+
+/**
+ * Call xAI for market gaps and return the raw model content.
+ * Parsing and validation are left to the caller.
+ * Throws when the API is not configured, fails, or returns no content.
+ */
+export async function requestMarketGapContent(
+  query: string,
+  options: { signal?: AbortSignal; repairHint?: string } = {}
+): Promise<string> {
+  if (!XAI_API_KEY) {
+    throw new Error('xAI API key not configured');
+  }
+
+  const prompt = `Analyze the following query and identify 5-8 specific market gaps or unbuilt opportunities.
+
+Query: "${query}"
+
+For each gap, provide:
+1. Title: A specific, actionable product/service name
+2. Description: What this would be, how it works and who it is for
+3. Category: One of "market", "technology", "ux", or "business_model"
+4. Feasibility: "high", "medium", or "low" based on current technology and resources
+5. Market Potential: "high", "medium", or "low" based on demand and market size
+6. Innovation Score: 1-10 (10 being most innovative)
+7. Market Size: Estimated total addressable market (e.g., "$2.3B", "$890M")
+8. Gap Reason: Why doesn't this exist yet?
+9. Confidence Score: 0-100 based on how well the gap is supported by market data
+10. Competitor Analysis: Existing solutions and why they fall short
+11. Industry Context: Relevant industry trends and regulations
+
+Return ONLY a JSON array with the gaps, no additional text. Format:
+[
+  {
+    "title": "...",
+    "description": "...",
+    "category": "...",
+    "feasibility": "...",
+    "marketPotential": "...",
+    "innovationScore": 8,
+    "marketSize": "...",
+    "gapReason": "...",
+    "confidenceScore": 70,
+    "competitorAnalysis": "...",
+    "industryContext": "..."
+  }
+]${options.repairHint ? `\n\nYour previous answer was rejected: ${options.repairHint}. Return corrected JSON only.` : ''}`;
+
+  const response = await axios.post<XAIResponse>(
+    XAI_API_URL,
+    {
+      model: XAI_GAP_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a market research expert. Always return valid JSON arrays only, no markdown or additional text.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 4000,
+    },
+    {
+      headers: {
+        'Authorization': `Bearer ${XAI_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      signal: options.signal
+    }
+  );
+
+  const content = response.data.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content in xAI response');
+  }
+
+  return content;
+}
+
 export async function generateBusinessPlan(
   title: string, 
   description: string, 
@@ -142,6 +142,7 @@ export class DatabaseStorage implements IStorage {
         competitorAnalysis: searchResults.competitorAnalysis,
         targetAudience: searchResults.targetAudience,
         keyTrends: searchResults.keyTrends,
+        fieldProvenance: searchResults.fieldProvenance,
       })
       .from(searchResults)
       .innerJoin(searches, eq(searchResults.searchId, searches.id))
@@ -60,7 +60,13 @@ declare global {
        * Added by resource ownership middleware
        */
       resourceOwner?: number;
-      
+
+      /**
+       * User's role in the team workspace being accessed
+       * Added by team access middleware
+       */
+      teamRole?: string;
+
       /**
        * Request ID for tracking
        * Added by security monitoring middleware
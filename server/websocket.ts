@@ -4,8 +4,14 @@ import { drizzle } from 'drizzle-orm/node-postgres';
 import pg from 'pg';
 import { z } from 'zod';
 import * as schema from '@shared/schema';
-import type { CursorPosition, Metadata } from '@shared/types';
+import type { CursorPosition, Metadata, SelectionRange } from '@shared/types';
 import { planWebSocketService } from './services/planWebSocketService';
+import { ClusterState, realtimeBackplane, type RealtimeBackplane } from './services/realtimeBackplane';
+import { checkIdeaAccess, checkPlanAccess, checkTeamAccess } from './services/collaboration';
+import {
+  collaborativeDocumentService,
+  type CollaborationRoomRef,
+} from './services/collaborativeDocumentService';
 
 const { Pool } = pg;
 
@@ -21,70 +27,147 @@ interface CollaborationRoom {
     userId: number;
     userName: string;
     cursor?: CursorPosition;
-    selection?: string;
+    selection?: SelectionRange | null;
     ws: WebSocket;
+    permissions: RoomPermissions;
   }>;
-  sharedState: Metadata;
   lastActivity: Date;
 }
 
+/**
+ * A room participant as seen by other instances
+ */
+interface CollaborationPresence {
+  roomId: string;
+  userId: number;
+  userName: string;
+}
+
+/**
+ * What a participant may do in a room, resolved when they join
+ */
+interface RoomPermissions {
+  canEdit: boolean; // state-update, doc-update
+  canChat: boolean; // chat
+}
+
+interface CollaborationUser {
+  userId: number;
+  email: string;
+  userName: string;
+}
+
+const collaborationMessageTypes = [
+  'join', 'leave', 'cursor', 'selection', 'state-update', 'chat', 'typing', 'doc-sync', 'doc-update',
+] as const;
+
 const MessageSchema = z.object({
-  type: z.enum(['join', 'leave', 'cursor', 'selection', 'state-update', 'chat', 'typing']),
+  type: z.enum(collaborationMessageTypes),
   roomId: z.string(),
   data: z.any(),
 });
 
+const CharIdSchema = z.object({
+  client: z.string().min(1).max(64),
+  clock: z.number().int().positive(),
+});
+
+const TextOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('insert'),
+    id: CharIdSchema,
+    after: CharIdSchema.nullable(),
+    value: z.string().min(1).max(10000),
+  }),
+  z.object({
+    type: z.literal('delete'),
+    ids: z.array(CharIdSchema).min(1).max(10000),
+  }),
+]);
+
+const DocSyncSchema = z.object({
+  docKey: z.string().max(100),
+  since: z.number().int().nonnegative().optional(),
+});
+
+const DocUpdateSchema = z.object({
+  docKey: z.string().max(100),
+  clientId: z.string().min(1).max(64),
+  batchId: z.string().min(1).max(64),
+  operations: z.array(TextOperationSchema).min(1).max(500),
+});
+
+/**
+ * Parse a room ID: `idea:<ideaId>` rooms are shared by everyone with access to the idea,
+ * `team:<teamId>` rooms by the team's active members and `plan:<planId>` rooms by the plan's owner
+ */
+export function parseRoomId(roomId: string): CollaborationRoomRef | null {
+  const match = /^(idea|team|plan):(\d+)$/.exec(roomId);
+  if (!match) return null;
+  return { kind: match[1] as CollaborationRoomRef['kind'], id: parseInt(match[2]) };
+}
+
+const roomAccessChecks = {
+  idea: checkIdeaAccess,
+  team: checkTeamAccess,
+  plan: checkPlanAccess,
+};
+
+/**
+ * Resolve a user's permissions in a room; null if they may not join it
+ */
+export async function getRoomPermissions(userId: number, roomId: string): Promise<RoomPermissions | null> {
+  const room = parseRoomId(roomId);
+  if (!room) return null;
+
+  const check = (permission: 'view' | 'edit' | 'comment') =>
+    roomAccessChecks[room.kind](room.id, userId.toString(), permission);
+
+  if (!(await check('view'))) return null;
+
+  const [canEdit, canChat] = await Promise.all([check('edit'), check('comment')]);
+  return { canEdit: !!canEdit, canChat: !!canChat };
+}
+
+const ROOM_BROADCAST_CHANNEL = 'collaboration-broadcast';
+
+/**
+ * Collaboration rooms on the shared /ws socket
+ * Each instance holds its own participants' sockets; broadcasts, presence and shared state
+ * reach participants on other instances through the realtime backplane
+ */
 export class CollaborationServer {
   private wss: WebSocketServer;
   private rooms: Map<string, CollaborationRoom> = new Map();
+  // Shared state of every room this instance has heard from, including rooms with no local participants
+  private sharedStates: Map<string, Metadata> = new Map();
+  // Keyed by `${roomId}/${userId}`
+  private presence: ClusterState<CollaborationPresence>;
 
-  constructor(server: Server) {
+  constructor(server: Server, private backplane: RealtimeBackplane = realtimeBackplane) {
     this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.presence = new ClusterState(backplane, 'collaboration-participants');
+    backplane.subscribe(ROOM_BROADCAST_CHANNEL, (payload, origin) => {
+      if (origin === backplane.instanceId) return;
+      if (payload.message.type === 'state-changed') {
+        this.mergeSharedState(payload.roomId, payload.message.changes);
+      }
+      this.deliverToRoom(payload.roomId, payload.message, { userId: payload.excludeUserId });
+    });
     this.initialize();
   }
 
   private initialize() {
     this.wss.on('connection', async (ws: WebSocket, req) => {
-      // Try to authenticate using JWT for action plan features
+      // Action plan, notification and collaboration features share one JWT-authenticated socket
       const user = await planWebSocketService.authenticateConnection(ws, req);
-      
-      if (user) {
-        // Handle authenticated connection for action plans
-        planWebSocketService.handleConnection(ws, user);
-        return;
-      }
-
-      // Fallback to legacy authentication for collaboration features
-      const userId = this.extractUserId(req);
-      if (!userId) {
+      if (!user) {
         ws.close(1008, 'Unauthorized');
         return;
       }
 
-      ws.on('message', (data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          const parsed = MessageSchema.parse(message);
-          this.handleMessage(ws, userId, parsed);
-        } catch (error) {
-          console.error('Invalid message:', error);
-          ws.send(JSON.stringify({ error: 'Invalid message format' }));
-        }
-      });
-
-      ws.on('close', () => {
-        this.handleDisconnect(ws, userId);
-      });
-
-      ws.on('error', (error) => {
-        console.error('WebSocket error:', error);
-      });
-
-      ws.send(JSON.stringify({
-        type: 'connected',
-        userId,
-        timestamp: new Date().toISOString(),
-      }));
+      planWebSocketService.handleConnection(ws, user);
+      this.handleConnection(ws, user);
     });
 
     // Clean up inactive rooms every 5 minutes
@@ -97,34 +180,80 @@ export class CollaborationServer {
           console.log(`Cleaned up inactive room: ${roomId}`);
         }
       });
+
+      this.sharedStates.forEach((_, roomId) => {
+        if (!this.rooms.has(roomId) && this.getParticipants(roomId).length === 0) {
+          this.sharedStates.delete(roomId);
+        }
+      });
     }, 5 * 60 * 1000);
   }
 
-  private extractUserId(req: { headers: { cookie?: string } }): number | null {
-    // Extract user ID from session or JWT token
-    // This is a simplified version - implement proper authentication
-    const cookies = req.headers.cookie?.split('; ') || [];
-    const sessionCookie = cookies.find((c: string) => c.startsWith('session='));
-    if (sessionCookie) {
+  private handleConnection(ws: WebSocket, user: CollaborationUser) {
+    ws.on('message', (data) => {
+      let message: unknown;
       try {
-        // Decode session and extract user ID
-        // This is placeholder - implement actual session decoding
-        return 1; // Return test user ID for now
+        message = JSON.parse(data.toString());
       } catch {
-        return null;
+        return; // Reported by the action plan handler
       }
-    }
-    return null;
+
+      // Action plan messages share the socket and are handled by planWebSocketService
+      const type = (message as { type?: unknown })?.type;
+      if (!collaborationMessageTypes.includes(type as typeof collaborationMessageTypes[number])) {
+        return;
+      }
+
+      const parsed = MessageSchema.safeParse(message);
+      if (!parsed.success) {
+        ws.send(JSON.stringify({ error: 'Invalid message format' }));
+        return;
+      }
+
+      this.handleMessage(ws, user, parsed.data).catch((error) => {
+        console.error('Error handling collaboration message:', error);
+        this.sendError(ws, parsed.data.roomId, 'Failed to process message');
+      });
+    });
+
+    ws.on('close', () => {
+      this.handleDisconnect(ws, user.userId);
+    });
+
+    ws.send(JSON.stringify({
+      type: 'connected',
+      userId: user.userId,
+      timestamp: new Date().toISOString(),
+    }));
   }
 
-  private async handleMessage(ws: WebSocket, userId: number, message: z.infer<typeof MessageSchema>) {
+  private async handleMessage(ws: WebSocket, user: CollaborationUser, message: z.infer<typeof MessageSchema>) {
     const { type, roomId, data } = message;
-    
+    const userId = user.userId;
+
+    if (type === 'join') {
+      await this.handleJoinRoom(ws, user, roomId);
+      return;
+    }
+
+    // Everything else needs this connection to have joined the room
+    const participant = this.rooms.get(roomId)?.participants.get(userId.toString());
+    if (!participant || participant.ws !== ws) {
+      this.sendError(ws, roomId, 'Join the room first');
+      return;
+    }
+
+    if ((type === 'state-update' || type === 'doc-update') && !participant.permissions.canEdit) {
+      this.sendError(ws, roomId, 'You do not have permission to edit in this room');
+      return;
+    }
+
+    if (type === 'chat' && !participant.permissions.canChat) {
+      this.sendError(ws, roomId, 'You do not have permission to chat in this room');
+      return;
+    }
+
     switch (type) {
-      case 'join':
-        await this.handleJoinRoom(ws, userId, roomId, data);
-        break;
-      
       case 'leave':
         this.handleLeaveRoom(userId, roomId);
         break;
@@ -148,16 +277,31 @@ export class CollaborationServer {
       case 'typing':
         this.handleTypingIndicator(userId, roomId, data);
         break;
+
+      case 'doc-sync':
+        await this.handleDocumentSync(ws, roomId, data);
+        break;
+
+      case 'doc-update':
+        await this.handleDocumentUpdate(ws, userId, roomId, data);
+        break;
     }
   }
 
-  private async handleJoinRoom(ws: WebSocket, userId: number, roomId: string, data: { userName?: string }) {
+  private async handleJoinRoom(ws: WebSocket, user: CollaborationUser, roomId: string) {
+    const { userId, userName } = user;
+
+    const permissions = await getRoomPermissions(userId, roomId);
+    if (!permissions) {
+      this.sendError(ws, roomId, 'You do not have access to this room');
+      return;
+    }
+
     // Get or create room
     if (!this.rooms.has(roomId)) {
       this.rooms.set(roomId, {
         id: roomId,
         participants: new Map(),
-        sharedState: {},
         lastActivity: new Date(),
       });
     }
@@ -167,29 +311,37 @@ export class CollaborationServer {
     // Add participant
     room.participants.set(userId.toString(), {
       userId,
-      userName: data.userName || `User ${userId}`,
+      userName,
       ws,
+      permissions,
     });
+    this.presence.set(`${roomId}/${userId}`, { roomId, userId, userName });
+
+    const participants = this.getParticipants(roomId);
 
     // Notify other participants
     this.broadcastToRoom(roomId, {
       type: 'user-joined',
       userId,
-      userName: data.userName,
-      participantCount: room.participants.size,
+      userName,
+      participantCount: participants.length,
     }, userId);
 
-    // Send current state to new participant
+    // Send current state to new participant; cursors of participants on other instances arrive with their next move
     ws.send(JSON.stringify({
       type: 'room-state',
       roomId,
-      participants: Array.from(room.participants.entries()).map(([id, p]) => ({
-        userId: p.userId,
-        userName: p.userName,
-        cursor: p.cursor,
-        selection: p.selection,
-      })),
-      sharedState: room.sharedState,
+      participants: participants.map(p => {
+        const local = room.participants.get(p.userId.toString());
+        return {
+          userId: p.userId,
+          userName: p.userName,
+          cursor: local?.cursor,
+          selection: local?.selection,
+        };
+      }),
+      sharedState: this.sharedStates.get(roomId) ?? {},
+      permissions,
     }));
 
     room.lastActivity = new Date();
@@ -200,15 +352,22 @@ export class CollaborationServer {
     if (!room) return;
 
     room.participants.delete(userId.toString());
+    this.presence.delete(`${roomId}/${userId}`);
     
     // Notify other participants
     this.broadcastToRoom(roomId, {
       type: 'user-left',
       userId,
-      participantCount: room.participants.size,
+      participantCount: this.getParticipants(roomId).length,
     });
 
     room.lastActivity = new Date();
+
+    if (room.participants.size === 0) {
+      collaborativeDocumentService.releaseRoom(roomId).catch((error) => {
+        console.error(`Error releasing documents for room ${roomId}:`, error);
+      });
+    }
   }
 
   private handleCursorUpdate(userId: number, roomId: string, data: { cursor: CursorPosition }) {
@@ -230,7 +389,7 @@ export class CollaborationServer {
     room.lastActivity = new Date();
   }
 
-  private handleSelectionUpdate(userId: number, roomId: string, data: { selection: string }) {
+  private handleSelectionUpdate(userId: number, roomId: string, data: { selection: SelectionRange | null }) {
     const room = this.rooms.get(roomId);
     if (!room) return;
 
@@ -254,7 +413,7 @@ export class CollaborationServer {
     if (!room) return;
 
     // Apply state update
-    room.sharedState = { ...room.sharedState, ...data.changes };
+    this.mergeSharedState(roomId, data.changes);
 
     // Broadcast state changes to all participants
     this.broadcastToRoom(roomId, {
@@ -302,6 +461,63 @@ export class CollaborationServer {
     }, userId);
   }
 
+  private async handleDocumentSync(ws: WebSocket, roomId: string, data: unknown) {
+    const parsed = DocSyncSchema.safeParse(data);
+    const room = parseRoomId(roomId)!;
+    if (!parsed.success || !collaborativeDocumentService.isValidDocKey(room, parsed.data.docKey)) {
+      this.sendError(ws, roomId, 'Invalid document');
+      return;
+    }
+
+    const { docKey, since } = parsed.data;
+    const sync = await collaborativeDocumentService.sync(room, docKey, since);
+
+    if (ws.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify(sync.kind === 'state'
+      ? { type: 'doc-state', roomId, docKey, seq: sync.seq, state: sync.state }
+      : { type: 'doc-updates', roomId, docKey, seq: sync.seq, updates: sync.updates }
+    ));
+  }
+
+  private async handleDocumentUpdate(ws: WebSocket, userId: number, roomId: string, data: unknown) {
+    const parsed = DocUpdateSchema.safeParse(data);
+    const room = parseRoomId(roomId)!;
+    if (!parsed.success || !collaborativeDocumentService.isValidDocKey(room, parsed.data.docKey)) {
+      this.sendError(ws, roomId, 'Invalid document update');
+      return;
+    }
+
+    const { docKey, clientId, batchId, operations } = parsed.data;
+
+    // Characters are identified by the editor session that typed them
+    if (operations.some(op => op.type === 'insert' && op.id.client !== clientId)) {
+      this.sendError(ws, roomId, 'Invalid document update');
+      return;
+    }
+
+    const result = await collaborativeDocumentService.applyUpdate(room, docKey, { userId, clientId, operations });
+
+    if (result.operations.length > 0) {
+      // The sender's other tabs need the update too, so only this connection is skipped
+      this.broadcastToRoom(roomId, {
+        type: 'doc-updated',
+        roomId,
+        docKey,
+        seq: result.seq,
+        clientId,
+        userId,
+        operations: result.operations,
+      }, undefined, ws);
+    }
+
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'doc-ack', roomId, docKey, seq: result.seq, batchId }));
+    }
+
+    const activeRoom = this.rooms.get(roomId);
+    if (activeRoom) activeRoom.lastActivity = new Date();
+  }
+
   private handleDisconnect(ws: WebSocket, userId: number) {
     // Remove user from all rooms
     this.rooms.forEach((room, roomId) => {
@@ -312,38 +528,85 @@ export class CollaborationServer {
     });
   }
 
-  private broadcastToRoom(roomId: string, message: Record<string, unknown>, excludeUserId?: number) {
+  private sendError(ws: WebSocket, roomId: string, error: string) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'error', roomId, error }));
+    }
+  }
+
+  /**
+   * Send to the room's participants on every instance
+   */
+  private broadcastToRoom(
+    roomId: string,
+    message: Record<string, unknown>,
+    excludeUserId?: number,
+    excludeWs?: WebSocket
+  ) {
+    this.deliverToRoom(roomId, message, { userId: excludeUserId, ws: excludeWs });
+    this.backplane.publish(ROOM_BROADCAST_CHANNEL, { roomId, message, excludeUserId });
+  }
+
+  /**
+   * Send to this instance's participants in the room
+   */
+  private deliverToRoom(
+    roomId: string,
+    message: Record<string, unknown>,
+    exclude: { userId?: number; ws?: WebSocket } = {}
+  ) {
     const room = this.rooms.get(roomId);
     if (!room) return;
 
     const messageStr = JSON.stringify(message);
     room.participants.forEach((participant) => {
-      if (participant.userId !== excludeUserId && participant.ws.readyState === WebSocket.OPEN) {
+      if (
+        participant.userId !== exclude.userId &&
+        participant.ws !== exclude.ws &&
+        participant.ws.readyState === WebSocket.OPEN
+      ) {
         participant.ws.send(messageStr);
       }
     });
   }
 
+  private mergeSharedState(roomId: string, changes: Metadata) {
+    this.sharedStates.set(roomId, { ...this.sharedStates.get(roomId), ...changes });
+  }
+
+  /**
+   * Participants of a room across all instances
+   */
+  private getParticipants(roomId: string): CollaborationPresence[] {
+    return this.presence.entries()
+      .filter(({ value }) => value.roomId === roomId)
+      .map(({ value }) => value);
+  }
+
   public getRoomInfo(roomId: string) {
+    const participants = this.getParticipants(roomId);
     const room = this.rooms.get(roomId);
-    if (!room) return null;
+    if (participants.length === 0 && !room) return null;
 
     return {
-      id: room.id,
-      participantCount: room.participants.size,
-      participants: Array.from(room.participants.values()).map(p => ({
+      id: roomId,
+      participantCount: participants.length,
+      participants: participants.map(p => ({
         userId: p.userId,
         userName: p.userName,
       })),
-      lastActivity: room.lastActivity,
+      lastActivity: room?.lastActivity,
     };
   }
 
   public getAllRooms() {
-    return Array.from(this.rooms.entries()).map(([id, room]) => ({
+    const roomIds = new Set<string>(this.rooms.keys());
+    this.presence.entries().forEach(({ value }) => roomIds.add(value.roomId));
+
+    return Array.from(roomIds, (id) => ({
       id,
-      participantCount: room.participants.size,
-      lastActivity: room.lastActivity,
+      participantCount: this.getParticipants(id).length,
+      lastActivity: this.rooms.get(id)?.lastActivity,
     }));
   }
 }
\ No newline at end of file
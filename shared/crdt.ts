@@ -0,0 +1,214 @@
+/**
+ * Collaborative Text CRDT
+ *
+ * A replicated growable array (RGA) for plain text shared between the
+ * collaboration server and its clients. Every character gets a unique
+ * `{ client, clock }` ID and remembers the character it was typed after, so
+ * edits made concurrently (or offline) merge the same way on every replica,
+ * whatever order they arrive in. Deleted characters stay behind as
+ * tombstones so later edits can still refer to them.
+ */
+
+export interface CharId {
+  client: string;
+  clock: number;
+}
+
+export type TextOperation =
+  | { type: 'insert'; id: CharId; after: CharId | null; value: string }
+  | { type: 'delete'; ids: CharId[] };
+
+/**
+ * Serialized document: characters in document order as
+ * `[client, clock, value, deleted]` tuples to keep snapshots small
+ */
+export interface TextDocumentState {
+  clock: number;
+  chars: Array<[string, number, string, 0 | 1]>;
+}
+
+interface CharNode {
+  id: CharId;
+  value: string;
+  deleted: boolean;
+}
+
+function idKey(id: CharId): string {
+  return `${id.clock}@${id.client}`;
+}
+
+/**
+ * Order concurrent inserts at the same position: later clocks first,
+ * ties broken by client ID
+ */
+function compareIds(a: CharId, b: CharId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+}
+
+export class TextDocument {
+  private nodes: CharNode[] = [];
+  private index = new Map<string, CharNode>();
+  private lamport = 0;
+
+  constructor(state?: TextDocumentState) {
+    if (state) {
+      this.lamport = state.clock;
+      for (const [client, clock, value, deleted] of state.chars) {
+        const node = { id: { client, clock }, value, deleted: deleted === 1 };
+        this.nodes.push(node);
+        this.index.set(idKey(node.id), node);
+      }
+    }
+  }
+
+  get clock(): number {
+    return this.lamport;
+  }
+
+  get length(): number {
+    return this.nodes.reduce((count, node) => count + (node.deleted ? 0 : 1), 0);
+  }
+
+  toString(): string {
+    let text = '';
+    for (const node of this.nodes) {
+      if (!node.deleted) text += node.value;
+    }
+    return text;
+  }
+
+  toJSON(): TextDocumentState {
+    return {
+      clock: this.lamport,
+      chars: this.nodes.map(node => [node.id.client, node.id.clock, node.value, node.deleted ? 1 : 0]),
+    };
+  }
+
+  /**
+   * Apply a local or remote operation
+   * Returns false if it changed nothing (already applied) or refers to a character this replica has not seen
+   */
+  apply(operation: TextOperation): boolean {
+    return operation.type === 'insert'
+      ? this.integrateInsert(operation)
+      : this.integrateDelete(operation.ids);
+  }
+
+  /**
+   * Apply a batch of operations, returning the ones that changed the document
+   */
+  applyAll(operations: TextOperation[]): TextOperation[] {
+    return operations.filter(operation => this.apply(operation));
+  }
+
+  /**
+   * Turn a whole-text edit (e.g. a textarea change) into operations, apply them and return them for sending
+   */
+  edit(client: string, text: string): TextOperation[] {
+    const current = this.toString();
+    if (current === text) return [];
+
+    let prefix = 0;
+    const maxPrefix = Math.min(current.length, text.length);
+    while (prefix < maxPrefix && current[prefix] === text[prefix]) prefix++;
+
+    let suffix = 0;
+    const maxSuffix = Math.min(current.length, text.length) - prefix;
+    while (
+      suffix < maxSuffix &&
+      current[current.length - 1 - suffix] === text[text.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const operations: TextOperation[] = [];
+    const visible = this.nodes.filter(node => !node.deleted);
+
+    const removed = visible.slice(prefix, current.length - suffix);
+    if (removed.length > 0) {
+      operations.push({ type: 'delete', ids: removed.map(node => node.id) });
+    }
+
+    const inserted = text.slice(prefix, text.length - suffix);
+    if (inserted.length > 0) {
+      operations.push({
+        type: 'insert',
+        id: { client, clock: this.lamport + 1 },
+        after: prefix > 0 ? visible[prefix - 1].id : null,
+        value: inserted,
+      });
+    }
+
+    this.applyAll(operations);
+    return operations;
+  }
+
+  /**
+   * ID of the visible character at a text index, used to keep carets in place across remote edits
+   */
+  idAt(position: number): CharId | null {
+    let seen = 0;
+    for (const node of this.nodes) {
+      if (node.deleted) continue;
+      if (seen === position) return node.id;
+      seen++;
+    }
+    return null;
+  }
+
+  /**
+   * Text index just after a character, even if it has since been deleted
+   */
+  positionAfter(id: CharId): number {
+    let position = 0;
+    for (const node of this.nodes) {
+      if (!node.deleted) position++;
+      if (compareIds(node.id, id) === 0) return position;
+    }
+    return position;
+  }
+
+  private integrateInsert(operation: Extract<TextOperation, { type: 'insert' }>): boolean {
+    let changed = false;
+    let after = operation.after;
+
+    for (let offset = 0; offset < operation.value.length; offset++) {
+      const id = { client: operation.id.client, clock: operation.id.clock + offset };
+      if (!this.index.has(idKey(id))) {
+        let position = 0;
+        if (after) {
+          const parent = this.index.get(idKey(after));
+          if (!parent) return changed;
+          position = this.nodes.indexOf(parent) + 1;
+        }
+
+        // Concurrent inserts after the same character: the newer one goes first
+        while (position < this.nodes.length && compareIds(this.nodes[position].id, id) > 0) {
+          position++;
+        }
+
+        const node = { id, value: operation.value[offset], deleted: false };
+        this.nodes.splice(position, 0, node);
+        this.index.set(idKey(id), node);
+        this.lamport = Math.max(this.lamport, id.clock);
+        changed = true;
+      }
+      after = id;
+    }
+
+    return changed;
+  }
+
+  private integrateDelete(ids: CharId[]): boolean {
+    let changed = false;
+    for (const id of ids) {
+      const node = this.index.get(idKey(id));
+      if (node && !node.deleted) {
+        node.deleted = true;
+        changed = true;
+      }
+    }
+    return changed;
+  }
+}
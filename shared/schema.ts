@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, unique, foreignKey, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, unique, uniqueIndex, foreignKey, varchar } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +9,7 @@ export const searches = pgTable("searches", {
   timestamp: timestamp({ mode: 'string' }).defaultNow().notNull(),
   resultsCount: integer("results_count").default(0).notNull(),
   userId: integer("user_id"),
+  teamId: integer("team_id"), // team workspace; null for the owner's personal workspace
   isFavorite: boolean("is_favorite").default(false).notNull(),
 }, (table) => [
   foreignKey({
@@ -15,7 +17,13 @@ export const searches = pgTable("searches", {
     foreignColumns: [users.id],
     name: "searches_user_id_users_id_fk"
   }),
+  foreignKey({
+    columns: [table.teamId],
+    foreignColumns: [teams.id],
+    name: "searches_team_id_teams_id_fk"
+  }),
   index("idx_searches_user_id").on(table.userId),
+  index("idx_searches_team_id").on(table.teamId),
   index("idx_searches_timestamp").on(table.timestamp.desc()),
   index("idx_searches_is_favorite").on(table.isFavorite),
 ]);
@@ -40,6 +48,7 @@ export const searchResults = pgTable("search_results", {
   industryContext: text("industry_context"),
   targetAudience: text("target_audience"),
   keyTrends: jsonb("key_trends").default([]), // string[]
+  fieldProvenance: jsonb("field_provenance"), // { provider, fields: { [field]: 'model' | 'repaired' | 'derived' | 'defaulted' } }
 }, (table) => [
   foreignKey({
     columns: [table.searchId],
@@ -188,6 +197,7 @@ export const insertSearchResultSchema = createInsertSchema(searchResults).pick({
   industryContext: true,
   targetAudience: true,
   keyTrends: true,
+  fieldProvenance: true,
 });
 
 export const loginSchema = z.object({
@@ -267,6 +277,7 @@ export const teamMembers = pgTable("team_members", {
     foreignColumns: [teams.id],
     name: "team_members_team_id_teams_id_fk"
   }),
+  index("team_members_user_team_idx").on(table.userId, table.teamId),
 ]);
 
 export const ideaShares = pgTable("idea_shares", {
@@ -472,6 +483,7 @@ export const userPreferences = pgTable("user_preferences", {
 export const projects = pgTable("projects", {
   id: serial().primaryKey().notNull(),
   userId: integer("user_id").notNull(),
+  teamId: integer("team_id"), // team workspace; null for the owner's personal workspace
   name: varchar({ length: 200 }).notNull(),
   description: text(),
   tags: jsonb().default([]).notNull(), // string[]
@@ -484,7 +496,13 @@ export const projects = pgTable("projects", {
     foreignColumns: [users.id],
     name: "projects_user_id_users_id_fk"
   }),
+  foreignKey({
+    columns: [table.teamId],
+    foreignColumns: [teams.id],
+    name: "projects_team_id_teams_id_fk"
+  }),
   index("projects_user_id_idx").on(table.userId),
+  index("projects_team_id_idx").on(table.teamId),
   index("projects_archived_idx").on(table.archived),
 ]);
 
@@ -580,11 +598,22 @@ export const helpArticles = pgTable("help_articles", {
 ]);
 
 // Interactive AI Conversations tables
+
+// What a conversation is about: one analysis, a project's analyses, or a hand-picked set
+export const conversationScopeEnum = ['analysis', 'project', 'comparison'] as const;
+
 export const conversations = pgTable("conversations", {
   id: serial().primaryKey().notNull(),
-  analysisId: integer("analysis_id").notNull(), // FK to searches table
+  analysisId: integer("analysis_id").notNull(), // FK to searches table; first analysis in scope for multi-analysis conversations
   userId: integer("user_id").notNull(),
+  teamId: integer("team_id"), // team workspace whose members can read the conversation
   variantIds: jsonb("variant_ids").default([]).notNull(), // string[] - IDs of analysis variants
+  parentConversationId: integer("parent_conversation_id"), // null for the main thread, set on branches
+  forkedFromMessageId: integer("forked_from_message_id"), // last parent message the branch inherited
+  branchName: varchar("branch_name", { length: 100 }).default('Main').notNull(),
+  scope: varchar({ length: 20 }).default('analysis').notNull(), // 'analysis' | 'project' | 'comparison'
+  projectId: integer("project_id"), // set for project conversations; the project's analyses are in scope
+  title: varchar({ length: 200 }), // name of a multi-analysis conversation
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
@@ -598,18 +627,64 @@ export const conversations = pgTable("conversations", {
     foreignColumns: [users.id],
     name: "conversations_user_id_users_id_fk"
   }),
-  unique("conversations_analysis_user_unique").on(table.analysisId, table.userId),
+  foreignKey({
+    columns: [table.parentConversationId],
+    foreignColumns: [table.id],
+    name: "conversations_parent_conversation_id_conversations_id_fk"
+  }),
+  foreignKey({
+    columns: [table.projectId],
+    foreignColumns: [projects.id],
+    name: "conversations_project_id_projects_id_fk"
+  }),
+  foreignKey({
+    columns: [table.teamId],
+    foreignColumns: [teams.id],
+    name: "conversations_team_id_teams_id_fk"
+  }),
+  // One main thread per analysis and user; branches hang off it
+  uniqueIndex("conversations_analysis_user_main_unique")
+    .on(table.analysisId, table.userId)
+    .where(sql`parent_conversation_id IS NULL AND scope = 'analysis'`),
+  // One conversation per project and user
+  uniqueIndex("conversations_project_user_unique")
+    .on(table.projectId, table.userId)
+    .where(sql`parent_conversation_id IS NULL AND scope = 'project'`),
+  index("conversations_parent_conversation_id_idx").on(table.parentConversationId),
   index("conversations_analysis_id_idx").on(table.analysisId),
   index("conversations_user_id_idx").on(table.userId),
+  index("conversations_team_id_idx").on(table.teamId),
   index("conversations_updated_at_idx").on(table.updatedAt.desc()),
 ]);
 
+// Analyses a comparison conversation covers (project conversations follow project_analyses)
+export const conversationAnalyses = pgTable("conversation_analyses", {
+  id: serial().primaryKey().notNull(),
+  conversationId: integer("conversation_id").notNull(),
+  analysisId: integer("analysis_id").notNull(),
+  addedAt: timestamp("added_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.conversationId],
+    foreignColumns: [conversations.id],
+    name: "conversation_analyses_conversation_id_conversations_id_fk"
+  }),
+  foreignKey({
+    columns: [table.analysisId],
+    foreignColumns: [searches.id],
+    name: "conversation_analyses_analysis_id_searches_id_fk"
+  }),
+  unique("conversation_analyses_conversation_analysis_unique").on(table.conversationId, table.analysisId),
+  index("conversation_analyses_analysis_id_idx").on(table.analysisId),
+]);
+
 export const conversationMessages = pgTable("conversation_messages", {
   id: serial().primaryKey().notNull(),
   conversationId: integer("conversation_id").notNull(),
   role: varchar({ length: 20 }).notNull(), // 'user' | 'assistant'
   content: text().notNull(),
-  metadata: jsonb().default({}).notNull(), // { tokensUsed?, processingTime?, confidence?, sources?, assumptions? }
+  metadata: jsonb().default({}).notNull(), // { tokensUsed?, processingTime?, confidence?, citations?, assumptions?, cancelled?, promptVersionId? }
+  copiedFromMessageId: integer("copied_from_message_id"), // set on messages a branch inherited from its parent
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
   editedAt: timestamp("edited_at", { mode: 'string' }),
 }, (table) => [
@@ -618,9 +693,18 @@ export const conversationMessages = pgTable("conversation_messages", {
     foreignColumns: [conversations.id],
     name: "conversation_messages_conversation_id_conversations_id_fk"
   }),
+  foreignKey({
+    columns: [table.copiedFromMessageId],
+    foreignColumns: [table.id],
+    name: "conversation_messages_copied_from_message_id_fk"
+  }),
   index("conversation_messages_conversation_id_idx").on(table.conversationId),
   index("conversation_messages_created_at_idx").on(table.createdAt),
   index("conversation_messages_role_idx").on(table.role),
+  index("conversation_messages_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+  index("conversation_messages_prompt_version_idx")
+    .using("btree", sql`((${table.metadata}->>'promptVersionId')::integer)`)
+    .where(sql`${table.role} = 'assistant'`),
 ]);
 
 export const suggestedQuestions = pgTable("suggested_questions", {
@@ -670,6 +754,133 @@ export const conversationAnalytics = pgTable("conversation_analytics", {
   index("conversation_analytics_total_tokens_idx").on(table.totalTokensUsed.desc()),
 ]);
 
+export const conversationMemories = pgTable("conversation_memories", {
+  id: serial().primaryKey().notNull(),
+  conversationId: integer("conversation_id").notNull(),
+  summary: text().default('').notNull(),
+  facts: jsonb().default([]).notNull(), // string[] - facts established about the idea, market and user
+  decisions: jsonb().default([]).notNull(), // string[] - decisions and commitments the user made
+  coveredThroughMessageId: integer("covered_through_message_id").default(0).notNull(), // last message folded into the memory
+  coveredMessageCount: integer("covered_message_count").default(0).notNull(),
+  generatedBy: varchar("generated_by", { length: 20 }).default('llm').notNull(), // 'llm' | 'heuristic' - how the last refresh was produced
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.conversationId],
+    foreignColumns: [conversations.id],
+    name: "conversation_memories_conversation_id_conversations_id_fk"
+  }),
+  unique("conversation_memories_conversation_unique").on(table.conversationId),
+]);
+
+// Server actions the conversation assistant may call; mutating ones wait for the user's confirmation
+export const conversationToolNames = [
+  'search_resources',
+  'list_plan_tasks',
+  'run_financial_model',
+  'create_plan_task',
+  'update_plan_task',
+  'create_analysis_variant',
+] as const;
+
+export const conversationToolCallStatusEnum = ['completed', 'pending', 'executing', 'executed', 'rejected', 'failed'] as const;
+
+export const conversationToolCalls = pgTable("conversation_tool_calls", {
+  id: serial().primaryKey().notNull(),
+  conversationId: integer("conversation_id").notNull(),
+  messageId: integer("message_id"), // answer the call was made for; null until the answer is saved
+  userId: integer("user_id").notNull(),
+  toolName: varchar("tool_name", { length: 50 }).notNull(),
+  arguments: jsonb().default({}).notNull(),
+  requiresConfirmation: boolean("requires_confirmation").notNull(),
+  status: varchar({ length: 20 }).notNull(), // 'completed' (read-only, ran at once) | 'pending' | 'executing' (confirmed, running) | 'executed' | 'rejected' | 'failed'
+  result: jsonb(),
+  error: text(),
+  resolvedAt: timestamp("resolved_at", { mode: 'string' }), // when the user confirmed or rejected it
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.conversationId],
+    foreignColumns: [conversations.id],
+    name: "conversation_tool_calls_conversation_id_conversations_id_fk"
+  }),
+  foreignKey({
+    columns: [table.messageId],
+    foreignColumns: [conversationMessages.id],
+    name: "conversation_tool_calls_message_id_conversation_messages_id_fk"
+  }),
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "conversation_tool_calls_user_id_users_id_fk"
+  }),
+  index("conversation_tool_calls_conversation_id_idx").on(table.conversationId),
+  index("conversation_tool_calls_message_id_idx").on(table.messageId),
+  index("conversation_tool_calls_status_idx").on(table.status),
+]);
+
+export const flaggedContentStatusEnum = ['pending', 'approved', 'removed'] as const;
+
+export const flaggedContent = pgTable("flagged_content", {
+  id: serial().primaryKey().notNull(),
+  source: varchar({ length: 20 }).notNull(), // 'auto' (moderation pipeline) | 'report' (user report)
+  contentRole: varchar("content_role", { length: 20 }).notNull(), // 'user' | 'assistant'
+  messageId: integer("message_id"), // null when the content was blocked before it was stored
+  conversationId: integer("conversation_id"),
+  userId: integer("user_id"), // author of user content, conversation owner for AI content
+  reportedBy: integer("reported_by"),
+  content: text().notNull(),
+  flagReason: text("flag_reason").notNull(),
+  categories: jsonb().default([]).notNull(), // string[]
+  severity: varchar({ length: 20 }).notNull(), // 'low' | 'medium' | 'high' | 'critical'
+  status: varchar({ length: 20 }).default('pending').notNull(), // 'pending' | 'approved' | 'removed'
+  assignedTo: integer("assigned_to"),
+  assignedAt: timestamp("assigned_at", { mode: 'string' }),
+  reviewedBy: integer("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at", { mode: 'string' }),
+  reviewNotes: text("review_notes"),
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.messageId],
+    foreignColumns: [conversationMessages.id],
+    name: "flagged_content_message_id_conversation_messages_id_fk"
+  }),
+  foreignKey({
+    columns: [table.conversationId],
+    foreignColumns: [conversations.id],
+    name: "flagged_content_conversation_id_conversations_id_fk"
+  }),
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "flagged_content_user_id_users_id_fk"
+  }),
+  foreignKey({
+    columns: [table.reportedBy],
+    foreignColumns: [users.id],
+    name: "flagged_content_reported_by_users_id_fk"
+  }),
+  foreignKey({
+    columns: [table.assignedTo],
+    foreignColumns: [users.id],
+    name: "flagged_content_assigned_to_users_id_fk"
+  }),
+  foreignKey({
+    columns: [table.reviewedBy],
+    foreignColumns: [users.id],
+    name: "flagged_content_reviewed_by_users_id_fk"
+  }),
+  index("flagged_content_status_idx").on(table.status),
+  index("flagged_content_severity_idx").on(table.severity),
+  index("flagged_content_message_id_idx").on(table.messageId),
+  index("flagged_content_reported_by_idx").on(table.reportedBy),
+  index("flagged_content_assigned_to_idx").on(table.assignedTo),
+  index("flagged_content_created_at_idx").on(table.createdAt.desc()),
+]);
+
 export const PLAN_LIMITS = {
   free: { searches: 5, exports: 3 },
   pro: { searches: -1, exports: -1 }, // unlimited
@@ -755,6 +966,7 @@ export const createProjectSchema = z.object({
   name: z.string().min(1, "Project name is required").max(200, "Project name must be 200 characters or less"),
   description: z.string().optional(),
   tags: z.array(z.string()).optional().default([]),
+  teamId: z.number().int().positive().optional(),
 });
 
 export const updateProjectSchema = z.object({
@@ -767,6 +979,38 @@ export const updateProjectSchema = z.object({
 export type CreateProject = z.infer<typeof createProjectSchema>;
 export type UpdateProject = z.infer<typeof updateProjectSchema>;
 
+// Team workspaces: searches, plans, projects and conversations can belong to a team instead of one user
+export const teamRoleEnum = ['owner', 'admin', 'member', 'viewer'] as const;
+export const workspaceResourceTypeEnum = ['search', 'plan', 'project', 'conversation'] as const;
+
+export type TeamRoleName = typeof teamRoleEnum[number];
+export type WorkspaceResourceType = typeof workspaceResourceTypeEnum[number];
+
+export const moveToWorkspaceSchema = z.object({
+  type: z.enum(workspaceResourceTypeEnum),
+  id: z.number().int().positive(),
+});
+
+export const updateTeamMemberRoleSchema = z.object({
+  role: z.enum(teamRoleEnum).exclude(['owner']),
+});
+
+// A team workspace as listed for one of its members
+export interface Workspace {
+  teamId: number;
+  name: string;
+  role: TeamRoleName;
+  memberCount: number;
+}
+
+export interface WorkspaceMember {
+  userId: number;
+  email: string;
+  role: TeamRoleName;
+}
+
+export type MoveToWorkspace = z.infer<typeof moveToWorkspaceSchema>;
+
 // Interactive AI Conversations types
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = typeof conversations.$inferInsert;
@@ -776,6 +1020,15 @@ export type SuggestedQuestion = typeof suggestedQuestions.$inferSelect;
 export type InsertSuggestedQuestion = typeof suggestedQuestions.$inferInsert;
 export type ConversationAnalytics = typeof conversationAnalytics.$inferSelect;
 export type InsertConversationAnalytics = typeof conversationAnalytics.$inferInsert;
+export type ConversationMemory = typeof conversationMemories.$inferSelect;
+export type InsertConversationMemory = typeof conversationMemories.$inferInsert;
+export type ConversationToolCall = typeof conversationToolCalls.$inferSelect;
+export type InsertConversationToolCall = typeof conversationToolCalls.$inferInsert;
+export type ConversationToolName = typeof conversationToolNames[number];
+export type ConversationToolCallStatus = typeof conversationToolCallStatusEnum[number];
+export type FlaggedContent = typeof flaggedContent.$inferSelect;
+export type InsertFlaggedContent = typeof flaggedContent.$inferInsert;
+export type FlaggedContentStatus = typeof flaggedContentStatusEnum[number];
 
 // Conversation validation schemas
 export const createConversationSchema = z.object({
@@ -815,6 +1068,78 @@ export type CreateMessage = z.infer<typeof createMessageSchema>;
 export type CreateSuggestedQuestion = z.infer<typeof createSuggestedQuestionSchema>;
 export type UpdateConversationAnalytics = z.infer<typeof updateConversationAnalyticsSchema>;
 
+// Conversation branches: the main thread plus forks, each with its own analytics
+export interface ConversationBranchSummary {
+  id: number;
+  branchName: string;
+  parentConversationId: number | null;
+  forkedFromMessageId: number | null;
+  messageCount: number;
+  totalTokensUsed: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Multi-analysis conversations
+export type ConversationScope = typeof conversationScopeEnum[number];
+export type ConversationAnalysis = typeof conversationAnalyses.$inferSelect;
+export type InsertConversationAnalysis = typeof conversationAnalyses.$inferInsert;
+
+// An analysis in a conversation's scope
+export interface ConversationScopeAnalysis {
+  id: number;
+  query: string;
+  timestamp: string;
+}
+
+// A project or comparison conversation as listed for the user
+export interface MultiAnalysisConversationSummary {
+  id: number;
+  scope: Exclude<ConversationScope, 'analysis'>;
+  title: string | null;
+  projectId: number | null;
+  analyses: ConversationScopeAnalysis[];
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Filters for full-text search over a user's conversation messages
+export interface ConversationMessageSearchFilters {
+  analysisId?: number;
+  role?: 'user' | 'assistant';
+  from?: string;
+  to?: string;
+}
+
+// A conversation message matching a full-text search
+export interface ConversationMessageSearchHit {
+  messageId: number;
+  conversationId: number;
+  analysisId: number;
+  analysisQuery: string;
+  scope: ConversationScope;
+  conversationTitle: string | null;
+  branchName: string | null;
+  role: 'user' | 'assistant';
+  snippet: string; // matches wrapped in <mark></mark>
+  position: number; // zero-based index of the message in its conversation, for paging to it
+  rank: number;
+  createdAt: string;
+}
+
+// Structured citations stored in conversation_messages.metadata.citations
+export const citationTypeEnum = ['search_result', 'resource', 'message'] as const;
+export type CitationType = typeof citationTypeEnum[number];
+
+export interface MessageCitation {
+  key: string; // tag used in the response text, e.g. "S1"
+  type: CitationType;
+  id: number; // search_results, resources or conversation_messages row
+  label: string;
+  url?: string;
+}
+
 // Resource Library Enhancement tables
 export const resourceCategories = pgTable("resource_categories", {
   id: serial().primaryKey().notNull(),
@@ -1149,6 +1474,7 @@ export const actionPlans = pgTable("action_plans", {
   id: serial().primaryKey().notNull(),
   searchId: integer("search_id").notNull(),
   userId: integer("user_id").notNull(),
+  teamId: integer("team_id"), // team workspace; tasks can be assigned to its members
   templateId: integer("template_id"),
   title: varchar({ length: 200 }).notNull(),
   description: text(),
@@ -1169,7 +1495,13 @@ export const actionPlans = pgTable("action_plans", {
     foreignColumns: [users.id],
     name: "action_plans_user_id_users_id_fk"
   }),
+  foreignKey({
+    columns: [table.teamId],
+    foreignColumns: [teams.id],
+    name: "action_plans_team_id_teams_id_fk"
+  }),
   index("action_plans_search_id_idx").on(table.searchId),
+  index("action_plans_team_id_idx").on(table.teamId),
   index("action_plans_user_id_idx").on(table.userId),
   index("action_plans_status_idx").on(table.status),
   index("action_plans_user_status_idx").on(table.userId, table.status),
@@ -1184,6 +1516,8 @@ export const planPhases = pgTable("plan_phases", {
   description: text(),
   order: integer().notNull(),
   estimatedDuration: varchar("estimated_duration", { length: 50 }), // e.g., "2 weeks"
+  startDate: timestamp("start_date", { mode: 'string' }),
+  dueDate: timestamp("due_date", { mode: 'string' }),
   isCustom: boolean("is_custom").default(false).notNull(),
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
@@ -1211,6 +1545,9 @@ export const planTasks = pgTable("plan_tasks", {
   status: text().default('not_started').notNull(), // 'not_started' | 'in_progress' | 'completed' | 'skipped'
   isCustom: boolean("is_custom").default(false).notNull(),
   assigneeId: integer("assignee_id"),
+  startDate: timestamp("start_date", { mode: 'string' }), // Pinned start; the schedule never starts the task earlier
+  dueDate: timestamp("due_date", { mode: 'string' }),
+  overdueNotifiedAt: timestamp("overdue_notified_at", { mode: 'string' }), // Last task_overdue notification, cleared when the due date changes
   completedAt: timestamp("completed_at", { mode: 'string' }),
   completedBy: integer("completed_by"),
   createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
@@ -1243,6 +1580,7 @@ export const planTasks = pgTable("plan_tasks", {
   index("plan_tasks_phase_order_idx").on(table.phaseId, table.order),
   index("plan_tasks_assignee_id_idx").on(table.assigneeId),
   index("plan_tasks_completed_at_idx").on(table.completedAt.desc()),
+  index("plan_tasks_due_date_idx").on(table.dueDate),
   unique("plan_tasks_phase_order_unique").on(table.phaseId, table.order),
 ]);
 
@@ -1297,11 +1635,7 @@ export const taskHistory = pgTable("task_history", {
   newState: jsonb("new_state"),
   timestamp: timestamp({ mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
-  foreignKey({
-    columns: [table.taskId],
-    foreignColumns: [planTasks.id],
-    name: "task_history_task_id_plan_tasks_id_fk"
-  }),
+  // No foreign key on task_id: history outlives tasks removed by a version restore
   foreignKey({
     columns: [table.userId],
     foreignColumns: [users.id],
@@ -1336,6 +1670,31 @@ export const progressSnapshots = pgTable("progress_snapshots", {
   index("progress_snapshots_plan_timestamp_idx").on(table.planId, table.timestamp.desc()),
 ]);
 
+// Plan Versions table (named checkpoints and automatic snapshots)
+export const planVersions = pgTable("plan_versions", {
+  id: serial().primaryKey().notNull(),
+  planId: integer("plan_id").notNull(),
+  version: integer().notNull(), // 1-based, increasing per plan
+  name: varchar({ length: 200 }).notNull(),
+  kind: text().default('manual').notNull(), // 'manual' | 'auto'
+  snapshot: jsonb().notNull(), // PlanVersionSnapshot
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.planId],
+    foreignColumns: [actionPlans.id],
+    name: "plan_versions_plan_id_action_plans_id_fk"
+  }),
+  foreignKey({
+    columns: [table.createdBy],
+    foreignColumns: [users.id],
+    name: "plan_versions_created_by_users_id_fk"
+  }),
+  index("plan_versions_plan_id_idx").on(table.planId),
+  unique("plan_versions_plan_version_unique").on(table.planId, table.version),
+]);
+
 // Add foreign key for template reference in action_plans
 // (This is handled in the migration file as an ALTER TABLE statement)
 
@@ -1357,6 +1716,8 @@ export type TaskHistory = typeof taskHistory.$inferSelect;
 export type InsertTaskHistory = typeof taskHistory.$inferInsert;
 export type ProgressSnapshot = typeof progressSnapshots.$inferSelect;
 export type InsertProgressSnapshot = typeof progressSnapshots.$inferInsert;
+export type PlanVersion = typeof planVersions.$inferSelect;
+export type InsertPlanVersion = typeof planVersions.$inferInsert;
 
 // ============================================================================
 // Action Plan Validation Schemas
@@ -1392,6 +1753,8 @@ export const updatePlanPhaseSchema = z.object({
   description: z.string().optional(),
   order: z.number().int().min(0).optional(),
   estimatedDuration: z.string().max(50).optional(),
+  startDate: z.string().datetime().nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
 });
 
 export const createPlanTaskSchema = z.object({
@@ -1405,6 +1768,8 @@ export const createPlanTaskSchema = z.object({
   status: z.enum(['not_started', 'in_progress', 'completed', 'skipped']).optional().default('not_started'),
   isCustom: z.boolean().optional().default(false),
   assigneeId: z.number().int().positive().optional(),
+  startDate: z.string().datetime().optional(),
+  dueDate: z.string().datetime().optional(),
 });
 
 export const updatePlanTaskSchema = z.object({
@@ -1415,6 +1780,12 @@ export const updatePlanTaskSchema = z.object({
   order: z.number().int().min(0).optional(),
   status: z.enum(['not_started', 'in_progress', 'completed', 'skipped']).optional(),
   assigneeId: z.number().int().positive().optional(),
+  startDate: z.string().datetime().nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
+});
+
+export const createPlanVersionSchema = z.object({
+  name: z.string().trim().min(1, "Version name is required").max(200),
 });
 
 export const createTaskDependencySchema = z.object({
@@ -1472,6 +1843,7 @@ export type CreatePlanPhase = z.infer<typeof createPlanPhaseSchema>;
 export type UpdatePlanPhase = z.infer<typeof updatePlanPhaseSchema>;
 export type CreatePlanTask = z.infer<typeof createPlanTaskSchema>;
 export type UpdatePlanTask = z.infer<typeof updatePlanTaskSchema>;
+export type CreatePlanVersion = z.infer<typeof createPlanVersionSchema>;
 export type CreateTaskDependency = z.infer<typeof createTaskDependencySchema>;
 export type ValidateDependencies = z.infer<typeof validateDependenciesSchema>;
 export type ReorderTasks = z.infer<typeof reorderTasksSchema>;
@@ -1504,6 +1876,159 @@ export interface DependencyValidation {
   circularDependencies: string[][];
 }
 
+// ============================================================================
+// Plan Schedule Interfaces
+// ============================================================================
+
+export interface WorkingCalendar {
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  hoursPerDay: number;
+  dayStartHour: number; // Local hour the working day starts
+  holidays: string[]; // YYYY-MM-DD
+}
+
+export interface TaskSchedule {
+  taskId: number;
+  title: string;
+  phaseId: number;
+  assigneeId: number | null;
+  status: string;
+  durationHours: number; // Working hours on the calendar, after capacity scaling
+  estimateSource: 'parsed' | 'default' | 'done';
+  // Offsets from the schedule start, in working hours
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slackHours: number;
+  isCritical: boolean;
+  startDate: string;
+  finishDate: string;
+}
+
+export interface PlanSchedule {
+  planId: number;
+  startDate: string;
+  finishDate: string;
+  totalWorkingHours: number;
+  calendar: WorkingCalendar;
+  criticalPath: number[]; // Task IDs in execution order
+  tasks: TaskSchedule[];
+}
+
+// ============================================================================
+// Plan Import Interfaces
+// ============================================================================
+
+export interface TaskFieldChange {
+  field: 'title' | 'description' | 'status' | 'estimatedTime' | 'resources' | 'order' | 'startDate' | 'dueDate' | 'phase';
+  from: unknown;
+  to: unknown;
+}
+
+export interface ImportedTaskCreate {
+  row: number;
+  phaseId: number;
+  phaseName: string;
+  title: string;
+  description: string | null;
+  status: 'not_started' | 'in_progress' | 'completed' | 'skipped';
+  estimatedTime: string | null;
+  resources: string[];
+  order: number;
+  startDate: string | null;
+  dueDate: string | null;
+}
+
+export interface ImportedTaskUpdate {
+  row: number;
+  taskId: number;
+  title: string;
+  phaseId: number;
+  changes: TaskFieldChange[];
+}
+
+export interface PlanImportDiff {
+  created: ImportedTaskCreate[];
+  updated: ImportedTaskUpdate[];
+  deleted: Array<{ taskId: number; title: string; phaseName: string }>;
+  unchanged: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface PlanImportResult {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+// ============================================================================
+// Plan Version Interfaces
+// ============================================================================
+
+export interface PlanVersionTask {
+  id: number;
+  title: string;
+  description: string | null;
+  estimatedTime: string | null;
+  resources: string[];
+  order: number;
+  status: string;
+  isCustom: boolean;
+  assigneeId: number | null;
+  startDate: string | null;
+  dueDate: string | null;
+  completedAt: string | null;
+  completedBy: number | null;
+}
+
+export interface PlanVersionPhase {
+  id: number;
+  name: string;
+  description: string | null;
+  order: number;
+  estimatedDuration: string | null;
+  isCustom: boolean;
+  startDate: string | null;
+  dueDate: string | null;
+  tasks: PlanVersionTask[];
+}
+
+export interface PlanVersionSnapshot {
+  plan: {
+    title: string;
+    description: string | null;
+    status: string;
+  };
+  phases: PlanVersionPhase[];
+  dependencies: Array<{ taskId: number; prerequisiteTaskId: number }>;
+}
+
+// Version list entries leave out the snapshot
+export type PlanVersionSummary = Omit<PlanVersion, 'snapshot'>;
+
+export interface PlanVersionDiff {
+  plan: Array<{ field: 'title' | 'description' | 'status'; from: string | null; to: string | null }>;
+  phases: {
+    added: Array<{ id: number; name: string }>;
+    removed: Array<{ id: number; name: string }>;
+    moved: Array<{ id: number; name: string; fromOrder: number; toOrder: number }>;
+    renamed: Array<{ id: number; from: string; to: string }>;
+  };
+  tasks: {
+    added: Array<{ id: number; title: string; phaseName: string }>;
+    removed: Array<{ id: number; title: string; phaseName: string }>;
+    // Changed phase, or changed position within the same phase
+    moved: Array<{ id: number; title: string; fromPhase: string; toPhase: string; fromOrder: number; toOrder: number }>;
+    restatused: Array<{ id: number; title: string; from: string; to: string }>;
+    edited: Array<{ id: number; title: string; fields: string[] }>;
+  };
+  dependencies: {
+    added: Array<{ taskId: number; prerequisiteTaskId: number }>;
+    removed: Array<{ taskId: number; prerequisiteTaskId: number }>;
+  };
+}
+
 // Feature Flags table for gradual rollout and A/B testing
 export const featureFlags = pgTable("feature_flags", {
   id: serial().primaryKey().notNull(),
@@ -1544,3 +2069,348 @@ export const userFeatureFlags = pgTable("user_feature_flags", {
   index("idx_user_feature_flags_user_id").on(table.userId),
   index("idx_user_feature_flags_feature_flag_id").on(table.featureFlagId),
 ]);
+
+// Gap Analysis Cache table - persistent, similarity-aware cache of AI gap analyses
+export const gapAnalysisCache = pgTable("gap_analysis_cache", {
+  id: serial().primaryKey().notNull(),
+  normalizedQuery: text("normalized_query").notNull(), // Lowercased, stopword-free, sorted tokens
+  query: text().notNull(), // Original query that produced the results
+  results: jsonb().notNull(), // GapAnalysisResult[]
+  provider: varchar({ length: 50 }).notNull(),
+  hitCount: integer("hit_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at", { mode: 'string' }).notNull(),
+  lastHitAt: timestamp("last_hit_at", { mode: 'string' }),
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  unique("gap_analysis_cache_normalized_query_unique").on(table.normalizedQuery),
+  index("idx_gap_analysis_cache_expires_at").on(table.expiresAt),
+]);
+
+export type GapAnalysisCacheEntry = typeof gapAnalysisCache.$inferSelect;
+
+// Financial Assumption Sets table - editable inputs for the monthly financial model
+export const financialAssumptionSets = pgTable("financial_assumption_sets", {
+  id: serial().primaryKey().notNull(),
+  ideaId: integer("idea_id").notNull(),
+  userId: integer("user_id").notNull(),
+  name: varchar({ length: 100 }).notNull(),
+  assumptions: jsonb().notNull(), // FinancialAssumptions
+  isActive: boolean("is_active").default(false).notNull(),
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.ideaId],
+    foreignColumns: [ideas.id],
+    name: "financial_assumption_sets_idea_id_ideas_id_fk"
+  }),
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "financial_assumption_sets_user_id_users_id_fk"
+  }),
+  index("idx_financial_assumption_sets_idea_id").on(table.ideaId),
+]);
+
+export const hiringPlanEntrySchema = z.object({
+  role: z.string().min(1).max(100),
+  startMonth: z.number().int().min(1).max(60),
+  monthlySalary: z.number().min(0).max(1000000),
+  count: z.number().int().min(1).max(1000).default(1),
+});
+
+export const financialAssumptionsSchema = z.object({
+  months: z.number().int().min(36).max(60),
+  startingCash: z.number().min(0).max(100000000),
+  startingCustomers: z.number().int().min(0).max(10000000),
+  pricing: z.object({
+    monthlyPricePerCustomer: z.number().min(0).max(1000000),
+    annualPriceIncrease: z.number().min(0).max(1),
+  }),
+  funnel: z.object({
+    monthlyVisitors: z.number().min(0).max(100000000),
+    monthlyVisitorGrowth: z.number().min(-0.5).max(1),
+    signupRate: z.number().min(0).max(1),
+    paidConversionRate: z.number().min(0).max(1),
+  }),
+  monthlyChurnRate: z.number().min(0).max(1),
+  customerAcquisitionCost: z.number().min(0).max(1000000),
+  cogsPercent: z.number().min(0).max(1),
+  fixedMonthlyExpenses: z.number().min(0).max(10000000),
+  annualExpenseInflation: z.number().min(0).max(1),
+  hiringPlan: z.array(hiringPlanEntrySchema).max(100),
+});
+
+export type FinancialAssumptionSet = typeof financialAssumptionSets.$inferSelect;
+export type InsertFinancialAssumptionSet = typeof financialAssumptionSets.$inferInsert;
+export type HiringPlanEntry = z.infer<typeof hiringPlanEntrySchema>;
+export type FinancialAssumptions = z.infer<typeof financialAssumptionsSchema>;
+
+// Monte Carlo simulation inputs - distributions sampled once per simulated run
+export const distributionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('fixed'), value: z.number() }),
+  z.object({ type: z.literal('uniform'), min: z.number(), max: z.number() }),
+  z.object({ type: z.literal('normal'), mean: z.number(), stdDev: z.number().min(0) }),
+  z.object({ type: z.literal('triangular'), min: z.number(), mode: z.number(), max: z.number() }),
+]).superRefine((distribution, ctx) => {
+  if (distribution.type === 'uniform' && distribution.max < distribution.min) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'max must be greater than or equal to min' });
+  }
+  if (distribution.type === 'triangular' &&
+      !(distribution.min <= distribution.mode && distribution.mode <= distribution.max)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'triangular requires min <= mode <= max' });
+  }
+});
+
+export const simulationDriversSchema = z.object({
+  monthlyVisitorGrowth: distributionSchema.optional(),
+  monthlyChurnRate: distributionSchema.optional(),
+  customerAcquisitionCost: distributionSchema.optional(),
+  fixedMonthlyExpenses: distributionSchema.optional(),
+});
+
+export const monteCarloOptionsSchema = z.object({
+  iterations: z.number().int().min(100).max(5000).default(1000),
+  seed: z.number().int().min(0).max(2147483647).default(1),
+  drivers: simulationDriversSchema.default({}),
+});
+
+export type Distribution = z.infer<typeof distributionSchema>;
+export type SimulationDrivers = z.infer<typeof simulationDriversSchema>;
+export type MonteCarloOptions = z.infer<typeof monteCarloOptionsSchema>;
+
+// AI Budgets table - monthly AI spend ceilings for a user or a team
+export const aiBudgetScopeEnum = ['user', 'team'] as const;
+export type AIBudgetScope = typeof aiBudgetScopeEnum[number];
+
+// What happens to a call that would take spend over the limit
+export const aiBudgetHardCapActionEnum = ['degrade', 'block'] as const;
+export type AIBudgetHardCapAction = typeof aiBudgetHardCapActionEnum[number];
+
+export const aiBudgets = pgTable("ai_budgets", {
+  id: serial().primaryKey().notNull(),
+  scope: varchar({ length: 10 }).notNull(), // 'user' | 'team'
+  userId: integer("user_id"),
+  teamId: integer("team_id"),
+  monthlyLimitCents: integer("monthly_limit_cents"), // null uses the default for the user's tier or the team's plan
+  alertThresholds: jsonb("alert_thresholds").default([50, 80, 100]).notNull(), // percentages of the limit that notify
+  hardCapAction: varchar("hard_cap_action", { length: 10 }).default('degrade').notNull(), // 'degrade' | 'block'
+  overrideLimitCents: integer("override_limit_cents"), // Admin override, replaces the limit until it expires
+  overrideExpiresAt: timestamp("override_expires_at", { mode: 'string' }),
+  overrideReason: text("override_reason"),
+  updatedBy: integer("updated_by"),
+  lastAlertPeriod: varchar("last_alert_period", { length: 7 }), // 'YYYY-MM' of the last alert sent
+  lastAlertThreshold: integer("last_alert_threshold"), // Highest threshold alerted in that period
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "ai_budgets_user_id_users_id_fk"
+  }),
+  foreignKey({
+    columns: [table.teamId],
+    foreignColumns: [teams.id],
+    name: "ai_budgets_team_id_teams_id_fk"
+  }),
+  foreignKey({
+    columns: [table.updatedBy],
+    foreignColumns: [users.id],
+    name: "ai_budgets_updated_by_users_id_fk"
+  }),
+  unique("ai_budgets_user_unique").on(table.userId),
+  unique("ai_budgets_team_unique").on(table.teamId),
+]);
+
+// AI Spend Ledger table - cost of every AI call, summed per month against budgets
+export const aiSpendLedger = pgTable("ai_spend_ledger", {
+  id: serial().primaryKey().notNull(),
+  userId: integer("user_id").notNull(),
+  conversationId: integer("conversation_id"),
+  feature: varchar({ length: 50 }).notNull(), // AI feature that made the call, e.g. 'conversation_answer' or 'gap_analysis'
+  model: varchar({ length: 100 }).notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  costMicros: integer("cost_micros").notNull(), // Millionths of a dollar
+  degraded: boolean().default(false).notNull(), // Answered by the cheaper model to stay within budget
+  status: varchar({ length: 10 }).default('settled').notNull(), // 'pending' holds an estimate while a call runs, 'settled' is actual spend
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "ai_spend_ledger_user_id_users_id_fk"
+  }),
+  foreignKey({
+    columns: [table.conversationId],
+    foreignColumns: [conversations.id],
+    name: "ai_spend_ledger_conversation_id_conversations_id_fk"
+  }),
+  index("idx_ai_spend_ledger_user_created").on(table.userId, table.createdAt),
+]);
+
+export type AIBudget = typeof aiBudgets.$inferSelect;
+export type InsertAIBudget = typeof aiBudgets.$inferInsert;
+export type AISpendLedgerEntry = typeof aiSpendLedger.$inferSelect;
+
+/**
+ * A budget's standing for the current month, as shown to admins
+ */
+export interface AIBudgetStatus {
+  /** Null for a user on their tier default who has no budget row yet */
+  budget: AIBudget | null;
+  scope: AIBudgetScope;
+  userId: number | null;
+  teamId: number | null;
+  /** User's email or team's name */
+  name: string;
+  /** Limit in force, after any active override */
+  limitCents: number;
+  spentCents: number;
+  percentUsed: number;
+  overrideActive: boolean;
+  hardCapAction: AIBudgetHardCapAction;
+}
+
+/**
+ * Outcome of checking an AI call against every budget it counts toward
+ */
+export interface AIBudgetDecision {
+  action: 'allow' | 'degrade' | 'block';
+  /** Model to call; the cheaper model when degraded */
+  model: string;
+  estimatedCostMicros: number;
+  /** Ledger row holding the estimated cost until the call's spend is recorded; absent when blocked */
+  reservationId?: number;
+  /** Budget that forced the degrade or block */
+  limitingBudget?: Pick<AIBudgetStatus, 'scope' | 'userId' | 'teamId' | 'limitCents' | 'spentCents'>;
+}
+
+// Prompt Templates table - editable prompts for AI features, served by key
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial().primaryKey().notNull(),
+  key: varchar({ length: 100 }).notNull(), // e.g. 'conversation_system'
+  name: varchar({ length: 200 }).notNull(),
+  description: text(),
+  variables: jsonb().default([]).notNull(), // Variable names the prompt may use as {{name}}
+  activeVersionId: integer("active_version_id"), // Version served to everyone outside an experiment
+  experimentVersionId: integer("experiment_version_id"), // Version served to the experiment flag's rollout
+  experimentFlag: varchar("experiment_flag", { length: 100 }), // Feature flag splitting traffic to the experiment version
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  unique("prompt_templates_key_unique").on(table.key),
+]);
+
+// Prompt Template Versions table - immutable revisions of a prompt
+export const promptTemplateVersions = pgTable("prompt_template_versions", {
+  id: serial().primaryKey().notNull(),
+  templateId: integer("template_id").notNull(),
+  version: integer().notNull(), // 1, 2, 3... per template
+  content: text().notNull(),
+  notes: text(), // What changed and why
+  createdBy: integer("created_by"), // Null for the built-in default
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.templateId],
+    foreignColumns: [promptTemplates.id],
+    name: "prompt_template_versions_template_id_prompt_templates_id_fk"
+  }),
+  foreignKey({
+    columns: [table.createdBy],
+    foreignColumns: [users.id],
+    name: "prompt_template_versions_created_by_users_id_fk"
+  }),
+  unique("prompt_template_versions_template_version_unique").on(table.templateId, table.version),
+]);
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+
+/**
+ * A prompt rendered for one AI call, with the version it came from
+ */
+export interface RenderedPrompt {
+  content: string;
+  /** Null when the built-in default was served */
+  versionId: number | null;
+  version: number | null;
+  /** Served as part of the template's experiment */
+  experiment: boolean;
+}
+
+/**
+ * How a prompt version's conversation answers were received
+ */
+export interface PromptVersionMetrics {
+  versionId: number;
+  version: number;
+  active: boolean;
+  experiment: boolean;
+  answers: number;
+  ratedAnswers: number;
+  /** 1-5, null until an answer is rated */
+  avgRating: number | null;
+  /** Share of rated answers rated 4 or 5 */
+  positiveRate: number | null;
+  avgResponseTime: number | null;
+  avgTokens: number | null;
+}
+
+// Notifications table - in-app notification inbox, pushed over /ws as they are created
+export const notifications = pgTable("notifications", {
+  id: serial().primaryKey().notNull(),
+  userId: integer("user_id").notNull(),
+  type: varchar({ length: 50 }).notNull(), // NotificationType, e.g. 'task_assigned'
+  title: varchar({ length: 200 }).notNull(),
+  message: text().notNull(),
+  metadata: jsonb().default({}).notNull(), // { planId?, taskId?, phaseId?, ... }
+  actionUrl: text("action_url"), // Page the notification links to
+  readAt: timestamp("read_at", { mode: 'string' }), // Null while unread
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notifications_user_id_users_id_fk"
+  }),
+  index("idx_notifications_user_created").on(table.userId, table.createdAt),
+  index("idx_notifications_user_unread").on(table.userId).where(sql`${table.readAt} IS NULL`),
+]);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export const collaborativeDocuments = pgTable("collaborative_documents", {
+  id: serial().primaryKey().notNull(),
+  roomId: varchar("room_id", { length: 100 }).notNull(), // e.g. 'plan:12', 'idea:4'
+  docKey: varchar("doc_key", { length: 100 }).notNull(), // e.g. 'description', 'notes', 'task:7:description'
+  state: jsonb().notNull(), // TextDocumentState snapshot (shared/crdt.ts)
+  seq: integer().default(0).notNull(), // Sequence number of the last update applied to the snapshot
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  unique("collaborative_documents_room_doc_key").on(table.roomId, table.docKey),
+]);
+
+export const collaborativeDocumentUpdates = pgTable("collaborative_document_updates", {
+  id: serial().primaryKey().notNull(),
+  documentId: integer("document_id").notNull(),
+  seq: integer().notNull(),
+  userId: integer("user_id"), // Null for server-side seeding
+  clientId: varchar("client_id", { length: 64 }).notNull(), // Editor session that produced the operations
+  operations: jsonb().notNull(), // TextOperation[]
+  createdAt: timestamp("created_at", { mode: 'string' }).defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.documentId],
+    foreignColumns: [collaborativeDocuments.id],
+    name: "collaborative_document_updates_document_id_fk"
+  }),
+  unique("collaborative_document_updates_document_seq").on(table.documentId, table.seq),
+]);
+
+export type CollaborativeDocument = typeof collaborativeDocuments.$inferSelect;
+export type CollaborativeDocumentUpdate = typeof collaborativeDocumentUpdates.$inferSelect;
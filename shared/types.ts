@@ -291,6 +291,15 @@ export interface ActionButton {
 /**
  * Search Result Types
  */
+/**
+ * Records which AI provider produced a search result and, per field,
+ * whether the value came from the model or was repaired, derived or defaulted
+ */
+export interface SearchResultProvenance {
+  provider: string;
+  fields: Partial<Record<string, 'model' | 'repaired' | 'derived' | 'defaulted'>>;
+}
+
 export interface SearchResultInput {
   searchId: number;
   title: string;
@@ -309,6 +318,7 @@ export interface SearchResultInput {
   industryContext?: string;
   targetAudience?: string;
   keyTrends?: string[];
+  fieldProvenance?: SearchResultProvenance;
   // Additional fields for filtering and sorting
   opportunity?: string;
   relevanceScore?: number;